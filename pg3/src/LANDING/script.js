@@ -1,4 +1,9 @@
 let ALL_CATEGORIES = [];
+const API_KEY_STORAGE = 'pg3.apiKey';
+
+function getApiKey() {
+    return localStorage.getItem(API_KEY_STORAGE) || '';
+}
 
 document.addEventListener('DOMContentLoaded', async () => {
     // Load Categories for Autocomplete
@@ -20,14 +25,19 @@ document.addEventListener('DOMContentLoaded', async () => {
         input.addEventListener('input', updateStrategyPreview);
     });
 
-    // Update Status Mock
-    setInterval(() => {
-        const load = Math.floor(Math.random() * 30) + 10;
-        document.getElementById('queueLoad').textContent = `${load}%`;
-    }, 3000);
-
     // Check initial health
     checkHealth();
+
+    // API key (kept in this browser only)
+    const apiKeyInput = document.getElementById('apiKey');
+    apiKeyInput.value = getApiKey();
+    apiKeyInput.addEventListener('change', () => {
+        localStorage.setItem(API_KEY_STORAGE, apiKeyInput.value.trim());
+        connectLiveStream();
+    });
+
+    // Live queue counts + company updates (SSE)
+    connectLiveStream();
 });
 
 function setupAutocomplete(input) {
@@ -142,6 +152,76 @@ async function checkHealth() {
     }
 }
 
+const LIVE_FEED_MAX = 25;
+const PIPELINE_QUEUES = ['scrape', 'enrichment', 'discovery', 'financial'];
+let liveSource = null;
+
+function connectLiveStream(jobId) {
+    if (!window.EventSource) return;
+    if (liveSource) liveSource.close();
+
+    // EventSource cannot send headers: the key travels as a query parameter
+    const params = new URLSearchParams();
+    if (jobId) params.set('job_id', jobId);
+    if (getApiKey()) params.set('api_key', getApiKey());
+    const url = `/api/events${params.toString() ? `?${params}` : ''}`;
+    liveSource = new EventSource(url);
+    document.getElementById('liveJobId').textContent = jobId || '';
+
+    liveSource.addEventListener('snapshot', (e) => {
+        const data = JSON.parse(e.data);
+        document.getElementById('liveFeed').innerHTML = '';
+        data.recent.forEach(renderCompanyUpdate);
+        if (data.stats) renderStats(data.stats);
+    });
+    liveSource.addEventListener('stats', (e) => renderStats(JSON.parse(e.data)));
+    liveSource.addEventListener('company', (e) => renderCompanyUpdate(JSON.parse(e.data)));
+    liveSource.addEventListener('job', (e) => renderJobProgress(JSON.parse(e.data)));
+}
+
+function renderStats(stats) {
+    let active = 0;
+    let waiting = 0;
+    PIPELINE_QUEUES.forEach(name => {
+        const counts = stats.queues[name];
+        if (!counts) return;
+        active += counts.active;
+        waiting += counts.waiting + counts.delayed;
+    });
+    document.getElementById('queueLoad').textContent = `${active} active / ${waiting} queued`;
+    document.getElementById('throughput').textContent = `${stats.throughput_per_min}/min`;
+}
+
+function renderCompanyUpdate(event) {
+    const feed = document.getElementById('liveFeed');
+    const item = document.createElement('li');
+
+    const status = document.createElement('span');
+    status.className = `live-status ${event.status}`;
+    status.textContent = event.status;
+
+    const name = document.createElement('span');
+    name.textContent = event.website ? `${event.company_name} → ${event.website}` : event.company_name;
+
+    item.appendChild(status);
+    item.appendChild(name);
+    feed.insertBefore(item, feed.firstChild);
+    while (feed.children.length > LIVE_FEED_MAX) {
+        feed.removeChild(feed.lastChild);
+    }
+}
+
+function renderJobProgress(details) {
+    const { job, progress } = details;
+    document.getElementById('liveProgress').style.display = 'block';
+    document.getElementById('liveProgressFill').style.width = `${progress.percent}%`;
+
+    const scraped = progress.scrape.completed + progress.scrape.failed;
+    const enriched = progress.enrichment.succeeded + progress.enrichment.failed;
+    document.getElementById('liveJobMeta').textContent =
+        `${job.status} · ${progress.percent}% · scrape ${scraped}/${progress.scrape.total} · enrich ${enriched}/${progress.enrichment.enqueued}`;
+}
+
 document.getElementById('launchBtn').addEventListener('click', async () => {
     const niche = document.getElementById('niche').value.trim();
     const province = document.getElementById('province').value.trim();
@@ -174,16 +254,17 @@ document.getElementById('launchBtn').addEventListener('click', async () => {
             }
         };
 
-        const response = await fetch('/api/start-job', {
+        const response = await fetch('/api/jobs', {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${getApiKey()}` },
             body: JSON.stringify(payload)
         });
 
         const result = await response.json();
 
         if (result.success) {
-            alert(`✅ SCRAPER LAUNCHED!\n\nJob ID: ${result.jobId}\nTarget: ${niche} → ${province}\n\nCheck output/campaigns/ for results.`);
+            alert(`✅ SCRAPER LAUNCHED!\n\nJob ID: ${result.jobId}\nTarget: ${niche} → ${province}\nScrape tasks: ${result.tasks}`);
+            connectLiveStream(result.jobId);
         } else {
             alert(`❌ ERROR: ${result.message}`);
         }
@@ -0,0 +1,264 @@
+/**
+ * 🏁 DISCOVERY ACCURACY BENCHMARK
+ * Runs UnifiedDiscoveryService.discover over a ground-truth dataset (./ground_truth.ts), once
+ * per DiscoveryMode, and scores every result against its label:
+ *
+ *   correct_website      FOUND_VALID on the expected domain (or one of its subdomains)
+ *   correct_no_website   nothing valid found for a company without a website
+ *   wrong_website        FOUND_VALID on another domain, or on any domain for a company without one
+ *   missed_website       nothing valid found for a company with a website
+ *   error                discovery threw or returned ERROR
+ *
+ * Each mode is stored as one benchmark run (summary + per-company results) in the result
+ * store, so runs of the same dataset can be compared after a scoring or provider change.
+ * Cost is what discovery reports (paid providers + LLM calls). SERP cache hits are free, so
+ * later runs (and later modes of the same run) look cheaper: turn SERP_CACHE_ENABLED off to
+ * compare costs.
+ */
+
+import * as crypto from 'crypto';
+import pLimit from 'p-limit';
+import { BenchmarkOutcome, BenchmarkResult, BenchmarkRunRecord, GroundTruthLabelRecord } from '../db/model';
+import { initializeResultStore } from '../db/result_store';
+import { normalizeDomain } from '../reconciliation/shared_domains';
+import { CompanyInput } from '../types';
+import { Logger } from '../utils/logger';
+import { isDiscoveryMode } from '../core/discovery/layers/mode_profiles';
+import type { DiscoveryResult } from '../core/discovery/unified_discovery_service';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+
+export interface BenchmarkCounts {
+    companies: number;
+    correct: number;
+    wrong_websites: number;
+    missed: number;
+    errors: number;
+}
+
+export interface BenchmarkSummary extends BenchmarkCounts {
+    /** Correct outcomes (website or no website) / companies */
+    accuracy: number;
+    /** Wrong websites / websites returned (0 when none returned) */
+    false_positive_rate: number;
+    /** Websites returned / companies */
+    coverage: number;
+    /** Correct websites / companies that have one (0 without any) */
+    recall: number;
+    cost_eur: number;
+    avg_cost_eur: number;
+    avg_latency_ms: number;
+    p95_latency_ms: number;
+    /** Counts per reason_code of the discovery result (`NONE` when it had none) */
+    by_reason_code: Record<string, BenchmarkCounts>;
+}
+
+export type BenchmarkDiscover = (company: CompanyInput, mode: string) => Promise<DiscoveryResult>;
+
+export interface RunBenchmarkOptions {
+    dataset: string;
+    /** DiscoveryModes or mode profiles to run (default DEEP_RUN2) */
+    modes?: string[];
+    /** Only the first N labels of the dataset */
+    limit?: number;
+    concurrency?: number;
+    /** Discovery to benchmark (default: a new UnifiedDiscoveryService per mode) */
+    discover?: (mode: string) => Promise<BenchmarkDiscover>;
+    /** Clock for latencies (ms) */
+    now?: () => number;
+}
+
+export interface BenchmarkRunDiff {
+    /** Labels correct in the second run only */
+    fixed: string[];
+    /** Labels correct in the first run only */
+    regressed: string[];
+    /** Labels in both runs whose outcome changed between two wrong outcomes */
+    changed: string[];
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+function isCorrect(outcome: BenchmarkOutcome): boolean {
+    return outcome === 'correct_website' || outcome === 'correct_no_website';
+}
+
+export function classifyOutcome(expectedDomain: string | null, result: Pick<DiscoveryResult, 'url' | 'status'>): BenchmarkOutcome {
+    if (result.status === 'ERROR') {
+        return 'error';
+    }
+    const domain = result.status === 'FOUND_VALID' && result.url ? normalizeDomain(result.url) : undefined;
+    if (!domain) {
+        return expectedDomain ? 'missed_website' : 'correct_no_website';
+    }
+    if (expectedDomain && (domain === expectedDomain || domain.endsWith(`.${expectedDomain}`))) {
+        return 'correct_website';
+    }
+    return 'wrong_website';
+}
+
+function emptyCounts(): BenchmarkCounts {
+    return { companies: 0, correct: 0, wrong_websites: 0, missed: 0, errors: 0 };
+}
+
+function count(counts: BenchmarkCounts, outcome: BenchmarkOutcome): void {
+    counts.companies++;
+    if (isCorrect(outcome)) {
+        counts.correct++;
+    } else if (outcome === 'wrong_website') {
+        counts.wrong_websites++;
+    } else if (outcome === 'missed_website') {
+        counts.missed++;
+    } else {
+        counts.errors++;
+    }
+}
+
+function round(value: number, digits: number): number {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+}
+
+export function summarizeBenchmark(results: BenchmarkResult[]): BenchmarkSummary {
+    const totals = emptyCounts();
+    const by_reason_code: Record<string, BenchmarkCounts> = {};
+    for (const result of results) {
+        count(totals, result.outcome);
+        const reason = result.reason_code || 'NONE';
+        by_reason_code[reason] = by_reason_code[reason] || emptyCounts();
+        count(by_reason_code[reason], result.outcome);
+    }
+
+    const returned = results.filter((result) => result.url !== null).length;
+    const withWebsite = results.filter((result) => result.expected_domain !== null).length;
+    const correctWebsites = results.filter((result) => result.outcome === 'correct_website').length;
+    const cost = results.reduce((sum, result) => sum + result.cost_eur, 0);
+    const latencies = results.map((result) => result.latency_ms).sort((a, b) => a - b);
+    const companies = results.length;
+
+    return {
+        ...totals,
+        accuracy: companies > 0 ? round(totals.correct / companies, 4) : 0,
+        false_positive_rate: returned > 0 ? round(totals.wrong_websites / returned, 4) : 0,
+        coverage: companies > 0 ? round(returned / companies, 4) : 0,
+        recall: withWebsite > 0 ? round(correctWebsites / withWebsite, 4) : 0,
+        cost_eur: round(cost, 4),
+        avg_cost_eur: companies > 0 ? round(cost / companies, 4) : 0,
+        avg_latency_ms: companies > 0 ? Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / companies) : 0,
+        p95_latency_ms: companies > 0 ? latencies[Math.min(companies - 1, Math.ceil(companies * 0.95) - 1)] : 0,
+        by_reason_code,
+    };
+}
+
+async function defaultDiscover(): Promise<BenchmarkDiscover> {
+    // Loaded lazily: the discovery service pulls in the browser stack
+    const { UnifiedDiscoveryService } = await import('../core/discovery/unified_discovery_service');
+    // A service per mode: its verification cache must not carry one mode's work into the next
+    const service = new UnifiedDiscoveryService();
+    return (company, mode) => service.discover(company, mode);
+}
+
+async function benchmarkLabel(
+    label: GroundTruthLabelRecord,
+    mode: string,
+    discover: BenchmarkDiscover,
+    now: () => number
+): Promise<BenchmarkResult> {
+    const started = now();
+    let result: Pick<DiscoveryResult, 'url' | 'status' | 'reason_code' | 'cost_eur'>;
+    try {
+        result = await discover(label.company, mode);
+    } catch (error) {
+        Logger.warn(`[Benchmark] Discovery failed for ${label.company.company_name}`, { error: error as Error });
+        result = { url: null, status: 'ERROR', reason_code: 'ERROR_BENCHMARK_EXCEPTION' };
+    }
+    const outcome = classifyOutcome(label.expected_domain, result);
+    return {
+        label_id: label.label_id,
+        expected_domain: label.expected_domain,
+        url: result.status === 'FOUND_VALID' ? result.url : null,
+        status: result.status,
+        reason_code: result.reason_code ?? null,
+        outcome,
+        cost_eur: result.cost_eur ?? 0,
+        latency_ms: now() - started,
+    };
+}
+
+/**
+ * Benchmark every mode over the dataset; returns the stored runs, in mode order.
+ */
+export async function runBenchmark(options: RunBenchmarkOptions): Promise<Array<BenchmarkRunRecord<BenchmarkSummary>>> {
+    const modes = options.modes && options.modes.length > 0 ? options.modes : ['DEEP_RUN2'];
+    const unknown = modes.filter((mode) => !isDiscoveryMode(mode));
+    if (unknown.length > 0) {
+        throw new ValidationError(`Unknown discovery mode: ${unknown.join(', ')}`);
+    }
+    const store = await initializeResultStore();
+    const labels = (await store.listGroundTruthLabels(options.dataset)).slice(0, options.limit);
+    if (labels.length === 0) {
+        throw new NotFoundError(`No labels in dataset ${options.dataset}`);
+    }
+
+    const now = options.now ?? Date.now;
+    const limit = pLimit(Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY));
+    const runs: Array<BenchmarkRunRecord<BenchmarkSummary>> = [];
+    for (const mode of modes) {
+        const discover = await (options.discover ?? defaultDiscover)(mode);
+        const started_at = new Date(now()).toISOString();
+        Logger.info(`[Benchmark] 🏁 ${options.dataset}: ${labels.length} companies in ${mode}`);
+        const results = await Promise.all(labels.map((label) => limit(() => benchmarkLabel(label, mode, discover, now))));
+        const run: BenchmarkRunRecord<BenchmarkSummary> = {
+            id: crypto.randomUUID(),
+            dataset: options.dataset,
+            mode,
+            started_at,
+            finished_at: new Date(now()).toISOString(),
+            summary: summarizeBenchmark(results),
+        };
+        await store.saveBenchmarkRun({ ...run, results });
+        Logger.info(`[Benchmark] ${mode}: accuracy ${run.summary.accuracy}, false positives ${run.summary.false_positive_rate}`);
+        runs.push(run);
+    }
+    return runs;
+}
+
+/**
+ * Labels whose outcome differs between two runs (labels missing from either run are ignored).
+ */
+export function diffBenchmarkRuns(before: BenchmarkResult[], after: BenchmarkResult[]): BenchmarkRunDiff {
+    const previous = new Map(before.map((result) => [result.label_id, result.outcome]));
+    const diff: BenchmarkRunDiff = { fixed: [], regressed: [], changed: [] };
+    for (const result of after) {
+        const outcome = previous.get(result.label_id);
+        if (outcome === undefined || outcome === result.outcome) {
+            continue;
+        }
+        if (isCorrect(result.outcome) && !isCorrect(outcome)) {
+            diff.fixed.push(result.label_id);
+        } else if (isCorrect(outcome) && !isCorrect(result.outcome)) {
+            diff.regressed.push(result.label_id);
+        } else {
+            diff.changed.push(result.label_id);
+        }
+    }
+    return diff;
+}
+
+export async function listBenchmarkRuns(dataset?: string, limit?: number): Promise<Array<BenchmarkRunRecord<BenchmarkSummary>>> {
+    const store = await initializeResultStore();
+    return store.listBenchmarkRuns<BenchmarkSummary>(dataset, limit);
+}
+
+export async function getBenchmarkRun(runId: string): Promise<{ run: BenchmarkRunRecord<BenchmarkSummary>; results: BenchmarkResult[] }> {
+    const store = await initializeResultStore();
+    const run = await store.getBenchmarkRun<BenchmarkSummary>(runId);
+    if (!run) {
+        throw new NotFoundError(`Benchmark run not found: ${runId}`);
+    }
+    return { run, results: await store.listBenchmarkResults(runId) };
+}
+
+export async function compareBenchmarkRuns(beforeId: string, afterId: string): Promise<BenchmarkRunDiff> {
+    const [before, after] = await Promise.all([getBenchmarkRun(beforeId), getBenchmarkRun(afterId)]);
+    return diffBenchmarkRuns(before.results, after.results);
+}
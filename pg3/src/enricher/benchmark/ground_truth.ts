@@ -0,0 +1,160 @@
+/**
+ * 🎯 GROUND TRUTH LABELS
+ * Companies whose website is known (or known not to exist), grouped in named datasets, so
+ * discovery accuracy can be measured (./accuracy.ts). Labels live in the result store.
+ *
+ * Import format: the scheduler CSV (company_name, city, address, phone, vat_code, ...) plus
+ *   expected_website   the correct domain or URL, or `none` when the company has no website
+ *   label_id           optional, defaults to company_id, then a hash of name + VAT + city
+ *   notes              optional
+ * Rows with an empty expected_website are not labeled yet and are skipped. A `website` column is
+ * ignored: discovery would start from the answer.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { parse } from 'fast-csv';
+import { z } from 'zod';
+import { GroundTruthLabel, GroundTruthLabelRecord } from '../db/model';
+import { initializeResultStore } from '../db/result_store';
+import { normalizeDomain } from '../reconciliation/shared_domains';
+import { CompanyInput } from '../types';
+import { Logger } from '../utils/logger';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+
+/** `expected_website` value of a company without a website */
+export const NO_WEBSITE = 'none';
+
+const optional = z.string().trim().optional().transform((value) => value || undefined);
+
+const LabelRowSchema = z.object({
+    label_id: optional,
+    company_id: optional,
+    company_name: z.string().trim().min(1),
+    city: optional,
+    province: optional,
+    zip_code: optional,
+    region: optional,
+    address: optional,
+    phone: optional,
+    vat_code: optional,
+    email: optional,
+    category: optional,
+    expected_website: optional,
+    notes: optional,
+});
+
+export interface LabelImportSummary {
+    imported: number;
+    /** Rows without expected_website */
+    unlabeled: number;
+    /** Rows that failed validation (line numbers, header = line 1) */
+    invalid: number[];
+}
+
+/**
+ * `none` -> null (no website); a domain or URL -> its normalized domain.
+ */
+export function parseExpectedWebsite(value: string): string | null {
+    if (value.trim().toLowerCase() === NO_WEBSITE) {
+        return null;
+    }
+    const domain = normalizeDomain(value.trim());
+    if (!domain || !domain.includes('.')) {
+        throw new ValidationError(`Invalid expected website: ${value} (a domain, a URL or "${NO_WEBSITE}")`);
+    }
+    return domain;
+}
+
+function defaultLabelId(company: CompanyInput): string {
+    return crypto
+        .createHash('sha1')
+        .update([company.company_name.toLowerCase(), company.vat_code || '', (company.city || '').toLowerCase()].join('|'))
+        .digest('hex')
+        .slice(0, 16);
+}
+
+/**
+ * Labels of a CSV file, in file order.
+ */
+export function readLabelsCsv(filePath: string, dataset: string): Promise<{ labels: GroundTruthLabel[]; unlabeled: number; invalid: number[] }> {
+    if (!fs.existsSync(filePath)) {
+        return Promise.reject(new NotFoundError(`Label file not found: ${filePath}`));
+    }
+    return new Promise((resolve, reject) => {
+        const labels: GroundTruthLabel[] = [];
+        const invalid: number[] = [];
+        let unlabeled = 0;
+        let line = 1;
+
+        fs.createReadStream(filePath)
+            .pipe(parse({ headers: true, ignoreEmpty: true }))
+            .on('data', (row: Record<string, string>) => {
+                line++;
+                const parsed = LabelRowSchema.safeParse(row);
+                if (!parsed.success) {
+                    invalid.push(line);
+                    return;
+                }
+                const { label_id, company_id, expected_website, notes, ...company } = parsed.data;
+                if (!expected_website) {
+                    unlabeled++;
+                    return;
+                }
+                let expected_domain: string | null;
+                try {
+                    expected_domain = parseExpectedWebsite(expected_website);
+                } catch {
+                    invalid.push(line);
+                    return;
+                }
+                labels.push({ dataset, label_id: label_id || company_id || defaultLabelId(company), company, expected_domain, notes });
+            })
+            .on('end', () => resolve({ labels, unlabeled, invalid }))
+            .on('error', reject);
+    });
+}
+
+export async function importGroundTruthLabels(dataset: string, filePath: string): Promise<LabelImportSummary> {
+    const { labels, unlabeled, invalid } = await readLabelsCsv(filePath, dataset);
+    const store = await initializeResultStore();
+    await store.upsertGroundTruthLabels(labels);
+    Logger.info(`[GroundTruth] 🎯 ${labels.length} labels imported into ${dataset}`, { unlabeled, invalid: invalid.length });
+    return { imported: labels.length, unlabeled, invalid };
+}
+
+/**
+ * Change the expected website (and optionally the notes) of an existing label.
+ */
+export async function updateGroundTruthLabel(
+    dataset: string,
+    labelId: string,
+    update: { expectedWebsite: string; notes?: string }
+): Promise<GroundTruthLabelRecord> {
+    const store = await initializeResultStore();
+    const current = (await store.listGroundTruthLabels(dataset)).find((label) => label.label_id === labelId);
+    if (!current) {
+        throw new NotFoundError(`Label ${labelId} not found in dataset ${dataset}`);
+    }
+    const updated: GroundTruthLabel = {
+        dataset,
+        label_id: labelId,
+        company: current.company,
+        expected_domain: parseExpectedWebsite(update.expectedWebsite),
+        notes: update.notes ?? current.notes,
+    };
+    await store.upsertGroundTruthLabels([updated]);
+    return { ...updated, updated_at: new Date().toISOString() };
+}
+
+export async function listGroundTruthLabels(dataset: string): Promise<GroundTruthLabelRecord[]> {
+    const store = await initializeResultStore();
+    return store.listGroundTruthLabels(dataset);
+}
+
+export async function removeGroundTruthLabel(dataset: string, labelId: string): Promise<void> {
+    const store = await initializeResultStore();
+    if (!(await store.deleteGroundTruthLabel(dataset, labelId))) {
+        throw new NotFoundError(`Label ${labelId} not found in dataset ${dataset}`);
+    }
+}
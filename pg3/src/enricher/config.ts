@@ -17,6 +17,10 @@ const EnvSchema = z.object({
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   SERVICE_NAME: z.string().default('antigravity-enricher'),
   SQLITE_PATH: z.string().default('./data/antigravity.db'),
+  DB_AUTO_MIGRATE: BooleanString.default(true),
+  STORAGE_BACKEND: z.enum(['sqlite', 'postgres']).default('sqlite'),
+  POSTGRES_URL: z.string().optional(),
+  POSTGRES_POOL_MAX: z.coerce.number().min(1).max(100).default(10),
   HEALTH_PORT: z.coerce.number().min(1).max(65535).default(3000),
 
   // 🤖 AI / LLM
@@ -67,9 +71,45 @@ const EnvSchema = z.object({
   DISCOVERY_THRESHOLD_WAVE3: z.coerce.number().min(0).max(1).default(0.80), // Judge: AI final validation (higher)
   DISCOVERY_THRESHOLD_MIN_VALID: z.coerce.number().min(0).max(1).default(0.55), // Absolute minimum to accept
   DISCOVERY_VERIFICATION_CACHE_MAX_ENTRIES: z.coerce.number().min(100).default(2000),
-  DISCOVERY_DEFAULT_MODE: z.enum(['FAST_RUN1', 'DEEP_RUN2', 'AGGRESSIVE_RUN3', 'NUCLEAR_RUN4']).default('DEEP_RUN2'),
+  // Verification crawls up to this many contact / legal pages per site (homepage excluded), found via links and sitemap.xml
+  DISCOVERY_CRAWL_MAX_PAGES_PER_DOMAIN: z.coerce.number().int().min(0).default(4),
+  DISCOVERY_CRAWL_SITEMAP: BooleanString.default(true),
+  // Archive the HTML / text each verification scored, for `verification-replay` (content-addressed, gzipped)
+  VERIFICATION_SNAPSHOTS_ENABLED: BooleanString.default(false),
+  VERIFICATION_SNAPSHOT_DIR: z.string().default('./data/verification_snapshots'),
+  // Built-in modes (FAST_RUN1, DEEP_RUN2, AGGRESSIVE_RUN3, NUCLEAR_RUN4) or a profile from DISCOVERY_MODE_PROFILES_PATH
+  DISCOVERY_DEFAULT_MODE: z.string().min(1).default('DEEP_RUN2'),
+  DISCOVERY_MODE_PROFILES_PATH: z.string().optional(),
+  // Candidate ranking model written by `ranker train` (heuristic ranking while the file is missing)
+  DISCOVERY_RANKING_MODEL_PATH: z.string().default('./data/candidate_ranker.json'),
+  DISCOVERY_RANKING_MIN_SCORE: z.coerce.number().min(0).max(1).default(0.05),
+  // Verified domains kept next to the primary website (brand / e-commerce / country sites, 0 = primary only)
+  DISCOVERY_MAX_SECONDARY_SITES: z.coerce.number().int().min(0).max(20).default(3),
+  // Facebook / Instagram / LinkedIn company pages resolved next to the website (fallback when there is none)
+  DISCOVERY_SOCIAL_PROFILES: BooleanString.default(true),
+  DISCOVERY_SOCIAL_MIN_CONFIDENCE: z.coerce.number().min(0).max(1).default(0.5),
+  // `reverify-websites` re-checks validated websites last verified more than this many days ago
+  WEBSITE_REVERIFY_AFTER_DAYS: z.coerce.number().int().min(0).default(90),
   DISCOVERY_ENABLE_BROWSER: BooleanString.default(true),
   DISCOVERY_STOP_THE_BLEEDING: BooleanString.default(false),
+  // Per-company discovery budget (0 = uncapped): layers that no longer fit are skipped or shrunk
+  DISCOVERY_BUDGET_PER_COMPANY_EUR: z.coerce.number().min(0).default(0),
+  // Value of a found website for the expected-value stop rule (0 = rule off)
+  DISCOVERY_WEBSITE_VALUE_EUR: z.coerce.number().min(0).default(0),
+  // Unit costs of paid providers (EUR per call); LLM calls are billed from llm.pricing, this only estimates them
+  DISCOVERY_UNIT_COST_SERPER_EUR: z.coerce.number().min(0).default(0.001),
+  DISCOVERY_UNIT_COST_SCRAPE_DO_EUR: z.coerce.number().min(0).default(0.0002),
+  DISCOVERY_UNIT_COST_JINA_EUR: z.coerce.number().min(0).default(0.0002),
+  DISCOVERY_UNIT_COST_LLM_CALL_EUR: z.coerce.number().min(0).default(0.0005),
+  // SERP providers tried in order by searchSerp (serper, jina, bing, ddg, ddg_tor)
+  SERP_FAILOVER_ORDER: CommaSeparatedString.default(['serper', 'jina', 'bing', 'ddg']),
+  // A provider failing this many times in a row is skipped for SERP_PROVIDER_COOLDOWN_MS
+  SERP_PROVIDER_MAX_FAILURES: z.coerce.number().int().min(1).default(3),
+  SERP_PROVIDER_COOLDOWN_MS: z.coerce.number().int().min(0).default(60000),
+  // Provider answers are cached in the result store (shared by workers and runs); empty answers expire sooner
+  SERP_CACHE_ENABLED: BooleanString.default(true),
+  SERP_CACHE_TTL_HOURS: z.coerce.number().min(0).default(168),
+  SERP_CACHE_EMPTY_TTL_HOURS: z.coerce.number().min(0).default(24),
 
   // ⚡ PERFORMANCE & QUEUE
   CONCURRENCY_LIMIT: z.coerce.number().min(1).max(100).default(10),
@@ -80,6 +120,37 @@ const EnvSchema = z.object({
   REDIS_CONNECT_RETRIES: z.coerce.number().min(0).default(5),
   SCHEDULER_LOCK_TTL_MS: z.coerce.number().min(30000).default(900000), // 15 min
 
+  // 🧩 PIPELINE STAGES (discovery -> financial flow)
+  DISCOVERY_STAGE_CONCURRENCY: z.coerce.number().min(1).max(100).default(10),
+  DISCOVERY_STAGE_RETRY_ATTEMPTS: z.coerce.number().min(1).max(10).default(3),
+  DISCOVERY_STAGE_RETRY_DELAY_MS: z.coerce.number().min(100).default(2000),
+  FINANCIAL_STAGE_CONCURRENCY: z.coerce.number().min(1).max(100).default(5),
+  FINANCIAL_STAGE_RETRY_ATTEMPTS: z.coerce.number().min(1).max(10).default(3),
+  FINANCIAL_STAGE_RETRY_DELAY_MS: z.coerce.number().min(100).default(5000),
+
+  // 🧾 JOB API (scrape niche x location combos, then enrich)
+  SCRAPE_CONCURRENCY: z.coerce.number().min(1).max(10).default(1),
+  SCRAPE_RETRY_ATTEMPTS: z.coerce.number().min(1).max(10).default(2),
+  SCRAPE_RETRY_DELAY_MS: z.coerce.number().min(100).default(30000),
+  JOB_MAX_COMBINATIONS: z.coerce.number().min(1).max(10000).default(100),
+
+  // 📺 LIVE DASHBOARD (SSE)
+  LIVE_EVENTS_ENABLED: BooleanString.default(true),
+  LIVE_STATS_INTERVAL_MS: z.coerce.number().min(250).default(2000),
+  LIVE_RECENT_EVENTS: z.coerce.number().min(1).max(1000).default(50),
+  LIVE_THROUGHPUT_WINDOW_MS: z.coerce.number().min(1000).default(60000),
+
+  // 🔑 API AUTH & TENANTS
+  API_AUTH_ENABLED: BooleanString.default(true),
+  API_CORS_ORIGINS: CommaSeparatedString.default([]),
+  TENANT_EUR_TO_USD: z.coerce.number().positive().default(1.08),
+
+  // 🪝 WEBHOOKS
+  WEBHOOK_CONCURRENCY: z.coerce.number().min(1).max(50).default(5),
+  WEBHOOK_RETRY_ATTEMPTS: z.coerce.number().min(1).max(20).default(6),
+  WEBHOOK_RETRY_DELAY_MS: z.coerce.number().min(100).default(10000),
+  WEBHOOK_TIMEOUT_MS: z.coerce.number().min(500).default(10000),
+
   // 🏃 RUNNER
   RUNNER_CONCURRENCY_LIMIT: z.coerce.number().min(1).max(200).default(25),
   RUNNER_MEMORY_WARN_MB: z.coerce.number().min(256).default(20000),
@@ -215,6 +286,44 @@ export const config = {
     redisConnectTimeoutMs: env.REDIS_CONNECT_TIMEOUT_MS,
     redisConnectRetries: env.REDIS_CONNECT_RETRIES,
     schedulerLockTtlMs: env.SCHEDULER_LOCK_TTL_MS,
+    stages: {
+      discovery: {
+        concurrency: env.DISCOVERY_STAGE_CONCURRENCY,
+        retryAttempts: env.DISCOVERY_STAGE_RETRY_ATTEMPTS,
+        retryDelayMs: env.DISCOVERY_STAGE_RETRY_DELAY_MS,
+      },
+      financial: {
+        concurrency: env.FINANCIAL_STAGE_CONCURRENCY,
+        retryAttempts: env.FINANCIAL_STAGE_RETRY_ATTEMPTS,
+        retryDelayMs: env.FINANCIAL_STAGE_RETRY_DELAY_MS,
+      },
+    },
+    scrape: {
+      concurrency: env.SCRAPE_CONCURRENCY,
+      retryAttempts: env.SCRAPE_RETRY_ATTEMPTS,
+      retryDelayMs: env.SCRAPE_RETRY_DELAY_MS,
+    },
+  },
+  jobs: {
+    maxCombinations: env.JOB_MAX_COMBINATIONS,
+  },
+  live: {
+    enabled: env.LIVE_EVENTS_ENABLED,
+    intervalMs: env.LIVE_STATS_INTERVAL_MS,
+    recentLimit: env.LIVE_RECENT_EVENTS,
+    throughputWindowMs: env.LIVE_THROUGHPUT_WINDOW_MS,
+  },
+  auth: {
+    enabled: env.API_AUTH_ENABLED,
+    corsOrigins: env.API_CORS_ORIGINS,
+    // CostLedger books in EUR, tenant spend quotas are in USD (like LLMService)
+    eurToUsd: env.TENANT_EUR_TO_USD,
+  },
+  webhooks: {
+    concurrency: env.WEBHOOK_CONCURRENCY,
+    retryAttempts: env.WEBHOOK_RETRY_ATTEMPTS,
+    retryDelayMs: env.WEBHOOK_RETRY_DELAY_MS,
+    timeoutMs: env.WEBHOOK_TIMEOUT_MS,
   },
   runner: {
     concurrencyLimit: env.RUNNER_CONCURRENCY_LIMIT,
@@ -229,9 +338,50 @@ export const config = {
       minValid: env.DISCOVERY_THRESHOLD_MIN_VALID,
     },
     verificationCacheMaxEntries: env.DISCOVERY_VERIFICATION_CACHE_MAX_ENTRIES,
+    crawl: {
+      maxPagesPerDomain: env.DISCOVERY_CRAWL_MAX_PAGES_PER_DOMAIN,
+      sitemap: env.DISCOVERY_CRAWL_SITEMAP,
+    },
+    snapshots: {
+      enabled: env.VERIFICATION_SNAPSHOTS_ENABLED,
+      dir: env.VERIFICATION_SNAPSHOT_DIR,
+    },
     defaultMode: env.DISCOVERY_DEFAULT_MODE,
+    modeProfilesPath: env.DISCOVERY_MODE_PROFILES_PATH,
+    ranking: {
+      modelPath: env.DISCOVERY_RANKING_MODEL_PATH,
+      minScore: env.DISCOVERY_RANKING_MIN_SCORE,
+    },
+    maxSecondarySites: env.DISCOVERY_MAX_SECONDARY_SITES,
+    socialProfiles: {
+      enabled: env.DISCOVERY_SOCIAL_PROFILES,
+      minConfidence: env.DISCOVERY_SOCIAL_MIN_CONFIDENCE,
+    },
+    reverifyAfterDays: env.WEBSITE_REVERIFY_AFTER_DAYS,
     enableBrowser: env.DISCOVERY_ENABLE_BROWSER,
     stopTheBleeding: env.DISCOVERY_STOP_THE_BLEEDING,
+    budget: {
+      perCompanyEur: env.DISCOVERY_BUDGET_PER_COMPANY_EUR,
+      websiteValueEur: env.DISCOVERY_WEBSITE_VALUE_EUR,
+      /** EUR per call. Law 006: No magic numbers. */
+      unitCostsEur: {
+        serper: env.DISCOVERY_UNIT_COST_SERPER_EUR,
+        scrape_do: env.DISCOVERY_UNIT_COST_SCRAPE_DO_EUR,
+        jina_reader: env.DISCOVERY_UNIT_COST_JINA_EUR,
+        jina_search: env.DISCOVERY_UNIT_COST_JINA_EUR,
+        llm: env.DISCOVERY_UNIT_COST_LLM_CALL_EUR,
+      },
+    },
+    serp: {
+      failoverOrder: env.SERP_FAILOVER_ORDER,
+      maxConsecutiveFailures: env.SERP_PROVIDER_MAX_FAILURES,
+      cooldownMs: env.SERP_PROVIDER_COOLDOWN_MS,
+      cache: {
+        enabled: env.SERP_CACHE_ENABLED,
+        ttlHours: env.SERP_CACHE_TTL_HOURS,
+        emptyTtlHours: env.SERP_CACHE_EMPTY_TTL_HOURS,
+      },
+    },
   },
   ai: {
     cacheMaxEntries: env.AI_CACHE_MAX_ENTRIES,
@@ -260,6 +410,12 @@ export const config = {
     port: env.HEALTH_PORT,
   },
   sqlitePath: env.SQLITE_PATH,
+  db: {
+    autoMigrate: env.DB_AUTO_MIGRATE,
+    backend: env.STORAGE_BACKEND,
+    postgresUrl: env.POSTGRES_URL,
+    postgresPoolMax: env.POSTGRES_POOL_MAX,
+  },
   serviceName: env.SERVICE_NAME,
   telegram: {
     botToken: env.TELEGRAM_BOT_TOKEN,
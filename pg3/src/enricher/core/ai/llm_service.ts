@@ -12,8 +12,11 @@ import OpenAI from 'openai';
  *
  * NO other module should instantiate OpenAI directly — use this service.
  */
+export type LLMCostListener = (costUsd: number, model: string) => void;
+
 export class LLMService {
     private static totalCost = 0;
+    private static costListeners = new Set<LLMCostListener>();
     private static clients: Map<string, OpenAI> = new Map();
 
     // ─────────────────────────────────────────────
@@ -287,6 +290,24 @@ export class LLMService {
 
         this.totalCost += cost;
         Logger.info(`[LLM] 💰 $${cost.toFixed(6)} (Total: $${this.totalCost.toFixed(6)}) [${model}]`);
+
+        for (const listener of this.costListeners) {
+            try {
+                listener(cost, model);
+            } catch (error) {
+                Logger.warn('[LLM] Cost listener failed', { error: error as Error });
+            }
+        }
+    }
+
+    /**
+     * Be told about the USD cost of every call (per-tenant spend). Returns the unregister function.
+     */
+    public static onCost(listener: LLMCostListener): () => void {
+        this.costListeners.add(listener);
+        return () => {
+            this.costListeners.delete(listener);
+        };
     }
 
     // ─────────────────────────────────────────────
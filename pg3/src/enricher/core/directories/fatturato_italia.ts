@@ -15,14 +15,22 @@ import * as cheerio from 'cheerio';
 import { CompanyInput } from '../../types';
 import { Logger } from '../../utils/logger';
 import { FinancialPatterns } from '../financial/patterns';
+import { extractFinancialFigures, figureConfidence } from '../financial/statement';
+import { FinancialValue, parseFinancialValue } from '../financial/value_parser';
+import { FinancialFigure } from '../../db/model';
+import { DataSource } from '../../utils/data_merger';
 
 export interface FatturatoItaliaResult {
   url: string;
   revenue?: string;
+  /** `revenue` as numbers (range, point estimate, currency, year) */
+  revenueValue?: FinancialValue;
   revenueYear?: string;
   employees?: string;
   companyName?: string;
   vat?: string;
+  /** Statement figures of the page, per fiscal year */
+  figures?: FinancialFigure[];
 }
 
 // Italian legal suffixes to KEEP in the slug (unlike domain generation)
@@ -160,7 +168,7 @@ function isValidCompanyPage(html: string): boolean {
   );
 }
 
-function parseFinancialData(html: string): Omit<FatturatoItaliaResult, 'url'> {
+function parseFinancialData(html: string, url?: string): Omit<FatturatoItaliaResult, 'url'> {
   const $ = cheerio.load(html);
   const text = $('body').text();
   const result: Omit<FatturatoItaliaResult, 'url'> = {};
@@ -179,6 +187,20 @@ function parseFinancialData(html: string): Omit<FatturatoItaliaResult, 'url'> {
   if (yearMatch) {
     result.revenueYear = yearMatch[1] || yearMatch[2];
   }
+  result.revenueValue = parseFinancialValue(result.revenue, {
+    year: result.revenueYear ? Number(result.revenueYear) : undefined,
+  });
+
+  // Figures per fiscal year (undated ones belong to the revenue year)
+  const figures = extractFinancialFigures(text, {
+    source: DataSource.FINANCIAL_DIRECTORY,
+    confidence: figureConfidence(DataSource.FINANCIAL_DIRECTORY),
+    source_url: url,
+    fiscal_year: result.revenueYear ? Number(result.revenueYear) : undefined,
+  });
+  if (figures.length > 0) {
+    result.figures = figures;
+  }
 
   // Extract employees
   for (const pattern of FinancialPatterns.EMPLOYEES) {
@@ -268,7 +290,7 @@ export class FatturatoItaliaHarvester {
 
         if (status === 200 && isValidCompanyPage(data)) {
           Logger.info(`[FatturatoItalia] ✅ Direct hit: ${url}`);
-          const parsed = parseFinancialData(data);
+          const parsed = parseFinancialData(data, url);
           return { url, ...parsed };
         }
       } catch {
@@ -282,8 +304,7 @@ export class FatturatoItaliaHarvester {
 
   /**
    * Strategy 2: Search via DDG for the company on fatturatoitalia.it.
-   * Uses the existing DDGSearchProvider if available, otherwise falls back
-   * to a simple DuckDuckGo HTML search.
+   * DuckDuckGo over Tor first, Jina search when it is blocked or finds nothing.
    */
   private static async searchForCompany(companyName: string, vat?: string): Promise<FatturatoItaliaResult | null> {
     const query = vat
@@ -292,51 +313,21 @@ export class FatturatoItaliaHarvester {
 
     Logger.info(`[FatturatoItalia] 🔍 Searching: ${query}`);
 
-    try {
-      // Try using DDGSearchProvider (Tor-enabled)
-      const { DDGSearchProvider } = await import('../discovery/search_provider');
-      const ddg = new DDGSearchProvider();
-      const results = await ddg.search(query);
-
-      if (results && results.length > 0) {
-        const fiResult = results.find((r: { url: string }) =>
-          r.url.includes('fatturatoitalia.it/') &&
-          !r.url.endsWith('fatturatoitalia.it/') &&
-          !r.url.includes('/comune/') &&
-          !r.url.includes('/come-funziona'),
-        );
-
-        if (fiResult) {
-          Logger.info(`[FatturatoItalia] 🔗 Search found: ${fiResult.url}`);
-          return await this.fetchAndParse(fiResult.url);
-        }
+    const { searchSerp } = await import('../discovery/serp/registry');
+    // One provider at a time: results without a company page still fall through to the next
+    for (const provider of ['ddg_tor', 'jina']) {
+      const { results } = await searchSerp(query, { providers: [provider] });
+      const fiResult = results.find((r) =>
+        r.url.includes('fatturatoitalia.it/') &&
+        !r.url.endsWith('fatturatoitalia.it/') &&
+        !r.url.includes('/comune/') &&
+        !r.url.includes('/come-funziona'),
+      );
+
+      if (fiResult) {
+        Logger.info(`[FatturatoItalia] 🔗 Search (${provider}) found: ${fiResult.url}`);
+        return await this.fetchAndParse(fiResult.url);
       }
-    } catch (e) {
-      Logger.warn(`[FatturatoItalia] DDG search failed, trying Jina fallback`, { error: e as Error });
-    }
-
-    // Jina Search fallback
-    try {
-      const { ScraperClient } = await import('../../utils/scraper_client');
-      if (ScraperClient.isJinaEnabled()) {
-        const jinaResp = await ScraperClient.fetchJinaSearch(query);
-        const parsed = ScraperClient.parseJinaSearchResults(jinaResp.data);
-
-        const fiResult = parsed.find(
-          (r) =>
-            r.url.includes('fatturatoitalia.it/') &&
-            !r.url.endsWith('fatturatoitalia.it/') &&
-            !r.url.includes('/comune/') &&
-            !r.url.includes('/come-funziona'),
-        );
-
-        if (fiResult) {
-          Logger.info(`[FatturatoItalia] 🔗 Jina search found: ${fiResult.url}`);
-          return await this.fetchAndParse(fiResult.url);
-        }
-      }
-    } catch (e) {
-      Logger.warn(`[FatturatoItalia] Jina search also failed`, { error: e as Error });
     }
 
     Logger.info(`[FatturatoItalia] ❌ No search results for "${companyName}"`);
@@ -355,7 +346,7 @@ export class FatturatoItaliaHarvester {
         return null;
       }
 
-      const parsed = parseFinancialData(data);
+      const parsed = parseFinancialData(data, url);
       return { url, ...parsed };
     } catch (e) {
       Logger.warn(`[FatturatoItalia] Fetch failed for ${url}`, { error: e as Error });
@@ -11,12 +11,22 @@ export interface MatchSignals {
   ogImageMatch?: boolean;
 }
 
+export type SignalSource = 'vat' | 'phone' | 'name' | 'city' | 'address';
+
 export interface MatchEvaluation {
   confidence: number;
   reason: string;
   signals: MatchSignals;
   scrapedVat?: string;
   matchedPhone?: string;
+  /** URL of the page that produced each positive signal (evaluatePages only) */
+  signalSources?: Partial<Record<SignalSource, string>>;
+}
+
+/** One fetched page of the site being verified */
+export interface PageText {
+  url: string;
+  text: string;
 }
 
 const LEGAL_SUFFIXES = new Set([
@@ -212,6 +222,44 @@ export class CompanyMatcher {
     };
   }
 
+  /**
+   * Evaluate several pages of one site as a whole (`url` is the site, `pages` are in crawl
+   * order) and record which page produced each positive signal: the first page carrying the
+   * VAT, phone or city, the page with the best name / address coverage.
+   */
+  public static evaluatePages(company: CompanyInput, url: string, pages: PageText[], title: string = ''): MatchEvaluation {
+    const evaluation = this.evaluate(company, url, pages.map((page) => page.text).join('\n'), title);
+    const targetVat = getVatFromCompany(company);
+    const targetPhone = this.normalizePhone(company.phone);
+    const sources: Partial<Record<SignalSource, string>> = {};
+    let bestName = 0;
+    let bestAddress = 0;
+
+    for (const page of pages) {
+      const normalizedText = normalizeText(page.text);
+      if (evaluation.signals.vatMatch && !sources.vat && this.extractVatNumbers(page.text).includes(targetVat)) {
+        sources.vat = page.url;
+      }
+      if (evaluation.signals.phoneMatch && !sources.phone && this.findMatchingPhone(targetPhone, this.extractPhones(page.text))) {
+        sources.phone = page.url;
+      }
+      if (evaluation.signals.cityMatch && !sources.city && this.cityMatch(company.city, normalizedText)) {
+        sources.city = page.url;
+      }
+      const nameCoverage = this.nameCoverage(company.company_name, normalizedText);
+      if (nameCoverage >= 0.4 && nameCoverage > bestName) {
+        bestName = nameCoverage;
+        sources.name = page.url;
+      }
+      const addressCoverage = this.addressCoverage(company.address, normalizedText);
+      if (addressCoverage >= 0.45 && addressCoverage > bestAddress) {
+        bestAddress = addressCoverage;
+        sources.address = page.url;
+      }
+    }
+    return { ...evaluation, signalSources: sources };
+  }
+
   private static checkOgImage(html: string, companyName: string): boolean {
     const ogImageRegex = /<meta\s+property=["']og:image["']\s+content=["']([^"']+)["']/i;
     const match = html.match(ogImageRegex);
@@ -289,19 +337,24 @@ export class CompanyMatcher {
       return 0;
     }
 
-    const compactHost = hostname.replace(/[^a-z0-9]/g, '');
+    return this.handleCoverage(companyName, hostname);
+  }
+
+  // Same coverage as domainCoverage for an account handle or slug (facebook.com/alfasrl -> "alfasrl")
+  public static handleCoverage(companyName: string, handle: string): number {
+    const compactHandle = handle.toLowerCase().replace(/[^a-z0-9]/g, '');
     const tokens = this.tokenizeCompanyName(companyName);
     if (tokens.length === 0) return 0;
 
     const compactName = tokens.join('');
     // ASSUMPTION: Lowered from 5 to 3 to support short brand names (e.g., "ABC" -> abcmeccanica.it)
-    if (compactName.length >= 3 && compactHost.includes(compactName)) {
+    if (compactName.length >= 3 && compactHandle.includes(compactName)) {
       return 1;
     }
 
     let matched = 0;
     for (const token of tokens) {
-      if (compactHost.includes(token)) matched++;
+      if (compactHandle.includes(token)) matched++;
     }
     return matched / tokens.length;
   }
@@ -0,0 +1,172 @@
+/**
+ * 💶 DISCOVERY BUDGET
+ * Per-company spend cap and expected-value stop rule, checked before every layer:
+ *
+ * - the layer's expected cost comes from its cost profile and the provider unit costs
+ *   (DISCOVERY_UNIT_COST_*_EUR); layers without a profile are free and always run
+ * - cap (DISCOVERY_BUDGET_PER_COMPANY_EUR, or per discovery): once spent, paid layers are
+ *   skipped; a layer that no longer fits is shrunk (fewer candidates verified) or skipped,
+ *   so cheaper layers further down still get their turn
+ * - expected value (DISCOVERY_WEBSITE_VALUE_EUR): a layer whose hit rate x website value is
+ *   below its expected cost is not worth running
+ *
+ * The same rules gate the paid steps outside the layers (the social profile search and each
+ * profile page, see admitStep). Spend itself is measured by the decision trace (actual
+ * provider calls + LLM cost), the budget only decides. A layer that is already running is
+ * never interrupted.
+ */
+
+import { config } from '../../config';
+import { ValidationError } from '../../../utils/errors';
+import type { DiscoveryLayer, LayerCostProfile, ResolvedLayerSettings, SpendProvider } from './layers/layer_types';
+
+export type BudgetSkipReason = 'BUDGET_EXHAUSTED' | 'OVER_BUDGET' | 'NEGATIVE_EXPECTED_VALUE';
+
+export interface BudgetDecision {
+    layer: string;
+    action: 'SKIP' | 'SHRINK';
+    reason: BudgetSkipReason | 'FIT_TO_BUDGET';
+    expected_cost_eur: number;
+    /** Budget left when the decision was taken (capped discoveries only) */
+    remaining_eur?: number;
+    /** Verification budget after shrinking */
+    max_candidates?: number;
+}
+
+export interface DiscoveryBudgetOptions {
+    /** Spend cap in EUR (0 = uncapped, default DISCOVERY_BUDGET_PER_COMPANY_EUR) */
+    limitEur?: number;
+    /** Worth of a found website in EUR (0 = no expected-value rule, default DISCOVERY_WEBSITE_VALUE_EUR) */
+    websiteValueEur?: number;
+}
+
+export interface BudgetAdmission {
+    /** Settings to run the layer with (null = skip it) */
+    settings: ResolvedLayerSettings | null;
+    decision?: BudgetDecision;
+}
+
+/**
+ * Per-run spend cap from an API body or CLI flag: EUR per company, 0 = uncapped, absent =
+ * DISCOVERY_BUDGET_PER_COMPANY_EUR.
+ */
+export function parseDiscoveryBudgetEur(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') {
+        return undefined;
+    }
+    const budget = Number(value);
+    if (!Number.isFinite(budget) || budget < 0) {
+        throw new ValidationError(`Invalid discovery budget: ${value} (EUR per company, 0 = uncapped)`);
+    }
+    return budget;
+}
+
+export function unitCostEur(provider: SpendProvider): number {
+    return config.discovery.budget.unitCostsEur[provider] ?? 0;
+}
+
+function callsCost(calls: LayerCostProfile['calls']): number {
+    let cost = 0;
+    for (const [provider, count] of Object.entries(calls ?? {}) as Array<[SpendProvider, number]>) {
+        cost += unitCostEur(provider) * count;
+    }
+    return cost;
+}
+
+/**
+ * Expected EUR cost of one fixed-size step (its `calls`; `perCandidate` does not apply).
+ */
+export function estimateStepCost(profile: LayerCostProfile): number {
+    return callsCost(profile.calls);
+}
+
+/**
+ * Expected EUR cost of one run of the layer with these settings.
+ */
+export function estimateLayerCost(profile: LayerCostProfile | undefined, settings: ResolvedLayerSettings): number {
+    if (!profile) {
+        return 0;
+    }
+    return callsCost(profile.calls) + callsCost(profile.perCandidate) * settings.maxCandidates;
+}
+
+export class DiscoveryBudget {
+    readonly limitEur: number;
+    readonly websiteValueEur: number;
+
+    constructor(options: DiscoveryBudgetOptions = {}) {
+        this.limitEur = options.limitEur ?? config.discovery.budget.perCompanyEur;
+        this.websiteValueEur = options.websiteValueEur ?? config.discovery.budget.websiteValueEur;
+    }
+
+    /**
+     * Decide whether (and with which verification budget) the layer runs, given what
+     * the discovery has spent so far.
+     */
+    admit(layer: DiscoveryLayer, settings: ResolvedLayerSettings, spentEur: number): BudgetAdmission {
+        const profile = layer.costProfile;
+        let cost = estimateLayerCost(profile, settings);
+        if (!profile || cost <= 0) {
+            return { settings };
+        }
+        const skip = (reason: BudgetSkipReason, remaining?: number): BudgetAdmission => ({
+            settings: null,
+            decision: { layer: layer.name, action: 'SKIP', reason, expected_cost_eur: cost, remaining_eur: remaining },
+        });
+
+        let admitted = settings;
+        let decision: BudgetDecision | undefined;
+        if (this.limitEur > 0) {
+            const remaining = this.limitEur - spentEur;
+            if (remaining <= 0) {
+                return skip('BUDGET_EXHAUSTED', remaining);
+            }
+            if (cost > remaining) {
+                const fixed = callsCost(profile.calls);
+                const perCandidate = callsCost(profile.perCandidate);
+                const affordable = perCandidate > 0 ? Math.floor((remaining - fixed) / perCandidate) : 0;
+                if (affordable < 1) {
+                    return skip('OVER_BUDGET', remaining);
+                }
+                admitted = { ...settings, maxCandidates: Math.min(settings.maxCandidates, affordable) };
+                cost = fixed + perCandidate * admitted.maxCandidates;
+                decision = {
+                    layer: layer.name,
+                    action: 'SHRINK',
+                    reason: 'FIT_TO_BUDGET',
+                    expected_cost_eur: cost,
+                    remaining_eur: remaining,
+                    max_candidates: admitted.maxCandidates,
+                };
+            }
+        }
+
+        if (this.websiteValueEur > 0 && profile.hitRate !== undefined && profile.hitRate * this.websiteValueEur < cost) {
+            return skip('NEGATIVE_EXPECTED_VALUE', this.limitEur > 0 ? this.limitEur - spentEur : undefined);
+        }
+        return { settings: admitted, decision };
+    }
+
+    /**
+     * Decide whether a fixed-size paid step outside the layers runs: the SKIP decision, or
+     * undefined when it fits the cap and is worth its cost. Such a step cannot be shrunk.
+     */
+    admitStep(step: string, profile: LayerCostProfile, spentEur: number): BudgetDecision | undefined {
+        const cost = estimateStepCost(profile);
+        if (cost <= 0) {
+            return undefined;
+        }
+        const remaining = this.limitEur > 0 ? this.limitEur - spentEur : undefined;
+        const skip = (reason: BudgetSkipReason): BudgetDecision => ({ layer: step, action: 'SKIP', reason, expected_cost_eur: cost, remaining_eur: remaining });
+        if (remaining !== undefined && remaining <= 0) {
+            return skip('BUDGET_EXHAUSTED');
+        }
+        if (remaining !== undefined && cost > remaining) {
+            return skip('OVER_BUDGET');
+        }
+        if (this.websiteValueEur > 0 && profile.hitRate !== undefined && profile.hitRate * this.websiteValueEur < cost) {
+            return skip('NEGATIVE_EXPECTED_VALUE');
+        }
+        return undefined;
+    }
+}
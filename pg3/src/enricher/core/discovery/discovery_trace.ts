@@ -0,0 +1,297 @@
+/**
+ * 🧭 DISCOVERY DECISION TRACE
+ * Structured record of how discovery reached its verdict for one company:
+ *
+ * - which layers of the mode profile ran (and which were skipped by the plan)
+ * - the candidates each layer produced (source + raw confidence)
+ * - every deep verification (outcome, signals, duration)
+ * - time, LLM cost and paid provider spend (EUR) per layer
+ * - layers the budget skipped or shrunk (see ./discovery_budget.ts)
+ *
+ * The recorder travels with the discovery through AsyncLocalStorage, so concurrent
+ * discoveries on the same service never mix, and the helpers below are no-ops
+ * outside a traced discovery (e.g. verifyUrl).
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { config } from '../../config';
+import { onProviderCall } from '../../utils/provider_usage';
+import { LLMService } from '../ai/llm_service';
+import { BudgetDecision, unitCostEur } from './discovery_budget';
+import type { ResolvedLayerSettings, SpendProvider } from './layers/layer_types';
+import type { DiscoveryResult } from './unified_discovery_service';
+
+export type LayerTraceStatus = 'FOUND_VALID' | 'FOUND_INVALID' | 'EMPTY' | 'TIMEOUT' | 'ERROR';
+
+export interface TraceCandidate {
+    url: string;
+    source: string;
+    confidence?: number;
+    rank?: number;
+    query_type?: string;
+}
+
+export interface TraceVerification {
+    url: string;
+    final_url?: string;
+    confidence: number | null;
+    reason?: string;
+    reason_code?: string;
+    level?: string;
+    signals?: unknown;
+    schema_signals?: unknown;
+    scraped_piva?: string;
+    matched_phone?: string;
+    /** Pages of the site the evidence was read from (homepage first) */
+    evidence_pages?: string[];
+    /** Page that produced each signal (vat, phone, name, city, address) */
+    signal_sources?: Record<string, string>;
+    /** Archived evidence, for `verification-replay` (VERIFICATION_SNAPSHOTS_ENABLED) */
+    snapshot_id?: string;
+    duration_ms: number;
+}
+
+/**
+ * Money spent on paid providers, in EUR (LLM cost converted from USD).
+ */
+export interface TraceSpend {
+    cost_eur: number;
+    by_provider: Partial<Record<SpendProvider, number>>;
+    calls: Partial<Record<SpendProvider, number>>;
+}
+
+export interface LayerTrace {
+    layer: string;
+    settings: ResolvedLayerSettings;
+    started_at: string;
+    duration_ms: number;
+    status: LayerTraceStatus;
+    result?: { url: string | null; method: string; confidence: number; reason_code?: string };
+    error?: string;
+    candidates: TraceCandidate[];
+    verifications: TraceVerification[];
+    llm_calls: number;
+    cost_usd: number;
+    /** Absent on traces recorded before spend tracking */
+    spend?: TraceSpend;
+}
+
+export interface DiscoveryTrace {
+    mode: string;
+    company_name: string;
+    started_at: string;
+    finished_at?: string;
+    duration_ms?: number;
+    layers: LayerTrace[];
+    /** Profile layers the plan left out (e.g. costly layers under stop-the-bleeding) */
+    skipped_layers: string[];
+    outcome?: { status: DiscoveryResult['status']; url: string | null; method: string; confidence: number; reason_code?: string };
+    /** Total LLM cost, including calls made outside a layer (finalization) */
+    cost_usd: number;
+    llm_calls: number;
+    /** Total spend, including calls made outside a layer */
+    spend?: TraceSpend;
+    /** Layers the budget skipped or ran with fewer candidates */
+    budget_decisions?: BudgetDecision[];
+}
+
+export type LayerOutcome = { result: DiscoveryResult | null } | { timedOut: true } | { error: Error };
+
+interface TraceScope {
+    trace: DiscoveryTrace;
+    layer?: LayerTrace;
+}
+
+const traceStorage = new AsyncLocalStorage<TraceScope>();
+let costListenerRegistered = false;
+
+function emptySpend(): TraceSpend {
+    return { cost_eur: 0, by_provider: {}, calls: {} };
+}
+
+function addSpend(spend: TraceSpend | undefined, provider: SpendProvider, units: number, costEur: number): void {
+    if (!spend) {
+        return;
+    }
+    spend.cost_eur += costEur;
+    spend.by_provider[provider] = (spend.by_provider[provider] ?? 0) + costEur;
+    spend.calls[provider] = (spend.calls[provider] ?? 0) + units;
+}
+
+function registerCostListener(): void {
+    if (costListenerRegistered) {
+        return;
+    }
+    costListenerRegistered = true;
+    LLMService.onCost((costUsd) => {
+        const scope = traceStorage.getStore();
+        if (!scope) {
+            return;
+        }
+        const costEur = costUsd / config.auth.eurToUsd;
+        scope.trace.cost_usd += costUsd;
+        scope.trace.llm_calls++;
+        addSpend(scope.trace.spend, 'llm', 1, costEur);
+        if (scope.layer) {
+            scope.layer.cost_usd += costUsd;
+            scope.layer.llm_calls++;
+            addSpend(scope.layer.spend, 'llm', 1, costEur);
+        }
+    });
+    onProviderCall((provider, units) => {
+        const scope = traceStorage.getStore();
+        if (!scope) {
+            return;
+        }
+        const costEur = unitCostEur(provider) * units;
+        addSpend(scope.trace.spend, provider, units, costEur);
+        addSpend(scope.layer?.spend, provider, units, costEur);
+    });
+}
+
+function summarize(result: DiscoveryResult): NonNullable<DiscoveryTrace['outcome']> {
+    return {
+        status: result.status,
+        url: result.url,
+        method: result.method,
+        confidence: result.confidence,
+        reason_code: result.reason_code,
+    };
+}
+
+export class DiscoveryTraceRecorder {
+    readonly trace: DiscoveryTrace;
+    private readonly startedAt = Date.now();
+
+    constructor(mode: string, companyName: string) {
+        registerCostListener();
+        this.trace = {
+            mode,
+            company_name: companyName,
+            started_at: new Date(this.startedAt).toISOString(),
+            layers: [],
+            skipped_layers: [],
+            cost_usd: 0,
+            llm_calls: 0,
+            spend: emptySpend(),
+            budget_decisions: [],
+        };
+    }
+
+    /**
+     * EUR spent so far by this discovery.
+     */
+    get spentEur(): number {
+        return this.trace.spend?.cost_eur ?? 0;
+    }
+
+    /**
+     * Run the whole discovery inside the trace (LLM cost outside layers is still counted).
+     */
+    run<T>(fn: () => Promise<T>): Promise<T> {
+        return traceStorage.run({ trace: this.trace }, fn);
+    }
+
+    /**
+     * Run one layer with its own trace entry; candidates, verifications and cost
+     * recorded inside `fn` land on that entry.
+     */
+    async runLayer(
+        layer: string,
+        settings: ResolvedLayerSettings,
+        fn: () => Promise<LayerOutcome>
+    ): Promise<DiscoveryResult | null> {
+        const entry: LayerTrace = {
+            layer,
+            settings,
+            started_at: new Date().toISOString(),
+            duration_ms: 0,
+            status: 'EMPTY',
+            candidates: [],
+            verifications: [],
+            llm_calls: 0,
+            cost_usd: 0,
+            spend: emptySpend(),
+        };
+        this.trace.layers.push(entry);
+        const started = Date.now();
+
+        const outcome = await traceStorage.run({ trace: this.trace, layer: entry }, async (): Promise<LayerOutcome> => {
+            try {
+                return await fn();
+            } catch (error) {
+                return { error: error as Error };
+            }
+        });
+        entry.duration_ms = Date.now() - started;
+
+        if ('timedOut' in outcome) {
+            entry.status = 'TIMEOUT';
+            return null;
+        }
+        if ('error' in outcome) {
+            entry.status = 'ERROR';
+            entry.error = outcome.error.message;
+            throw outcome.error;
+        }
+        if (outcome.result) {
+            entry.status = outcome.result.status === 'FOUND_VALID' ? 'FOUND_VALID' : 'FOUND_INVALID';
+            entry.result = summarize(outcome.result);
+        }
+        return outcome.result;
+    }
+
+    skip(layers: string[]): void {
+        this.trace.skipped_layers.push(...layers);
+    }
+
+    budgetDecision(decision: BudgetDecision): void {
+        (this.trace.budget_decisions ??= []).push(decision);
+    }
+
+    finish(result: DiscoveryResult): DiscoveryTrace {
+        this.trace.finished_at = new Date().toISOString();
+        this.trace.duration_ms = Date.now() - this.startedAt;
+        this.trace.outcome = summarize(result);
+        return this.trace;
+    }
+}
+
+/**
+ * Record candidates produced by the current layer (no-op outside a traced layer).
+ */
+export function traceCandidates(candidates: TraceCandidate[]): void {
+    const layer = traceStorage.getStore()?.layer;
+    if (!layer) {
+        return;
+    }
+    for (const candidate of candidates) {
+        layer.candidates.push({ ...candidate });
+    }
+}
+
+/**
+ * Record a deep verification made by the current layer (null = could not be checked).
+ */
+export function traceVerification(url: string, verification: any | null, durationMs: number): void {
+    const layer = traceStorage.getStore()?.layer;
+    if (!layer) {
+        return;
+    }
+    layer.verifications.push({
+        url,
+        final_url: verification?.final_url,
+        confidence: typeof verification?.confidence === 'number' ? verification.confidence : null,
+        reason: verification?.reason,
+        reason_code: verification?.reason_code,
+        level: verification?.level,
+        signals: verification?.signals,
+        schema_signals: verification?.schema_signals,
+        scraped_piva: verification?.scraped_piva,
+        matched_phone: verification?.matched_phone,
+        evidence_pages: verification?.evidence_pages,
+        signal_sources: verification?.signal_sources,
+        snapshot_id: verification?.snapshot_id,
+        duration_ms: durationMs,
+    });
+}
@@ -5,11 +5,17 @@ import { ScraperClient } from '../../utils/scraper_client';
 import { LLMService } from '../ai/llm_service';
 import * as cheerio from 'cheerio';
 import { ContentFilter } from './content_filter';
+import { parseFiscalYear } from '../financial/statement';
+import { parseFinancialValue } from '../financial/value_parser';
+import { searchSerp } from './serp/registry';
+
+const IDENTITY_SERP_PROVIDERS = ['bing', 'serper'];
 
 export interface FinancialData {
     revenue?: string;
     employees?: string;
     profit?: string;
+    ebitda?: string;
     personnel_cost?: string; // New
     confidence?: string; // New: For AI confidence
     year?: string;
@@ -43,7 +49,7 @@ export class IdentityResolver {
     /**
      * 🕵️ ZERO-COST IDENTITY RESOLUTION
      * Step 0: Find the "Official Identity" via fatturatoitalia.it
-     * Uses Serper.dev (Google API) to find the specific profile page, then fetches it via ScraperClient.
+     * Finds the profile page through the SERP registry (Bing, then Serper), then fetches it via ScraperClient.
      */
     private static readonly IDENTITY_TIMEOUT_MS = 20000; // 20s max for identity resolution
 
@@ -93,52 +99,16 @@ export class IdentityResolver {
     }
 
     private async findProfileUrl(query: string): Promise<string | null> {
-        // 1. Try Bing First (Cheaper/Free via ScraperClient)
-        try {
-            const bingUrl = `https://www.bing.com/search?q=${encodeURIComponent(query)}`;
-            // Use render: true to ensure Bing results load, but Scrape.do handles the heavy lifting
-            const html = await ScraperClient.fetchText(bingUrl, { mode: 'scrape_do', render: true });
-            const $ = cheerio.load(html);
-            let matchedUrl: string | null = null;
-            $('li.b_algo h2 a').each((i, el) => {
-                if (matchedUrl) return;
-                const url = $(el).attr('href');
-                if (url && url.includes('fatturatoitalia.it')) {
-                    matchedUrl = url;
-                }
-            });
-
-            if (matchedUrl) {
-                Logger.info(`[IdentityResolver] 🟢 Found via Bing: ${matchedUrl}`);
-                return matchedUrl;
+        // Bing first (Scrape.do), Serper when Bing has no profile page: one provider at a time,
+        // so that results without a fatturatoitalia.it page still fall through to the next
+        for (const provider of IDENTITY_SERP_PROVIDERS) {
+            const { results } = await searchSerp(query, { providers: [provider] });
+            const match = results.find((result) => result.url.includes('fatturatoitalia.it'));
+            if (match) {
+                Logger.info(`[IdentityResolver] 🟢 Found via ${provider}: ${match.url}`);
+                return match.url;
             }
-        } catch (e) {
-            Logger.warn(`[IdentityResolver] Bing fallback failed: ${query}`, { error: e as Error });
-            // Continue to Serper fallback
         }
-
-        // 2. Fallback to Serper (High Accuracy, Costly)
-        if (process.env.SERPER_API_KEY) {
-            try {
-                Logger.info(`[IdentityResolver] 🟡 Bing failed, engaging Serper fallback...`);
-                const response = await fetch('https://google.serper.dev/search', {
-                    method: 'POST',
-                    headers: {
-                        'X-API-KEY': process.env.SERPER_API_KEY,
-                        'Content-Type': 'application/json'
-                    },
-                    body: JSON.stringify({ q: query, gl: 'it', hl: 'it' })
-                });
-                const data = await response.json();
-                const firstResult = data.organic?.[0]?.link;
-                if (firstResult && firstResult.includes('fatturatoitalia.it')) {
-                    return firstResult;
-                }
-            } catch (e) {
-                Logger.warn(`[IdentityResolver] Serper query failed: ${query}`, { error: e as Error });
-            }
-        }
-
         return null;
     }
 
@@ -238,6 +208,8 @@ export class IdentityResolver {
             const employees = this.extractByLabel($, 'N. Dipendenti') || this.extractByLabel($, 'Dipendenti');
             const profit = this.extractByLabel($, 'Utile');
             const personnelCost = this.extractByLabel($, 'Costo del personale');
+            const ebitda = this.extractByLabel($, 'EBITDA') || this.extractByLabel($, 'Margine operativo lordo');
+            const fiscalYear = parseFiscalYear($('body').text());
 
             // 5. Extract Category/Activity
             const activity = this.extractByLabel($, 'Attività prevalente') || this.extractByLabel($, 'ATECO');
@@ -276,7 +248,9 @@ export class IdentityResolver {
                     revenue: this.cleanCurrency(revenue),
                     employees: this.cleanEmployees(employees),
                     profit: this.cleanCurrency(profit),
-                    personnel_cost: this.cleanCurrency(personnelCost)
+                    ebitda: this.cleanCurrency(ebitda),
+                    personnel_cost: this.cleanCurrency(personnelCost),
+                    year: fiscalYear ? String(fiscalYear) : undefined
                 },
                 confidence,
                 source_url: url
@@ -328,12 +302,12 @@ export class IdentityResolver {
     }
 
     private cleanCurrency(value?: string): string | undefined {
-        if (!value) return undefined;
-        // Handle "€ 186.975.036" -> "186975036" (or keep formatting if preferred)
-        // User request shows format "€ -2.299.451". Let's keep the standard numeric representation.
-        // Actually, keeping the raw string is often safer for display, but for DB we might want numbers.
-        // Let's return just numbers and minus sign.
-        return value.replace(/[^0-9,-]/g, '').trim();
+        if (!value || !/\d/.test(value)) return undefined;
+        // Exact amounts become plain numbers: "€ 186.975.036" -> "186975036", "€ -2.299.451" -> "-2299451".
+        // Rounded amounts, ranges and bounds ("1,2 mln", "tra 2 e 5 milioni") keep their unit as written.
+        const parsed = parseFinancialValue(value);
+        if (parsed?.kind === 'exact') return String(parsed.estimate);
+        return value.replace(/\s+/g, ' ').trim();
     }
 
     private cleanEmployees(value?: string): string | undefined {
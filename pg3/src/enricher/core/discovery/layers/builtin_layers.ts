@@ -0,0 +1,215 @@
+/**
+ * 🌊 BUILT-IN DISCOVERY LAYERS
+ * The OMEGA layers, cheapest first:
+ *
+ * identity -> existing_website -> surgical_search -> email_reversal -> registry_dork
+ *   -> llm_oracle -> swarm -> nuclear
+ *
+ * Cost profiles are rough per-run estimates for the discovery budget: Scrape.do is only
+ * needed when a direct fetch looks blocked, the hit rates are priors per layer reached.
+ */
+
+import { Logger } from '../../../utils/logger';
+import { config } from '../../../config';
+import type { DiscoveryResult } from '../unified_discovery_service';
+import { traceCandidates } from '../discovery_trace';
+import { DiscoveryLayer } from './layer_types';
+
+const ORACLE_MIN_CONFIDENCE = 0.85;
+const EXISTING_WEBSITE_FALLBACK_CONFIDENCE = 0.35;
+
+const swarmThreshold = () => config.discovery.thresholds.wave1;
+const minimumValid = () => config.discovery.thresholds.minValid;
+
+/**
+ * 💰 Layer 1: identity resolution (zero cost). Never produces a website itself.
+ */
+const identityLayer: DiscoveryLayer = {
+    name: 'identity',
+    description: 'Resolve legal name / VAT from registries (feeds the later layers)',
+    defaultThreshold: () => 0,
+    costProfile: { calls: { serper: 0.3, llm: 1 } },
+    async run(context) {
+        context.identity = await context.toolkit.resolveIdentity(context.company);
+        if (context.identity) {
+            Logger.info(`[Discovery] ✅ Identity Resolved: ${context.identity.legal_name} (${context.identity.vat_number})`);
+        } else {
+            Logger.warn(`[Discovery] ⚠️ Identity resolution failed - proceeding with limited info`);
+        }
+        return null;
+    },
+};
+
+/**
+ * Re-verify the website the company came with (skips PagineGialle links).
+ */
+const existingWebsiteLayer: DiscoveryLayer = {
+    name: 'existing_website',
+    description: 'Verify the website provided with the company',
+    defaultThreshold: minimumValid,
+    costProfile: { calls: { scrape_do: 0.2 }, hitRate: 0.6 },
+    async run({ company, toolkit }, settings) {
+        if (!company.website || company.website.length <= 5 || company.website.includes('paginegialle.it')) {
+            return null;
+        }
+        traceCandidates([{ url: company.website, source: 'existing_website' }]);
+        const preCheck = await toolkit.verify(company.website, company);
+        if (!preCheck || preCheck.confidence < EXISTING_WEBSITE_FALLBACK_CONFIDENCE) {
+            return null;
+        }
+        return {
+            url: preCheck.final_url || company.website,
+            status: preCheck.confidence >= settings.threshold ? 'FOUND_VALID' : 'FOUND_INVALID',
+            method: 'pre_existing',
+            confidence: preCheck.confidence,
+            wave: 'PRE',
+            details: preCheck,
+        };
+    },
+};
+
+/**
+ * Targeted searches on the resolved identity (needs the identity layer).
+ */
+const surgicalSearchLayer: DiscoveryLayer = {
+    name: 'surgical_search',
+    description: 'Targeted searches on the resolved legal identity',
+    defaultThreshold: () => 0,
+    costProfile: { calls: { serper: 1, scrape_do: 0.2 }, hitRate: 0.3 },
+    async run({ company, identity, toolkit }, settings) {
+        if (!identity) {
+            return null;
+        }
+        const surgicalResult = await toolkit.surgicalSearch(identity, company);
+        if (!surgicalResult) {
+            return null;
+        }
+        traceCandidates([{ url: surgicalResult.url, source: surgicalResult.method, confidence: surgicalResult.confidence }]);
+        return {
+            url: surgicalResult.url,
+            status: surgicalResult.confidence >= settings.threshold ? 'FOUND_VALID' : 'FOUND_INVALID',
+            method: surgicalResult.method,
+            confidence: surgicalResult.confidence,
+            wave: 'LAYER1_SURGICAL',
+            details: surgicalResult,
+        };
+    },
+};
+
+/**
+ * 📧 Layer 1.5: probe the domain of the company's (non public) email / PEC.
+ */
+const emailReversalLayer: DiscoveryLayer = {
+    name: 'email_reversal',
+    description: 'Probe the domain of the company email / PEC',
+    defaultThreshold: swarmThreshold,
+    costProfile: { calls: { scrape_do: 0.2 }, hitRate: 0.15 },
+    async run({ company, toolkit }, settings) {
+        return toolkit.reverseEmailDomain(company, settings.threshold);
+    },
+};
+
+/**
+ * 🏛️ Layer 1.7: outbound links of the company on Italian registries.
+ */
+const registryDorkLayer: DiscoveryLayer = {
+    name: 'registry_dork',
+    description: 'Website links listed on registroimprese / informazione-aziende',
+    defaultThreshold: swarmThreshold,
+    costProfile: { calls: { serper: 1, scrape_do: 0.4 }, hitRate: 0.2 },
+    async run({ company, toolkit }, settings) {
+        return toolkit.dorkRegistries(company, settings.threshold);
+    },
+};
+
+/**
+ * 🧠 Layer 2: ask the LLM for the website, then verify it.
+ */
+const llmOracleLayer: DiscoveryLayer = {
+    name: 'llm_oracle',
+    description: 'LLM website prediction, verified',
+    defaultThreshold: () => ORACLE_MIN_CONFIDENCE,
+    costly: true,
+    costProfile: { calls: { llm: 1, scrape_do: 0.2 }, hitRate: 0.25 },
+    async run({ company, toolkit }, settings) {
+        const oracleUrl = await toolkit.predictWebsite(company);
+        if (!oracleUrl) {
+            return null;
+        }
+        traceCandidates([{ url: oracleUrl, source: 'llm_oracle' }]);
+        const verification = await toolkit.verify(oracleUrl, company);
+        if (!verification || verification.confidence < settings.threshold) {
+            return null;
+        }
+        return {
+            url: verification.final_url || oracleUrl,
+            status: 'FOUND_VALID',
+            method: 'llm_oracle',
+            confidence: verification.confidence,
+            wave: 'LAYER2_ORACLE',
+            details: verification,
+        };
+    },
+};
+
+/**
+ * 🐝 Layer 3: every search source in parallel, best verified candidate wins.
+ */
+const swarmLayer: DiscoveryLayer = {
+    name: 'swarm',
+    description: 'HyperGuesser + Serper + PagineGialle + Jina + Bing + DDG + VAT search',
+    defaultThreshold: swarmThreshold,
+    costProfile: { calls: { serper: 4, jina_search: 1 }, perCandidate: { scrape_do: 0.2, jina_reader: 0.1 }, hitRate: 0.5 },
+    async run({ company, identity, toolkit }, settings) {
+        const candidates = await toolkit.swarmCandidates(company, identity);
+        traceCandidates(candidates);
+        return toolkit.selectBest(candidates, company, 'LAYER3_SWARM', settings.threshold, settings.maxCandidates);
+    },
+};
+
+/**
+ * ⚖️ Layer 4: the agent-driven nuclear fallback.
+ */
+const nuclearLayer: DiscoveryLayer = {
+    name: 'nuclear',
+    description: 'Agent-driven nuclear fallback',
+    defaultThreshold: minimumValid,
+    costly: true,
+    costProfile: { calls: { serper: 3, llm: 3, scrape_do: 0.2 }, hitRate: 0.1 },
+    async run({ company, toolkit }, settings) {
+        try {
+            const nuclear = await toolkit.nuclear(company);
+            if (!nuclear?.url) {
+                return null;
+            }
+            traceCandidates([{ url: nuclear.url, source: 'nuclear' }]);
+            const verification = await toolkit.verify(nuclear.url, company);
+            if (!verification || verification.confidence < settings.threshold) {
+                return null;
+            }
+            const result: DiscoveryResult = {
+                url: verification.final_url || nuclear.url,
+                status: 'FOUND_VALID',
+                method: 'nuclear',
+                confidence: verification.confidence,
+                wave: 'LAYER4_NUCLEAR',
+                details: verification,
+            };
+            return result;
+        } catch (e: any) {
+            Logger.warn('[Wave4] Nuclear strategy failed', { error: e, company_name: company.company_name });
+            return null;
+        }
+    },
+};
+
+export const BUILTIN_DISCOVERY_LAYERS: DiscoveryLayer[] = [
+    identityLayer,
+    existingWebsiteLayer,
+    surgicalSearchLayer,
+    emailReversalLayer,
+    registryDorkLayer,
+    llmOracleLayer,
+    swarmLayer,
+    nuclearLayer,
+];
@@ -0,0 +1,104 @@
+/**
+ * 🧩 DISCOVERY LAYER CONTRACT
+ * A layer is one step of website discovery (identity, surgical search, swarm, ...).
+ * UnifiedDiscoveryService runs the layers listed by the mode profile, in order:
+ *
+ * - FOUND_VALID stops the pipeline (the result is finalized)
+ * - FOUND_INVALID is kept as fallback when it beats the best one so far
+ * - null: nothing found, next layer
+ *
+ * A layer that runs out of its `timeoutMs` is abandoned: its `signal` is aborted, toolkit
+ * calls it starts afterwards reject with TimeoutError, and whatever it returns or sets on
+ * the context is discarded. Requests already in flight are not interrupted.
+ */
+
+import { CompanyInput } from '../../../types';
+import type { PaidProvider } from '../../../utils/provider_usage';
+import type { IdentityResult } from '../identity_resolver';
+import type { DiscoveryResult } from '../unified_discovery_service';
+
+export interface DiscoveryCandidate {
+    url: string;
+    source: string;
+    confidence: number;
+    /** 1-based position in the search results (search sources only) */
+    rank?: number;
+    /** Kind of query that surfaced the candidate (GoldenQuery type, 'vat', 'name_city') */
+    query_type?: string;
+}
+
+/**
+ * Verification primitives the service shares with its layers.
+ */
+export interface DiscoveryToolkit {
+    /** Deep verification of a candidate URL (null when it could not be checked) */
+    verify(url: string, company: CompanyInput): Promise<any | null>;
+    /** Verify up to `maxCandidates` candidates and return the most confident one */
+    selectBest(
+        candidates: DiscoveryCandidate[],
+        company: CompanyInput,
+        wave: string,
+        threshold: number,
+        maxCandidates: number
+    ): Promise<DiscoveryResult | null>;
+    resolveIdentity(company: CompanyInput): Promise<IdentityResult | null>;
+    surgicalSearch(identity: IdentityResult, company: CompanyInput): Promise<any | null>;
+    reverseEmailDomain(company: CompanyInput, threshold: number): Promise<DiscoveryResult | null>;
+    dorkRegistries(company: CompanyInput, threshold: number): Promise<DiscoveryResult | null>;
+    predictWebsite(company: CompanyInput): Promise<string | null>;
+    /** All swarm sources (HyperGuesser, Serper, PagineGialle, Jina, Bing, DDG, VAT), deduplicated */
+    swarmCandidates(company: CompanyInput, identity: IdentityResult | null): Promise<DiscoveryCandidate[]>;
+    nuclear(company: CompanyInput): Promise<{ url?: string | null } | null>;
+}
+
+/**
+ * Per-run state shared by the layers of one discovery.
+ */
+export interface DiscoveryLayerContext {
+    company: CompanyInput;
+    /** Set by the identity layer, read by the layers after it */
+    identity: IdentityResult | null;
+    toolkit: DiscoveryToolkit;
+    /** Aborted when the layer runs out of time: stop before starting more (paid) work */
+    signal: AbortSignal;
+}
+
+/**
+ * Settings of a layer in a mode profile, after defaults and stop-the-bleeding clamps.
+ */
+export interface ResolvedLayerSettings {
+    /** Minimum verification confidence for FOUND_VALID */
+    threshold: number;
+    /** Verification budget: candidates deep-verified at most */
+    maxCandidates: number;
+    /** Wall-clock budget for the layer (0 = none) */
+    timeoutMs: number;
+}
+
+export type SpendProvider = PaidProvider | 'llm';
+
+/**
+ * What a layer typically spends, for the discovery budget (see ../discovery_budget.ts).
+ * Fractional calls are the share of runs that need the provider (e.g. Scrape.do only when blocked).
+ */
+export interface LayerCostProfile {
+    /** Provider calls per layer run */
+    calls?: Partial<Record<SpendProvider, number>>;
+    /** Provider calls per deep-verified candidate (scaled by maxCandidates) */
+    perCandidate?: Partial<Record<SpendProvider, number>>;
+    /** Share of runs reaching the layer that end FOUND_VALID (prior of the expected-value rule) */
+    hitRate?: number;
+}
+
+export interface DiscoveryLayer {
+    /** Name used in mode profiles */
+    readonly name: string;
+    readonly description: string;
+    /** Default acceptance threshold when the profile sets none */
+    defaultThreshold(): number;
+    /** Paid layers (LLM calls) are skipped in stop-the-bleeding mode */
+    readonly costly?: boolean;
+    /** Expected spend; layers without one are free and never skipped by the budget */
+    readonly costProfile?: LayerCostProfile;
+    run(context: DiscoveryLayerContext, settings: ResolvedLayerSettings): Promise<DiscoveryResult | null>;
+}
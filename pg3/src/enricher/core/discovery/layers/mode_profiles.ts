@@ -0,0 +1,184 @@
+/**
+ * 🎛️ DISCOVERY MODE PROFILES
+ * A mode is a declarative list of layers with optional per-layer settings:
+ *
+ *   { "REGISTRY_ONLY": { "layers": ["identity", { "layer": "registry_dork", "threshold": 0.7, "timeoutMs": 20000 }] } }
+ *
+ * - threshold (absolute) or thresholdDelta (added to the layer default)
+ * - maxCandidates: how many candidates the layer may deep-verify
+ * - timeoutMs: the layer is abandoned (pipeline moves on) after this long
+ *
+ * The four built-in modes are defined below; DISCOVERY_MODE_PROFILES_PATH points at a
+ * JSON file with more (or overriding) profiles.
+ */
+
+import * as fs from 'fs';
+import { z } from 'zod';
+import { Logger } from '../../../utils/logger';
+import { config } from '../../../config';
+import { ConfigurationError } from '../../../../utils/errors';
+import { DiscoveryLayer, ResolvedLayerSettings } from './layer_types';
+import { getDiscoveryLayer } from './registry';
+
+const DEFAULT_MAX_CANDIDATES = 15;
+const STOP_THE_BLEEDING_MAX_CANDIDATES = 8;
+
+const LayerStepSchema = z.union([
+    z.string().min(1).transform((layer) => ({ layer })),
+    z.object({
+        layer: z.string().min(1),
+        threshold: z.number().min(0).max(1).optional(),
+        thresholdDelta: z.number().min(-1).max(1).optional(),
+        maxCandidates: z.number().int().min(1).max(200).optional(),
+        timeoutMs: z.number().int().min(0).optional(),
+    }).strict(),
+]);
+
+const ModeProfileSchema = z.object({
+    description: z.string().optional(),
+    layers: z.array(LayerStepSchema).min(1),
+}).strict();
+
+const ModeProfilesFileSchema = z.record(z.string().regex(/^[A-Za-z0-9_-]+$/), ModeProfileSchema);
+
+export interface DiscoveryLayerStep {
+    layer: string;
+    threshold?: number;
+    thresholdDelta?: number;
+    maxCandidates?: number;
+    timeoutMs?: number;
+}
+
+export interface DiscoveryModeProfile {
+    name: string;
+    description?: string;
+    layers: DiscoveryLayerStep[];
+}
+
+export interface PlannedLayer {
+    layer: DiscoveryLayer;
+    settings: ResolvedLayerSettings;
+}
+
+/**
+ * The OMEGA layer order; modes differ in swarm threshold / budget and the nuclear fallback.
+ */
+function omegaLayers(thresholdDelta: number, maxCandidates: number, nuclear: boolean): DiscoveryLayerStep[] {
+    return [
+        { layer: 'identity' },
+        { layer: 'existing_website' },
+        { layer: 'surgical_search' },
+        { layer: 'email_reversal', thresholdDelta },
+        { layer: 'registry_dork', thresholdDelta },
+        { layer: 'llm_oracle' },
+        { layer: 'swarm', thresholdDelta, maxCandidates },
+        ...(nuclear ? [{ layer: 'nuclear' }] : []),
+    ];
+}
+
+const BUILTIN_MODE_PROFILES: DiscoveryModeProfile[] = [
+    { name: 'FAST_RUN1', description: 'Stricter threshold, small verification budget', layers: omegaLayers(0.05, 8, false) },
+    { name: 'DEEP_RUN2', description: 'Baseline', layers: omegaLayers(0, 15, false) },
+    { name: 'AGGRESSIVE_RUN3', description: 'Looser threshold, larger budget', layers: omegaLayers(-0.05, 20, false) },
+    { name: 'NUCLEAR_RUN4', description: 'Loosest threshold plus the nuclear fallback', layers: omegaLayers(-0.08, 30, true) },
+];
+
+const profiles = new Map<string, DiscoveryModeProfile>(BUILTIN_MODE_PROFILES.map((profile) => [profile.name, profile]));
+let profilesFileLoaded = false;
+
+function assertLayersRegistered(profile: DiscoveryModeProfile): void {
+    for (const step of profile.layers) {
+        if (!getDiscoveryLayer(step.layer)) {
+            throw new ConfigurationError(`Discovery mode ${profile.name}: unknown layer "${step.layer}"`);
+        }
+    }
+}
+
+/**
+ * Validate and register profiles ({ NAME: { description?, layers } }); same names replace earlier ones.
+ */
+export function defineDiscoveryModeProfiles(raw: unknown): DiscoveryModeProfile[] {
+    const parsed = ModeProfilesFileSchema.safeParse(raw);
+    if (!parsed.success) {
+        const issues = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+        throw new ConfigurationError(`Invalid discovery mode profiles: ${issues}`);
+    }
+    const defined = Object.entries(parsed.data).map(([name, profile]) => ({ name, ...profile }));
+    defined.forEach(assertLayersRegistered);
+    for (const profile of defined) {
+        profiles.set(profile.name, profile);
+    }
+    return defined;
+}
+
+export function loadDiscoveryModeProfiles(filePath: string): DiscoveryModeProfile[] {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+        throw new ConfigurationError(`Cannot read discovery mode profiles ${filePath}: ${(error as Error).message}`);
+    }
+    const loaded = defineDiscoveryModeProfiles(raw);
+    Logger.info(`🎛️ Loaded ${loaded.length} discovery mode profiles from ${filePath}`, { modes: loaded.map((profile) => profile.name) });
+    return loaded;
+}
+
+function ensureProfilesFileLoaded(): void {
+    if (profilesFileLoaded) {
+        return;
+    }
+    profilesFileLoaded = true;
+    if (config.discovery.modeProfilesPath) {
+        loadDiscoveryModeProfiles(config.discovery.modeProfilesPath);
+    }
+}
+
+export function getDiscoveryModeProfile(name: string): DiscoveryModeProfile | undefined {
+    ensureProfilesFileLoaded();
+    return profiles.get(name);
+}
+
+export function listDiscoveryModeProfiles(): DiscoveryModeProfile[] {
+    ensureProfilesFileLoaded();
+    return Array.from(profiles.values());
+}
+
+export function isDiscoveryMode(name: string | undefined): name is string {
+    return !!name && getDiscoveryModeProfile(name) !== undefined;
+}
+
+/**
+ * Layers of a profile with their effective settings.
+ * Stop-the-bleeding drops costly layers, raises thresholds to the minimum valid confidence
+ * and caps the verification budget.
+ */
+export function planDiscoveryLayers(
+    profile: DiscoveryModeProfile,
+    options: { stopTheBleeding?: boolean } = {}
+): PlannedLayer[] {
+    const stopTheBleeding = options.stopTheBleeding ?? config.discovery.stopTheBleeding;
+    const planned: PlannedLayer[] = [];
+
+    for (const step of profile.layers) {
+        const layer = getDiscoveryLayer(step.layer);
+        if (!layer) {
+            throw new ConfigurationError(`Discovery mode ${profile.name}: unknown layer "${step.layer}"`);
+        }
+        if (stopTheBleeding && layer.costly) {
+            Logger.warn(`[Discovery] Stop-the-bleeding mode active: skipping ${layer.name} layer`);
+            continue;
+        }
+        const base = step.threshold ?? layer.defaultThreshold();
+        const threshold = step.thresholdDelta === undefined ? base : Math.min(0.99, Math.max(0.1, base + step.thresholdDelta));
+        const maxCandidates = step.maxCandidates ?? DEFAULT_MAX_CANDIDATES;
+        planned.push({
+            layer,
+            settings: {
+                threshold: stopTheBleeding ? Math.max(threshold, config.discovery.thresholds.minValid) : threshold,
+                maxCandidates: stopTheBleeding ? Math.min(maxCandidates, STOP_THE_BLEEDING_MAX_CANDIDATES) : maxCandidates,
+                timeoutMs: step.timeoutMs ?? 0,
+            },
+        });
+    }
+    return planned;
+}
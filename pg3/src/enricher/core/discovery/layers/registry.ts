@@ -0,0 +1,26 @@
+/**
+ * 🗂️ DISCOVERY LAYER REGISTRY
+ * Layers are looked up by name when a mode profile is resolved; register custom
+ * layers before the first discovery to use them in profiles.
+ */
+
+import { ConfigurationError } from '../../../../utils/errors';
+import { DiscoveryLayer } from './layer_types';
+import { BUILTIN_DISCOVERY_LAYERS } from './builtin_layers';
+
+const layers = new Map<string, DiscoveryLayer>(BUILTIN_DISCOVERY_LAYERS.map((layer) => [layer.name, layer]));
+
+export function registerDiscoveryLayer(layer: DiscoveryLayer, options: { replace?: boolean } = {}): void {
+    if (layers.has(layer.name) && !options.replace) {
+        throw new ConfigurationError(`Discovery layer already registered: ${layer.name}`);
+    }
+    layers.set(layer.name, layer);
+}
+
+export function getDiscoveryLayer(name: string): DiscoveryLayer | undefined {
+    return layers.get(name);
+}
+
+export function listDiscoveryLayers(): DiscoveryLayer[] {
+    return Array.from(layers.values());
+}
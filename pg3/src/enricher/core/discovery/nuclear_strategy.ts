@@ -1,11 +1,14 @@
 import { CompanyInput } from '../../types';
 import { Logger } from '../../utils/logger';
 import { BrowserFactory } from '../browser/factory_v2';
-import { GoogleSearchProvider, DDGSearchProvider, SerperSearchProvider } from './search_provider';
+import { searchSerp } from './serp/registry';
 import { LLMValidator } from '../ai/llm_validator';
 import { config } from '../../config';
 import pLimit from 'p-limit';
 
+/** DDG over Tor is free but often blocked; Serper answers when it is */
+const NUCLEAR_SERP_PROVIDERS = ['ddg_tor', 'serper'];
+
 /**
  * ☢️ NUCLEAR STRATEGY ☢️
  * Run 4: "Firepower" Mode.
@@ -30,21 +33,10 @@ export class NuclearStrategy {
         // 1. GENERATE QUERIES (Reduced set for AI - Quality over Quantity)
         const query = `"${company.company_name}" ${company.city || ''} sito ufficiale`;
 
-        // 2. SEARCH (DDG first, then Serper)
-        let serpResults: any[] = [];
-        try {
-            // Try DDG First
-            const ddgProvider = new DDGSearchProvider();
-            serpResults = await ddgProvider.search(query);
-
-            // Fallback to Serper if DDG is empty
-            if (serpResults.length === 0) {
-                Logger.info(`[Nuclear] DDG empty. Escalating to Serper.dev...`);
-                const serperProvider = new SerperSearchProvider();
-                serpResults = await serperProvider.search(query);
-            }
-        } catch (e) {
-            Logger.warn(`[Nuclear] Search failed: ${(e as Error).message}`);
+        // 2. SEARCH (DDG via Tor first, then Serper)
+        const { results: serpResults, provider } = await searchSerp(query, { providers: NUCLEAR_SERP_PROVIDERS });
+        if (!provider) {
+            Logger.warn(`[Nuclear] Search failed on every provider`);
             return { url: null, method: 'nuclear_failed', confidence: 0 };
         }
 
@@ -56,7 +48,7 @@ export class NuclearStrategy {
             // 3. SMART AI SELECTION (Only if we have results)
             Logger.info(`[Nuclear] Analyzing ${serpResults.length} SERP results with AI...`);
             try {
-                const aiDecision = await LLMValidator.selectBestUrl(company, serpResults);
+                const aiDecision = await LLMValidator.selectBestUrl(company, serpResults.map((r) => ({ ...r, snippet: r.snippet ?? '' })));
 
                 if (aiDecision.bestUrl && aiDecision.confidence > 0.6) {
                     Logger.info(`[Nuclear] AI selected: ${aiDecision.bestUrl} (Conf: ${aiDecision.confidence})`);
@@ -81,31 +73,8 @@ export class NuclearStrategy {
         const searchTasks = queries.map(q => this.queryLimit(async () => {
             await new Promise(r => setTimeout(r, 2000 + Math.random() * 3000));
 
-            // 1. Try DDG (Fast, but often blocked)
-            try {
-                const provider = new DDGSearchProvider();
-                let results = await provider.search(q);
-                if (results.length > 0) return results.map((r: any) => r.url);
-            } catch (e) { }
-
-            // 2. Try Serper (API, reliable but needs key)
-            if (process.env.SERPER_API_KEY) {
-                try {
-                    const provider = new SerperSearchProvider();
-                    let results = await provider.search(q);
-                    if (results.length > 0) return results.map((r: any) => r.url);
-                } catch (e) { }
-            }
-
-            // 3. Try Google (Puppeteer + Scrape.do - Slow but robust)
-            // Added as fallback for Rescue Mission
-            try {
-                const provider = new GoogleSearchProvider();
-                let results = await provider.search(q);
-                return results.map((r: any) => r.link); // Google provider uses 'link' not 'url'
-            } catch (e) {
-                return [];
-            }
+            const { results } = await searchSerp(q, { providers: NUCLEAR_SERP_PROVIDERS });
+            return results.map((r) => r.url);
         }));
 
         const results = await Promise.all(searchTasks);
@@ -0,0 +1,162 @@
+/**
+ * 🎯 CANDIDATE RANKER
+ * Orders discovery candidates before deep verification, so the verification budget
+ * (maxCandidates) is spent on the candidates most likely to be the company website.
+ *
+ * - With a trained model (DISCOVERY_RANKING_MODEL_PATH, written by `ranker train`): logistic
+ *   regression over source, SERP rank, domain coverage, TLD, query type and raw confidence.
+ *   Candidates scoring under DISCOVERY_RANKING_MIN_SCORE are not verified (the best one always is).
+ * - Without a model: the source confidence constant plus a domain coverage bonus.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { Logger } from '../../../utils/logger';
+import { config } from '../../../config';
+import { ConfigurationError } from '../../../../utils/errors';
+import { CompanyMatcher } from '../company_matcher';
+import type { DiscoveryCandidate } from '../layers/layer_types';
+
+export const CANDIDATE_RANKER_VERSION = 1;
+
+const KNOWN_TLDS = new Set(['it', 'com', 'eu', 'net', 'org', 'biz', 'info']);
+
+const RankingModelSchema = z.object({
+    version: z.literal(CANDIDATE_RANKER_VERSION),
+    trained_at: z.string(),
+    samples: z.number().int().min(0),
+    positives: z.number().int().min(0),
+    bias: z.number(),
+    weights: z.record(z.string(), z.number()),
+    metrics: z.object({ accuracy: z.number(), log_loss: z.number() }).optional(),
+});
+
+export type CandidateRankingModel = z.infer<typeof RankingModelSchema>;
+
+export type CandidateFeatures = Record<string, number>;
+
+export interface RankedCandidate extends DiscoveryCandidate {
+    score: number;
+}
+
+function tldOf(url: string): string {
+    try {
+        const hostname = new URL(url.startsWith('http') ? url : `https://${url}`).hostname.toLowerCase();
+        const tld = hostname.split('.').pop() || '';
+        return KNOWN_TLDS.has(tld) ? tld : 'other';
+    } catch {
+        return 'other';
+    }
+}
+
+/**
+ * Sparse feature vector of a candidate: one-hot source / TLD / query type plus numeric signals.
+ */
+export function extractCandidateFeatures(candidate: DiscoveryCandidate, companyName: string): CandidateFeatures {
+    const features: CandidateFeatures = {
+        [`source:${candidate.source}`]: 1,
+        [`tld:${tldOf(candidate.url)}`]: 1,
+        domain_coverage: CompanyMatcher.domainCoverage(companyName, candidate.url),
+        raw_confidence: candidate.confidence ?? 0,
+        serp_rank_inverse: candidate.rank ? 1 / candidate.rank : 0,
+    };
+    if (candidate.query_type) {
+        features[`query:${candidate.query_type}`] = 1;
+    }
+    return features;
+}
+
+export function sigmoid(value: number): number {
+    return 1 / (1 + Math.exp(-value));
+}
+
+/**
+ * Probability that the candidate passes verification (unknown features weigh nothing).
+ */
+export function scoreFeatures(model: Pick<CandidateRankingModel, 'bias' | 'weights'>, features: CandidateFeatures): number {
+    let logit = model.bias;
+    for (const [name, value] of Object.entries(features)) {
+        logit += (model.weights[name] ?? 0) * value;
+    }
+    return sigmoid(logit);
+}
+
+/**
+ * Fallback priority without a model: fixed source confidence + domain coverage bonus.
+ */
+export function heuristicCandidateScore(candidate: DiscoveryCandidate, companyName: string): number {
+    return candidate.confidence + CompanyMatcher.domainCoverage(companyName, candidate.url) * 0.25;
+}
+
+export function defineCandidateRankingModel(raw: unknown): CandidateRankingModel {
+    const parsed = RankingModelSchema.safeParse(raw);
+    if (!parsed.success) {
+        const issues = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+        throw new ConfigurationError(`Invalid candidate ranking model: ${issues}`);
+    }
+    return parsed.data;
+}
+
+export function loadCandidateRankingModel(filePath: string): CandidateRankingModel {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+        throw new ConfigurationError(`Cannot read candidate ranking model ${filePath}: ${(error as Error).message}`);
+    }
+    const model = defineCandidateRankingModel(raw);
+    Logger.info(`🎯 Loaded candidate ranking model from ${filePath}`, { samples: model.samples, trained_at: model.trained_at });
+    return model;
+}
+
+export function saveCandidateRankingModel(model: CandidateRankingModel, filePath: string): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, `${JSON.stringify(model, null, 2)}\n`);
+}
+
+let activeModel: CandidateRankingModel | null | undefined;
+
+/**
+ * The model at DISCOVERY_RANKING_MODEL_PATH (loaded once; null when no model has been trained yet).
+ */
+export function getCandidateRankingModel(): CandidateRankingModel | null {
+    if (activeModel === undefined) {
+        const filePath = config.discovery.ranking.modelPath;
+        activeModel = filePath && fs.existsSync(filePath) ? loadCandidateRankingModel(filePath) : null;
+    }
+    return activeModel;
+}
+
+/**
+ * Replace the active model (null = heuristic ranking) without reading DISCOVERY_RANKING_MODEL_PATH.
+ */
+export function setCandidateRankingModel(model: CandidateRankingModel | null): void {
+    activeModel = model;
+}
+
+/**
+ * Candidates ordered by score (stable for ties). With a model, candidates under `minScore`
+ * are dropped, but the best one is always kept.
+ */
+export function rankCandidates(
+    candidates: DiscoveryCandidate[],
+    companyName: string,
+    options: { model?: CandidateRankingModel | null; minScore?: number } = {}
+): RankedCandidate[] {
+    const model = options.model === undefined ? getCandidateRankingModel() : options.model;
+    const ranked = candidates
+        .map((candidate) => ({
+            ...candidate,
+            score: model
+                ? scoreFeatures(model, extractCandidateFeatures(candidate, companyName))
+                : heuristicCandidateScore(candidate, companyName),
+        }))
+        .sort((a, b) => b.score - a.score);
+
+    if (!model) {
+        return ranked;
+    }
+    const minScore = options.minScore ?? config.discovery.ranking.minScore;
+    return ranked.filter((candidate, index) => index === 0 || candidate.score >= minScore);
+}
@@ -0,0 +1,121 @@
+/**
+ * 🏋️ CANDIDATE RANKER TRAINING
+ * Offline fit of the candidate ranking model from past discoveries.
+ *
+ * Labels come from the discovery traces: every deep verification of a candidate is a
+ * sample, positive when its confidence reached the threshold of the layer that verified
+ * it. Verifications that could not run (no confidence, ERROR_* reason codes) say nothing
+ * about the candidate and are left out.
+ */
+
+import { ValidationError } from '../../../../utils/errors';
+import type { DiscoveryTrace } from '../discovery_trace';
+import type { DiscoveryCandidate } from '../layers/layer_types';
+import {
+    CANDIDATE_RANKER_VERSION,
+    CandidateFeatures,
+    CandidateRankingModel,
+    extractCandidateFeatures,
+    scoreFeatures,
+} from './candidate_ranker';
+
+export interface LabeledCandidate {
+    company_name: string;
+    candidate: DiscoveryCandidate;
+    verified: boolean;
+}
+
+export interface RankerTrainingOptions {
+    epochs?: number;
+    learningRate?: number;
+    /** L2 penalty, keeps rare sources / TLDs from getting extreme weights */
+    l2?: number;
+    minSamples?: number;
+    now?: Date;
+}
+
+export function extractTrainingSamples(traces: DiscoveryTrace[]): LabeledCandidate[] {
+    const samples: LabeledCandidate[] = [];
+    for (const trace of traces) {
+        for (const layer of trace.layers ?? []) {
+            const candidates = new Map(layer.candidates.map((candidate) => [candidate.url, candidate]));
+            for (const verification of layer.verifications) {
+                const candidate = candidates.get(verification.url);
+                if (!candidate || verification.confidence === null || verification.reason_code?.startsWith('ERROR_')) {
+                    continue;
+                }
+                samples.push({
+                    company_name: trace.company_name,
+                    candidate: { ...candidate, confidence: candidate.confidence ?? 0 },
+                    verified: verification.confidence >= layer.settings.threshold,
+                });
+            }
+        }
+    }
+    return samples;
+}
+
+/**
+ * Logistic regression by full-batch gradient descent (deterministic: same samples, same weights).
+ */
+export function trainCandidateRanker(samples: LabeledCandidate[], options: RankerTrainingOptions = {}): CandidateRankingModel {
+    const epochs = options.epochs ?? 400;
+    const learningRate = options.learningRate ?? 0.5;
+    const l2 = options.l2 ?? 0.001;
+    const minSamples = options.minSamples ?? 20;
+
+    const positives = samples.filter((sample) => sample.verified).length;
+    if (samples.length < minSamples) {
+        throw new ValidationError(`Not enough verified candidates to train on: ${samples.length} (need ${minSamples})`);
+    }
+    if (positives === 0 || positives === samples.length) {
+        throw new ValidationError('Training samples need both verified and rejected candidates');
+    }
+
+    const rows: Array<{ features: CandidateFeatures; label: number }> = samples.map((sample) => ({
+        features: extractCandidateFeatures(sample.candidate, sample.company_name),
+        label: sample.verified ? 1 : 0,
+    }));
+    const weights: Record<string, number> = {};
+    for (const row of rows) {
+        for (const name of Object.keys(row.features)) {
+            weights[name] = 0;
+        }
+    }
+    let bias = Math.log(positives / (samples.length - positives));
+
+    for (let epoch = 0; epoch < epochs; epoch++) {
+        const gradients: Record<string, number> = {};
+        let biasGradient = 0;
+        for (const row of rows) {
+            const error = scoreFeatures({ bias, weights }, row.features) - row.label;
+            biasGradient += error;
+            for (const [name, value] of Object.entries(row.features)) {
+                gradients[name] = (gradients[name] ?? 0) + error * value;
+            }
+        }
+        bias -= learningRate * biasGradient / rows.length;
+        for (const name of Object.keys(weights)) {
+            weights[name] -= learningRate * ((gradients[name] ?? 0) / rows.length + l2 * weights[name]);
+        }
+    }
+
+    let correct = 0;
+    let logLoss = 0;
+    for (const row of rows) {
+        const probability = Math.min(1 - 1e-9, Math.max(1e-9, scoreFeatures({ bias, weights }, row.features)));
+        correct += (probability >= 0.5 ? 1 : 0) === row.label ? 1 : 0;
+        logLoss -= row.label * Math.log(probability) + (1 - row.label) * Math.log(1 - probability);
+    }
+
+    const round = (value: number) => Math.round(value * 1e6) / 1e6;
+    return {
+        version: CANDIDATE_RANKER_VERSION,
+        trained_at: (options.now ?? new Date()).toISOString(),
+        samples: samples.length,
+        positives,
+        bias: round(bias),
+        weights: Object.fromEntries(Object.entries(weights).sort(([a], [b]) => a.localeCompare(b)).map(([name, weight]) => [name, round(weight)])),
+        metrics: { accuracy: round(correct / rows.length), log_loss: round(logLoss / rows.length) },
+    };
+}
@@ -0,0 +1,128 @@
+/**
+ * 🔎 BUILT-IN SERP PROVIDERS
+ *
+ * - serper: Google results via the Serper.dev API (paid, most reliable)
+ * - jina: s.jina.ai search (paid, needs JINA_ENABLED)
+ * - bing / ddg: HTML result pages, through Scrape.do when configured
+ * - ddg_tor: DuckDuckGo HTML through the Tor browser (free, slow, often blocked)
+ *
+ * Rate limits are the pacing we keep per provider, not the providers' hard quotas.
+ */
+
+import { Logger } from '../../../utils/logger';
+import { recordProviderCall } from '../../../utils/provider_usage';
+import { ScraperClient } from '../../../utils/scraper_client';
+import { TorError } from '../../../../utils/errors';
+import { TorBrowser } from '../../browser/tor_browser';
+import { parseBingHtml, parseDuckDuckGoHtml, parseJinaSearchResponse, parseSerperResponse } from './parsers';
+import { SerpProvider } from './provider_types';
+
+/** DuckDuckGo answers bots with a challenge page instead of an error status */
+export function isDuckDuckGoBlocked(html: string, title: string = ''): boolean {
+    return html.includes('bots use duckduckgo too') ||
+        html.includes('issue with the Tor Exit Node') ||
+        title.includes('403') ||
+        html.length < 500;
+}
+
+const scrapeMode = () => (ScraperClient.isScrapeDoEnabled() ? 'scrape_do' : 'direct');
+
+const serperProvider: SerpProvider = {
+    name: 'serper',
+    description: 'Google results via the Serper.dev API',
+    cost: { provider: 'serper', units: 1 },
+    rateLimit: { requestsPerMinute: 300 },
+    isConfigured: () => !!process.env.SERPER_API_KEY,
+    async search(query, { limit }) {
+        recordProviderCall('serper');
+        const response = await fetch('https://google.serper.dev/search', {
+            method: 'POST',
+            headers: { 'X-API-KEY': process.env.SERPER_API_KEY!, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ q: query, gl: 'it', hl: 'it' }),
+        });
+        if (!response.ok) {
+            if (response.status === 403) Logger.error('[SerperProvider] Invalid API Key');
+            throw new Error(`Serper API error: ${response.status} ${response.statusText}`);
+        }
+        return parseSerperResponse(await response.json(), limit);
+    },
+};
+
+const jinaProvider: SerpProvider = {
+    name: 'jina',
+    description: 'Jina AI search (s.jina.ai)',
+    cost: { provider: 'jina_search', units: 1 },
+    rateLimit: { requestsPerMinute: 60 },
+    isConfigured: () => ScraperClient.isJinaEnabled(),
+    async search(query, { limit }) {
+        const response = await ScraperClient.fetchJinaSearch(query);
+        if (response.status !== 200) {
+            throw new Error(`Jina search error: ${response.status}`);
+        }
+        return parseJinaSearchResponse(response.data, limit);
+    },
+};
+
+const bingProvider: SerpProvider = {
+    name: 'bing',
+    description: 'Bing HTML results (via Scrape.do when configured)',
+    cost: { provider: 'scrape_do', units: 1 },
+    rateLimit: { requestsPerMinute: 30 },
+    isConfigured: () => true,
+    async search(query, { limit }) {
+        const html = await ScraperClient.fetchText(`https://www.bing.com/search?q=${encodeURIComponent(query)}&setlang=it&cc=IT`, { mode: scrapeMode() });
+        return parseBingHtml(html, limit);
+    },
+};
+
+const duckDuckGoProvider: SerpProvider = {
+    name: 'ddg',
+    description: 'DuckDuckGo HTML results (via Scrape.do when configured)',
+    cost: { provider: 'scrape_do', units: 1 },
+    rateLimit: { requestsPerMinute: 20 },
+    isConfigured: () => true,
+    async search(query, { limit }) {
+        const html = await ScraperClient.fetchText(`https://html.duckduckgo.com/html/?q=${encodeURIComponent(query)}&kl=it-it`, { mode: scrapeMode() });
+        if (isDuckDuckGoBlocked(html)) {
+            throw new Error('DDG_BLOCK');
+        }
+        return parseDuckDuckGoHtml(html, limit);
+    },
+};
+
+const duckDuckGoTorProvider: SerpProvider = {
+    name: 'ddg_tor',
+    description: 'DuckDuckGo HTML results through the Tor browser',
+    rateLimit: { requestsPerMinute: 10 },
+    isConfigured: () => process.env.DISABLE_PROXY !== 'true',
+    async search(query, { limit }) {
+        const torBrowser = TorBrowser.getInstance();
+        // Fail fast: without the ControlPort there is no circuit to rotate
+        if (!(await torBrowser.isControlPortAvailable())) {
+            throw new TorError('Tor ControlPort 9051 is not reachable. DDG search unavailable.', false);
+        }
+
+        const page = await torBrowser.getPage();
+        try {
+            await page.goto(`https://html.duckduckgo.com/html/?q=${encodeURIComponent(query)}`, { waitUntil: 'domcontentloaded', timeout: 45000 });
+            const title = await page.title();
+            const html = await page.content();
+            if (isDuckDuckGoBlocked(html, title)) {
+                Logger.warn(`[DDGTor] Block detected (Title: "${title}"). Rotating IP...`);
+                await torBrowser.rotateIP();
+                throw new Error('DDG_BLOCK');
+            }
+            return parseDuckDuckGoHtml(html, limit);
+        } finally {
+            await page.close().catch(() => { });
+        }
+    },
+};
+
+export const BUILTIN_SERP_PROVIDERS: SerpProvider[] = [
+    serperProvider,
+    jinaProvider,
+    bingProvider,
+    duckDuckGoProvider,
+    duckDuckGoTorProvider,
+];
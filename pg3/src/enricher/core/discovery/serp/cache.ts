@@ -0,0 +1,165 @@
+/**
+ * 💾 SERP CACHE
+ * Provider answers persisted in the result store, so an identical query (the VAT query, the
+ * golden queries of a re-run company) is paid once per SERP_CACHE_TTL_HOURS by all workers
+ * and runs. Entries are content-addressed: provider + SHA-256 of the normalized query.
+ *
+ * - empty answers are kept for SERP_CACHE_EMPTY_TTL_HOURS; errors are never cached
+ * - entries carry the company of the worker job that fetched them (LiveContext), so the
+ *   searches of one company can be dropped after its input data is fixed
+ * - hits and misses are counted per provider and UTC day in the store: the hit rate covers
+ *   every worker, not just this process
+ *
+ * The cache is bypassed without an initialized result store (scripts, tests) or with
+ * SERP_CACHE_ENABLED=false. A store error counts as a miss: the cache never fails a search.
+ */
+
+import * as crypto from 'crypto';
+import { config } from '../../../config';
+import { getActiveResultStore, initializeResultStore, ResultStore } from '../../../db/result_store';
+import { SerpCacheFilter } from '../../../db/model';
+import { getLiveContext } from '../../../observability/live_events';
+import { Logger } from '../../../utils/logger';
+import { SerpResult } from '../serp_analyzer';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface SerpCacheProviderStats {
+    provider: string;
+    hits: number;
+    misses: number;
+    /** hits / lookups, 0 without lookups */
+    hit_rate: number;
+    /** Unexpired entries */
+    entries: number;
+    saved_eur: number;
+}
+
+export interface SerpCacheStats extends Omit<SerpCacheProviderStats, 'provider'> {
+    /** First UTC day counted */
+    since: string;
+    providers: SerpCacheProviderStats[];
+}
+
+/**
+ * Case, Unicode form and whitespace do not change a search; quotes and operators do.
+ */
+export function normalizeSerpQuery(query: string): string {
+    return query.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export function serpQueryHash(query: string): string {
+    return crypto.createHash('sha256').update(normalizeSerpQuery(query)).digest('hex');
+}
+
+function utcDay(now: Date): string {
+    return now.toISOString().slice(0, 10);
+}
+
+function activeStore(): ResultStore | null {
+    return config.discovery.serp.cache.enabled ? getActiveResultStore() : null;
+}
+
+/**
+ * Cached answer of `provider` to `query`, or null on a miss (or when the cache is off).
+ * `queryCostEur` is what the provider charges for the query, booked as saved on a hit.
+ */
+export async function readSerpCache(provider: string, query: string, queryCostEur: number = 0): Promise<SerpResult[] | null> {
+    const store = activeStore();
+    if (!store) {
+        return null;
+    }
+    const now = new Date();
+    try {
+        const entry = await store.getSerpCacheEntry<SerpResult[]>(provider, serpQueryHash(query), now.toISOString());
+        await store.recordSerpCacheLookup(provider, utcDay(now), !!entry, queryCostEur);
+        return entry ? entry.results : null;
+    } catch (error) {
+        Logger.warn(`[SerpCache] Lookup failed for ${provider}, querying the provider`, { error: error as Error });
+        return null;
+    }
+}
+
+/**
+ * Store the answer of `provider` to `query` (an empty answer expires sooner).
+ */
+export async function writeSerpCache(provider: string, query: string, results: SerpResult[]): Promise<void> {
+    const store = activeStore();
+    const { ttlHours, emptyTtlHours } = config.discovery.serp.cache;
+    const ttlMs = (results.length > 0 ? ttlHours : emptyTtlHours) * HOUR_MS;
+    if (!store || ttlMs <= 0) {
+        return;
+    }
+    try {
+        await store.saveSerpCacheEntry({
+            provider,
+            query_hash: serpQueryHash(query),
+            query: normalizeSerpQuery(query),
+            company_id: getLiveContext().company_id,
+            results,
+            expires_at: new Date(Date.now() + ttlMs).toISOString(),
+        });
+    } catch (error) {
+        Logger.warn(`[SerpCache] Failed to store the ${provider} answer`, { error: error as Error });
+    }
+}
+
+function withHitRate<T extends { hits: number; misses: number }>(stats: T): T & { hit_rate: number } {
+    const lookups = stats.hits + stats.misses;
+    return { ...stats, hit_rate: lookups > 0 ? stats.hits / lookups : 0 };
+}
+
+/**
+ * Hit rate, savings and entry counts over the last `days` UTC days (today included).
+ */
+export async function getSerpCacheStats(days: number = 7, now: Date = new Date()): Promise<SerpCacheStats> {
+    const store = await initializeResultStore();
+    const since = utcDay(new Date(now.getTime() - Math.max(days - 1, 0) * 24 * HOUR_MS));
+    const byProvider = new Map<string, Omit<SerpCacheProviderStats, 'hit_rate'>>();
+    const statsOf = (provider: string) => {
+        let stats = byProvider.get(provider);
+        if (!stats) {
+            stats = { provider, hits: 0, misses: 0, entries: 0, saved_eur: 0 };
+            byProvider.set(provider, stats);
+        }
+        return stats;
+    };
+
+    for (const usage of await store.listSerpCacheUsage(since)) {
+        const stats = statsOf(usage.provider);
+        stats.hits += usage.hits;
+        stats.misses += usage.misses;
+        stats.saved_eur += usage.saved_eur;
+    }
+    for (const count of await store.countSerpCacheEntries(now.toISOString())) {
+        statsOf(count.provider).entries = count.entries;
+    }
+
+    const providers = Array.from(byProvider.values())
+        .sort((a, b) => a.provider.localeCompare(b.provider))
+        .map((stats) => withHitRate(stats));
+    const total = providers.reduce(
+        (sum, stats) => ({
+            hits: sum.hits + stats.hits,
+            misses: sum.misses + stats.misses,
+            entries: sum.entries + stats.entries,
+            saved_eur: sum.saved_eur + stats.saved_eur,
+        }),
+        { hits: 0, misses: 0, entries: 0, saved_eur: 0 }
+    );
+    return { since, ...withHitRate(total), providers };
+}
+
+/**
+ * Drop the entries matching the filter (the query pattern is normalized like the queries).
+ * Returns how many were deleted.
+ */
+export async function invalidateSerpCache(filter: SerpCacheFilter): Promise<number> {
+    const store = await initializeResultStore();
+    const deleted = await store.invalidateSerpCache({
+        ...filter,
+        queryPattern: filter.queryPattern ? normalizeSerpQuery(filter.queryPattern) : undefined,
+    });
+    Logger.info(`[SerpCache] 🧹 Invalidated ${deleted} entries`, { ...filter });
+    return deleted;
+}
@@ -0,0 +1,134 @@
+/**
+ * 🧾 SERP PARSERS
+ * One pure parser per provider response format, tested against saved responses
+ * (tests/fixtures/serp). Every parser returns absolute http(s) URLs of organic results,
+ * deduplicated, in ranking order; ads, the engine's own links and relative links are dropped.
+ */
+
+import * as cheerio from 'cheerio';
+import { ScraperClient } from '../../../utils/scraper_client';
+import { SerpResult } from '../serp_analyzer';
+
+/** Links of the engines themselves (navigation, ads, related searches) */
+const ENGINE_HOSTS = /(^|\.)(bing\.com|microsoft\.com|msn\.com|duckduckgo\.com|google\.[a-z.]+)$/i;
+
+function isOrganicUrl(url: string | undefined): url is string {
+    if (!url || !/^https?:\/\//i.test(url)) {
+        return false;
+    }
+    try {
+        return !ENGINE_HOSTS.test(new URL(url).hostname);
+    } catch {
+        return false;
+    }
+}
+
+function collect(source: string, entries: Array<{ url?: string; title?: string; snippet?: string }>, limit: number): SerpResult[] {
+    const seen = new Set<string>();
+    const results: SerpResult[] = [];
+    for (const entry of entries) {
+        if (!isOrganicUrl(entry.url) || seen.has(entry.url)) {
+            continue;
+        }
+        seen.add(entry.url);
+        results.push({ url: entry.url, title: (entry.title ?? '').trim(), snippet: entry.snippet?.trim() || undefined, source });
+        if (results.length >= limit) {
+            break;
+        }
+    }
+    return results;
+}
+
+/**
+ * Serper.dev JSON (`organic[].link`).
+ */
+export function parseSerperResponse(body: unknown, limit: number = 10): SerpResult[] {
+    const organic = (body as { organic?: Array<{ link?: string; title?: string; snippet?: string }> } | null)?.organic;
+    if (!Array.isArray(organic)) {
+        return [];
+    }
+    return collect('serper', organic.map((result) => ({ url: result.link, title: result.title, snippet: result.snippet })), limit);
+}
+
+/**
+ * Bing result target: click-tracking links (bing.com/ck/a?...&u=a1<base64url>) are decoded.
+ */
+function bingTarget(href: string | undefined): string | undefined {
+    if (!href || !/^https?:\/\/(www\.)?bing\.com\/ck\/a/i.test(href)) {
+        return href;
+    }
+    try {
+        const encoded = new URL(href).searchParams.get('u');
+        return encoded?.startsWith('a1') ? Buffer.from(encoded.slice(2), 'base64url').toString('utf-8') : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Bing HTML (`li.b_algo`).
+ */
+export function parseBingHtml(html: string, limit: number = 10): SerpResult[] {
+    const $ = cheerio.load(html);
+    const entries = $('li.b_algo').toArray().map((element) => {
+        const link = $(element).find('h2 a').first();
+        return {
+            url: bingTarget(link.attr('href')),
+            title: link.text(),
+            snippet: $(element).find('.b_caption p, p.b_lineclamp2, p.b_lineclamp3, p.b_lineclamp4').first().text(),
+        };
+    });
+    return collect('bing', entries, limit);
+}
+
+/**
+ * DuckDuckGo target: redirect links (//duckduckgo.com/l/?uddg=<url>) are decoded.
+ */
+function duckDuckGoTarget(href: string | undefined): string | undefined {
+    const match = href?.match(/[?&]uddg=([^&]+)/);
+    if (!match) {
+        return href;
+    }
+    try {
+        return decodeURIComponent(match[1]);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * DuckDuckGo HTML (html.duckduckgo.com, `.result__a`) and lite (lite.duckduckgo.com, `a.result-link`).
+ * Sponsored results (`.result--ad`) are skipped.
+ */
+export function parseDuckDuckGoHtml(html: string, limit: number = 10): SerpResult[] {
+    const $ = cheerio.load(html);
+    const entries = $('.result:not(.result--ad) .result__a').toArray().map((element) => {
+        const result = $(element).closest('.result');
+        return {
+            url: duckDuckGoTarget($(element).attr('href')),
+            title: $(element).text(),
+            snippet: result.find('.result__snippet').first().text(),
+        };
+    });
+
+    if (entries.length === 0) {
+        // Lite layout: one table row per title, the snippet in the next row
+        $('a.result-link').each((_, element) => {
+            entries.push({
+                url: duckDuckGoTarget($(element).attr('href')),
+                title: $(element).text(),
+                snippet: $(element).closest('tr').next('tr').find('.result-snippet').text(),
+            });
+        });
+    }
+    return collect('ddg', entries, limit);
+}
+
+/**
+ * Jina search (s.jina.ai JSON, or the URLs of a markdown answer).
+ */
+export function parseJinaSearchResponse(raw: string, limit: number = 10): SerpResult[] {
+    const entries = ScraperClient.parseJinaSearchResults(raw)
+        .map((result) => ({ url: result.url, title: result.title, snippet: result.description.slice(0, 300) }));
+    return collect('jina', entries, limit);
+}
@@ -0,0 +1,72 @@
+/**
+ * 🔎 SERP PROVIDER CONTRACT
+ * A SERP provider turns a query into organic results (Serper, Jina, Bing, DuckDuckGo).
+ * Providers are looked up by name in the registry, which adds what every caller used to
+ * re-implement: pacing, health, cost accounting and failover to the next provider.
+ *
+ * - search() throws on transport / quota errors (that is what triggers failover) and
+ *   returns [] for a query without results
+ * - isConfigured() false: the provider is skipped without counting as a failure
+ */
+
+import type { PaidProvider } from '../../../utils/provider_usage';
+import type { SerpResult } from '../serp_analyzer';
+
+export interface SerpSearchOptions {
+    /** Results wanted (providers may return fewer) */
+    limit: number;
+}
+
+export interface SerpProvider {
+    name: string;
+    description: string;
+    /** Billable unit of one query (free providers omit it) */
+    cost?: { provider: PaidProvider; units: number };
+    /** Pacing between two queries to this provider */
+    rateLimit: { requestsPerMinute: number };
+    isConfigured(): boolean;
+    search(query: string, options: SerpSearchOptions): Promise<SerpResult[]>;
+}
+
+export type SerpProviderState = 'HEALTHY' | 'COOLING_DOWN';
+
+export interface SerpProviderHealth {
+    state: SerpProviderState;
+    successes: number;
+    failures: number;
+    consecutive_failures: number;
+    /** ISO date, while COOLING_DOWN */
+    cooldown_until?: string;
+    last_error?: string;
+    avg_latency_ms: number;
+}
+
+/** CACHED: answered from the SERP cache (with or without results), nothing was sent */
+export type SerpAttemptStatus = 'OK' | 'EMPTY' | 'CACHED' | 'ERROR' | 'SKIPPED_UNCONFIGURED' | 'SKIPPED_COOLDOWN';
+
+export interface SerpAttempt {
+    provider: string;
+    status: SerpAttemptStatus;
+    duration_ms?: number;
+    error?: string;
+}
+
+export interface SerpFailoverOptions {
+    /** Providers to try, in order (default SERP_FAILOVER_ORDER) */
+    providers?: string[];
+    /** Default 10 */
+    limit?: number;
+    /** Try the next provider when one answers without results (default true) */
+    failoverOnEmpty?: boolean;
+    /** Read and write the SERP cache (default true; false forces fresh answers) */
+    cache?: boolean;
+}
+
+export interface SerpSearchOutcome {
+    results: SerpResult[];
+    /** Provider that answered, null when none did */
+    provider: string | null;
+    attempts: SerpAttempt[];
+    /** Estimated spend of the attempts (unit costs of the billed providers) */
+    cost_eur: number;
+}
@@ -0,0 +1,202 @@
+/**
+ * 🗂️ SERP PROVIDER REGISTRY
+ * Every web search goes through searchSerp(): providers are tried in order
+ * (SERP_FAILOVER_ORDER unless the caller names them) and the first one that answers with
+ * results wins. Per provider the registry keeps:
+ *
+ * - pacing: queries are spaced by the provider's requestsPerMinute
+ * - health: after SERP_PROVIDER_MAX_FAILURES consecutive errors the provider cools down
+ *   for SERP_PROVIDER_COOLDOWN_MS and is skipped; the first success afterwards resets it
+ * - spend: the unit cost of every query sent, reported with the outcome
+ *
+ * Each provider's answer is looked up in the SERP cache (./cache.ts) first; a cached answer
+ * costs nothing and bypasses pacing and health, and fresh answers are written back.
+ *
+ * Provider errors never reach the caller: a search nobody could answer has `provider: null`
+ * and the reasons in `attempts`. Only an unknown provider name throws.
+ */
+
+import { config } from '../../../config';
+import { ConfigurationError } from '../../../../utils/errors';
+import { Logger } from '../../../utils/logger';
+import { MemoryRateLimiter } from '../../rate_limiter';
+import { BUILTIN_SERP_PROVIDERS } from './builtin_providers';
+import { readSerpCache, writeSerpCache } from './cache';
+import { SerpAttempt, SerpFailoverOptions, SerpProvider, SerpProviderHealth, SerpSearchOutcome } from './provider_types';
+
+const DEFAULT_LIMIT = 10;
+
+const providers = new Map<string, SerpProvider>(BUILTIN_SERP_PROVIDERS.map((provider) => [provider.name, provider]));
+
+interface HealthState {
+    successes: number;
+    failures: number;
+    consecutiveFailures: number;
+    cooldownUntil: number;
+    lastError?: string;
+    totalLatencyMs: number;
+}
+
+const health = new Map<string, HealthState>();
+const pacers = new Map<string, MemoryRateLimiter>();
+
+export function registerSerpProvider(provider: SerpProvider, options: { replace?: boolean } = {}): void {
+    if (providers.has(provider.name) && !options.replace) {
+        throw new ConfigurationError(`SERP provider already registered: ${provider.name}`);
+    }
+    providers.set(provider.name, provider);
+    health.delete(provider.name);
+    pacers.delete(provider.name);
+}
+
+export function getSerpProvider(name: string): SerpProvider | undefined {
+    return providers.get(name);
+}
+
+export function listSerpProviders(): SerpProvider[] {
+    return Array.from(providers.values());
+}
+
+/**
+ * Estimated EUR of one query (0 for free providers).
+ */
+export function serpQueryCostEur(provider: SerpProvider): number {
+    return provider.cost ? provider.cost.units * config.discovery.budget.unitCostsEur[provider.cost.provider] : 0;
+}
+
+function stateOf(name: string): HealthState {
+    let state = health.get(name);
+    if (!state) {
+        state = { successes: 0, failures: 0, consecutiveFailures: 0, cooldownUntil: 0, totalLatencyMs: 0 };
+        health.set(name, state);
+    }
+    return state;
+}
+
+export function getSerpProviderHealth(name: string): SerpProviderHealth {
+    const state = stateOf(name);
+    const coolingDown = state.cooldownUntil > Date.now();
+    const calls = state.successes + state.failures;
+    return {
+        state: coolingDown ? 'COOLING_DOWN' : 'HEALTHY',
+        successes: state.successes,
+        failures: state.failures,
+        consecutive_failures: state.consecutiveFailures,
+        cooldown_until: coolingDown ? new Date(state.cooldownUntil).toISOString() : undefined,
+        last_error: state.lastError,
+        avg_latency_ms: calls > 0 ? Math.round(state.totalLatencyMs / calls) : 0,
+    };
+}
+
+/**
+ * Forget health and pacing (all providers, or one).
+ */
+export function resetSerpProviderHealth(name?: string): void {
+    if (name) {
+        health.delete(name);
+        pacers.delete(name);
+    } else {
+        health.clear();
+        pacers.clear();
+    }
+}
+
+function pacerOf(provider: SerpProvider): MemoryRateLimiter {
+    let pacer = pacers.get(provider.name);
+    if (!pacer) {
+        pacer = new MemoryRateLimiter(60000 / provider.rateLimit.requestsPerMinute);
+        pacers.set(provider.name, pacer);
+    }
+    return pacer;
+}
+
+function recordFailure(provider: SerpProvider, error: string, durationMs: number): void {
+    const state = stateOf(provider.name);
+    state.failures++;
+    state.consecutiveFailures++;
+    state.totalLatencyMs += durationMs;
+    state.lastError = error;
+    if (state.consecutiveFailures >= config.discovery.serp.maxConsecutiveFailures) {
+        state.cooldownUntil = Date.now() + config.discovery.serp.cooldownMs;
+        Logger.warn(`[SERP] ${provider.name} cooling down for ${config.discovery.serp.cooldownMs}ms after ${state.consecutiveFailures} failures`, { last_error: error });
+    }
+}
+
+function recordSuccess(provider: SerpProvider, durationMs: number): void {
+    const state = stateOf(provider.name);
+    state.successes++;
+    state.consecutiveFailures = 0;
+    state.cooldownUntil = 0;
+    state.totalLatencyMs += durationMs;
+}
+
+/**
+ * Search with failover. See the module header for the policy.
+ */
+export async function searchSerp(query: string, options: SerpFailoverOptions = {}): Promise<SerpSearchOutcome> {
+    const names = options.providers ?? config.discovery.serp.failoverOrder;
+    const limit = options.limit ?? DEFAULT_LIMIT;
+    const failoverOnEmpty = options.failoverOnEmpty ?? true;
+    const useCache = options.cache ?? true;
+    const attempts: SerpAttempt[] = [];
+    let costEur = 0;
+    let answeredEmpty: string | null = null;
+
+    for (const name of names) {
+        const provider = providers.get(name);
+        if (!provider) {
+            throw new ConfigurationError(`Unknown SERP provider: ${name}`);
+        }
+        const cached = useCache ? await readSerpCache(name, query, serpQueryCostEur(provider)) : null;
+        if (cached) {
+            attempts.push({ provider: name, status: 'CACHED' });
+            if (cached.length > 0) {
+                return { results: cached.slice(0, limit), provider: name, attempts, cost_eur: costEur };
+            }
+            answeredEmpty = answeredEmpty ?? name;
+            if (!failoverOnEmpty) {
+                break;
+            }
+            continue;
+        }
+        if (!provider.isConfigured()) {
+            attempts.push({ provider: name, status: 'SKIPPED_UNCONFIGURED' });
+            continue;
+        }
+        if (stateOf(name).cooldownUntil > Date.now()) {
+            attempts.push({ provider: name, status: 'SKIPPED_COOLDOWN' });
+            continue;
+        }
+
+        await pacerOf(provider).waitForSlot(name);
+        const startedAt = Date.now();
+        costEur += serpQueryCostEur(provider);
+        try {
+            // A full page is cached so that later callers asking for more results can reuse it
+            const results = await provider.search(query, { limit: Math.max(limit, DEFAULT_LIMIT) });
+            const durationMs = Date.now() - startedAt;
+            recordSuccess(provider, durationMs);
+            if (useCache) {
+                await writeSerpCache(name, query, results);
+            }
+            if (results.length > 0) {
+                attempts.push({ provider: name, status: 'OK', duration_ms: durationMs });
+                return { results: results.slice(0, limit), provider: name, attempts, cost_eur: costEur };
+            }
+            attempts.push({ provider: name, status: 'EMPTY', duration_ms: durationMs });
+            answeredEmpty = answeredEmpty ?? name;
+            if (!failoverOnEmpty) {
+                break;
+            }
+        } catch (error) {
+            const durationMs = Date.now() - startedAt;
+            const message = (error as Error).message;
+            recordFailure(provider, message, durationMs);
+            attempts.push({ provider: name, status: 'ERROR', duration_ms: durationMs, error: message });
+            Logger.debug(`[SERP] ${name} failed for "${query.slice(0, 80)}": ${message}`);
+        }
+    }
+
+    // Nobody had results: an empty answer still counts as answered
+    return { results: [], provider: answeredEmpty, attempts, cost_eur: costEur };
+}
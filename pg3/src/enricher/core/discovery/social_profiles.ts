@@ -0,0 +1,255 @@
+/**
+ * 👥 SOCIAL PROFILE RESOLVER
+ * Micro-businesses often have no website, only a Facebook / Instagram page or a LinkedIn
+ * company page. Website discovery rejects those URLs (ContentFilter.isDirectoryOrSocial);
+ * this resolver keeps them, next to website discovery:
+ *
+ * - candidates: one Serper query restricted to the networks, plus the social URLs the
+ *   discovery layers already produced (and rejected)
+ * - every profile page is scored with CompanyMatcher.evaluate, the handle / slug taking the
+ *   place of the domain signal; a profile counts only with a VAT or phone match, or with
+ *   the company name and city on the page
+ * - the best verified profile per network is kept (DISCOVERY_SOCIAL_MIN_CONFIDENCE)
+ * - the search and every profile page go through the discovery budget (SOCIAL_SEARCH_COST,
+ *   SOCIAL_PROFILE_PAGE_COST); the search is skipped when the website is VAT-confirmed
+ *
+ * Posts, photos, groups, share links and personal LinkedIn profiles are not company pages
+ * and never become candidates.
+ */
+
+import * as cheerio from 'cheerio';
+import { config } from '../../config';
+import { CompanyInput, SocialNetwork, SocialProfile } from '../../types';
+import { Logger } from '../../utils/logger';
+import { ScraperClient } from '../../utils/scraper_client';
+import { CompanyMatcher } from './company_matcher';
+import type { LayerCostProfile } from './layers/layer_types';
+import { SerpResult } from './serp_analyzer';
+import { searchSerp } from './serp/registry';
+
+export interface SocialProfileLink {
+    network: SocialNetwork;
+    /** Canonical profile URL */
+    url: string;
+    handle: string;
+}
+
+/** Typed result columns, one per network */
+export interface SocialProfileFields {
+    facebook_url?: string;
+    instagram_url?: string;
+    linkedin_company_url?: string;
+}
+
+export interface SocialProfileResolverOptions {
+    /** Profile page HTML (default: ScraperClient) */
+    fetchPage?: (url: string) => Promise<string>;
+    /** Web search (default: Serper through the SERP registry) */
+    search?: (query: string) => Promise<SerpResult[]>;
+    /** Default DISCOVERY_SOCIAL_MIN_CONFIDENCE */
+    minConfidence?: number;
+}
+
+const NETWORK_ORDER: SocialNetwork[] = ['facebook', 'instagram', 'linkedin'];
+
+/** One Serper query; the hit rate is the share of searches ending with a verified profile */
+export const SOCIAL_SEARCH_COST: LayerCostProfile = { calls: { serper: 1 }, hitRate: 0.3 };
+
+/** One profile page fetch (Scrape.do only when the network blocks the direct fetch) */
+export const SOCIAL_PROFILE_PAGE_COST: LayerCostProfile = { calls: { scrape_do: 0.2 } };
+
+/** Profile pages verified per network, best search / discovery rank first */
+const MAX_CANDIDATES_PER_NETWORK = 2;
+
+/** First path segments that are features of the site, not pages of a business */
+const FACEBOOK_RESERVED = new Set([
+    'sharer', 'sharer.php', 'share.php', 'login', 'login.php', 'groups', 'watch', 'events', 'photo.php', 'photo',
+    'story.php', 'permalink.php', 'hashtag', 'search', 'people', 'public', 'marketplace', 'help', 'policies', 'home.php',
+    'reel', 'video.php', 'dialog', 'plugins', 'tr',
+]);
+const INSTAGRAM_RESERVED = new Set(['p', 'reel', 'reels', 'explore', 'stories', 'accounts', 'tv', 'about', 'legal', 'direct']);
+
+function hostOf(url: URL): string {
+    return url.hostname.toLowerCase().replace(/^(www|m|mobile|it|business)\./, '');
+}
+
+/**
+ * The company page a URL points to, or null for anything that is not one.
+ */
+export function classifySocialUrl(rawUrl: string): SocialProfileLink | null {
+    let url: URL;
+    try {
+        url = new URL(/^https?:\/\//i.test(rawUrl) ? rawUrl : `https://${rawUrl}`);
+    } catch {
+        return null;
+    }
+    const host = hostOf(url);
+    const segments = url.pathname.split('/').filter(Boolean);
+
+    if (host === 'facebook.com' || host === 'fb.com') {
+        if (segments[0] === 'profile.php') {
+            const id = url.searchParams.get('id');
+            return id && /^\d+$/.test(id)
+                ? { network: 'facebook', url: `https://www.facebook.com/profile.php?id=${id}`, handle: id }
+                : null;
+        }
+        // facebook.com/pages/<Name>/<id> and facebook.com/pg/<handle>/... are old page URLs
+        const handle = segments[0] === 'pages' || segments[0] === 'pg' ? segments[1] : segments[0];
+        if (!handle || FACEBOOK_RESERVED.has(handle.toLowerCase())) {
+            return null;
+        }
+        if (segments[0] === 'pages') {
+            return segments[2] ? { network: 'facebook', url: `https://www.facebook.com/pages/${handle}/${segments[2]}`, handle } : null;
+        }
+        return { network: 'facebook', url: `https://www.facebook.com/${handle}`, handle };
+    }
+
+    if (host === 'instagram.com') {
+        const handle = segments[0];
+        if (!handle || INSTAGRAM_RESERVED.has(handle.toLowerCase())) {
+            return null;
+        }
+        return { network: 'instagram', url: `https://www.instagram.com/${handle.toLowerCase()}`, handle };
+    }
+
+    if (host === 'linkedin.com' || host === 'linkedin.it') {
+        // Only company pages: /in/<person> is an employee, not the company
+        if (segments[0] !== 'company' || !segments[1]) {
+            return null;
+        }
+        return { network: 'linkedin', url: `https://www.linkedin.com/company/${segments[1].toLowerCase()}`, handle: segments[1] };
+    }
+
+    return null;
+}
+
+/**
+ * Score a fetched profile page against the company.
+ * Returns the profile with its confidence and whether the page proves the identity.
+ */
+export function scoreSocialProfile(
+    company: CompanyInput,
+    link: SocialProfileLink,
+    html: string
+): { profile: SocialProfile; verified: boolean } {
+    const $ = cheerio.load(html);
+    const title = $('meta[property="og:title"]').attr('content') || $('title').text() || '';
+    const description = $('meta[property="og:description"]').attr('content') || $('meta[name="description"]').attr('content') || '';
+    // Login walls leave little but the meta tags: score them together with the visible text
+    const text = `${title} ${description} ${$('body').text()}`;
+
+    const evaluation = CompanyMatcher.evaluate(company, link.url, text, title);
+    const handleCoverage = CompanyMatcher.handleCoverage(company.company_name, link.handle);
+
+    let confidence = evaluation.confidence;
+    if (!evaluation.signals.vatMatch && evaluation.signals.nameCoverage >= 0.4) {
+        // The handle plays the part of the domain (domainCoverage is 0 on a social host)
+        if (handleCoverage >= 0.8) confidence += 0.15;
+        else if (handleCoverage >= 0.5) confidence += 0.08;
+    }
+
+    const { vatMatch, phoneMatch, nameCoverage, cityMatch } = evaluation.signals;
+    return {
+        profile: {
+            network: link.network,
+            url: link.url,
+            confidence: Math.min(vatMatch ? 1 : 0.99, confidence),
+            reason: evaluation.reason,
+            evidence: {
+                vat: evaluation.scrapedVat,
+                phone: evaluation.matchedPhone,
+                name_coverage: nameCoverage,
+                handle_coverage: handleCoverage,
+                city_match: cityMatch,
+            },
+        },
+        verified: vatMatch || phoneMatch || (nameCoverage >= 0.65 && cityMatch),
+    };
+}
+
+/**
+ * Typed result fields of the verified profiles.
+ */
+export function socialProfileFields(profiles: SocialProfile[] | undefined): SocialProfileFields {
+    const urlOf = (network: SocialNetwork) => profiles?.find((profile) => profile.network === network)?.url;
+    return {
+        facebook_url: urlOf('facebook'),
+        instagram_url: urlOf('instagram'),
+        linkedin_company_url: urlOf('linkedin'),
+    };
+}
+
+export class SocialProfileResolver {
+    private readonly fetchPage: (url: string) => Promise<string>;
+    private readonly searchWeb: (query: string) => Promise<SerpResult[]>;
+    private readonly minConfidence: number;
+
+    constructor(options: SocialProfileResolverOptions = {}) {
+        this.fetchPage = options.fetchPage ?? ((url) => ScraperClient.fetchText(url));
+        this.searchWeb = options.search ?? (async (query) => (await searchSerp(query, { providers: ['serper'] })).results);
+        this.minConfidence = options.minConfidence ?? config.discovery.socialProfiles.minConfidence;
+    }
+
+    /**
+     * Profile URLs found by a search restricted to the social networks. Never throws.
+     */
+    async search(company: CompanyInput): Promise<string[]> {
+        const query = `"${company.company_name}" ${company.city ?? ''} (site:facebook.com OR site:instagram.com OR site:linkedin.com/company)`;
+        try {
+            const results = await this.searchWeb(query.replace(/\s+/g, ' '));
+            return results.map((result) => result.url).filter((url) => classifySocialUrl(url) !== null);
+        } catch (error) {
+            Logger.warn('[SocialProfiles] Search failed', { company_name: company.company_name, error: error as Error });
+            return [];
+        }
+    }
+
+    /**
+     * Verify candidate URLs (any URL: non-profile links are ignored) and keep the best
+     * verified profile per network, in network order. `admitFetch` is asked before each
+     * profile page fetch, in candidate order (false = the page is not fetched).
+     */
+    async verify(company: CompanyInput, urls: string[], admitFetch: (link: SocialProfileLink) => boolean = () => true): Promise<SocialProfile[]> {
+        const byNetwork = new Map<SocialNetwork, SocialProfileLink[]>();
+        for (const url of urls) {
+            const link = classifySocialUrl(url);
+            if (!link) {
+                continue;
+            }
+            const links = byNetwork.get(link.network) ?? [];
+            if (links.length < MAX_CANDIDATES_PER_NETWORK && !links.some((known) => known.url === link.url)) {
+                byNetwork.set(link.network, [...links, link]);
+            }
+        }
+
+        const admitted = [...byNetwork.values()].flat().filter((link) => admitFetch(link));
+        const scored = await Promise.all(admitted.map((link) => this.score(company, link)));
+        const best = new Map<SocialNetwork, SocialProfile>();
+        for (const profile of scored) {
+            if (!profile) {
+                continue;
+            }
+            const current = best.get(profile.network);
+            if (!current || profile.confidence > current.confidence) {
+                best.set(profile.network, profile);
+            }
+        }
+        return NETWORK_ORDER.filter((network) => best.has(network)).map((network) => best.get(network)!);
+    }
+
+    private async score(company: CompanyInput, link: SocialProfileLink): Promise<SocialProfile | null> {
+        let html: string;
+        try {
+            html = await this.fetchPage(link.url);
+        } catch (error) {
+            Logger.debug('[SocialProfiles] Profile page not fetched', { url: link.url, error: error as Error });
+            return null;
+        }
+        const { profile, verified } = scoreSocialProfile(company, link, html);
+        if (!verified || profile.confidence < this.minConfidence) {
+            Logger.debug(`[SocialProfiles] Rejected ${link.url} (${profile.confidence.toFixed(2)}: ${profile.reason})`);
+            return null;
+        }
+        return profile;
+    }
+}
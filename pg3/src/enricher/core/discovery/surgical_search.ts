@@ -3,7 +3,7 @@ import { CompanyInput } from '../../types';
 import { Logger } from '../../utils/logger';
 import { SerpResult } from './serp_analyzer';
 import { ScraperClient } from '../../utils/scraper_client';
-import { SerperSearchProvider } from './search_provider';
+import { searchSerp } from './serp/registry';
 import { CompanyMatcher } from './company_matcher';
 import pLimit from 'p-limit';
 
@@ -85,18 +85,15 @@ export class SurgicalSearch {
 
     private async runBatch(queries: string[], methodTag: string): Promise<SerpResult[]> {
         const results: SerpResult[] = [];
-        const provider = new SerperSearchProvider();
 
         Logger.info(`[SurgicalSearch] 🚀 Launching batch ${methodTag} (${queries.length} queries)`);
 
         await Promise.all(queries.map(q => this.concurrencyLimit(async () => {
-            try {
-                // Using Serper API for maximum resilience
-                const serp = await provider.search(q);
-                results.push(...serp);
-            } catch (e) {
-                Logger.warn(`[Surgical] Query failed: ${q}`, { error: e as Error });
+            const serp = await searchSerp(q, { failoverOnEmpty: false });
+            if (!serp.provider) {
+                Logger.warn(`[Surgical] Query failed: ${q}`, { attempts: serp.attempts });
             }
+            results.push(...serp.results);
         })));
 
         return results;
@@ -7,6 +7,12 @@
  * Layer 3: The Swarm (HyperGuesser + QueryBuilder + Google/Bing/DDG/Jina)
  * Layer 4: The Judge (AI Verification)
  *
+ * The layers are DiscoveryLayer plugins (./layers); a DiscoveryMode names a declarative
+ * profile listing which layers run, in which order, with which thresholds and budgets.
+ * A per-company spend budget can skip or shrink paid layers (./discovery_budget.ts).
+ * Social profiles are resolved next to the layers (./social_profiles.ts) and stand in for
+ * the website when none is found.
+ *
  * RESTORATION UPDATE:
  * - Re-integrated Jina Search (High Precision)
  * - Re-integrated Bing & DuckDuckGo (Failover)
@@ -18,16 +24,15 @@ import pLimit from 'p-limit';
 import * as cheerio from 'cheerio';
 import { Page, HTTPRequest } from 'puppeteer';
 import { BrowserFactory } from '../browser/factory_v2';
-import { CompanyInput } from '../../types';
+import { CompanyInput, SecondaryWebsite, SocialProfile } from '../../types';
 import { Logger } from '../../utils/logger';
-import { RateLimiter, MemoryRateLimiter } from '../rate_limiter';
 import { ContentFilter } from './content_filter';
 import { HyperGuesser } from './hyper_guesser_v2';
-import { SerperSearchProvider, DDGSearchProvider } from './search_provider';
+import { searchSerp } from './serp/registry';
 import { LLMValidator } from '../ai/llm_validator';
 import { AntigravityClient } from '../../observability/antigravity_client';
 import { config } from '../../config';
-import { CompanyMatcher } from './company_matcher';
+import { CompanyMatcher, PageText } from './company_matcher';
 import { DomainValidator } from '../../utils/domain_validator';
 import { NuclearStrategy } from './nuclear_strategy';
 import { IdentityResolver, IdentityResult } from './identity_resolver';
@@ -38,6 +43,16 @@ import { LLMOracle } from './llm_oracle';
 import { QueryBuilder, GoldenQuery } from './query_builder';
 import { AgentRunner } from '../agent/agent_runner';
 import { HoneyPotDetector } from '../security/honeypot_detector';
+import { DiscoveryCandidate, DiscoveryLayer, DiscoveryLayerContext, DiscoveryToolkit, LayerCostProfile, ResolvedLayerSettings } from './layers/layer_types';
+import { getDiscoveryModeProfile, planDiscoveryLayers } from './layers/mode_profiles';
+import { DiscoveryTrace, DiscoveryTraceRecorder, traceCandidates, traceVerification } from './discovery_trace';
+import { DiscoveryBudget, DiscoveryBudgetOptions, estimateStepCost } from './discovery_budget';
+import { getCandidateRankingModel, rankCandidates } from './ranking/candidate_ranker';
+import { SOCIAL_PROFILE_PAGE_COST, SOCIAL_SEARCH_COST, SocialProfileResolver } from './social_profiles';
+import { crawlEvidencePages, extractHtmlEvidence } from '../verification/evidence_crawler';
+import { extractSchemaOrgSignals, scoreVerificationEvidence } from '../verification/evidence_scoring';
+import { archiveVerificationSnapshot } from '../verification/snapshot_store';
+import { TimeoutError } from '../../../utils/errors';
 
 // ============================================================================
 // INTERFACES & CONFIG
@@ -58,53 +73,40 @@ export interface DiscoveryResult {
     wave: string;
     reason_code?: string;
     details: any;
+    /** Decision trace of the discovery that produced this result (set by discover()) */
+    trace?: DiscoveryTrace;
+    /** EUR spent on paid providers and LLM calls by this discovery (set by discover()) */
+    cost_eur?: number;
+    /** Other verified domains of the company, next to `url` (swarm only) */
+    secondary_sites?: SecondaryWebsite[];
+    /** Verified Facebook / Instagram / LinkedIn company pages (set by discover()) */
+    social_profiles?: SocialProfile[];
 }
 
-// Granular Control Profile
-type ModeProfile = {
-    wave1ThresholdDelta: number;
-    // wave2ThresholdDelta: number; // Simplified: Use same delta for now
-    wave1MaxCandidates: number;
-    // wave2MaxCandidates: number;
-    // wave3GuessStart: number;
-    // wave3GuessEnd: number;
-    runNuclear: boolean;
-};
-
-const MODE_PROFILES: Record<DiscoveryMode, ModeProfile> = {
-    [DiscoveryMode.FAST_RUN1]: {
-        wave1ThresholdDelta: 0.05,
-        wave1MaxCandidates: 8,
-        runNuclear: false,
-    },
-    [DiscoveryMode.DEEP_RUN2]: {
-        wave1ThresholdDelta: 0,
-        wave1MaxCandidates: 15,
-        runNuclear: false,
-    },
-    [DiscoveryMode.AGGRESSIVE_RUN3]: {
-        wave1ThresholdDelta: -0.05,
-        wave1MaxCandidates: 20,
-        runNuclear: false, // Nuclear is separate mode now
-    },
-    [DiscoveryMode.NUCLEAR_RUN4]: {
-        wave1ThresholdDelta: -0.08,
-        wave1MaxCandidates: 30,
-        runNuclear: true,
-    },
-};
-
 const THRESHOLDS = {
     WAVE1_SWARM: config.discovery.thresholds.wave1, // Baseline: 0.75
     WAVE3_JUDGE: config.discovery.thresholds.wave3, // Baseline: 0.85
     MINIMUM_VALID: config.discovery.thresholds.minValid // Baseline: 0.60
 };
 
-type Candidate = {
-    url: string;
-    source: string;
-    confidence: number;
-};
+type Candidate = DiscoveryCandidate;
+
+/**
+ * Toolkit for one layer run: every call checks the layer's signal before it starts and
+ * again before handing its result back, so an abandoned layer stops spending.
+ */
+function abortableToolkit(toolkit: DiscoveryToolkit, signal: AbortSignal): DiscoveryToolkit {
+    const guarded: Record<string, unknown> = {};
+    for (const [name, call] of Object.entries(toolkit) as [string, (...args: unknown[]) => Promise<unknown>][]) {
+        guarded[name] = async (...args: unknown[]) => {
+            signal.throwIfAborted();
+            const result = await call(...args);
+            signal.throwIfAborted();
+            return result;
+        };
+    }
+    return guarded as unknown as DiscoveryToolkit;
+}
 
 // ============================================================================
 // UNIFIED DISCOVERY SERVICE v3 (ENHANCED)
@@ -112,7 +114,6 @@ type Candidate = {
 
 export class UnifiedDiscoveryService {
     private browserFactory: BrowserFactory;
-    private rateLimiter: RateLimiter;
     private identityResolver: IdentityResolver;
     private surgicalSearch: SurgicalSearch;
     private nuclearStrategy: NuclearStrategy;
@@ -120,16 +121,33 @@ export class UnifiedDiscoveryService {
     private verificationCache = new Map<string, any>();
     private readonly verificationCacheTtlMs = 15 * 60 * 1000;
     private readonly verificationCacheMaxEntries = config.discovery.verificationCacheMaxEntries;
+    private readonly toolkit: DiscoveryToolkit;
+    private readonly socialProfileResolver: SocialProfileResolver | null;
 
     constructor(
         browserFactory?: BrowserFactory,
-        rateLimiter?: RateLimiter
+        socialProfileResolver?: SocialProfileResolver | null
     ) {
         this.browserFactory = browserFactory || BrowserFactory.getInstance();
-        this.rateLimiter = rateLimiter || new MemoryRateLimiter();
+        this.socialProfileResolver = socialProfileResolver !== undefined
+            ? socialProfileResolver
+            : (config.discovery.socialProfiles.enabled ? new SocialProfileResolver() : null);
         this.identityResolver = new IdentityResolver();
         this.surgicalSearch = new SurgicalSearch();
         this.nuclearStrategy = new NuclearStrategy();
+        // Load the trained candidate ranker now, so a broken model file fails at startup.
+        getCandidateRankingModel();
+        this.toolkit = {
+            verify: (url, company) => this.deepVerify(url, company),
+            selectBest: (candidates, company, wave, threshold, max) => this.validateAndSelectBest(candidates, company, wave, threshold, max),
+            resolveIdentity: (company) => this.identityResolver.resolveIdentity(company),
+            surgicalSearch: (identity, company) => this.surgicalSearch.execute(identity, company),
+            reverseEmailDomain: (company, threshold) => this.reverseEngineerEmailDomain(company, threshold),
+            dorkRegistries: (company, threshold) => this.dorkRegistries(company, threshold),
+            predictWebsite: (company) => LLMOracle.predictWebsite(company),
+            swarmCandidates: (company, identity) => this.executeSwarm(company, identity),
+            nuclear: (company) => this.nuclearStrategy.execute(company),
+        };
     }
 
     /**
@@ -142,179 +160,144 @@ export class UnifiedDiscoveryService {
     // =========================================================================
     // 🌊 MAIN DISCOVERY ENTRY POINT
     // =========================================================================
-    public async discover(company: CompanyInput, mode: DiscoveryMode = DiscoveryMode.DEEP_RUN2): Promise<DiscoveryResult> {
+    /**
+     * Run the layers of the mode profile in order until one finds a valid website.
+     * `mode` is a built-in DiscoveryMode or a profile loaded from DISCOVERY_MODE_PROFILES_PATH.
+     * The result carries the decision trace (see ./discovery_trace.ts) and the money spent;
+     * `budget` overrides the configured spend cap / website value for this discovery.
+     */
+    public async discover(
+        company: CompanyInput,
+        mode: DiscoveryMode | string = DiscoveryMode.DEEP_RUN2,
+        budget: DiscoveryBudgetOptions = {}
+    ): Promise<DiscoveryResult> {
+        const recorder = new DiscoveryTraceRecorder(mode, company.company_name);
+        const discoveryBudget = new DiscoveryBudget(budget);
+        const result = await recorder.run(async () => {
+            const discovered = await this.runDiscovery(company, mode, recorder, discoveryBudget);
+            return this.withSocialProfiles(company, discovered, recorder, discoveryBudget);
+        });
+        return { ...result, trace: recorder.finish(result), cost_eur: recorder.spentEur };
+    }
+
+    /**
+     * Verify the social profiles found by the social search or surfaced (and rejected) by
+     * the layers. Without a valid website the best profile becomes the outcome
+     * (OK_SOCIAL_PROFILE_ONLY, url stays null: a profile is not a website).
+     * A VAT-confirmed website skips the search, and the search and each profile page go
+     * through the discovery budget like the layers.
+     */
+    private async withSocialProfiles(
+        company: CompanyInput,
+        result: DiscoveryResult,
+        recorder: DiscoveryTraceRecorder,
+        budget: DiscoveryBudget
+    ): Promise<DiscoveryResult> {
+        if (!this.socialProfileResolver || result.status === 'ERROR') {
+            return result;
+        }
+        const admit = (step: string, profile: LayerCostProfile, reservedEur: number = 0): boolean => {
+            const decision = budget.admitStep(step, profile, recorder.spentEur + reservedEur);
+            if (decision) {
+                recorder.budgetDecision(decision);
+                Logger.info(`[Discovery] 💶 ${decision.action} ${step}: ${decision.reason} (expected €${decision.expected_cost_eur.toFixed(4)})`, {
+                    company_name: company.company_name,
+                    spent_eur: recorder.spentEur,
+                });
+            }
+            return !decision;
+        };
+
+        const vatConfirmed = result.status === 'FOUND_VALID' && result.reason_code === 'OK_CONFIRMED_VAT_MATCH';
+        const searched = !vatConfirmed && admit('social_search', SOCIAL_SEARCH_COST)
+            ? await this.socialProfileResolver.search(company)
+            : [];
+        const surfaced = recorder.trace.layers.flatMap((layer) => layer.candidates.map((candidate) => candidate.url));
+        // Pages are fetched together: each one is admitted with the expected cost of those admitted before it
+        let reservedEur = 0;
+        const profiles = await this.socialProfileResolver.verify(company, [...searched, ...surfaced], () => {
+            if (!admit('social_profile_page', SOCIAL_PROFILE_PAGE_COST, reservedEur)) {
+                return false;
+            }
+            reservedEur += estimateStepCost(SOCIAL_PROFILE_PAGE_COST);
+            return true;
+        });
+        if (profiles.length === 0) {
+            return result;
+        }
+        Logger.info(`[Discovery] 👥 Social profiles for "${company.company_name}": ${profiles.map((profile) => profile.url).join(', ')}`);
+        if (result.status === 'FOUND_VALID') {
+            return { ...result, social_profiles: profiles };
+        }
+
+        const best = profiles.reduce((a, b) => (b.confidence > a.confidence ? b : a));
+        return {
+            ...result,
+            url: null,
+            status: 'NOT_FOUND',
+            method: 'social_profile',
+            confidence: best.confidence,
+            reason_code: 'OK_SOCIAL_PROFILE_ONLY',
+            details: { ...result.details, social_profile: best.url, website_outcome: { url: result.url, status: result.status, reason_code: result.reason_code } },
+            social_profiles: profiles,
+        };
+    }
+
+    private async runDiscovery(
+        company: CompanyInput,
+        mode: DiscoveryMode | string,
+        recorder: DiscoveryTraceRecorder,
+        budget: DiscoveryBudget
+    ): Promise<DiscoveryResult> {
         Logger.info(`[Discovery] 🌊 Starting OMEGA v3 discovery for "${company.company_name}" (Mode: ${mode})`);
         AntigravityClient.getInstance().trackCompanyUpdate(company, 'SEARCHING', { mode });
 
-        // Apply Mode Profile
-        const profile = MODE_PROFILES[mode] || MODE_PROFILES[DiscoveryMode.DEEP_RUN2];
-        const stopTheBleeding = config.discovery.stopTheBleeding;
-        const currentThreshold = this.applyThresholdDelta(THRESHOLDS.WAVE1_SWARM, profile.wave1ThresholdDelta);
-        const effectiveThreshold = stopTheBleeding ? Math.max(currentThreshold, THRESHOLDS.MINIMUM_VALID) : currentThreshold;
-        const effectiveMaxCandidates = stopTheBleeding ? Math.min(profile.wave1MaxCandidates, 8) : profile.wave1MaxCandidates;
-
+        const context: Omit<DiscoveryLayerContext, 'signal'> = { company, identity: null, toolkit: this.toolkit };
         let bestInvalid: DiscoveryResult | null = null;
-        let identity: IdentityResult | null = null;
 
         try {
-            // =====================================================================
-            // 💰 LAYER 1: IDENTITY RESOLUTION (Zero Cost)
-            // =====================================================================
-            Logger.info(`[Discovery] 🕵️ LAYER 1: IDENTITY RESOLUTION`);
-            identity = await this.identityResolver.resolveIdentity(company);
-
-            if (identity) {
-                Logger.info(`[Discovery] ✅ Identity Resolved: ${identity.legal_name} (${identity.vat_number})`);
-            } else {
-                Logger.warn(`[Discovery] ⚠️ Identity resolution failed - proceeding with limited info`);
+            let profile = getDiscoveryModeProfile(mode);
+            if (!profile) {
+                Logger.warn(`[Discovery] Unknown mode ${mode}, falling back to ${DiscoveryMode.DEEP_RUN2}`);
+                profile = getDiscoveryModeProfile(DiscoveryMode.DEEP_RUN2)!;
             }
+            recorder.trace.mode = profile.name;
 
-            // PRE-CHECK: Validate existing website
-            if (company.website && company.website.length > 5 && !company.website.includes('paginegialle.it')) {
-                const preCheck = await this.deepVerify(company.website, company);
+            const plan = planDiscoveryLayers(profile);
+            recorder.skip(profile.layers.map((step) => step.layer).filter((name) => !plan.some((planned) => planned.layer.name === name)));
 
-                // If existing website is valid, return immediately
-                if (preCheck && preCheck.confidence >= THRESHOLDS.MINIMUM_VALID) {
-                    return this.finalize(company, {
-                        url: preCheck.final_url || company.website,
-                        status: 'FOUND_VALID',
-                        method: 'pre_existing',
-                        confidence: preCheck.confidence,
-                        wave: 'PRE',
-                        details: preCheck
-                    }, identity);
+            for (const planned of plan) {
+                const layer = planned.layer;
+                const { settings, decision } = budget.admit(layer, planned.settings, recorder.spentEur);
+                if (decision) {
+                    recorder.budgetDecision(decision);
+                    Logger.info(`[Discovery] 💶 ${decision.action} ${layer.name}: ${decision.reason} (expected €${decision.expected_cost_eur.toFixed(4)})`, {
+                        company_name: company.company_name,
+                        spent_eur: recorder.spentEur,
+                    });
                 }
-
-                // Keep as fallback if invalid but decent
-                if (preCheck && preCheck.confidence >= 0.35) {
-                    bestInvalid = {
-                        url: preCheck.final_url || company.website,
-                        status: 'FOUND_INVALID',
-                        method: 'pre_existing',
-                        confidence: preCheck.confidence,
-                        wave: 'PRE',
-                        details: preCheck
-                    };
+                if (!settings) {
+                    continue;
                 }
-            }
-
-            // SURGICAL SEARCH (if identity known)
-            if (identity) {
-                const surgicalResult = await this.surgicalSearch.execute(identity, company);
-                if (surgicalResult) {
-                    return this.finalize(company, {
-                        url: surgicalResult.url,
-                        status: 'FOUND_VALID',
-                        method: surgicalResult.method,
-                        confidence: surgicalResult.confidence,
-                        wave: 'LAYER1_SURGICAL',
-                        details: surgicalResult
-                    }, identity);
+                Logger.info(`[Discovery] 🧩 LAYER ${layer.name} (threshold ${settings.threshold.toFixed(2)})`);
+                const result = await this.runLayer(layer, context, settings, recorder);
+                if (!result) {
+                    continue;
                 }
-            }
-
-            // =====================================================================
-            // 📧 LAYER 1.5: EMAIL DOMAIN REVERSE ENGINEERING (Absolute Precision)
-            // =====================================================================
-            Logger.info(`[Discovery] 📧 LAYER 1.5: EMAIL DOMAIN REVERSAL`);
-            const emailReverseResult = await this.reverseEngineerEmailDomain(company, effectiveThreshold);
-            if (emailReverseResult) {
-                return this.finalize(company, emailReverseResult, identity);
-            }
-
-            // =====================================================================
-            // 🏛️ LAYER 1.7: REGISTRY DORKING (High Iteration)
-            // =====================================================================
-            Logger.info(`[Discovery] 🏛️ LAYER 1.7: REGISTRY DORKING`);
-            const registryResult = await this.dorkRegistries(company, effectiveThreshold);
-            if (registryResult) {
-                return this.finalize(company, registryResult, identity);
-            }
-
-
-            // =====================================================================
-            // 🧠 LAYER 2: SEMANTIC WEB (LLM Oracle)
-            // =====================================================================
-            if (!stopTheBleeding) {
-                Logger.info(`[Discovery] 🧠 LAYER 2: LLM ORACLE`);
-                const oracleUrl = await LLMOracle.predictWebsite(company);
-                if (oracleUrl) {
-                    const oracleVerification = await this.deepVerify(oracleUrl, company);
-                    if (oracleVerification && oracleVerification.confidence >= 0.85) {
-                        return this.finalize(company, {
-                            url: oracleVerification.final_url || oracleUrl,
-                            status: 'FOUND_VALID',
-                            method: 'llm_oracle',
-                            confidence: oracleVerification.confidence,
-                            wave: 'LAYER2_ORACLE',
-                            details: oracleVerification
-                        }, identity);
-                    }
+                if (result.status === 'FOUND_VALID') {
+                    return this.finalize(company, result, context.identity);
                 }
-            } else {
-                Logger.warn('[Discovery] Stop-the-bleeding mode active: skipping LLM oracle layer');
-            }
-
-            // =====================================================================
-            // 🐝 LAYER 3: THE SWARM (Parallel Execution) + JINA/BING/DDG
-            // =====================================================================
-            Logger.info(`[Discovery] 🐝 LAYER 3: THE SWARM (Google + Bing + DDG + Jina + HyperGuesser)`);
-
-            // Execute parallel strategies (RESTORED sources)
-            const swarmCandidates = await this.executeSwarm(company, identity);
-
-            // Validate Top Candidates with dynamic threshold
-            const validResult = await this.validateAndSelectBest(
-                swarmCandidates,
-                company,
-                'LAYER3_SWARM',
-                effectiveThreshold,
-                effectiveMaxCandidates
-            );
-
-            if (validResult && validResult.status === 'FOUND_VALID') {
-                return this.finalize(company, validResult, identity);
-            }
-
-            if (validResult) {
                 // Keep track of best invalid if better than previous
-                if (!bestInvalid || validResult.confidence > bestInvalid.confidence) {
-                    bestInvalid = validResult;
+                if (!bestInvalid || result.confidence > bestInvalid.confidence) {
+                    bestInvalid = result;
                 }
             }
 
-            // =====================================================================
-            // ⚖️ LAYER 4: THE JUDGE (Nuclear Fallback)
-            // =====================================================================
-            if (!stopTheBleeding && profile.runNuclear) {
-                Logger.info(`[Discovery] ⚖️ LAYER 4: NUCLEAR FALLBACK`);
-                try {
-                    const nuclear = await this.nuclearStrategy.execute(company);
-                    if (nuclear && nuclear.url) {
-                        const ver = await this.deepVerify(nuclear.url, company);
-                        if (ver && ver.confidence >= THRESHOLDS.MINIMUM_VALID) {
-                            return this.finalize(company, {
-                                url: ver.final_url || nuclear.url,
-                                status: 'FOUND_VALID',
-                                method: 'nuclear',
-                                confidence: ver.confidence,
-                                wave: 'LAYER4_NUCLEAR',
-                                details: ver
-                            }, identity);
-                        }
-                    }
-                } catch (e: any) {
-                    Logger.warn('[Wave4] Nuclear strategy failed', { error: e, company_name: company.company_name });
-                }
-            } else if (stopTheBleeding) {
-                Logger.warn('[Discovery] Stop-the-bleeding mode active: skipping nuclear layer');
-            }
-
             // FINAL REPORT
             if (bestInvalid) {
                 Logger.warn(`[Discovery] ⚠️ Best candidate invalid: ${bestInvalid.url} (${bestInvalid.confidence.toFixed(2)})`);
                 AntigravityClient.getInstance().trackCompanyUpdate(company, 'FAILED', { reason: 'Low confidence' });
-                return this.attachIdentity(this.withReasonCode(bestInvalid), identity);
+                return this.attachIdentity(this.withReasonCode(bestInvalid), context.identity);
             }
 
             AntigravityClient.getInstance().trackCompanyUpdate(company, 'FAILED', { reason: 'Waves exhausted' });
@@ -325,7 +308,7 @@ export class UnifiedDiscoveryService {
                 confidence: 0,
                 wave: 'ALL',
                 details: {}
-            }), identity);
+            }), context.identity);
 
         } catch (error: any) {
             Logger.error(`[Discovery] Error:`, { error });
@@ -336,10 +319,53 @@ export class UnifiedDiscoveryService {
                 confidence: 0,
                 wave: 'ERROR',
                 details: { error: error.message }
-            }), identity);
+            }), context.identity);
         }
     }
 
+    /**
+     * Run one layer within its time budget; a layer that runs out of time is abandoned (null).
+     * Abandoning aborts the layer's signal (see ./layers/layer_types.ts): its pending toolkit
+     * calls reject once they settle, and its identity is not carried over to the next layers.
+     */
+    private async runLayer(
+        layer: DiscoveryLayer,
+        context: Omit<DiscoveryLayerContext, 'signal'>,
+        settings: ResolvedLayerSettings,
+        recorder: DiscoveryTraceRecorder
+    ): Promise<DiscoveryResult | null> {
+        const controller = new AbortController();
+        const layerContext: DiscoveryLayerContext = {
+            ...context,
+            toolkit: abortableToolkit(context.toolkit, controller.signal),
+            signal: controller.signal,
+        };
+        return recorder.runLayer(layer.name, settings, async () => {
+            const run = layer.run(layerContext, settings).then((result) => {
+                if (!controller.signal.aborted) {
+                    context.identity = layerContext.identity;
+                }
+                return { result };
+            });
+            if (settings.timeoutMs <= 0) {
+                return await run;
+            }
+            let timer: NodeJS.Timeout | undefined;
+            const timeout = new Promise<{ timedOut: true }>((resolve) => {
+                timer = setTimeout(() => {
+                    Logger.warn(`[Discovery] ⏱️ Layer ${layer.name} timed out after ${settings.timeoutMs}ms`, { company_name: context.company.company_name });
+                    controller.abort(new TimeoutError(`Layer ${layer.name} timed out after ${settings.timeoutMs}ms`));
+                    resolve({ timedOut: true });
+                }, settings.timeoutMs);
+            });
+            try {
+                return await Promise.race([run, timeout]);
+            } finally {
+                clearTimeout(timer);
+            }
+        });
+    }
+
     // =========================================================================
     // 🐝 SWARM EXECUTION
     // =========================================================================
@@ -448,17 +474,15 @@ export class UnifiedDiscoveryService {
 
     private async executeQuery(q: GoldenQuery): Promise<Candidate[]> {
         try {
-            await this.rateLimiter.waitForSlot('google');
-
-            const provider = new SerperSearchProvider();
-            const results = await provider.search(q.query);
-
-            this.rateLimiter.reportSuccess('google');
+            // An empty answer is final here; failover only when the provider is down
+            const { results } = await searchSerp(q.query, { limit: 5, failoverOnEmpty: false });
 
-            return results.slice(0, 5).map(r => ({
+            return results.map((r, i) => ({
                 url: r.url,
                 source: `search_${q.type}`,
-                confidence: 0.60 + (q.expectedPrecision * 0.2)
+                confidence: 0.60 + (q.expectedPrecision * 0.2),
+                rank: i + 1,
+                query_type: q.type
             }));
         } catch (e: any) {
             Logger.warn(`[Search] Query failed: ${q.query}`, { error: e });
@@ -466,121 +490,66 @@ export class UnifiedDiscoveryService {
         }
     }
 
-    // RESTORED: Jina Search
+    // Jina Search
     private async searchJina(company: CompanyInput): Promise<Candidate[] | null> {
-        try {
-            // Basic Jina Search check (lightweight)
-            if (!ScraperClient.isJinaEnabled()) return null;
-
-            const query = `${company.company_name} ${company.city || ''} sito ufficiale`;
-            const response = await ScraperClient.fetchJinaSearch(query);
-
-            if (response.status !== 200 || !response.data) return null;
-
-            // Clean results
-            const results = ScraperClient.parseJinaSearchResults(response.data);
-            Logger.info(`[Jina] Found ${results.length} results`);
-
-            return results.slice(0, 6).map(r => ({
-                url: r.url,
-                source: 'jina_search',
-                confidence: 0.78 // High quality source
-            }));
-        } catch (e: any) {
-            Logger.warn('[Jina] Search failed', { error: e });
-            return null;
-        }
+        const { results, provider } = await searchSerp(`${company.company_name} ${company.city || ''} sito ufficiale`, { providers: ['jina'], limit: 6 });
+        if (!provider) return null;
+        Logger.info(`[Jina] Found ${results.length} results`);
+
+        return results.map((r, i) => ({
+            url: r.url,
+            source: 'jina_search',
+            confidence: 0.78, // High quality source
+            rank: i + 1,
+            query_type: 'name_city'
+        }));
     }
 
-    // Bing Search via ScraperClient (Fallback)
+    // Bing Search (Fallback)
     private async searchBing(company: CompanyInput): Promise<Candidate[] | null> {
-        try {
-            await this.rateLimiter.waitForSlot('bing');
-
-            const query = encodeURIComponent(`${company.company_name} ${company.city || ''} sito ufficiale`);
-            const url = `https://www.bing.com/search?q=${query}`;
-            const html = await ScraperClient.fetchText(url, { mode: 'scrape_do' });
-
-            const links: string[] = [];
-            const regex = /<li class="b_algo"><h2><a href="([^"]+)"/g;
-            let match;
-            while ((match = regex.exec(html)) !== null) {
-                if (!match[1].startsWith('http')) continue;
-                links.push(match[1]);
-            }
-
-            this.rateLimiter.reportSuccess('bing');
-            return links.slice(0, 5).map(link => ({
-                url: link,
-                source: 'bing_diy',
-                confidence: 0.65
-            }));
-        } catch (e) {
-            this.rateLimiter.reportFailure('bing');
-            return null;
-        }
+        const { results, provider } = await searchSerp(`${company.company_name} ${company.city || ''} sito ufficiale`, { providers: ['bing'], limit: 5 });
+        if (!provider) return null;
+
+        return results.map((r, i) => ({
+            url: r.url,
+            source: 'bing_diy',
+            confidence: 0.65,
+            rank: i + 1,
+            query_type: 'name_city'
+        }));
     }
 
-    // VAT/P.IVA Search via Serper (High precision)
+    // VAT/P.IVA Search (High precision)
     private async googleSearchByVat(company: CompanyInput): Promise<Candidate[] | null> {
         const vat = (company as any).vat_code || (company as any).vat || (company as any).piva;
         if (!vat || vat.length < 5) return null;
 
-        try {
-            await this.rateLimiter.waitForSlot('google');
-            const provider = new SerperSearchProvider();
-            const results = await provider.search(`"${vat}" sito ufficiale`);
-            this.rateLimiter.reportSuccess('google');
-            return results.slice(0, 5).map(r => ({
-                url: r.url,
-                source: 'google_vat',
-                confidence: 0.92
-            }));
-        } catch (e) {
-            this.rateLimiter.reportFailure('google');
-            Logger.warn('[VATSearch] Google VAT search failed', { error: e as Error, company_name: company.company_name });
+        const { results, provider } = await searchSerp(`"${vat}" sito ufficiale`, { limit: 5, failoverOnEmpty: false });
+        if (!provider) {
+            Logger.warn('[VATSearch] VAT search failed', { company_name: company.company_name });
             return null;
         }
+        return results.map((r, i) => ({
+            url: r.url,
+            source: 'google_vat',
+            confidence: 0.92,
+            rank: i + 1,
+            query_type: 'vat'
+        }));
     }
 
-    // RESTORED: DDG Search (Fallback)
+    // DDG Search (Fallback)
     private async searchDDG(company: CompanyInput): Promise<Candidate[] | null> {
-        // DDG via TorProvider/DDGProvider available in SearchProvider?
-        // The V2 used `scrapeDDGDIY`.
-        // We can check if `DDGSearchProvider` is working.
-        try {
-            // const provider = new DDGSearchProvider(); // Requires Tor connection check
-            // Skip Tor complexity for this clean version, rely on Google/Serper/Jina primarily.
-            // If user really wants DDG fallback we can add it, but it often slows things down via Tor.
-            // Instead, simple Scrape.do request to DDG HTML
-
-            await this.rateLimiter.waitForSlot('duckduckgo');
-            const query = encodeURIComponent(`${company.company_name} ${company.city || ''} sito`);
-            const url = `https://html.duckduckgo.com/html/?q=${query}`;
-            const html = await ScraperClient.fetchText(url, { mode: 'scrape_do' });
-
-            const links: string[] = [];
-            const regex = /class="result__a" href="([^"]+)"/g;
-            let match;
-            while ((match = regex.exec(html)) !== null) {
-                // DDG uses relative links or redirects, need to check
-                // Usually format is result__a href="//duckduckgo.com/l/?uddg=..."
-                let link = match[1];
-                if (link.includes('uddg=')) {
-                    const decoded = decodeURIComponent(link.split('uddg=')[1].split('&')[0]);
-                    links.push(decoded);
-                }
-            }
-
-            return links.slice(0, 5).map(link => ({
-                url: link,
-                source: 'ddg_diy',
-                confidence: 0.60
-            }));
-
-        } catch (e) {
-            return null;
-        }
+        const { results, provider } = await searchSerp(`${company.company_name} ${company.city || ''} sito`, { providers: ['ddg'], limit: 5 });
+        if (!provider) return null;
+
+        return results.map((r, i) => ({
+            url: r.url,
+            source: 'ddg_diy',
+            confidence: 0.60,
+            rank: i + 1,
+            query_type: 'name_city'
+        }));
     }
 
     private async pagineGiallePhoneAttack(company: CompanyInput): Promise<Candidate[] | null> {
@@ -615,6 +584,7 @@ export class UnifiedDiscoveryService {
                 Logger.info(`[EmailReversal] Probing domain extracted from email: ${domain}`);
 
                 const url = `http://${domain}`;
+                traceCandidates([{ url, source: 'email_domain' }]);
                 const verification = await this.deepVerify(url, company);
 
                 if (verification && verification.confidence >= threshold) {
@@ -636,14 +606,10 @@ export class UnifiedDiscoveryService {
 
     private async dorkRegistries(company: CompanyInput, threshold: number): Promise<DiscoveryResult | null> {
         try {
-            await this.rateLimiter.waitForSlot('google');
-            const provider = new SerperSearchProvider();
-
             // Search in trusted Italian directories that often list outbound links
             const cityPart = company.city ? ` "${company.city}"` : '';
             const query = `site:registroimprese.it OR site:informazione-aziende.it "${company.company_name}"${cityPart}`;
-            const results = await provider.search(query);
-            this.rateLimiter.reportSuccess('google');
+            const { results } = await searchSerp(query, { failoverOnEmpty: false });
 
             for (const r of results) {
                 // Check if the snippet contains a viable URL string before even opening the page
@@ -674,6 +640,7 @@ export class UnifiedDiscoveryService {
 
                 if (extractedUrl) {
                     Logger.info(`[RegistryDorking] Found embedded link ${extractedUrl} in ${r.url}`);
+                    traceCandidates([{ url: extractedUrl, source: 'registry_dork' }]);
                     const verification = await this.deepVerify(extractedUrl, company);
                     if (verification && verification.confidence >= threshold) {
                         return {
@@ -688,7 +655,6 @@ export class UnifiedDiscoveryService {
                 }
             }
         } catch (e) {
-            this.rateLimiter.reportFailure('google');
             Logger.warn(`[RegistryDorking] Error`, { error: e as Error });
         }
         return null;
@@ -699,8 +665,8 @@ export class UnifiedDiscoveryService {
     // =========================================================================
 
     private async validateAndSelectBest(candidates: Candidate[], company: CompanyInput, wave: string, threshold: number, max: number): Promise<DiscoveryResult | null> {
-        // Sort by raw confidence/source priority
-        const unique = this.deduplicate(candidates).slice(0, max);
+        // Most promising first (trained ranker, or source confidence + domain coverage)
+        const unique = this.deduplicate(rankCandidates(candidates, company.company_name)).slice(0, max);
 
         if (unique.length === 0) return null;
 
@@ -730,13 +696,45 @@ export class UnifiedDiscoveryService {
 
         if (results.length > 0) {
             const best = results[0];
-            if (best.confidence >= threshold) return best;
+            if (best.confidence >= threshold) {
+                const secondarySites = this.secondarySites(best, results.slice(1));
+                return secondarySites.length > 0 ? { ...best, secondary_sites: secondarySites } : best;
+            }
             return best;
         }
 
         return null;
     }
 
+    /**
+     * Other valid results on their own domain (after redirects): brand, e-commerce or
+     * country sites of the same company, most confident first.
+     */
+    private secondarySites(primary: DiscoveryResult, others: DiscoveryResult[]): SecondaryWebsite[] {
+        const siteDomain = (result: DiscoveryResult) => this.domainOf(result.details?.final_url || result.url || '');
+        const seen = new Set([siteDomain(primary)]);
+        const sites: SecondaryWebsite[] = [];
+        for (const result of others) {
+            const domain = siteDomain(result);
+            if (sites.length >= config.discovery.maxSecondarySites || result.status !== 'FOUND_VALID' || !result.url || seen.has(domain)) {
+                continue;
+            }
+            seen.add(domain);
+            sites.push({
+                url: result.details?.final_url || result.url,
+                confidence: result.confidence,
+                method: result.method,
+                reason_code: result.reason_code,
+                evidence: {
+                    vat: result.details?.scraped_piva || undefined,
+                    phone: result.details?.matched_phone || undefined,
+                    schema_match: result.details?.schema_signals ? !!(result.details.schema_signals.vatMatch || result.details.schema_signals.urlMatch) : undefined,
+                },
+            });
+        }
+        return sites;
+    }
+
     // =========================================================================
     // 🛠️ UTILS
     // =========================================================================
@@ -776,20 +774,20 @@ export class UnifiedDiscoveryService {
         Logger.info(`[Discovery] 🏆 SUCCESS: ${company.company_name} -> ${result.url} (${result.confidence})`);
     }
 
+    private domainOf(url: string): string {
+        return url.replace(/^https?:\/\//, '').replace(/^www\./, '').split('/')[0].toLowerCase();
+    }
+
     private deduplicate(candidates: Candidate[]): Candidate[] {
         const seen = new Set<string>();
         return candidates.filter(c => {
-            const domain = c.url.replace(/^https?:\/\//, '').replace(/^www\./, '').split('/')[0];
+            const domain = this.domainOf(c.url);
             if (seen.has(domain)) return false;
             seen.add(domain);
             return true;
         });
     }
 
-    private applyThresholdDelta(base: number, delta: number): number {
-        return Math.min(0.99, Math.max(0.1, base + delta));
-    }
-
     private mapExceptionToReasonCode(error: unknown): string {
         const message = `${(error as any)?.message || error || ''} `.toLowerCase();
         if (message.includes('timeout') || message.includes('timed out')) return 'ERROR_TIMEOUT_FETCH';
@@ -886,125 +884,21 @@ export class UnifiedDiscoveryService {
         }
     }
 
-    private computeCandidatePriority(candidate: Candidate, company: CompanyInput): number {
-        const domainCov = CompanyMatcher.domainCoverage(company.company_name, candidate.url);
-        return candidate.confidence + domainCov * 0.25;
-    }
-
-    private extractSchemaOrgSignals(html: string, company: CompanyInput, currentUrl: string): {
-        vatMatch: boolean;
-        phoneMatch: boolean;
-        urlMatch: boolean;
-        foundVat?: string;
-        foundPhone?: string;
-        foundUrl?: string;
-    } {
-        const targetVat = `${company.vat_code || (company as any).vat || (company as any).piva || ''}`.replace(/\D/g, '');
-        const targetPhone = CompanyMatcher.normalizePhone(company.phone);
-        let foundVat: string | undefined;
-        let foundPhone: string | undefined;
-        let foundUrl: string | undefined;
-
-        try {
-            const $ = cheerio.load(html);
-            const scripts = $('script[type="application/ld+json"]').toArray();
-            const currentHost = new URL(currentUrl).hostname.replace(/^www\./, '').toLowerCase();
-
-            const pushNode = (bucket: any[], node: any) => {
-                if (!node || typeof node !== 'object') return;
-                if (Array.isArray(node)) {
-                    node.forEach((n) => pushNode(bucket, n));
-                    return;
-                }
-                bucket.push(node);
-                if (Array.isArray(node['@graph'])) {
-                    node['@graph'].forEach((n: any) => pushNode(bucket, n));
-                }
-            };
-
-            for (const script of scripts) {
-                const raw = $(script).text().trim();
-                if (!raw) continue;
-                let parsed: any;
-                try {
-                    parsed = JSON.parse(raw);
-                } catch {
-                    continue;
-                }
-
-                const nodes: any[] = [];
-                pushNode(nodes, parsed);
-                for (const node of nodes) {
-                    const rawType = node?.['@type'];
-                    const types = Array.isArray(rawType) ? rawType : [rawType];
-                    const isBusinessNode = types.some((t) =>
-                        typeof t === 'string' &&
-                        (t.toLowerCase().includes('organization') ||
-                            t.toLowerCase().includes('localbusiness') ||
-                            t.toLowerCase().includes('corporation'))
-                    );
-                    if (!isBusinessNode) continue;
-
-                    const nodeUrl = typeof node.url === 'string' ? node.url : '';
-                    if (nodeUrl) {
-                        try {
-                            const host = new URL(nodeUrl).hostname.replace(/^www\./, '').toLowerCase();
-                            if (host === currentHost) {
-                                foundUrl = nodeUrl;
-                            }
-                        } catch {
-                            // ignore malformed url
-                        }
-                    }
-
-                    const rawPhone = Array.isArray(node.telephone) ? node.telephone[0] : node.telephone;
-                    if (typeof rawPhone === 'string') {
-                        const normalized = CompanyMatcher.normalizePhone(rawPhone);
-                        if (normalized) foundPhone = normalized;
-                    }
-
-                    const vatCandidates: string[] = [];
-                    if (typeof node.vatID === 'string') vatCandidates.push(node.vatID);
-                    if (typeof node.taxID === 'string') vatCandidates.push(node.taxID);
-                    const identifier = node.identifier;
-                    if (typeof identifier === 'string') vatCandidates.push(identifier);
-                    if (Array.isArray(identifier)) {
-                        identifier.forEach((id) => {
-                            if (typeof id === 'string') vatCandidates.push(id);
-                            if (id && typeof id === 'object' && typeof id.value === 'string') vatCandidates.push(id.value);
-                        });
-                    }
-                    if (identifier && typeof identifier === 'object' && typeof identifier.value === 'string') {
-                        vatCandidates.push(identifier.value);
-                    }
-
-                    for (const candidateVat of vatCandidates) {
-                        const digits = candidateVat.replace(/\D/g, '');
-                        if (digits.length === 11) {
-                            foundVat = digits;
-                            break;
-                        }
-                    }
-                }
-            }
-        } catch {
-            // ignore schema parsing errors
-        }
-
-        const vatMatch = !!targetVat && !!foundVat && foundVat === targetVat;
-        const phoneMatch = !!targetPhone && !!foundPhone && (
-            targetPhone.endsWith(foundPhone) || foundPhone.endsWith(targetPhone)
-        );
-        const urlMatch = !!foundUrl;
-
-        return { vatMatch, phoneMatch, urlMatch, foundVat, foundPhone, foundUrl };
-    }
-
     // =========================================================================
     // DEEP VERIFICATION
     // =========================================================================
 
+    /**
+     * Deep verification, recorded on the decision trace of the running layer.
+     */
     private async deepVerify(url: string, company: CompanyInput): Promise<any | null> {
+        const started = Date.now();
+        const verification = await this.runDeepVerify(url, company);
+        traceVerification(url, verification, Date.now() - started);
+        return verification;
+    }
+
+    private async runDeepVerify(url: string, company: CompanyInput): Promise<any | null> {
         if (!url) return null;
         if (ContentFilter.isDirectoryOrSocial(url)) {
             return {
@@ -1201,59 +1095,22 @@ export class UnifiedDiscoveryService {
                 return result;
             }
 
-            let combinedText = extraction.text;
-            let evaluation = CompanyMatcher.evaluate(company, currentUrl, combinedText, extraction.title);
-            const schemaSignals = this.extractSchemaOrgSignals(extraction.html, company, currentUrl);
-            if (schemaSignals.vatMatch) {
-                evaluation = {
-                    ...evaluation,
-                    confidence: Math.max(evaluation.confidence, 0.99),
-                    scrapedVat: schemaSignals.foundVat || evaluation.scrapedVat,
-                    reason: `${evaluation.reason}, schema.org vat match`,
-                };
-            } else if (schemaSignals.phoneMatch) {
-                evaluation = {
-                    ...evaluation,
-                    confidence: Math.min(0.99, evaluation.confidence + 0.1),
-                    reason: `${evaluation.reason}, schema.org phone match`,
-                };
-            } else if (schemaSignals.urlMatch) {
-                evaluation = {
-                    ...evaluation,
-                    confidence: Math.min(0.99, evaluation.confidence + 0.05),
-                    reason: `${evaluation.reason}, schema.org url match`,
-                };
-            }
-
-            const candidateLinks = this.collectEvidenceLinks(extraction.links, currentUrl);
-            if (evaluation.confidence < THRESHOLDS.WAVE1_SWARM && candidateLinks.length > 0) {
-                for (const link of candidateLinks.slice(0, 4)) {
-                    const extraText = await this.fetchSupplementalPageText(page, link);
-                    if (extraText) {
-                        combinedText += `\n${extraText}`;
-                    }
+            const schemaSignals = extractSchemaOrgSignals(extraction.html, company, currentUrl);
+            const evidence = { url: currentUrl, title: extraction.title, schemaSignals, titleBoost: true };
+            let evidencePages: PageText[] = [{ url: currentUrl, text: extraction.text }];
+            let evaluation = scoreVerificationEvidence(company, { ...evidence, pages: evidencePages });
+            if (evaluation.confidence < THRESHOLDS.WAVE1_SWARM) {
+                const browserPage = page;
+                evidencePages = await crawlEvidencePages(
+                    { url: currentUrl, text: extraction.text, links: extraction.links },
+                    (link) => this.fetchSupplementalPageText(browserPage, link),
+                    { isSatisfied: (pages) => scoreVerificationEvidence(company, { ...evidence, pages }).confidence >= THRESHOLDS.WAVE1_SWARM }
+                );
+                if (evidencePages.length > 1) {
+                    evaluation = scoreVerificationEvidence(company, { ...evidence, pages: evidencePages });
                 }
-                evaluation = CompanyMatcher.evaluate(company, currentUrl, combinedText, extraction.title);
-            }
-
-            const appearsItalian = ContentFilter.isItalianLanguage(combinedText);
-            if (!appearsItalian && evaluation.confidence < 0.9) {
-                evaluation = {
-                    ...evaluation,
-                    confidence: Math.max(0, evaluation.confidence - 0.03),
-                    reason: `${evaluation.reason}, foreign language`,
-                };
-            }
-
-            // TITLE BOOST: If the page <title> contains the company name, boost confidence
-            const titleNameCoverage = CompanyMatcher.nameCoverage(company.company_name, extraction.title.toLowerCase());
-            if (titleNameCoverage >= 0.6 && evaluation.confidence < 0.85) {
-                evaluation = {
-                    ...evaluation,
-                    confidence: Math.min(0.99, evaluation.confidence + 0.10),
-                    reason: `${evaluation.reason}, title match boost`,
-                };
             }
+            const combinedText = evidencePages.map((evidencePage) => evidencePage.text).join('\n');
 
             if (evaluation.confidence < THRESHOLDS.WAVE3_JUDGE && (process.env.OPENAI_API_KEY || process.env.DEEPSEEK_API_KEY || process.env.KIMI_API_KEY || process.env.Z_AI_API_KEY)) {
                 try {
@@ -1301,6 +1158,8 @@ export class UnifiedDiscoveryService {
                 matched_phone: evaluation.matchedPhone,
                 signals: evaluation.signals,
                 schema_signals: schemaSignals,
+                evidence_pages: evidencePages.map((evidencePage) => evidencePage.url),
+                signal_sources: evaluation.signalSources,
                 reason_code: this.reasonCodeForVerification({
                     confidence: evaluation.confidence,
                     reason: evaluation.reason,
@@ -1310,8 +1169,21 @@ export class UnifiedDiscoveryService {
                 }),
                 final_url: currentUrl,
             };
-            this.setCachedVerification(cacheKey, result);
-            return result;
+            const archived = {
+                ...result,
+                snapshot_id: archiveVerificationSnapshot({
+                    company,
+                    candidate_url: normalizedUrl,
+                    final_url: currentUrl,
+                    via: 'browser',
+                    title: extraction.title,
+                    html: extraction.html,
+                    pages: evidencePages,
+                    live: { confidence: result.confidence, reason_code: result.reason_code },
+                }),
+            };
+            this.setCachedVerification(cacheKey, archived);
+            return archived;
 
         } catch (e) {
             // Last-resort: HTTP fallback (no browser). Helps with flaky chromium sessions.
@@ -1389,16 +1261,7 @@ export class UnifiedDiscoveryService {
                 };
             }
 
-            let evaluation = CompanyMatcher.evaluate(company, normalizedUrl, text, title);
-
-            const appearsItalian = ContentFilter.isItalianLanguage(text);
-            if (!appearsItalian && evaluation.confidence < 0.9) {
-                evaluation = {
-                    ...evaluation,
-                    confidence: Math.max(0, evaluation.confidence - 0.03),
-                    reason: `${evaluation.reason}, foreign language`,
-                };
-            }
+            let evaluation = scoreVerificationEvidence(company, { url: normalizedUrl, title, pages: [{ url: normalizedUrl, text }] });
 
             // LLM boost if confidence is borderline (check all LLM provider keys, not just OpenAI)
             const hasAnyLLMKey = process.env.OPENAI_API_KEY || process.env.DEEPSEEK_API_KEY || process.env.KIMI_API_KEY || process.env.Z_AI_API_KEY;
@@ -1421,7 +1284,7 @@ export class UnifiedDiscoveryService {
 
             Logger.info(`[JinaVerify] ✅ Verified ${normalizedUrl} -> confidence: ${evaluation.confidence.toFixed(2)}`);
 
-            return {
+            const result = {
                 confidence: evaluation.confidence,
                 reason: evaluation.reason,
                 level: evaluation.confidence >= 0.85 ? 'RULE_STRONG' : 'RULE_HEURISTIC',
@@ -1436,6 +1299,18 @@ export class UnifiedDiscoveryService {
                 }),
                 final_url: normalizedUrl,
             };
+            return {
+                ...result,
+                snapshot_id: archiveVerificationSnapshot({
+                    company,
+                    candidate_url: normalizedUrl,
+                    final_url: normalizedUrl,
+                    via: 'jina',
+                    title,
+                    pages: [{ url: normalizedUrl, text }],
+                    live: { confidence: result.confidence, reason_code: result.reason_code },
+                }),
+            };
         } catch (e) {
             Logger.warn('[JinaVerify] Failed, falling back to browser', { error: e as Error, url: normalizedUrl });
             return null;
@@ -1496,38 +1371,22 @@ export class UnifiedDiscoveryService {
                     };
                 }
 
-                let evaluation = CompanyMatcher.evaluate(company, currentUrl, text, title);
-                const schemaSignals = this.extractSchemaOrgSignals(html, company, currentUrl);
-                if (schemaSignals.vatMatch) {
-                    evaluation = {
-                        ...evaluation,
-                        confidence: Math.max(evaluation.confidence, 0.99),
-                        scrapedVat: schemaSignals.foundVat || evaluation.scrapedVat,
-                        reason: `${evaluation.reason}, schema.org vat match`,
-                    };
-                } else if (schemaSignals.phoneMatch) {
-                    evaluation = {
-                        ...evaluation,
-                        confidence: Math.min(0.99, evaluation.confidence + 0.1),
-                        reason: `${evaluation.reason}, schema.org phone match`,
-                    };
-                } else if (schemaSignals.urlMatch) {
-                    evaluation = {
-                        ...evaluation,
-                        confidence: Math.min(0.99, evaluation.confidence + 0.05),
-                        reason: `${evaluation.reason}, schema.org url match`,
-                    };
-                }
-                const appearsItalian = ContentFilter.isItalianLanguage(text);
-                if (!appearsItalian && evaluation.confidence < 0.9) {
-                    evaluation = {
-                        ...evaluation,
-                        confidence: Math.max(0, evaluation.confidence - 0.03),
-                        reason: `${evaluation.reason}, foreign language`,
-                    };
+                const schemaSignals = extractSchemaOrgSignals(html, company, currentUrl);
+                const evidence = { url: currentUrl, title, schemaSignals };
+                let evidencePages: PageText[] = [{ url: currentUrl, text }];
+                let evaluation = scoreVerificationEvidence(company, { ...evidence, pages: evidencePages });
+                if (evaluation.confidence < THRESHOLDS.WAVE1_SWARM) {
+                    evidencePages = await crawlEvidencePages(
+                        { url: currentUrl, text, links: extractHtmlEvidence(html, currentUrl).links },
+                        (link) => this.fetchSupplementalHtmlText(link),
+                        { isSatisfied: (pages) => scoreVerificationEvidence(company, { ...evidence, pages }).confidence >= THRESHOLDS.WAVE1_SWARM }
+                    );
+                    if (evidencePages.length > 1) {
+                        evaluation = scoreVerificationEvidence(company, { ...evidence, pages: evidencePages });
+                    }
                 }
 
-                return {
+                const result = {
                     confidence: evaluation.confidence,
                     reason: evaluation.reason,
                     level: evaluation.confidence >= 0.85 ? 'RULE_STRONG' : 'RULE_HEURISTIC',
@@ -1535,6 +1394,8 @@ export class UnifiedDiscoveryService {
                     matched_phone: evaluation.matchedPhone,
                     signals: evaluation.signals,
                     schema_signals: schemaSignals,
+                    evidence_pages: evidencePages.map((evidencePage) => evidencePage.url),
+                    signal_sources: evaluation.signalSources,
                     reason_code: this.reasonCodeForVerification({
                         confidence: evaluation.confidence,
                         reason: evaluation.reason,
@@ -1544,6 +1405,19 @@ export class UnifiedDiscoveryService {
                     }),
                     final_url: currentUrl,
                 };
+                return {
+                    ...result,
+                    snapshot_id: archiveVerificationSnapshot({
+                        company,
+                        candidate_url: normalizedUrl,
+                        final_url: currentUrl,
+                        via: 'http',
+                        title,
+                        html,
+                        pages: evidencePages,
+                        live: { confidence: result.confidence, reason_code: result.reason_code },
+                    }),
+                };
             } catch {
                 continue;
             }
@@ -1585,60 +1459,24 @@ export class UnifiedDiscoveryService {
         });
     }
 
-    private collectEvidenceLinks(
-        links: Array<{ href: string; text: string }>,
-        baseUrl: string
-    ): string[] {
+    private async fetchSupplementalPageText(page: Page, url: string): Promise<string | null> {
         try {
-            const stripWww = (host: string) => host.replace(/^www\./, '').toLowerCase();
-            const baseHost = stripWww(new URL(baseUrl).hostname);
-
-            const textKeywords = ['contatt', 'chi siamo', 'about', 'dove siamo', 'impressum', 'privacy', 'cookie'];
-            const hrefKeywords = [
-                'contatt',
-                'contact',
-                'chi-siamo',
-                'chisiamo',
-                'about',
-                'azienda',
-                'dove-siamo',
-                'dovesiamo',
-                'impressum',
-                'privacy',
-                'cookie',
-                'note-legali',
-                'legal',
-            ];
-            const selected = new Set<string>();
-
-            for (const link of links) {
-                let urlObj: URL;
-                try {
-                    urlObj = new URL(link.href);
-                } catch {
-                    continue;
-                }
-
-                const host = stripWww(urlObj.hostname);
-                if (host !== baseHost) continue;
-
-                const text = (link.text || '').toLowerCase();
-                const hrefPath = `${urlObj.pathname}${urlObj.search}`.toLowerCase();
-                if (textKeywords.some((keyword) => text.includes(keyword)) || hrefKeywords.some((keyword) => hrefPath.includes(keyword))) {
-                    selected.add(link.href);
-                }
-            }
-
-            return [...selected];
+            await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 12000 });
+            const text = await page.evaluate(() => document.body?.innerText || '');
+            return text.length > 0 ? text.slice(0, 12000) : null;
         } catch {
-            return [];
+            return null;
         }
     }
 
-    private async fetchSupplementalPageText(page: Page, url: string): Promise<string | null> {
+    private async fetchSupplementalHtmlText(url: string): Promise<string | null> {
         try {
-            await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 12000 });
-            const text = await page.evaluate(() => document.body?.innerText || '');
+            const resp = await ScraperClient.fetchHtml(url, { mode: 'auto', timeoutMs: 12000, maxRetries: 1, render: false });
+            if (resp.via === 'direct' && (resp.status < 200 || resp.status >= 400)) {
+                return null;
+            }
+            const html = typeof resp.data === 'string' ? resp.data : '';
+            const text = extractHtmlEvidence(html, url).text;
             return text.length > 0 ? text.slice(0, 12000) : null;
         } catch {
             return null;
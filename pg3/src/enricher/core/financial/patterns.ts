@@ -4,13 +4,19 @@
  * Centralized for easy maintenance and testing.
  */
 
+// One revenue amount ("1.500.000 €", "1,2 mln"), optionally bounded or a range (parsed by value_parser.ts)
+const REVENUE_AMOUNT = "\\d[\\d.,]*(?:\\s*(?:mld|miliardi|mln|milioni|milione|mila|k|M)\\b|\\s*€)?";
+const REVENUE_VALUE = `((?:(?:tra|fra|da)\\s+€?\\s*${REVENUE_AMOUNT}\\s*€?\\s+(?:e|a)\\s+€?\\s*|${REVENUE_AMOUNT}\\s*[-–]\\s*|` +
+    `(?:meno di|fino a|inferiore a|oltre|più di|superiore a|almeno|circa|<|>|~)\\s*€?\\s*)?${REVENUE_AMOUNT})`;
+
 export const FinancialPatterns = {
     // Revenue (Fatturato)
-    // Matches: "Fatturato: € 1.5 mln", "Ricavi: 200 milioni", "Volume d'affari: 500k"
+    // Matches: "Fatturato: € 1.5 mln", "Fatturato 2023: € 1.500.000", "Ricavi: 200 milioni", "Volume d'affari: 500k",
+    // "Fatturato compreso tra 2 e 5 milioni", "Fatturato: < 500.000 €", "Ricavi: oltre 50 milioni"
     REVENUE: [
-        /fatturato\s*(?:\(\d{4}\))?\s*(?:di)?\s*(?:circa)?\s*[:\s]*€?\s*([\d.,]+\s*(?:mln|milioni|mila|k|M|€)?)/i,
-        /ricavi\s*[:\s]*€?\s*([\d.,]+\s*(?:mln|milioni|mila|k|M|€)?)/i,
-        /volume\s*d['']affari\s*[:\s]*€?\s*([\d.,]+\s*(?:mln|milioni|mila|k|M|€)?)/i
+        new RegExp(`fatturato\\s*(?:\\(?\\s*(?:19|20)\\d{2}\\s*\\)?)?\\s*(?:compreso)?\\s*(?:di)?\\s*[:\\s]*€?\\s*${REVENUE_VALUE}`, 'i'),
+        new RegExp(`ricavi\\s*[:\\s]*€?\\s*${REVENUE_VALUE}`, 'i'),
+        new RegExp(`volume\\s*d['’]affari\\s*[:\\s]*€?\\s*${REVENUE_VALUE}`, 'i'),
     ],
 
     // Employees (Dipendenti)
@@ -22,6 +28,20 @@ export const FinancialPatterns = {
         /(\d+(?:-\d+)?)\s*dipendenti/i
     ],
 
+    // Fiscal year of the figures on a page
+    // Matches: "Fatturato 2023", "Fatturato (2022)", "Bilancio al 31/12/2022", "Esercizio 2021"
+    FISCAL_YEAR: /(?:fatturato|ricavi|bilancio|esercizio|anno)\s*(?:al\s*(?:\d{1,2}[/.-]\d{1,2}[/.-])?)?\(?\s*((?:19|20)\d{2})(?!\d)/i,
+
+    // Statement line labels per metric (regex sources, composed in statement.ts)
+    // Matches: "Fatturato", "Ricavi delle vendite", "Utile netto", "Perdita d'esercizio", "MOL", "Costo del personale", "N. dipendenti"
+    STATEMENT: {
+        revenue: "fatturato|ricavi(?: delle vendite(?: e delle prestazioni)?)?",
+        net_income: "utile(?: netto)?(?: d['’]esercizio| dell['’]esercizio)?|perdita(?: d['’]esercizio| dell['’]esercizio)?|risultato(?: netto| d['’]esercizio| dell['’]esercizio)",
+        ebitda: "ebitda|margine operativo lordo|mol",
+        personnel_cost: "cost[oi] (?:del )?personale",
+        employees: "(?:n(?:umero)?\\.?\\s*(?:di\\s*)?)?dipendenti|addetti",
+    },
+
     // VAT (P.IVA)
     // Matches: "P.IVA 12345678901", "Partita IVA: IT123..."
     VAT: {
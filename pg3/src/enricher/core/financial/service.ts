@@ -16,17 +16,32 @@ import { ScraperClient } from '../../utils/scraper_client';
 import * as cheerio from 'cheerio';
 import { FinancialPatterns } from './patterns';
 import { Retry } from '../../../utils/decorators';
+import { DataSource } from '../../utils/data_merger';
+import { FinancialFigure } from '../../db/model';
+import { extractFinancialFigures, figureConfidence, latestFigure, mergeFinancialFigures } from './statement';
+import { FinancialValue, parseFinancialValue } from './value_parser';
+
+export type FinancialField = 'vat' | 'revenue' | 'employees' | 'pec';
 
 export interface FinancialData {
     vat?: string;
     revenue?: string;
+    /** `revenue` as numbers: range, point estimate, currency and year */
+    revenueValue?: FinancialValue;
     revenueYear?: string;
     employees?: string;
     isEstimatedEmployees: boolean;
     source?: string;
     pec?: string;
+    /** Provenance of each populated field */
+    fieldSources: Partial<Record<FinancialField, DataSource>>;
+    /** Statement figures per fiscal year, most trusted source per metric + year */
+    figures: FinancialFigure[];
 }
 
+/** What one source yields: free-text values plus the figures it could date */
+type SourceFinancials = { revenue?: string; employees?: string; figures?: FinancialFigure[] };
+
 export class FinancialService {
     private browserFactory: BrowserFactory;
     private openai: OpenAI | null;
@@ -44,8 +59,21 @@ export class FinancialService {
      * 💰 MAIN ENRICHMENT ENTRY POINT
      */
     async enrich(company: CompanyInput, websiteUrl?: string): Promise<FinancialData> {
-        const data: FinancialData = { isEstimatedEmployees: false };
+        const data: FinancialData = { isEstimatedEmployees: false, fieldSources: {}, figures: [] };
         let validVat: string | undefined;
+        const take = (res: SourceFinancials | null | undefined, source: DataSource) => {
+            if (res?.figures) {
+                data.figures = mergeFinancialFigures(data.figures, res.figures);
+            }
+            if (res?.revenue && !data.revenue) {
+                data.revenue = res.revenue;
+                data.fieldSources.revenue = source;
+            }
+            if (res?.employees && !data.employees) {
+                data.employees = res.employees;
+                data.fieldSources.employees = source;
+            }
+        };
 
         // --- PHASE 1: VAT DISCOVERY ---
         validVat = await this.discoverVat(company, websiteUrl);
@@ -54,50 +82,51 @@ export class FinancialService {
         if (validVat) {
             data.vat = validVat;
             data.source = 'Discovered + VIES';
+            data.fieldSources.vat = DataSource.VIES;
             Logger.info(`[Financial] 🎯 VAT found: ${validVat}. Targeting UfficioCamerale...`);
 
-            const strategies = [
-                () => this.scrapeUfficioCameraleDirect(validVat!),
-                () => this.scrapeSecondaryRegistries(validVat!),
-                () => this.scrapeFatturatoItalia(company, validVat)
+            const strategies: Array<{ run: () => Promise<SourceFinancials>; source: DataSource }> = [
+                { run: () => this.scrapeUfficioCameraleDirect(validVat!), source: DataSource.REGISTRY },
+                { run: () => this.scrapeSecondaryRegistries(validVat!), source: DataSource.REGISTRY },
+                { run: () => this.scrapeFatturatoItalia(company, validVat), source: DataSource.FINANCIAL_DIRECTORY },
             ];
 
             for (const strategy of strategies) {
-                const res = await strategy();
-                if (res.revenue) data.revenue = res.revenue;
-                if (res.employees) data.employees = res.employees;
+                take(await strategy.run(), strategy.source);
                 if (data.revenue && data.employees) break; // Found both, done.
             }
 
         } else {
             Logger.info(`[Financial] ⚠️ No VAT found. Searching by name...`);
-            const nameSearch = await this.googleSearchFinancialsByName(company);
-            if (nameSearch.revenue) data.revenue = nameSearch.revenue;
-            if (nameSearch.employees) data.employees = nameSearch.employees;
+            take(await this.googleSearchFinancialsByName(company), DataSource.FINANCIAL_DIRECTORY);
 
             // Try FatturatoItalia by name search (no VAT)
             if (!data.revenue || !data.employees) {
-                const fiData = await this.scrapeFatturatoItalia(company);
-                if (fiData.revenue && !data.revenue) data.revenue = fiData.revenue;
-                if (fiData.employees && !data.employees) data.employees = fiData.employees;
+                take(await this.scrapeFatturatoItalia(company), DataSource.FINANCIAL_DIRECTORY);
             }
         }
 
         // --- PHASE 3: FALLBACK (ReportAziende) ---
         if (!data.revenue || !data.employees) {
-            const raData = await this.scrapeReportAziende(company.company_name, company.city, validVat);
-            if (raData?.revenue && !data.revenue) data.revenue = raData.revenue;
-            if (raData?.employees && !data.employees) data.employees = raData.employees;
+            take(await this.scrapeReportAziende(company.company_name, company.city, validVat), DataSource.FINANCIAL_DIRECTORY);
         }
 
         // --- PHASE 4: AI ESTIMATION ---
         if (!data.employees && websiteUrl && this.openai) {
             data.employees = await this.estimateEmployees(company, websiteUrl);
-            if (data.employees) data.isEstimatedEmployees = true;
+            if (data.employees) {
+                data.isEstimatedEmployees = true;
+                data.fieldSources.employees = DataSource.AI;
+            }
         }
 
+        const latestRevenue = latestFigure(data.figures, 'revenue');
+        data.revenueValue = parseFinancialValue(data.revenue, { year: latestRevenue?.fiscal_year });
+        data.revenueYear = (latestRevenue?.fiscal_year ?? data.revenueValue?.year)?.toString();
+
         // --- PHASE 5: PEC ---
         data.pec = await this.discoverPec(company, websiteUrl, validVat);
+        if (data.pec) data.fieldSources.pec = websiteUrl ? DataSource.WEBSITE : DataSource.UNKNOWN;
 
         Logger.info(`[Financial] ✅ Enrichment complete for ${company.company_name}: VAT=${data.vat || 'N/A'}, Revenue=${data.revenue || 'N/A'}`);
         return data;
@@ -150,16 +179,16 @@ export class FinancialService {
     // =========================================================================
 
     @Retry({ attempts: 2 })
-    private async scrapeUfficioCameraleDirect(vat: string): Promise<{ revenue?: string; employees?: string }> {
+    private async scrapeUfficioCameraleDirect(vat: string): Promise<SourceFinancials> {
         // Law 505: Agentic Fallback - Use Tor/DDG to bypass Scrape.do limits
         if (process.env.DISABLE_PROXY === 'true') return {};
 
-        const ddgProvider = new (await import('../discovery/search_provider')).DDGSearchProvider();
+        const { searchSerp } = await import('../discovery/serp/registry');
         const query = `site:ufficiocamerale.it OR site:registroimprese.it OR site:informazione-aziende.it ${vat}`;
 
         try {
             Logger.info(`[Financial] 🕵️‍♂️ Searching registries via Tor/DDG for VAT: ${vat}`);
-            const results = await ddgProvider.search(query);
+            const { results } = await searchSerp(query, { providers: ['ddg_tor', 'serper'] });
 
             if (!results || results.length === 0) {
                 Logger.warn(`[Financial] No registry results found for ${vat} via DDG.`);
@@ -189,7 +218,7 @@ export class FinancialService {
                 await this.handleCaptcha(page);
 
                 const text = await page.evaluate(() => document.body.innerText);
-                return this.parseFinancialText(text);
+                return this.parseFinancialText(text, targetUrl);
             } finally {
                 await page.close().catch(() => { });
             }
@@ -200,8 +229,14 @@ export class FinancialService {
         }
     }
 
-    private parseFinancialText(text: string): { revenue?: string; employees?: string } {
-        const result: { revenue?: string; employees?: string } = {};
+    private parseFinancialText(text: string, sourceUrl: string): SourceFinancials {
+        const result: SourceFinancials = {
+            figures: extractFinancialFigures(text, {
+                source: DataSource.REGISTRY,
+                confidence: figureConfidence(DataSource.REGISTRY),
+                source_url: sourceUrl,
+            }),
+        };
 
         for (const pattern of FinancialPatterns.REVENUE) {
             const match = text.match(pattern);
@@ -248,7 +283,7 @@ export class FinancialService {
     // 📊 FATTURATO ITALIA
     // =========================================================================
 
-    private async scrapeFatturatoItalia(company: CompanyInput, vat?: string): Promise<{ revenue?: string; employees?: string }> {
+    private async scrapeFatturatoItalia(company: CompanyInput, vat?: string): Promise<SourceFinancials> {
         try {
             // Inject VAT into company if we discovered it
             const enrichedCompany = vat ? { ...company, vat_code: vat } : company;
@@ -259,6 +294,7 @@ export class FinancialService {
                 return {
                     revenue: fiResult.revenue,
                     employees: fiResult.employees,
+                    figures: fiResult.figures,
                 };
             }
         } catch (e) {
@@ -271,20 +307,20 @@ export class FinancialService {
     // 🔎 SECONDARY SCRAPERS
     // =========================================================================
 
-    private async scrapeSecondaryRegistries(vat: string): Promise<{ revenue?: string; employees?: string }> {
+    private async scrapeSecondaryRegistries(vat: string): Promise<SourceFinancials> {
         // (Optimized version of original logic)
         // ... Similar structure to scrapeUfficioCameraleDirect but for informazione-aziende.it directly
         // Omitted for brevity, but assumes usage of FinancialPatterns.
         return {};
     }
 
-    private async googleSearchFinancialsByName(company: CompanyInput): Promise<{ revenue?: string; employees?: string }> {
+    private async googleSearchFinancialsByName(company: CompanyInput): Promise<SourceFinancials> {
         // Uses ScraperClient with FinancialPatterns
         // ... (Optimized version of original)
         return {};
     }
 
-    private async scrapeReportAziende(name: string, city?: string, vat?: string): Promise<{ revenue?: string; employees?: string } | null> {
+    private async scrapeReportAziende(name: string, city?: string, vat?: string): Promise<SourceFinancials | null> {
         // Optimizes the original scraper to use FinancialPatterns and Zod if needed (though scraping usually returns string)
         // ...
         return null;
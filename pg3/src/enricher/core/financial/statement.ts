@@ -0,0 +1,245 @@
+/**
+ * 📈 FINANCIAL STATEMENT
+ * Numeric financials per fiscal year: revenue, net income, EBITDA and personnel cost in euro
+ * cents, employees as a headcount. Each figure keeps its source and a confidence (the source
+ * trust of DataMerger, lowered for uncertain identity matches), so a metric + year reported by
+ * several sources resolves to the most trusted one.
+ *
+ * Figures come from the registry page (UfficioCamerale), the financial directories
+ * (FatturatoItalia, ReportAziende) and the IdentityResolver profile. Values without a fiscal
+ * year cannot be placed in the series and only live in the free-text `revenue` / `employees`.
+ */
+
+import { FinancialExportColumn, FinancialFigure, FinancialFigureRecord, FinancialMetric, FINANCIAL_METRICS } from '../../db/model';
+import { DataMerger, DataSource } from '../../utils/data_merger';
+import type { IdentityResult } from '../discovery/identity_resolver';
+import { FinancialPatterns } from './patterns';
+import { FinancialValue, parseFinancialValue } from './value_parser';
+
+export interface FigureOrigin {
+    source: DataSource;
+    confidence: number;
+    source_url?: string;
+    /** Fiscal year of the values whose label names none */
+    fiscal_year?: number;
+}
+
+export interface GrowthRate {
+    from_year: number;
+    to_year: number;
+    /** (to - from) / |from| */
+    rate: number;
+}
+
+/** Share of the source trust kept for each IdentityResolver match confidence */
+const IDENTITY_CONFIDENCE: Record<IdentityResult['confidence'], number> = { HIGH: 1, MEDIUM: 0.8, LOW: 0.6 };
+
+/** Share of the confidence kept for a rounded amount ("1,2 mln"): the exact one wins */
+const APPROXIMATE_CONFIDENCE = 0.9;
+
+const STATEMENT_LINES = (Object.entries(FinancialPatterns.STATEMENT) as Array<[FinancialMetric, string]>).map(([metric, label]) => ({
+    metric,
+    pattern: new RegExp(
+        `(?:^|[^\\p{L}])(${label})\\s*(?:\\(?\\s*(?:anno\\s*)?((?:19|20)\\d{2})(?!\\d)\\s*\\)?)?\\s*[:=]?\\s*(?:€|eur(?:o)?\\b)?\\s*` +
+        // Not the lower end of a range ("10-19", "1 – 2 milioni")
+        `(\\(?[-\\u2212]?\\s*\\d[\\d.,]*\\)?(?:\\s*(?:mln|milioni|mld|miliardi|mila|k)\\b)?)(?!\\d|\\s*[-\\u2013]\\s*\\d)`,
+        'giu'
+    ),
+}));
+
+export function figureConfidence(source: DataSource, factor: number = 1): number {
+    return Math.round(DataMerger.getTrustScore(source) * factor) / 100;
+}
+
+/**
+ * "€ 1.234.567", "-2.299.451", "(12.345) €", "1234567,89" -> euro cents; undefined when the
+ * text is not an exact euro amount (ranges, bounds, "1,2 mln", words).
+ */
+export function parseEuroCents(text: string): number | undefined {
+    const value = parseFinancialValue(text);
+    return value?.kind === 'exact' && value.currency === 'EUR' ? Math.round(value.estimate * 100) : undefined;
+}
+
+/**
+ * "15", "1.250" -> headcount; undefined for ranges, estimates and words.
+ */
+export function parseHeadcount(text: string): number | undefined {
+    const trimmed = text.trim();
+    return /^\d{1,3}(?:\.\d{3})+$|^\d+$/.test(trimmed) ? Number(trimmed.replace(/\./g, '')) : undefined;
+}
+
+export function parseFiscalYear(text: string | undefined): number | undefined {
+    const match = text?.match(FinancialPatterns.FISCAL_YEAR);
+    return match ? Number(match[1]) : undefined;
+}
+
+function figure(metric: FinancialMetric, raw: string, fiscalYear: number, origin: FigureOrigin): FinancialFigure | undefined {
+    // Sentence punctuation after the amount ("Dipendenti: 15.") is not part of it
+    const amount = raw.trim().replace(/[.,]+$/, '');
+    const base = { metric, fiscal_year: fiscalYear, source: origin.source, source_url: origin.source_url };
+    if (metric === 'employees') {
+        const headcount = parseHeadcount(amount);
+        return headcount === undefined ? undefined : { ...base, value: headcount, confidence: origin.confidence };
+    }
+    // A statement line holds one amount: ranges and bounds are not figures
+    const value = parseFinancialValue(amount);
+    if (!value || value.currency !== 'EUR' || (value.kind !== 'exact' && value.kind !== 'approximate')) {
+        return undefined;
+    }
+    const confidence = value.kind === 'approximate' ? Math.round(origin.confidence * APPROXIMATE_CONFIDENCE * 100) / 100 : origin.confidence;
+    return { ...base, value: Math.round(value.estimate * 100), confidence };
+}
+
+/**
+ * Figures of a page: every "<label> [year] [:] [€] <amount>" line ("Fatturato 2023: € 1.234.567",
+ * "Utile (2022) -12.000", "Ricavi 2021: 1,2 mln", "Dipendenti 15"). A loss label ("Perdita")
+ * makes the amount negative; a rounded amount keeps less confidence than an exact one.
+ */
+export function extractFinancialFigures(text: string, origin: FigureOrigin): FinancialFigure[] {
+    const figures: FinancialFigure[] = [];
+    for (const { metric, pattern } of STATEMENT_LINES) {
+        for (const match of text.matchAll(pattern)) {
+            const [, label, year, raw] = match;
+            // "Fatturato 2023" with no amount after it: the year is not the amount
+            if (!year && /^(?:19|20)\d{2}$/.test(raw.trim())) {
+                continue;
+            }
+            const fiscalYear = year ? Number(year) : origin.fiscal_year;
+            const found = fiscalYear ? figure(metric, raw, fiscalYear, origin) : undefined;
+            if (found) {
+                figures.push(/^perdit/i.test(label) && found.value > 0 ? { ...found, value: -found.value } : found);
+            }
+        }
+    }
+    return mergeFinancialFigures(figures);
+}
+
+/**
+ * Figures of an IdentityResolver profile (financial directory), dated by the profile's fiscal year.
+ */
+export function identityFinancialFigures(identity: IdentityResult | null | undefined): FinancialFigure[] {
+    const financials = identity?.financials;
+    const fiscalYear = Number(financials?.year) || undefined;
+    if (!identity || !financials || !fiscalYear) {
+        return [];
+    }
+    const origin: FigureOrigin = {
+        source: DataSource.FINANCIAL_DIRECTORY,
+        confidence: figureConfidence(DataSource.FINANCIAL_DIRECTORY, IDENTITY_CONFIDENCE[identity.confidence]),
+        source_url: identity.source_url,
+    };
+    const values: Array<[FinancialMetric, string | undefined]> = [
+        ['revenue', financials.revenue],
+        ['net_income', financials.profit],
+        ['ebitda', financials.ebitda],
+        ['personnel_cost', financials.personnel_cost],
+        ['employees', financials.employees],
+    ];
+    return values.flatMap(([metric, raw]) => {
+        const found = raw ? figure(metric, raw, fiscalYear, origin) : undefined;
+        return found ? [found] : [];
+    });
+}
+
+/**
+ * One figure per metric + fiscal year, the most confident (the first on ties), in metric
+ * then year order.
+ */
+export function mergeFinancialFigures(...lists: FinancialFigure[][]): FinancialFigure[] {
+    const best = new Map<string, FinancialFigure>();
+    for (const candidate of lists.flat()) {
+        const key = `${candidate.metric}:${candidate.fiscal_year}`;
+        const current = best.get(key);
+        if (!current || candidate.confidence > current.confidence) {
+            best.set(key, candidate);
+        }
+    }
+    return [...best.values()].sort((a, b) =>
+        FINANCIAL_METRICS.indexOf(a.metric) - FINANCIAL_METRICS.indexOf(b.metric) || a.fiscal_year - b.fiscal_year);
+}
+
+export function latestFigure(figures: FinancialFigure[], metric: FinancialMetric): FinancialFigure | undefined {
+    return figures
+        .filter((candidate) => candidate.metric === metric)
+        .reduce<FinancialFigure | undefined>((latest, candidate) => (!latest || candidate.fiscal_year > latest.fiscal_year ? candidate : latest), undefined);
+}
+
+/**
+ * Year-over-year growth of a metric, oldest first. Only consecutive fiscal years are compared,
+ * and a zero base year has no rate.
+ */
+export function growthRates(figures: FinancialFigure[], metric: FinancialMetric): GrowthRate[] {
+    const byYear = new Map(figures.filter((candidate) => candidate.metric === metric).map((candidate) => [candidate.fiscal_year, candidate.value]));
+    return [...byYear.keys()].sort((a, b) => a - b).flatMap((year) => {
+        const previous = byYear.get(year - 1);
+        if (previous === undefined || previous === 0) {
+            return [];
+        }
+        return [{ from_year: year - 1, to_year: year, rate: (byYear.get(year)! - previous) / Math.abs(previous) }];
+    });
+}
+
+function latestGrowthPct(figures: FinancialFigure[], metric: FinancialMetric): number | undefined {
+    const rates = growthRates(figures, metric);
+    const latest = latestFigure(figures, metric);
+    const rate = rates.length > 0 && rates[rates.length - 1].to_year === latest?.fiscal_year ? rates[rates.length - 1].rate : undefined;
+    return rate === undefined ? undefined : Math.round(rate * 1000) / 10;
+}
+
+function euros(figure: FinancialFigure | undefined): number | undefined {
+    return figure ? figure.value / 100 : undefined;
+}
+
+/**
+ * Revenue band of a company: its free-text revenue ("tra 2 e 5 milioni") when it reads as euros,
+ * else its latest revenue figure.
+ */
+function revenueBand(revenueText: string | undefined, latest: FinancialFigure | undefined): Pick<FinancialValue, 'min' | 'max' | 'estimate'> | undefined {
+    const parsed = parseFinancialValue(revenueText);
+    if (parsed?.currency === 'EUR') {
+        return parsed;
+    }
+    const value = euros(latest);
+    return value === undefined ? undefined : { min: value, max: value, estimate: value };
+}
+
+/**
+ * CSV export columns of a company: latest value per metric, latest growth, the revenue series
+ * and the revenue band (for filtering on numbers).
+ */
+export function financialExportValues(figures: FinancialFigure[], revenueText?: string): Record<FinancialExportColumn, string | number | undefined> {
+    const revenue = latestFigure(figures, 'revenue');
+    const band = revenueBand(revenueText, revenue);
+    return {
+        revenue_year: revenue?.fiscal_year,
+        revenue_eur: euros(revenue),
+        revenue_growth_pct: latestGrowthPct(figures, 'revenue'),
+        revenue_history: figures
+            .filter((candidate) => candidate.metric === 'revenue')
+            .sort((a, b) => a.fiscal_year - b.fiscal_year)
+            .map((candidate) => `${candidate.fiscal_year}: ${candidate.value / 100}`)
+            .join('; ') || undefined,
+        revenue_min_eur: band?.min,
+        revenue_max_eur: band?.max,
+        revenue_estimate_eur: band?.estimate,
+        net_income_eur: euros(latestFigure(figures, 'net_income')),
+        ebitda_eur: euros(latestFigure(figures, 'ebitda')),
+        personnel_cost_eur: euros(latestFigure(figures, 'personnel_cost')),
+        employees_count: latestFigure(figures, 'employees')?.value,
+        employees_growth_pct: latestGrowthPct(figures, 'employees'),
+    };
+}
+
+/**
+ * Export rows (with their `company_id` and `revenue`) completed with the financial columns of their company.
+ */
+export function withFinancialExportValues(rows: Array<Record<string, unknown>>, figures: FinancialFigureRecord[]): Array<Record<string, unknown>> {
+    const byCompany = new Map<string, FinancialFigure[]>();
+    for (const record of figures) {
+        byCompany.set(record.company_id, [...(byCompany.get(record.company_id) ?? []), record]);
+    }
+    return rows.map((row) => ({
+        ...row,
+        ...financialExportValues(byCompany.get(String(row.company_id)) ?? [], row.revenue == null ? undefined : String(row.revenue)),
+    }));
+}
@@ -0,0 +1,215 @@
+/**
+ * 🔢 FINANCIAL VALUE PARSER
+ * Turns the revenue strings of the registries, directories and SERP snippets into numbers:
+ *
+ *   "€ 1.500.000"            exact        1.500.000
+ *   "1,2 mln", "circa 500k"  approximate  1.200.000 / 500.000 (a unit or "circa" means rounded)
+ *   "$ 3 million"            approximate  3.000.000 USD (English scale words are units too)
+ *   "tra 2 e 5 milioni"      range        2.000.000 - 5.000.000, estimate 3.500.000
+ *   "< 500.000"              at_most      0 - 500.000, estimate 250.000
+ *   "oltre 50 milioni"       at_least     50.000.000 - open, estimate 50.000.000
+ *
+ * Amounts are in units of the currency (EUR unless the text names another one). Numbers may
+ * use Italian ("1.234.567,89") or English ("1,234,567.89") notation. A fiscal year in the text
+ * ("Fatturato 2023: ...", "(2022)", "al 31/12/2021") is returned next to the value.
+ *
+ * The parser reads one value: callers first isolate it (FinancialPatterns.REVENUE).
+ */
+
+export const CURRENCIES = ['EUR', 'USD', 'GBP', 'CHF'] as const;
+export type Currency = typeof CURRENCIES[number];
+
+export type FinancialValueKind = 'exact' | 'approximate' | 'range' | 'at_most' | 'at_least';
+
+export interface FinancialValue {
+    kind: FinancialValueKind;
+    /** Lower bound (0 for "meno di ...") */
+    min: number;
+    /** Upper bound; undefined for an open range ("oltre 50 milioni") */
+    max?: number;
+    /** The value itself, the midpoint of a bounded range, the lower bound of an open one */
+    estimate: number;
+    currency: Currency;
+    year?: number;
+}
+
+export interface ParseFinancialValueOptions {
+    /** Currency when the text names none (default EUR) */
+    currency?: Currency;
+    /** Fiscal year when the text names none */
+    year?: number;
+}
+
+const CURRENCY_TOKENS: Array<[RegExp, Currency]> = [
+    [/(?:\bdi\s+)?(?:€|\beur(?:o|i)?\b)/g, 'EUR'],
+    [/(?:\bdi\s+)?(?:\$|\busd\b|\bdollar[io]\b|\bdollars?\b)/g, 'USD'],
+    [/(?:\bdi\s+)?(?:£|\bgbp\b|\bsterlin[ae]\b)/g, 'GBP'],
+    [/(?:\bdi\s+)?(?:\bchf\b|\bfranchi(?: svizzeri)?\b)/g, 'CHF'],
+];
+
+const UNITS: Array<[RegExp, number]> = [
+    [/^(?:mld|mrd|bn|miliard[io]|billions?)$/, 1e9],
+    [/^(?:m|mln|mio|milion[ei]|millions?)$/, 1e6],
+    [/^(?:k|mila|migliaia|thousands?)$/, 1e3],
+];
+
+const UNIT = '(?:miliard[io]|billions?|mld|mrd|bn|milion[ei]|millions?|mln|mio|migliaia|mila|thousands?|m|k)';
+const AMOUNT = `(\\d[\\d.,]*)(?:\\s*(${UNIT})\\b)?`;
+
+/** dd/mm/yyyy: only the year is kept */
+const DATE = /\b\d{1,2}[/.-]\d{1,2}[/.-]((?:19|20)\d{2})\b/;
+
+/**
+ * A 19xx / 20xx token that is not an amount: not part of a number, not right after a currency,
+ * a bound or a range word, not followed by a unit, a currency or the other end of a range.
+ */
+const YEAR = new RegExp(
+    '\\(?\\s*(?<![\\d.,€$£]\\s?)(?<!\\b(?:tra|fra|da|e|a|di|oltre|circa|almeno)\\s+)(?<![<>~\\u2264\\u2265]\\s*)(?<!-\\s*)' +
+    `\\b((?:19|20)\\d{2})\\b\\s*\\)?(?![.,]?\\d)(?!\\s*(?:-\\s*\\d|\\+|€|\\$|£|eur|usd|gbp|chf|${UNIT}\\b))`
+);
+
+const APPROXIMATE = '(?:~|\\u2248|\\b(?:circa|ca\\.|intorno a(?:i|gli)?|quasi))';
+const AT_MOST = '(?:<=?|\\u2264|\\b(?:meno di|fino a|inferiore a|sotto(?: i| a)?|entro|max(?:imo)?\\.?))';
+const AT_LEAST = '(?:>=?|\\u2265|\\b(?:oltre|più di|piu di|superiore a|sopra(?: i)?|almeno|min(?:imo)?\\.?))';
+
+const FORMS: Array<{ kind: FinancialValueKind; pattern: RegExp }> = [
+    { kind: 'range', pattern: new RegExp(`\\b(?:tra|fra|da)\\s+${AMOUNT}\\s+(?:e|a)\\s+${AMOUNT}`) },
+    { kind: 'range', pattern: new RegExp(`${AMOUNT}\\s*-\\s*${AMOUNT}`) },
+    { kind: 'at_most', pattern: new RegExp(`${AT_MOST}\\s*${AMOUNT}`) },
+    { kind: 'at_least', pattern: new RegExp(`${AT_LEAST}\\s*${AMOUNT}`) },
+    { kind: 'at_least', pattern: new RegExp(`${AMOUNT}\\s*\\+`) },
+    { kind: 'approximate', pattern: new RegExp(`${APPROXIMATE}\\s*${AMOUNT}`) },
+];
+
+const SINGLE = new RegExp(`(\\(\\s*)?(-\\s*)?${AMOUNT}(\\s*\\))?`);
+
+/**
+ * Plain number in either Italian or English notation ("1.234.567,89", "1,234,567.89", "1.500").
+ * A single separator is a decimal one, except one followed by exactly three digits after at most
+ * three ("1.500", "2,000": thousands in either notation).
+ */
+export function parseItalianNumber(text: string): number | undefined {
+    if (!/^\d[\d.,]*$/.test(text)) {
+        return undefined;
+    }
+    const lastDot = text.lastIndexOf('.');
+    const lastComma = text.lastIndexOf(',');
+    let decimal: '.' | ',' | undefined;
+    if (lastDot >= 0 && lastComma >= 0) {
+        decimal = lastDot > lastComma ? '.' : ',';
+    } else if (lastComma >= 0) {
+        decimal = text.indexOf(',') === lastComma && !/^\d{1,3},\d{3}$/.test(text) ? ',' : undefined;
+    } else if (lastDot >= 0) {
+        decimal = text.indexOf('.') === lastDot && !/^\d{1,3}\.\d{3}$/.test(text) ? '.' : undefined;
+    }
+    const [integer, fraction = ''] = decimal ? [text.slice(0, text.lastIndexOf(decimal)), text.slice(text.lastIndexOf(decimal) + 1)] : [text, ''];
+    const value = Number(`${integer.replace(/[.,]/g, '')}.${fraction || '0'}`);
+    // "1.234,5.6": the decimal separator cannot also group thousands
+    const malformed = /[.,]/.test(fraction) || (decimal !== undefined && integer.includes(decimal));
+    return Number.isFinite(value) && !malformed ? value : undefined;
+}
+
+function multiplier(unit: string | undefined): number {
+    return unit ? UNITS.find(([pattern]) => pattern.test(unit))?.[1] ?? 1 : 1;
+}
+
+/** Rounded to cents: "1,15 mln" is 1.150.000, not 1.149.999,9999 */
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function amount(digits: string, unit: string | undefined): number | undefined {
+    // Sentence punctuation after the digits ("500.000.") is not part of them
+    const value = parseItalianNumber(digits.replace(/[.,]+$/, ''));
+    return value === undefined ? undefined : round(value * multiplier(unit));
+}
+
+function extractCurrency(text: string): { currency?: Currency; rest: string } {
+    let currency: Currency | undefined;
+    let rest = text;
+    for (const [pattern, code] of CURRENCY_TOKENS) {
+        if (pattern.test(rest)) {
+            currency = currency ?? code;
+        }
+        pattern.lastIndex = 0;
+        rest = rest.replace(pattern, ' ');
+    }
+    return { currency, rest };
+}
+
+function extractYear(text: string): { year?: number; rest: string } {
+    const date = text.match(DATE);
+    if (date) {
+        return { year: Number(date[1]), rest: text.replace(DATE, ' ') };
+    }
+    const year = text.match(YEAR);
+    return year ? { year: Number(year[1]), rest: text.replace(YEAR, ' ') } : { rest: text };
+}
+
+function bounded(kind: FinancialValueKind, low: number, high: number | undefined): Pick<FinancialValue, 'kind' | 'min' | 'max' | 'estimate'> {
+    if (kind === 'at_most') {
+        return { kind, min: 0, max: low, estimate: round(low / 2) };
+    }
+    if (kind === 'at_least') {
+        return { kind, min: low, estimate: low };
+    }
+    if (kind === 'range' && high !== undefined) {
+        const [min, max] = low <= high ? [low, high] : [high, low];
+        return min === max ? { kind: 'exact', min, max, estimate: min } : { kind, min, max, estimate: round((min + max) / 2) };
+    }
+    return { kind, min: low, max: low, estimate: low };
+}
+
+function parseRange(match: RegExpMatchArray): Pick<FinancialValue, 'kind' | 'min' | 'max' | 'estimate'> | undefined {
+    const [, lowDigits, lowUnit, highDigits, highUnit] = match;
+    const high = amount(highDigits, highUnit);
+    // "tra 2 e 5 milioni": the unit of the upper end also applies to a bare lower end below it,
+    // but not to "tra 500.000 e 1 milione"
+    const inherits = !lowUnit && highUnit !== undefined && (amount(lowDigits, undefined) ?? Infinity) <= (amount(highDigits, undefined) ?? 0);
+    const low = amount(lowDigits, inherits ? highUnit : lowUnit);
+    return low === undefined || high === undefined ? undefined : bounded('range', low, high);
+}
+
+/**
+ * Parse one financial value; undefined when the text holds no amount ("n.d.", "non disponibile").
+ */
+export function parseFinancialValue(text: string | undefined, options: ParseFinancialValueOptions = {}): FinancialValue | undefined {
+    if (!text) {
+        return undefined;
+    }
+    const normalized = text
+        .toLowerCase()
+        .replace(/\s+/g, ' ')
+        .replace(/\u2212/g, '-')
+        .replace(/\s*[\u2013\u2014]\s*/g, ' - ');
+    const { year, rest: withoutYear } = extractYear(normalized);
+    const { currency, rest } = extractCurrency(withoutYear);
+    const context = { currency: currency ?? options.currency ?? 'EUR', year: year ?? options.year };
+
+    for (const { kind, pattern } of FORMS) {
+        const match = rest.match(pattern);
+        if (!match) {
+            continue;
+        }
+        if (kind === 'range') {
+            const range = parseRange(match);
+            if (range) {
+                return { ...range, ...context };
+            }
+            continue;
+        }
+        const value = amount(match[1], match[2]);
+        if (value !== undefined) {
+            return { ...bounded(kind, value, undefined), ...context };
+        }
+    }
+
+    const single = rest.match(SINGLE);
+    const value = single ? amount(single[3], single[4]) : undefined;
+    if (!single || value === undefined) {
+        return undefined;
+    }
+    const negative = Boolean(single[2]) !== Boolean(single[1] && single[5]);
+    const signed = negative ? -value : value;
+    return { ...bounded(single[4] ? 'approximate' : 'exact', signed, undefined), ...context };
+}
@@ -0,0 +1,210 @@
+/**
+ * 🕸️ EVIDENCE CRAWLER
+ * The VAT number and phone of an Italian SMB often sit only on "Contatti", "Chi siamo",
+ * "Privacy" or "Note legali" pages. The crawler picks those pages of the site being verified
+ * from the homepage links (and sitemap.xml when the links are not enough), ranked by how
+ * likely they are to carry legal identifiers, and fetches them under a per-domain page budget
+ * (DISCOVERY_CRAWL_MAX_PAGES_PER_DOMAIN), stopping as soon as the caller is satisfied.
+ *
+ * Fetching is injected: deep verification crawls with its browser page, the HTTP fallback
+ * with ScraperClient. Only pages of the same site (www. ignored) are followed.
+ */
+
+import * as cheerio from 'cheerio';
+import { config } from '../../config';
+import { Logger } from '../../utils/logger';
+import { ScraperClient } from '../../utils/scraper_client';
+import { PageText } from '../discovery/company_matcher';
+
+export interface EvidenceLink {
+    href: string;
+    text: string;
+}
+
+export type EvidencePageFetcher = (url: string) => Promise<string | null>;
+
+export interface EvidenceCrawlOptions {
+    /** Pages fetched besides the homepage (default DISCOVERY_CRAWL_MAX_PAGES_PER_DOMAIN) */
+    maxPages?: number;
+    /** Look for pages in sitemap.xml (default DISCOVERY_CRAWL_SITEMAP) */
+    sitemap?: boolean;
+    /** Sitemap download (default: direct HTTP through ScraperClient) */
+    fetchSitemap?: (url: string) => Promise<string | null>;
+    /** Called after each fetched page with everything fetched so far; true stops the crawl */
+    isSatisfied?: (pages: PageText[]) => boolean;
+}
+
+/** Sitemap files read per site (an index and one of its sitemaps) */
+const MAX_SITEMAP_FILES = 2;
+
+/**
+ * Keywords of the pages worth fetching, most likely to carry the VAT / phone first.
+ * Matched against the link path and the link text.
+ */
+const EVIDENCE_KEYWORDS: Array<{ priority: number; path: string[]; text: string[] }> = [
+    { priority: 5, path: ['note-legali', 'notelegali', 'dati-societari', 'impressum', 'legal'], text: ['note legali', 'dati societari', 'impressum'] },
+    { priority: 4, path: ['contatt', 'contact'], text: ['contatt', 'contact'] },
+    { priority: 3, path: ['privacy'], text: ['privacy'] },
+    { priority: 2, path: ['chi-siamo', 'chisiamo', 'about', 'azienda'], text: ['chi siamo', 'about', 'azienda'] },
+    { priority: 1, path: ['dove-siamo', 'dovesiamo', 'cookie'], text: ['dove siamo', 'cookie'] },
+];
+
+const stripWww = (host: string) => host.replace(/^www\./, '').toLowerCase();
+
+/**
+ * How likely a page is to carry legal identifiers (0: not an evidence page).
+ */
+export function evidencePagePriority(url: string, linkText: string = ''): number {
+    let path: string;
+    try {
+        const parsed = new URL(url);
+        path = `${parsed.pathname}${parsed.search}`.toLowerCase();
+    } catch {
+        return 0;
+    }
+    const text = linkText.toLowerCase();
+    for (const group of EVIDENCE_KEYWORDS) {
+        if (group.path.some((keyword) => path.includes(keyword)) || group.text.some((keyword) => text.includes(keyword))) {
+            return group.priority;
+        }
+    }
+    return 0;
+}
+
+/**
+ * Evidence pages of the site at `baseUrl`, best first (shallower paths first on ties).
+ * Links to other hosts, the homepage itself and fragments of one page are dropped.
+ */
+export function selectEvidencePages(links: EvidenceLink[], baseUrl: string): string[] {
+    let baseHost: string;
+    let basePath: string;
+    try {
+        const base = new URL(baseUrl);
+        baseHost = stripWww(base.hostname);
+        basePath = base.pathname.replace(/\/+$/, '');
+    } catch {
+        return [];
+    }
+
+    const ranked = new Map<string, { priority: number; depth: number }>();
+    for (const link of links) {
+        let url: URL;
+        try {
+            url = new URL(link.href, baseUrl);
+        } catch {
+            continue;
+        }
+        if (!/^https?:$/.test(url.protocol) || stripWww(url.hostname) !== baseHost || url.pathname.replace(/\/+$/, '') === basePath) {
+            continue;
+        }
+        url.hash = '';
+        const href = url.toString();
+        const priority = evidencePagePriority(href, link.text);
+        if (priority > (ranked.get(href)?.priority ?? 0)) {
+            ranked.set(href, { priority, depth: url.pathname.split('/').filter(Boolean).length });
+        }
+    }
+
+    return Array.from(ranked.entries())
+        .sort(([, a], [, b]) => b.priority - a.priority || a.depth - b.depth)
+        .map(([href]) => href);
+}
+
+/**
+ * `<loc>` entries of a sitemap: page URLs of a urlset, sitemap URLs of a sitemapindex.
+ */
+export function parseSitemap(xml: string): { pages: string[]; sitemaps: string[] } {
+    const $ = cheerio.load(xml, { xmlMode: true });
+    const locs = (selector: string) => $(selector).toArray().map((element) => $(element).text().trim()).filter(Boolean);
+    return { pages: locs('urlset > url > loc'), sitemaps: locs('sitemapindex > sitemap > loc') };
+}
+
+/**
+ * Visible text and links of an HTML page (the HTTP fetch path has no browser to ask).
+ */
+export function extractHtmlEvidence(html: string, baseUrl: string): { text: string; links: EvidenceLink[] } {
+    const $ = cheerio.load(html);
+    const links = $('a[href]').toArray().slice(0, 220).flatMap((element) => {
+        try {
+            return [{ href: new URL($(element).attr('href')!, baseUrl).toString(), text: $(element).text().trim().toLowerCase() }];
+        } catch {
+            return [];
+        }
+    });
+    $('script, style, noscript').remove();
+    return { text: ($('body').text() || '').replace(/\s+/g, ' ').trim(), links };
+}
+
+async function defaultFetchSitemap(url: string): Promise<string | null> {
+    const response = await ScraperClient.fetchHtml(url, { mode: 'direct', timeoutMs: 8000, maxRetries: 0 });
+    return response.status === 200 && typeof response.data === 'string' ? response.data : null;
+}
+
+/**
+ * Whether the URL is http(s) on the same host as the site (www-insensitive).
+ */
+function isSameHost(href: string, baseHost: string): boolean {
+    try {
+        const url = new URL(href);
+        return /^https?:$/.test(url.protocol) && stripWww(url.hostname) === baseHost;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Evidence pages listed in the site's sitemap.xml (following an index one level down).
+ * Child sitemaps on another host are skipped: an index must not make us fetch arbitrary URLs.
+ */
+async function sitemapEvidencePages(baseUrl: string, fetchSitemap: (url: string) => Promise<string | null>): Promise<string[]> {
+    const baseHost = stripWww(new URL(baseUrl).hostname);
+    const queue = [new URL('/sitemap.xml', baseUrl).toString()];
+    const links: EvidenceLink[] = [];
+    for (let files = 0; files < MAX_SITEMAP_FILES && queue.length > 0; files++) {
+        const xml = await fetchSitemap(queue.shift()!).catch(() => null);
+        if (!xml) {
+            continue;
+        }
+        const { pages, sitemaps } = parseSitemap(xml);
+        links.push(...pages.map((href) => ({ href, text: '' })));
+        // Page sitemaps of an index first (post / product sitemaps rarely list legal pages)
+        const sameHost = sitemaps.filter((sitemap) => isSameHost(sitemap, baseHost));
+        queue.push(...sameHost.sort((a, b) => Number(/page/i.test(b)) - Number(/page/i.test(a))));
+    }
+    return selectEvidencePages(links, baseUrl);
+}
+
+/**
+ * Fetch the evidence pages of a site whose homepage is already loaded. Returns the homepage
+ * followed by every page fetched with text, in fetch order.
+ */
+export async function crawlEvidencePages(
+    homepage: PageText & { links: EvidenceLink[] },
+    fetchPage: EvidencePageFetcher,
+    options: EvidenceCrawlOptions = {}
+): Promise<PageText[]> {
+    const maxPages = options.maxPages ?? config.discovery.crawl.maxPagesPerDomain;
+    const pages: PageText[] = [{ url: homepage.url, text: homepage.text }];
+    if (maxPages <= 0) {
+        return pages;
+    }
+
+    let targets = selectEvidencePages(homepage.links, homepage.url);
+    if (targets.length < maxPages && (options.sitemap ?? config.discovery.crawl.sitemap)) {
+        const fromSitemap = await sitemapEvidencePages(homepage.url, options.fetchSitemap ?? defaultFetchSitemap);
+        targets = [...new Set([...targets, ...fromSitemap])];
+    }
+
+    for (const url of targets.slice(0, maxPages)) {
+        const text = await fetchPage(url).catch(() => null);
+        if (!text) {
+            continue;
+        }
+        pages.push({ url, text });
+        if (options.isSatisfied?.(pages)) {
+            break;
+        }
+    }
+    Logger.debug(`[EvidenceCrawler] ${homepage.url}: ${pages.length - 1}/${targets.length} evidence pages fetched`);
+    return pages;
+}
@@ -0,0 +1,189 @@
+/**
+ * 🧮 EVIDENCE SCORING
+ * The deterministic part of website verification: CompanyMatcher over the fetched pages, the
+ * schema.org adjustments, the foreign-language penalty and the title boost. Live verification
+ * and `verification-replay` (archived snapshots, no network) share it, so a scoring change
+ * measured offline is the change that ships. LLM and agent fallbacks are not part of it.
+ */
+
+import * as cheerio from 'cheerio';
+import { CompanyInput } from '../../types';
+import { CompanyMatcher, MatchEvaluation, PageText } from '../discovery/company_matcher';
+import { ContentFilter } from '../discovery/content_filter';
+
+export interface SchemaOrgSignals {
+    vatMatch: boolean;
+    phoneMatch: boolean;
+    urlMatch: boolean;
+    foundVat?: string;
+    foundPhone?: string;
+    foundUrl?: string;
+}
+
+export interface VerificationEvidence {
+    /** Final URL of the candidate (after redirects) */
+    url: string;
+    title: string;
+    /** Homepage first, then the evidence pages crawled */
+    pages: PageText[];
+    /** schema.org signals of the homepage HTML (none on the Jina path) */
+    schemaSignals?: SchemaOrgSignals;
+    /** Boost pages whose <title> carries the company name (browser path) */
+    titleBoost?: boolean;
+}
+
+export function extractSchemaOrgSignals(html: string, company: CompanyInput, currentUrl: string): SchemaOrgSignals {
+    const targetVat = `${company.vat_code || (company as any).vat || (company as any).piva || ''}`.replace(/\D/g, '');
+    const targetPhone = CompanyMatcher.normalizePhone(company.phone);
+    let foundVat: string | undefined;
+    let foundPhone: string | undefined;
+    let foundUrl: string | undefined;
+
+    try {
+        const $ = cheerio.load(html);
+        const scripts = $('script[type="application/ld+json"]').toArray();
+        const currentHost = new URL(currentUrl).hostname.replace(/^www\./, '').toLowerCase();
+
+        const pushNode = (bucket: any[], node: any) => {
+            if (!node || typeof node !== 'object') return;
+            if (Array.isArray(node)) {
+                node.forEach((n) => pushNode(bucket, n));
+                return;
+            }
+            bucket.push(node);
+            if (Array.isArray(node['@graph'])) {
+                node['@graph'].forEach((n: any) => pushNode(bucket, n));
+            }
+        };
+
+        for (const script of scripts) {
+            const raw = $(script).text().trim();
+            if (!raw) continue;
+            let parsed: any;
+            try {
+                parsed = JSON.parse(raw);
+            } catch {
+                continue;
+            }
+
+            const nodes: any[] = [];
+            pushNode(nodes, parsed);
+            for (const node of nodes) {
+                const rawType = node?.['@type'];
+                const types = Array.isArray(rawType) ? rawType : [rawType];
+                const isBusinessNode = types.some((t) =>
+                    typeof t === 'string' &&
+                    (t.toLowerCase().includes('organization') ||
+                        t.toLowerCase().includes('localbusiness') ||
+                        t.toLowerCase().includes('corporation'))
+                );
+                if (!isBusinessNode) continue;
+
+                const nodeUrl = typeof node.url === 'string' ? node.url : '';
+                if (nodeUrl) {
+                    try {
+                        const host = new URL(nodeUrl).hostname.replace(/^www\./, '').toLowerCase();
+                        if (host === currentHost) {
+                            foundUrl = nodeUrl;
+                        }
+                    } catch {
+                        // ignore malformed url
+                    }
+                }
+
+                const rawPhone = Array.isArray(node.telephone) ? node.telephone[0] : node.telephone;
+                if (typeof rawPhone === 'string') {
+                    const normalized = CompanyMatcher.normalizePhone(rawPhone);
+                    if (normalized) foundPhone = normalized;
+                }
+
+                const vatCandidates: string[] = [];
+                if (typeof node.vatID === 'string') vatCandidates.push(node.vatID);
+                if (typeof node.taxID === 'string') vatCandidates.push(node.taxID);
+                const identifier = node.identifier;
+                if (typeof identifier === 'string') vatCandidates.push(identifier);
+                if (Array.isArray(identifier)) {
+                    identifier.forEach((id) => {
+                        if (typeof id === 'string') vatCandidates.push(id);
+                        if (id && typeof id === 'object' && typeof id.value === 'string') vatCandidates.push(id.value);
+                    });
+                }
+                if (identifier && typeof identifier === 'object' && typeof identifier.value === 'string') {
+                    vatCandidates.push(identifier.value);
+                }
+
+                for (const candidateVat of vatCandidates) {
+                    const digits = candidateVat.replace(/\D/g, '');
+                    if (digits.length === 11) {
+                        foundVat = digits;
+                        break;
+                    }
+                }
+            }
+        }
+    } catch {
+        // ignore schema parsing errors
+    }
+
+    const vatMatch = !!targetVat && !!foundVat && foundVat === targetVat;
+    const phoneMatch = !!targetPhone && !!foundPhone && (
+        targetPhone.endsWith(foundPhone) || foundPhone.endsWith(targetPhone)
+    );
+    const urlMatch = !!foundUrl;
+
+    return { vatMatch, phoneMatch, urlMatch, foundVat, foundPhone, foundUrl };
+}
+
+/**
+ * Rule-based confidence of a candidate from the evidence fetched for it.
+ */
+export function scoreVerificationEvidence(company: CompanyInput, evidence: VerificationEvidence): MatchEvaluation {
+    const { url, title, pages, schemaSignals } = evidence;
+    let evaluation = pages.length > 1
+        ? CompanyMatcher.evaluatePages(company, url, pages, title)
+        : CompanyMatcher.evaluate(company, url, pages[0]?.text ?? '', title);
+
+    if (schemaSignals?.vatMatch) {
+        evaluation = {
+            ...evaluation,
+            confidence: Math.max(evaluation.confidence, 0.99),
+            scrapedVat: schemaSignals.foundVat || evaluation.scrapedVat,
+            reason: `${evaluation.reason}, schema.org vat match`,
+        };
+    } else if (schemaSignals?.phoneMatch) {
+        evaluation = {
+            ...evaluation,
+            confidence: Math.min(0.99, evaluation.confidence + 0.1),
+            reason: `${evaluation.reason}, schema.org phone match`,
+        };
+    } else if (schemaSignals?.urlMatch) {
+        evaluation = {
+            ...evaluation,
+            confidence: Math.min(0.99, evaluation.confidence + 0.05),
+            reason: `${evaluation.reason}, schema.org url match`,
+        };
+    }
+
+    const appearsItalian = ContentFilter.isItalianLanguage(pages.map((page) => page.text).join('\n'));
+    if (!appearsItalian && evaluation.confidence < 0.9) {
+        evaluation = {
+            ...evaluation,
+            confidence: Math.max(0, evaluation.confidence - 0.03),
+            reason: `${evaluation.reason}, foreign language`,
+        };
+    }
+
+    // TITLE BOOST: If the page <title> contains the company name, boost confidence
+    if (evidence.titleBoost) {
+        const titleNameCoverage = CompanyMatcher.nameCoverage(company.company_name, title.toLowerCase());
+        if (titleNameCoverage >= 0.6 && evaluation.confidence < 0.85) {
+            evaluation = {
+                ...evaluation,
+                confidence: Math.min(0.99, evaluation.confidence + 0.10),
+                reason: `${evaluation.reason}, title match boost`,
+            };
+        }
+    }
+
+    return evaluation;
+}
@@ -0,0 +1,155 @@
+/**
+ * 🔁 VERIFICATION REPLAY
+ * Rescores archived verification snapshots (./snapshot_store.ts) with the current scoring rules
+ * (./evidence_scoring.ts) and no network, against labels saying whether each candidate really
+ * is the company website. Precision and recall per threshold show what a CompanyMatcher or
+ * DISCOVERY_THRESHOLD_* change does before it runs against live sites.
+ *
+ * Labels are JSONL, one `{"snapshot": "<id>", "match": true | false | null}` per line
+ * (`verification-replay list --out=FILE` writes one line per snapshot with `match: null`;
+ * unlabeled lines are skipped).
+ */
+
+import { z } from 'zod';
+import { config } from '../../config';
+import { ValidationError } from '../../../utils/errors';
+import { MatchEvaluation } from '../discovery/company_matcher';
+import { extractSchemaOrgSignals, scoreVerificationEvidence } from './evidence_scoring';
+import { loadVerificationSnapshot, VerificationSnapshot } from './snapshot_store';
+
+const SnapshotLabelSchema = z.object({
+    snapshot: z.string().min(1),
+    match: z.boolean().nullable(),
+});
+
+export type SnapshotLabel = z.infer<typeof SnapshotLabelSchema>;
+
+export interface ReplayedSnapshot {
+    snapshot: string;
+    company_name: string;
+    final_url: string;
+    match: boolean;
+    /** Confidence of the live verification (LLM / agent fallbacks included) */
+    live_confidence: number;
+    /** Rule-based confidence with the current scoring */
+    confidence: number;
+    reason: string;
+}
+
+export interface ThresholdMetrics {
+    threshold: number;
+    true_positives: number;
+    false_positives: number;
+    false_negatives: number;
+    true_negatives: number;
+    /** 0 when nothing is accepted */
+    precision: number;
+    /** 0 without labeled matches */
+    recall: number;
+}
+
+export interface ReplayReport {
+    /** Labeled snapshots replayed */
+    replayed: number;
+    /** Labeled ids missing from the archive */
+    missing: string[];
+    thresholds: ThresholdMetrics[];
+    results: ReplayedSnapshot[];
+}
+
+/**
+ * 0.30 to 0.95 in steps of 0.05, plus the configured DISCOVERY_THRESHOLD_* values.
+ */
+export function defaultReplayThresholds(): number[] {
+    const { wave1, wave2, wave3, minValid } = config.discovery.thresholds;
+    const grid = Array.from({ length: 14 }, (_, step) => 0.3 + step * 0.05);
+    return [...new Set([...grid, wave1, wave2, wave3, minValid].map((value) => Math.round(value * 100) / 100))].sort((a, b) => a - b);
+}
+
+export function parseSnapshotLabels(content: string): SnapshotLabel[] {
+    return content.split('\n').flatMap((line, index) => {
+        if (!line.trim()) {
+            return [];
+        }
+        let raw: unknown;
+        try {
+            raw = JSON.parse(line);
+        } catch {
+            throw new ValidationError(`Invalid label on line ${index + 1}: not JSON`);
+        }
+        const parsed = SnapshotLabelSchema.safeParse(raw);
+        if (!parsed.success) {
+            const issues = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+            throw new ValidationError(`Invalid label on line ${index + 1}: ${issues}`);
+        }
+        return [parsed.data];
+    });
+}
+
+/**
+ * Score a snapshot again, with the rules of the path that fetched it.
+ */
+export function replaySnapshot(snapshot: VerificationSnapshot): MatchEvaluation {
+    return scoreVerificationEvidence(snapshot.company, {
+        url: snapshot.final_url,
+        title: snapshot.title,
+        pages: snapshot.pages,
+        schemaSignals: snapshot.html !== undefined ? extractSchemaOrgSignals(snapshot.html, snapshot.company, snapshot.final_url) : undefined,
+        titleBoost: snapshot.via === 'browser',
+    });
+}
+
+export function thresholdMetrics(results: Array<Pick<ReplayedSnapshot, 'match' | 'confidence'>>, threshold: number): ThresholdMetrics {
+    const metrics = { threshold, true_positives: 0, false_positives: 0, false_negatives: 0, true_negatives: 0 };
+    for (const result of results) {
+        const accepted = result.confidence >= threshold;
+        if (accepted) {
+            metrics[result.match ? 'true_positives' : 'false_positives']++;
+        } else {
+            metrics[result.match ? 'false_negatives' : 'true_negatives']++;
+        }
+    }
+    const accepted = metrics.true_positives + metrics.false_positives;
+    const matches = metrics.true_positives + metrics.false_negatives;
+    return {
+        ...metrics,
+        precision: accepted > 0 ? metrics.true_positives / accepted : 0,
+        recall: matches > 0 ? metrics.true_positives / matches : 0,
+    };
+}
+
+export function replayVerification(
+    labels: SnapshotLabel[],
+    options: { dir?: string; thresholds?: number[] } = {}
+): ReplayReport {
+    const results: ReplayedSnapshot[] = [];
+    const missing: string[] = [];
+    for (const label of labels) {
+        if (label.match === null) {
+            continue;
+        }
+        const snapshot = loadVerificationSnapshot(label.snapshot, options.dir);
+        if (!snapshot) {
+            missing.push(label.snapshot);
+            continue;
+        }
+        const evaluation = replaySnapshot(snapshot);
+        results.push({
+            snapshot: snapshot.id,
+            company_name: snapshot.company.company_name,
+            final_url: snapshot.final_url,
+            match: label.match,
+            live_confidence: snapshot.live.confidence,
+            confidence: evaluation.confidence,
+            reason: evaluation.reason,
+        });
+    }
+
+    const thresholds = options.thresholds ?? defaultReplayThresholds();
+    return {
+        replayed: results.length,
+        missing,
+        thresholds: thresholds.map((threshold) => thresholdMetrics(results, threshold)),
+        results,
+    };
+}
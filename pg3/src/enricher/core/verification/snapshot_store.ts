@@ -0,0 +1,149 @@
+/**
+ * 🗄️ VERIFICATION SNAPSHOTS
+ * With VERIFICATION_SNAPSHOTS_ENABLED, every verification that reaches scoring archives what it
+ * scored: the company input, the homepage HTML and title, and the text of each page read (browser
+ * or HTTP text, or the Jina markdown), under VERIFICATION_SNAPSHOT_DIR:
+ *
+ *   blobs/<ab>/<sha256>.gz   page contents, stored once per distinct content
+ *   snapshots/<id>.json      manifest pointing at the blobs; the id hashes the evidence, so an
+ *                            unchanged site verified again for the same company rewrites it
+ *
+ * `verification-replay` rescores the snapshots offline (./replay.ts). Archiving never fails a
+ * verification: write errors are logged and dropped.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { config } from '../../config';
+import { CompanyInput } from '../../types';
+import { Logger } from '../../utils/logger';
+import { PageText } from '../discovery/company_matcher';
+
+export const VERIFICATION_SNAPSHOT_VERSION = 1;
+
+/** How the candidate was fetched (decides which scoring rules apply on replay) */
+export type SnapshotVia = 'browser' | 'http' | 'jina';
+
+export interface NewVerificationSnapshot {
+    company: CompanyInput;
+    /** Candidate URL as verified (before redirects) */
+    candidate_url: string;
+    final_url: string;
+    via: SnapshotVia;
+    title: string;
+    /** Homepage HTML (none on the Jina path) */
+    html?: string;
+    /** Homepage first, then the evidence pages crawled */
+    pages: PageText[];
+    /** What live verification decided, LLM / agent fallbacks included */
+    live: { confidence: number; reason_code?: string };
+}
+
+export interface VerificationSnapshot extends NewVerificationSnapshot {
+    id: string;
+    captured_at: string;
+}
+
+export interface VerificationSnapshotManifest extends Omit<VerificationSnapshot, 'html' | 'pages'> {
+    version: typeof VERIFICATION_SNAPSHOT_VERSION;
+    html_blob?: string;
+    pages: Array<{ url: string; text_blob: string }>;
+}
+
+function sha256(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+function blobPath(dir: string, hash: string): string {
+    return path.join(dir, 'blobs', hash.slice(0, 2), `${hash}.gz`);
+}
+
+function manifestPath(dir: string, id: string): string {
+    return path.join(dir, 'snapshots', `${id}.json`);
+}
+
+function writeBlob(dir: string, content: string): string {
+    const hash = sha256(content);
+    const filePath = blobPath(dir, hash);
+    if (!fs.existsSync(filePath)) {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, zlib.gzipSync(content));
+    }
+    return hash;
+}
+
+function readBlob(dir: string, hash: string): string {
+    return zlib.gunzipSync(fs.readFileSync(blobPath(dir, hash))).toString('utf-8');
+}
+
+/**
+ * Archive a verification; returns the snapshot id.
+ */
+export function saveVerificationSnapshot(
+    snapshot: NewVerificationSnapshot,
+    dir: string = config.discovery.snapshots.dir,
+    now: Date = new Date()
+): string {
+    const { html, pages, ...rest } = snapshot;
+    const html_blob = html !== undefined ? writeBlob(dir, html) : undefined;
+    const pageBlobs = pages.map((page) => ({ url: page.url, text_blob: writeBlob(dir, page.text) }));
+    const id = sha256(JSON.stringify([snapshot.company, snapshot.candidate_url, snapshot.final_url, snapshot.via, snapshot.title, html_blob, pageBlobs]));
+
+    const manifest: VerificationSnapshotManifest = {
+        version: VERIFICATION_SNAPSHOT_VERSION,
+        id,
+        captured_at: now.toISOString(),
+        ...rest,
+        html_blob,
+        pages: pageBlobs,
+    };
+    fs.mkdirSync(path.dirname(manifestPath(dir, id)), { recursive: true });
+    fs.writeFileSync(manifestPath(dir, id), `${JSON.stringify(manifest, null, 2)}\n`);
+    return id;
+}
+
+/**
+ * Archive a verification when VERIFICATION_SNAPSHOTS_ENABLED (undefined when off or on error).
+ */
+export function archiveVerificationSnapshot(snapshot: NewVerificationSnapshot): string | undefined {
+    if (!config.discovery.snapshots.enabled) {
+        return undefined;
+    }
+    try {
+        return saveVerificationSnapshot(snapshot);
+    } catch (error) {
+        Logger.warn(`[VerificationSnapshots] Failed to archive ${snapshot.final_url}`, { error: error as Error });
+        return undefined;
+    }
+}
+
+/**
+ * Manifests of every archived snapshot, oldest first.
+ */
+export function listVerificationSnapshots(dir: string = config.discovery.snapshots.dir): VerificationSnapshotManifest[] {
+    const snapshotsDir = path.join(dir, 'snapshots');
+    if (!fs.existsSync(snapshotsDir)) {
+        return [];
+    }
+    return fs.readdirSync(snapshotsDir)
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => JSON.parse(fs.readFileSync(path.join(snapshotsDir, file), 'utf-8')) as VerificationSnapshotManifest)
+        .sort((a, b) => a.captured_at.localeCompare(b.captured_at) || a.id.localeCompare(b.id));
+}
+
+/**
+ * A snapshot with its contents, or null when it is not in the archive.
+ */
+export function loadVerificationSnapshot(id: string, dir: string = config.discovery.snapshots.dir): VerificationSnapshot | null {
+    if (!/^[0-9a-f]{64}$/.test(id) || !fs.existsSync(manifestPath(dir, id))) {
+        return null;
+    }
+    const { version: _version, html_blob, pages, ...rest } = JSON.parse(fs.readFileSync(manifestPath(dir, id), 'utf-8')) as VerificationSnapshotManifest;
+    return {
+        ...rest,
+        html: html_blob ? readBlob(dir, html_blob) : undefined,
+        pages: pages.map((page) => ({ url: page.url, text: readBlob(dir, page.text_blob) })),
+    };
+}
@@ -6,13 +6,101 @@
  * - companies: Raw input data
  * - enrichment_results: Enriched data with audit trail
  * - job_log: Processing history
+ * - stage_results: Intermediate output of each pipeline stage
+ * - runs: One row per scheduler run (campaign) with status and counters
+ * - jobs / job_events / job_artifacts: API jobs (scrape + enrich) with their logs and output files
+ * - tenants / api_keys / tenant_usage: API tenants, hashed keys and daily quota usage
+ *   (companies, runs and jobs carry a nullable tenant_id; NULL = operator / CLI data)
+ * - webhook_subscriptions / webhook_deliveries: outbound webhooks and their delivery log
+ * - discovery_traces: structured trace of each discovery decision
+ * - serp_cache / serp_cache_usage: cached search provider answers and daily hit / miss counters
+ * - ground_truth_labels / benchmark_runs / benchmark_results: labeled websites and accuracy benchmarks
+ * - financial_figures: numeric financials per company, metric and fiscal year with source + confidence
+ * - enrichment_versions: Append-only field history with source + confidence;
+ *   enrichment_results is the "current view" materialized from it
+ *
+ * Schema changes live in ./migrations.ts (tracked in `schema_migrations`).
+ * Application code goes through the ResultStore (./result_store.ts); this module is its SQLite backend.
  */
 
 import Database from 'better-sqlite3';
 import * as path from 'path';
 import * as fs from 'fs';
 import { Logger } from '../utils/logger';
+import { DataSource } from '../utils/data_merger';
 import { config } from '../config';
+import { getMigrationStatus, Migration, MigrationStatus, runMigrations } from './migrations';
+import {
+    Company,
+    DatabaseStats,
+    DiscoveryTraceQuery,
+    DiscoveryTraceRecord,
+    NewDiscoveryTrace,
+    EnrichmentFieldChange,
+    EnrichmentProvenance,
+    EnrichmentResult,
+    EnrichmentSnapshot,
+    EnrichmentVersion,
+    FinancialFigure,
+    FinancialFigureRecord,
+    JobArtifact,
+    JobEvent,
+    JobEventLevel,
+    JobFailure,
+    JobRecord,
+    JobStatus,
+    JobTaskOutcome,
+    NewApiKey,
+    NewJob,
+    NewJobArtifact,
+    NewRun,
+    NewTenant,
+    ApiKeyRecord,
+    RunRecord,
+    RunStatus,
+    TenantQuotas,
+    TenantRecord,
+    TenantUsage,
+    NewWebhookDelivery,
+    NewWebhookSubscription,
+    RecentDiscoveryTraceQuery,
+    NewSerpCacheEntry,
+    BenchmarkResult,
+    BenchmarkRunRecord,
+    GroundTruthLabel,
+    GroundTruthLabelRecord,
+    NewBenchmarkRun,
+    SerpCacheEntry,
+    SerpCacheFilter,
+    SerpCacheUsage,
+    StaleWebsite,
+    StaleWebsiteQuery,
+    WebhookAttempt,
+    WebhookDelivery,
+    WebhookSubscription,
+    WebsiteCheck,
+    WebsiteClaim,
+    WebsiteClaimQuery,
+    diffEnrichmentSnapshots,
+    isRunDone,
+    isTerminalJobStatus,
+    isTerminalRunStatus,
+    materializeEnrichmentResult,
+    serializeSecondaryWebsites,
+    toEnrichmentVersionRows,
+    toSerpCacheEntry,
+    toBenchmarkResult,
+    toBenchmarkRunRecord,
+    toGroundTruthLabel,
+    containsLikePattern,
+    toJobRecord,
+    toDiscoveryTraceRecord,
+    toEnrichmentResult,
+    toFinancialFigure,
+    toWebhookSubscription,
+    writeEnrichedCSV,
+} from './model';
+import { withFinancialExportValues } from '../core/financial/statement';
 
 // Use environment or default
 const SQLITE_PATH = process.env.SQLITE_PATH || config.sqlitePath;
@@ -45,106 +133,13 @@ export function initializeDatabase(): void {
         return;
     }
 
-    db.exec(`
-        -- 📥 Input companies (raw data from CSV)
-        CREATE TABLE IF NOT EXISTS companies (
-            id TEXT PRIMARY KEY,
-            company_name TEXT NOT NULL,
-            city TEXT,
-            province TEXT,
-            zip_code TEXT,
-            region TEXT,
-            address TEXT,
-            phone TEXT,
-            website TEXT,
-            category TEXT,
-            source TEXT DEFAULT 'CSV',
-            vat_code TEXT,
-            pg_url TEXT,
-            email TEXT,
-            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-        );
-
-        -- 📊 Enrichment results (output data)
-        CREATE TABLE IF NOT EXISTS enrichment_results (
-            id TEXT PRIMARY KEY,
-            company_id TEXT NOT NULL,
-            vat TEXT,
-            revenue TEXT,
-            revenue_year TEXT,
-            employees TEXT,
-            is_estimated_employees INTEGER DEFAULT 0,
-            pec TEXT,
-            website_validated TEXT,
-            lead_score INTEGER,
-            data_source TEXT,
-            discovery_method TEXT,
-            discovery_confidence REAL,
-            reason_code TEXT,
-            enriched_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-            FOREIGN KEY (company_id) REFERENCES companies(id)
-        );
-
-        -- 📜 Job processing log (audit trail)
-        CREATE TABLE IF NOT EXISTS job_log (
-            id INTEGER PRIMARY KEY AUTOINCREMENT,
-            company_id TEXT NOT NULL,
-            status TEXT NOT NULL,
-            error_message TEXT,
-            error_category TEXT,
-            reason_code TEXT,
-            run_id TEXT,
-            duration_ms INTEGER,
-            attempt INTEGER DEFAULT 1,
-            processed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-            FOREIGN KEY (company_id) REFERENCES companies(id)
-        );
-
-        -- 🏷️ Indexes for fast lookups
-        CREATE INDEX IF NOT EXISTS idx_companies_name ON companies(company_name);
-        CREATE INDEX IF NOT EXISTS idx_companies_city ON companies(city);
-        CREATE INDEX IF NOT EXISTS idx_results_company ON enrichment_results(company_id);
-        CREATE INDEX IF NOT EXISTS idx_results_vat ON enrichment_results(vat);
-        CREATE INDEX IF NOT EXISTS idx_job_log_company ON job_log(company_id);
-        CREATE INDEX IF NOT EXISTS idx_job_log_status ON job_log(status);
-    `);
+    if (config.db.autoMigrate) {
+        migrateDatabase();
+    }
 
-    // Lightweight migrations for existing DBs (CREATE TABLE IF NOT EXISTS won't add new columns).
-    try {
-        const cols = db.prepare(`PRAGMA table_info(companies)`).all() as Array<{ name: string }>;
-        const names = new Set(cols.map((c) => c.name));
-        const addIfMissing = (name: string, ddl: string) => {
-            if (!names.has(name)) {
-                db.exec(ddl);
-            }
-        };
-        addIfMissing('zip_code', `ALTER TABLE companies ADD COLUMN zip_code TEXT`);
-        addIfMissing('region', `ALTER TABLE companies ADD COLUMN region TEXT`);
-        addIfMissing('vat_code', `ALTER TABLE companies ADD COLUMN vat_code TEXT`);
-        addIfMissing('pg_url', `ALTER TABLE companies ADD COLUMN pg_url TEXT`);
-        addIfMissing('email', `ALTER TABLE companies ADD COLUMN email TEXT`);
-
-        // Enrichment results migrations
-        const erCols = db.prepare(`PRAGMA table_info(enrichment_results)`).all() as Array<{ name: string }>;
-        const erNames = new Set(erCols.map((c) => c.name));
-        const addErIfMissing = (name: string, ddl: string) => {
-            if (!erNames.has(name)) db.exec(ddl);
-        };
-        addErIfMissing('discovery_method', `ALTER TABLE enrichment_results ADD COLUMN discovery_method TEXT`);
-        addErIfMissing('discovery_confidence', `ALTER TABLE enrichment_results ADD COLUMN discovery_confidence REAL`);
-        addErIfMissing('reason_code', `ALTER TABLE enrichment_results ADD COLUMN reason_code TEXT`);
-
-        // Job log migrations
-        const jlCols = db.prepare(`PRAGMA table_info(job_log)`).all() as Array<{ name: string }>;
-        const jlNames = new Set(jlCols.map((c) => c.name));
-        const addJlIfMissing = (name: string, ddl: string) => {
-            if (!jlNames.has(name)) db.exec(ddl);
-        };
-        addJlIfMissing('reason_code', `ALTER TABLE job_log ADD COLUMN reason_code TEXT`);
-        addJlIfMissing('run_id', `ALTER TABLE job_log ADD COLUMN run_id TEXT`);
-    } catch (e) {
-        Logger.warn('DB migration check failed (continuing)', { error: e as Error });
+    const pending = getMigrationStatus(db).filter((m) => !m.applied);
+    if (pending.length > 0) {
+        throw new Error(`Database schema is behind by ${pending.length} migration(s). Run "migrate up".`);
     }
 
     schemaInitialized = true;
@@ -152,48 +147,55 @@ export function initializeDatabase(): void {
     Logger.info('✅ Database schema initialized');
 }
 
-// 📦 Type Definitions
-export interface Company {
-    id: string;
-    company_name: string;
-    city?: string;
-    province?: string;
-    zip_code?: string;
-    region?: string;
-    address?: string;
-    phone?: string;
-    website?: string;
-    category?: string;
-    source?: string;
-    vat_code?: string;
-    pg_url?: string;
-    email?: string;
-}
-
-export interface EnrichmentResult {
-    id: string;
-    company_id: string;
-    vat?: string;
-    revenue?: string;
-    revenue_year?: string;
-    employees?: string;
-    is_estimated_employees: boolean;
-    pec?: string;
-    website_validated?: string;
-    lead_score?: number;
-    data_source?: string;
-    discovery_method?: string;
-    discovery_confidence?: number;
-    reason_code?: string;
+/**
+ * 🧱 Migration CLI helpers (work without initializeDatabase so pending versions can be inspected)
+ */
+export function getDatabaseMigrationStatus(): MigrationStatus[] {
+    return getMigrationStatus(db);
+}
+
+export function migrateDatabase(targetVersion?: number): Migration[] {
+    const applied = runMigrations(db, { targetVersion });
+    for (const migration of applied) {
+        Logger.info(`🧱 Applied migration ${migration.version}: ${migration.name}`);
+    }
+    return applied;
 }
 
+export * from './model';
+
 let insertCompanyStmt: any;
 let getCompanyByIdStmt: any;
 let getCompanyByNameStmt: any;
 let getPendingCompaniesStmt: any;
 let insertResultStmt: any;
 let getResultByCompanyStmt: any;
+let insertVersionStmt: any;
+let getSnapshotStmt: any;
+let getHistoryStmt: any;
+let getRunBoundaryStmt: any;
 let insertJobLogStmt: any;
+let upsertStageResultStmt: any;
+let getStageResultStmt: any;
+let getLatestFailureStmt: any;
+let insertRunStmt: any;
+let getRunStmt: any;
+let listRunsStmt: any;
+let updateRunStatusStmt: any;
+let listRunsForJobStmt: any;
+let insertJobStmt: any;
+let getJobStmt: any;
+let updateJobStatusStmt: any;
+let incrementJobTaskStmts: Record<JobTaskOutcome, any>;
+let insertJobEventStmt: any;
+let listJobEventsStmt: any;
+let insertJobArtifactStmt: any;
+let listJobArtifactsStmt: any;
+let listRunsForTenantStmt: any;
+let getUsageStmt: any;
+let ensureUsageStmt: any;
+let addCompaniesUsageStmt: any;
+let addSpendUsageStmt: any;
 
 function initializeStatements(): void {
     if (statementsInitialized) {
@@ -202,8 +204,8 @@ function initializeStatements(): void {
 
     insertCompanyStmt = db.prepare(`
         INSERT OR REPLACE INTO companies
-        (id, company_name, city, province, zip_code, region, address, phone, website, category, source, vat_code, pg_url, email, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+        (id, company_name, city, province, zip_code, region, address, phone, website, category, source, vat_code, pg_url, email, tenant_id, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
     `);
 
     getCompanyByIdStmt = db.prepare('SELECT * FROM companies WHERE id = ?');
@@ -217,15 +219,105 @@ function initializeStatements(): void {
 
     insertResultStmt = db.prepare(`
         INSERT OR REPLACE INTO enrichment_results
-        (id, company_id, vat, revenue, revenue_year, employees, is_estimated_employees, pec, website_validated, lead_score, data_source, discovery_method, discovery_confidence, reason_code, enriched_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+        (id, company_id, vat, revenue, revenue_year, employees, is_estimated_employees, pec, website_validated, lead_score, data_source, discovery_method, discovery_confidence, reason_code, secondary_websites, facebook_url, instagram_url, linkedin_company_url, enriched_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
     `);
 
     getResultByCompanyStmt = db.prepare('SELECT * FROM enrichment_results WHERE company_id = ?');
 
+    insertVersionStmt = db.prepare(`
+        INSERT INTO enrichment_versions (company_id, run_id, field, value, source, confidence)
+        VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    // Latest version of every field recorded up to (and including) a given version id
+    getSnapshotStmt = db.prepare(`
+        SELECT * FROM enrichment_versions
+        WHERE id IN (
+            SELECT MAX(id) FROM enrichment_versions
+            WHERE company_id = ? AND id <= ?
+            GROUP BY field
+        )
+    `);
+    getHistoryStmt = db.prepare('SELECT * FROM enrichment_versions WHERE company_id = ? ORDER BY id ASC');
+    getRunBoundaryStmt = db.prepare('SELECT MAX(id) AS boundary FROM enrichment_versions WHERE company_id = ? AND run_id = ?');
+
     insertJobLogStmt = db.prepare(`
-        INSERT INTO job_log (company_id, status, error_message, error_category, reason_code, run_id, duration_ms, attempt)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO job_log (company_id, status, error_message, error_category, reason_code, run_id, duration_ms, attempt, stage)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    upsertStageResultStmt = db.prepare(`
+        INSERT OR REPLACE INTO stage_results (id, company_id, stage, run_id, payload, updated_at)
+        VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+
+    getStageResultStmt = db.prepare('SELECT payload FROM stage_results WHERE id = ?');
+
+    // succeeded / failed are derived from job_log so retries never double count
+    const runSelect = `
+        SELECT r.*,
+            (SELECT COUNT(DISTINCT company_id) FROM job_log WHERE run_id = r.id AND status = 'SUCCESS') AS succeeded,
+            (SELECT COUNT(DISTINCT company_id) FROM job_log WHERE run_id = r.id AND status = 'FAILED') AS failed
+        FROM runs r
+    `;
+
+    insertRunStmt = db.prepare(`
+        INSERT OR REPLACE INTO runs (id, job_id, tenant_id, source_csv, mode, status, loaded, enqueued, skipped, updated_at, finished_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, ?)
+    `);
+    getRunStmt = db.prepare(`${runSelect} WHERE r.id = ?`);
+    listRunsStmt = db.prepare(`${runSelect} ORDER BY r.created_at DESC, r.id DESC LIMIT ?`);
+    listRunsForTenantStmt = db.prepare(`${runSelect} WHERE r.tenant_id = ? ORDER BY r.created_at DESC, r.id DESC LIMIT ?`);
+    listRunsForJobStmt = db.prepare(`${runSelect} WHERE r.job_id = ? ORDER BY r.created_at ASC, r.id ASC`);
+    updateRunStatusStmt = db.prepare(`
+        UPDATE runs
+        SET status = ?, updated_at = CURRENT_TIMESTAMP,
+            finished_at = CASE WHEN ? IN ('CANCELLED', 'COMPLETED') THEN CURRENT_TIMESTAMP ELSE finished_at END
+        WHERE id = ?
+    `);
+
+    insertJobStmt = db.prepare(`
+        INSERT INTO jobs (id, tenant_id, niches, locations, company_limit, enrich, total_tasks)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    getJobStmt = db.prepare('SELECT * FROM jobs WHERE id = ?');
+    updateJobStatusStmt = db.prepare(`
+        UPDATE jobs
+        SET status = ?, error = COALESCE(?, error), updated_at = CURRENT_TIMESTAMP,
+            finished_at = CASE WHEN ? = 1 THEN CURRENT_TIMESTAMP ELSE finished_at END
+        WHERE id = ?
+    `);
+    incrementJobTaskStmts = {
+        completed: db.prepare('UPDATE jobs SET completed_tasks = completed_tasks + 1, updated_at = CURRENT_TIMESTAMP WHERE id = ?'),
+        failed: db.prepare('UPDATE jobs SET failed_tasks = failed_tasks + 1, updated_at = CURRENT_TIMESTAMP WHERE id = ?'),
+    };
+    insertJobEventStmt = db.prepare('INSERT INTO job_events (job_id, level, message) VALUES (?, ?, ?)');
+    // Latest N events, returned oldest first
+    listJobEventsStmt = db.prepare(`
+        SELECT * FROM (SELECT * FROM job_events WHERE job_id = ? ORDER BY id DESC LIMIT ?) ORDER BY id ASC
+    `);
+    insertJobArtifactStmt = db.prepare(`
+        INSERT INTO job_artifacts (job_id, kind, path, row_count, label) VALUES (?, ?, ?, ?, ?)
+    `);
+    listJobArtifactsStmt = db.prepare('SELECT * FROM job_artifacts WHERE job_id = ? ORDER BY id ASC');
+
+    getUsageStmt = db.prepare('SELECT * FROM tenant_usage WHERE tenant_id = ? AND day = ?');
+    ensureUsageStmt = db.prepare('INSERT OR IGNORE INTO tenant_usage (tenant_id, day) VALUES (?, ?)');
+    addCompaniesUsageStmt = db.prepare(`
+        UPDATE tenant_usage SET companies_enqueued = companies_enqueued + ?, updated_at = CURRENT_TIMESTAMP
+        WHERE tenant_id = ? AND day = ?
+    `);
+    addSpendUsageStmt = db.prepare(`
+        INSERT INTO tenant_usage (tenant_id, day, spend_usd) VALUES (?, ?, ?)
+        ON CONFLICT (tenant_id, day) DO UPDATE SET spend_usd = spend_usd + excluded.spend_usd, updated_at = CURRENT_TIMESTAMP
+    `);
+
+    getLatestFailureStmt = db.prepare(`
+        SELECT company_id, reason_code, error_category, error_message, stage, run_id, processed_at
+        FROM job_log
+        WHERE company_id = ? AND status = 'FAILED'
+        ORDER BY id DESC
+        LIMIT 1
     `);
 
     statementsInitialized = true;
@@ -256,7 +348,8 @@ export function insertCompany(company: Company): void {
         company.source || 'CSV',
         company.vat_code,
         company.pg_url,
-        company.email
+        company.email,
+        company.tenant_id ?? null
     );
 }
 
@@ -278,7 +371,8 @@ export function insertCompanies(companies: Company[]): void {
                 c.source || 'CSV',
                 c.vat_code,
                 c.pg_url,
-                c.email
+                c.email,
+                c.tenant_id ?? null
             );
         }
     });
@@ -296,29 +390,82 @@ export function getPendingCompanies(limit: number = 100): Company[] {
     return getPendingCompaniesStmt.all(limit) as Company[];
 }
 
-export function insertEnrichmentResult(result: EnrichmentResult): void {
-    ensureReady();
-    insertResultStmt.run(
-        result.id,
-        result.company_id,
-        result.vat,
-        result.revenue,
-        result.revenue_year,
-        result.employees,
-        result.is_estimated_employees ? 1 : 0,
-        result.pec,
-        result.website_validated,
-        result.lead_score,
-        result.data_source,
-        result.discovery_method,
-        result.discovery_confidence,
-        result.reason_code
+/**
+ * Append the field values of an enrichment to `enrichment_versions`, then
+ * re-materialize the `enrichment_results` row from the current view.
+ */
+export function insertEnrichmentResult(result: EnrichmentResult, provenance?: EnrichmentProvenance): void {
+    ensureReady();
+    const write = db.transaction(() => {
+        for (const row of toEnrichmentVersionRows(result, provenance)) {
+            insertVersionStmt.run(result.company_id, provenance?.run_id, row.field, row.value, row.source, row.confidence);
+        }
+
+        const current = materializeEnrichmentResult(result, getEnrichmentSnapshot(result.company_id));
+        insertResultStmt.run(
+            current.id,
+            current.company_id,
+            current.vat,
+            current.revenue,
+            current.revenue_year,
+            current.employees,
+            current.is_estimated_employees ? 1 : 0,
+            current.pec,
+            current.website_validated,
+            current.lead_score,
+            current.data_source,
+            current.discovery_method,
+            current.discovery_confidence,
+            current.reason_code,
+            serializeSecondaryWebsites(current.secondary_websites),
+            current.facebook_url,
+            current.instagram_url,
+            current.linkedin_company_url
+        );
+    });
+    write();
+}
+
+/**
+ * 🕰️ Current view of a company's fields, or the view as it stood at the end of `runId`.
+ */
+export function getEnrichmentSnapshot(companyId: string, runId?: string): EnrichmentSnapshot {
+    ensureReady();
+    let boundary = Number.MAX_SAFE_INTEGER;
+    if (runId) {
+        const row = getRunBoundaryStmt.get(companyId, runId) as { boundary: number | null };
+        if (row.boundary === null) {
+            return {};
+        }
+        boundary = row.boundary;
+    }
+
+    const snapshot: EnrichmentSnapshot = {};
+    for (const version of getSnapshotStmt.all(companyId, boundary) as EnrichmentVersion[]) {
+        snapshot[version.field] = version;
+    }
+    return snapshot;
+}
+
+export function getEnrichmentHistory(companyId: string): EnrichmentVersion[] {
+    ensureReady();
+    return getHistoryStmt.all(companyId) as EnrichmentVersion[];
+}
+
+/**
+ * What changed for a company between the end of `fromRunId` and the end of `toRunId`.
+ */
+export function diffEnrichmentRuns(companyId: string, fromRunId: string, toRunId: string): EnrichmentFieldChange[] {
+    return diffEnrichmentSnapshots(
+        getEnrichmentSnapshot(companyId, fromRunId),
+        getEnrichmentSnapshot(companyId, toRunId)
     );
 }
 
 export function getEnrichmentResult(companyId: string): EnrichmentResult | undefined {
     ensureReady();
-    return getResultByCompanyStmt.get(companyId) as EnrichmentResult | undefined;
+    const row = getResultByCompanyStmt.get(companyId) as Record<string, unknown> | undefined;
+    return row ? toEnrichmentResult(row) : undefined;
 }
 
 export function logJobResult(
@@ -329,18 +476,582 @@ export function logJobResult(
     errorMessage?: string,
     errorCategory?: string,
     reasonCode?: string,
-    runId?: string
+    runId?: string,
+    stage?: string
 ): void {
     ensureReady();
-    insertJobLogStmt.run(companyId, status, errorMessage, errorCategory, reasonCode, runId, durationMs, attempt);
+    insertJobLogStmt.run(companyId, status, errorMessage, errorCategory, reasonCode, runId, durationMs, attempt, stage);
+}
+
+export function getLatestJobFailure(companyId: string): JobFailure | undefined {
+    ensureReady();
+    return getLatestFailureStmt.get(companyId) as JobFailure | undefined;
+}
+
+// 🏁 Runs
+export function createRun(run: NewRun): void {
+    ensureReady();
+    const status = run.status || 'RUNNING';
+    insertRunStmt.run(
+        run.id,
+        run.job_id,
+        run.tenant_id ?? null,
+        run.source_csv,
+        run.mode,
+        status,
+        run.loaded,
+        run.enqueued,
+        run.skipped,
+        isTerminalRunStatus(status) ? new Date().toISOString() : null
+    );
+}
+
+export function getRun(runId: string): RunRecord | undefined {
+    ensureReady();
+    return getRunStmt.get(runId) as RunRecord | undefined;
+}
+
+export function listRuns(limit: number = 50, tenantId?: string): RunRecord[] {
+    ensureReady();
+    if (tenantId) {
+        return listRunsForTenantStmt.all(tenantId, limit) as RunRecord[];
+    }
+    return listRunsStmt.all(limit) as RunRecord[];
+}
+
+export function updateRunStatus(runId: string, status: RunStatus): void {
+    ensureReady();
+    updateRunStatusStmt.run(status, status, runId);
+}
+
+/**
+ * Flip a RUNNING run to COMPLETED once every enqueued company has a terminal outcome.
+ */
+export function completeRunIfDone(runId: string): boolean {
+    const run = getRun(runId);
+    if (!run || !isRunDone(run)) {
+        return false;
+    }
+    updateRunStatus(runId, 'COMPLETED');
+    return true;
+}
+
+export function listRunsForJob(jobId: string): RunRecord[] {
+    ensureReady();
+    return listRunsForJobStmt.all(jobId) as RunRecord[];
+}
+
+// 🧾 API jobs
+export function createJob(job: NewJob): void {
+    ensureReady();
+    insertJobStmt.run(
+        job.id,
+        job.tenant_id ?? null,
+        JSON.stringify(job.niches),
+        JSON.stringify(job.locations),
+        job.company_limit,
+        job.enrich ? 1 : 0,
+        job.total_tasks
+    );
+}
+
+export function getJob(jobId: string): JobRecord | undefined {
+    ensureReady();
+    const row = getJobStmt.get(jobId) as Record<string, unknown> | undefined;
+    return row ? toJobRecord(row) : undefined;
+}
+
+export function listJobs(options: { limit?: number; statuses?: JobStatus[]; tenantId?: string } = {}): JobRecord[] {
+    ensureReady();
+    const statuses = options.statuses || [];
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    if (statuses.length > 0) {
+        clauses.push(`status IN (${statuses.map(() => '?').join(', ')})`);
+        params.push(...statuses);
+    }
+    if (options.tenantId) {
+        clauses.push('tenant_id = ?');
+        params.push(options.tenantId);
+    }
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = db.prepare(`SELECT * FROM jobs ${where} ORDER BY created_at DESC, id DESC LIMIT ?`)
+        .all(...params, options.limit ?? 50) as Array<Record<string, unknown>>;
+    return rows.map(toJobRecord);
+}
+
+export function updateJobStatus(jobId: string, status: JobStatus, error?: string): void {
+    ensureReady();
+    updateJobStatusStmt.run(status, error ?? null, isTerminalJobStatus(status) ? 1 : 0, jobId);
+}
+
+/**
+ * Count one finished scrape task (success or exhausted retries) and return the updated job.
+ */
+export function recordJobTaskOutcome(jobId: string, outcome: JobTaskOutcome): JobRecord | undefined {
+    ensureReady();
+    incrementJobTaskStmts[outcome].run(jobId);
+    return getJob(jobId);
+}
+
+export function appendJobEvent(jobId: string, level: JobEventLevel, message: string): void {
+    ensureReady();
+    insertJobEventStmt.run(jobId, level, message);
+}
+
+export function listJobEvents(jobId: string, limit: number = 200): JobEvent[] {
+    ensureReady();
+    return listJobEventsStmt.all(jobId, limit) as JobEvent[];
+}
+
+export function addJobArtifact(artifact: NewJobArtifact): void {
+    ensureReady();
+    insertJobArtifactStmt.run(artifact.job_id, artifact.kind, artifact.path, artifact.row_count, artifact.label);
+}
+
+export function listJobArtifacts(jobId: string): JobArtifact[] {
+    ensureReady();
+    return listJobArtifactsStmt.all(jobId) as JobArtifact[];
+}
+
+// 🧩 Stage results (latest output per company + stage)
+export function saveStageResult<T>(companyId: string, stage: string, payload: T, runId?: string): void {
+    ensureReady();
+    upsertStageResultStmt.run(`${stage}-${companyId}`, companyId, stage, runId, JSON.stringify(payload));
+}
+
+export function getStageResult<T>(companyId: string, stage: string): T | undefined {
+    ensureReady();
+    const row = getStageResultStmt.get(`${stage}-${companyId}`) as { payload: string } | undefined;
+    return row ? (JSON.parse(row.payload) as T) : undefined;
+}
+
+// 🔗 Website claims (shared domain reconciliation)
+export function listWebsiteClaims(query: WebsiteClaimQuery = {}): WebsiteClaim[] {
+    ensureReady();
+    if (query.domains?.length === 0) {
+        return [];
+    }
+    const scope: string[] = [];
+    const params: string[] = [];
+    if (query.tenantId) {
+        scope.push('AND c.tenant_id = ?');
+        params.push(query.tenantId);
+    }
+    if (query.runId) {
+        scope.push('AND er.company_id IN (SELECT company_id FROM job_log WHERE run_id = ?)');
+        params.push(query.runId);
+    }
+    if (query.domains) {
+        scope.push(`AND (${query.domains.map(() => 'LOWER(er.website_validated) LIKE ?').join(' OR ')})`);
+        params.push(...query.domains.map((domain) => `%${domain.toLowerCase()}%`));
+    }
+    return db.prepare(`
+        SELECT er.company_id, c.tenant_id, er.website_validated AS website, er.discovery_confidence, er.reason_code, er.shared_domain_owner
+        FROM enrichment_results er
+        JOIN companies c ON c.id = er.company_id
+        WHERE er.website_validated IS NOT NULL AND er.website_validated != '' ${scope.join(' ')}
+        ORDER BY er.company_id
+    `).all(...params) as WebsiteClaim[];
+}
+
+export function setSharedDomainOwner(companyId: string, ownerCompanyId: string | null, reasonCode: string): void {
+    ensureReady();
+    db.prepare('UPDATE enrichment_results SET shared_domain_owner = ?, reason_code = ? WHERE company_id = ?').run(ownerCompanyId, reasonCode, companyId);
+}
+
+// 🩺 Website liveness (oldest verification first)
+export function listStaleWebsites(query: StaleWebsiteQuery): StaleWebsite[] {
+    ensureReady();
+    const scope = query.tenantId ? 'AND c.tenant_id = ?' : '';
+    return db.prepare(`
+        SELECT er.company_id, c.tenant_id, er.website_validated AS website, er.discovery_confidence, er.reason_code,
+               er.shared_domain_owner, COALESCE(er.website_verified_at, er.enriched_at) AS verified_at
+        FROM enrichment_results er
+        JOIN companies c ON c.id = er.company_id
+        WHERE er.website_validated IS NOT NULL AND er.website_validated != ''
+          AND COALESCE(er.website_verified_at, er.enriched_at) < datetime(?) ${scope}
+        ORDER BY verified_at ASC, er.company_id
+        LIMIT ?
+    `).all(query.verifiedBefore, ...(query.tenantId ? [query.tenantId] : []), query.limit ?? -1) as StaleWebsite[];
+}
+
+export function recordWebsiteCheck(companyId: string, check: WebsiteCheck): void {
+    ensureReady();
+    const write = db.transaction(() => {
+        const current = getResultByCompanyStmt.get(companyId) as EnrichmentResult | undefined;
+        if (!current) {
+            return;
+        }
+        if ((current.website_validated || null) !== check.website) {
+            insertVersionStmt.run(companyId, check.run_id, 'website_validated', check.website, DataSource.WEBSITE, check.confidence ?? null);
+            db.prepare(`
+                UPDATE enrichment_results SET website_validated = ?, discovery_confidence = COALESCE(?, discovery_confidence), shared_domain_owner = NULL
+                WHERE company_id = ?
+            `).run(check.website, check.confidence ?? null, companyId);
+        }
+        db.prepare(`
+            UPDATE enrichment_results SET website_verified_at = CURRENT_TIMESTAMP, reason_code = COALESCE(?, reason_code)
+            WHERE company_id = ?
+        `).run(check.reason_code ?? null, companyId);
+    });
+    write();
+}
+
+// 🔎 SERP cache
+export function getSerpCacheEntry<T>(provider: string, queryHash: string, now: string): SerpCacheEntry<T> | undefined {
+    ensureReady();
+    const row = db.prepare(`
+        SELECT * FROM serp_cache WHERE provider = ? AND query_hash = ? AND expires_at > datetime(?)
+    `).get(provider, queryHash, now) as Record<string, unknown> | undefined;
+    return row ? toSerpCacheEntry<T>(row) : undefined;
+}
+
+export function saveSerpCacheEntry<T>(entry: NewSerpCacheEntry<T>): void {
+    ensureReady();
+    db.prepare(`
+        INSERT INTO serp_cache (provider, query_hash, query, company_id, results, expires_at)
+        VALUES (?, ?, ?, ?, ?, datetime(?))
+        ON CONFLICT(provider, query_hash) DO UPDATE SET
+            query = excluded.query,
+            company_id = excluded.company_id,
+            results = excluded.results,
+            created_at = CURRENT_TIMESTAMP,
+            expires_at = excluded.expires_at
+    `).run(entry.provider, entry.query_hash, entry.query, entry.company_id ?? null, JSON.stringify(entry.results), entry.expires_at);
+}
+
+export function recordSerpCacheLookup(provider: string, day: string, hit: boolean, savedEur: number = 0): void {
+    ensureReady();
+    db.prepare(`
+        INSERT INTO serp_cache_usage (day, provider, hits, misses, saved_eur) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(day, provider) DO UPDATE SET
+            hits = hits + excluded.hits,
+            misses = misses + excluded.misses,
+            saved_eur = saved_eur + excluded.saved_eur
+    `).run(day, provider, hit ? 1 : 0, hit ? 0 : 1, hit ? savedEur : 0);
+}
+
+export function listSerpCacheUsage(sinceDay: string): SerpCacheUsage[] {
+    ensureReady();
+    return db.prepare('SELECT * FROM serp_cache_usage WHERE day >= ? ORDER BY day, provider').all(sinceDay) as SerpCacheUsage[];
+}
+
+export function countSerpCacheEntries(now: string): Array<{ provider: string; entries: number }> {
+    ensureReady();
+    return db.prepare(`
+        SELECT provider, COUNT(*) AS entries FROM serp_cache WHERE expires_at > datetime(?) GROUP BY provider ORDER BY provider
+    `).all(now) as Array<{ provider: string; entries: number }>;
+}
+
+export function invalidateSerpCache(filter: SerpCacheFilter): number {
+    ensureReady();
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    if (filter.companyId) {
+        clauses.push('company_id = ?');
+        params.push(filter.companyId);
+    }
+    if (filter.queryPattern) {
+        clauses.push("query LIKE ? ESCAPE '\\'");
+        params.push(containsLikePattern(filter.queryPattern));
+    }
+    if (filter.provider) {
+        clauses.push('provider = ?');
+        params.push(filter.provider);
+    }
+    if (filter.expiredBefore) {
+        clauses.push('expires_at <= datetime(?)');
+        params.push(filter.expiredBefore);
+    }
+    const scope = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    return db.prepare(`DELETE FROM serp_cache ${scope}`).run(...params).changes;
+}
+
+// 🎯 Ground truth labels
+export function upsertGroundTruthLabels(labels: GroundTruthLabel[]): void {
+    ensureReady();
+    const upsert = db.prepare(`
+        INSERT INTO ground_truth_labels (dataset, label_id, company, expected_domain, notes) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(dataset, label_id) DO UPDATE SET
+            company = excluded.company,
+            expected_domain = excluded.expected_domain,
+            notes = excluded.notes,
+            updated_at = CURRENT_TIMESTAMP
+    `);
+    db.transaction(() => {
+        for (const label of labels) {
+            upsert.run(label.dataset, label.label_id, JSON.stringify(label.company), label.expected_domain, label.notes ?? null);
+        }
+    })();
+}
+
+export function listGroundTruthLabels(dataset: string): GroundTruthLabelRecord[] {
+    ensureReady();
+    const rows = db.prepare('SELECT * FROM ground_truth_labels WHERE dataset = ? ORDER BY label_id').all(dataset);
+    return (rows as Array<Record<string, unknown>>).map(toGroundTruthLabel);
+}
+
+export function deleteGroundTruthLabel(dataset: string, labelId: string): boolean {
+    ensureReady();
+    return db.prepare('DELETE FROM ground_truth_labels WHERE dataset = ? AND label_id = ?').run(dataset, labelId).changes > 0;
+}
+
+// 🏁 Benchmark runs (newest first)
+export function saveBenchmarkRun<T>(run: NewBenchmarkRun<T>): void {
+    ensureReady();
+    const insertResult = db.prepare(`
+        INSERT INTO benchmark_results (run_id, label_id, expected_domain, url, status, reason_code, outcome, cost_eur, latency_ms)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    db.transaction(() => {
+        db.prepare(`
+            INSERT INTO benchmark_runs (id, dataset, mode, started_at, finished_at, summary) VALUES (?, ?, ?, ?, ?, ?)
+        `).run(run.id, run.dataset, run.mode, run.started_at, run.finished_at, JSON.stringify(run.summary));
+        for (const result of run.results) {
+            insertResult.run(run.id, result.label_id, result.expected_domain, result.url, result.status, result.reason_code,
+                result.outcome, result.cost_eur, result.latency_ms);
+        }
+    })();
+}
+
+export function getBenchmarkRun<T>(runId: string): BenchmarkRunRecord<T> | undefined {
+    ensureReady();
+    const row = db.prepare('SELECT * FROM benchmark_runs WHERE id = ?').get(runId) as Record<string, unknown> | undefined;
+    return row ? toBenchmarkRunRecord<T>(row) : undefined;
+}
+
+export function listBenchmarkRuns<T>(dataset?: string, limit: number = 20): Array<BenchmarkRunRecord<T>> {
+    ensureReady();
+    const scope = dataset ? 'WHERE dataset = ?' : '';
+    const rows = db.prepare(`SELECT * FROM benchmark_runs ${scope} ORDER BY started_at DESC, id DESC LIMIT ?`)
+        .all(...(dataset ? [dataset] : []), limit);
+    return (rows as Array<Record<string, unknown>>).map((row) => toBenchmarkRunRecord<T>(row));
+}
+
+export function listBenchmarkResults(runId: string): BenchmarkResult[] {
+    ensureReady();
+    const rows = db.prepare('SELECT * FROM benchmark_results WHERE run_id = ? ORDER BY label_id').all(runId);
+    return (rows as Array<Record<string, unknown>>).map(toBenchmarkResult);
+}
+
+// 📈 Financial figures (a figure only replaces one at least as confident)
+export function saveFinancialFigures(companyId: string, figures: FinancialFigure[]): void {
+    ensureReady();
+    const upsert = db.prepare(`
+        INSERT INTO financial_figures (company_id, metric, fiscal_year, value, source, confidence, source_url) VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(company_id, metric, fiscal_year) DO UPDATE SET
+            value = excluded.value,
+            source = excluded.source,
+            confidence = excluded.confidence,
+            source_url = excluded.source_url,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE excluded.confidence >= financial_figures.confidence
+    `);
+    db.transaction(() => {
+        for (const figure of figures) {
+            upsert.run(companyId, figure.metric, figure.fiscal_year, figure.value, figure.source, figure.confidence, figure.source_url ?? null);
+        }
+    })();
+}
+
+export function listFinancialFigures(companyId: string): FinancialFigureRecord[] {
+    ensureReady();
+    const rows = db.prepare('SELECT * FROM financial_figures WHERE company_id = ? ORDER BY metric, fiscal_year').all(companyId);
+    return (rows as Array<Record<string, unknown>>).map(toFinancialFigure);
+}
+
+// 🧭 Discovery traces (one per discovery, newest first)
+export function saveDiscoveryTrace<T>(record: NewDiscoveryTrace<T>): void {
+    ensureReady();
+    db.prepare(`
+        INSERT INTO discovery_traces (id, company_id, run_id, mode, status, url, trace) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(record.id, record.company_id, record.run_id ?? null, record.mode ?? null, record.status, record.url ?? null, JSON.stringify(record.trace));
+}
+
+export function listDiscoveryTraces<T>(companyId: string, options: DiscoveryTraceQuery = {}): Array<DiscoveryTraceRecord<T>> {
+    ensureReady();
+    const rows = options.runId
+        ? db.prepare(`
+            SELECT * FROM discovery_traces WHERE company_id = ? AND run_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ?
+        `).all(companyId, options.runId, options.limit ?? 20)
+        : db.prepare(`
+            SELECT * FROM discovery_traces WHERE company_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ?
+        `).all(companyId, options.limit ?? 20);
+    return (rows as Array<Record<string, unknown>>).map((row) => toDiscoveryTraceRecord<T>(row));
+}
+
+export function listRecentDiscoveryTraces<T>(options: RecentDiscoveryTraceQuery = {}): Array<DiscoveryTraceRecord<T>> {
+    ensureReady();
+    const rows = db.prepare(`
+        SELECT * FROM discovery_traces WHERE created_at >= ? ORDER BY created_at DESC, rowid DESC LIMIT ?
+    `).all(options.since ?? '', options.limit ?? 5000);
+    return (rows as Array<Record<string, unknown>>).map((row) => toDiscoveryTraceRecord<T>(row));
+}
+
+// 🔑 Tenants
+export function createTenant(tenant: NewTenant): void {
+    ensureReady();
+    db.prepare(`
+        INSERT INTO tenants (id, name, daily_company_quota, daily_spend_quota_usd) VALUES (?, ?, ?, ?)
+    `).run(tenant.id, tenant.name, tenant.daily_company_quota ?? null, tenant.daily_spend_quota_usd ?? null);
+}
+
+export function getTenant(tenantId: string): TenantRecord | undefined {
+    ensureReady();
+    return db.prepare('SELECT * FROM tenants WHERE id = ?').get(tenantId) as TenantRecord | undefined;
+}
+
+export function listTenants(): TenantRecord[] {
+    ensureReady();
+    return db.prepare('SELECT * FROM tenants ORDER BY id ASC').all() as TenantRecord[];
+}
+
+/**
+ * Only the quotas present in `quotas` change; pass null to make one unlimited.
+ */
+export function updateTenantQuotas(tenantId: string, quotas: TenantQuotas): void {
+    ensureReady();
+    const current = getTenant(tenantId);
+    if (!current) {
+        return;
+    }
+    db.prepare(`
+        UPDATE tenants SET daily_company_quota = ?, daily_spend_quota_usd = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+    `).run(
+        quotas.daily_company_quota !== undefined ? quotas.daily_company_quota : current.daily_company_quota ?? null,
+        quotas.daily_spend_quota_usd !== undefined ? quotas.daily_spend_quota_usd : current.daily_spend_quota_usd ?? null,
+        tenantId
+    );
+}
+
+export function createApiKey(key: NewApiKey): void {
+    ensureReady();
+    db.prepare('INSERT INTO api_keys (id, tenant_id, key_hash, label) VALUES (?, ?, ?, ?)')
+        .run(key.id, key.tenant_id, key.key_hash, key.label ?? null);
+}
+
+export function findApiKeyByHash(keyHash: string): ApiKeyRecord | undefined {
+    ensureReady();
+    return db.prepare('SELECT * FROM api_keys WHERE key_hash = ?').get(keyHash) as ApiKeyRecord | undefined;
+}
+
+export function listApiKeys(tenantId: string): ApiKeyRecord[] {
+    ensureReady();
+    return db.prepare('SELECT * FROM api_keys WHERE tenant_id = ? ORDER BY created_at ASC, id ASC').all(tenantId) as ApiKeyRecord[];
+}
+
+export function touchApiKey(keyId: string): void {
+    ensureReady();
+    db.prepare('UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?').run(keyId);
+}
+
+export function revokeApiKey(keyId: string): boolean {
+    ensureReady();
+    return db.prepare('UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL').run(keyId).changes > 0;
+}
+
+export function getTenantUsage(tenantId: string, day: string): TenantUsage {
+    ensureReady();
+    return (getUsageStmt.get(tenantId, day) as TenantUsage | undefined)
+        ?? { tenant_id: tenantId, day, companies_enqueued: 0, spend_usd: 0 };
+}
+
+/**
+ * Atomically grant up to `requested` companies against the day's quota (`limit` null = unlimited).
+ * Returns how many were granted.
+ */
+export function reserveTenantCompanies(tenantId: string, day: string, requested: number, limit: number | null): number {
+    ensureReady();
+    const reserve = db.transaction(() => {
+        ensureUsageStmt.run(tenantId, day);
+        const used = (getUsageStmt.get(tenantId, day) as TenantUsage).companies_enqueued;
+        const granted = limit == null ? requested : Math.max(0, Math.min(requested, limit - used));
+        if (granted > 0) {
+            addCompaniesUsageStmt.run(granted, tenantId, day);
+        }
+        return granted;
+    });
+    return reserve();
+}
+
+export function addTenantSpend(tenantId: string, day: string, amountUsd: number): void {
+    ensureReady();
+    addSpendUsageStmt.run(tenantId, day, amountUsd);
+}
+
+// 🪝 Webhooks
+export function createWebhookSubscription(subscription: NewWebhookSubscription): void {
+    ensureReady();
+    db.prepare('INSERT INTO webhook_subscriptions (id, tenant_id, url, secret, events) VALUES (?, ?, ?, ?, ?)')
+        .run(subscription.id, subscription.tenant_id ?? null, subscription.url, subscription.secret, JSON.stringify(subscription.events));
+}
+
+export function getWebhookSubscription(subscriptionId: string): WebhookSubscription | undefined {
+    ensureReady();
+    const row = db.prepare('SELECT * FROM webhook_subscriptions WHERE id = ?').get(subscriptionId) as Record<string, unknown> | undefined;
+    return row ? toWebhookSubscription(row) : undefined;
+}
+
+export function listWebhookSubscriptions(tenantId?: string): WebhookSubscription[] {
+    ensureReady();
+    const rows = tenantId
+        ? db.prepare('SELECT * FROM webhook_subscriptions WHERE tenant_id = ? ORDER BY created_at ASC, id ASC').all(tenantId)
+        : db.prepare('SELECT * FROM webhook_subscriptions ORDER BY created_at ASC, id ASC').all();
+    return (rows as Array<Record<string, unknown>>).map(toWebhookSubscription);
+}
+
+/**
+ * Stop delivering to a subscription; it is kept so its delivery log stays readable.
+ */
+export function deactivateWebhookSubscription(subscriptionId: string): boolean {
+    ensureReady();
+    return db.prepare(`
+        UPDATE webhook_subscriptions SET active = 0, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND active = 1
+    `).run(subscriptionId).changes > 0;
+}
+
+export function createWebhookDelivery(delivery: NewWebhookDelivery): void {
+    ensureReady();
+    db.prepare('INSERT INTO webhook_deliveries (id, subscription_id, event, payload) VALUES (?, ?, ?, ?)')
+        .run(delivery.id, delivery.subscription_id, delivery.event, delivery.payload);
+}
+
+export function getWebhookDelivery(deliveryId: string): WebhookDelivery | undefined {
+    ensureReady();
+    return db.prepare('SELECT * FROM webhook_deliveries WHERE id = ?').get(deliveryId) as WebhookDelivery | undefined;
+}
+
+export function recordWebhookAttempt(deliveryId: string, attempt: WebhookAttempt): void {
+    ensureReady();
+    db.prepare(`
+        UPDATE webhook_deliveries
+        SET status = ?, attempts = attempts + 1, response_status = ?, error = ?, updated_at = CURRENT_TIMESTAMP,
+            delivered_at = CASE WHEN ? = 'DELIVERED' THEN CURRENT_TIMESTAMP ELSE delivered_at END
+        WHERE id = ?
+    `).run(attempt.status, attempt.response_status ?? null, attempt.error ?? null, attempt.status, deliveryId);
+}
+
+export function listWebhookDeliveries(subscriptionId: string, limit: number = 50): WebhookDelivery[] {
+    ensureReady();
+    return db.prepare(`
+        SELECT * FROM webhook_deliveries WHERE subscription_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ?
+    `).all(subscriptionId, limit) as WebhookDelivery[];
 }
 
 // 📊 Statistics
-export function getStats(): { total: number; enriched: number; pending: number; failed: number } {
+export function getStats(tenantId?: string): DatabaseStats {
     ensureReady();
-    const total = (db.prepare('SELECT COUNT(*) as count FROM companies').get() as { count: number }).count;
-    const enriched = (db.prepare('SELECT COUNT(*) as count FROM enrichment_results').get() as { count: number }).count;
-    const failed = (db.prepare('SELECT COUNT(DISTINCT company_id) as count FROM job_log WHERE status = ?').get('FAILED') as { count: number }).count;
+    const scope = tenantId ? 'WHERE c.tenant_id = ?' : '';
+    const params = tenantId ? [tenantId] : [];
+    const total = (db.prepare(`SELECT COUNT(*) as count FROM companies c ${scope}`).get(...params) as { count: number }).count;
+    const enriched = (db.prepare(`
+        SELECT COUNT(*) as count FROM enrichment_results er JOIN companies c ON c.id = er.company_id ${scope}
+    `).get(...params) as { count: number }).count;
+    const failed = (db.prepare(`
+        SELECT COUNT(DISTINCT jl.company_id) as count FROM job_log jl JOIN companies c ON c.id = jl.company_id
+        ${scope ? `${scope} AND` : 'WHERE'} jl.status = ?
+    `).get(...params, 'FAILED') as { count: number }).count;
     return {
         total,
         enriched,
@@ -350,33 +1061,24 @@ export function getStats(): { total: number; enriched: number; pending: number;
 }
 
 // 📤 Export to CSV
-export function exportEnrichedToCSV(outputPath: string): void {
+export function exportEnrichedToCSV(outputPath: string, tenantId?: string): void {
     ensureReady();
-    const stmt = db.prepare(`
-        SELECT 
-            c.company_name, c.city, c.province, c.address, c.phone, c.category,
-            er.vat, er.revenue, er.employees, er.pec, er.lead_score, er.data_source
+    const rows = db.prepare(`
+        SELECT
+            c.id AS company_id, c.company_name, c.city, c.province, c.address, c.phone, c.category,
+            er.vat, er.revenue, er.employees, er.pec, er.lead_score, er.data_source,
+            er.website_validated AS website, er.secondary_websites,
+            er.facebook_url, er.instagram_url, er.linkedin_company_url
         FROM companies c
         JOIN enrichment_results er ON c.id = er.company_id
+        ${tenantId ? 'WHERE c.tenant_id = ?' : ''}
         ORDER BY er.lead_score DESC
-    `);
-
-    const rows = stmt.all();
-    if (rows.length === 0) {
-        Logger.warn('No enriched data to export');
-        return;
-    }
-
-    const headers = Object.keys(rows[0] as Record<string, unknown>).join(',');
-    const lines = rows.map((row) => Object.values(row as Record<string, unknown>).map(escapeCsvValue).join(','));
-
-    fs.writeFileSync(outputPath, [headers, ...lines].join('\n'));
-    Logger.info(`📤 Exported ${rows.length} enriched companies to ${outputPath}`);
-}
-
-function escapeCsvValue(value: unknown): string {
-    const raw = value == null ? '' : String(value);
-    return `"${raw.replace(/"/g, '""')}"`;
+    `).all(...(tenantId ? [tenantId] : [])) as Array<Record<string, unknown>>;
+    const figures = db.prepare(`
+        SELECT ff.* FROM financial_figures ff JOIN companies c ON c.id = ff.company_id
+        ${tenantId ? 'WHERE c.tenant_id = ?' : ''}
+    `).all(...(tenantId ? [tenantId] : [])) as Array<Record<string, unknown>>;
+    writeEnrichedCSV(withFinancialExportValues(rows, figures.map(toFinancialFigure)), outputPath);
 }
 
 export default db;
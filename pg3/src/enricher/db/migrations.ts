@@ -0,0 +1,540 @@
+/**
+ * 🧱 SCHEMA MIGRATIONS
+ * Numbered, ordered, transactional "up" migrations tracked in `schema_migrations`.
+ *
+ * Rules:
+ * - Never edit a migration that has shipped; append a new one with the next version.
+ * - Migrations 1-6 port the implicit pre-framework schema changes. Databases created before the
+ *   framework may already contain their columns/tables, so those use the idempotent helpers.
+ */
+
+import type { Database } from 'better-sqlite3';
+
+export interface Migration {
+    version: number;
+    name: string;
+    up: (db: Database) => void;
+}
+
+export interface MigrationStatus {
+    version: number;
+    name: string;
+    applied: boolean;
+    applied_at?: string;
+}
+
+function columnNames(db: Database, table: string): Set<string> {
+    const cols = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    return new Set(cols.map((c) => c.name));
+}
+
+export function addColumnIfMissing(db: Database, table: string, column: string, definition: string): void {
+    if (!columnNames(db, table).has(column)) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+}
+
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        name: 'initial_schema',
+        up: (db) => {
+            db.exec(`
+                -- 📥 Input companies (raw data from CSV)
+                CREATE TABLE IF NOT EXISTS companies (
+                    id TEXT PRIMARY KEY,
+                    company_name TEXT NOT NULL,
+                    city TEXT,
+                    province TEXT,
+                    address TEXT,
+                    phone TEXT,
+                    website TEXT,
+                    category TEXT,
+                    source TEXT DEFAULT 'CSV',
+                    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+                );
+
+                -- 📊 Enrichment results (output data)
+                CREATE TABLE IF NOT EXISTS enrichment_results (
+                    id TEXT PRIMARY KEY,
+                    company_id TEXT NOT NULL,
+                    vat TEXT,
+                    revenue TEXT,
+                    revenue_year TEXT,
+                    employees TEXT,
+                    is_estimated_employees INTEGER DEFAULT 0,
+                    pec TEXT,
+                    website_validated TEXT,
+                    lead_score INTEGER,
+                    data_source TEXT,
+                    enriched_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    FOREIGN KEY (company_id) REFERENCES companies(id)
+                );
+
+                -- 📜 Job processing log (audit trail)
+                CREATE TABLE IF NOT EXISTS job_log (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    company_id TEXT NOT NULL,
+                    status TEXT NOT NULL,
+                    error_message TEXT,
+                    error_category TEXT,
+                    duration_ms INTEGER,
+                    attempt INTEGER DEFAULT 1,
+                    processed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    FOREIGN KEY (company_id) REFERENCES companies(id)
+                );
+
+                -- 🏷️ Indexes for fast lookups
+                CREATE INDEX IF NOT EXISTS idx_companies_name ON companies(company_name);
+                CREATE INDEX IF NOT EXISTS idx_companies_city ON companies(city);
+                CREATE INDEX IF NOT EXISTS idx_results_company ON enrichment_results(company_id);
+                CREATE INDEX IF NOT EXISTS idx_results_vat ON enrichment_results(vat);
+                CREATE INDEX IF NOT EXISTS idx_job_log_company ON job_log(company_id);
+                CREATE INDEX IF NOT EXISTS idx_job_log_status ON job_log(status);
+            `);
+        },
+    },
+    {
+        version: 2,
+        name: 'companies_location_and_identifiers',
+        up: (db) => {
+            addColumnIfMissing(db, 'companies', 'zip_code', 'TEXT');
+            addColumnIfMissing(db, 'companies', 'region', 'TEXT');
+            addColumnIfMissing(db, 'companies', 'vat_code', 'TEXT');
+            addColumnIfMissing(db, 'companies', 'pg_url', 'TEXT');
+            addColumnIfMissing(db, 'companies', 'email', 'TEXT');
+        },
+    },
+    {
+        version: 3,
+        name: 'enrichment_results_discovery_audit',
+        up: (db) => {
+            addColumnIfMissing(db, 'enrichment_results', 'discovery_method', 'TEXT');
+            addColumnIfMissing(db, 'enrichment_results', 'discovery_confidence', 'REAL');
+            addColumnIfMissing(db, 'enrichment_results', 'reason_code', 'TEXT');
+        },
+    },
+    {
+        version: 4,
+        name: 'job_log_reason_and_run',
+        up: (db) => {
+            addColumnIfMissing(db, 'job_log', 'reason_code', 'TEXT');
+            addColumnIfMissing(db, 'job_log', 'run_id', 'TEXT');
+        },
+    },
+    {
+        version: 5,
+        name: 'pipeline_stage_results',
+        up: (db) => {
+            db.exec(`
+                -- 🧩 Intermediate stage output (re-runnable pipeline stages)
+                CREATE TABLE IF NOT EXISTS stage_results (
+                    id TEXT PRIMARY KEY,
+                    company_id TEXT NOT NULL,
+                    stage TEXT NOT NULL,
+                    run_id TEXT,
+                    payload TEXT NOT NULL,
+                    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    FOREIGN KEY (company_id) REFERENCES companies(id)
+                );
+                CREATE INDEX IF NOT EXISTS idx_stage_results_company ON stage_results(company_id);
+            `);
+            addColumnIfMissing(db, 'job_log', 'stage', 'TEXT');
+        },
+    },
+    {
+        version: 6,
+        name: 'runs',
+        up: (db) => {
+            db.exec(`
+                -- 🏁 Scheduler runs (campaigns)
+                CREATE TABLE IF NOT EXISTS runs (
+                    id TEXT PRIMARY KEY,
+                    source_csv TEXT,
+                    mode TEXT,
+                    status TEXT NOT NULL DEFAULT 'RUNNING',
+                    loaded INTEGER DEFAULT 0,
+                    enqueued INTEGER DEFAULT 0,
+                    skipped INTEGER DEFAULT 0,
+                    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    finished_at DATETIME
+                );
+                CREATE INDEX IF NOT EXISTS idx_job_log_run ON job_log(run_id);
+            `);
+        },
+    },
+    {
+        version: 7,
+        name: 'enrichment_versions',
+        up: (db) => {
+            db.exec(`
+                -- 🕰️ Append-only field history with provenance
+                CREATE TABLE enrichment_versions (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    company_id TEXT NOT NULL,
+                    run_id TEXT,
+                    field TEXT NOT NULL,
+                    value TEXT,
+                    source TEXT NOT NULL,
+                    confidence REAL,
+                    recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    FOREIGN KEY (company_id) REFERENCES companies(id)
+                );
+                CREATE INDEX idx_versions_company_field ON enrichment_versions(company_id, field);
+                CREATE INDEX idx_versions_run ON enrichment_versions(run_id);
+            `);
+
+            // Backfill: existing rows become the first version of each populated field.
+            for (const field of ['vat', 'revenue', 'revenue_year', 'employees', 'pec', 'website_validated']) {
+                db.exec(`
+                    INSERT INTO enrichment_versions (company_id, field, value, source, confidence, recorded_at)
+                    SELECT company_id, '${field}', ${field}, 'UNKNOWN',
+                        ${field === 'website_validated' ? 'discovery_confidence' : 'NULL'}, enriched_at
+                    FROM enrichment_results
+                    WHERE ${field} IS NOT NULL AND ${field} != ''
+                `);
+            }
+        },
+    },
+    {
+        version: 8,
+        name: 'jobs',
+        up: (db) => {
+            db.exec(`
+                -- 🧾 API jobs (scrape niche x location combos, then enrich)
+                CREATE TABLE jobs (
+                    id TEXT PRIMARY KEY,
+                    status TEXT NOT NULL DEFAULT 'QUEUED',
+                    niches TEXT NOT NULL,
+                    locations TEXT NOT NULL,
+                    company_limit INTEGER,
+                    enrich INTEGER DEFAULT 1,
+                    total_tasks INTEGER DEFAULT 0,
+                    completed_tasks INTEGER DEFAULT 0,
+                    failed_tasks INTEGER DEFAULT 0,
+                    error TEXT,
+                    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    finished_at DATETIME
+                );
+                CREATE TABLE job_events (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    job_id TEXT NOT NULL,
+                    level TEXT NOT NULL,
+                    message TEXT NOT NULL,
+                    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    FOREIGN KEY (job_id) REFERENCES jobs(id)
+                );
+                CREATE TABLE job_artifacts (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    job_id TEXT NOT NULL,
+                    kind TEXT NOT NULL,
+                    path TEXT NOT NULL,
+                    row_count INTEGER DEFAULT 0,
+                    label TEXT,
+                    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    FOREIGN KEY (job_id) REFERENCES jobs(id)
+                );
+                CREATE INDEX idx_job_events_job ON job_events(job_id);
+                CREATE INDEX idx_job_artifacts_job ON job_artifacts(job_id);
+            `);
+            addColumnIfMissing(db, 'runs', 'job_id', 'TEXT');
+            db.exec('CREATE INDEX IF NOT EXISTS idx_runs_job ON runs(job_id)');
+        },
+    },
+    {
+        version: 9,
+        name: 'tenants',
+        up: (db) => {
+            db.exec(`
+                -- 🔑 Tenants, their API keys (sha256 hashes only) and daily quota usage
+                CREATE TABLE tenants (
+                    id TEXT PRIMARY KEY,
+                    name TEXT NOT NULL,
+                    daily_company_quota INTEGER,
+                    daily_spend_quota_usd REAL,
+                    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+                );
+                CREATE TABLE api_keys (
+                    id TEXT PRIMARY KEY,
+                    tenant_id TEXT NOT NULL,
+                    key_hash TEXT NOT NULL UNIQUE,
+                    label TEXT,
+                    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    last_used_at DATETIME,
+                    revoked_at DATETIME,
+                    FOREIGN KEY (tenant_id) REFERENCES tenants(id)
+                );
+                CREATE TABLE tenant_usage (
+                    tenant_id TEXT NOT NULL,
+                    day TEXT NOT NULL,
+                    companies_enqueued INTEGER DEFAULT 0,
+                    spend_usd REAL DEFAULT 0,
+                    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    PRIMARY KEY (tenant_id, day),
+                    FOREIGN KEY (tenant_id) REFERENCES tenants(id)
+                );
+                CREATE INDEX idx_api_keys_tenant ON api_keys(tenant_id);
+            `);
+            for (const table of ['companies', 'runs', 'jobs']) {
+                addColumnIfMissing(db, table, 'tenant_id', 'TEXT');
+                db.exec(`CREATE INDEX IF NOT EXISTS idx_${table}_tenant ON ${table}(tenant_id)`);
+            }
+        },
+    },
+    {
+        version: 10,
+        name: 'webhooks',
+        up: (db) => {
+            db.exec(`
+                -- 🪝 Webhook subscriptions and the log of every delivery attempt
+                CREATE TABLE webhook_subscriptions (
+                    id TEXT PRIMARY KEY,
+                    tenant_id TEXT,
+                    url TEXT NOT NULL,
+                    secret TEXT NOT NULL,
+                    events TEXT NOT NULL,
+                    active INTEGER DEFAULT 1,
+                    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+                );
+                CREATE TABLE webhook_deliveries (
+                    id TEXT PRIMARY KEY,
+                    subscription_id TEXT NOT NULL,
+                    event TEXT NOT NULL,
+                    payload TEXT NOT NULL,
+                    status TEXT NOT NULL DEFAULT 'PENDING',
+                    attempts INTEGER DEFAULT 0,
+                    response_status INTEGER,
+                    error TEXT,
+                    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    delivered_at DATETIME,
+                    FOREIGN KEY (subscription_id) REFERENCES webhook_subscriptions(id)
+                );
+                CREATE INDEX idx_webhook_subscriptions_tenant ON webhook_subscriptions(tenant_id);
+                CREATE INDEX idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id, created_at);
+            `);
+        },
+    },
+    {
+        version: 11,
+        name: 'discovery_traces',
+        up: (db) => {
+            db.exec(`
+                -- 🧭 Structured trace of every discovery decision (layers, candidates, verifications)
+                CREATE TABLE discovery_traces (
+                    id TEXT PRIMARY KEY,
+                    company_id TEXT NOT NULL,
+                    run_id TEXT,
+                    mode TEXT,
+                    status TEXT NOT NULL,
+                    url TEXT,
+                    trace TEXT NOT NULL,
+                    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    FOREIGN KEY (company_id) REFERENCES companies(id)
+                );
+                CREATE INDEX idx_discovery_traces_company ON discovery_traces(company_id, created_at);
+            `);
+        },
+    },
+    {
+        version: 12,
+        name: 'shared_domain_owner',
+        up: (db) => {
+            db.exec(`
+                -- 🔗 Company that owns a website several companies were matched to (AMBIGUOUS_SHARED_DOMAIN)
+                ALTER TABLE enrichment_results ADD COLUMN shared_domain_owner TEXT;
+            `);
+        },
+    },
+    {
+        version: 13,
+        name: 'secondary_websites',
+        up: (db) => {
+            db.exec(`
+                -- 🌐 Verified secondary domains next to website_validated (JSON array of SecondaryWebsite)
+                ALTER TABLE enrichment_results ADD COLUMN secondary_websites TEXT;
+            `);
+        },
+    },
+    {
+        version: 14,
+        name: 'social_profiles',
+        up: (db) => {
+            db.exec(`
+                -- 👥 Verified company pages on social networks
+                ALTER TABLE enrichment_results ADD COLUMN facebook_url TEXT;
+                ALTER TABLE enrichment_results ADD COLUMN instagram_url TEXT;
+                ALTER TABLE enrichment_results ADD COLUMN linkedin_company_url TEXT;
+            `);
+        },
+    },
+    {
+        version: 15,
+        name: 'website_verified_at',
+        up: (db) => {
+            db.exec(`
+                -- 🩺 Last liveness re-verification of website_validated (NULL: never, enriched_at applies)
+                ALTER TABLE enrichment_results ADD COLUMN website_verified_at DATETIME;
+            `);
+        },
+    },
+    {
+        version: 16,
+        name: 'serp_cache',
+        up: (db) => {
+            db.exec(`
+                -- 🔎 Provider answers shared by every worker (see core/discovery/serp/cache.ts)
+                CREATE TABLE serp_cache (
+                    provider TEXT NOT NULL,
+                    query_hash TEXT NOT NULL,
+                    query TEXT NOT NULL,
+                    company_id TEXT,
+                    results TEXT NOT NULL,
+                    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    expires_at DATETIME NOT NULL,
+                    PRIMARY KEY (provider, query_hash)
+                );
+                CREATE INDEX idx_serp_cache_company ON serp_cache(company_id);
+                CREATE TABLE serp_cache_usage (
+                    day TEXT NOT NULL,
+                    provider TEXT NOT NULL,
+                    hits INTEGER DEFAULT 0,
+                    misses INTEGER DEFAULT 0,
+                    saved_eur REAL DEFAULT 0,
+                    PRIMARY KEY (day, provider)
+                );
+            `);
+        },
+    },
+    {
+        version: 17,
+        name: 'ground_truth_benchmarks',
+        up: (db) => {
+            db.exec(`
+                -- 🎯 Labeled companies (expected_domain NULL: no website) and accuracy benchmark runs
+                CREATE TABLE ground_truth_labels (
+                    dataset TEXT NOT NULL,
+                    label_id TEXT NOT NULL,
+                    company TEXT NOT NULL,
+                    expected_domain TEXT,
+                    notes TEXT,
+                    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    PRIMARY KEY (dataset, label_id)
+                );
+                CREATE TABLE benchmark_runs (
+                    id TEXT PRIMARY KEY,
+                    dataset TEXT NOT NULL,
+                    mode TEXT NOT NULL,
+                    started_at DATETIME NOT NULL,
+                    finished_at DATETIME NOT NULL,
+                    summary TEXT NOT NULL
+                );
+                CREATE INDEX idx_benchmark_runs_dataset ON benchmark_runs(dataset, started_at);
+                CREATE TABLE benchmark_results (
+                    run_id TEXT NOT NULL,
+                    label_id TEXT NOT NULL,
+                    expected_domain TEXT,
+                    url TEXT,
+                    status TEXT NOT NULL,
+                    reason_code TEXT,
+                    outcome TEXT NOT NULL,
+                    cost_eur REAL DEFAULT 0,
+                    latency_ms INTEGER DEFAULT 0,
+                    PRIMARY KEY (run_id, label_id),
+                    FOREIGN KEY (run_id) REFERENCES benchmark_runs(id)
+                );
+            `);
+        },
+    },
+    {
+        version: 18,
+        name: 'financial_figures',
+        up: (db) => {
+            db.exec(`
+                -- 📈 Financial statement figures per fiscal year (euro cents, employees as a headcount)
+                CREATE TABLE financial_figures (
+                    company_id TEXT NOT NULL,
+                    metric TEXT NOT NULL,
+                    fiscal_year INTEGER NOT NULL,
+                    value INTEGER NOT NULL,
+                    source TEXT NOT NULL,
+                    confidence REAL NOT NULL,
+                    source_url TEXT,
+                    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    PRIMARY KEY (company_id, metric, fiscal_year),
+                    FOREIGN KEY (company_id) REFERENCES companies(id)
+                );
+            `);
+        },
+    },
+];
+
+function ensureMigrationsTable(db: Database): void {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+    `);
+}
+
+function assertOrdered(migrations: Migration[]): void {
+    migrations.forEach((migration, index) => {
+        if (migration.version !== index + 1) {
+            throw new Error(`Migration versions must be sequential: expected ${index + 1}, got ${migration.version} (${migration.name})`);
+        }
+    });
+}
+
+export function getSchemaVersion(db: Database): number {
+    ensureMigrationsTable(db);
+    const row = db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null };
+    return row.version ?? 0;
+}
+
+export function getMigrationStatus(db: Database, migrations: Migration[] = MIGRATIONS): MigrationStatus[] {
+    ensureMigrationsTable(db);
+    const applied = new Map(
+        (db.prepare('SELECT version, applied_at FROM schema_migrations').all() as Array<{ version: number; applied_at: string }>)
+            .map((row) => [row.version, row.applied_at])
+    );
+    return migrations.map((migration) => ({
+        version: migration.version,
+        name: migration.name,
+        applied: applied.has(migration.version),
+        applied_at: applied.get(migration.version),
+    }));
+}
+
+/**
+ * Apply pending migrations in order, each in its own transaction.
+ * Returns the migrations that were applied by this call.
+ */
+export function runMigrations(
+    db: Database,
+    options: { targetVersion?: number; migrations?: Migration[] } = {}
+): Migration[] {
+    const migrations = options.migrations || MIGRATIONS;
+    assertOrdered(migrations);
+    ensureMigrationsTable(db);
+
+    const current = getSchemaVersion(db);
+    const target = options.targetVersion ?? migrations.length;
+    const pending = migrations.filter((m) => m.version > current && m.version <= target);
+    const record = db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)');
+
+    for (const migration of pending) {
+        db.transaction(() => {
+            migration.up(db);
+            record.run(migration.version, migration.name);
+        })();
+    }
+
+    return pending;
+}
@@ -0,0 +1,674 @@
+/**
+ * 📐 STORAGE MODEL
+ * Row types and pure helpers shared by every ResultStore backend (SQLite, PostgreSQL).
+ * Nothing in here touches a connection, so importing it never opens a database.
+ */
+
+import * as fs from 'fs';
+import { Logger } from '../utils/logger';
+import { DataMerger, DataSource } from '../utils/data_merger';
+import type { CompanyInput, SecondaryWebsite } from '../types';
+
+// 📦 Type Definitions
+export interface Company {
+    id: string;
+    company_name: string;
+    city?: string;
+    province?: string;
+    zip_code?: string;
+    region?: string;
+    address?: string;
+    phone?: string;
+    website?: string;
+    category?: string;
+    source?: string;
+    vat_code?: string;
+    pg_url?: string;
+    email?: string;
+    tenant_id?: string;
+}
+
+export interface JobFailure {
+    company_id: string;
+    reason_code?: string;
+    error_category?: string;
+    error_message?: string;
+    stage?: string;
+    run_id?: string;
+    processed_at: string;
+}
+
+export type JobLogStatus = 'SUCCESS' | 'FAILED' | 'RETRYING';
+
+export interface JobLogEntry {
+    company_id: string;
+    status: JobLogStatus;
+    duration_ms: number;
+    attempt: number;
+    error_message?: string;
+    error_category?: string;
+    reason_code?: string;
+    run_id?: string;
+    stage?: string;
+}
+
+export const VERSIONED_FIELDS = ['vat', 'revenue', 'revenue_year', 'employees', 'pec', 'website_validated'] as const;
+export type VersionedField = typeof VERSIONED_FIELDS[number];
+
+export interface FieldProvenance {
+    source: DataSource;
+    confidence?: number;
+}
+
+/**
+ * Provenance for one enrichment write. Fields listed here are always recorded,
+ * even when empty (an explicit clear); unlisted empty fields keep their previous value.
+ */
+export interface EnrichmentProvenance {
+    run_id?: string;
+    fields: Partial<Record<VersionedField, FieldProvenance>>;
+}
+
+export interface EnrichmentVersion {
+    id: number;
+    company_id: string;
+    run_id?: string;
+    field: VersionedField;
+    value: string | null;
+    source: DataSource;
+    confidence?: number;
+    recorded_at: string;
+}
+
+export type EnrichmentSnapshot = Partial<Record<VersionedField, EnrichmentVersion>>;
+
+export interface EnrichmentFieldChange {
+    field: VersionedField;
+    from?: Pick<EnrichmentVersion, 'value' | 'source' | 'confidence' | 'run_id'>;
+    to?: Pick<EnrichmentVersion, 'value' | 'source' | 'confidence' | 'run_id'>;
+}
+
+export type RunStatus = 'RUNNING' | 'PAUSED' | 'CANCELLED' | 'COMPLETED';
+
+export interface NewRun {
+    id: string;
+    job_id?: string;
+    tenant_id?: string;
+    source_csv?: string;
+    mode?: string;
+    status?: RunStatus;
+    loaded: number;
+    enqueued: number;
+    skipped: number;
+}
+
+export interface RunRecord {
+    id: string;
+    job_id?: string;
+    tenant_id?: string;
+    source_csv?: string;
+    mode?: string;
+    status: RunStatus;
+    loaded: number;
+    enqueued: number;
+    skipped: number;
+    succeeded: number;
+    failed: number;
+    created_at: string;
+    updated_at: string;
+    finished_at?: string;
+}
+
+// 🧾 API jobs: one scrape task per niche x location combo, then enrichment runs
+export type JobStatus = 'QUEUED' | 'SCRAPING' | 'ENRICHING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+export type JobTaskOutcome = 'completed' | 'failed';
+export type JobEventLevel = 'info' | 'warn' | 'error';
+
+export interface NewJob {
+    id: string;
+    tenant_id?: string;
+    niches: string[];
+    locations: string[];
+    company_limit?: number;
+    enrich: boolean;
+    total_tasks: number;
+}
+
+export interface JobRecord extends NewJob {
+    status: JobStatus;
+    completed_tasks: number;
+    failed_tasks: number;
+    error?: string;
+    created_at: string;
+    updated_at: string;
+    finished_at?: string;
+}
+
+export interface JobEvent {
+    id: number;
+    job_id: string;
+    level: JobEventLevel;
+    message: string;
+    created_at: string;
+}
+
+export interface NewJobArtifact {
+    job_id: string;
+    kind: 'csv';
+    path: string;
+    row_count: number;
+    label?: string;
+}
+
+export interface JobArtifact extends NewJobArtifact {
+    id: number;
+    created_at: string;
+}
+
+// 🔑 Tenants: API keys + daily quotas (companies enqueued, LLM spend in USD)
+export interface TenantQuotas {
+    /** null / undefined = unlimited */
+    daily_company_quota?: number | null;
+    daily_spend_quota_usd?: number | null;
+}
+
+export interface NewTenant extends TenantQuotas {
+    id: string;
+    name: string;
+}
+
+export interface TenantRecord extends NewTenant {
+    created_at: string;
+    updated_at: string;
+}
+
+export interface NewApiKey {
+    id: string;
+    tenant_id: string;
+    /** sha256 of the secret key; the key itself is never stored */
+    key_hash: string;
+    label?: string;
+}
+
+export interface ApiKeyRecord extends NewApiKey {
+    created_at: string;
+    last_used_at?: string;
+    revoked_at?: string;
+}
+
+export interface TenantUsage {
+    tenant_id: string;
+    /** UTC day, YYYY-MM-DD */
+    day: string;
+    companies_enqueued: number;
+    spend_usd: number;
+}
+
+// 🪝 Webhooks: subscriptions (event filter + HMAC secret) and their delivery log
+export const WEBHOOK_EVENTS = ['company.enriched', 'run.finished', 'dlq.entry'] as const;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+export type WebhookDeliveryStatus = 'PENDING' | 'DELIVERED' | 'FAILED';
+
+export interface NewWebhookSubscription {
+    id: string;
+    /** null / undefined = operator subscription, receives the events of every tenant */
+    tenant_id?: string;
+    url: string;
+    secret: string;
+    events: WebhookEvent[];
+}
+
+export interface WebhookSubscription extends NewWebhookSubscription {
+    active: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface NewWebhookDelivery {
+    id: string;
+    subscription_id: string;
+    event: WebhookEvent;
+    /** Exact JSON body that is signed and sent */
+    payload: string;
+}
+
+export interface WebhookDelivery extends NewWebhookDelivery {
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    response_status?: number;
+    error?: string;
+    created_at: string;
+    updated_at: string;
+    delivered_at?: string;
+}
+
+export interface WebhookAttempt {
+    status: WebhookDeliveryStatus;
+    response_status?: number;
+    error?: string;
+}
+
+// 🧭 Discovery decision traces (the trace body is core/discovery/discovery_trace's DiscoveryTrace)
+export interface NewDiscoveryTrace<T = unknown> {
+    id: string;
+    company_id: string;
+    run_id?: string;
+    mode?: string;
+    /** Final discovery status (FOUND_VALID, FOUND_INVALID, NOT_FOUND, ERROR) */
+    status: string;
+    url?: string;
+    trace: T;
+}
+
+export interface DiscoveryTraceRecord<T = unknown> extends NewDiscoveryTrace<T> {
+    created_at: string;
+}
+
+export interface DiscoveryTraceQuery {
+    runId?: string;
+    limit?: number;
+}
+
+export interface RecentDiscoveryTraceQuery {
+    /** Only traces created at or after this date / timestamp */
+    since?: string;
+    limit?: number;
+}
+
+export function toDiscoveryTraceRecord<T>(row: Record<string, unknown>): DiscoveryTraceRecord<T> {
+    return {
+        ...(row as unknown as DiscoveryTraceRecord<T>),
+        run_id: row.run_id == null ? undefined : String(row.run_id),
+        mode: row.mode == null ? undefined : String(row.mode),
+        url: row.url == null ? undefined : String(row.url),
+        trace: JSON.parse(String(row.trace)) as T,
+    };
+}
+
+export interface EnrichmentResult {
+    id: string;
+    company_id: string;
+    vat?: string;
+    revenue?: string;
+    revenue_year?: string;
+    employees?: string;
+    is_estimated_employees: boolean;
+    pec?: string;
+    website_validated?: string;
+    lead_score?: number;
+    data_source?: string;
+    discovery_method?: string;
+    discovery_confidence?: number;
+    reason_code?: string;
+    /** Set when another company owns the same website (reason_code AMBIGUOUS_SHARED_DOMAIN) */
+    shared_domain_owner?: string;
+    /** Other verified domains of the company (brand, e-commerce, country sites) */
+    secondary_websites?: SecondaryWebsite[];
+    /** Verified company pages on social networks (the only web presence when website_validated is empty) */
+    facebook_url?: string;
+    instagram_url?: string;
+    linkedin_company_url?: string;
+}
+
+/**
+ * `secondary_websites` column value (JSON, null when there are none).
+ */
+export function serializeSecondaryWebsites(websites: SecondaryWebsite[] | undefined): string | null {
+    return websites && websites.length > 0 ? JSON.stringify(websites) : null;
+}
+
+export function toEnrichmentResult(row: Record<string, unknown>): EnrichmentResult {
+    return {
+        ...(row as unknown as EnrichmentResult),
+        secondary_websites: row.secondary_websites == null ? undefined : JSON.parse(String(row.secondary_websites)) as SecondaryWebsite[],
+    };
+}
+
+/**
+ * 🔗 A company's claim on its validated website, for shared domain reconciliation.
+ */
+export interface WebsiteClaim {
+    company_id: string;
+    tenant_id?: string | null;
+    website: string;
+    discovery_confidence?: number | null;
+    reason_code?: string | null;
+    shared_domain_owner?: string | null;
+}
+
+export interface WebsiteClaimQuery {
+    tenantId?: string;
+    /** Only companies with a job_log entry in this run */
+    runId?: string;
+    /** Only websites containing one of these domains (a candidate filter: callers compare normalized domains) */
+    domains?: string[];
+}
+
+/**
+ * 🩺 A validated website due for a liveness check.
+ */
+export interface StaleWebsite extends WebsiteClaim {
+    /** Last verification (or the enrichment, for never re-verified websites) */
+    verified_at: string;
+}
+
+export interface StaleWebsiteQuery {
+    /** Websites last verified before this ISO timestamp */
+    verifiedBefore: string;
+    tenantId?: string;
+    limit?: number;
+}
+
+/**
+ * Outcome of a liveness check. A `website` different from the stored one is a transition,
+ * recorded in the website_validated history; the check time is always stored.
+ */
+export interface WebsiteCheck {
+    website: string | null;
+    confidence?: number;
+    /** Replaces the result's reason code (omitted: unchanged) */
+    reason_code?: string;
+    run_id?: string;
+}
+
+// 🔎 SERP cache: provider answers keyed by provider + SHA-256 of the normalized query
+export interface NewSerpCacheEntry<T = unknown> {
+    provider: string;
+    query_hash: string;
+    /** Normalized query (invalidation by pattern matches on it) */
+    query: string;
+    /** Company being processed when the answer was fetched */
+    company_id?: string;
+    results: T;
+    /** ISO timestamp */
+    expires_at: string;
+}
+
+export interface SerpCacheEntry<T = unknown> extends NewSerpCacheEntry<T> {
+    created_at: string;
+}
+
+/** Lookups of one provider on one UTC day */
+export interface SerpCacheUsage {
+    day: string;
+    provider: string;
+    hits: number;
+    misses: number;
+    /** Unit costs of the queries answered from the cache */
+    saved_eur: number;
+}
+
+/** Entries matching every given criterion (none given: every entry) */
+export interface SerpCacheFilter {
+    companyId?: string;
+    /** Substring of the normalized query */
+    queryPattern?: string;
+    provider?: string;
+    /** Only entries expired before this ISO timestamp */
+    expiredBefore?: string;
+}
+
+export function toSerpCacheEntry<T>(row: Record<string, unknown>): SerpCacheEntry<T> {
+    return {
+        ...(row as unknown as SerpCacheEntry<T>),
+        company_id: row.company_id == null ? undefined : String(row.company_id),
+        results: JSON.parse(String(row.results)) as T,
+    };
+}
+
+/** LIKE pattern matching values that contain `text` (its wildcards are escaped with a backslash) */
+export function containsLikePattern(text: string): string {
+    return `%${text.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+// 🎯 Ground truth: the known website of a company (or that it has none), grouped in datasets
+export interface GroundTruthLabel {
+    dataset: string;
+    label_id: string;
+    company: CompanyInput;
+    /** Normalized domain of the company website, null = the company has no website */
+    expected_domain: string | null;
+    notes?: string;
+}
+
+export interface GroundTruthLabelRecord extends GroundTruthLabel {
+    updated_at: string;
+}
+
+export function toGroundTruthLabel(row: Record<string, unknown>): GroundTruthLabelRecord {
+    return {
+        ...(row as unknown as GroundTruthLabelRecord),
+        company: JSON.parse(String(row.company)) as CompanyInput,
+        expected_domain: row.expected_domain == null ? null : String(row.expected_domain),
+        notes: row.notes == null ? undefined : String(row.notes),
+    };
+}
+
+// 🏁 Accuracy benchmark runs (the summary body is benchmark/accuracy's BenchmarkSummary)
+export type BenchmarkOutcome = 'correct_website' | 'correct_no_website' | 'wrong_website' | 'missed_website' | 'error';
+
+/** Discovery of one labeled company in a benchmark run */
+export interface BenchmarkResult {
+    label_id: string;
+    expected_domain: string | null;
+    /** Website returned (FOUND_VALID only), null when none */
+    url: string | null;
+    status: string;
+    reason_code: string | null;
+    outcome: BenchmarkOutcome;
+    cost_eur: number;
+    latency_ms: number;
+}
+
+export interface BenchmarkRunRecord<T = unknown> {
+    id: string;
+    dataset: string;
+    mode: string;
+    started_at: string;
+    finished_at: string;
+    summary: T;
+}
+
+export interface NewBenchmarkRun<T = unknown> extends BenchmarkRunRecord<T> {
+    results: BenchmarkResult[];
+}
+
+export function toBenchmarkRunRecord<T>(row: Record<string, unknown>): BenchmarkRunRecord<T> {
+    return {
+        ...(row as unknown as BenchmarkRunRecord<T>),
+        summary: JSON.parse(String(row.summary)) as T,
+    };
+}
+
+export function toBenchmarkResult(row: Record<string, unknown>): BenchmarkResult {
+    const { run_id: _runId, ...result } = row;
+    return {
+        ...(result as unknown as BenchmarkResult),
+        expected_domain: row.expected_domain == null ? null : String(row.expected_domain),
+        url: row.url == null ? null : String(row.url),
+        reason_code: row.reason_code == null ? null : String(row.reason_code),
+        cost_eur: Number(row.cost_eur),
+        latency_ms: Number(row.latency_ms),
+    };
+}
+
+// 📈 Financial statement figures: one value per company, metric and fiscal year
+export const FINANCIAL_METRICS = ['revenue', 'net_income', 'ebitda', 'personnel_cost', 'employees'] as const;
+export type FinancialMetric = typeof FINANCIAL_METRICS[number];
+
+export interface FinancialFigure {
+    metric: FinancialMetric;
+    fiscal_year: number;
+    /** Euro cents (negative for losses); a headcount for `employees` */
+    value: number;
+    source: DataSource;
+    /** 0-1: trust of the source, lowered for uncertain matches */
+    confidence: number;
+    source_url?: string;
+}
+
+export interface FinancialFigureRecord extends FinancialFigure {
+    company_id: string;
+    updated_at: string;
+}
+
+export function toFinancialFigure(row: Record<string, unknown>): FinancialFigureRecord {
+    return {
+        ...(row as unknown as FinancialFigureRecord),
+        fiscal_year: Number(row.fiscal_year),
+        value: Number(row.value),
+        confidence: Number(row.confidence),
+        source_url: row.source_url == null ? undefined : String(row.source_url),
+    };
+}
+
+export interface DatabaseStats {
+    total: number;
+    enriched: number;
+    pending: number;
+    failed: number;
+}
+
+export interface EnrichmentVersionRow {
+    field: VersionedField;
+    value: string | null;
+    source: DataSource;
+    confidence: number;
+}
+
+/**
+ * Version rows to append for one enrichment write (see EnrichmentProvenance for the empty-value rule).
+ */
+export function toEnrichmentVersionRows(result: EnrichmentResult, provenance?: EnrichmentProvenance): EnrichmentVersionRow[] {
+    const rows: EnrichmentVersionRow[] = [];
+    for (const field of VERSIONED_FIELDS) {
+        const raw = result[field];
+        const value = raw === undefined || raw === null || raw === '' ? null : String(raw);
+        const fieldProvenance = provenance?.fields[field];
+        if (value === null && !fieldProvenance) {
+            continue;
+        }
+        const source = fieldProvenance?.source ?? DataSource.UNKNOWN;
+        const confidence = fieldProvenance?.confidence ?? DataMerger.getTrustScore(source) / 100;
+        rows.push({ field, value, source, confidence });
+    }
+    return rows;
+}
+
+/**
+ * The `enrichment_results` row for a company, rebuilt from its current field snapshot.
+ */
+export function materializeEnrichmentResult(result: EnrichmentResult, current: EnrichmentSnapshot): EnrichmentResult {
+    const valueOf = (field: VersionedField) => current[field]?.value ?? undefined;
+    return {
+        ...result,
+        vat: valueOf('vat'),
+        revenue: valueOf('revenue'),
+        revenue_year: valueOf('revenue_year'),
+        employees: valueOf('employees'),
+        is_estimated_employees: current.employees?.source === DataSource.AI
+            || (current.employees === undefined && result.is_estimated_employees),
+        pec: valueOf('pec'),
+        website_validated: valueOf('website_validated'),
+    };
+}
+
+export function diffEnrichmentSnapshots(from: EnrichmentSnapshot, to: EnrichmentSnapshot): EnrichmentFieldChange[] {
+    const pick = (version?: EnrichmentVersion) => version
+        ? { value: version.value, source: version.source, confidence: version.confidence, run_id: version.run_id }
+        : undefined;
+
+    const changes: EnrichmentFieldChange[] = [];
+    for (const field of VERSIONED_FIELDS) {
+        const a = from[field];
+        const b = to[field];
+        if ((a?.value ?? null) === (b?.value ?? null) && a?.source === b?.source) {
+            continue;
+        }
+        changes.push({ field, from: pick(a), to: pick(b) });
+    }
+    return changes;
+}
+
+/**
+ * A RUNNING run is done once every enqueued company has a terminal outcome.
+ */
+export function isRunDone(run: RunRecord): boolean {
+    return run.status === 'RUNNING' && run.succeeded + run.failed >= run.enqueued;
+}
+
+export function isTerminalRunStatus(status: RunStatus): boolean {
+    return status === 'COMPLETED' || status === 'CANCELLED';
+}
+
+export function isTerminalJobStatus(status: JobStatus): boolean {
+    return status === 'COMPLETED' || status === 'FAILED' || status === 'CANCELLED';
+}
+
+/**
+ * Jobs store their niche / location lists as JSON text and `enrich` as 0/1 (SQLite) or boolean.
+ */
+export function toJobRecord(row: Record<string, unknown>): JobRecord {
+    return {
+        ...(row as unknown as JobRecord),
+        niches: JSON.parse(String(row.niches)) as string[],
+        locations: JSON.parse(String(row.locations)) as string[],
+        company_limit: row.company_limit == null ? undefined : Number(row.company_limit),
+        enrich: row.enrich === true || row.enrich === 1,
+    };
+}
+
+/**
+ * Subscriptions store their event filter as JSON text and `active` as 0/1 (SQLite) or boolean.
+ */
+export function toWebhookSubscription(row: Record<string, unknown>): WebhookSubscription {
+    return {
+        ...(row as unknown as WebhookSubscription),
+        tenant_id: row.tenant_id == null ? undefined : String(row.tenant_id),
+        events: JSON.parse(String(row.events)) as WebhookEvent[],
+        active: row.active === true || row.active === 1,
+    };
+}
+
+// 📤 CSV export (same columns for every backend)
+/** Derived from the financial figures and the parsed `revenue` of each company (core/financial/statement.ts) */
+export const FINANCIAL_EXPORT_COLUMNS = [
+    'revenue_year', 'revenue_eur', 'revenue_growth_pct', 'revenue_history',
+    'revenue_min_eur', 'revenue_max_eur', 'revenue_estimate_eur',
+    'net_income_eur', 'ebitda_eur', 'personnel_cost_eur', 'employees_count', 'employees_growth_pct',
+] as const;
+
+export type FinancialExportColumn = typeof FINANCIAL_EXPORT_COLUMNS[number];
+
+export const EXPORT_COLUMNS = [
+    'company_name', 'city', 'province', 'address', 'phone', 'category',
+    'vat', 'revenue', 'employees', 'pec', 'lead_score', 'data_source',
+    'website', 'secondary_websites', 'facebook_url', 'instagram_url', 'linkedin_company_url',
+    ...FINANCIAL_EXPORT_COLUMNS,
+] as const;
+
+/**
+ * Export value of a column: secondary websites (stored as JSON) become a `; `-separated URL list.
+ */
+function exportValue(column: typeof EXPORT_COLUMNS[number], value: unknown): unknown {
+    if (column !== 'secondary_websites' || value == null) {
+        return value;
+    }
+    return (JSON.parse(String(value)) as SecondaryWebsite[]).map((website) => website.url).join('; ');
+}
+
+export function writeEnrichedCSV(rows: Array<Record<string, unknown>>, outputPath: string): void {
+    if (rows.length === 0) {
+        Logger.warn('No enriched data to export');
+        return;
+    }
+
+    const lines = rows.map((row) => EXPORT_COLUMNS.map((column) => escapeCsvValue(exportValue(column, row[column]))).join(','));
+    fs.writeFileSync(outputPath, [EXPORT_COLUMNS.join(','), ...lines].join('\n'));
+    Logger.info(`📤 Exported ${rows.length} enriched companies to ${outputPath}`);
+}
+
+function escapeCsvValue(value: unknown): string {
+    const raw = value == null ? '' : String(value);
+    return `"${raw.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,368 @@
+/**
+ * 🐘 POSTGRES SCHEMA MIGRATIONS
+ * Same rules as ./migrations.ts (append-only, numbered, one transaction each), tracked in the
+ * Postgres `schema_migrations` table. Versions are independent of the SQLite list: Postgres
+ * databases never held the pre-framework schema, so version 1 is the full current schema.
+ */
+
+export interface PostgresMigration {
+    version: number;
+    name: string;
+    sql: string;
+}
+
+export const POSTGRES_MIGRATIONS: PostgresMigration[] = [
+    {
+        version: 1,
+        name: 'initial_schema',
+        sql: `
+            -- 📥 Input companies (raw data from CSV)
+            CREATE TABLE companies (
+                id TEXT PRIMARY KEY,
+                company_name TEXT NOT NULL,
+                city TEXT,
+                province TEXT,
+                zip_code TEXT,
+                region TEXT,
+                address TEXT,
+                phone TEXT,
+                website TEXT,
+                category TEXT,
+                source TEXT DEFAULT 'CSV',
+                vat_code TEXT,
+                pg_url TEXT,
+                email TEXT,
+                created_at TIMESTAMPTZ DEFAULT NOW(),
+                updated_at TIMESTAMPTZ DEFAULT NOW()
+            );
+
+            -- 📊 Enrichment results ("current view" materialized from enrichment_versions)
+            CREATE TABLE enrichment_results (
+                id TEXT PRIMARY KEY,
+                company_id TEXT NOT NULL REFERENCES companies(id),
+                vat TEXT,
+                revenue TEXT,
+                revenue_year TEXT,
+                employees TEXT,
+                is_estimated_employees BOOLEAN DEFAULT FALSE,
+                pec TEXT,
+                website_validated TEXT,
+                lead_score INTEGER,
+                data_source TEXT,
+                discovery_method TEXT,
+                discovery_confidence DOUBLE PRECISION,
+                reason_code TEXT,
+                enriched_at TIMESTAMPTZ DEFAULT NOW()
+            );
+
+            -- 🕰️ Append-only field history with provenance
+            CREATE TABLE enrichment_versions (
+                id SERIAL PRIMARY KEY,
+                company_id TEXT NOT NULL REFERENCES companies(id),
+                run_id TEXT,
+                field TEXT NOT NULL,
+                value TEXT,
+                source TEXT NOT NULL,
+                confidence DOUBLE PRECISION,
+                recorded_at TIMESTAMPTZ DEFAULT NOW()
+            );
+
+            -- 📜 Job processing log (audit trail)
+            CREATE TABLE job_log (
+                id SERIAL PRIMARY KEY,
+                company_id TEXT NOT NULL REFERENCES companies(id),
+                status TEXT NOT NULL,
+                error_message TEXT,
+                error_category TEXT,
+                reason_code TEXT,
+                run_id TEXT,
+                stage TEXT,
+                duration_ms INTEGER,
+                attempt INTEGER DEFAULT 1,
+                processed_at TIMESTAMPTZ DEFAULT NOW()
+            );
+
+            -- 🧩 Intermediate stage output (re-runnable pipeline stages)
+            CREATE TABLE stage_results (
+                id TEXT PRIMARY KEY,
+                company_id TEXT NOT NULL REFERENCES companies(id),
+                stage TEXT NOT NULL,
+                run_id TEXT,
+                payload TEXT NOT NULL,
+                updated_at TIMESTAMPTZ DEFAULT NOW()
+            );
+
+            -- 🏁 Scheduler runs (campaigns)
+            CREATE TABLE runs (
+                id TEXT PRIMARY KEY,
+                source_csv TEXT,
+                mode TEXT,
+                status TEXT NOT NULL DEFAULT 'RUNNING',
+                loaded INTEGER DEFAULT 0,
+                enqueued INTEGER DEFAULT 0,
+                skipped INTEGER DEFAULT 0,
+                created_at TIMESTAMPTZ DEFAULT NOW(),
+                updated_at TIMESTAMPTZ DEFAULT NOW(),
+                finished_at TIMESTAMPTZ
+            );
+
+            -- 🏷️ Indexes for fast lookups
+            CREATE INDEX idx_companies_name ON companies(company_name);
+            CREATE INDEX idx_companies_city ON companies(city);
+            CREATE INDEX idx_results_company ON enrichment_results(company_id);
+            CREATE INDEX idx_results_vat ON enrichment_results(vat);
+            CREATE INDEX idx_versions_company_field ON enrichment_versions(company_id, field);
+            CREATE INDEX idx_versions_run ON enrichment_versions(run_id);
+            CREATE INDEX idx_job_log_company ON job_log(company_id);
+            CREATE INDEX idx_job_log_status ON job_log(status);
+            CREATE INDEX idx_job_log_run ON job_log(run_id);
+            CREATE INDEX idx_stage_results_company ON stage_results(company_id);
+        `,
+    },
+    {
+        version: 2,
+        name: 'jobs',
+        sql: `
+            -- 🧾 API jobs (scrape niche x location combos, then enrich)
+            CREATE TABLE jobs (
+                id TEXT PRIMARY KEY,
+                status TEXT NOT NULL DEFAULT 'QUEUED',
+                niches TEXT NOT NULL,
+                locations TEXT NOT NULL,
+                company_limit INTEGER,
+                enrich BOOLEAN DEFAULT TRUE,
+                total_tasks INTEGER DEFAULT 0,
+                completed_tasks INTEGER DEFAULT 0,
+                failed_tasks INTEGER DEFAULT 0,
+                error TEXT,
+                created_at TIMESTAMPTZ DEFAULT NOW(),
+                updated_at TIMESTAMPTZ DEFAULT NOW(),
+                finished_at TIMESTAMPTZ
+            );
+            CREATE TABLE job_events (
+                id SERIAL PRIMARY KEY,
+                job_id TEXT NOT NULL REFERENCES jobs(id),
+                level TEXT NOT NULL,
+                message TEXT NOT NULL,
+                created_at TIMESTAMPTZ DEFAULT NOW()
+            );
+            CREATE TABLE job_artifacts (
+                id SERIAL PRIMARY KEY,
+                job_id TEXT NOT NULL REFERENCES jobs(id),
+                kind TEXT NOT NULL,
+                path TEXT NOT NULL,
+                row_count INTEGER DEFAULT 0,
+                label TEXT,
+                created_at TIMESTAMPTZ DEFAULT NOW()
+            );
+            ALTER TABLE runs ADD COLUMN job_id TEXT;
+            CREATE INDEX idx_job_events_job ON job_events(job_id);
+            CREATE INDEX idx_job_artifacts_job ON job_artifacts(job_id);
+            CREATE INDEX idx_runs_job ON runs(job_id);
+        `,
+    },
+    {
+        version: 3,
+        name: 'tenants',
+        sql: `
+            -- 🔑 Tenants, their API keys (sha256 hashes only) and daily quota usage
+            CREATE TABLE tenants (
+                id TEXT PRIMARY KEY,
+                name TEXT NOT NULL,
+                daily_company_quota INTEGER,
+                daily_spend_quota_usd DOUBLE PRECISION,
+                created_at TIMESTAMPTZ DEFAULT NOW(),
+                updated_at TIMESTAMPTZ DEFAULT NOW()
+            );
+            CREATE TABLE api_keys (
+                id TEXT PRIMARY KEY,
+                tenant_id TEXT NOT NULL REFERENCES tenants(id),
+                key_hash TEXT NOT NULL UNIQUE,
+                label TEXT,
+                created_at TIMESTAMPTZ DEFAULT NOW(),
+                last_used_at TIMESTAMPTZ,
+                revoked_at TIMESTAMPTZ
+            );
+            CREATE TABLE tenant_usage (
+                tenant_id TEXT NOT NULL REFERENCES tenants(id),
+                day TEXT NOT NULL,
+                companies_enqueued INTEGER DEFAULT 0,
+                spend_usd DOUBLE PRECISION DEFAULT 0,
+                updated_at TIMESTAMPTZ DEFAULT NOW(),
+                PRIMARY KEY (tenant_id, day)
+            );
+            ALTER TABLE companies ADD COLUMN tenant_id TEXT;
+            ALTER TABLE runs ADD COLUMN tenant_id TEXT;
+            ALTER TABLE jobs ADD COLUMN tenant_id TEXT;
+            CREATE INDEX idx_api_keys_tenant ON api_keys(tenant_id);
+            CREATE INDEX idx_companies_tenant ON companies(tenant_id);
+            CREATE INDEX idx_runs_tenant ON runs(tenant_id);
+            CREATE INDEX idx_jobs_tenant ON jobs(tenant_id);
+        `,
+    },
+    {
+        version: 4,
+        name: 'webhooks',
+        sql: `
+            -- 🪝 Webhook subscriptions and the log of every delivery attempt
+            CREATE TABLE webhook_subscriptions (
+                id TEXT PRIMARY KEY,
+                tenant_id TEXT,
+                url TEXT NOT NULL,
+                secret TEXT NOT NULL,
+                events TEXT NOT NULL,
+                active BOOLEAN DEFAULT TRUE,
+                created_at TIMESTAMPTZ DEFAULT NOW(),
+                updated_at TIMESTAMPTZ DEFAULT NOW()
+            );
+            CREATE TABLE webhook_deliveries (
+                id TEXT PRIMARY KEY,
+                subscription_id TEXT NOT NULL REFERENCES webhook_subscriptions(id),
+                event TEXT NOT NULL,
+                payload TEXT NOT NULL,
+                status TEXT NOT NULL DEFAULT 'PENDING',
+                attempts INTEGER DEFAULT 0,
+                response_status INTEGER,
+                error TEXT,
+                created_at TIMESTAMPTZ DEFAULT NOW(),
+                updated_at TIMESTAMPTZ DEFAULT NOW(),
+                delivered_at TIMESTAMPTZ
+            );
+            CREATE INDEX idx_webhook_subscriptions_tenant ON webhook_subscriptions(tenant_id);
+            CREATE INDEX idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id, created_at);
+        `,
+    },
+    {
+        version: 5,
+        name: 'discovery_traces',
+        sql: `
+            -- 🧭 Structured trace of every discovery decision (layers, candidates, verifications)
+            CREATE TABLE discovery_traces (
+                id TEXT PRIMARY KEY,
+                company_id TEXT NOT NULL REFERENCES companies(id),
+                run_id TEXT,
+                mode TEXT,
+                status TEXT NOT NULL,
+                url TEXT,
+                trace TEXT NOT NULL,
+                created_at TIMESTAMPTZ DEFAULT NOW()
+            );
+            CREATE INDEX idx_discovery_traces_company ON discovery_traces(company_id, created_at);
+        `,
+    },
+    {
+        version: 6,
+        name: 'shared_domain_owner',
+        sql: `
+            -- 🔗 Company that owns a website several companies were matched to (AMBIGUOUS_SHARED_DOMAIN)
+            ALTER TABLE enrichment_results ADD COLUMN shared_domain_owner TEXT;
+        `,
+    },
+    {
+        version: 7,
+        name: 'secondary_websites',
+        sql: `
+            -- 🌐 Verified secondary domains next to website_validated (JSON array of SecondaryWebsite)
+            ALTER TABLE enrichment_results ADD COLUMN secondary_websites TEXT;
+        `,
+    },
+    {
+        version: 8,
+        name: 'social_profiles',
+        sql: `
+            -- 👥 Verified company pages on social networks
+            ALTER TABLE enrichment_results ADD COLUMN facebook_url TEXT;
+            ALTER TABLE enrichment_results ADD COLUMN instagram_url TEXT;
+            ALTER TABLE enrichment_results ADD COLUMN linkedin_company_url TEXT;
+        `,
+    },
+    {
+        version: 9,
+        name: 'website_verified_at',
+        sql: `
+            -- 🩺 Last liveness re-verification of website_validated (NULL: never, enriched_at applies)
+            ALTER TABLE enrichment_results ADD COLUMN website_verified_at TIMESTAMPTZ;
+        `,
+    },
+    {
+        version: 10,
+        name: 'serp_cache',
+        sql: `
+            -- 🔎 Provider answers shared by every worker (see core/discovery/serp/cache.ts)
+            CREATE TABLE serp_cache (
+                provider TEXT NOT NULL,
+                query_hash TEXT NOT NULL,
+                query TEXT NOT NULL,
+                company_id TEXT,
+                results TEXT NOT NULL,
+                created_at TIMESTAMPTZ DEFAULT NOW(),
+                expires_at TIMESTAMPTZ NOT NULL,
+                PRIMARY KEY (provider, query_hash)
+            );
+            CREATE INDEX idx_serp_cache_company ON serp_cache(company_id);
+            CREATE TABLE serp_cache_usage (
+                day TEXT NOT NULL,
+                provider TEXT NOT NULL,
+                hits INTEGER DEFAULT 0,
+                misses INTEGER DEFAULT 0,
+                saved_eur DOUBLE PRECISION DEFAULT 0,
+                PRIMARY KEY (day, provider)
+            );
+        `,
+    },
+    {
+        version: 11,
+        name: 'ground_truth_benchmarks',
+        sql: `
+            -- 🎯 Labeled companies (expected_domain NULL: no website) and accuracy benchmark runs
+            CREATE TABLE ground_truth_labels (
+                dataset TEXT NOT NULL,
+                label_id TEXT NOT NULL,
+                company TEXT NOT NULL,
+                expected_domain TEXT,
+                notes TEXT,
+                updated_at TIMESTAMPTZ DEFAULT NOW(),
+                PRIMARY KEY (dataset, label_id)
+            );
+            CREATE TABLE benchmark_runs (
+                id TEXT PRIMARY KEY,
+                dataset TEXT NOT NULL,
+                mode TEXT NOT NULL,
+                started_at TIMESTAMPTZ NOT NULL,
+                finished_at TIMESTAMPTZ NOT NULL,
+                summary TEXT NOT NULL
+            );
+            CREATE INDEX idx_benchmark_runs_dataset ON benchmark_runs(dataset, started_at);
+            CREATE TABLE benchmark_results (
+                run_id TEXT NOT NULL REFERENCES benchmark_runs(id),
+                label_id TEXT NOT NULL,
+                expected_domain TEXT,
+                url TEXT,
+                status TEXT NOT NULL,
+                reason_code TEXT,
+                outcome TEXT NOT NULL,
+                cost_eur DOUBLE PRECISION DEFAULT 0,
+                latency_ms INTEGER DEFAULT 0,
+                PRIMARY KEY (run_id, label_id)
+            );
+        `,
+    },
+    {
+        version: 12,
+        name: 'financial_figures',
+        sql: `
+            -- 📈 Financial statement figures per fiscal year (euro cents, employees as a headcount)
+            CREATE TABLE financial_figures (
+                company_id TEXT NOT NULL REFERENCES companies(id),
+                metric TEXT NOT NULL,
+                fiscal_year INTEGER NOT NULL,
+                value BIGINT NOT NULL,
+                source TEXT NOT NULL,
+                confidence DOUBLE PRECISION NOT NULL,
+                source_url TEXT,
+                updated_at TIMESTAMPTZ DEFAULT NOW(),
+                PRIMARY KEY (company_id, metric, fiscal_year)
+            );
+        `,
+    },
+];
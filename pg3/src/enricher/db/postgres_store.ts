@@ -0,0 +1,919 @@
+/**
+ * 🐘 POSTGRES RESULT STORE
+ * ResultStore on a shared PostgreSQL database (node-postgres pool), so several worker
+ * hosts can enrich into the same tables. Mirrors the SQLite semantics in ./index.ts:
+ * enrichment_results is re-materialized from enrichment_versions on every write, and
+ * run counters are derived from job_log.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { Logger } from '../utils/logger';
+import { DataSource } from '../utils/data_merger';
+import type { ResultStore } from './result_store';
+import { POSTGRES_MIGRATIONS, PostgresMigration } from './postgres_migrations';
+import {
+    ApiKeyRecord,
+    Company,
+    DatabaseStats,
+    DiscoveryTraceQuery,
+    DiscoveryTraceRecord,
+    EnrichmentProvenance,
+    EnrichmentResult,
+    EnrichmentSnapshot,
+    EnrichmentVersion,
+    FinancialFigure,
+    FinancialFigureRecord,
+    JobArtifact,
+    JobEvent,
+    JobEventLevel,
+    JobFailure,
+    JobLogEntry,
+    JobRecord,
+    JobStatus,
+    JobTaskOutcome,
+    NewApiKey,
+    NewDiscoveryTrace,
+    NewJob,
+    NewJobArtifact,
+    NewRun,
+    NewTenant,
+    RunRecord,
+    RunStatus,
+    TenantQuotas,
+    TenantRecord,
+    TenantUsage,
+    NewWebhookDelivery,
+    NewWebhookSubscription,
+    RecentDiscoveryTraceQuery,
+    NewSerpCacheEntry,
+    BenchmarkResult,
+    BenchmarkRunRecord,
+    GroundTruthLabel,
+    GroundTruthLabelRecord,
+    NewBenchmarkRun,
+    SerpCacheEntry,
+    SerpCacheFilter,
+    SerpCacheUsage,
+    StaleWebsite,
+    StaleWebsiteQuery,
+    WebhookAttempt,
+    WebhookDelivery,
+    WebhookSubscription,
+    WebsiteCheck,
+    WebsiteClaim,
+    WebsiteClaimQuery,
+    isRunDone,
+    isTerminalJobStatus,
+    isTerminalRunStatus,
+    materializeEnrichmentResult,
+    serializeSecondaryWebsites,
+    toEnrichmentVersionRows,
+    toDiscoveryTraceRecord,
+    toSerpCacheEntry,
+    toBenchmarkResult,
+    toBenchmarkRunRecord,
+    toGroundTruthLabel,
+    containsLikePattern,
+    toEnrichmentResult,
+    toFinancialFigure,
+    toJobRecord,
+    toWebhookSubscription,
+    writeEnrichedCSV,
+} from './model';
+import { withFinancialExportValues } from '../core/financial/statement';
+
+// Arbitrary app-wide key so concurrent hosts apply migrations one at a time
+const MIGRATION_LOCK_KEY = 715_320_061;
+
+// succeeded / failed are derived from job_log so retries never double count
+const RUN_SELECT = `
+    SELECT r.*, COALESCE(s.n, 0) AS succeeded, COALESCE(f.n, 0) AS failed
+    FROM runs r
+    LEFT JOIN (
+        SELECT run_id, COUNT(DISTINCT company_id)::int AS n FROM job_log WHERE status = 'SUCCESS' GROUP BY run_id
+    ) s ON s.run_id = r.id
+    LEFT JOIN (
+        SELECT run_id, COUNT(DISTINCT company_id)::int AS n FROM job_log WHERE status = 'FAILED' GROUP BY run_id
+    ) f ON f.run_id = r.id
+`;
+
+type Queryable = Pool | PoolClient;
+
+/**
+ * node-postgres returns TIMESTAMPTZ as Date; the shared model (and the SQLite backend) uses strings.
+ */
+function normalizeRow<T>(row: Record<string, unknown>): T {
+    const normalized: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(row)) {
+        normalized[key] = value instanceof Date ? value.toISOString() : value;
+    }
+    return normalized as T;
+}
+
+async function queryRows<T>(db: Queryable, sql: string, params: unknown[] = []): Promise<T[]> {
+    const result = await db.query(sql, params);
+    return result.rows.map((row) => normalizeRow<T>(row));
+}
+
+async function queryOne<T>(db: Queryable, sql: string, params: unknown[] = []): Promise<T | undefined> {
+    const rows = await queryRows<T>(db, sql, params);
+    return rows[0];
+}
+
+export class PostgresResultStore implements ResultStore {
+    readonly backend = 'postgres' as const;
+    private initialized = false;
+
+    constructor(
+        private readonly pool: Pool,
+        private readonly migrations: PostgresMigration[] = POSTGRES_MIGRATIONS
+    ) {}
+
+    static fromUrl(connectionString: string, max: number): PostgresResultStore {
+        const pool = new Pool({ connectionString, max });
+        pool.on('error', (error) => Logger.error('🐘 Postgres pool error', { error }));
+        return new PostgresResultStore(pool);
+    }
+
+    private async transaction<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+        const client = await this.pool.connect();
+        try {
+            await client.query('BEGIN');
+            const result = await work(client);
+            await client.query('COMMIT');
+            return result;
+        } catch (error) {
+            await client.query('ROLLBACK').catch(() => undefined);
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
+    async initialize(): Promise<void> {
+        if (this.initialized) {
+            return;
+        }
+
+        await this.transaction(async (client) => {
+            await client.query('SELECT pg_advisory_xact_lock($1)', [MIGRATION_LOCK_KEY]);
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS schema_migrations (
+                    version INTEGER PRIMARY KEY,
+                    name TEXT NOT NULL,
+                    applied_at TIMESTAMPTZ DEFAULT NOW()
+                )
+            `);
+        });
+
+        for (const migration of this.migrations) {
+            const applied = await this.transaction(async (client) => {
+                await client.query('SELECT pg_advisory_xact_lock($1)', [MIGRATION_LOCK_KEY]);
+                const done = await client.query('SELECT 1 FROM schema_migrations WHERE version = $1', [migration.version]);
+                if (done.rows.length > 0) {
+                    return false;
+                }
+                await client.query(migration.sql);
+                await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [migration.version, migration.name]);
+                return true;
+            });
+            if (applied) {
+                Logger.info(`🧱 Applied Postgres migration ${migration.version}: ${migration.name}`);
+            }
+        }
+
+        this.initialized = true;
+        Logger.info('✅ Postgres result store initialized');
+    }
+
+    async close(): Promise<void> {
+        await this.pool.end();
+    }
+
+    // 📥 Companies
+    async insertCompanies(companies: Company[]): Promise<void> {
+        await this.transaction(async (client) => {
+            for (const c of companies) {
+                await client.query(`
+                    INSERT INTO companies
+                    (id, company_name, city, province, zip_code, region, address, phone, website, category, source, vat_code, pg_url, email, tenant_id, updated_at)
+                    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, NOW())
+                    ON CONFLICT (id) DO UPDATE SET
+                        company_name = EXCLUDED.company_name, city = EXCLUDED.city, province = EXCLUDED.province,
+                        zip_code = EXCLUDED.zip_code, region = EXCLUDED.region, address = EXCLUDED.address,
+                        phone = EXCLUDED.phone, website = EXCLUDED.website, category = EXCLUDED.category,
+                        source = EXCLUDED.source, vat_code = EXCLUDED.vat_code, pg_url = EXCLUDED.pg_url,
+                        email = EXCLUDED.email, tenant_id = EXCLUDED.tenant_id, updated_at = NOW()
+                `, [
+                    c.id, c.company_name, c.city, c.province, c.zip_code, c.region, c.address,
+                    c.phone, c.website, c.category, c.source || 'CSV', c.vat_code, c.pg_url, c.email, c.tenant_id ?? null,
+                ]);
+            }
+        });
+        Logger.info(`📥 Inserted ${companies.length} companies to database`);
+    }
+
+    async getCompanyById(id: string): Promise<Company | undefined> {
+        return queryOne<Company>(this.pool, 'SELECT * FROM companies WHERE id = $1', [id]);
+    }
+
+    // 📊 Enrichment results + field history
+    async insertEnrichmentResult(result: EnrichmentResult, provenance?: EnrichmentProvenance): Promise<void> {
+        await this.transaction(async (client) => {
+            for (const row of toEnrichmentVersionRows(result, provenance)) {
+                await client.query(`
+                    INSERT INTO enrichment_versions (company_id, run_id, field, value, source, confidence)
+                    VALUES ($1, $2, $3, $4, $5, $6)
+                `, [result.company_id, provenance?.run_id, row.field, row.value, row.source, row.confidence]);
+            }
+
+            const current = materializeEnrichmentResult(result, await this.snapshot(client, result.company_id));
+            await client.query(`
+                INSERT INTO enrichment_results
+                (id, company_id, vat, revenue, revenue_year, employees, is_estimated_employees, pec, website_validated,
+                 lead_score, data_source, discovery_method, discovery_confidence, reason_code, secondary_websites,
+                 facebook_url, instagram_url, linkedin_company_url, enriched_at)
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, NOW())
+                ON CONFLICT (id) DO UPDATE SET
+                    company_id = EXCLUDED.company_id, vat = EXCLUDED.vat, revenue = EXCLUDED.revenue,
+                    revenue_year = EXCLUDED.revenue_year, employees = EXCLUDED.employees,
+                    is_estimated_employees = EXCLUDED.is_estimated_employees, pec = EXCLUDED.pec,
+                    website_validated = EXCLUDED.website_validated, lead_score = EXCLUDED.lead_score,
+                    data_source = EXCLUDED.data_source, discovery_method = EXCLUDED.discovery_method,
+                    discovery_confidence = EXCLUDED.discovery_confidence, reason_code = EXCLUDED.reason_code,
+                    secondary_websites = EXCLUDED.secondary_websites, facebook_url = EXCLUDED.facebook_url,
+                    instagram_url = EXCLUDED.instagram_url, linkedin_company_url = EXCLUDED.linkedin_company_url,
+                    shared_domain_owner = NULL, website_verified_at = NULL, enriched_at = NOW()
+            `, [
+                current.id, current.company_id, current.vat, current.revenue, current.revenue_year, current.employees,
+                current.is_estimated_employees, current.pec, current.website_validated, current.lead_score,
+                current.data_source, current.discovery_method, current.discovery_confidence, current.reason_code,
+                serializeSecondaryWebsites(current.secondary_websites),
+                current.facebook_url, current.instagram_url, current.linkedin_company_url,
+            ]);
+        });
+    }
+
+    async getEnrichmentResult(companyId: string): Promise<EnrichmentResult | undefined> {
+        const row = await queryOne<Record<string, unknown>>(this.pool, 'SELECT * FROM enrichment_results WHERE company_id = $1', [companyId]);
+        return row ? toEnrichmentResult(row) : undefined;
+    }
+
+    async getEnrichmentSnapshot(companyId: string, runId?: string): Promise<EnrichmentSnapshot> {
+        return this.snapshot(this.pool, companyId, runId);
+    }
+
+    /**
+     * 🕰️ Latest version of every field, optionally as it stood at the end of `runId`.
+     */
+    private async snapshot(db: Queryable, companyId: string, runId?: string): Promise<EnrichmentSnapshot> {
+        let versions: EnrichmentVersion[];
+        if (runId) {
+            const boundary = await queryOne<{ boundary: number | null }>(db,
+                'SELECT MAX(id) AS boundary FROM enrichment_versions WHERE company_id = $1 AND run_id = $2',
+                [companyId, runId]
+            );
+            if (!boundary || boundary.boundary === null) {
+                return {};
+            }
+            versions = await queryRows<EnrichmentVersion>(db, `
+                SELECT * FROM enrichment_versions
+                WHERE id IN (
+                    SELECT MAX(id) FROM enrichment_versions WHERE company_id = $1 AND id <= $2 GROUP BY field
+                )
+            `, [companyId, boundary.boundary]);
+        } else {
+            versions = await queryRows<EnrichmentVersion>(db, `
+                SELECT * FROM enrichment_versions
+                WHERE id IN (
+                    SELECT MAX(id) FROM enrichment_versions WHERE company_id = $1 GROUP BY field
+                )
+            `, [companyId]);
+        }
+
+        const snapshot: EnrichmentSnapshot = {};
+        for (const version of versions) {
+            snapshot[version.field] = version;
+        }
+        return snapshot;
+    }
+
+    async getEnrichmentHistory(companyId: string): Promise<EnrichmentVersion[]> {
+        return queryRows<EnrichmentVersion>(this.pool, 'SELECT * FROM enrichment_versions WHERE company_id = $1 ORDER BY id ASC', [companyId]);
+    }
+
+    // 📜 Job log
+    async logJobResult(entry: JobLogEntry): Promise<void> {
+        await this.pool.query(`
+            INSERT INTO job_log (company_id, status, error_message, error_category, reason_code, run_id, duration_ms, attempt, stage)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        `, [
+            entry.company_id, entry.status, entry.error_message, entry.error_category, entry.reason_code,
+            entry.run_id, Math.round(entry.duration_ms), entry.attempt, entry.stage,
+        ]);
+    }
+
+    async getLatestJobFailure(companyId: string): Promise<JobFailure | undefined> {
+        return queryOne<JobFailure>(this.pool, `
+            SELECT company_id, reason_code, error_category, error_message, stage, run_id, processed_at
+            FROM job_log
+            WHERE company_id = $1 AND status = 'FAILED'
+            ORDER BY id DESC
+            LIMIT 1
+        `, [companyId]);
+    }
+
+    // 🧩 Stage results
+    async saveStageResult<T>(companyId: string, stage: string, payload: T, runId?: string): Promise<void> {
+        await this.pool.query(`
+            INSERT INTO stage_results (id, company_id, stage, run_id, payload, updated_at)
+            VALUES ($1, $2, $3, $4, $5, NOW())
+            ON CONFLICT (id) DO UPDATE SET
+                run_id = EXCLUDED.run_id, payload = EXCLUDED.payload, updated_at = NOW()
+        `, [`${stage}-${companyId}`, companyId, stage, runId, JSON.stringify(payload)]);
+    }
+
+    async getStageResult<T>(companyId: string, stage: string): Promise<T | undefined> {
+        const row = await queryOne<{ payload: string }>(this.pool, 'SELECT payload FROM stage_results WHERE id = $1', [`${stage}-${companyId}`]);
+        return row ? (JSON.parse(row.payload) as T) : undefined;
+    }
+
+    // 🔗 Website claims
+    async listWebsiteClaims(query: WebsiteClaimQuery = {}): Promise<WebsiteClaim[]> {
+        if (query.domains?.length === 0) {
+            return [];
+        }
+        const scope: string[] = [];
+        const params: string[] = [];
+        if (query.tenantId) {
+            params.push(query.tenantId);
+            scope.push(`AND c.tenant_id = $${params.length}`);
+        }
+        if (query.runId) {
+            params.push(query.runId);
+            scope.push(`AND er.company_id IN (SELECT company_id FROM job_log WHERE run_id = $${params.length})`);
+        }
+        if (query.domains) {
+            const patterns = query.domains.map((domain) => {
+                params.push(`%${domain.toLowerCase()}%`);
+                return `LOWER(er.website_validated) LIKE $${params.length}`;
+            });
+            scope.push(`AND (${patterns.join(' OR ')})`);
+        }
+        return queryRows<WebsiteClaim>(this.pool, `
+            SELECT er.company_id, c.tenant_id, er.website_validated AS website, er.discovery_confidence, er.reason_code, er.shared_domain_owner
+            FROM enrichment_results er
+            JOIN companies c ON c.id = er.company_id
+            WHERE er.website_validated IS NOT NULL AND er.website_validated != '' ${scope.join(' ')}
+            ORDER BY er.company_id
+        `, params);
+    }
+
+    async setSharedDomainOwner(companyId: string, ownerCompanyId: string | null, reasonCode: string): Promise<void> {
+        await this.pool.query(
+            'UPDATE enrichment_results SET shared_domain_owner = $1, reason_code = $2 WHERE company_id = $3',
+            [ownerCompanyId, reasonCode, companyId]
+        );
+    }
+
+    // 🩺 Website liveness
+    async listStaleWebsites(query: StaleWebsiteQuery): Promise<StaleWebsite[]> {
+        const params: unknown[] = [query.verifiedBefore];
+        const scope = query.tenantId ? `AND c.tenant_id = $${params.push(query.tenantId)}` : '';
+        const limit = query.limit ? `LIMIT $${params.push(query.limit)}` : '';
+        return queryRows<StaleWebsite>(this.pool, `
+            SELECT er.company_id, c.tenant_id, er.website_validated AS website, er.discovery_confidence, er.reason_code,
+                   er.shared_domain_owner, COALESCE(er.website_verified_at, er.enriched_at) AS verified_at
+            FROM enrichment_results er
+            JOIN companies c ON c.id = er.company_id
+            WHERE er.website_validated IS NOT NULL AND er.website_validated != ''
+              AND COALESCE(er.website_verified_at, er.enriched_at) < $1::timestamptz ${scope}
+            ORDER BY verified_at ASC, er.company_id
+            ${limit}
+        `, params);
+    }
+
+    async recordWebsiteCheck(companyId: string, check: WebsiteCheck): Promise<void> {
+        await this.transaction(async (client) => {
+            const current = await queryOne<{ website_validated: string | null }>(client, 'SELECT website_validated FROM enrichment_results WHERE company_id = $1', [companyId]);
+            if (!current) {
+                return;
+            }
+            if ((current.website_validated || null) !== check.website) {
+                await client.query(`
+                    INSERT INTO enrichment_versions (company_id, run_id, field, value, source, confidence)
+                    VALUES ($1, $2, 'website_validated', $3, $4, $5)
+                `, [companyId, check.run_id, check.website, DataSource.WEBSITE, check.confidence ?? null]);
+                await client.query(`
+                    UPDATE enrichment_results SET website_validated = $1, discovery_confidence = COALESCE($2, discovery_confidence), shared_domain_owner = NULL
+                    WHERE company_id = $3
+                `, [check.website, check.confidence ?? null, companyId]);
+            }
+            await client.query(`
+                UPDATE enrichment_results SET website_verified_at = NOW(), reason_code = COALESCE($1, reason_code)
+                WHERE company_id = $2
+            `, [check.reason_code ?? null, companyId]);
+        });
+    }
+
+    // 🔎 SERP cache
+    async getSerpCacheEntry<T>(provider: string, queryHash: string, now: string): Promise<SerpCacheEntry<T> | undefined> {
+        const row = await queryOne<Record<string, unknown>>(this.pool, `
+            SELECT * FROM serp_cache WHERE provider = $1 AND query_hash = $2 AND expires_at > $3::timestamptz
+        `, [provider, queryHash, now]);
+        return row ? toSerpCacheEntry<T>(row) : undefined;
+    }
+
+    async saveSerpCacheEntry<T>(entry: NewSerpCacheEntry<T>): Promise<void> {
+        await this.pool.query(`
+            INSERT INTO serp_cache (provider, query_hash, query, company_id, results, expires_at)
+            VALUES ($1, $2, $3, $4, $5, $6::timestamptz)
+            ON CONFLICT (provider, query_hash) DO UPDATE SET
+                query = EXCLUDED.query,
+                company_id = EXCLUDED.company_id,
+                results = EXCLUDED.results,
+                created_at = NOW(),
+                expires_at = EXCLUDED.expires_at
+        `, [entry.provider, entry.query_hash, entry.query, entry.company_id ?? null, JSON.stringify(entry.results), entry.expires_at]);
+    }
+
+    async recordSerpCacheLookup(provider: string, day: string, hit: boolean, savedEur: number = 0): Promise<void> {
+        await this.pool.query(`
+            INSERT INTO serp_cache_usage (day, provider, hits, misses, saved_eur) VALUES ($1, $2, $3, $4, $5)
+            ON CONFLICT (day, provider) DO UPDATE SET
+                hits = serp_cache_usage.hits + EXCLUDED.hits,
+                misses = serp_cache_usage.misses + EXCLUDED.misses,
+                saved_eur = serp_cache_usage.saved_eur + EXCLUDED.saved_eur
+        `, [day, provider, hit ? 1 : 0, hit ? 0 : 1, hit ? savedEur : 0]);
+    }
+
+    async listSerpCacheUsage(sinceDay: string): Promise<SerpCacheUsage[]> {
+        const rows = await queryRows<SerpCacheUsage>(this.pool, 'SELECT * FROM serp_cache_usage WHERE day >= $1 ORDER BY day, provider', [sinceDay]);
+        return rows.map((row) => ({ ...row, hits: Number(row.hits), misses: Number(row.misses), saved_eur: Number(row.saved_eur) }));
+    }
+
+    async countSerpCacheEntries(now: string): Promise<Array<{ provider: string; entries: number }>> {
+        const rows = await queryRows<{ provider: string; entries: string | number }>(this.pool, `
+            SELECT provider, COUNT(*) AS entries FROM serp_cache WHERE expires_at > $1::timestamptz GROUP BY provider ORDER BY provider
+        `, [now]);
+        return rows.map((row) => ({ provider: row.provider, entries: Number(row.entries) }));
+    }
+
+    async invalidateSerpCache(filter: SerpCacheFilter): Promise<number> {
+        const params: unknown[] = [];
+        const clauses: string[] = [];
+        if (filter.companyId) {
+            clauses.push(`company_id = $${params.push(filter.companyId)}`);
+        }
+        if (filter.queryPattern) {
+            // backslash is the default LIKE escape in Postgres
+            clauses.push(`query LIKE $${params.push(containsLikePattern(filter.queryPattern))}`);
+        }
+        if (filter.provider) {
+            clauses.push(`provider = $${params.push(filter.provider)}`);
+        }
+        if (filter.expiredBefore) {
+            clauses.push(`expires_at <= $${params.push(filter.expiredBefore)}::timestamptz`);
+        }
+        const scope = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+        const result = await this.pool.query(`DELETE FROM serp_cache ${scope}`, params);
+        return result.rowCount ?? 0;
+    }
+
+    // 🎯 Ground truth labels
+    async upsertGroundTruthLabels(labels: GroundTruthLabel[]): Promise<void> {
+        await this.transaction(async (client) => {
+            for (const label of labels) {
+                await client.query(`
+                    INSERT INTO ground_truth_labels (dataset, label_id, company, expected_domain, notes) VALUES ($1, $2, $3, $4, $5)
+                    ON CONFLICT (dataset, label_id) DO UPDATE SET
+                        company = EXCLUDED.company,
+                        expected_domain = EXCLUDED.expected_domain,
+                        notes = EXCLUDED.notes,
+                        updated_at = NOW()
+                `, [label.dataset, label.label_id, JSON.stringify(label.company), label.expected_domain, label.notes ?? null]);
+            }
+        });
+    }
+
+    async listGroundTruthLabels(dataset: string): Promise<GroundTruthLabelRecord[]> {
+        const rows = await queryRows<Record<string, unknown>>(this.pool, 'SELECT * FROM ground_truth_labels WHERE dataset = $1 ORDER BY label_id', [dataset]);
+        return rows.map(toGroundTruthLabel);
+    }
+
+    async deleteGroundTruthLabel(dataset: string, labelId: string): Promise<boolean> {
+        const result = await this.pool.query('DELETE FROM ground_truth_labels WHERE dataset = $1 AND label_id = $2', [dataset, labelId]);
+        return (result.rowCount ?? 0) > 0;
+    }
+
+    // 🏁 Benchmark runs
+    async saveBenchmarkRun<T>(run: NewBenchmarkRun<T>): Promise<void> {
+        await this.transaction(async (client) => {
+            await client.query(`
+                INSERT INTO benchmark_runs (id, dataset, mode, started_at, finished_at, summary) VALUES ($1, $2, $3, $4::timestamptz, $5::timestamptz, $6)
+            `, [run.id, run.dataset, run.mode, run.started_at, run.finished_at, JSON.stringify(run.summary)]);
+            for (const result of run.results) {
+                await client.query(`
+                    INSERT INTO benchmark_results (run_id, label_id, expected_domain, url, status, reason_code, outcome, cost_eur, latency_ms)
+                    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+                `, [run.id, result.label_id, result.expected_domain, result.url, result.status, result.reason_code,
+                    result.outcome, result.cost_eur, result.latency_ms]);
+            }
+        });
+    }
+
+    async getBenchmarkRun<T>(runId: string): Promise<BenchmarkRunRecord<T> | undefined> {
+        const row = await queryOne<Record<string, unknown>>(this.pool, 'SELECT * FROM benchmark_runs WHERE id = $1', [runId]);
+        return row ? toBenchmarkRunRecord<T>(row) : undefined;
+    }
+
+    async listBenchmarkRuns<T>(dataset?: string, limit: number = 20): Promise<Array<BenchmarkRunRecord<T>>> {
+        const params: unknown[] = [];
+        const scope = dataset ? `WHERE dataset = $${params.push(dataset)}` : '';
+        const rows = await queryRows<Record<string, unknown>>(this.pool,
+            `SELECT * FROM benchmark_runs ${scope} ORDER BY started_at DESC, id DESC LIMIT $${params.push(limit)}`,
+            params
+        );
+        return rows.map((row) => toBenchmarkRunRecord<T>(row));
+    }
+
+    async listBenchmarkResults(runId: string): Promise<BenchmarkResult[]> {
+        const rows = await queryRows<Record<string, unknown>>(this.pool, 'SELECT * FROM benchmark_results WHERE run_id = $1 ORDER BY label_id', [runId]);
+        return rows.map(toBenchmarkResult);
+    }
+
+    // 📈 Financial figures
+    async saveFinancialFigures(companyId: string, figures: FinancialFigure[]): Promise<void> {
+        await this.transaction(async (client) => {
+            for (const figure of figures) {
+                await client.query(`
+                    INSERT INTO financial_figures (company_id, metric, fiscal_year, value, source, confidence, source_url)
+                    VALUES ($1, $2, $3, $4, $5, $6, $7)
+                    ON CONFLICT (company_id, metric, fiscal_year) DO UPDATE SET
+                        value = EXCLUDED.value,
+                        source = EXCLUDED.source,
+                        confidence = EXCLUDED.confidence,
+                        source_url = EXCLUDED.source_url,
+                        updated_at = NOW()
+                    WHERE EXCLUDED.confidence >= financial_figures.confidence
+                `, [companyId, figure.metric, figure.fiscal_year, figure.value, figure.source, figure.confidence, figure.source_url ?? null]);
+            }
+        });
+    }
+
+    async listFinancialFigures(companyId: string): Promise<FinancialFigureRecord[]> {
+        const rows = await queryRows<Record<string, unknown>>(this.pool,
+            'SELECT * FROM financial_figures WHERE company_id = $1 ORDER BY metric, fiscal_year', [companyId]);
+        return rows.map(toFinancialFigure);
+    }
+
+    // 🧭 Discovery traces
+    async saveDiscoveryTrace<T>(record: NewDiscoveryTrace<T>): Promise<void> {
+        await this.pool.query(`
+            INSERT INTO discovery_traces (id, company_id, run_id, mode, status, url, trace) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        `, [record.id, record.company_id, record.run_id ?? null, record.mode ?? null, record.status, record.url ?? null, JSON.stringify(record.trace)]);
+    }
+
+    async listDiscoveryTraces<T>(companyId: string, options: DiscoveryTraceQuery = {}): Promise<Array<DiscoveryTraceRecord<T>>> {
+        const params: unknown[] = [companyId];
+        let scope = 'WHERE company_id = $1';
+        if (options.runId) {
+            params.push(options.runId);
+            scope += ' AND run_id = $2';
+        }
+        params.push(options.limit ?? 20);
+        const rows = await queryRows<Record<string, unknown>>(this.pool,
+            `SELECT * FROM discovery_traces ${scope} ORDER BY created_at DESC, id DESC LIMIT $${params.length}`,
+            params
+        );
+        return rows.map((row) => toDiscoveryTraceRecord<T>(row));
+    }
+
+    async listRecentDiscoveryTraces<T>(options: RecentDiscoveryTraceQuery = {}): Promise<Array<DiscoveryTraceRecord<T>>> {
+        const params: unknown[] = [];
+        let scope = '';
+        if (options.since) {
+            params.push(options.since);
+            scope = 'WHERE created_at >= $1::timestamptz';
+        }
+        params.push(options.limit ?? 5000);
+        const rows = await queryRows<Record<string, unknown>>(this.pool,
+            `SELECT * FROM discovery_traces ${scope} ORDER BY created_at DESC, id DESC LIMIT $${params.length}`,
+            params
+        );
+        return rows.map((row) => toDiscoveryTraceRecord<T>(row));
+    }
+
+    // 🏁 Runs
+    async createRun(run: NewRun): Promise<void> {
+        const status = run.status || 'RUNNING';
+        await this.pool.query(`
+            INSERT INTO runs (id, source_csv, mode, status, loaded, enqueued, skipped, updated_at, finished_at, job_id, tenant_id)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), $8, $9, $10)
+            ON CONFLICT (id) DO UPDATE SET
+                job_id = EXCLUDED.job_id, tenant_id = EXCLUDED.tenant_id, source_csv = EXCLUDED.source_csv, mode = EXCLUDED.mode, status = EXCLUDED.status,
+                loaded = EXCLUDED.loaded, enqueued = EXCLUDED.enqueued, skipped = EXCLUDED.skipped,
+                updated_at = NOW(), finished_at = EXCLUDED.finished_at
+        `, [
+            run.id, run.source_csv, run.mode, status, run.loaded, run.enqueued, run.skipped,
+            isTerminalRunStatus(status) ? new Date() : null, run.job_id, run.tenant_id ?? null,
+        ]);
+    }
+
+    async getRun(runId: string): Promise<RunRecord | undefined> {
+        return queryOne<RunRecord>(this.pool, `${RUN_SELECT} WHERE r.id = $1`, [runId]);
+    }
+
+    async listRuns(limit: number = 50, tenantId?: string): Promise<RunRecord[]> {
+        if (tenantId) {
+            return queryRows<RunRecord>(this.pool,
+                `${RUN_SELECT} WHERE r.tenant_id = $1 ORDER BY r.created_at DESC, r.id DESC LIMIT $2`,
+                [tenantId, limit]
+            );
+        }
+        return queryRows<RunRecord>(this.pool, `${RUN_SELECT} ORDER BY r.created_at DESC, r.id DESC LIMIT $1`, [limit]);
+    }
+
+    async updateRunStatus(runId: string, status: RunStatus): Promise<void> {
+        await this.pool.query(`
+            UPDATE runs
+            SET status = $1, updated_at = NOW(),
+                finished_at = CASE WHEN $2::boolean THEN NOW() ELSE finished_at END
+            WHERE id = $3
+        `, [status, isTerminalRunStatus(status), runId]);
+    }
+
+    async completeRunIfDone(runId: string): Promise<boolean> {
+        const run = await this.getRun(runId);
+        if (!run || !isRunDone(run)) {
+            return false;
+        }
+        // Guarded on RUNNING so two hosts settling the same run only complete it once
+        const updated = await this.pool.query(`
+            UPDATE runs SET status = 'COMPLETED', updated_at = NOW(), finished_at = NOW()
+            WHERE id = $1 AND status = 'RUNNING'
+        `, [runId]);
+        return (updated.rowCount ?? 0) > 0;
+    }
+
+    async listRunsForJob(jobId: string): Promise<RunRecord[]> {
+        return queryRows<RunRecord>(this.pool, `${RUN_SELECT} WHERE r.job_id = $1 ORDER BY r.created_at ASC, r.id ASC`, [jobId]);
+    }
+
+    // 🧾 API jobs
+    async createJob(job: NewJob): Promise<void> {
+        await this.pool.query(`
+            INSERT INTO jobs (id, niches, locations, company_limit, enrich, total_tasks, tenant_id)
+            VALUES ($1, $2, $3, $4, $5, $6, $7)
+        `, [job.id, JSON.stringify(job.niches), JSON.stringify(job.locations), job.company_limit, job.enrich, job.total_tasks, job.tenant_id ?? null]);
+    }
+
+    async getJob(jobId: string): Promise<JobRecord | undefined> {
+        const row = await queryOne<Record<string, unknown>>(this.pool, 'SELECT * FROM jobs WHERE id = $1', [jobId]);
+        return row ? toJobRecord(row) : undefined;
+    }
+
+    async listJobs(options: { limit?: number; statuses?: JobStatus[]; tenantId?: string } = {}): Promise<JobRecord[]> {
+        const statuses = options.statuses || [];
+        const clauses: string[] = [];
+        const params: unknown[] = [...statuses];
+        if (statuses.length > 0) {
+            clauses.push(`status IN (${statuses.map((_, i) => `$${i + 1}`).join(', ')})`);
+        }
+        if (options.tenantId) {
+            params.push(options.tenantId);
+            clauses.push(`tenant_id = $${params.length}`);
+        }
+        params.push(options.limit ?? 50);
+        const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+        const rows = await queryRows<Record<string, unknown>>(this.pool,
+            `SELECT * FROM jobs ${where} ORDER BY created_at DESC, id DESC LIMIT $${params.length}`,
+            params
+        );
+        return rows.map(toJobRecord);
+    }
+
+    async updateJobStatus(jobId: string, status: JobStatus, error?: string): Promise<void> {
+        await this.pool.query(`
+            UPDATE jobs
+            SET status = $1, error = COALESCE($2, error), updated_at = NOW(),
+                finished_at = CASE WHEN $3::boolean THEN NOW() ELSE finished_at END
+            WHERE id = $4
+        `, [status, error ?? null, isTerminalJobStatus(status), jobId]);
+    }
+
+    async recordJobTaskOutcome(jobId: string, outcome: JobTaskOutcome): Promise<JobRecord | undefined> {
+        const column = outcome === 'completed' ? 'completed_tasks' : 'failed_tasks';
+        await this.pool.query(`UPDATE jobs SET ${column} = ${column} + 1, updated_at = NOW() WHERE id = $1`, [jobId]);
+        return this.getJob(jobId);
+    }
+
+    async appendJobEvent(jobId: string, level: JobEventLevel, message: string): Promise<void> {
+        await this.pool.query('INSERT INTO job_events (job_id, level, message) VALUES ($1, $2, $3)', [jobId, level, message]);
+    }
+
+    async listJobEvents(jobId: string, limit: number = 200): Promise<JobEvent[]> {
+        const rows = await queryRows<JobEvent>(this.pool,
+            'SELECT * FROM job_events WHERE job_id = $1 ORDER BY id DESC LIMIT $2',
+            [jobId, limit]
+        );
+        return rows.reverse();
+    }
+
+    async addJobArtifact(artifact: NewJobArtifact): Promise<void> {
+        await this.pool.query(`
+            INSERT INTO job_artifacts (job_id, kind, path, row_count, label) VALUES ($1, $2, $3, $4, $5)
+        `, [artifact.job_id, artifact.kind, artifact.path, artifact.row_count, artifact.label]);
+    }
+
+    async listJobArtifacts(jobId: string): Promise<JobArtifact[]> {
+        return queryRows<JobArtifact>(this.pool, 'SELECT * FROM job_artifacts WHERE job_id = $1 ORDER BY id ASC', [jobId]);
+    }
+
+    // 🔑 Tenants, API keys + daily usage
+    async createTenant(tenant: NewTenant): Promise<void> {
+        await this.pool.query(`
+            INSERT INTO tenants (id, name, daily_company_quota, daily_spend_quota_usd) VALUES ($1, $2, $3, $4)
+        `, [tenant.id, tenant.name, tenant.daily_company_quota ?? null, tenant.daily_spend_quota_usd ?? null]);
+    }
+
+    async getTenant(tenantId: string): Promise<TenantRecord | undefined> {
+        return queryOne<TenantRecord>(this.pool, 'SELECT * FROM tenants WHERE id = $1', [tenantId]);
+    }
+
+    async listTenants(): Promise<TenantRecord[]> {
+        return queryRows<TenantRecord>(this.pool, 'SELECT * FROM tenants ORDER BY id ASC');
+    }
+
+    async updateTenantQuotas(tenantId: string, quotas: TenantQuotas): Promise<void> {
+        const current = await this.getTenant(tenantId);
+        if (!current) {
+            return;
+        }
+        await this.pool.query(`
+            UPDATE tenants SET daily_company_quota = $1, daily_spend_quota_usd = $2, updated_at = NOW() WHERE id = $3
+        `, [
+            quotas.daily_company_quota !== undefined ? quotas.daily_company_quota : current.daily_company_quota ?? null,
+            quotas.daily_spend_quota_usd !== undefined ? quotas.daily_spend_quota_usd : current.daily_spend_quota_usd ?? null,
+            tenantId,
+        ]);
+    }
+
+    async createApiKey(key: NewApiKey): Promise<void> {
+        await this.pool.query(
+            'INSERT INTO api_keys (id, tenant_id, key_hash, label) VALUES ($1, $2, $3, $4)',
+            [key.id, key.tenant_id, key.key_hash, key.label ?? null]
+        );
+    }
+
+    async findApiKeyByHash(keyHash: string): Promise<ApiKeyRecord | undefined> {
+        return queryOne<ApiKeyRecord>(this.pool, 'SELECT * FROM api_keys WHERE key_hash = $1', [keyHash]);
+    }
+
+    async listApiKeys(tenantId: string): Promise<ApiKeyRecord[]> {
+        return queryRows<ApiKeyRecord>(this.pool, 'SELECT * FROM api_keys WHERE tenant_id = $1 ORDER BY created_at ASC, id ASC', [tenantId]);
+    }
+
+    async touchApiKey(keyId: string): Promise<void> {
+        await this.pool.query('UPDATE api_keys SET last_used_at = NOW() WHERE id = $1', [keyId]);
+    }
+
+    async revokeApiKey(keyId: string): Promise<boolean> {
+        const updated = await this.pool.query('UPDATE api_keys SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL', [keyId]);
+        return (updated.rowCount ?? 0) > 0;
+    }
+
+    async getTenantUsage(tenantId: string, day: string): Promise<TenantUsage> {
+        const row = await queryOne<TenantUsage>(this.pool,
+            'SELECT tenant_id, day, companies_enqueued, spend_usd FROM tenant_usage WHERE tenant_id = $1 AND day = $2',
+            [tenantId, day]
+        );
+        return row
+            ? { ...row, companies_enqueued: Number(row.companies_enqueued), spend_usd: Number(row.spend_usd) }
+            : { tenant_id: tenantId, day, companies_enqueued: 0, spend_usd: 0 };
+    }
+
+    async reserveTenantCompanies(tenantId: string, day: string, requested: number, limit: number | null): Promise<number> {
+        await this.pool.query(
+            'INSERT INTO tenant_usage (tenant_id, day) VALUES ($1, $2) ON CONFLICT (tenant_id, day) DO NOTHING',
+            [tenantId, day]
+        );
+        // Optimistic compare-and-swap on the counter so concurrent hosts never over-grant
+        for (;;) {
+            const used = (await this.getTenantUsage(tenantId, day)).companies_enqueued;
+            const granted = limit == null ? requested : Math.max(0, Math.min(requested, limit - used));
+            if (granted === 0) {
+                return 0;
+            }
+            const updated = await this.pool.query(`
+                UPDATE tenant_usage SET companies_enqueued = $1, updated_at = NOW()
+                WHERE tenant_id = $2 AND day = $3 AND companies_enqueued = $4
+            `, [used + granted, tenantId, day, used]);
+            if ((updated.rowCount ?? 0) > 0) {
+                return granted;
+            }
+        }
+    }
+
+    async addTenantSpend(tenantId: string, day: string, amountUsd: number): Promise<void> {
+        await this.pool.query(`
+            INSERT INTO tenant_usage (tenant_id, day, spend_usd) VALUES ($1, $2, $3)
+            ON CONFLICT (tenant_id, day) DO UPDATE SET spend_usd = tenant_usage.spend_usd + EXCLUDED.spend_usd, updated_at = NOW()
+        `, [tenantId, day, amountUsd]);
+    }
+
+    // 🪝 Webhooks
+    async createWebhookSubscription(subscription: NewWebhookSubscription): Promise<void> {
+        await this.pool.query(
+            'INSERT INTO webhook_subscriptions (id, tenant_id, url, secret, events) VALUES ($1, $2, $3, $4, $5)',
+            [subscription.id, subscription.tenant_id ?? null, subscription.url, subscription.secret, JSON.stringify(subscription.events)]
+        );
+    }
+
+    async getWebhookSubscription(subscriptionId: string): Promise<WebhookSubscription | undefined> {
+        const row = await queryOne<Record<string, unknown>>(this.pool, 'SELECT * FROM webhook_subscriptions WHERE id = $1', [subscriptionId]);
+        return row ? toWebhookSubscription(row) : undefined;
+    }
+
+    async listWebhookSubscriptions(tenantId?: string): Promise<WebhookSubscription[]> {
+        const rows = tenantId
+            ? await queryRows<Record<string, unknown>>(this.pool,
+                'SELECT * FROM webhook_subscriptions WHERE tenant_id = $1 ORDER BY created_at ASC, id ASC', [tenantId])
+            : await queryRows<Record<string, unknown>>(this.pool, 'SELECT * FROM webhook_subscriptions ORDER BY created_at ASC, id ASC');
+        return rows.map(toWebhookSubscription);
+    }
+
+    async deactivateWebhookSubscription(subscriptionId: string): Promise<boolean> {
+        const updated = await this.pool.query(`
+            UPDATE webhook_subscriptions SET active = FALSE, updated_at = NOW() WHERE id = $1 AND active = TRUE
+        `, [subscriptionId]);
+        return (updated.rowCount ?? 0) > 0;
+    }
+
+    async createWebhookDelivery(delivery: NewWebhookDelivery): Promise<void> {
+        await this.pool.query(
+            'INSERT INTO webhook_deliveries (id, subscription_id, event, payload) VALUES ($1, $2, $3, $4)',
+            [delivery.id, delivery.subscription_id, delivery.event, delivery.payload]
+        );
+    }
+
+    async getWebhookDelivery(deliveryId: string): Promise<WebhookDelivery | undefined> {
+        return queryOne<WebhookDelivery>(this.pool, 'SELECT * FROM webhook_deliveries WHERE id = $1', [deliveryId]);
+    }
+
+    async recordWebhookAttempt(deliveryId: string, attempt: WebhookAttempt): Promise<void> {
+        await this.pool.query(`
+            UPDATE webhook_deliveries
+            SET status = $1, attempts = attempts + 1, response_status = $2, error = $3, updated_at = NOW(),
+                delivered_at = CASE WHEN $4::boolean THEN NOW() ELSE delivered_at END
+            WHERE id = $5
+        `, [attempt.status, attempt.response_status ?? null, attempt.error ?? null, attempt.status === 'DELIVERED', deliveryId]);
+    }
+
+    async listWebhookDeliveries(subscriptionId: string, limit: number = 50): Promise<WebhookDelivery[]> {
+        return queryRows<WebhookDelivery>(this.pool,
+            'SELECT * FROM webhook_deliveries WHERE subscription_id = $1 ORDER BY created_at DESC, id DESC LIMIT $2',
+            [subscriptionId, limit]
+        );
+    }
+
+    // 📊 Stats + export
+    async getStats(tenantId?: string): Promise<DatabaseStats> {
+        const params = tenantId ? [tenantId] : [];
+        const scope = tenantId ? 'WHERE c.tenant_id = $1' : '';
+        const count = async (sql: string) => (await queryOne<{ count: number }>(this.pool, sql, params))?.count ?? 0;
+        const total = await count(`SELECT COUNT(*)::int AS count FROM companies c ${scope}`);
+        const enriched = await count(`
+            SELECT COUNT(*)::int AS count FROM enrichment_results er JOIN companies c ON c.id = er.company_id ${scope}
+        `);
+        const failed = await count(`
+            SELECT COUNT(DISTINCT jl.company_id)::int AS count FROM job_log jl JOIN companies c ON c.id = jl.company_id
+            ${scope ? `${scope} AND` : 'WHERE'} jl.status = 'FAILED'
+        `);
+        return {
+            total,
+            enriched,
+            pending: total - enriched,
+            failed,
+        };
+    }
+
+    async exportEnrichedToCSV(outputPath: string, tenantId?: string): Promise<void> {
+        const rows = await queryRows<Record<string, unknown>>(this.pool, `
+            SELECT
+                c.id AS company_id, c.company_name, c.city, c.province, c.address, c.phone, c.category,
+                er.vat, er.revenue, er.employees, er.pec, er.lead_score, er.data_source,
+                er.website_validated AS website, er.secondary_websites,
+                er.facebook_url, er.instagram_url, er.linkedin_company_url
+            FROM companies c
+            JOIN enrichment_results er ON c.id = er.company_id
+            ${tenantId ? 'WHERE c.tenant_id = $1' : ''}
+            ORDER BY er.lead_score DESC NULLS LAST
+        `, tenantId ? [tenantId] : []);
+        const figures = await queryRows<Record<string, unknown>>(this.pool, `
+            SELECT ff.* FROM financial_figures ff JOIN companies c ON c.id = ff.company_id
+            ${tenantId ? 'WHERE c.tenant_id = $1' : ''}
+        `, tenantId ? [tenantId] : []);
+        writeEnrichedCSV(withFinancialExportValues(rows, figures.map(toFinancialFigure)), outputPath);
+    }
+}
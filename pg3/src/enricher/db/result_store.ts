@@ -0,0 +1,240 @@
+/**
+ * 🗃️ RESULT STORE
+ * Backend-agnostic persistence used by the worker, scheduler, health API and run/DLQ tooling.
+ *
+ * - sqlite: the embedded WAL database in ./index.ts (single host)
+ * - postgres: a shared PostgreSQL database, so several worker hosts write to one place
+ *
+ * The backend is picked by STORAGE_BACKEND and loaded lazily, so choosing postgres never
+ * opens the SQLite file (and vice versa).
+ */
+
+import { config } from '../config';
+import { ConfigurationError } from '../../utils/errors';
+import {
+    ApiKeyRecord,
+    Company,
+    DatabaseStats,
+    DiscoveryTraceQuery,
+    DiscoveryTraceRecord,
+    EnrichmentProvenance,
+    EnrichmentResult,
+    EnrichmentSnapshot,
+    EnrichmentVersion,
+    FinancialFigure,
+    FinancialFigureRecord,
+    JobArtifact,
+    JobEvent,
+    JobEventLevel,
+    JobFailure,
+    JobLogEntry,
+    JobRecord,
+    JobStatus,
+    JobTaskOutcome,
+    NewApiKey,
+    NewDiscoveryTrace,
+    NewJob,
+    NewJobArtifact,
+    NewRun,
+    NewTenant,
+    RunRecord,
+    RunStatus,
+    TenantQuotas,
+    TenantRecord,
+    TenantUsage,
+    NewWebhookDelivery,
+    NewWebhookSubscription,
+    RecentDiscoveryTraceQuery,
+    NewSerpCacheEntry,
+    BenchmarkResult,
+    BenchmarkRunRecord,
+    GroundTruthLabel,
+    GroundTruthLabelRecord,
+    NewBenchmarkRun,
+    SerpCacheEntry,
+    SerpCacheFilter,
+    SerpCacheUsage,
+    StaleWebsite,
+    StaleWebsiteQuery,
+    WebhookAttempt,
+    WebhookDelivery,
+    WebhookSubscription,
+    WebsiteCheck,
+    WebsiteClaim,
+    WebsiteClaimQuery,
+} from './model';
+
+export type StorageBackend = 'sqlite' | 'postgres';
+
+export interface ResultStore {
+    readonly backend: StorageBackend;
+
+    /** Apply (or verify) the schema. Idempotent. */
+    initialize(): Promise<void>;
+    close(): Promise<void>;
+
+    // 📥 Companies
+    insertCompanies(companies: Company[]): Promise<void>;
+    getCompanyById(id: string): Promise<Company | undefined>;
+
+    // 📊 Enrichment results + field history
+    insertEnrichmentResult(result: EnrichmentResult, provenance?: EnrichmentProvenance): Promise<void>;
+    getEnrichmentResult(companyId: string): Promise<EnrichmentResult | undefined>;
+    getEnrichmentSnapshot(companyId: string, runId?: string): Promise<EnrichmentSnapshot>;
+    getEnrichmentHistory(companyId: string): Promise<EnrichmentVersion[]>;
+
+    // 📜 Job log
+    logJobResult(entry: JobLogEntry): Promise<void>;
+    getLatestJobFailure(companyId: string): Promise<JobFailure | undefined>;
+
+    // 🧩 Stage results
+    saveStageResult<T>(companyId: string, stage: string, payload: T, runId?: string): Promise<void>;
+    getStageResult<T>(companyId: string, stage: string): Promise<T | undefined>;
+
+    // 🔗 Website claims (shared domain reconciliation)
+    listWebsiteClaims(query?: WebsiteClaimQuery): Promise<WebsiteClaim[]>;
+    setSharedDomainOwner(companyId: string, ownerCompanyId: string | null, reasonCode: string): Promise<void>;
+
+    // 🩺 Website liveness (oldest verification first)
+    listStaleWebsites(query: StaleWebsiteQuery): Promise<StaleWebsite[]>;
+    recordWebsiteCheck(companyId: string, check: WebsiteCheck): Promise<void>;
+
+    // 🔎 SERP cache (unexpired entries only; usage per UTC day + provider)
+    getSerpCacheEntry<T>(provider: string, queryHash: string, now: string): Promise<SerpCacheEntry<T> | undefined>;
+    saveSerpCacheEntry<T>(entry: NewSerpCacheEntry<T>): Promise<void>;
+    recordSerpCacheLookup(provider: string, day: string, hit: boolean, savedEur?: number): Promise<void>;
+    listSerpCacheUsage(sinceDay: string): Promise<SerpCacheUsage[]>;
+    countSerpCacheEntries(now: string): Promise<Array<{ provider: string; entries: number }>>;
+    /** Delete the matching entries; returns how many */
+    invalidateSerpCache(filter: SerpCacheFilter): Promise<number>;
+
+    // 🎯 Ground truth labels (upsert by dataset + label_id) and benchmark runs (newest first)
+    upsertGroundTruthLabels(labels: GroundTruthLabel[]): Promise<void>;
+    listGroundTruthLabels(dataset: string): Promise<GroundTruthLabelRecord[]>;
+    deleteGroundTruthLabel(dataset: string, labelId: string): Promise<boolean>;
+    saveBenchmarkRun<T>(run: NewBenchmarkRun<T>): Promise<void>;
+    getBenchmarkRun<T>(runId: string): Promise<BenchmarkRunRecord<T> | undefined>;
+    listBenchmarkRuns<T>(dataset?: string, limit?: number): Promise<Array<BenchmarkRunRecord<T>>>;
+    listBenchmarkResults(runId: string): Promise<BenchmarkResult[]>;
+
+    // 📈 Financial figures (upsert by metric + fiscal year, kept when the stored one is more confident)
+    saveFinancialFigures(companyId: string, figures: FinancialFigure[]): Promise<void>;
+    listFinancialFigures(companyId: string): Promise<FinancialFigureRecord[]>;
+
+    // 🧭 Discovery traces (newest first)
+    saveDiscoveryTrace<T>(record: NewDiscoveryTrace<T>): Promise<void>;
+    listDiscoveryTraces<T>(companyId: string, options?: DiscoveryTraceQuery): Promise<Array<DiscoveryTraceRecord<T>>>;
+    listRecentDiscoveryTraces<T>(options?: RecentDiscoveryTraceQuery): Promise<Array<DiscoveryTraceRecord<T>>>;
+
+    // 🏁 Runs
+    createRun(run: NewRun): Promise<void>;
+    getRun(runId: string): Promise<RunRecord | undefined>;
+    listRuns(limit?: number, tenantId?: string): Promise<RunRecord[]>;
+    updateRunStatus(runId: string, status: RunStatus): Promise<void>;
+    completeRunIfDone(runId: string): Promise<boolean>;
+    listRunsForJob(jobId: string): Promise<RunRecord[]>;
+
+    // 🧾 API jobs
+    createJob(job: NewJob): Promise<void>;
+    getJob(jobId: string): Promise<JobRecord | undefined>;
+    listJobs(options?: { limit?: number; statuses?: JobStatus[]; tenantId?: string }): Promise<JobRecord[]>;
+    updateJobStatus(jobId: string, status: JobStatus, error?: string): Promise<void>;
+    recordJobTaskOutcome(jobId: string, outcome: JobTaskOutcome): Promise<JobRecord | undefined>;
+    appendJobEvent(jobId: string, level: JobEventLevel, message: string): Promise<void>;
+    listJobEvents(jobId: string, limit?: number): Promise<JobEvent[]>;
+    addJobArtifact(artifact: NewJobArtifact): Promise<void>;
+    listJobArtifacts(jobId: string): Promise<JobArtifact[]>;
+
+    // 🔑 Tenants, API keys + daily usage
+    createTenant(tenant: NewTenant): Promise<void>;
+    getTenant(tenantId: string): Promise<TenantRecord | undefined>;
+    listTenants(): Promise<TenantRecord[]>;
+    updateTenantQuotas(tenantId: string, quotas: TenantQuotas): Promise<void>;
+    createApiKey(key: NewApiKey): Promise<void>;
+    findApiKeyByHash(keyHash: string): Promise<ApiKeyRecord | undefined>;
+    listApiKeys(tenantId: string): Promise<ApiKeyRecord[]>;
+    touchApiKey(keyId: string): Promise<void>;
+    revokeApiKey(keyId: string): Promise<boolean>;
+    getTenantUsage(tenantId: string, day: string): Promise<TenantUsage>;
+    /** Grant up to `requested` companies against the day's quota (null = unlimited); returns the granted count. */
+    reserveTenantCompanies(tenantId: string, day: string, requested: number, limit: number | null): Promise<number>;
+    addTenantSpend(tenantId: string, day: string, amountUsd: number): Promise<void>;
+
+    // 🪝 Webhook subscriptions + delivery log
+    createWebhookSubscription(subscription: NewWebhookSubscription): Promise<void>;
+    getWebhookSubscription(subscriptionId: string): Promise<WebhookSubscription | undefined>;
+    /** Every subscription, or only those of one tenant */
+    listWebhookSubscriptions(tenantId?: string): Promise<WebhookSubscription[]>;
+    deactivateWebhookSubscription(subscriptionId: string): Promise<boolean>;
+    createWebhookDelivery(delivery: NewWebhookDelivery): Promise<void>;
+    getWebhookDelivery(deliveryId: string): Promise<WebhookDelivery | undefined>;
+    recordWebhookAttempt(deliveryId: string, attempt: WebhookAttempt): Promise<void>;
+    listWebhookDeliveries(subscriptionId: string, limit?: number): Promise<WebhookDelivery[]>;
+
+    // 📊 Stats + export (tenantId scopes to one tenant's companies)
+    getStats(tenantId?: string): Promise<DatabaseStats>;
+    exportEnrichedToCSV(outputPath: string, tenantId?: string): Promise<void>;
+}
+
+let activeStore: ResultStore | null = null;
+let initializing: Promise<ResultStore> | null = null;
+
+async function createResultStore(backend: StorageBackend): Promise<ResultStore> {
+    if (backend === 'postgres') {
+        if (!config.db.postgresUrl) {
+            throw new ConfigurationError('STORAGE_BACKEND=postgres requires POSTGRES_URL');
+        }
+        const { PostgresResultStore } = await import('./postgres_store');
+        return PostgresResultStore.fromUrl(config.db.postgresUrl, config.db.postgresPoolMax);
+    }
+    const { SqliteResultStore } = await import('./sqlite_store');
+    return new SqliteResultStore();
+}
+
+/**
+ * 📋 Create and initialize the configured store once per process (bootstrap entry point).
+ */
+export function initializeResultStore(): Promise<ResultStore> {
+    if (!initializing) {
+        initializing = (async () => {
+            const store = await createResultStore(config.db.backend);
+            await store.initialize();
+            activeStore = store;
+            return store;
+        })();
+        initializing.catch(() => {
+            initializing = null;
+        });
+    }
+    return initializing;
+}
+
+/**
+ * The store if one was initialized, else null (for optional persistence such as the SERP cache).
+ */
+export function getActiveResultStore(): ResultStore | null {
+    return activeStore;
+}
+
+export function getResultStore(): ResultStore {
+    if (!activeStore) {
+        throw new Error('Result store not initialized. Call initializeResultStore() during application bootstrap.');
+    }
+    return activeStore;
+}
+
+/**
+ * Swap in a specific store (tests, embedded tooling). Pass null to reset.
+ */
+export function setResultStore(store: ResultStore | null): void {
+    activeStore = store;
+    initializing = store ? Promise.resolve(store) : null;
+}
+
+export async function closeResultStore(): Promise<void> {
+    const store = activeStore;
+    setResultStore(null);
+    if (store) {
+        await store.close();
+    }
+}
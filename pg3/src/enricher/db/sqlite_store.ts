@@ -0,0 +1,357 @@
+/**
+ * 🗄️ SQLITE RESULT STORE
+ * ResultStore adapter over the synchronous better-sqlite3 layer in ./index.ts.
+ */
+
+import type { ResultStore } from './result_store';
+import * as sqlite from './index';
+import {
+    ApiKeyRecord,
+    Company,
+    DatabaseStats,
+    DiscoveryTraceQuery,
+    DiscoveryTraceRecord,
+    EnrichmentProvenance,
+    EnrichmentResult,
+    EnrichmentSnapshot,
+    EnrichmentVersion,
+    FinancialFigure,
+    FinancialFigureRecord,
+    JobArtifact,
+    JobEvent,
+    JobEventLevel,
+    JobFailure,
+    JobLogEntry,
+    JobRecord,
+    JobStatus,
+    JobTaskOutcome,
+    NewApiKey,
+    NewDiscoveryTrace,
+    NewJob,
+    NewJobArtifact,
+    NewRun,
+    NewTenant,
+    RunRecord,
+    RunStatus,
+    TenantQuotas,
+    TenantRecord,
+    TenantUsage,
+    NewWebhookDelivery,
+    NewWebhookSubscription,
+    RecentDiscoveryTraceQuery,
+    NewSerpCacheEntry,
+    BenchmarkResult,
+    BenchmarkRunRecord,
+    GroundTruthLabel,
+    GroundTruthLabelRecord,
+    NewBenchmarkRun,
+    SerpCacheEntry,
+    SerpCacheFilter,
+    SerpCacheUsage,
+    StaleWebsite,
+    StaleWebsiteQuery,
+    WebhookAttempt,
+    WebhookDelivery,
+    WebhookSubscription,
+    WebsiteCheck,
+    WebsiteClaim,
+    WebsiteClaimQuery,
+} from './model';
+
+export class SqliteResultStore implements ResultStore {
+    readonly backend = 'sqlite' as const;
+
+    async initialize(): Promise<void> {
+        sqlite.initializeDatabase();
+    }
+
+    async close(): Promise<void> {
+        // The connection is process-wide (WAL); it is released on process exit.
+    }
+
+    async insertCompanies(companies: Company[]): Promise<void> {
+        sqlite.insertCompanies(companies);
+    }
+
+    async getCompanyById(id: string): Promise<Company | undefined> {
+        return sqlite.getCompanyById(id);
+    }
+
+    async insertEnrichmentResult(result: EnrichmentResult, provenance?: EnrichmentProvenance): Promise<void> {
+        sqlite.insertEnrichmentResult(result, provenance);
+    }
+
+    async getEnrichmentResult(companyId: string): Promise<EnrichmentResult | undefined> {
+        return sqlite.getEnrichmentResult(companyId);
+    }
+
+    async getEnrichmentSnapshot(companyId: string, runId?: string): Promise<EnrichmentSnapshot> {
+        return sqlite.getEnrichmentSnapshot(companyId, runId);
+    }
+
+    async getEnrichmentHistory(companyId: string): Promise<EnrichmentVersion[]> {
+        return sqlite.getEnrichmentHistory(companyId);
+    }
+
+    async logJobResult(entry: JobLogEntry): Promise<void> {
+        sqlite.logJobResult(
+            entry.company_id,
+            entry.status,
+            entry.duration_ms,
+            entry.attempt,
+            entry.error_message,
+            entry.error_category,
+            entry.reason_code,
+            entry.run_id,
+            entry.stage
+        );
+    }
+
+    async getLatestJobFailure(companyId: string): Promise<JobFailure | undefined> {
+        return sqlite.getLatestJobFailure(companyId);
+    }
+
+    async saveStageResult<T>(companyId: string, stage: string, payload: T, runId?: string): Promise<void> {
+        sqlite.saveStageResult(companyId, stage, payload, runId);
+    }
+
+    async getStageResult<T>(companyId: string, stage: string): Promise<T | undefined> {
+        return sqlite.getStageResult<T>(companyId, stage);
+    }
+
+    async listWebsiteClaims(query?: WebsiteClaimQuery): Promise<WebsiteClaim[]> {
+        return sqlite.listWebsiteClaims(query);
+    }
+
+    async setSharedDomainOwner(companyId: string, ownerCompanyId: string | null, reasonCode: string): Promise<void> {
+        sqlite.setSharedDomainOwner(companyId, ownerCompanyId, reasonCode);
+    }
+
+    async listStaleWebsites(query: StaleWebsiteQuery): Promise<StaleWebsite[]> {
+        return sqlite.listStaleWebsites(query);
+    }
+
+    async recordWebsiteCheck(companyId: string, check: WebsiteCheck): Promise<void> {
+        sqlite.recordWebsiteCheck(companyId, check);
+    }
+
+    async getSerpCacheEntry<T>(provider: string, queryHash: string, now: string): Promise<SerpCacheEntry<T> | undefined> {
+        return sqlite.getSerpCacheEntry<T>(provider, queryHash, now);
+    }
+
+    async saveSerpCacheEntry<T>(entry: NewSerpCacheEntry<T>): Promise<void> {
+        sqlite.saveSerpCacheEntry(entry);
+    }
+
+    async recordSerpCacheLookup(provider: string, day: string, hit: boolean, savedEur?: number): Promise<void> {
+        sqlite.recordSerpCacheLookup(provider, day, hit, savedEur);
+    }
+
+    async listSerpCacheUsage(sinceDay: string): Promise<SerpCacheUsage[]> {
+        return sqlite.listSerpCacheUsage(sinceDay);
+    }
+
+    async countSerpCacheEntries(now: string): Promise<Array<{ provider: string; entries: number }>> {
+        return sqlite.countSerpCacheEntries(now);
+    }
+
+    async invalidateSerpCache(filter: SerpCacheFilter): Promise<number> {
+        return sqlite.invalidateSerpCache(filter);
+    }
+
+    async upsertGroundTruthLabels(labels: GroundTruthLabel[]): Promise<void> {
+        sqlite.upsertGroundTruthLabels(labels);
+    }
+
+    async listGroundTruthLabels(dataset: string): Promise<GroundTruthLabelRecord[]> {
+        return sqlite.listGroundTruthLabels(dataset);
+    }
+
+    async deleteGroundTruthLabel(dataset: string, labelId: string): Promise<boolean> {
+        return sqlite.deleteGroundTruthLabel(dataset, labelId);
+    }
+
+    async saveBenchmarkRun<T>(run: NewBenchmarkRun<T>): Promise<void> {
+        sqlite.saveBenchmarkRun(run);
+    }
+
+    async getBenchmarkRun<T>(runId: string): Promise<BenchmarkRunRecord<T> | undefined> {
+        return sqlite.getBenchmarkRun<T>(runId);
+    }
+
+    async listBenchmarkRuns<T>(dataset?: string, limit?: number): Promise<Array<BenchmarkRunRecord<T>>> {
+        return sqlite.listBenchmarkRuns<T>(dataset, limit);
+    }
+
+    async listBenchmarkResults(runId: string): Promise<BenchmarkResult[]> {
+        return sqlite.listBenchmarkResults(runId);
+    }
+
+    async saveFinancialFigures(companyId: string, figures: FinancialFigure[]): Promise<void> {
+        sqlite.saveFinancialFigures(companyId, figures);
+    }
+
+    async listFinancialFigures(companyId: string): Promise<FinancialFigureRecord[]> {
+        return sqlite.listFinancialFigures(companyId);
+    }
+
+    async saveDiscoveryTrace<T>(record: NewDiscoveryTrace<T>): Promise<void> {
+        sqlite.saveDiscoveryTrace(record);
+    }
+
+    async listDiscoveryTraces<T>(companyId: string, options?: DiscoveryTraceQuery): Promise<Array<DiscoveryTraceRecord<T>>> {
+        return sqlite.listDiscoveryTraces<T>(companyId, options);
+    }
+
+    async listRecentDiscoveryTraces<T>(options?: RecentDiscoveryTraceQuery): Promise<Array<DiscoveryTraceRecord<T>>> {
+        return sqlite.listRecentDiscoveryTraces<T>(options);
+    }
+
+    async createRun(run: NewRun): Promise<void> {
+        sqlite.createRun(run);
+    }
+
+    async getRun(runId: string): Promise<RunRecord | undefined> {
+        return sqlite.getRun(runId);
+    }
+
+    async listRuns(limit?: number, tenantId?: string): Promise<RunRecord[]> {
+        return sqlite.listRuns(limit, tenantId);
+    }
+
+    async updateRunStatus(runId: string, status: RunStatus): Promise<void> {
+        sqlite.updateRunStatus(runId, status);
+    }
+
+    async completeRunIfDone(runId: string): Promise<boolean> {
+        return sqlite.completeRunIfDone(runId);
+    }
+
+    async listRunsForJob(jobId: string): Promise<RunRecord[]> {
+        return sqlite.listRunsForJob(jobId);
+    }
+
+    async createJob(job: NewJob): Promise<void> {
+        sqlite.createJob(job);
+    }
+
+    async getJob(jobId: string): Promise<JobRecord | undefined> {
+        return sqlite.getJob(jobId);
+    }
+
+    async listJobs(options?: { limit?: number; statuses?: JobStatus[]; tenantId?: string }): Promise<JobRecord[]> {
+        return sqlite.listJobs(options);
+    }
+
+    async updateJobStatus(jobId: string, status: JobStatus, error?: string): Promise<void> {
+        sqlite.updateJobStatus(jobId, status, error);
+    }
+
+    async recordJobTaskOutcome(jobId: string, outcome: JobTaskOutcome): Promise<JobRecord | undefined> {
+        return sqlite.recordJobTaskOutcome(jobId, outcome);
+    }
+
+    async appendJobEvent(jobId: string, level: JobEventLevel, message: string): Promise<void> {
+        sqlite.appendJobEvent(jobId, level, message);
+    }
+
+    async listJobEvents(jobId: string, limit?: number): Promise<JobEvent[]> {
+        return sqlite.listJobEvents(jobId, limit);
+    }
+
+    async addJobArtifact(artifact: NewJobArtifact): Promise<void> {
+        sqlite.addJobArtifact(artifact);
+    }
+
+    async listJobArtifacts(jobId: string): Promise<JobArtifact[]> {
+        return sqlite.listJobArtifacts(jobId);
+    }
+
+    async createTenant(tenant: NewTenant): Promise<void> {
+        sqlite.createTenant(tenant);
+    }
+
+    async getTenant(tenantId: string): Promise<TenantRecord | undefined> {
+        return sqlite.getTenant(tenantId);
+    }
+
+    async listTenants(): Promise<TenantRecord[]> {
+        return sqlite.listTenants();
+    }
+
+    async updateTenantQuotas(tenantId: string, quotas: TenantQuotas): Promise<void> {
+        sqlite.updateTenantQuotas(tenantId, quotas);
+    }
+
+    async createApiKey(key: NewApiKey): Promise<void> {
+        sqlite.createApiKey(key);
+    }
+
+    async findApiKeyByHash(keyHash: string): Promise<ApiKeyRecord | undefined> {
+        return sqlite.findApiKeyByHash(keyHash);
+    }
+
+    async listApiKeys(tenantId: string): Promise<ApiKeyRecord[]> {
+        return sqlite.listApiKeys(tenantId);
+    }
+
+    async touchApiKey(keyId: string): Promise<void> {
+        sqlite.touchApiKey(keyId);
+    }
+
+    async revokeApiKey(keyId: string): Promise<boolean> {
+        return sqlite.revokeApiKey(keyId);
+    }
+
+    async getTenantUsage(tenantId: string, day: string): Promise<TenantUsage> {
+        return sqlite.getTenantUsage(tenantId, day);
+    }
+
+    async reserveTenantCompanies(tenantId: string, day: string, requested: number, limit: number | null): Promise<number> {
+        return sqlite.reserveTenantCompanies(tenantId, day, requested, limit);
+    }
+
+    async addTenantSpend(tenantId: string, day: string, amountUsd: number): Promise<void> {
+        sqlite.addTenantSpend(tenantId, day, amountUsd);
+    }
+
+    async createWebhookSubscription(subscription: NewWebhookSubscription): Promise<void> {
+        sqlite.createWebhookSubscription(subscription);
+    }
+
+    async getWebhookSubscription(subscriptionId: string): Promise<WebhookSubscription | undefined> {
+        return sqlite.getWebhookSubscription(subscriptionId);
+    }
+
+    async listWebhookSubscriptions(tenantId?: string): Promise<WebhookSubscription[]> {
+        return sqlite.listWebhookSubscriptions(tenantId);
+    }
+
+    async deactivateWebhookSubscription(subscriptionId: string): Promise<boolean> {
+        return sqlite.deactivateWebhookSubscription(subscriptionId);
+    }
+
+    async createWebhookDelivery(delivery: NewWebhookDelivery): Promise<void> {
+        sqlite.createWebhookDelivery(delivery);
+    }
+
+    async getWebhookDelivery(deliveryId: string): Promise<WebhookDelivery | undefined> {
+        return sqlite.getWebhookDelivery(deliveryId);
+    }
+
+    async recordWebhookAttempt(deliveryId: string, attempt: WebhookAttempt): Promise<void> {
+        sqlite.recordWebhookAttempt(deliveryId, attempt);
+    }
+
+    async listWebhookDeliveries(subscriptionId: string, limit?: number): Promise<WebhookDelivery[]> {
+        return sqlite.listWebhookDeliveries(subscriptionId, limit);
+    }
+
+    async getStats(tenantId?: string): Promise<DatabaseStats> {
+        return sqlite.getStats(tenantId);
+    }
+
+    async exportEnrichedToCSV(outputPath: string, tenantId?: string): Promise<void> {
+        sqlite.exportEnrichedToCSV(outputPath, tenantId);
+    }
+}
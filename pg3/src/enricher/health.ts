@@ -4,21 +4,33 @@
  * 
  * Endpoints:
  * - GET /health - Overall system health
- * - GET /stats - Processing statistics
+ * - GET /stats - Processing statistics (API key required; scoped to the key's tenant)
+ *
+ * CORS is limited to API_CORS_ORIGINS.
  */
 
 import * as http from 'http';
 import { Logger } from './utils/logger';
 import { getQueueHealth } from './queue';
-import { getStats as getDbStats, initializeDatabase } from './db';
+import { getResultStore, initializeResultStore } from './db/result_store';
 import { config } from './config';
+import { applyCors, authenticateRequest } from './tenancy/http';
+import { AuthenticationError } from '../utils/errors';
 
 const PORT = config.health.port;
 
 const server = http.createServer(async (req, res) => {
-    // CORS headers
-    res.setHeader('Access-Control-Allow-Origin', '*');
     res.setHeader('Content-Type', 'application/json');
+    if (!applyCors(req, res)) {
+        res.statusCode = 403;
+        res.end(JSON.stringify({ error: 'Origin not allowed' }));
+        return;
+    }
+    if (req.method === 'OPTIONS') {
+        res.statusCode = 204;
+        res.end();
+        return;
+    }
 
     try {
         if (req.url === '/health') {
@@ -34,7 +46,8 @@ const server = http.createServer(async (req, res) => {
                 error: queueHealth.error || null,
             }));
         } else if (req.url === '/stats') {
-            const dbStats = getDbStats();
+            const caller = await authenticateRequest(req.headers);
+            const dbStats = await getResultStore().getStats(caller?.tenant.id);
             const queueHealth = await getQueueHealth();
 
             res.statusCode = 200;
@@ -48,14 +61,19 @@ const server = http.createServer(async (req, res) => {
             res.end(JSON.stringify({ error: 'Not Found' }));
         }
     } catch (error) {
+        if (error instanceof AuthenticationError) {
+            res.statusCode = 401;
+            res.end(JSON.stringify({ error: error.message }));
+            return;
+        }
         Logger.error('Health check error', { error: error as Error });
         res.statusCode = 500;
         res.end(JSON.stringify({ error: 'Internal Server Error' }));
     }
 });
 
-export function startHealthServer(): void {
-    initializeDatabase();
+export async function startHealthServer(): Promise<void> {
+    await initializeResultStore();
     server.listen(PORT, () => {
         Logger.info(`🏥 Health check API running on http://localhost:${PORT}/health`);
     });
@@ -63,5 +81,8 @@ export function startHealthServer(): void {
 
 // Auto-start if run directly
 if (require.main === module) {
-    startHealthServer();
+    startHealthServer().catch((error: unknown) => {
+        Logger.fatal('Health check API failed to start', { error: error as Error });
+        process.exit(1);
+    });
 }
@@ -2,6 +2,7 @@ import axios from 'axios';
 import { CompanyInput } from '../types';
 import { Logger } from '../utils/logger';
 import * as fs from 'fs';
+import { CompanyUpdateEvent, CompanyUpdateSink, CompanyUpdateStatus, getLiveContext } from './live_events';
 
 // Configuration (should be in config.ts eventually)
 const ANTIGRAVITY_ENDPOINT = process.env.ANTIGRAVITY_URL || 'https://api.antigravity.io/v1/ingest';
@@ -11,6 +12,7 @@ export class AntigravityClient {
     private static instance: AntigravityClient;
     private buffer: any[] = [];
     private flushInterval: NodeJS.Timeout | null = null;
+    private sinks = new Set<CompanyUpdateSink>();
 
     private constructor() {
         // Auto-flush every 2 seconds for "live" feel
@@ -24,12 +26,23 @@ export class AntigravityClient {
         return AntigravityClient.instance;
     }
 
+    /**
+     * Register a local consumer of company updates (e.g. the live-events Redis publisher).
+     * Returns an unregister function.
+     */
+    public addSink(sink: CompanyUpdateSink): () => void {
+        this.sinks.add(sink);
+        return () => this.sinks.delete(sink);
+    }
+
     /**
      * Sends a status update for a company.
      * Call this whenever a CSV row is written or a major step is completed.
+     * Events are tagged with the current run / job context (see withLiveContext).
      */
-    public trackCompanyUpdate(company: CompanyInput, status: 'FOUND' | 'SEARCHING' | 'ENRICHED' | 'FAILED', metadata?: any) {
-        const payload = {
+    public trackCompanyUpdate(company: CompanyInput, status: CompanyUpdateStatus, metadata?: any) {
+        const payload: CompanyUpdateEvent = {
+            ...getLiveContext(),
             company_name: company.company_name,
             piva: company.vat_code || company.piva || company.fiscal_code, // Handle varied naming
             status: status,
@@ -39,6 +52,13 @@ export class AntigravityClient {
         };
 
         this.buffer.push(payload);
+        for (const sink of this.sinks) {
+            try {
+                sink(payload);
+            } catch (error) {
+                Logger.warn('[Antigravity] Company update sink failed', { error: error as Error });
+            }
+        }
 
         // Immediate flush if buffer gets full
         if (this.buffer.length >= 10) {
@@ -0,0 +1,101 @@
+/**
+ * 📡 LIVE EVENTS
+ * Carries `trackCompanyUpdate` events from worker processes to the dashboard server.
+ *
+ * - Workers tag events with the run / job (and tenant) they are processing (AsyncLocalStorage context)
+ *   and publish them on a Redis pub/sub channel.
+ * - The server subscribes and fans them out to SSE clients (see ./live_hub.ts).
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type IORedis from 'ioredis';
+import { Logger } from '../utils/logger';
+
+export const LIVE_EVENTS_CHANNEL = 'antigravity:company-updates';
+
+export type CompanyUpdateStatus = 'FOUND' | 'SEARCHING' | 'ENRICHED' | 'FAILED';
+
+export interface LiveContext {
+    run_id?: string;
+    job_id?: string;
+    /** Owner of the run / job: scopes the dashboard stream and attributes LLM spend */
+    tenant_id?: string;
+    /** Company of the stage job (tags the SERP cache entries it fetches) */
+    company_id?: string;
+}
+
+export interface CompanyUpdateEvent extends LiveContext {
+    company_name: string;
+    piva?: string;
+    status: CompanyUpdateStatus;
+    website?: string;
+    timestamp: string;
+    [key: string]: unknown;
+}
+
+export type CompanyUpdateSink = (event: CompanyUpdateEvent) => void;
+
+const contextStorage = new AsyncLocalStorage<LiveContext>();
+
+/**
+ * Run `fn` with a run / job context; company updates emitted inside it are tagged with it.
+ */
+export function withLiveContext<T>(context: LiveContext, fn: () => T): T {
+    return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+}
+
+export function getLiveContext(): LiveContext {
+    return contextStorage.getStore() ?? {};
+}
+
+export function isCompanyUpdateEvent(value: unknown): value is CompanyUpdateEvent {
+    const event = value as CompanyUpdateEvent;
+    return !!event
+        && typeof event.company_name === 'string'
+        && typeof event.timestamp === 'string'
+        && ['FOUND', 'SEARCHING', 'ENRICHED', 'FAILED'].includes(event.status);
+}
+
+/**
+ * Sink that publishes each event on the live channel (fire and forget).
+ */
+export function createRedisEventSink(connection: IORedis): CompanyUpdateSink {
+    return (event) => {
+        connection.publish(LIVE_EVENTS_CHANNEL, JSON.stringify(event)).catch((error: Error) => {
+            Logger.warn('[LiveEvents] Failed to publish company update', { error });
+        });
+    };
+}
+
+/**
+ * Subscribe to the live channel on a dedicated connection (a subscribed ioredis client
+ * cannot run other commands). Returns an unsubscribe function.
+ */
+export async function subscribeCompanyUpdates(
+    connection: IORedis,
+    handler: (event: CompanyUpdateEvent) => void
+): Promise<() => Promise<void>> {
+    const subscriber = connection.duplicate();
+    subscriber.on('error', (error) => {
+        Logger.warn('[LiveEvents] Subscriber connection error', { error });
+    });
+    subscriber.on('message', (channel: string, message: string) => {
+        if (channel !== LIVE_EVENTS_CHANNEL) {
+            return;
+        }
+        try {
+            const event = JSON.parse(message) as unknown;
+            if (isCompanyUpdateEvent(event)) {
+                handler(event);
+            }
+        } catch (error) {
+            Logger.warn('[LiveEvents] Dropped malformed company update', { error: error as Error });
+        }
+    });
+    await subscriber.subscribe(LIVE_EVENTS_CHANNEL);
+
+    return async () => {
+        await subscriber.unsubscribe(LIVE_EVENTS_CHANNEL).catch(() => undefined);
+        await subscriber.quit().catch(() => undefined);
+    };
+}
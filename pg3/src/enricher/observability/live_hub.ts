@@ -0,0 +1,239 @@
+/**
+ * 📺 LIVE PROGRESS HUB
+ * Server-side fan-out behind `GET /api/events` (Server-Sent Events).
+ *
+ * Streams to each dashboard client:
+ * - `snapshot`: recent company updates + latest stats, on connect
+ * - `company`: every trackCompanyUpdate event (SEARCHING / FOUND / ENRICHED / FAILED)
+ * - `stats`: BullMQ queue counts, throughput and active job progress, every tick
+ * - `job`: progress, runs and latest log lines of the job a client follows (`?job_id=`)
+ *
+ * Clients following a job only receive the company updates of that job and its runs.
+ * Tenant clients only see their own company updates and jobs (queue counts are shared).
+ */
+
+import { Logger } from '../utils/logger';
+import type { QueueCounts } from '../queue';
+import type { JobDetails, JobProgress } from '../queue/jobs';
+import type { JobRecord } from '../db/model';
+import { CompanyUpdateEvent } from './live_events';
+
+const FINISHED_STATUSES = new Set(['ENRICHED', 'FAILED']);
+const JOB_LOG_LINES = 20;
+
+export interface LiveJobSummary {
+    id: string;
+    tenant_id?: string;
+    status: JobRecord['status'];
+    percent: number;
+}
+
+export interface LiveStats {
+    queues: Record<string, QueueCounts>;
+    throughput_per_min: number;
+    active_jobs: LiveJobSummary[];
+    timestamp: string;
+}
+
+export interface LiveHubSources {
+    getQueueCounts(): Promise<Record<string, QueueCounts>>;
+    listActiveJobs(): Promise<Array<{ job: JobRecord; progress: JobProgress }>>;
+    getJobDetails(jobId: string, logLimit: number): Promise<JobDetails>;
+}
+
+export interface LiveHubOptions {
+    intervalMs: number;
+    recentLimit: number;
+    throughputWindowMs: number;
+}
+
+/** Anything we can stream to (express Response in production). */
+export interface LiveClientStream {
+    write(chunk: string): unknown;
+}
+
+export interface LiveClientFilter {
+    job_id?: string;
+    tenant_id?: string;
+}
+
+interface LiveClient {
+    stream: LiveClientStream;
+    filter: LiveClientFilter;
+    runIds: Set<string>;
+}
+
+export function formatSseMessage(event: string, data: unknown, id?: number): string {
+    const lines = [`event: ${event}`];
+    if (id !== undefined) {
+        lines.push(`id: ${id}`);
+    }
+    for (const line of JSON.stringify(data).split('\n')) {
+        lines.push(`data: ${line}`);
+    }
+    return `${lines.join('\n')}\n\n`;
+}
+
+/**
+ * Finished companies (ENRICHED / FAILED) per minute over the trailing window.
+ */
+export function computeThroughputPerMinute(finishedAt: number[], now: number, windowMs: number): number {
+    const recent = finishedAt.filter((timestamp) => timestamp > now - windowMs && timestamp <= now).length;
+    return Math.round((recent * 60_000 / windowMs) * 10) / 10;
+}
+
+export class LiveProgressHub {
+    private clients = new Set<LiveClient>();
+    private recent: CompanyUpdateEvent[] = [];
+    private finishedAt: number[] = [];
+    private lastStats: LiveStats | null = null;
+    private timer: NodeJS.Timeout | null = null;
+    private inflight: Promise<void> | null = null;
+    private sequence = 0;
+
+    constructor(private readonly sources: LiveHubSources, private readonly options: LiveHubOptions) { }
+
+    get clientCount(): number {
+        return this.clients.size;
+    }
+
+    /**
+     * Register a stream; returns the function that unregisters it (call it on disconnect).
+     */
+    addClient(stream: LiveClientStream, filter: LiveClientFilter = {}): () => void {
+        const client: LiveClient = { stream, filter, runIds: new Set() };
+        this.clients.add(client);
+        this.send(client, 'snapshot', {
+            recent: this.recent.filter((event) => this.matches(client, event)),
+            stats: this.statsFor(client),
+        });
+
+        if (!this.timer) {
+            this.timer = setInterval(() => void this.tick(), this.options.intervalMs);
+        }
+        void this.tick();
+
+        return () => {
+            this.clients.delete(client);
+            if (this.clients.size === 0) {
+                this.stop();
+            }
+        };
+    }
+
+    /**
+     * Record a company update and forward it to the clients it concerns.
+     */
+    publish(event: CompanyUpdateEvent): void {
+        this.recent.push(event);
+        if (this.recent.length > this.options.recentLimit) {
+            this.recent.splice(0, this.recent.length - this.options.recentLimit);
+        }
+        if (FINISHED_STATUSES.has(event.status)) {
+            this.finishedAt.push(Date.parse(event.timestamp) || Date.now());
+        }
+
+        for (const client of this.clients) {
+            if (this.matches(client, event)) {
+                this.send(client, 'company', event);
+            }
+        }
+    }
+
+    /**
+     * Collect queue counts / job progress and push them. Overlapping calls share the tick in flight.
+     */
+    tick(now: number = Date.now()): Promise<void> {
+        if (this.clients.size === 0) {
+            return Promise.resolve();
+        }
+        if (!this.inflight) {
+            this.inflight = this.collect(now).finally(() => {
+                this.inflight = null;
+            });
+        }
+        return this.inflight;
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private async collect(now: number): Promise<void> {
+        try {
+            this.finishedAt = this.finishedAt.filter((timestamp) => timestamp > now - this.options.throughputWindowMs);
+            const [queues, activeJobs] = await Promise.all([
+                this.sources.getQueueCounts(),
+                this.sources.listActiveJobs(),
+            ]);
+            this.lastStats = {
+                queues,
+                throughput_per_min: computeThroughputPerMinute(this.finishedAt, now, this.options.throughputWindowMs),
+                active_jobs: activeJobs.map(({ job, progress }) => ({
+                    id: job.id,
+                    ...(job.tenant_id ? { tenant_id: job.tenant_id } : {}),
+                    status: job.status,
+                    percent: progress.percent,
+                })),
+                timestamp: new Date(now).toISOString(),
+            };
+            for (const client of this.clients) {
+                this.send(client, 'stats', this.statsFor(client));
+            }
+            await this.pushJobProgress();
+        } catch (error) {
+            Logger.warn('[LiveHub] Failed to collect live stats', { error: error as Error });
+        }
+    }
+
+    private async pushJobProgress(): Promise<void> {
+        const jobIds = new Set(Array.from(this.clients).map((client) => client.filter.job_id).filter((id): id is string => !!id));
+        for (const jobId of jobIds) {
+            let details: JobDetails;
+            try {
+                details = await this.sources.getJobDetails(jobId, JOB_LOG_LINES);
+            } catch (error) {
+                Logger.warn(`[LiveHub] Could not load job ${jobId}`, { error: error as Error });
+                continue;
+            }
+            const runIds = new Set(details.runs.map((run) => run.id));
+            for (const client of this.clients) {
+                if (client.filter.job_id === jobId) {
+                    client.runIds = runIds;
+                    this.send(client, 'job', details);
+                }
+            }
+        }
+    }
+
+    private statsFor(client: LiveClient): LiveStats | null {
+        const tenantId = client.filter.tenant_id;
+        if (!this.lastStats || !tenantId) {
+            return this.lastStats;
+        }
+        return { ...this.lastStats, active_jobs: this.lastStats.active_jobs.filter((job) => job.tenant_id === tenantId) };
+    }
+
+    private matches(client: LiveClient, event: CompanyUpdateEvent): boolean {
+        if (client.filter.tenant_id && event.tenant_id !== client.filter.tenant_id) {
+            return false;
+        }
+        const jobId = client.filter.job_id;
+        if (!jobId) {
+            return true;
+        }
+        return event.job_id === jobId || (!!event.run_id && client.runIds.has(event.run_id));
+    }
+
+    private send(client: LiveClient, event: string, data: unknown): void {
+        try {
+            client.stream.write(formatSseMessage(event, data, ++this.sequence));
+        } catch (error) {
+            Logger.warn('[LiveHub] Dropping client after write failure', { error: error as Error });
+            this.clients.delete(client);
+        }
+    }
+}
@@ -0,0 +1,203 @@
+/**
+ * 💀 DEAD LETTER TRIAGE
+ * Reads exhausted jobs back out of the `dead-letter` queue.
+ *
+ * - list: DLQ entries grouped by reason_code / error_category (from job_log)
+ * - requeue: push a filtered subset back into `enrichment`, optionally escalating the DiscoveryMode
+ * - purge: drop entries we give up on (needs a filter, or `all` to empty the DLQ)
+ */
+
+import { Job } from 'bullmq';
+import { Logger } from '../utils/logger';
+import { getResultStore, initializeResultStore } from '../db/result_store';
+import { isDiscoveryMode } from '../core/discovery/layers/mode_profiles';
+import { ValidationError } from '../../utils/errors';
+import { deadLetterQueue, enrichmentQueue, EnrichmentJobData, JobResult } from './index';
+
+const DLQ_PAGE_SIZE = 500;
+const DLQ_JOB_STATES = ['waiting', 'delayed', 'paused'] as const;
+
+export interface DeadLetterFilter {
+    reason_code?: string;
+    error_category?: string;
+    failed_stage?: string;
+    run_id?: string;
+    /** Set for API callers: only that tenant's entries */
+    tenant_id?: string;
+    limit?: number;
+}
+
+export interface DeadLetterEntry {
+    job_id: string;
+    company_id: string;
+    company_name: string;
+    run_id?: string;
+    tenant_id?: string;
+    failed_stage?: string;
+    attempt?: number;
+    reason_code: string;
+    error_category: string;
+    error_message?: string;
+    failed_at?: string;
+}
+
+export interface DeadLetterGroup {
+    reason_code: string;
+    error_category: string;
+    count: number;
+    company_ids: string[];
+}
+
+export interface DeadLetterRequeueOptions {
+    mode?: string;
+}
+
+export interface DeadLetterPurgeOptions {
+    /** Purge without a filter (every entry the caller can see) */
+    all?: boolean;
+}
+
+const UNKNOWN = 'UNKNOWN';
+
+export async function toDeadLetterEntry(job: Job<EnrichmentJobData, JobResult>): Promise<DeadLetterEntry> {
+    const failure = await getResultStore().getLatestJobFailure(job.data.company_id);
+    return {
+        job_id: String(job.id),
+        company_id: job.data.company_id,
+        company_name: job.data.company_name,
+        run_id: job.data.run_id,
+        tenant_id: job.data.tenant_id,
+        failed_stage: job.data.failed_stage || failure?.stage || undefined,
+        attempt: job.data.attempt,
+        reason_code: failure?.reason_code || UNKNOWN,
+        error_category: failure?.error_category || UNKNOWN,
+        error_message: failure?.error_message || undefined,
+        failed_at: failure?.processed_at,
+    };
+}
+
+export function matchesDeadLetterFilter(entry: DeadLetterEntry, filter: DeadLetterFilter): boolean {
+    if (filter.reason_code && entry.reason_code !== filter.reason_code) return false;
+    if (filter.error_category && entry.error_category !== filter.error_category) return false;
+    if (filter.failed_stage && entry.failed_stage !== filter.failed_stage) return false;
+    if (filter.run_id && entry.run_id !== filter.run_id) return false;
+    if (filter.tenant_id && entry.tenant_id !== filter.tenant_id) return false;
+    return true;
+}
+
+export function groupDeadLetters(entries: DeadLetterEntry[]): DeadLetterGroup[] {
+    const groups = new Map<string, DeadLetterGroup>();
+    for (const entry of entries) {
+        const key = `${entry.reason_code}|${entry.error_category}`;
+        const group = groups.get(key) || {
+            reason_code: entry.reason_code,
+            error_category: entry.error_category,
+            count: 0,
+            company_ids: [],
+        };
+        group.count += 1;
+        group.company_ids.push(entry.company_id);
+        groups.set(key, group);
+    }
+    return Array.from(groups.values()).sort((a, b) => b.count - a.count);
+}
+
+function assertDiscoveryMode(mode?: string): void {
+    if (mode && !isDiscoveryMode(mode)) {
+        throw new ValidationError(`Invalid discovery mode: ${mode}`);
+    }
+}
+
+/**
+ * Scan the DLQ page by page and keep the jobs matching the filter.
+ */
+async function collectDeadLetters(
+    filter: DeadLetterFilter
+): Promise<Array<{ job: Job<EnrichmentJobData, JobResult>; entry: DeadLetterEntry }>> {
+    await initializeResultStore();
+    const matched: Array<{ job: Job<EnrichmentJobData, JobResult>; entry: DeadLetterEntry }> = [];
+    const limit = filter.limit && filter.limit > 0 ? filter.limit : Number.POSITIVE_INFINITY;
+
+    for (let start = 0; matched.length < limit; start += DLQ_PAGE_SIZE) {
+        const page = await deadLetterQueue.getJobs([...DLQ_JOB_STATES], start, start + DLQ_PAGE_SIZE - 1, true);
+        if (page.length === 0) {
+            break;
+        }
+        for (const job of page) {
+            if (!job) continue;
+            const entry = await toDeadLetterEntry(job);
+            if (matchesDeadLetterFilter(entry, filter)) {
+                matched.push({ job, entry });
+                if (matched.length >= limit) break;
+            }
+        }
+        if (page.length < DLQ_PAGE_SIZE) {
+            break;
+        }
+    }
+
+    return matched;
+}
+
+export async function listDeadLetters(filter: DeadLetterFilter = {}): Promise<{
+    total: number;
+    groups: DeadLetterGroup[];
+    entries: DeadLetterEntry[];
+}> {
+    const matched = await collectDeadLetters(filter);
+    const entries = matched.map(({ entry }) => entry);
+    return {
+        total: entries.length,
+        groups: groupDeadLetters(entries),
+        entries,
+    };
+}
+
+/**
+ * 🔁 Push matching DLQ entries back into `enrichment` and drop them from the DLQ.
+ */
+export async function requeueDeadLetters(
+    filter: DeadLetterFilter = {},
+    options: DeadLetterRequeueOptions = {}
+): Promise<{ requeued: number; job_ids: string[] }> {
+    assertDiscoveryMode(options.mode);
+    const matched = await collectDeadLetters(filter);
+    const replayTag = Date.now();
+    const jobIds: string[] = [];
+
+    for (const { job } of matched) {
+        const { attempt: _attempt, failed_stage: _failedStage, ...data } = job.data;
+        const replayed = await enrichmentQueue.add('enrich', {
+            ...data,
+            discovery_mode: options.mode || data.discovery_mode,
+        }, {
+            jobId: `enrich-${data.company_id}-replay-${replayTag}`,
+        });
+        await job.remove();
+        jobIds.push(String(replayed.id));
+    }
+
+    Logger.info(`🔁 Requeued ${jobIds.length} dead letter jobs`, { filter, mode: options.mode });
+    return { requeued: jobIds.length, job_ids: jobIds };
+}
+
+/**
+ * 🗑️ Remove matching DLQ entries for good.
+ */
+export async function purgeDeadLetters(
+    filter: DeadLetterFilter,
+    options: DeadLetterPurgeOptions = {}
+): Promise<{ purged: number }> {
+    // limit and tenant_id only bound the purge: they do not select what to give up on
+    const hasFilter = Boolean(filter.reason_code || filter.error_category || filter.failed_stage || filter.run_id);
+    if (!hasFilter && !options.all) {
+        throw new ValidationError('DLQ purge needs a filter (reason_code, error_category, failed_stage, run_id) or all: true');
+    }
+    const matched = await collectDeadLetters(filter);
+    for (const { job } of matched) {
+        await job.remove();
+    }
+
+    Logger.warn(`🗑️ Purged ${matched.length} dead letter jobs`, { filter, all: options.all });
+    return { purged: matched.length };
+}
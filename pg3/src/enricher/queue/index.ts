@@ -5,13 +5,19 @@
  * Architecture:
  * - Scheduler: Loads companies from CSV/DB and adds to queue
  * - Worker: Processes jobs from queue with retry logic
+ * - Stages: Each enrichment job fans out into a BullMQ flow
+ *   (discovery child -> financial parent), each stage with its own queue
  * - Dead Letter: Failed jobs go to DLQ for manual review
+ * - Scrape: one task per niche x location combo of an API job (see ../jobs)
+ * - Webhook: one job per outbound webhook delivery (see ../webhooks)
  */
 
-import { Queue, Job, QueueEvents } from 'bullmq';
+import { Queue, Job, QueueEvents, FlowProducer, JobNode } from 'bullmq';
 import IORedis from 'ioredis';
 import { Logger } from '../utils/logger';
 import { config } from '../config';
+import type { SecondaryWebsite } from '../types';
+import type { FinancialFigure } from '../db/model';
 
 const REDIS_URL = config.redis.url;
 const RETRY_ATTEMPTS = config.queue.retryAttempts;
@@ -19,6 +25,7 @@ const RETRY_DELAY_MS = config.queue.retryDelayMs;
 const QUEUE_BATCH_SIZE = config.queue.batchSize;
 const REDIS_CONNECT_TIMEOUT_MS = config.queue.redisConnectTimeoutMs;
 const REDIS_CONNECT_RETRIES = config.queue.redisConnectRetries;
+const STAGES = config.queue.stages;
 
 // 🔌 Redis Connection (Singleton)
 export const redisConnection = new IORedis(REDIS_URL, {
@@ -48,8 +55,12 @@ export const QUEUE_NAMES = {
     DEAD_LETTER: 'dead-letter',
     FINANCIAL: 'financial',
     DISCOVERY: 'discovery',
+    SCRAPE: 'scrape',
+    WEBHOOK: 'webhook',
 } as const;
 
+export type PipelineStage = 'discovery' | 'financial';
+
 // 📦 Job Data Types
 export interface EnrichmentJobData {
     company_id: string;
@@ -68,7 +79,34 @@ export interface EnrichmentJobData {
     email?: string;
     attempt?: number;
     run_id?: string;
+    tenant_id?: string;
     correlation_id?: string;
+    failed_stage?: PipelineStage;
+    discovery_mode?: string;
+    /** Discovery spend cap in EUR for this company (default DISCOVERY_BUDGET_PER_COMPANY_EUR) */
+    discovery_budget_eur?: number;
+}
+
+/**
+ * Output of the discovery stage, persisted in `stage_results` and
+ * handed to the financial stage as a flow child value.
+ */
+export interface DiscoveryStageResult {
+    company_id: string;
+    website?: string;
+    discovery_method?: string;
+    discovery_confidence?: number;
+    reason_code?: string;
+    /** EUR spent by discovery on paid providers and LLM calls */
+    discovery_cost_eur?: number;
+    /** Other verified domains of the company, next to `website` */
+    secondary_websites?: SecondaryWebsite[];
+    /** Verified company pages on social networks (kept with or without a website) */
+    facebook_url?: string;
+    instagram_url?: string;
+    linkedin_company_url?: string;
+    /** Dated financials of the identity profile discovery matched (core/financial/statement.ts) */
+    financial_figures?: FinancialFigure[];
 }
 
 export interface JobResult {
@@ -86,11 +124,42 @@ export interface JobResult {
     discovery_confidence?: number;
 }
 
+/**
+ * One niche x location scrape of an API job.
+ */
+export interface ScrapeTaskData {
+    job_id: string;
+    tenant_id?: string;
+    task_index: number;
+    niche: string;
+    location: string;
+    company_limit?: number;
+    enrich: boolean;
+    /** Discovery spend cap in EUR per company of the runs this task spawns */
+    discovery_budget_eur?: number;
+}
+
+export interface ScrapeTaskResult {
+    companies: number;
+    enqueued: number;
+    run_id?: string;
+    stopped: boolean;
+    /** Companies left out because the tenant's daily company quota ran out */
+    over_quota?: number;
+}
+
+/**
+ * One delivery of a webhook event; the payload lives in `webhook_deliveries`.
+ */
+export interface WebhookJobData {
+    delivery_id: string;
+}
+
 /**
  * 🏭 Queue Factory - Creates configured queues
  */
-export function createQueue(name: string): Queue<EnrichmentJobData, JobResult> {
-    return new Queue(name, {
+export function createQueue<R = JobResult>(name: string): Queue<EnrichmentJobData, R> {
+    return new Queue<EnrichmentJobData, R>(name, {
         connection: redisConnection,
         defaultJobOptions: {
             attempts: RETRY_ATTEMPTS,
@@ -112,6 +181,59 @@ export function createQueue(name: string): Queue<EnrichmentJobData, JobResult> {
  */
 export const enrichmentQueue = createQueue(QUEUE_NAMES.ENRICHMENT);
 export const deadLetterQueue = createQueue(QUEUE_NAMES.DEAD_LETTER);
+export const discoveryQueue = createQueue<DiscoveryStageResult>(QUEUE_NAMES.DISCOVERY);
+export const financialQueue = createQueue(QUEUE_NAMES.FINANCIAL);
+
+export const scrapeQueue = new Queue<ScrapeTaskData, ScrapeTaskResult>(QUEUE_NAMES.SCRAPE, {
+    connection: redisConnection,
+    defaultJobOptions: {
+        attempts: config.queue.scrape.retryAttempts,
+        backoff: {
+            type: 'exponential',
+            delay: config.queue.scrape.retryDelayMs,
+        },
+        removeOnComplete: {
+            age: 3600,
+            count: 1000,
+        },
+        removeOnFail: false,
+    },
+});
+
+export const webhookQueue = new Queue<WebhookJobData>(QUEUE_NAMES.WEBHOOK, {
+    connection: redisConnection,
+    defaultJobOptions: {
+        attempts: config.webhooks.retryAttempts,
+        backoff: {
+            type: 'exponential',
+            delay: config.webhooks.retryDelayMs,
+        },
+        removeOnComplete: {
+            age: 3600,
+            count: 1000,
+        },
+        removeOnFail: false,
+    },
+});
+
+// 🌳 Flow producer wiring stage jobs together (children complete before parents run)
+export const flowProducer = new FlowProducer({ connection: redisConnection });
+
+function stageJobOptions(stage: PipelineStage) {
+    const stageConfig = STAGES[stage];
+    return {
+        attempts: stageConfig.retryAttempts,
+        backoff: {
+            type: 'exponential',
+            delay: stageConfig.retryDelayMs,
+        },
+        removeOnComplete: {
+            age: 3600,
+            count: 1000,
+        },
+        removeOnFail: false,
+    };
+}
 
 /**
  * 📊 Queue Events Listener (for monitoring)
@@ -162,17 +284,93 @@ export async function addJobsBatch(
     return enqueued;
 }
 
+/**
+ * 🔑 Key of the stage jobs of one dispatch: the run (or the intake job creation time outside a
+ * run) plus the intake job key, which carries the DLQ replay tag.
+ * Failed stage jobs are retained and completed ones kept for an hour, and `flowProducer.add`
+ * returns an existing flow instead of adding one: a key shared with an earlier dispatch would
+ * leave the new run without stage jobs. A retried intake job keeps its key.
+ */
+export function stageFlowKey(data: EnrichmentJobData, intakeJobId: string, intakeCreatedAt: number): string {
+    const intakeKey = intakeJobId.startsWith('enrich-') ? intakeJobId.slice('enrich-'.length) : data.company_id;
+    return `${data.run_id ?? intakeCreatedAt}-${intakeKey}`;
+}
+
+/**
+ * 🌳 Fan an enrichment job out into its stage flow.
+ * The financial stage is the parent, so it only runs once discovery completes.
+ * `flowKey` makes the stage job ids unique per dispatch (see stageFlowKey).
+ */
+export async function addEnrichmentFlow(data: EnrichmentJobData, flowKey: string): Promise<JobNode> {
+    return flowProducer.add({
+        name: 'financial',
+        queueName: QUEUE_NAMES.FINANCIAL,
+        data,
+        opts: {
+            ...stageJobOptions('financial'),
+            jobId: `financial-${flowKey}`,
+        },
+        children: [
+            {
+                name: 'discovery',
+                queueName: QUEUE_NAMES.DISCOVERY,
+                data,
+                opts: {
+                    ...stageJobOptions('discovery'),
+                    jobId: `discovery-${flowKey}`,
+                    failParentOnFailure: true,
+                },
+            },
+        ],
+    });
+}
+
+/**
+ * 🔁 Re-run a single stage for a company outside of its flow.
+ * Discovery refreshes the persisted stage result; financial consumes it.
+ */
+export async function enqueueStageJob(stage: PipelineStage, data: EnrichmentJobData): Promise<Job> {
+    const queue = stage === 'discovery' ? discoveryQueue : financialQueue;
+    return queue.add(stage, data, {
+        ...stageJobOptions(stage),
+        jobId: `${stage}-${data.company_id}-rerun-${Date.now()}`,
+    });
+}
+
+/**
+ * 🗺️ Enqueue the scrape tasks of an API job (one per niche x location combo).
+ */
+export async function enqueueScrapeTasks(tasks: ScrapeTaskData[]): Promise<number> {
+    const added = await scrapeQueue.addBulk(tasks.map((task) => ({
+        name: 'scrape',
+        data: task,
+        opts: {
+            jobId: `scrape-${task.job_id}-${task.task_index}`,
+        },
+    })));
+    return added.length;
+}
+
+/**
+ * 🪝 Enqueue the delivery of a webhook event (retried with exponential backoff).
+ */
+export async function enqueueWebhookDelivery(deliveryId: string): Promise<void> {
+    await webhookQueue.add('deliver', { delivery_id: deliveryId }, { jobId: `webhook-${deliveryId}` });
+}
+
 /**
  * 🚮 Move failed job to Dead Letter Queue
  */
-export async function moveToDeadLetter(job: Job<EnrichmentJobData>): Promise<void> {
-    await deadLetterQueue.add('failed-enrichment', {
+export async function moveToDeadLetter(job: Job<EnrichmentJobData>, stage?: PipelineStage): Promise<Job<EnrichmentJobData, JobResult>> {
+    const deadLetter = await deadLetterQueue.add('failed-enrichment', {
         ...job.data,
         attempt: job.attemptsMade,
+        failed_stage: stage,
     }, {
         jobId: `dlq-${job.id}`,
     });
     Logger.warn(`💀 Job ${job.id} moved to Dead Letter Queue after ${job.attemptsMade} attempts`);
+    return deadLetter;
 }
 
 /**
@@ -206,11 +404,42 @@ export async function getQueueHealth(): Promise<{
     }
 }
 
+export interface QueueCounts {
+    waiting: number;
+    active: number;
+    delayed: number;
+    completed: number;
+    failed: number;
+}
+
+/**
+ * 📊 Job counts for every pipeline queue (live dashboard).
+ */
+export async function getQueueCounts(): Promise<Record<string, QueueCounts>> {
+    const queues: Array<Pick<Queue, 'name' | 'getJobCounts'>> = [scrapeQueue, enrichmentQueue, discoveryQueue, financialQueue, deadLetterQueue, webhookQueue];
+    const entries = await Promise.all(queues.map(async (queue) => {
+        const counts = await queue.getJobCounts('waiting', 'active', 'delayed', 'completed', 'failed');
+        return [queue.name, {
+            waiting: counts.waiting ?? 0,
+            active: counts.active ?? 0,
+            delayed: counts.delayed ?? 0,
+            completed: counts.completed ?? 0,
+            failed: counts.failed ?? 0,
+        }] as const;
+    }));
+    return Object.fromEntries(entries);
+}
+
 export async function closeQueueResources(): Promise<void> {
     const closers: Array<Promise<unknown>> = [];
 
     closers.push(enrichmentQueue.close());
     closers.push(deadLetterQueue.close());
+    closers.push(discoveryQueue.close());
+    closers.push(financialQueue.close());
+    closers.push(scrapeQueue.close());
+    closers.push(webhookQueue.close());
+    closers.push(flowProducer.close());
     closers.push(redisConnection.quit());
 
     await Promise.allSettled(closers);
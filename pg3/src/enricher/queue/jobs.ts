@@ -0,0 +1,322 @@
+/**
+ * 🧾 JOB API
+ * A job scrapes every niche x location combination (one `scrape` task each) and, when
+ * `enrich` is on, feeds each task's companies into its own enrichment run.
+ *
+ * - State, logs and output artifacts are persisted through the ResultStore, so they survive restarts.
+ * - Status: QUEUED -> SCRAPING -> ENRICHING -> COMPLETED (or FAILED / CANCELLED).
+ * - Cancel removes queued scrape tasks, stops running ones at the next location and
+ *   cancels the job's enrichment runs.
+ */
+
+import * as crypto from 'crypto';
+import { Job } from 'bullmq';
+import { Logger } from '../utils/logger';
+import { config } from '../config';
+import {
+    isTerminalJobStatus,
+    isTerminalRunStatus,
+    JobArtifact,
+    JobEvent,
+    JobRecord,
+    JobStatus,
+    RunRecord,
+} from '../db/model';
+import { getResultStore, initializeResultStore } from '../db/result_store';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { parseDiscoveryBudgetEur } from '../core/discovery/discovery_budget';
+import { assertTenantCanStartWork } from '../tenancy/quotas';
+import { cancelRun } from './run_control';
+import { enqueueScrapeTasks, ScrapeTaskData, ScrapeTaskResult, scrapeQueue } from './index';
+
+const JOB_SCAN_PAGE_SIZE = 500;
+export const ACTIVE_JOB_STATUSES: JobStatus[] = ['QUEUED', 'SCRAPING', 'ENRICHING'];
+
+export interface JobRequest {
+    niches: string | string[];
+    locations: string | string[];
+    limit?: number;
+    enrich?: boolean;
+    /** Discovery spend cap in EUR per company (0 = uncapped, default DISCOVERY_BUDGET_PER_COMPANY_EUR) */
+    discovery_budget_eur?: number;
+}
+
+export interface JobProgress {
+    scrape: { total: number; completed: number; failed: number; percent: number };
+    enrichment: { runs: number; enqueued: number; succeeded: number; failed: number; percent: number };
+    percent: number;
+}
+
+export interface JobDetails {
+    job: JobRecord;
+    progress: JobProgress;
+    runs: RunRecord[];
+    logs: JobEvent[];
+    artifacts: JobArtifact[];
+}
+
+/**
+ * Comma separated (or array) input -> trimmed, de-duplicated list (case-insensitive).
+ */
+export function parseTargetList(raw: string | string[] | undefined): string[] {
+    const values = Array.isArray(raw) ? raw : (raw || '').split(',');
+    const seen = new Set<string>();
+    const list: string[] = [];
+    for (const value of values) {
+        const trimmed = String(value).trim();
+        if (!trimmed || seen.has(trimmed.toLowerCase())) {
+            continue;
+        }
+        seen.add(trimmed.toLowerCase());
+        list.push(trimmed);
+    }
+    return list;
+}
+
+export function buildScrapeTasks(
+    jobId: string,
+    niches: string[],
+    locations: string[],
+    options: { limit?: number; enrich: boolean; tenantId?: string; discoveryBudgetEur?: number }
+): ScrapeTaskData[] {
+    const tasks: ScrapeTaskData[] = [];
+    for (const niche of niches) {
+        for (const location of locations) {
+            tasks.push({
+                job_id: jobId,
+                ...(options.tenantId ? { tenant_id: options.tenantId } : {}),
+                task_index: tasks.length,
+                niche,
+                location,
+                company_limit: options.limit,
+                enrich: options.enrich,
+                ...(options.discoveryBudgetEur !== undefined ? { discovery_budget_eur: options.discoveryBudgetEur } : {}),
+            });
+        }
+    }
+    return tasks;
+}
+
+function percentOf(done: number, total: number): number {
+    return total > 0 ? Math.round((done / total) * 100) : 0;
+}
+
+/**
+ * Scrape progress plus the progress of the enrichment runs the job spawned.
+ * With enrichment on, both phases weigh half of the overall percentage.
+ */
+export function computeJobProgress(job: JobRecord, runs: RunRecord[]): JobProgress {
+    const scrapeDone = job.completed_tasks + job.failed_tasks;
+    const enqueued = runs.reduce((sum, run) => sum + run.enqueued, 0);
+    const succeeded = runs.reduce((sum, run) => sum + run.succeeded, 0);
+    const failed = runs.reduce((sum, run) => sum + run.failed, 0);
+
+    const scrapePercent = percentOf(scrapeDone, job.total_tasks);
+    const scrapeFinished = scrapeDone >= job.total_tasks;
+    const enrichmentPercent = enqueued > 0
+        ? percentOf(succeeded + failed, enqueued)
+        : (scrapeFinished ? 100 : 0);
+
+    let percent = job.enrich ? Math.round((scrapePercent + enrichmentPercent) / 2) : scrapePercent;
+    if (job.status === 'COMPLETED') {
+        percent = 100;
+    }
+
+    return {
+        scrape: { total: job.total_tasks, completed: job.completed_tasks, failed: job.failed_tasks, percent: scrapePercent },
+        enrichment: { runs: runs.length, enqueued, succeeded, failed, percent: enrichmentPercent },
+        percent,
+    };
+}
+
+/**
+ * `tenantId` owns the job (API callers); tenants out of daily quota are refused.
+ */
+export async function createJob(request: JobRequest, tenantId?: string): Promise<{ job: JobRecord; tasks: number }> {
+    const niches = parseTargetList(request.niches);
+    const locations = parseTargetList(request.locations);
+    if (niches.length === 0 || locations.length === 0) {
+        throw new ValidationError('Both niche and location are required');
+    }
+    // Targets end up in file names and queries: no path separators or control characters
+    const unsafe = [...niches, ...locations].filter((target) => /[/\\\x00-\x1f\x7f]/.test(target));
+    if (unsafe.length > 0) {
+        throw new ValidationError(`Invalid niche or location: ${JSON.stringify(unsafe[0])}`);
+    }
+
+    const combinations = niches.length * locations.length;
+    if (combinations > config.jobs.maxCombinations) {
+        throw new ValidationError(`Too many niche x location combinations: ${combinations} (max ${config.jobs.maxCombinations})`);
+    }
+
+    const limit = request.limit !== undefined ? Number(request.limit) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        throw new ValidationError(`Invalid company limit: ${request.limit}`);
+    }
+
+    const discoveryBudgetEur = parseDiscoveryBudgetEur(request.discovery_budget_eur);
+
+    if (tenantId) {
+        await assertTenantCanStartWork(tenantId);
+    }
+
+    const store = await initializeResultStore();
+    const jobId = `job-${Date.now()}-${crypto.randomUUID().slice(0, 8)}`;
+    const enrich = request.enrich !== false;
+    const tasks = buildScrapeTasks(jobId, niches, locations, { limit, enrich, tenantId, discoveryBudgetEur });
+
+    await store.createJob({ id: jobId, tenant_id: tenantId, niches, locations, company_limit: limit, enrich, total_tasks: tasks.length });
+    try {
+        await enqueueScrapeTasks(tasks);
+    } catch (error) {
+        await store.updateJobStatus(jobId, 'FAILED', (error as Error).message);
+        await store.appendJobEvent(jobId, 'error', `Failed to enqueue scrape tasks: ${(error as Error).message}`);
+        throw error;
+    }
+    await store.appendJobEvent(jobId, 'info', `Queued ${tasks.length} scrape task(s): ${niches.join(', ')} x ${locations.join(', ')}`);
+
+    Logger.info(`🧾 Job created: ${jobId}`, { niches, locations, tasks: tasks.length, enrich, tenant_id: tenantId });
+    return { job: (await store.getJob(jobId)) as JobRecord, tasks: tasks.length };
+}
+
+/**
+ * With a tenant id, jobs of other tenants (and operator jobs) are reported as not found.
+ */
+export async function getJobOrThrow(jobId: string, tenantId?: string): Promise<JobRecord> {
+    const store = await initializeResultStore();
+    const job = await store.getJob(jobId);
+    if (!job || (tenantId && job.tenant_id !== tenantId)) {
+        throw new NotFoundError(`Job not found: ${jobId}`);
+    }
+    return job;
+}
+
+export async function listJobRecords(options: { limit?: number; statuses?: JobStatus[]; tenantId?: string } = {}): Promise<JobRecord[]> {
+    const store = await initializeResultStore();
+    return store.listJobs(options);
+}
+
+export async function getJobDetails(jobId: string, logLimit?: number): Promise<JobDetails> {
+    const job = await getJobOrThrow(jobId);
+    const store = getResultStore();
+    const runs = await store.listRunsForJob(jobId);
+    return {
+        job,
+        progress: computeJobProgress(job, runs),
+        runs,
+        logs: await store.listJobEvents(jobId, logLimit),
+        artifacts: await store.listJobArtifacts(jobId),
+    };
+}
+
+/**
+ * Progress of the jobs still in flight (live dashboard).
+ */
+export async function listActiveJobProgress(limit: number = 20): Promise<Array<{ job: JobRecord; progress: JobProgress }>> {
+    const store = await initializeResultStore();
+    const jobs = await store.listJobs({ statuses: ACTIVE_JOB_STATUSES, limit });
+    return Promise.all(jobs.map(async (job) => ({
+        job,
+        progress: computeJobProgress(job, await store.listRunsForJob(job.id)),
+    })));
+}
+
+export async function isJobCancelled(jobId: string): Promise<boolean> {
+    const job = await getResultStore().getJob(jobId);
+    return !job || job.status === 'CANCELLED';
+}
+
+/**
+ * Move a job to its next status once its scrape tasks (and enrichment runs) are done.
+ */
+export async function settleJob(jobId: string): Promise<JobRecord | undefined> {
+    const store = getResultStore();
+    const job = await store.getJob(jobId);
+    if (!job || isTerminalJobStatus(job.status)) {
+        return job;
+    }
+    if (job.completed_tasks + job.failed_tasks < job.total_tasks) {
+        return job;
+    }
+
+    if (job.completed_tasks === 0) {
+        await store.updateJobStatus(jobId, 'FAILED', 'All scrape tasks failed');
+        await store.appendJobEvent(jobId, 'error', 'Job failed: all scrape tasks failed');
+        Logger.warn(`🧾 Job failed: ${jobId}`);
+        return store.getJob(jobId);
+    }
+
+    const runs = await store.listRunsForJob(jobId);
+    if (runs.some((run) => !isTerminalRunStatus(run.status))) {
+        if (job.status !== 'ENRICHING') {
+            await store.updateJobStatus(jobId, 'ENRICHING');
+            await store.appendJobEvent(jobId, 'info', `Scraping done, enriching ${runs.length} run(s)`);
+        }
+        return store.getJob(jobId);
+    }
+
+    await store.updateJobStatus(jobId, 'COMPLETED');
+    await store.appendJobEvent(jobId, 'info', `Job completed (${job.completed_tasks} task(s) ok, ${job.failed_tasks} failed)`);
+    Logger.info(`🧾 Job completed: ${jobId}`);
+    return store.getJob(jobId);
+}
+
+/**
+ * Called when an enrichment run finishes: settle the job that spawned it, if any.
+ */
+export async function settleJobForRun(runId: string): Promise<void> {
+    const run = await getResultStore().getRun(runId);
+    if (run?.job_id) {
+        await settleJob(run.job_id);
+    }
+}
+
+async function removeQueuedScrapeTasks(jobId: string): Promise<number> {
+    const matched: Array<Job<ScrapeTaskData, ScrapeTaskResult>> = [];
+    for (let start = 0; ; start += JOB_SCAN_PAGE_SIZE) {
+        const page = await scrapeQueue.getJobs(['waiting', 'delayed', 'paused'], start, start + JOB_SCAN_PAGE_SIZE - 1, true);
+        matched.push(...page.filter((task) => task && task.data.job_id === jobId));
+        if (page.length < JOB_SCAN_PAGE_SIZE) {
+            break;
+        }
+    }
+
+    let removed = 0;
+    for (const task of matched) {
+        try {
+            await task.remove();
+            removed += 1;
+        } catch (error) {
+            Logger.warn(`Job cancel skipped scrape task ${task.id}`, { job_id: jobId, error: error as Error });
+        }
+    }
+    return removed;
+}
+
+export async function cancelJob(jobId: string): Promise<{ job: JobRecord; removed: number; cancelled_runs: string[] }> {
+    const job = await getJobOrThrow(jobId);
+    if (isTerminalJobStatus(job.status)) {
+        throw new ValidationError(`Cannot cancel job ${jobId}: already ${job.status}`);
+    }
+
+    const store = getResultStore();
+    await store.updateJobStatus(jobId, 'CANCELLED');
+    const removed = await removeQueuedScrapeTasks(jobId);
+
+    const cancelledRuns: string[] = [];
+    for (const run of await store.listRunsForJob(jobId)) {
+        if (isTerminalRunStatus(run.status)) {
+            continue;
+        }
+        try {
+            await cancelRun(run.id);
+            cancelledRuns.push(run.id);
+        } catch (error) {
+            Logger.warn(`Job cancel could not cancel run ${run.id}`, { job_id: jobId, error: error as Error });
+        }
+    }
+
+    await store.appendJobEvent(jobId, 'warn', `Job cancelled (${removed} queued task(s) removed, ${cancelledRuns.length} run(s) cancelled)`);
+    Logger.warn(`⏹️ Job cancelled: ${jobId}`, { removed, cancelled_runs: cancelledRuns.length });
+    return { job: await getJobOrThrow(jobId), removed, cancelled_runs: cancelledRuns };
+}
@@ -0,0 +1,129 @@
+/**
+ * 🏁 RUN CONTROL
+ * Pause / resume / cancel the jobs of a single scheduler run without touching the
+ * rest of the `enrichment` queue.
+ *
+ * - The run status lives in the `runs` table (via the ResultStore); every stage worker checks it before working
+ *   (paused -> job re-delayed, cancelled -> job skipped).
+ * - Cancel also removes the run's queued jobs; resume promotes its delayed ones.
+ */
+
+import { Job, JobType, Queue } from 'bullmq';
+import { Logger } from '../utils/logger';
+import { RunRecord, RunStatus } from '../db/model';
+import { getResultStore, initializeResultStore } from '../db/result_store';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { discoveryQueue, enrichmentQueue, EnrichmentJobData, financialQueue } from './index';
+
+const RUN_SCAN_PAGE_SIZE = 500;
+export const RUN_PAUSE_POLL_MS = 30_000;
+
+export type RunGate = 'proceed' | 'pause' | 'cancel';
+
+const ALLOWED_TRANSITIONS: Record<RunStatus, RunStatus[]> = {
+    RUNNING: ['PAUSED', 'CANCELLED', 'COMPLETED'],
+    PAUSED: ['RUNNING', 'CANCELLED'],
+    CANCELLED: [],
+    COMPLETED: [],
+};
+
+/**
+ * Decide what a stage worker should do with a job of the given run.
+ * Jobs without a run (or with an unknown run) always proceed.
+ */
+export async function getRunGate(runId?: string): Promise<RunGate> {
+    if (!runId) {
+        return 'proceed';
+    }
+    const run = await getResultStore().getRun(runId);
+    if (!run) {
+        return 'proceed';
+    }
+    if (run.status === 'PAUSED') return 'pause';
+    if (run.status === 'CANCELLED') return 'cancel';
+    return 'proceed';
+}
+
+/**
+ * With a tenant id, runs of other tenants (and operator runs) are reported as not found.
+ */
+export async function getRunOrThrow(runId: string, tenantId?: string): Promise<RunRecord> {
+    const store = await initializeResultStore();
+    const run = await store.getRun(runId);
+    if (!run || (tenantId && run.tenant_id !== tenantId)) {
+        throw new NotFoundError(`Run not found: ${runId}`);
+    }
+    return run;
+}
+
+export async function listRunRecords(limit?: number, tenantId?: string): Promise<RunRecord[]> {
+    const store = await initializeResultStore();
+    return store.listRuns(limit, tenantId);
+}
+
+async function transition(runId: string, next: RunStatus): Promise<RunRecord> {
+    const run = await getRunOrThrow(runId);
+    if (!ALLOWED_TRANSITIONS[run.status].includes(next)) {
+        throw new ValidationError(`Cannot move run ${runId} from ${run.status} to ${next}`);
+    }
+    await getResultStore().updateRunStatus(runId, next);
+    return getRunOrThrow(runId);
+}
+
+/**
+ * Visit every job of a run in the given queue states.
+ */
+async function forEachRunJob(
+    queue: Queue<EnrichmentJobData, any>,
+    states: JobType[],
+    runId: string,
+    visit: (job: Job<EnrichmentJobData, any>) => Promise<void>
+): Promise<number> {
+    const matched: Array<Job<EnrichmentJobData, any>> = [];
+    for (let start = 0; ; start += RUN_SCAN_PAGE_SIZE) {
+        const page = await queue.getJobs(states, start, start + RUN_SCAN_PAGE_SIZE - 1, true);
+        matched.push(...page.filter((job) => job && job.data.run_id === runId));
+        if (page.length < RUN_SCAN_PAGE_SIZE) {
+            break;
+        }
+    }
+
+    // Visit after scanning so removals don't shift the pages we are reading.
+    let visited = 0;
+    for (const job of matched) {
+        try {
+            await visit(job);
+            visited += 1;
+        } catch (error) {
+            Logger.warn(`Run control skipped job ${job.id}`, { run_id: runId, error: error as Error });
+        }
+    }
+    return visited;
+}
+
+export async function pauseRun(runId: string): Promise<RunRecord> {
+    const run = await transition(runId, 'PAUSED');
+    Logger.info(`⏸️ Run paused: ${runId}`);
+    return run;
+}
+
+export async function resumeRun(runId: string): Promise<{ run: RunRecord; promoted: number }> {
+    const run = await transition(runId, 'RUNNING');
+    let promoted = 0;
+    for (const queue of [enrichmentQueue, discoveryQueue, financialQueue] as Array<Queue<EnrichmentJobData, any>>) {
+        promoted += await forEachRunJob(queue, ['delayed'], runId, (job) => job.promote());
+    }
+    Logger.info(`▶️ Run resumed: ${runId}`, { promoted });
+    return { run, promoted };
+}
+
+export async function cancelRun(runId: string): Promise<{ run: RunRecord; removed: number }> {
+    const run = await transition(runId, 'CANCELLED');
+    let removed = 0;
+    removed += await forEachRunJob(enrichmentQueue, ['waiting', 'delayed', 'paused'], runId, (job) => job.remove());
+    // Removing a flow parent removes its pending discovery child as well.
+    removed += await forEachRunJob(financialQueue, ['waiting', 'delayed', 'paused', 'waiting-children'], runId, (job) => job.remove());
+    removed += await forEachRunJob(discoveryQueue, ['waiting', 'delayed', 'paused'], runId, (job) => job.remove());
+    Logger.warn(`⏹️ Run cancelled: ${runId}`, { removed });
+    return { run, removed };
+}
@@ -0,0 +1,196 @@
+/**
+ * 🔗 SHARED DOMAIN RECONCILIATION
+ * Group holdings, shared web agencies and franchise sites make discovery assign the same
+ * website to several companies. This pass over enrichment_results finds domains claimed by
+ * more than one company (within a tenant) and keeps one owner:
+ *
+ * - the site is fetched once and every claimant is re-scored against it with
+ *   CompanyMatcher.evaluate: VAT match > phone match > match confidence > discovery confidence
+ * - the others are marked AMBIGUOUS_SHARED_DOMAIN with `shared_domain_owner` = the winner
+ *
+ * Groups already settled by an earlier pass are skipped unless `force` is set. After a run,
+ * only the domains its companies claim are reconciled (`runId`).
+ */
+
+import { Logger } from '../utils/logger';
+import { ScraperClient } from '../utils/scraper_client';
+import { CompanyMatcher } from '../core/discovery/company_matcher';
+import { Company, WebsiteClaim } from '../db/model';
+import { initializeResultStore } from '../db/result_store';
+import { NotFoundError } from '../../utils/errors';
+
+export const AMBIGUOUS_SHARED_DOMAIN = 'AMBIGUOUS_SHARED_DOMAIN';
+
+export interface DomainClaimScore {
+    company_id: string;
+    vat_match: boolean;
+    phone_match: boolean;
+    confidence: number;
+    discovery_confidence: number;
+}
+
+export interface SharedDomainConflict {
+    domain: string;
+    tenant_id?: string;
+    owner: DomainClaimScore;
+    ambiguous: DomainClaimScore[];
+}
+
+export interface SharedDomainReconciliation {
+    claims: number;
+    shared_domains: number;
+    /** Groups already settled by an earlier pass (not re-fetched) */
+    skipped: number;
+    conflicts: SharedDomainConflict[];
+}
+
+export interface ReconcileSharedDomainsOptions {
+    /** Only this tenant's results (default: every tenant, each reconciled separately) */
+    tenantId?: string;
+    /** Only the domains claimed by companies of this run */
+    runId?: string;
+    /** Re-score groups that an earlier pass already settled */
+    force?: boolean;
+    /** Page text of the shared site (default: ScraperClient) */
+    fetchText?: (url: string) => Promise<string>;
+}
+
+export function normalizeDomain(url: string): string | undefined {
+    try {
+        const hostname = new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`).hostname.toLowerCase();
+        return hostname.replace(/^www\./, '') || undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Claims grouped by tenant + domain, only where several companies claim the domain.
+ */
+export function groupSharedDomains(claims: WebsiteClaim[]): Map<string, WebsiteClaim[]> {
+    const groups = new Map<string, WebsiteClaim[]>();
+    for (const claim of claims) {
+        const domain = normalizeDomain(claim.website);
+        if (!domain) {
+            continue;
+        }
+        const key = `${claim.tenant_id ?? ''}|${domain}`;
+        groups.set(key, [...(groups.get(key) ?? []), claim]);
+    }
+    for (const [key, group] of groups) {
+        if (new Set(group.map((claim) => claim.company_id)).size < 2) {
+            groups.delete(key);
+        }
+    }
+    return groups;
+}
+
+/**
+ * A group is settled when exactly one claim is unmarked and every other one points at it.
+ */
+function isSettled(group: WebsiteClaim[]): boolean {
+    const owners = group.filter((claim) => !claim.shared_domain_owner);
+    return owners.length === 1
+        && group.every((claim) => claim === owners[0] || (claim.shared_domain_owner === owners[0].company_id && claim.reason_code === AMBIGUOUS_SHARED_DOMAIN));
+}
+
+export function scoreDomainClaim(company: Company, claim: WebsiteClaim, text: string): DomainClaimScore {
+    const evaluation = CompanyMatcher.evaluate(company, claim.website, text);
+    return {
+        company_id: claim.company_id,
+        vat_match: evaluation.signals.vatMatch,
+        phone_match: evaluation.signals.phoneMatch,
+        confidence: evaluation.confidence,
+        discovery_confidence: claim.discovery_confidence ?? 0,
+    };
+}
+
+export function compareDomainClaims(a: DomainClaimScore, b: DomainClaimScore): number {
+    return Number(b.vat_match) - Number(a.vat_match)
+        || Number(b.phone_match) - Number(a.phone_match)
+        || b.confidence - a.confidence
+        || b.discovery_confidence - a.discovery_confidence
+        || a.company_id.localeCompare(b.company_id);
+}
+
+function ownerReasonCode(owner: DomainClaimScore): string {
+    if (owner.vat_match) return 'OK_CONFIRMED_VAT_MATCH';
+    if (owner.phone_match) return 'OK_CONFIRMED_PHONE_MATCH';
+    return 'OK_LIKELY_NAME_CITY_MATCH';
+}
+
+async function fetchSiteText(url: string): Promise<string> {
+    return ScraperClient.fetchText(/^https?:\/\//i.test(url) ? url : `https://${url}`);
+}
+
+/**
+ * Claims to reconcile: every claim of the tenant, or after a run the claims on the domains of
+ * the run's companies (not the whole database), grouped with a company of the run.
+ */
+async function listClaims(options: ReconcileSharedDomainsOptions): Promise<{ claims: WebsiteClaim[]; groups: Map<string, WebsiteClaim[]> }> {
+    const store = await initializeResultStore();
+    if (!options.runId) {
+        const claims = await store.listWebsiteClaims({ tenantId: options.tenantId });
+        return { claims, groups: groupSharedDomains(claims) };
+    }
+    const runClaims = await store.listWebsiteClaims({ tenantId: options.tenantId, runId: options.runId });
+    const runCompanies = new Set(runClaims.map((claim) => claim.company_id));
+    const domains = new Set(runClaims.map((claim) => normalizeDomain(claim.website)).filter((domain): domain is string => Boolean(domain)));
+    const claims = (await store.listWebsiteClaims({ tenantId: options.tenantId, domains: [...domains] }))
+        .filter((claim) => domains.has(normalizeDomain(claim.website) ?? ''));
+    const groups = groupSharedDomains(claims);
+    for (const [key, group] of groups) {
+        if (!group.some((claim) => runCompanies.has(claim.company_id))) {
+            groups.delete(key);
+        }
+    }
+    return { claims, groups };
+}
+
+export async function reconcileSharedDomains(options: ReconcileSharedDomainsOptions = {}): Promise<SharedDomainReconciliation> {
+    const store = await initializeResultStore();
+    const fetchText = options.fetchText ?? fetchSiteText;
+    const { claims, groups } = await listClaims(options);
+    const summary: SharedDomainReconciliation = { claims: claims.length, shared_domains: groups.size, skipped: 0, conflicts: [] };
+
+    for (const group of groups.values()) {
+        if (!options.force && isSettled(group)) {
+            summary.skipped++;
+            continue;
+        }
+        const domain = normalizeDomain(group[0].website)!;
+        let text = '';
+        try {
+            text = await fetchText(group[0].website);
+        } catch (error) {
+            Logger.warn(`[SharedDomains] Could not fetch ${domain}, ranking claims on discovery confidence`, { error: error as Error });
+        }
+
+        const scores: DomainClaimScore[] = [];
+        for (const claim of group) {
+            const company = await store.getCompanyById(claim.company_id);
+            if (!company) {
+                throw new NotFoundError(`Company not found: ${claim.company_id}`);
+            }
+            scores.push(scoreDomainClaim(company, claim, text));
+        }
+        scores.sort(compareDomainClaims);
+        const [owner, ...ambiguous] = scores;
+
+        const ownerClaim = group.find((claim) => claim.company_id === owner.company_id)!;
+        if (ownerClaim.shared_domain_owner || ownerClaim.reason_code === AMBIGUOUS_SHARED_DOMAIN) {
+            await store.setSharedDomainOwner(owner.company_id, null, ownerReasonCode(owner));
+        }
+        for (const loser of ambiguous) {
+            await store.setSharedDomainOwner(loser.company_id, owner.company_id, AMBIGUOUS_SHARED_DOMAIN);
+        }
+
+        const conflict = { domain, tenant_id: group[0].tenant_id ?? undefined, owner, ambiguous };
+        summary.conflicts.push(conflict);
+        Logger.warn(`[SharedDomains] 🔗 ${domain} claimed by ${group.length} companies: kept ${owner.company_id}`, {
+            tenant_id: conflict.tenant_id,
+            ambiguous: ambiguous.map((score) => score.company_id),
+        });
+    }
+    return summary;
+}
@@ -0,0 +1,249 @@
+/**
+ * 🩺 WEBSITE LIVENESS RE-VERIFICATION
+ * A website validated months ago may have expired, been parked or changed owner, yet the
+ * enrichment result keeps serving it. This sweep re-checks validated websites whose last
+ * verification is older than WEBSITE_REVERIFY_AFTER_DAYS (oldest first):
+ *
+ * - DNS: the name no longer exists (NXDOMAIN) -> DEAD; any other lookup failure (timeout,
+ *   SERVFAIL, refused) -> INCONCLUSIVE
+ * - parking (DomainValidator.checkParking, plus PreVerifyGate when given): fetched and parked
+ *   or empty -> PARKED; not answering (timeout, refused) -> INCONCLUSIVE; a gate REJECTED
+ *   (HTTP errors) -> DEAD
+ * - identity (UnifiedDiscoveryService.verifyUrl): below the minimum valid confidence ->
+ *   MISMATCH (new owner / unrelated content); a redirect to another domain that still
+ *   verifies -> MOVED (the new URL replaces the old one)
+ *
+ * Decayed websites are downgraded: website_validated is cleared with a WEBSITE_DECAYED_*
+ * reason code and the transition lands in the field history (enrichment_versions), so the
+ * previous website stays visible there. With `rediscover`, decayed companies are handed
+ * back to discovery. Verifications that fail for technical reasons (ERROR_* reason codes)
+ * are inconclusive: nothing changes and the website is picked again by the next sweep.
+ */
+
+import { Resolver } from 'dns/promises';
+import pLimit from 'p-limit';
+import { config } from '../config';
+import { Logger } from '../utils/logger';
+import { DomainValidator } from '../utils/domain_validator';
+import { normalizeDomain } from './shared_domains';
+import { CompanyInput } from '../types';
+import { StaleWebsite } from '../db/model';
+import { initializeResultStore } from '../db/result_store';
+import type { PreVerifyGate } from '../../foundation/PreVerifyGate';
+import { NetworkError } from '../../utils/errors';
+
+export type WebsiteLivenessStatus = 'ALIVE' | 'MOVED' | 'DEAD' | 'PARKED' | 'MISMATCH' | 'INCONCLUSIVE';
+
+export const WEBSITE_DECAYED_REASON_CODES = {
+    DEAD: 'WEBSITE_DECAYED_UNREACHABLE',
+    PARKED: 'WEBSITE_DECAYED_PARKED',
+    MISMATCH: 'WEBSITE_DECAYED_NO_LONGER_MATCHES',
+} as const;
+
+/**
+ * The checks of one website; the defaults use the network, tests replace them.
+ */
+export interface WebsiteLivenessProbe {
+    /** False only when the name does not exist (NXDOMAIN); rejects when the lookup itself fails */
+    resolves(url: string): Promise<boolean>;
+    /** True when the page was fetched and is parked or empty; rejects when it could not be fetched */
+    isParked(url: string, company: CompanyInput): Promise<boolean>;
+    /** PreVerifyGate verdict (optional: needs the Redis-backed cache) */
+    gate?(url: string, company: CompanyInput): Promise<string>;
+    verify(url: string, company: CompanyInput): Promise<{ confidence?: number; final_url?: string; reason_code?: string } | null>;
+}
+
+export interface WebsiteLivenessOutcome {
+    status: WebsiteLivenessStatus;
+    confidence?: number;
+    reason_code?: string;
+    /** Where a MOVED website went */
+    moved_to?: string;
+}
+
+export interface WebsiteLivenessCheck extends WebsiteLivenessOutcome {
+    company_id: string;
+    website: string;
+    /** Website after the check (null when downgraded) */
+    current: string | null;
+}
+
+export interface WebsiteReverification {
+    checked: number;
+    alive: number;
+    moved: number;
+    decayed: number;
+    inconclusive: number;
+    /** Decayed companies handed back to discovery */
+    rediscovered: number;
+    /** Checks that changed the stored website */
+    transitions: WebsiteLivenessCheck[];
+}
+
+export interface ReverifyWebsitesOptions {
+    /** Re-check websites last verified more than this many days ago (default WEBSITE_REVERIFY_AFTER_DAYS) */
+    olderThanDays?: number;
+    tenantId?: string;
+    limit?: number;
+    /** Re-run discovery for decayed websites (returns how many were enqueued) */
+    rediscover?: (companyIds: string[]) => Promise<number>;
+    /** Checks to run (default: DomainValidator + verifyUrl of a new UnifiedDiscoveryService) */
+    probe?: WebsiteLivenessProbe;
+    /** PreVerifyGate for the default probe */
+    gate?: PreVerifyGate;
+    now?: Date;
+}
+
+const CHECK_CONCURRENCY = 4;
+const DNS_TIMEOUT_MS = 5000;
+
+function isDecayed(status: WebsiteLivenessStatus): status is keyof typeof WEBSITE_DECAYED_REASON_CODES {
+    return status in WEBSITE_DECAYED_REASON_CODES;
+}
+
+async function hostResolves(url: string): Promise<boolean> {
+    const resolver = new Resolver({ timeout: DNS_TIMEOUT_MS, tries: 2 });
+    try {
+        await resolver.resolve(new URL(url).hostname);
+        return true;
+    } catch (error) {
+        // ENOTFOUND is NXDOMAIN; ETIMEOUT, ESERVFAIL, ECONNREFUSED... say nothing about the site
+        if ((error as NodeJS.ErrnoException).code === 'ENOTFOUND') {
+            return false;
+        }
+        throw error;
+    }
+}
+
+async function defaultProbe(gate?: PreVerifyGate): Promise<WebsiteLivenessProbe> {
+    // Loaded lazily: the discovery service pulls in the browser stack
+    const { UnifiedDiscoveryService } = await import('../core/discovery/unified_discovery_service');
+    const service = new UnifiedDiscoveryService(undefined, null);
+    return {
+        resolves: hostResolves,
+        isParked: async (url) => {
+            const status = await DomainValidator.checkParking(url);
+            if (status === 'UNREACHABLE') {
+                throw new NetworkError(`Website did not answer: ${url}`);
+            }
+            return status === 'PARKED';
+        },
+        gate: gate ? (url, company) => gate.check(url, company.vat_code, company.company_name) : undefined,
+        verify: (url, company) => service.verifyUrl(url, company),
+    };
+}
+
+/**
+ * Run the checks on one website, cheapest first.
+ */
+export async function checkWebsiteLiveness(
+    probe: WebsiteLivenessProbe,
+    website: string,
+    company: CompanyInput
+): Promise<WebsiteLivenessOutcome> {
+    const url = /^https?:\/\//i.test(website) ? website : `https://${website}`;
+    let resolves: boolean;
+    try {
+        resolves = await probe.resolves(url);
+    } catch (error) {
+        Logger.warn(`[Liveness] DNS lookup failed for ${url}`, { error: error as Error });
+        return { status: 'INCONCLUSIVE' };
+    }
+    if (!resolves) {
+        return { status: 'DEAD' };
+    }
+    let parked: boolean;
+    try {
+        parked = await probe.isParked(url, company);
+    } catch (error) {
+        Logger.warn(`[Liveness] Could not fetch ${url}`, { error: error as Error });
+        return { status: 'INCONCLUSIVE' };
+    }
+    if (parked) {
+        return { status: 'PARKED' };
+    }
+    const verdict = probe.gate ? await probe.gate(url, company) : undefined;
+    if (verdict === 'PARKED') {
+        return { status: 'PARKED' };
+    }
+    if (verdict === 'REJECTED') {
+        return { status: 'DEAD' };
+    }
+
+    const verification = await probe.verify(url, company);
+    if (!verification || verification.reason_code?.startsWith('ERROR_')) {
+        return { status: 'INCONCLUSIVE', reason_code: verification?.reason_code };
+    }
+    const confidence = Number(verification.confidence ?? 0);
+    if (confidence < config.discovery.thresholds.minValid) {
+        return { status: 'MISMATCH', confidence, reason_code: verification.reason_code };
+    }
+    const finalUrl = verification.final_url;
+    if (finalUrl && normalizeDomain(finalUrl) !== normalizeDomain(url)) {
+        return { status: 'MOVED', confidence, reason_code: verification.reason_code, moved_to: finalUrl };
+    }
+    return { status: 'ALIVE', confidence, reason_code: verification.reason_code };
+}
+
+export async function reverifyWebsites(options: ReverifyWebsitesOptions = {}): Promise<WebsiteReverification> {
+    const store = await initializeResultStore();
+    const olderThanDays = options.olderThanDays ?? config.discovery.reverifyAfterDays;
+    const verifiedBefore = new Date((options.now ?? new Date()).getTime() - olderThanDays * 24 * 60 * 60 * 1000).toISOString();
+    const stale = await store.listStaleWebsites({ verifiedBefore, tenantId: options.tenantId, limit: options.limit });
+    const probe = options.probe ?? await defaultProbe(options.gate);
+    const runId = `reverify-${Date.now()}`;
+
+    const reverifyWebsite = async (claim: StaleWebsite): Promise<WebsiteLivenessCheck | null> => {
+        const company = await store.getCompanyById(claim.company_id);
+        if (!company) {
+            Logger.warn(`[Liveness] Company not found, skipping: ${claim.company_id}`);
+            return null;
+        }
+        let outcome: WebsiteLivenessOutcome;
+        try {
+            outcome = await checkWebsiteLiveness(probe, claim.website, company);
+        } catch (error) {
+            Logger.warn(`[Liveness] Check failed for ${claim.website}`, { company_id: claim.company_id, error: error as Error });
+            outcome = { status: 'INCONCLUSIVE' };
+        }
+        const check: WebsiteLivenessCheck = { ...outcome, company_id: claim.company_id, website: claim.website, current: claim.website };
+
+        if (isDecayed(outcome.status)) {
+            check.current = null;
+            check.reason_code = WEBSITE_DECAYED_REASON_CODES[outcome.status];
+            await store.recordWebsiteCheck(claim.company_id, { website: null, confidence: outcome.confidence, reason_code: check.reason_code, run_id: runId });
+        } else if (outcome.status === 'MOVED') {
+            check.current = outcome.moved_to!;
+            await store.recordWebsiteCheck(claim.company_id, { website: outcome.moved_to!, confidence: outcome.confidence, reason_code: outcome.reason_code, run_id: runId });
+        } else if (outcome.status === 'ALIVE') {
+            await store.recordWebsiteCheck(claim.company_id, { website: claim.website, run_id: runId });
+        }
+        if (check.current !== claim.website) {
+            Logger.warn(`[Liveness] 🩺 ${claim.website}: ${outcome.status} -> ${check.current ?? '(none)'}`, { company_id: claim.company_id });
+        }
+        return check;
+    };
+
+    const limit = pLimit(CHECK_CONCURRENCY);
+    const checks = await Promise.all(stale.map((claim) => limit(() => reverifyWebsite(claim))));
+    const summary: WebsiteReverification = { checked: 0, alive: 0, moved: 0, decayed: 0, inconclusive: 0, rediscovered: 0, transitions: [] };
+    for (const check of checks) {
+        if (!check) {
+            continue;
+        }
+        summary.checked++;
+        if (check.status === 'ALIVE') summary.alive++;
+        else if (check.status === 'MOVED') summary.moved++;
+        else if (check.status === 'INCONCLUSIVE') summary.inconclusive++;
+        else summary.decayed++;
+        if (check.current !== check.website) {
+            summary.transitions.push(check);
+        }
+    }
+
+    const decayed = summary.transitions.filter((check) => check.current === null).map((check) => check.company_id);
+    if (options.rediscover && decayed.length > 0) {
+        summary.rediscovered = await options.rediscover(decayed);
+    }
+    return summary;
+}
@@ -10,11 +10,16 @@ import { parse } from 'fast-csv';
 import { z } from 'zod';
 import { Logger } from './utils/logger';
 import { config } from './config';
-import { Company, initializeDatabase, insertCompanies } from './db';
+import { Company } from './db/model';
+import { initializeResultStore } from './db/result_store';
+import { reserveCompanyQuota } from './tenancy/quotas';
 import {
   enrichmentQueue,
   addJobsBatch,
+  enqueueStageJob,
+  addEnrichmentFlow,
   EnrichmentJobData,
+  PipelineStage,
   createQueueEvents,
   QUEUE_NAMES,
   closeQueueResources,
@@ -33,13 +38,16 @@ return 0
 let activeSchedulerRuns = 0;
 
 export interface SchedulerSummary {
+  runId?: string;
   loaded: number;
   enqueued: number;
   skipped: number;
+  /** Companies not enqueued because the tenant's daily company quota ran out */
+  overQuota?: number;
   durationMs: number;
 }
 
-interface CSVCompany {
+export interface CSVCompany {
   company_id?: string;
   company_name: string;
   city?: string;
@@ -73,7 +81,16 @@ const CsvCompanySchema = z.object({
   email: z.string().optional(),
 });
 
-function deterministicCompanyId(company: CSVCompany): string {
+/**
+ * Tenant companies get a tenant-prefixed id so two tenants scraping the same business
+ * never share (or overwrite) each other's rows.
+ */
+function deterministicCompanyId(company: CSVCompany, tenantId?: string): string {
+  const id = baseCompanyId(company);
+  return tenantId ? `${tenantId}:${id}` : id;
+}
+
+function baseCompanyId(company: CSVCompany): string {
   if (company.company_id && company.company_id.trim() !== '') {
     return company.company_id.trim();
   }
@@ -92,7 +109,12 @@ function deterministicCompanyId(company: CSVCompany): string {
     .digest('hex');
 }
 
-function mapCompaniesToJobs(companies: CSVCompany[], runId: string): { jobs: EnrichmentJobData[]; skipped: number } {
+function mapCompaniesToJobs(
+  companies: CSVCompany[],
+  runId: string,
+  tenantId?: string,
+  discoveryBudgetEur?: number
+): { jobs: EnrichmentJobData[]; skipped: number } {
   const uniqueJobs = new Map<string, EnrichmentJobData>();
 
   for (const c of companies) {
@@ -101,7 +123,7 @@ function mapCompaniesToJobs(companies: CSVCompany[], runId: string): { jobs: Enr
       continue;
     }
 
-    const companyId = deterministicCompanyId(c);
+    const companyId = deterministicCompanyId(c, tenantId);
     if (uniqueJobs.has(companyId)) {
       continue;
     }
@@ -122,6 +144,8 @@ function mapCompaniesToJobs(companies: CSVCompany[], runId: string): { jobs: Enr
       pg_url: c.pg_url?.trim() || undefined,
       email: c.email?.trim() || undefined,
       run_id: runId,
+      ...(tenantId ? { tenant_id: tenantId } : {}),
+      ...(discoveryBudgetEur !== undefined ? { discovery_budget_eur: discoveryBudgetEur } : {}),
       correlation_id: `${runId}:${companyId}`,
     });
   }
@@ -148,9 +172,32 @@ function mapJobsToDbCompanies(jobs: EnrichmentJobData[]): Company[] {
     vat_code: job.vat_code,
     pg_url: job.pg_url,
     email: job.email,
+    tenant_id: job.tenant_id,
   }));
 }
 
+function mapDbCompanyToJob(company: Company, runId: string): EnrichmentJobData {
+  return {
+    company_id: company.id,
+    company_name: company.company_name,
+    city: company.city || undefined,
+    province: company.province || undefined,
+    zip_code: company.zip_code || undefined,
+    region: company.region || undefined,
+    address: company.address || undefined,
+    phone: company.phone || undefined,
+    website: company.website || undefined,
+    category: company.category || undefined,
+    source: company.source || undefined,
+    vat_code: company.vat_code || undefined,
+    pg_url: company.pg_url || undefined,
+    email: company.email || undefined,
+    run_id: runId,
+    tenant_id: company.tenant_id || undefined,
+    correlation_id: `${runId}:${company.id}`,
+  };
+}
+
 async function loadCompaniesFromCSV(filePath: string): Promise<CSVCompany[]> {
   if (!fs.existsSync(filePath)) {
     Logger.error(`❌ Input file not found: ${filePath}`);
@@ -198,14 +245,14 @@ async function releaseSchedulerLock(lockToken: string): Promise<void> {
   await redisConnection.eval(RELEASE_LOCK_SCRIPT, 1, SCHEDULER_LOCK_KEY, lockToken);
 }
 
-export async function runScheduler(csvPath?: string): Promise<SchedulerSummary> {
+export async function runScheduler(csvPath?: string, options: { discoveryBudgetEur?: number } = {}): Promise<SchedulerSummary> {
     const startedAt = Date.now();
     const inputFile = csvPath || INPUT_FILE;
     const runId = `run-${startedAt}-${crypto.randomUUID().slice(0, 8)}`;
     let events: QueueEvents | null = null;
     let lockToken: string | null = null;
 
-    initializeDatabase();
+    const store = await initializeResultStore();
     activeSchedulerRuns += 1;
 
   try {
@@ -231,11 +278,21 @@ export async function runScheduler(csvPath?: string): Promise<SchedulerSummary>
       `📋 Queue state: ${queueCounts.waiting} waiting, ${queueCounts.active} active, ${queueCounts.completed} completed`
     );
 
-    const { jobs, skipped } = mapCompaniesToJobs(companies, runId);
+    const { jobs, skipped } = mapCompaniesToJobs(companies, runId, undefined, options.discoveryBudgetEur);
 
     if (jobs.length === 0) {
       Logger.warn('⚠️ No companies to process.');
+      await store.createRun({
+        id: runId,
+        source_csv: inputFile,
+        mode: config.discovery.defaultMode,
+        status: 'COMPLETED',
+        loaded: companies.length,
+        enqueued: 0,
+        skipped,
+      });
       return {
+        runId,
         loaded: companies.length,
         enqueued: 0,
         skipped,
@@ -243,12 +300,22 @@ export async function runScheduler(csvPath?: string): Promise<SchedulerSummary>
       };
     }
 
-    insertCompanies(mapJobsToDbCompanies(jobs));
+    await store.insertCompanies(mapJobsToDbCompanies(jobs));
+    // Seed the run before enqueueing so workers can already resolve its status.
+    await store.createRun({
+      id: runId,
+      source_csv: inputFile,
+      mode: config.discovery.defaultMode,
+      loaded: companies.length,
+      enqueued: jobs.length,
+      skipped,
+    });
     const enqueued = await addJobsBatch(enrichmentQueue, jobs);
 
     Logger.info(`✅ SCHEDULER: Injected ${enqueued} jobs to queue`, { run_id: runId });
 
     return {
+      runId,
       loaded: companies.length,
       enqueued,
       skipped,
@@ -274,6 +341,129 @@ export async function runScheduler(csvPath?: string): Promise<SchedulerSummary>
   }
 }
 
+/**
+ * 🧾 Enqueue companies scraped by an API job task as their own enrichment run.
+ * Unlike runScheduler this keeps the queue connections open (it runs inside a worker).
+ * Tenant runs only enqueue what is left of the tenant's daily company quota.
+ */
+export async function enqueueScrapedCompanies(
+  companies: CSVCompany[],
+  options: { runId: string; jobId: string; source: string; tenantId?: string; discoveryBudgetEur?: number }
+): Promise<SchedulerSummary> {
+  const startedAt = Date.now();
+  const store = await initializeResultStore();
+  const mapped = mapCompaniesToJobs(companies, options.runId, options.tenantId, options.discoveryBudgetEur);
+  let jobs = mapped.jobs;
+  let overQuota = 0;
+
+  if (options.tenantId) {
+    const granted = await reserveCompanyQuota(options.tenantId, jobs.length);
+    overQuota = jobs.length - granted;
+    jobs = jobs.slice(0, granted);
+  }
+  const skipped = mapped.skipped + overQuota;
+
+  await store.insertCompanies(mapJobsToDbCompanies(jobs));
+  await store.createRun({
+    id: options.runId,
+    job_id: options.jobId,
+    tenant_id: options.tenantId,
+    source_csv: options.source,
+    mode: config.discovery.defaultMode,
+    status: jobs.length === 0 ? 'COMPLETED' : 'RUNNING',
+    loaded: companies.length,
+    enqueued: jobs.length,
+    skipped,
+  });
+  const enqueued = jobs.length > 0 ? await addJobsBatch(enrichmentQueue, jobs) : 0;
+
+  Logger.info(`✅ SCHEDULER: Injected ${enqueued} scraped companies`, { run_id: options.runId, job_id: options.jobId });
+  return {
+    runId: options.runId,
+    loaded: companies.length,
+    enqueued,
+    skipped,
+    ...(options.tenantId ? { overQuota } : {}),
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+/**
+ * 🔁 Re-run a single pipeline stage for companies already in the database.
+ */
+export async function rerunStage(stage: PipelineStage, companyIds: string[]): Promise<SchedulerSummary> {
+  const startedAt = Date.now();
+  const runId = `rerun-${stage}-${startedAt}-${crypto.randomUUID().slice(0, 8)}`;
+  let enqueued = 0;
+  let skipped = 0;
+
+  const store = await initializeResultStore();
+
+  try {
+    for (const companyId of companyIds) {
+      const company = await store.getCompanyById(companyId);
+      if (!company) {
+        Logger.warn(`⚠️ Unknown company id, skipping stage re-run: ${companyId}`);
+        skipped += 1;
+        continue;
+      }
+      await enqueueStageJob(stage, mapDbCompanyToJob(company, runId));
+      enqueued += 1;
+    }
+
+    Logger.info(`🔁 SCHEDULER: Re-queued ${enqueued} ${stage} stage jobs`, { run_id: runId });
+    return {
+      loaded: companyIds.length,
+      enqueued,
+      skipped,
+      durationMs: Date.now() - startedAt,
+    };
+  } finally {
+    if (activeSchedulerRuns === 0) {
+      await closeQueueResources();
+    }
+  }
+}
+
+/**
+ * 🩺 Send companies whose website decayed back through discovery + financial.
+ * The stored (decayed) website is not passed as input, so discovery starts from scratch.
+ */
+export async function rediscoverCompanies(companyIds: string[]): Promise<SchedulerSummary> {
+  const startedAt = Date.now();
+  const runId = `rediscover-${startedAt}-${crypto.randomUUID().slice(0, 8)}`;
+  let enqueued = 0;
+  let skipped = 0;
+
+  const store = await initializeResultStore();
+
+  try {
+    for (const companyId of companyIds) {
+      const company = await store.getCompanyById(companyId);
+      if (!company) {
+        Logger.warn(`⚠️ Unknown company id, skipping re-discovery: ${companyId}`);
+        skipped += 1;
+        continue;
+      }
+      await addEnrichmentFlow({ ...mapDbCompanyToJob(company, runId), website: undefined }, `${companyId}-rediscover-${startedAt}`);
+      enqueued += 1;
+    }
+
+    Logger.info(`🩺 SCHEDULER: Re-queued ${enqueued} companies for re-discovery`, { run_id: runId });
+    return {
+      runId,
+      loaded: companyIds.length,
+      enqueued,
+      skipped,
+      durationMs: Date.now() - startedAt,
+    };
+  } finally {
+    if (activeSchedulerRuns === 0) {
+      await closeQueueResources();
+    }
+  }
+}
+
 async function main(): Promise<void> {
   const csvPath = process.argv[3] || process.argv[2];
   const summary = await runScheduler(csvPath);
@@ -0,0 +1,156 @@
+/**
+ * 🗺️ SCRAPE WORKER - Job API task consumer
+ * Runs one niche x location scrape per `scrape` task, records the CSV as a job artifact
+ * and (when the job enriches) enqueues the scraped companies as an enrichment run.
+ *
+ * Usage: node dist/src/index.js scrape-worker
+ */
+
+import * as path from 'path';
+import { Worker, Job } from 'bullmq';
+import { Logger } from './utils/logger';
+import { config } from './config';
+import { closeQueueResources, QUEUE_NAMES, redisConnection, ScrapeTaskData, ScrapeTaskResult } from './queue';
+import { isJobCancelled, settleJob } from './queue/jobs';
+import { closeResultStore, getResultStore, initializeResultStore } from './db/result_store';
+import { enqueueScrapedCompanies } from './scheduler';
+import { AntigravityClient } from './observability/antigravity_client';
+import { createRedisEventSink, withLiveContext } from './observability/live_events';
+import { DEFAULT_OUTPUT_DIR, runCampaign, slugify } from '../scraper/campaign';
+
+const SCRAPE = config.queue.scrape;
+let isShuttingDown = false;
+
+async function processScrapeTask(job: Job<ScrapeTaskData, ScrapeTaskResult>): Promise<ScrapeTaskResult> {
+    const { job_id, tenant_id, task_index, niche, location, company_limit, enrich, discovery_budget_eur } = job.data;
+    const store = getResultStore();
+    const label = `"${niche}" in ${location}`;
+
+    const record = await store.getJob(job_id);
+    if (!record || record.status === 'CANCELLED') {
+        Logger.info(`[ScrapeWorker] ⏹️ Job cancelled, skipping task ${job.id}`, { job_id });
+        return { companies: 0, enqueued: 0, stopped: true };
+    }
+    if (record.status === 'QUEUED') {
+        await store.updateJobStatus(job_id, 'SCRAPING');
+    }
+    await store.appendJobEvent(job_id, 'info', `Scraping ${label} (task ${task_index + 1}/${record.total_tasks}, attempt ${job.attemptsMade + 1})`);
+
+    try {
+        const result = await runCampaign({
+            keywords: [niche],
+            cities: [location],
+            limit: company_limit,
+            outputDir: path.join(DEFAULT_OUTPUT_DIR, job_id),
+            fileTag: `${task_index}-${slugify(niche)}`,
+            shouldStop: () => isJobCancelled(job_id),
+        });
+
+        for (const company of result.companies) {
+            AntigravityClient.getInstance().trackCompanyUpdate(company, 'FOUND', { niche, location });
+        }
+        for (const output of result.outputs) {
+            await store.addJobArtifact({ job_id, kind: 'csv', path: output.path, row_count: output.rows, label });
+        }
+        await store.appendJobEvent(job_id, 'info', `Found ${result.companies.length} companies for ${label}${result.stopped ? ' (stopped)' : ''}`);
+
+        let runId: string | undefined;
+        let enqueued = 0;
+        let overQuota = 0;
+        if (enrich && !result.stopped && result.companies.length > 0) {
+            runId = `run-${job_id}-t${task_index}`;
+            const summary = await enqueueScrapedCompanies(result.companies, {
+                runId,
+                jobId: job_id,
+                tenantId: tenant_id,
+                discoveryBudgetEur: discovery_budget_eur,
+                source: result.outputs.map((output) => output.path).join(','),
+            });
+            enqueued = summary.enqueued;
+            overQuota = summary.overQuota ?? 0;
+            await store.appendJobEvent(job_id, 'info', `Enqueued ${enqueued} companies for enrichment (run ${runId})`);
+            if (overQuota > 0) {
+                await store.appendJobEvent(job_id, 'warn', `Daily company quota reached: ${overQuota} companies not enqueued`);
+            }
+        }
+
+        await store.recordJobTaskOutcome(job_id, 'completed');
+        await settleJob(job_id);
+        return { companies: result.companies.length, enqueued, run_id: runId, stopped: result.stopped, over_quota: overQuota };
+    } catch (error) {
+        const err = error as Error;
+        const isLastAttempt = job.attemptsMade >= SCRAPE.retryAttempts - 1;
+        Logger.logError(`Scrape task failed: ${label}`, err, { job_id, task_index, attempt: job.attemptsMade + 1 });
+        await store.appendJobEvent(job_id, 'error', `Scrape failed for ${label} (attempt ${job.attemptsMade + 1}/${SCRAPE.retryAttempts}): ${err.message}`);
+
+        if (isLastAttempt) {
+            await store.recordJobTaskOutcome(job_id, 'failed');
+            await settleJob(job_id);
+        }
+
+        // Rethrow to trigger BullMQ retry
+        throw error;
+    }
+}
+
+export function startScrapeWorker(): Worker<ScrapeTaskData, ScrapeTaskResult> {
+    const worker = new Worker<ScrapeTaskData, ScrapeTaskResult>(
+        QUEUE_NAMES.SCRAPE,
+        (job) => withLiveContext({ job_id: job.data.job_id, tenant_id: job.data.tenant_id }, () => processScrapeTask(job)),
+        {
+            connection: redisConnection,
+            concurrency: SCRAPE.concurrency,
+            // Campaigns run for minutes; keep the lock alive well past the default 30s
+            lockDuration: 5 * 60 * 1000,
+        }
+    );
+
+    worker.on('completed', (job, result) => {
+        Logger.info(`✅ Scrape task completed: ${job.id}`, { result });
+    });
+
+    worker.on('failed', (job, err) => {
+        if (job) {
+            Logger.error(`❌ Scrape task failed: ${job.id}`, { error: err, job_id: job.data.job_id, attempt: job.attemptsMade });
+        }
+    });
+
+    worker.on('error', (err) => {
+        Logger.error('Scrape worker error', { error: err });
+    });
+
+    Logger.info(`👷 Scrape worker started (concurrency: ${SCRAPE.concurrency})`);
+    return worker;
+}
+
+async function shutdown(worker: Worker<ScrapeTaskData, ScrapeTaskResult>, signal: string): Promise<void> {
+    if (isShuttingDown) return;
+    isShuttingDown = true;
+
+    Logger.info(`🛑 ${signal} received. Stopping scrape worker...`);
+    try {
+        await worker.close();
+        await closeQueueResources();
+        await closeResultStore();
+        process.exit(0);
+    } catch (error) {
+        Logger.error('Error during shutdown', { error: error as Error });
+        process.exit(1);
+    }
+}
+
+// 🚀 Main Entry Point
+export async function runScrapeWorker(): Promise<Worker<ScrapeTaskData, ScrapeTaskResult>> {
+    Logger.info('🚀 SCRAPE WORKER: Starting job API scrape processor');
+    await initializeResultStore();
+    if (config.live.enabled) {
+        AntigravityClient.getInstance().addSink(createRedisEventSink(redisConnection));
+    }
+
+    const worker = startScrapeWorker();
+    process.once('SIGTERM', () => void shutdown(worker, 'SIGTERM'));
+    process.once('SIGINT', () => void shutdown(worker, 'SIGINT'));
+
+    Logger.info('👷 Scrape worker is running. Press Ctrl+C to stop.');
+    return worker;
+}
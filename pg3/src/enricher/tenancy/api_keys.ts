@@ -0,0 +1,124 @@
+/**
+ * 🔑 TENANTS & API KEYS
+ * Every API caller belongs to a tenant and authenticates with one of its API keys.
+ *
+ * - Keys look like `pg_<key id>_<secret>`; only their sha256 hash is stored, so a key
+ *   is shown once (when issued) and can never be read back.
+ * - The key id is public: it names the key in listings and for revocation.
+ * - Data created through the API carries the tenant id; data without one (CLI / scheduler)
+ *   belongs to the operator and is never visible to tenants.
+ */
+
+import * as crypto from 'crypto';
+import { Logger } from '../utils/logger';
+import { ApiKeyRecord, TenantQuotas, TenantRecord } from '../db/model';
+import { initializeResultStore } from '../db/result_store';
+import { AuthenticationError, NotFoundError, ValidationError } from '../../utils/errors';
+
+const API_KEY_PREFIX = 'pg';
+const API_KEY_PATTERN = /^pg_([a-f0-9]{12})_([a-f0-9]{48})$/;
+const TENANT_ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,62}$/;
+
+export interface IssuedApiKey {
+    /** The full key: returned once, never stored */
+    key: string;
+    record: ApiKeyRecord;
+}
+
+export interface AuthenticatedTenant {
+    tenant: TenantRecord;
+    key_id: string;
+}
+
+export function hashApiKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Key id of a well-formed key, undefined otherwise (cheap check before any DB lookup).
+ */
+export function parseApiKeyId(key: string): string | undefined {
+    return API_KEY_PATTERN.exec(key.trim())?.[1];
+}
+
+function validateQuotas(quotas: TenantQuotas): void {
+    for (const [name, value] of Object.entries(quotas)) {
+        if (value !== undefined && value !== null && (!Number.isFinite(value) || value < 0)) {
+            throw new ValidationError(`Invalid ${name}: ${value}`);
+        }
+    }
+}
+
+export async function createTenant(id: string, name: string, quotas: TenantQuotas = {}): Promise<TenantRecord> {
+    if (!TENANT_ID_PATTERN.test(id)) {
+        throw new ValidationError(`Invalid tenant id "${id}" (lowercase letters, digits and dashes)`);
+    }
+    validateQuotas(quotas);
+
+    const store = await initializeResultStore();
+    if (await store.getTenant(id)) {
+        throw new ValidationError(`Tenant already exists: ${id}`);
+    }
+    await store.createTenant({ id, name: name || id, ...quotas });
+    Logger.info(`🔑 Tenant created: ${id}`, { ...quotas });
+    return (await store.getTenant(id)) as TenantRecord;
+}
+
+export async function getTenantOrThrow(tenantId: string): Promise<TenantRecord> {
+    const store = await initializeResultStore();
+    const tenant = await store.getTenant(tenantId);
+    if (!tenant) {
+        throw new NotFoundError(`Tenant not found: ${tenantId}`);
+    }
+    return tenant;
+}
+
+export async function setTenantQuotas(tenantId: string, quotas: TenantQuotas): Promise<TenantRecord> {
+    await getTenantOrThrow(tenantId);
+    validateQuotas(quotas);
+    const store = await initializeResultStore();
+    await store.updateTenantQuotas(tenantId, quotas);
+    return getTenantOrThrow(tenantId);
+}
+
+export async function issueApiKey(tenantId: string, label?: string): Promise<IssuedApiKey> {
+    await getTenantOrThrow(tenantId);
+    const id = crypto.randomBytes(6).toString('hex');
+    const key = `${API_KEY_PREFIX}_${id}_${crypto.randomBytes(24).toString('hex')}`;
+
+    const store = await initializeResultStore();
+    await store.createApiKey({ id, tenant_id: tenantId, key_hash: hashApiKey(key), label });
+    Logger.info(`🔑 API key issued: ${id}`, { tenant_id: tenantId });
+    return { key, record: (await store.findApiKeyByHash(hashApiKey(key))) as ApiKeyRecord };
+}
+
+export async function revokeApiKey(keyId: string): Promise<void> {
+    const store = await initializeResultStore();
+    if (!(await store.revokeApiKey(keyId))) {
+        throw new NotFoundError(`Active API key not found: ${keyId}`);
+    }
+    Logger.warn(`🔑 API key revoked: ${keyId}`);
+}
+
+/**
+ * Resolve the tenant of an API key; throws AuthenticationError for unknown or revoked keys.
+ */
+export async function authenticateApiKey(key: string | undefined): Promise<AuthenticatedTenant> {
+    if (!key || !parseApiKeyId(key)) {
+        throw new AuthenticationError();
+    }
+    const store = await initializeResultStore();
+    const record = await store.findApiKeyByHash(hashApiKey(key.trim()));
+    if (!record || record.revoked_at) {
+        throw new AuthenticationError();
+    }
+    const tenant = await store.getTenant(record.tenant_id);
+    if (!tenant) {
+        throw new AuthenticationError();
+    }
+
+    store.touchApiKey(record.id).catch((error: Error) => {
+        Logger.warn(`Could not record API key use: ${record.id}`, { error });
+    });
+    return { tenant, key_id: record.id };
+}
@@ -0,0 +1,99 @@
+/**
+ * 🛂 API AUTH (HTTP)
+ * Shared by the dashboard server (express) and the health API (plain http).
+ *
+ * - The key is read from `Authorization: Bearer <key>` or `X-API-Key`; the `api_key` query
+ *   parameter is only accepted on `GET /api/events` (EventSource cannot send headers), so
+ *   keys do not end up in the access logs of every other route.
+ * - With API_AUTH_ENABLED=false every request is served unscoped (single-team setups).
+ * - CORS is only granted to the origins listed in API_CORS_ORIGINS.
+ */
+
+import type { IncomingHttpHeaders, IncomingMessage, ServerResponse } from 'http';
+import type { NextFunction, Request, Response } from 'express';
+import { config } from '../config';
+import { Logger } from '../utils/logger';
+import { AuthenticationError } from '../../utils/errors';
+import { AuthenticatedTenant, authenticateApiKey } from './api_keys';
+
+/** The only route that may carry the key in the query string. */
+const QUERY_KEY_ROUTE = { method: 'GET', path: '/api/events' };
+
+export function extractApiKey(headers: IncomingHttpHeaders, query: Record<string, unknown> = {}): string | undefined {
+    const authorization = headers.authorization;
+    if (typeof authorization === 'string' && /^Bearer\s+/i.test(authorization)) {
+        return authorization.replace(/^Bearer\s+/i, '').trim();
+    }
+    const header = headers['x-api-key'];
+    if (typeof header === 'string' && header.trim() !== '') {
+        return header.trim();
+    }
+    return typeof query.api_key === 'string' && query.api_key !== '' ? query.api_key : undefined;
+}
+
+/**
+ * Authenticate a request; resolves to undefined (unscoped) when auth is disabled.
+ */
+export async function authenticateRequest(
+    headers: IncomingHttpHeaders,
+    query: Record<string, unknown> = {}
+): Promise<AuthenticatedTenant | undefined> {
+    if (!config.auth.enabled) {
+        return undefined;
+    }
+    return authenticateApiKey(extractApiKey(headers, query));
+}
+
+/**
+ * Set the CORS headers for an allowed origin; returns false when the origin is not allowed.
+ */
+export function applyCors(req: IncomingMessage, res: ServerResponse): boolean {
+    const origin = req.headers.origin;
+    if (!origin) {
+        return true;
+    }
+    const allowed = config.auth.corsOrigins;
+    if (!allowed.includes('*') && !allowed.includes(origin)) {
+        return false;
+    }
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, X-API-Key, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    return true;
+}
+
+export function corsMiddleware(req: Request, res: Response, next: NextFunction): void {
+    const allowed = applyCors(req, res);
+    if (req.method === 'OPTIONS') {
+        res.sendStatus(allowed ? 204 : 403);
+        return;
+    }
+    next();
+}
+
+/**
+ * Express guard: resolves the caller's tenant into `res.locals.tenant` or answers 401.
+ */
+export async function requireApiKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+        const acceptsQueryKey = req.method === QUERY_KEY_ROUTE.method && req.baseUrl + req.path === QUERY_KEY_ROUTE.path;
+        const query = acceptsQueryKey ? (req.query as Record<string, unknown>) : {};
+        res.locals.tenant = await authenticateRequest(req.headers, query);
+        next();
+    } catch (error) {
+        if (error instanceof AuthenticationError) {
+            res.status(401).json({ success: false, message: error.message });
+            return;
+        }
+        Logger.error('API key check failed', { error: error as Error });
+        res.status(500).json({ success: false, message: 'Internal Server Error' });
+    }
+}
+
+/**
+ * Tenant id of an authenticated request (undefined = unscoped operator access).
+ */
+export function requestTenantId(res: Response): string | undefined {
+    return (res.locals.tenant as AuthenticatedTenant | undefined)?.tenant.id;
+}
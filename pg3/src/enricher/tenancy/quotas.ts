@@ -0,0 +1,137 @@
+/**
+ * 📏 TENANT QUOTAS
+ * Daily (UTC) limits per tenant, counted in `tenant_usage`:
+ *
+ * - companies: reserved atomically when scraped companies are enqueued for enrichment;
+ *   companies over the quota are not enqueued.
+ * - spend (USD): the cost LLMService computes for every call is booked on the tenant of the
+ *   run being processed, CostLedger entries (converted from EUR) on the tenant of their
+ *   ledger. Once the quota is spent, new jobs are refused and queued work waits for the
+ *   next UTC day.
+ */
+
+import { Logger } from '../utils/logger';
+import { config } from '../config';
+import { TenantRecord, TenantUsage } from '../db/model';
+import { initializeResultStore } from '../db/result_store';
+import { LLMService } from '../core/ai/llm_service';
+import { getLiveContext } from '../observability/live_events';
+import type { CostLedger } from '../../foundation/CostLedger';
+import { QuotaExceededError } from '../../utils/errors';
+import { getTenantOrThrow } from './api_keys';
+
+export interface TenantQuotaStatus {
+    tenant: TenantRecord;
+    usage: TenantUsage;
+    /** null = unlimited */
+    remaining: { companies: number | null; spend_usd: number | null };
+    resets_at: string;
+}
+
+export function utcDay(now: Date = new Date()): string {
+    return now.toISOString().slice(0, 10);
+}
+
+export function nextUtcDayStart(now: Date = new Date()): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+}
+
+export async function getTenantQuotaStatus(tenantId: string, now: Date = new Date()): Promise<TenantQuotaStatus> {
+    const tenant = await getTenantOrThrow(tenantId);
+    const store = await initializeResultStore();
+    const usage = await store.getTenantUsage(tenantId, utcDay(now));
+    const companyQuota = tenant.daily_company_quota ?? null;
+    const spendQuota = tenant.daily_spend_quota_usd ?? null;
+    return {
+        tenant,
+        usage,
+        remaining: {
+            companies: companyQuota === null ? null : Math.max(0, companyQuota - usage.companies_enqueued),
+            spend_usd: spendQuota === null ? null : Math.max(0, spendQuota - usage.spend_usd),
+        },
+        resets_at: nextUtcDayStart(now).toISOString(),
+    };
+}
+
+export function isSpendExhausted(status: TenantQuotaStatus): boolean {
+    return status.remaining.spend_usd !== null && status.remaining.spend_usd <= 0;
+}
+
+/**
+ * Refuse new work for a tenant that has nothing left of either daily quota.
+ */
+export async function assertTenantCanStartWork(tenantId: string): Promise<void> {
+    const status = await getTenantQuotaStatus(tenantId);
+    const context = { tenant_id: tenantId, resets_at: status.resets_at };
+    if (status.remaining.companies === 0) {
+        throw new QuotaExceededError(`Daily company quota reached (${status.tenant.daily_company_quota})`, context);
+    }
+    if (isSpendExhausted(status)) {
+        throw new QuotaExceededError(`Daily spend quota reached ($${status.tenant.daily_spend_quota_usd})`, context);
+    }
+}
+
+/**
+ * Reserve room for `requested` companies in today's quota; returns how many may be enqueued.
+ */
+export async function reserveCompanyQuota(tenantId: string, requested: number): Promise<number> {
+    if (requested <= 0) {
+        return 0;
+    }
+    const tenant = await getTenantOrThrow(tenantId);
+    const store = await initializeResultStore();
+    const granted = await store.reserveTenantCompanies(tenantId, utcDay(), requested, tenant.daily_company_quota ?? null);
+    if (granted < requested) {
+        Logger.warn(`📏 Company quota: granted ${granted}/${requested}`, { tenant_id: tenantId });
+    }
+    return granted;
+}
+
+/**
+ * True when the tenant has used up today's spend quota (tenant-less work is never limited).
+ */
+export async function isSpendQuotaExhausted(tenantId?: string): Promise<boolean> {
+    if (!tenantId) {
+        return false;
+    }
+    const store = await initializeResultStore();
+    const tenant = await store.getTenant(tenantId);
+    if (!tenant || tenant.daily_spend_quota_usd == null) {
+        return false;
+    }
+    return (await store.getTenantUsage(tenantId, utcDay())).spend_usd >= tenant.daily_spend_quota_usd;
+}
+
+export async function recordTenantSpend(tenantId: string, amountUsd: number): Promise<void> {
+    if (amountUsd <= 0) {
+        return;
+    }
+    const store = await initializeResultStore();
+    await store.addTenantSpend(tenantId, utcDay(), amountUsd);
+}
+
+function bookSpend(tenantId: string | undefined, amountUsd: number, source: string): void {
+    if (!tenantId) {
+        return;
+    }
+    recordTenantSpend(tenantId, amountUsd).catch((error: Error) => {
+        Logger.warn(`Could not book ${source} spend for tenant ${tenantId}`, { error });
+    });
+}
+
+/**
+ * 💰 Book LLM cost on the tenant of the run being processed (see withLiveContext).
+ * Returns the function that stops tracking.
+ */
+export function trackTenantSpend(): () => void {
+    return LLMService.onCost((costUsd) => bookSpend(getLiveContext().tenant_id, costUsd, 'LLM'));
+}
+
+/**
+ * Book CostLedger entries (EUR) on their tenant, or on the tenant of the current run.
+ */
+export function trackLedgerSpend(ledger: CostLedger): () => void {
+    return ledger.onEntry((entry) => {
+        bookSpend(entry.tenant_id ?? getLiveContext().tenant_id, entry.cost_eur * config.auth.eurToUsd, 'ledger');
+    });
+}
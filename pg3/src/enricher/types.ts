@@ -42,3 +42,42 @@ export interface CompanyInput {
     source_file?: string;
     [key: string]: any;
 }
+
+/**
+ * An additional official website of a company (brand, e-commerce or country domain),
+ * verified on its own next to the primary one.
+ */
+export interface SecondaryWebsite {
+    url: string;
+    confidence: number;
+    /** Discovery source that surfaced it */
+    method: string;
+    reason_code?: string;
+    /** Identifiers found on the site itself */
+    evidence: {
+        vat?: string;
+        phone?: string;
+        schema_match?: boolean;
+    };
+}
+
+export type SocialNetwork = 'facebook' | 'instagram' | 'linkedin';
+
+/**
+ * A company page on a social network, verified against the company like a website.
+ */
+export interface SocialProfile {
+    network: SocialNetwork;
+    /** Canonical profile URL (https://www.facebook.com/<handle>, .../company/<slug> on LinkedIn) */
+    url: string;
+    confidence: number;
+    /** Matching signals, as CompanyMatcher reports them */
+    reason: string;
+    evidence: {
+        vat?: string;
+        phone?: string;
+        name_coverage: number;
+        handle_coverage: number;
+        city_match: boolean;
+    };
+}
@@ -6,9 +6,10 @@
  * 1. Registro Imprese (official registry)
  * 2. VIES (EU VAT validation)
  * 3. Company Website
- * 4. PagineGialle
- * 5. Google Maps
- * 6. AI Extraction
+ * 4. Financial directories (FatturatoItalia, ReportAziende)
+ * 5. PagineGialle
+ * 6. Google Maps
+ * 7. AI Extraction
  */
 
 import { Logger } from './logger';
@@ -17,6 +18,7 @@ export enum DataSource {
     REGISTRY = 'REGISTRY',       // Highest trust
     VIES = 'VIES',
     WEBSITE = 'WEBSITE',
+    FINANCIAL_DIRECTORY = 'FINANCIAL_DIRECTORY',
     PAGINEGIALLE = 'PAGINEGIALLE',
     GOOGLE_MAPS = 'GOOGLE_MAPS',
     AI = 'AI',
@@ -27,6 +29,7 @@ const TRUST_SCORES: Record<DataSource, number> = {
     [DataSource.REGISTRY]: 100,
     [DataSource.VIES]: 95,
     [DataSource.WEBSITE]: 80,
+    [DataSource.FINANCIAL_DIRECTORY]: 75,
     [DataSource.PAGINEGIALLE]: 70,
     [DataSource.GOOGLE_MAPS]: 60,
     [DataSource.AI]: 50,
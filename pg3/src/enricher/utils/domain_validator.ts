@@ -16,6 +16,8 @@ export interface DomainHealth {
     error?: string;
 }
 
+export type ParkingStatus = 'LIVE' | 'PARKED' | 'UNREACHABLE' | 'UNKNOWN';
+
 // Parking/junk indicators found in HTML HEAD responses
 const PARKING_INDICATORS = [
     'domain is for sale', 'buy this domain', 'questo dominio è in vendita',
@@ -83,8 +85,19 @@ export class DomainValidator {
      * Returns true if the domain appears to be a real website (not parked).
      */
     static async isNotParked(domain: string, timeoutMs: number = 8000): Promise<boolean> {
+        const status = await this.checkParking(domain, timeoutMs);
+        // Unreachable domains are not worth a browser slot either
+        return status === 'LIVE' || status === 'UNKNOWN';
+    }
+
+    /**
+     * Parking check that keeps "could not fetch" apart from "parked":
+     * LIVE (real content), PARKED (fetched, parked or empty), UNREACHABLE (timeout, refused,
+     * no such host), UNKNOWN (other fetch errors, e.g. an SSL handshake).
+     */
+    static async checkParking(domain: string, timeoutMs: number = 8000): Promise<ParkingStatus> {
         const hostname = this.extractHostname(domain);
-        if (!hostname) return false;
+        if (!hostname) return 'UNREACHABLE';
 
         const url = domain.startsWith('http') ? domain : `https://${hostname}`;
 
@@ -103,27 +116,25 @@ export class DomainValidator {
             const body = typeof resp.data === 'string' ? resp.data.slice(0, 5000).toLowerCase() : '';
 
             // Empty or very short body = likely parked
-            if (body.length < 100) return false;
+            if (body.length < 100) return 'PARKED';
 
             // Check for parking indicators
             for (const indicator of PARKING_INDICATORS) {
                 if (body.includes(indicator)) {
                     Logger.info(`[DomainValidator] Parking detected for ${hostname}: "${indicator}"`);
-                    return false;
+                    return 'PARKED';
                 }
             }
 
-            return true;
+            return 'LIVE';
         } catch (err: any) {
-            // Timeouts and DNS failures → domain is unreachable, don't waste a browser slot
             const code = err?.code || '';
             const msg = (err?.message || '').toLowerCase();
             if (code === 'ECONNABORTED' || code === 'ETIMEDOUT' || code === 'ENOTFOUND' ||
                 code === 'ECONNREFUSED' || msg.includes('timeout')) {
-                return false;
+                return 'UNREACHABLE';
             }
-            // Other transient errors (e.g. SSL handshake) — allow through cautiously
-            return true;
+            return 'UNKNOWN';
         }
     }
 
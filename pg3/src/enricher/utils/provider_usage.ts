@@ -0,0 +1,34 @@
+/**
+ * 🧾 PAID PROVIDER USAGE
+ * Every billable call to an external provider (Serper, Scrape.do, Jina) is announced here,
+ * so spend can be counted where it matters (the discovery trace / budget) without the
+ * clients knowing who is listening. LLM calls are reported by LLMService.onCost instead.
+ */
+
+import { Logger } from './logger';
+
+export type PaidProvider = 'serper' | 'scrape_do' | 'jina_reader' | 'jina_search';
+
+export type ProviderCallListener = (provider: PaidProvider, units: number) => void;
+
+const listeners = new Set<ProviderCallListener>();
+
+export function recordProviderCall(provider: PaidProvider, units: number = 1): void {
+    for (const listener of listeners) {
+        try {
+            listener(provider, units);
+        } catch (error) {
+            Logger.warn('[ProviderUsage] Listener failed', { error: error as Error });
+        }
+    }
+}
+
+/**
+ * Be told about every billable provider call. Returns the unregister function.
+ */
+export function onProviderCall(listener: ProviderCallListener): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
@@ -4,6 +4,7 @@ import * as https from 'https';
 
 import { config } from '../config';
 import { Logger } from './logger';
+import { recordProviderCall } from './provider_usage';
 
 // Connection pooling - reuse TCP connections for massive speedup
 const httpAgent = new http.Agent({ keepAlive: true, maxSockets: 25, maxFreeSockets: 10 });
@@ -66,6 +67,9 @@ function isHardTarget(url: string): boolean {
     'registroimprese.it',
     'informazione-aziende.it',
     'fatturatoitalia.it',
+    'facebook.com',
+    'instagram.com',
+    'linkedin.com',
   ];
   return hard.some((h) => host.includes(h));
 }
@@ -139,6 +143,7 @@ export class ScraperClient {
     const superMode = options.super ?? config.scrapeDo.super ?? false;
 
     // NOTE: Scrape.do recommends URL-encoding; axios params handles this safely.
+    recordProviderCall('scrape_do');
     const resp = await axios.get(config.scrapeDo.apiUrl, {
       timeout: timeoutMs,
       params: {
@@ -244,6 +249,7 @@ export class ScraperClient {
     Logger.info('[JinaReader] Fetching', { host: safeHost(targetUrl) });
 
     const resp = await withRetry(async () => {
+      recordProviderCall('jina_reader');
       const r = await axios.get(jinaUrl, {
         timeout: timeoutMs,
         headers,
@@ -291,6 +297,7 @@ export class ScraperClient {
     Logger.info('[JinaSearch] Searching', { query: query.slice(0, 80) });
 
     const resp = await withRetry(async () => {
+      recordProviderCall('jina_search');
       const r = await axios.get(jinaUrl, {
         timeout: timeoutMs,
         headers,
@@ -0,0 +1,122 @@
+/**
+ * 📮 WEBHOOK DELIVERY
+ * Worker for the `webhook` queue: POSTs the stored payload to the subscriber.
+ *
+ * - 2xx: DELIVERED
+ * - anything else (status, timeout, connection error): the attempt is logged and the
+ *   job is retried with exponential backoff (WEBHOOK_RETRY_*); the last failed attempt
+ *   marks the delivery FAILED.
+ * - Every attempt is re-signed with a fresh timestamp.
+ * - Tenant subscriptions only reach public addresses: the host is checked after DNS
+ *   resolution, and a private target fails the delivery at once (no retry).
+ */
+
+import axios from 'axios';
+import { Job, Worker } from 'bullmq';
+import { Logger } from '../utils/logger';
+import { config } from '../config';
+import { WebhookAttempt, WebhookDelivery } from '../db/model';
+import { initializeResultStore } from '../db/result_store';
+import { QUEUE_NAMES, redisConnection, WebhookJobData } from '../queue';
+import { NetworkError, NotFoundError } from '../../utils/errors';
+import { signWebhookPayload, WEBHOOK_HEADERS } from './signing';
+import { assertPublicWebhookHost, PrivateWebhookTargetError, resolvePublicAddresses } from './targets';
+
+const MAX_ERROR_LENGTH = 500;
+
+export interface WebhookDeliveryOptions {
+    /** True on the last attempt: a failure is final */
+    lastAttempt?: boolean;
+    timeoutMs?: number;
+}
+
+/**
+ * Attempt one delivery; throws NetworkError when it should be retried.
+ */
+export async function deliverWebhook(deliveryId: string, options: WebhookDeliveryOptions = {}): Promise<WebhookDelivery> {
+    const store = await initializeResultStore();
+    const delivery = await store.getWebhookDelivery(deliveryId);
+    if (!delivery) {
+        throw new NotFoundError(`Webhook delivery not found: ${deliveryId}`);
+    }
+    if (delivery.status !== 'PENDING') {
+        return delivery;
+    }
+
+    const subscription = await store.getWebhookSubscription(delivery.subscription_id);
+    if (!subscription || !subscription.active) {
+        await store.recordWebhookAttempt(deliveryId, { status: 'FAILED', error: 'Subscription disabled' });
+        return (await store.getWebhookDelivery(deliveryId)) as WebhookDelivery;
+    }
+
+    const timestamp = Math.floor(Date.now() / 1000);
+    let attempt: WebhookAttempt;
+    try {
+        if (subscription.tenant_id) {
+            // IP literals are never resolved: check them before connecting
+            assertPublicWebhookHost(new URL(subscription.url));
+        }
+        const response = await axios.post(subscription.url, delivery.payload, {
+            timeout: options.timeoutMs ?? config.webhooks.timeoutMs,
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': `${config.SERVICE_NAME}-webhooks`,
+                [WEBHOOK_HEADERS.SIGNATURE]: signWebhookPayload(subscription.secret, timestamp, delivery.payload),
+                [WEBHOOK_HEADERS.TIMESTAMP]: String(timestamp),
+                [WEBHOOK_HEADERS.EVENT]: delivery.event,
+                [WEBHOOK_HEADERS.DELIVERY]: delivery.id,
+            },
+            // The body is already serialized: send it byte for byte as signed
+            transformRequest: [(body: string) => body],
+            validateStatus: () => true,
+            maxRedirects: 0,
+            // Operator subscriptions may target internal hosts (see createWebhookSubscription).
+            // Must stay an async function: axios only treats those as promise-style lookups.
+            lookup: subscription.tenant_id ? async (hostname: string) => resolvePublicAddresses(hostname) : undefined,
+        });
+        attempt = response.status >= 200 && response.status < 300
+            ? { status: 'DELIVERED', response_status: response.status }
+            : { status: 'PENDING', response_status: response.status, error: `HTTP ${response.status}` };
+    } catch (error) {
+        const refused = error instanceof PrivateWebhookTargetError || (error as { cause?: unknown }).cause instanceof PrivateWebhookTargetError;
+        attempt = { status: refused ? 'FAILED' : 'PENDING', error: (error as Error).message.slice(0, MAX_ERROR_LENGTH) };
+    }
+
+    if (attempt.status === 'PENDING' && options.lastAttempt) {
+        attempt = { ...attempt, status: 'FAILED' };
+    }
+    await store.recordWebhookAttempt(deliveryId, attempt);
+
+    if (attempt.status === 'DELIVERED') {
+        Logger.info(`📮 Webhook delivered: ${delivery.event}`, { delivery_id: deliveryId, subscription_id: subscription.id });
+    } else {
+        Logger.warn(`📮 Webhook delivery ${attempt.status === 'FAILED' ? 'failed' : 'will be retried'}: ${attempt.error}`, {
+            delivery_id: deliveryId,
+            subscription_id: subscription.id,
+            response_status: attempt.response_status,
+        });
+        if (attempt.status === 'PENDING') {
+            throw new NetworkError(`Webhook delivery ${deliveryId} failed: ${attempt.error}`, { delivery_id: deliveryId });
+        }
+    }
+    return (await store.getWebhookDelivery(deliveryId)) as WebhookDelivery;
+}
+
+async function processWebhookJob(job: Job<WebhookJobData>): Promise<void> {
+    const maxAttempts = job.opts.attempts ?? config.webhooks.retryAttempts;
+    await deliverWebhook(job.data.delivery_id, { lastAttempt: job.attemptsMade >= maxAttempts - 1 });
+}
+
+/**
+ * 🚀 Start the webhook delivery worker
+ */
+export function startWebhookWorker(): Worker<WebhookJobData> {
+    const worker = new Worker<WebhookJobData>(QUEUE_NAMES.WEBHOOK, processWebhookJob, {
+        connection: redisConnection,
+        concurrency: config.webhooks.concurrency,
+    });
+    worker.on('error', (err) => {
+        Logger.error('Webhook worker error', { error: err });
+    });
+    return worker;
+}
@@ -0,0 +1,98 @@
+/**
+ * 📣 WEBHOOK EVENTS
+ * Turns pipeline events into signed deliveries:
+ *
+ * - company.enriched: the financial stage result (JobResult) plus the persisted enrichment row
+ * - run.finished: the run record once every company of the run is settled
+ * - dlq.entry: a job that exhausted its retries and landed in the dead letter queue
+ *
+ * Publishing stores one `webhook_deliveries` row per matching subscription and
+ * enqueues it on the `webhook` queue; the payload is frozen at publish time.
+ */
+
+import * as crypto from 'crypto';
+import { Logger } from '../utils/logger';
+import { EnrichmentResult, RunRecord, WebhookEvent } from '../db/model';
+import { initializeResultStore } from '../db/result_store';
+import { enqueueWebhookDelivery, JobResult } from '../queue';
+import type { DeadLetterEntry } from '../queue/dead_letter';
+import { matchesWebhookSubscription } from './subscriptions';
+
+export interface CompanyEnrichedData {
+    company_id: string;
+    company_name?: string;
+    run_id?: string;
+    result: JobResult;
+    enrichment?: EnrichmentResult;
+}
+
+export interface RunFinishedData {
+    run: RunRecord;
+}
+
+export interface WebhookEventData {
+    'company.enriched': CompanyEnrichedData;
+    'run.finished': RunFinishedData;
+    'dlq.entry': DeadLetterEntry;
+}
+
+/**
+ * Body POSTed to the subscriber (also stored verbatim as the delivery payload).
+ */
+export interface WebhookEnvelope<E extends WebhookEvent = WebhookEvent> {
+    id: string;
+    event: E;
+    created_at: string;
+    tenant_id?: string;
+    data: WebhookEventData[E];
+}
+
+/**
+ * Create and enqueue a delivery for every subscription interested in the event.
+ * Returns the delivery ids.
+ */
+export async function publishWebhookEvent<E extends WebhookEvent>(
+    event: E,
+    data: WebhookEventData[E],
+    tenantId?: string
+): Promise<string[]> {
+    const store = await initializeResultStore();
+    const subscriptions = (await store.listWebhookSubscriptions())
+        .filter((subscription) => matchesWebhookSubscription(subscription, event, tenantId));
+
+    const deliveryIds: string[] = [];
+    for (const subscription of subscriptions) {
+        const id = `whd-${crypto.randomBytes(8).toString('hex')}`;
+        const envelope: WebhookEnvelope<E> = {
+            id,
+            event,
+            created_at: new Date().toISOString(),
+            ...(tenantId ? { tenant_id: tenantId } : {}),
+            data,
+        };
+        await store.createWebhookDelivery({ id, subscription_id: subscription.id, event, payload: JSON.stringify(envelope) });
+        await enqueueWebhookDelivery(id);
+        deliveryIds.push(id);
+    }
+    if (deliveryIds.length > 0) {
+        Logger.info(`🪝 ${event}: ${deliveryIds.length} webhook deliveries queued`, { tenant_id: tenantId });
+    }
+    return deliveryIds;
+}
+
+/**
+ * company.enriched payload: the stage result plus the enrichment row as persisted.
+ */
+export async function buildCompanyEnrichedData(
+    result: JobResult,
+    context: { company_name?: string; run_id?: string } = {}
+): Promise<CompanyEnrichedData> {
+    const store = await initializeResultStore();
+    return {
+        company_id: result.company_id,
+        company_name: context.company_name,
+        run_id: context.run_id,
+        result,
+        enrichment: await store.getEnrichmentResult(result.company_id),
+    };
+}
@@ -0,0 +1,50 @@
+/**
+ * ✍️ WEBHOOK SIGNATURES
+ * Every delivery is signed with the subscription secret so receivers can trust it:
+ *
+ *   X-PG3-Signature: sha256=<hex HMAC-SHA256 of "<X-PG3-Timestamp>.<raw body>">
+ *
+ * The timestamp (unix seconds) is part of the signed content; receivers should reject
+ * deliveries older than a few minutes to stop replays.
+ */
+
+import * as crypto from 'crypto';
+
+export const WEBHOOK_HEADERS = {
+    SIGNATURE: 'X-PG3-Signature',
+    TIMESTAMP: 'X-PG3-Timestamp',
+    EVENT: 'X-PG3-Event',
+    DELIVERY: 'X-PG3-Delivery',
+} as const;
+
+const SIGNATURE_PREFIX = 'sha256=';
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export function generateWebhookSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+    const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `${SIGNATURE_PREFIX}${digest}`;
+}
+
+/**
+ * Receiver-side check (also used by the tests): constant-time compare plus a replay window.
+ */
+export function verifyWebhookSignature(
+    secret: string,
+    timestamp: number,
+    body: string,
+    signature: string,
+    options: { toleranceSeconds?: number; now?: number } = {}
+): boolean {
+    const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+    const nowSeconds = Math.floor((options.now ?? Date.now()) / 1000);
+    if (!Number.isFinite(timestamp) || Math.abs(nowSeconds - timestamp) > tolerance) {
+        return false;
+    }
+    const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+    const received = Buffer.from(signature);
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
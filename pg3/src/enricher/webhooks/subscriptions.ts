@@ -0,0 +1,140 @@
+/**
+ * 🪝 WEBHOOK SUBSCRIPTIONS
+ * Where (url) and what (event filter) to deliver, per tenant.
+ *
+ * - Tenant subscriptions only receive events of their own tenant's data.
+ * - Subscriptions without a tenant (created from the CLI) belong to the operator and
+ *   receive every event.
+ * - The signing secret is returned once, when the subscription is created.
+ * - Private, loopback and link-local targets are rejected (see targets.ts); only the
+ *   operator may allow them (`allowPrivateTargets`).
+ */
+
+import * as crypto from 'crypto';
+import { Logger } from '../utils/logger';
+import { WEBHOOK_EVENTS, WebhookDelivery, WebhookEvent, WebhookSubscription } from '../db/model';
+import { initializeResultStore } from '../db/result_store';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { generateWebhookSecret } from './signing';
+import { assertPublicWebhookHost } from './targets';
+
+export interface WebhookSubscriptionRequest {
+    url?: unknown;
+    events?: unknown;
+    secret?: unknown;
+}
+
+export interface WebhookSubscriptionOptions {
+    /** Accept private and loopback targets (operator subscriptions only) */
+    allowPrivateTargets?: boolean;
+}
+
+/** Listing shape: everything but the secret */
+export type PublicWebhookSubscription = Omit<WebhookSubscription, 'secret'>;
+
+export function toPublicSubscription(subscription: WebhookSubscription): PublicWebhookSubscription {
+    const { secret: _secret, ...rest } = subscription;
+    return rest;
+}
+
+function isWebhookEvent(value: unknown): value is WebhookEvent {
+    return typeof value === 'string' && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+function parseWebhookUrl(value: unknown, allowPrivateTargets: boolean): string {
+    if (typeof value !== 'string') {
+        throw new ValidationError('Webhook url is required');
+    }
+    let url: URL;
+    try {
+        url = new URL(value.trim());
+    } catch {
+        throw new ValidationError(`Invalid webhook url: ${value}`);
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new ValidationError(`Webhook url must be http(s): ${value}`);
+    }
+    if (!allowPrivateTargets) {
+        assertPublicWebhookHost(url);
+    }
+    return url.toString();
+}
+
+/**
+ * Accepts an array or a comma separated string of event names.
+ */
+export function parseWebhookEvents(value: unknown): WebhookEvent[] {
+    const raw = typeof value === 'string' ? value.split(',').map((event) => event.trim()).filter(Boolean) : value;
+    if (!Array.isArray(raw) || raw.length === 0) {
+        throw new ValidationError(`At least one webhook event is required (${WEBHOOK_EVENTS.join(', ')})`);
+    }
+    const invalid = raw.filter((event) => !isWebhookEvent(event));
+    if (invalid.length > 0) {
+        throw new ValidationError(`Unknown webhook events: ${invalid.join(', ')} (expected ${WEBHOOK_EVENTS.join(', ')})`);
+    }
+    return Array.from(new Set(raw as WebhookEvent[]));
+}
+
+export async function createWebhookSubscription(
+    request: WebhookSubscriptionRequest,
+    tenantId?: string,
+    options: WebhookSubscriptionOptions = {}
+): Promise<WebhookSubscription> {
+    if (options.allowPrivateTargets && tenantId) {
+        throw new ValidationError('Private webhook targets can only be allowed for operator subscriptions');
+    }
+    const url = parseWebhookUrl(request.url, options.allowPrivateTargets === true);
+    const events = parseWebhookEvents(request.events);
+    if (request.secret !== undefined && (typeof request.secret !== 'string' || request.secret.length < 16)) {
+        throw new ValidationError('Webhook secret must be a string of at least 16 characters');
+    }
+    const secret = (request.secret as string | undefined) ?? generateWebhookSecret();
+    const id = `wh-${crypto.randomBytes(6).toString('hex')}`;
+
+    const store = await initializeResultStore();
+    await store.createWebhookSubscription({ id, tenant_id: tenantId, url, secret, events });
+    Logger.info(`🪝 Webhook subscription created: ${id}`, { tenant_id: tenantId, url, events });
+    return (await store.getWebhookSubscription(id)) as WebhookSubscription;
+}
+
+/**
+ * Resolve a subscription visible to the caller (another tenant's subscription is "not found").
+ */
+export async function getWebhookSubscriptionOrThrow(subscriptionId: string, tenantId?: string): Promise<WebhookSubscription> {
+    const store = await initializeResultStore();
+    const subscription = await store.getWebhookSubscription(subscriptionId);
+    if (!subscription || (tenantId && subscription.tenant_id !== tenantId)) {
+        throw new NotFoundError(`Webhook subscription not found: ${subscriptionId}`);
+    }
+    return subscription;
+}
+
+export async function listWebhookSubscriptions(tenantId?: string): Promise<WebhookSubscription[]> {
+    const store = await initializeResultStore();
+    return store.listWebhookSubscriptions(tenantId);
+}
+
+export async function removeWebhookSubscription(subscriptionId: string, tenantId?: string): Promise<void> {
+    await getWebhookSubscriptionOrThrow(subscriptionId, tenantId);
+    const store = await initializeResultStore();
+    if (!(await store.deactivateWebhookSubscription(subscriptionId))) {
+        throw new NotFoundError(`Active webhook subscription not found: ${subscriptionId}`);
+    }
+    Logger.warn(`🪝 Webhook subscription disabled: ${subscriptionId}`);
+}
+
+export async function listWebhookDeliveries(subscriptionId: string, tenantId?: string, limit: number = 50): Promise<WebhookDelivery[]> {
+    await getWebhookSubscriptionOrThrow(subscriptionId, tenantId);
+    const store = await initializeResultStore();
+    return store.listWebhookDeliveries(subscriptionId, limit);
+}
+
+/**
+ * Active subscriptions that want `event` for data of `tenantId` (undefined = operator data).
+ */
+export function matchesWebhookSubscription(subscription: WebhookSubscription, event: WebhookEvent, tenantId?: string): boolean {
+    if (!subscription.active || !subscription.events.includes(event)) {
+        return false;
+    }
+    return !subscription.tenant_id || subscription.tenant_id === tenantId;
+}
@@ -0,0 +1,70 @@
+/**
+ * 🛡️ WEBHOOK TARGETS
+ * Tenant webhooks are POSTed from inside the deployment: a URL pointing at loopback,
+ * link-local (cloud metadata, 169.254.169.254), private or CGNAT addresses would let a
+ * tenant reach internal services.
+ *
+ * - creation: IP literal and localhost hosts in those ranges are rejected
+ * - delivery: the host is resolved through `resolvePublicAddresses` (the axios `lookup`),
+ *   so a public name that resolves to a private address is refused too
+ */
+
+import type { LookupAddress } from 'dns';
+import * as dns from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { ValidationError } from '../../utils/errors';
+
+const BLOCKED = new BlockList();
+BLOCKED.addSubnet('0.0.0.0', 8, 'ipv4');
+BLOCKED.addSubnet('10.0.0.0', 8, 'ipv4');
+BLOCKED.addSubnet('100.64.0.0', 10, 'ipv4');
+BLOCKED.addSubnet('127.0.0.0', 8, 'ipv4');
+BLOCKED.addSubnet('169.254.0.0', 16, 'ipv4');
+BLOCKED.addSubnet('172.16.0.0', 12, 'ipv4');
+BLOCKED.addSubnet('192.168.0.0', 16, 'ipv4');
+BLOCKED.addAddress('::', 'ipv6');
+BLOCKED.addAddress('::1', 'ipv6');
+BLOCKED.addSubnet('fc00::', 7, 'ipv6');
+BLOCKED.addSubnet('fe80::', 10, 'ipv6');
+
+export class PrivateWebhookTargetError extends ValidationError {}
+
+/**
+ * Loopback, unspecified, link-local, private or CGNAT address (IPv4-mapped IPv6 included).
+ */
+export function isPrivateAddress(address: string): boolean {
+    const family = isIP(address);
+    if (family === 0) {
+        return false;
+    }
+    return BLOCKED.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Whether the host is known to be internal without resolving it (IP literal or localhost).
+ */
+export function isPrivateHost(hostname: string): boolean {
+    const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+    return host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host);
+}
+
+export function assertPublicWebhookHost(url: URL): void {
+    if (isPrivateHost(url.hostname)) {
+        throw new PrivateWebhookTargetError(`Webhook url must not target a private or loopback address: ${url.hostname}`);
+    }
+}
+
+/**
+ * Every address of the host; throws PrivateWebhookTargetError when any of them is private.
+ */
+export async function resolvePublicAddresses(hostname: string): Promise<LookupAddress[]> {
+    if (isPrivateHost(hostname)) {
+        throw new PrivateWebhookTargetError(`Webhook target is a private or loopback address: ${hostname}`);
+    }
+    const addresses = await dns.lookup(hostname, { all: true });
+    const blocked = addresses.find((entry) => isPrivateAddress(entry.address));
+    if (blocked) {
+        throw new PrivateWebhookTargetError(`Webhook target ${hostname} resolves to a private address: ${blocked.address}`);
+    }
+    return addresses;
+}
@@ -4,36 +4,59 @@
  * 
  * Usage: npx ts-node src/enricher/worker.ts
  * 
+ * Pipeline stages (each with its own worker, concurrency and retry policy):
+ * - enrichment: intake, skips already enriched companies and dispatches the flow
+ * - discovery: website discovery/validation, result persisted in `stage_results`
+ * - financial: financial enrichment using the discovery output, writes the final row
+ *
  * Features:
  * - Automatic retry with exponential backoff
  * - Graceful shutdown on SIGTERM/SIGINT
  * - Error categorization (no silent death)
  * - Dead letter queue for permanent failures
+ * - Webhook events (company.enriched, run.finished, dlq.entry) with their own delivery worker
  */
 
-import { Worker, Job } from 'bullmq';
+import * as crypto from 'crypto';
+import { Worker, Job, DelayedError } from 'bullmq';
 import { Logger } from './utils/logger';
 import { config } from './config';
 
 const CONCURRENCY_LIMIT = config.queue.concurrencyLimit;
 const RETRY_ATTEMPTS = config.queue.retryAttempts;
+const STAGES = config.queue.stages;
 
 import {
     redisConnection,
     EnrichmentJobData,
     JobResult,
+    DiscoveryStageResult,
+    PipelineStage,
     QUEUE_NAMES,
+    addEnrichmentFlow,
+    stageFlowKey,
     moveToDeadLetter,
 } from './queue';
-import { FinancialService } from './core/financial/service';
-import { UnifiedDiscoveryService, DiscoveryMode } from './core/discovery/unified_discovery_service';
+import { getRunGate, RUN_PAUSE_POLL_MS } from './queue/run_control';
+import { isSpendQuotaExhausted, nextUtcDayStart, trackTenantSpend } from './tenancy/quotas';
+import { settleJobForRun } from './queue/jobs';
+import { toDeadLetterEntry } from './queue/dead_letter';
+import { FinancialData, FinancialField, FinancialService } from './core/financial/service';
+import { identityFinancialFigures, mergeFinancialFigures } from './core/financial/statement';
+import { DataMerger, DataSource } from './utils/data_merger';
+import { DiscoveryResult, UnifiedDiscoveryService } from './core/discovery/unified_discovery_service';
+import { isDiscoveryMode } from './core/discovery/layers/mode_profiles';
+import { SocialProfileFields, socialProfileFields } from './core/discovery/social_profiles';
 import { BrowserFactory } from './core/browser/factory_v2';
-import {
-    getEnrichmentResult,
-    initializeDatabase,
-    insertEnrichmentResult,
-    logJobResult,
-} from './db';
+import { EnrichmentProvenance, FinancialFigure } from './db/model';
+import { closeResultStore, getResultStore, initializeResultStore } from './db/result_store';
+import { AntigravityClient } from './observability/antigravity_client';
+import { createRedisEventSink, withLiveContext } from './observability/live_events';
+import { buildCompanyEnrichedData, publishWebhookEvent } from './webhooks/events';
+import { startWebhookWorker } from './webhooks/delivery';
+import { reconcileSharedDomains } from './reconciliation/shared_domains';
+import type { WebhookJobData } from './queue';
+import type { SecondaryWebsite } from './types';
 
 // 🔧 Initialize Services
 const financialService = new FinancialService();
@@ -41,6 +64,13 @@ const discoveryService = new UnifiedDiscoveryService();
 let isShuttingDown = false;
 let processHandlersRegistered = false;
 
+export interface EnrichmentWorkers {
+    intake: Worker<EnrichmentJobData, JobResult>;
+    discovery: Worker<EnrichmentJobData, DiscoveryStageResult>;
+    financial: Worker<EnrichmentJobData, JobResult>;
+    webhooks: Worker<WebhookJobData>;
+}
+
 function mapErrorToReasonCode(error: Error): string {
     const category = Logger.categorizeError(error);
     switch (category) {
@@ -59,14 +89,171 @@ function mapErrorToReasonCode(error: Error): string {
     }
 }
 
+function resolveDiscoveryMode(requested?: string): string {
+    return isDiscoveryMode(requested) ? requested : config.discovery.defaultMode;
+}
+
 /**
- * 🏭 Process a single enrichment job
+ * ⏸️ Honor the run status before doing any work.
+ * Paused runs push the job back as delayed; returns true when the run was cancelled.
  */
-async function processEnrichmentJob(job: Job<EnrichmentJobData>): Promise<JobResult> {
-    const { company_name, city, company_id, run_id, correlation_id } = job.data;
-    let { website } = job.data;
+async function isRunCancelled(job: Job<EnrichmentJobData>, token?: string): Promise<boolean> {
+    const gate = await getRunGate(job.data.run_id);
+    if (gate === 'pause') {
+        Logger.info(`[Worker] ⏸️ Run paused, delaying job ${job.id}`, { run_id: job.data.run_id });
+        await job.moveToDelayed(Date.now() + RUN_PAUSE_POLL_MS, token);
+        throw new DelayedError();
+    }
+    if (gate === 'cancel') {
+        Logger.info(`[Worker] ⏹️ Run cancelled, skipping job ${job.id}`, { run_id: job.data.run_id });
+        return true;
+    }
+    return false;
+}
+
+/**
+ * 📏 Park the job until the next UTC day once its tenant has spent today's quota.
+ */
+async function deferIfOverSpendQuota(job: Job<EnrichmentJobData>, token?: string): Promise<void> {
+    if (!(await isSpendQuotaExhausted(job.data.tenant_id))) {
+        return;
+    }
+    const resumeAt = nextUtcDayStart();
+    Logger.info(`[Worker] 📏 Tenant spend quota reached, delaying job ${job.id}`, {
+        tenant_id: job.data.tenant_id,
+        run_id: job.data.run_id,
+        resume_at: resumeAt.toISOString(),
+    });
+    await job.moveToDelayed(resumeAt.getTime(), token);
+    throw new DelayedError();
+}
+
+/**
+ * 🪝 Webhooks must never fail a stage: publishing errors are only logged.
+ */
+async function notifyWebhooks(event: string, publish: () => Promise<unknown>): Promise<void> {
+    try {
+        await publish();
+    } catch (error) {
+        Logger.warn(`[Worker] Could not publish ${event} webhook event`, { error: error as Error });
+    }
+}
+
+/**
+ * 🧭 Keep the decision trace next to the result; a trace that cannot be saved never fails the stage.
+ */
+async function persistDiscoveryTrace(companyId: string, runId: string | undefined, result: DiscoveryResult): Promise<void> {
+    if (!result.trace) {
+        return;
+    }
+    try {
+        await getResultStore().saveDiscoveryTrace({
+            id: `dtr-${crypto.randomBytes(8).toString('hex')}`,
+            company_id: companyId,
+            run_id: runId,
+            mode: result.trace.mode,
+            status: result.status,
+            url: result.url ?? undefined,
+            trace: result.trace,
+        });
+    } catch (error) {
+        Logger.warn(`[Worker] Could not save discovery trace for ${companyId}`, { error: error as Error });
+    }
+}
+
+async function settleRun(runId?: string): Promise<void> {
+    if (runId && await getResultStore().completeRunIfDone(runId)) {
+        Logger.info(`🏁 Run completed: ${runId}`);
+        await settleJobForRun(runId);
+        const run = await getResultStore().getRun(runId);
+        await notifyWebhooks('run.finished', async () => {
+            if (run) {
+                await publishWebhookEvent('run.finished', { run }, run.tenant_id);
+            }
+        });
+        // 🔗 Companies of the run may have been matched to a website another company owns
+        try {
+            await reconcileSharedDomains({ tenantId: run?.tenant_id, runId });
+        } catch (error) {
+            Logger.warn(`[Worker] Shared domain reconciliation failed after run ${runId}`, { error: error as Error });
+        }
+    }
+}
+
+function isBlankWebsite(website?: string): boolean {
+    return !website || website.trim() === '' || website === 'null';
+}
+
+/**
+ * 🧯 Shared failure handling: job log, DLQ on the last attempt, rethrow for BullMQ retry.
+ */
+async function handleStageFailure(
+    job: Job<EnrichmentJobData>,
+    error: unknown,
+    stage: PipelineStage | 'enrichment',
+    maxAttempts: number,
+    startTime: number
+): Promise<never> {
+    const err = error as Error;
+    const { company_name, company_id, run_id, correlation_id } = job.data;
+    const duration = Date.now() - startTime;
+    const reasonCode = mapErrorToReasonCode(err);
+    const isLastAttempt = job.attemptsMade >= maxAttempts - 1;
+
+    Logger.logError(`Failed: ${company_name}`, err, {
+        company_id,
+        company_name,
+        run_id,
+        correlation_id,
+        stage,
+        duration_ms: duration,
+        attempt: job.attemptsMade + 1,
+        max_attempts: maxAttempts,
+    });
+    await getResultStore().logJobResult({
+        company_id,
+        status: isLastAttempt ? 'FAILED' : 'RETRYING',
+        duration_ms: duration,
+        attempt: job.attemptsMade + 1,
+        error_message: err.message,
+        error_category: Logger.categorizeError(err),
+        reason_code: reasonCode,
+        run_id,
+        stage,
+    });
+
+    // If this is the last attempt, move to dead letter queue
+    if (isLastAttempt) {
+        await settleRun(run_id);
+        const deadLetter = await moveToDeadLetter(job, stage === 'enrichment' ? undefined : stage).catch((dlqError: unknown) => {
+            Logger.error('Failed to move job to Dead Letter Queue', {
+                company_name,
+                job_id: job.id,
+                error: dlqError as Error,
+            });
+            return undefined;
+        });
+        if (deadLetter) {
+            await notifyWebhooks('dlq.entry', async () =>
+                publishWebhookEvent('dlq.entry', await toDeadLetterEntry(deadLetter), job.data.tenant_id));
+        }
+    }
+
+    // Rethrow to trigger BullMQ retry
+    throw error;
+}
+
+/**
+ * 📥 Intake stage: skip already enriched companies, otherwise dispatch the stage flow.
+ */
+async function processEnrichmentJob(job: Job<EnrichmentJobData>, token?: string): Promise<JobResult> {
+    const { company_name, company_id, run_id, correlation_id } = job.data;
     const startTime = Date.now();
-    const minValidWebsiteConfidence = config.discovery.thresholds.minValid;
+
+    if (await isRunCancelled(job, token)) {
+        return { success: false, company_id, reason_code: 'SKIPPED_RUN_CANCELLED' };
+    }
+    await deferIfOverSpendQuota(job, token);
 
     Logger.info(`🔄 Processing: ${company_name}`, {
         company_id,
@@ -77,7 +264,7 @@ async function processEnrichmentJob(job: Job<EnrichmentJobData>): Promise<JobRes
     });
 
     try {
-        const existing = getEnrichmentResult(company_id);
+        const existing = await getResultStore().getEnrichmentResult(company_id);
         if (existing) {
             const duration = Date.now() - startTime;
             Logger.info(`[Worker] ⏭️ Skipping already enriched company: ${company_name}`, {
@@ -86,16 +273,16 @@ async function processEnrichmentJob(job: Job<EnrichmentJobData>): Promise<JobRes
                 correlation_id,
                 duration_ms: duration,
             });
-            logJobResult(
+            await getResultStore().logJobResult({
                 company_id,
-                'SUCCESS',
-                duration,
-                job.attemptsMade + 1,
-                undefined,
-                undefined,
-                'OK_ALREADY_ENRICHED',
-                run_id
-            );
+                status: 'SUCCESS',
+                duration_ms: duration,
+                attempt: job.attemptsMade + 1,
+                reason_code: 'OK_ALREADY_ENRICHED',
+                run_id,
+                stage: 'enrichment',
+            });
+            await settleRun(run_id);
             return {
                 success: true,
                 company_id,
@@ -107,7 +294,41 @@ async function processEnrichmentJob(job: Job<EnrichmentJobData>): Promise<JobRes
             };
         }
 
-        // STEP 1: WEBSITE DISCOVERY / VALIDATION
+        await addEnrichmentFlow(job.data, stageFlowKey(job.data, String(job.id ?? ''), job.timestamp));
+        Logger.info(`[Worker] 🌳 Dispatched stage flow for ${company_name}`, { company_id, run_id, correlation_id });
+
+        return {
+            success: true,
+            company_id,
+            reason_code: 'OK_STAGES_DISPATCHED',
+        };
+    } catch (error) {
+        return handleStageFailure(job, error, 'enrichment', RETRY_ATTEMPTS, startTime);
+    }
+}
+
+/**
+ * 🔍 Discovery stage: validate the provided website or launch discovery waves.
+ */
+async function processDiscoveryJob(job: Job<EnrichmentJobData>, token?: string): Promise<DiscoveryStageResult> {
+    const { company_name, city, company_id, run_id, correlation_id } = job.data;
+    let { website } = job.data;
+    const startTime = Date.now();
+    const minValidWebsiteConfidence = config.discovery.thresholds.minValid;
+
+    if (await isRunCancelled(job, token)) {
+        return { company_id, reason_code: 'SKIPPED_RUN_CANCELLED' };
+    }
+    await deferIfOverSpendQuota(job, token);
+
+    Logger.info(`🔍 Discovery stage: ${company_name}`, {
+        company_id,
+        run_id,
+        correlation_id,
+        attempt: job.attemptsMade + 1,
+    });
+
+    try {
         const discoveryInput = {
             company_name,
             city,
@@ -124,15 +345,18 @@ async function processEnrichmentJob(job: Job<EnrichmentJobData>): Promise<JobRes
             website: website || undefined,
         };
 
-        // 1B) If missing (or rejected), launch discovery waves.
         let discoveryMethod: string | undefined;
         let discoveryConfidence: number | undefined;
         let discoveryReasonCode: string | undefined;
+        let discoveryCostEur: number | undefined;
+        let secondaryWebsites: SecondaryWebsite[] | undefined;
+        let socialProfiles: SocialProfileFields = {};
+        let financialFigures: FinancialFigure[] = [];
 
         // 1A) If a website is provided, we still verify it before trusting/storing it.
-        if (website && website.trim() !== '' && website !== 'null') {
+        if (!isBlankWebsite(website)) {
             Logger.info(`[Worker] 🔎 Pre-validating provided website for "${company_name}": ${website}`);
-            const verification = await discoveryService.verifyUrl(website, discoveryInput);
+            const verification = await discoveryService.verifyUrl(website!, discoveryInput);
             const confidence = verification?.confidence ?? 0;
             if (confidence >= minValidWebsiteConfidence) {
                 // Normalize to the final navigated root (scheme matters for http-only sites).
@@ -147,17 +371,23 @@ async function processEnrichmentJob(job: Job<EnrichmentJobData>): Promise<JobRes
             }
         }
 
-        if (!website || website.trim() === '' || website === 'null') {
+        // 1B) If missing (or rejected), launch discovery waves.
+        if (isBlankWebsite(website)) {
             Logger.info(`[Worker] 🔍 Website missing for "${company_name}". Launching Discovery Waves...`);
-            const configuredMode = config.discovery.defaultMode as DiscoveryMode;
-            const discoveryResult = await discoveryService.discover(discoveryInput, configuredMode);
+            const configuredMode = resolveDiscoveryMode(job.data.discovery_mode);
+            const discoveryResult = await discoveryService.discover(discoveryInput, configuredMode, { limitEur: job.data.discovery_budget_eur });
+            await persistDiscoveryTrace(company_id, run_id, discoveryResult);
+            discoveryCostEur = discoveryResult.cost_eur;
 
             discoveryMethod = discoveryResult.method;
             discoveryConfidence = discoveryResult.confidence;
             discoveryReasonCode = discoveryResult.reason_code || discoveryReasonCode;
+            socialProfiles = socialProfileFields(discoveryResult.social_profiles);
+            financialFigures = identityFinancialFigures(discoveryResult.details?.identity);
 
             if (discoveryResult.url && discoveryResult.status === 'FOUND_VALID') {
                 website = discoveryResult.url;
+                secondaryWebsites = discoveryResult.secondary_sites;
                 Logger.info(`[Worker] ✅ Discovery VALID: ${company_name} -> ${website} (${discoveryResult.confidence.toFixed(2)}) [${discoveryResult.reason_code}]`);
             } else if (discoveryResult.url) {
                 Logger.warn(
@@ -168,7 +398,92 @@ async function processEnrichmentJob(job: Job<EnrichmentJobData>): Promise<JobRes
             }
         }
 
-        // STEP 2: FINANCIAL ENRICHMENT
+        const stageResult: DiscoveryStageResult = {
+            company_id,
+            website: isBlankWebsite(website) ? undefined : website,
+            discovery_method: discoveryMethod,
+            discovery_confidence: discoveryConfidence,
+            reason_code: discoveryReasonCode,
+            discovery_cost_eur: discoveryCostEur,
+            secondary_websites: secondaryWebsites,
+            ...socialProfiles,
+            financial_figures: financialFigures.length > 0 ? financialFigures : undefined,
+        };
+        await getResultStore().saveStageResult(company_id, 'discovery', stageResult, run_id);
+
+        Logger.info(`✅ Discovery stage done: ${company_name}`, {
+            company_id,
+            duration_ms: Date.now() - startTime,
+            website: stageResult.website,
+            cost_eur: discoveryCostEur,
+        });
+
+        return stageResult;
+    } catch (error) {
+        return handleStageFailure(job, error, 'discovery', STAGES.discovery.retryAttempts, startTime);
+    }
+}
+
+/**
+ * 📦 Resolve the discovery output for a financial job: flow child value first,
+ * then the persisted stage result (standalone re-runs).
+ */
+async function resolveDiscoveryStageResult(job: Job<EnrichmentJobData>): Promise<DiscoveryStageResult | undefined> {
+    const childValues = await job.getChildrenValues<DiscoveryStageResult>();
+    const fromFlow = Object.values(childValues).find((value) => value && value.company_id === job.data.company_id);
+    if (fromFlow) {
+        return fromFlow;
+    }
+    return getResultStore().getStageResult<DiscoveryStageResult>(job.data.company_id, 'discovery');
+}
+
+/**
+ * 🏷️ Per-field provenance for the enrichment history.
+ * The website is always recorded so a rejected site clears the current view.
+ */
+function buildProvenance(
+    financial: FinancialData,
+    discovery: DiscoveryStageResult | undefined,
+    runId?: string
+): EnrichmentProvenance {
+    const fields: EnrichmentProvenance['fields'] = {
+        website_validated: {
+            source: DataSource.WEBSITE,
+            confidence: discovery?.discovery_confidence,
+        },
+    };
+    for (const [field, source] of Object.entries(financial.fieldSources) as Array<[FinancialField, DataSource]>) {
+        fields[field] = { source, confidence: DataMerger.getTrustScore(source) / 100 };
+    }
+    return { run_id: runId, fields };
+}
+
+/**
+ * 💰 Financial stage: enrich financials and persist the final enrichment row.
+ */
+async function processFinancialJob(job: Job<EnrichmentJobData>, token?: string): Promise<JobResult> {
+    const { company_name, city, company_id, run_id, correlation_id } = job.data;
+    const startTime = Date.now();
+
+    if (await isRunCancelled(job, token)) {
+        return { success: false, company_id, reason_code: 'SKIPPED_RUN_CANCELLED' };
+    }
+    await deferIfOverSpendQuota(job, token);
+
+    Logger.info(`💰 Financial stage: ${company_name}`, {
+        company_id,
+        run_id,
+        correlation_id,
+        attempt: job.attemptsMade + 1,
+    });
+
+    try {
+        const discovery = await resolveDiscoveryStageResult(job);
+        if (!discovery) {
+            Logger.warn(`[Worker] ⚠️ No discovery stage result for ${company_name}; enriching without website`, { company_id });
+        }
+        const website = discovery?.website;
+
         const result = await financialService.enrich(
             {
                 company_name,
@@ -196,32 +511,40 @@ async function processEnrichmentJob(job: Job<EnrichmentJobData>): Promise<JobRes
             has_website: !!website
         });
 
-        insertEnrichmentResult({
+        await getResultStore().insertEnrichmentResult({
             id: `er-${company_id}`,
             company_id,
             vat: result.vat,
             revenue: result.revenue,
+            revenue_year: result.revenueYear,
             employees: result.employees,
             is_estimated_employees: result.isEstimatedEmployees,
             pec: result.pec,
             website_validated: website || undefined,
+            secondary_websites: website ? discovery?.secondary_websites : undefined,
+            facebook_url: discovery?.facebook_url,
+            instagram_url: discovery?.instagram_url,
+            linkedin_company_url: discovery?.linkedin_company_url,
             data_source: result.source || undefined,
-            discovery_method: discoveryMethod,
-            discovery_confidence: discoveryConfidence,
-            reason_code: discoveryReasonCode || 'NOT_FOUND_NO_CANDIDATES',
-        });
-        logJobResult(
+            discovery_method: discovery?.discovery_method,
+            discovery_confidence: discovery?.discovery_confidence,
+            reason_code: discovery?.reason_code || 'NOT_FOUND_NO_CANDIDATES',
+        }, buildProvenance(result, discovery, run_id));
+        const figures = mergeFinancialFigures(result.figures, discovery?.financial_figures ?? []);
+        if (figures.length > 0) {
+            await getResultStore().saveFinancialFigures(company_id, figures);
+        }
+        await getResultStore().logJobResult({
             company_id,
-            'SUCCESS',
-            duration,
-            job.attemptsMade + 1,
-            undefined,
-            undefined,
-            discoveryReasonCode || 'OK_ENRICHMENT_COMPLETED',
-            run_id
-        );
+            status: 'SUCCESS',
+            duration_ms: duration,
+            attempt: job.attemptsMade + 1,
+            reason_code: discovery?.reason_code || 'OK_ENRICHMENT_COMPLETED',
+            run_id,
+            stage: 'financial',
+        });
 
-        return {
+        const jobResult: JobResult = {
             success: true,
             company_id,
             vat: result.vat,
@@ -229,59 +552,58 @@ async function processEnrichmentJob(job: Job<EnrichmentJobData>): Promise<JobRes
             employees: result.employees,
             website_found: website ? 'Yes' : 'No',
             website_url: website || undefined,
-            reason_code: discoveryReasonCode,
-            discovery_method: discoveryMethod,
-            discovery_confidence: discoveryConfidence,
+            reason_code: discovery?.reason_code,
+            discovery_method: discovery?.discovery_method,
+            discovery_confidence: discovery?.discovery_confidence,
         };
-
+        await notifyWebhooks('company.enriched', async () => publishWebhookEvent(
+            'company.enriched',
+            await buildCompanyEnrichedData(jobResult, { company_name, run_id }),
+            job.data.tenant_id
+        ));
+        await settleRun(run_id);
+
+        return jobResult;
     } catch (error) {
-        const err = error as Error;
-        const duration = Date.now() - startTime;
-        const reasonCode = mapErrorToReasonCode(err);
+        return handleStageFailure(job, error, 'financial', STAGES.financial.retryAttempts, startTime);
+    }
+}
 
-        Logger.logError(`Failed: ${company_name}`, err, {
-            company_id,
-            company_name,
-            run_id,
-            correlation_id,
-            duration_ms: duration,
-            attempt: job.attemptsMade + 1,
-            max_attempts: RETRY_ATTEMPTS,
-        });
-        logJobResult(
-            company_id,
-            job.attemptsMade >= RETRY_ATTEMPTS - 1 ? 'FAILED' : 'RETRYING',
-            duration,
-            job.attemptsMade + 1,
-            err.message,
-            Logger.categorizeError(err),
-            reasonCode,
-            run_id
-        );
+/**
+ * Tag the company updates (and LLM spend, SERP cache entries) of a stage with its run, tenant and company.
+ */
+function withRunContext<R>(processor: (job: Job<EnrichmentJobData>, token?: string) => Promise<R>) {
+    return (job: Job<EnrichmentJobData>, token?: string): Promise<R> =>
+        withLiveContext({ run_id: job.data.run_id, tenant_id: job.data.tenant_id, company_id: job.data.company_id }, () => processor(job, token));
+}
+
+function attachWorkerListeners<R>(worker: Worker<EnrichmentJobData, R>, label: string): void {
+    worker.on('completed', (job, result) => {
+        Logger.info(`✅ ${label} job completed: ${job.id}`, { result });
+    });
 
-        // If this is the last attempt, move to dead letter queue
-        if (job.attemptsMade >= RETRY_ATTEMPTS - 1) {
-            await moveToDeadLetter(job).catch((dlqError: unknown) => {
-                Logger.error('Failed to move job to Dead Letter Queue', {
-                    company_name,
-                    job_id: job.id,
-                    error: dlqError as Error,
-                });
+    worker.on('failed', (job, err) => {
+        if (job) {
+            Logger.error(`❌ ${label} job failed: ${job.id}`, {
+                error: err,
+                company_name: job.data.company_name,
+                attempt: job.attemptsMade,
             });
         }
+    });
 
-        // Rethrow to trigger BullMQ retry
-        throw error;
-    }
+    worker.on('error', (err) => {
+        Logger.error(`${label} worker error`, { error: err });
+    });
 }
 
 /**
- * 🚀 Start the worker
+ * 🚀 Start the stage workers
  */
-function startWorker(): Worker<EnrichmentJobData, JobResult> {
-    const worker = new Worker<EnrichmentJobData, JobResult>(
+function startWorker(): EnrichmentWorkers {
+    const intake = new Worker<EnrichmentJobData, JobResult>(
         QUEUE_NAMES.ENRICHMENT,
-        processEnrichmentJob,
+        withRunContext(processEnrichmentJob),
         {
             connection: redisConnection,
             concurrency: CONCURRENCY_LIMIT,
@@ -292,32 +614,39 @@ function startWorker(): Worker<EnrichmentJobData, JobResult> {
         }
     );
 
-    worker.on('completed', (job, result) => {
-        Logger.info(`✅ Job completed: ${job.id}`, { result });
-    });
+    const discovery = new Worker<EnrichmentJobData, DiscoveryStageResult>(
+        QUEUE_NAMES.DISCOVERY,
+        withRunContext(processDiscoveryJob),
+        {
+            connection: redisConnection,
+            concurrency: STAGES.discovery.concurrency,
+        }
+    );
 
-    worker.on('failed', (job, err) => {
-        if (job) {
-            Logger.error(`❌ Job failed: ${job.id}`, {
-                error: err,
-                company_name: job.data.company_name,
-                attempt: job.attemptsMade,
-            });
+    const financial = new Worker<EnrichmentJobData, JobResult>(
+        QUEUE_NAMES.FINANCIAL,
+        withRunContext(processFinancialJob),
+        {
+            connection: redisConnection,
+            concurrency: STAGES.financial.concurrency,
         }
-    });
+    );
 
-    worker.on('error', (err) => {
-        Logger.error('Worker error', { error: err });
-    });
+    attachWorkerListeners(intake, 'Enrichment');
+    attachWorkerListeners(discovery, 'Discovery');
+    attachWorkerListeners(financial, 'Financial');
+    const webhooks = startWebhookWorker();
 
-    Logger.info(`👷 Worker started with concurrency: ${CONCURRENCY_LIMIT}`);
-    return worker;
+    Logger.info(
+        `👷 Workers started (intake: ${CONCURRENCY_LIMIT}, discovery: ${STAGES.discovery.concurrency}, financial: ${STAGES.financial.concurrency}, webhooks: ${config.webhooks.concurrency})`
+    );
+    return { intake, discovery, financial, webhooks };
 }
 
 /**
  * 🛑 Graceful Shutdown Handler (Task 6)
  */
-async function gracefulShutdown(worker: Worker, signal: string, exitCode: number = 0): Promise<void> {
+async function gracefulShutdown(workers: EnrichmentWorkers, signal: string, exitCode: number = 0): Promise<void> {
     if (isShuttingDown) return;
     isShuttingDown = true;
 
@@ -325,8 +654,8 @@ async function gracefulShutdown(worker: Worker, signal: string, exitCode: number
 
     try {
         // Stop accepting new jobs
-        await worker.close();
-        Logger.info('👷 Worker stopped accepting new jobs');
+        await Promise.all([workers.intake.close(), workers.discovery.close(), workers.financial.close(), workers.webhooks.close()]);
+        Logger.info('👷 Workers stopped accepting new jobs');
 
         // Close browser factory
         await BrowserFactory.getInstance().close();
@@ -336,6 +665,9 @@ async function gracefulShutdown(worker: Worker, signal: string, exitCode: number
         await redisConnection.quit();
         Logger.info('🗄️ Redis connection closed');
 
+        // Release the result store (drains the Postgres pool)
+        await closeResultStore();
+
         Logger.info('✅ Graceful shutdown complete');
         process.exit(exitCode);
     } catch (error) {
@@ -344,17 +676,17 @@ async function gracefulShutdown(worker: Worker, signal: string, exitCode: number
     }
 }
 
-function registerProcessHandlers(worker: Worker): void {
+function registerProcessHandlers(workers: EnrichmentWorkers): void {
     if (processHandlersRegistered) {
         return;
     }
     processHandlersRegistered = true;
 
     process.once('SIGTERM', () => {
-        void gracefulShutdown(worker, 'SIGTERM', 0);
+        void gracefulShutdown(workers, 'SIGTERM', 0);
     });
     process.once('SIGINT', () => {
-        void gracefulShutdown(worker, 'SIGINT', 0);
+        void gracefulShutdown(workers, 'SIGINT', 0);
     });
 
     process.on('unhandledRejection', (reason: unknown) => {
@@ -365,23 +697,27 @@ function registerProcessHandlers(worker: Worker): void {
 
     process.on('uncaughtException', (error: Error) => {
         Logger.fatal('Uncaught Exception', { error });
-        void gracefulShutdown(worker, 'UNCAUGHT_EXCEPTION', 1);
+        void gracefulShutdown(workers, 'UNCAUGHT_EXCEPTION', 1);
     });
 }
 
 // 🚀 Main Entry Point
-export async function runWorker(): Promise<Worker<EnrichmentJobData, JobResult>> {
+export async function runWorker(): Promise<EnrichmentWorkers> {
     Logger.info('🚀 WORKER: Starting enrichment processor');
     Logger.info(`🤖 LLM model configured: ${config.llm.model}`);
-    initializeDatabase();
+    await initializeResultStore();
+    if (config.live.enabled) {
+        AntigravityClient.getInstance().addSink(createRedisEventSink(redisConnection));
+    }
+    trackTenantSpend();
 
-    const worker = startWorker();
+    const workers = startWorker();
 
     // Register shutdown and crash handlers
-    registerProcessHandlers(worker);
+    registerProcessHandlers(workers);
 
     Logger.info('👷 Worker is running. Press Ctrl+C to stop.');
-    return worker;
+    return workers;
 }
 
 // Export for programmatic use
@@ -1,8 +1,12 @@
 import { SerpDeduplicator } from './SerpDeduplicator';
 import { NormalizedInput } from './InputNormalizer';
+import { FinancialPatterns } from '../enricher/core/financial/patterns';
+import { FinancialValue, parseFinancialValue } from '../enricher/core/financial/value_parser';
 
 export interface FinancialData {
     fatturato_current?: number;
+    /** Range + currency behind fatturato_current (its point estimate) */
+    fatturato_value?: FinancialValue;
     fatturato_previous?: number;
     utile_netto?: number;
     year?: number;
@@ -31,25 +35,29 @@ export class BilancioHunter {
         // source_url is populated.
 
         // We can do a rudimentary regex check on the snippet if Google gave us a snippet with numbers
-        let fatturato: number | undefined;
         let anno: number | undefined;
 
         const snippet = bestResult.snippet.toLowerCase();
 
-        // Very basic heuristic for snippets like "Fatturato 2023: € 1.500.000"
-        const fattMatch = snippet.match(/fatturato.*?(?:[€]\s*|eur\s*)?(\d{1,3}(?:[.,]\d{3})*(?:[.,]\d{2})?)/);
-        if (fattMatch) {
-            fatturato = parseFloat(fattMatch[1].replace(/\./g, '').replace(/,/g, '.'));
-        }
-
         const annoMatch = snippet.match(/(?:al\s+|bilancio\s+)?(20[1-2][0-9])/);
         if (annoMatch) {
             anno = parseInt(annoMatch[1], 10);
         }
 
+        // Snippets like "Fatturato 2023: € 1.500.000", "fatturato tra 2 e 5 milioni"
+        let fatturato: FinancialValue | undefined;
+        for (const pattern of FinancialPatterns.REVENUE) {
+            const fattMatch = snippet.match(pattern);
+            if (fattMatch) {
+                fatturato = parseFinancialValue(fattMatch[0], { year: anno });
+                break;
+            }
+        }
+
         return {
-            fatturato_current: fatturato,
-            year: anno,
+            fatturato_current: fatturato?.estimate,
+            fatturato_value: fatturato,
+            year: fatturato?.year ?? anno,
             source_url: bestResult.url
         };
     }
@@ -15,8 +15,11 @@ export interface LedgerEntry {
     success: boolean;
     error?: string;
     company_id?: string;
+    tenant_id?: string;
 }
 
+export type LedgerListener = (entry: LedgerEntry) => void;
+
 export interface HealthSnapshot {
     window_seconds: number;
     total_calls: number;
@@ -41,14 +44,23 @@ export class CostLedger {
     private logFilePath: string;
     private pendingWrites: LedgerEntry[] = [];
     private writeInterval: NodeJS.Timeout;
+    private listeners = new Set<LedgerListener>();
 
-    constructor(logDirectory: string = process.cwd()) {
+    /**
+     * @param tenantId Tenant the ledger works for: stamped on entries that name none, so their
+     * cost counts against the tenant's daily spend quota (see trackLedgerSpend).
+     */
+    constructor(logDirectory: string = process.cwd(), private readonly tenantId?: string) {
         this.logFilePath = path.join(logDirectory, 'cost_ledger.jsonl');
         // Batch flush every 5 seconds
         this.writeInterval = setInterval(() => this.flush(), 5000);
     }
 
     public async log(entry: LedgerEntry): Promise<void> {
+        if (this.tenantId && !entry.tenant_id) {
+            entry = { ...entry, tenant_id: this.tenantId };
+        }
+
         // Add to ring buffer
         this.ringBuffer.push(entry);
         if (this.ringBuffer.length > this.MAX_BUFFER_SIZE) {
@@ -60,6 +72,22 @@ export class CostLedger {
         if (this.pendingWrites.length >= 50) {
             this.flush();
         }
+
+        for (const listener of this.listeners) {
+            try {
+                listener(entry);
+            } catch (err) {
+                console.error('[CostLedger] Listener failed', err);
+            }
+        }
+    }
+
+    /** Observe every logged entry (e.g. per-tenant spend). Returns the unsubscribe function. */
+    public onEntry(listener: LedgerListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
     }
 
     private flush() {
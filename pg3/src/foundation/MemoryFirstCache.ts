@@ -252,6 +252,10 @@ export class MemoryFirstCache {
         }
     }
 
+    public async close(): Promise<void> {
+        await this.redis.quit().catch(() => this.redis.disconnect());
+    }
+
     public getStats(): CacheStats {
         const l1Rate = this.totalLookups > 0 ? this.l1Hits / this.totalLookups : 0;
         const l2Rate = this.totalLookups > 0 ? this.l2Hits / this.totalLookups : 0;
@@ -3,7 +3,6 @@ import * as path from 'path';
 require('dotenv').config();
 import { parse } from 'csv-parse/sync';
 import axios from 'axios';
-import * as cheerio from 'cheerio';
 import { OpenAI } from 'openai';
 import { MasterPipeline } from './MasterPipeline';
 import { InputNormalizer } from './InputNormalizer';
@@ -18,10 +17,32 @@ import { LinkedInSniper } from './LinkedInSniper';
 import { BrowserPool } from './BrowserPool';
 import { MemoryFirstCache } from './MemoryFirstCache';
 import { CostLedger } from './CostLedger';
-import { CostRouter } from './CostRouter';
+import { CostRouter, ProviderAdapter } from './CostRouter';
+import { getSerpProvider, searchSerp, serpQueryCostEur } from '../enricher/core/discovery/serp/registry';
+import { assertTenantCanStartWork, isSpendQuotaExhausted, trackLedgerSpend } from '../enricher/tenancy/quotas';
 import { EnrichmentBuffer } from './EnrichmentBuffer';
 import { QuerySanitizer } from './QuerySanitizer';
 
+/**
+ * CostRouter adapter over one provider of the SERP registry (parsing, pacing and health
+ * live there; the router keeps its own tiering and ledger).
+ */
+function serpAdapter(providerName: string, tier: number): ProviderAdapter {
+    const provider = getSerpProvider(providerName)!;
+    return {
+        costPerRequest: serpQueryCostEur(provider),
+        tier,
+        execute: async <T>(payload: any): Promise<T> => {
+            const query = typeof payload === 'string' ? payload : payload.query;
+            const outcome = await searchSerp(query, { providers: [providerName], failoverOnEmpty: false });
+            if (!outcome.provider) {
+                throw new Error(outcome.attempts[0]?.error ?? `${providerName} unavailable`);
+            }
+            return outcome.results as unknown as T;
+        }
+    };
+}
+
 async function healthCheck(cache: MemoryFirstCache, registry: ShadowRegistry, pool: BrowserPool) {
     console.log('[RunnerV6] Running Startup Health Diagnostics...');
     const redisOk = await cache.ping();
@@ -84,80 +105,30 @@ async function startupGate(): Promise<{ mode: 'FULL' | 'FREE_ONLY' | 'ABORT', av
 async function run() {
     const csvPath = process.argv[2];
     if (!csvPath || !fs.existsSync(csvPath)) {
-        console.error('Usage: ts-node RunnerV6.ts <path-to-csv>');
+        console.error('Usage: ts-node RunnerV6.ts <path-to-csv> [--tenant=ID]');
         process.exit(1);
     }
+    // Tenant billed for the run: its ledger spend counts against its daily spend quota
+    const tenantId = process.argv.slice(3).find((arg) => arg.startsWith('--tenant='))?.slice('--tenant='.length) || undefined;
+    if (tenantId) {
+        await assertTenantCanStartWork(tenantId);
+    }
 
     const gateCheck = await startupGate();
 
     // Dependencies
-    const ledger = new CostLedger();
+    const ledger = new CostLedger(process.cwd(), tenantId);
+    const stopLedgerSpend = trackLedgerSpend(ledger);
     const cache = new MemoryFirstCache({ l1MaxMemoryMB: 50 });
     const valve = new BackpressureValve({ ledger });
     const pool = new BrowserPool({ ledger });
     const registry = new ShadowRegistry('omega_shadow.sqlite'); // Dummy path
 
     const router = new CostRouter(cache, ledger, new Map([
-        ['BING-HTML-1', {
-            costPerRequest: 0,
-            tier: 0,
-            execute: async <T>(payload: any): Promise<T> => {
-                const query = typeof payload === 'string' ? payload : payload.query;
-                const res = await axios.get(`https://www.bing.com/search?q=${encodeURIComponent(query)}&setlang=it`, {
-                    headers: { 'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0.0.0' }, timeout: 8000
-                });
-                const $ = cheerio.load(res.data);
-                const results: any[] = [];
-                $('li.b_algo').each((_: any, el: any) => {
-                    const url = $(el).find('a').attr('href');
-                    const title = $(el).find('h2').text();
-                    const snippet = $(el).find('.b_caption p').text();
-                    if (url) results.push({ url, title, snippet });
-                });
-                return results as unknown as T;
-            }
-        } as any],
-        ['DDG-LITE-1', {
-            costPerRequest: 0,
-            tier: 1,
-            execute: async <T>(payload: any): Promise<T> => {
-                const query = typeof payload === 'string' ? payload : payload.query;
-                const res = await axios.post('https://lite.duckduckgo.com/lite/', `q=${encodeURIComponent(query)}&kl=it-it`, {
-                    headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'User-Agent': 'Mozilla/5.0' }, timeout: 8000
-                });
-                const $ = cheerio.load(res.data);
-                const results: any[] = [];
-                $('a.result-url').each((_: any, el: any) => {
-                    const url = $(el).attr('href');
-                    if (url) results.push({ url, title: url, snippet: '' });
-                });
-                return results as unknown as T;
-            }
-        } as any],
-        ['SERPER-1', {
-            costPerRequest: 0.001,
-            tier: 2,
-            execute: async <T>(payload: any): Promise<T> => {
-                const query = typeof payload === 'string' ? payload : payload.query;
-                const apiKey = process.env.SERPER_API_KEY || '';
-                const res = await axios.post('https://google.serper.dev/search', { q: query, gl: 'it', hl: 'it' }, {
-                    headers: { 'X-API-KEY': apiKey, 'Content-Type': 'application/json' }
-                });
-                return (res.data.organic || []).map((r: any) => ({ url: r.link, title: r.title, snippet: r.snippet })) as unknown as T;
-            }
-        } as any],
-        ['JINA-1', {
-            costPerRequest: 0.002,
-            tier: 2,
-            execute: async <T>(payload: any): Promise<T> => {
-                const url = typeof payload === 'string' ? payload : payload.url;
-                const apiKey = process.env.JINA_API_KEY || '';
-                const res = await axios.get(`https://r.jina.ai/${encodeURIComponent(url)}`, {
-                    headers: { 'Authorization': `Bearer ${apiKey}`, 'Accept': 'application/json' }
-                });
-                return res.data as unknown as T;
-            }
-        } as any],
+        ['BING-HTML-1', serpAdapter('bing', 0)],
+        ['DDG-LITE-1', serpAdapter('ddg', 1)],
+        ['SERPER-1', serpAdapter('serper', 2)],
+        ['JINA-1', serpAdapter('jina', 2)],
         ['OPENAI-1', {
             costPerRequest: 0.005,
             tier: 3,
@@ -292,6 +263,10 @@ async function run() {
     const results: any[] = [];
 
     for (let i = 0; i < records.length; i += BATCH_SIZE) {
+        if (await isSpendQuotaExhausted(tenantId)) {
+            console.warn(`[RunnerV6] 📏 Daily spend quota of tenant ${tenantId} reached: stopping after ${done}/${records.length} companies.`);
+            break;
+        }
         const batch = records.slice(i, i + BATCH_SIZE);
         const batchPromises = batch.map((row: any, batchIdx: number) => {
             const idx = i + batchIdx;
@@ -356,6 +331,7 @@ async function run() {
 
     // Cleanup
     valve.cleanup();
+    stopLedgerSpend();
     ledger.cleanup();
     router.cleanup();
     await pool.destroyAll();
@@ -8,7 +8,7 @@ export interface CleanSearchResult {
     title: string;
     snippet: string;
     url: string;
-    source: 'jina' | 'ddg' | 'bing';
+    source: 'jina' | 'ddg' | 'bing' | 'serper';
     normalized_url: string;
     domain: string;
 }
@@ -61,7 +61,7 @@ export class SerpDeduplicator {
 
         for (const query of variants) {
             try {
-                // CostRouter automatically waterfalls through healthy SERP providers (Jina -> DDG -> Bing)
+                // CostRouter automatically waterfalls through healthy SERP providers (Bing -> DDG -> Serper)
                 const routeResult = await this.costRouter.route<any[]>('SERP', query, {
                     maxTier: options?.maxTier,
                     companyId
@@ -1,12 +1,69 @@
 import { Logger } from './enricher/utils/logger';
+import type { DiscoveryTrace } from './enricher/core/discovery/discovery_trace';
+import type { BenchmarkSummary } from './enricher/benchmark/accuracy';
+import type { BenchmarkRunRecord } from './enricher/db/model';
 
-const VALID_COMMANDS = new Set(['worker', 'scheduler', 'server']);
+const VALID_COMMANDS = new Set(['worker', 'scrape-worker', 'scheduler', 'server', 'rerun-stage', 'dlq', 'run', 'migrate', 'tenant', 'webhook', 'ranker', 'reconcile-domains', 'reverify-websites', 'serp-cache', 'verification-replay', 'labels', 'benchmark']);
+const VALID_STAGES = new Set(['discovery', 'financial']);
+const VALID_DLQ_ACTIONS = new Set(['list', 'requeue', 'purge']);
+const VALID_RUN_ACTIONS = new Set(['list', 'show', 'pause', 'resume', 'cancel']);
+const VALID_TENANT_ACTIONS = new Set(['create', 'list', 'quota', 'key', 'revoke', 'usage']);
+const VALID_WEBHOOK_ACTIONS = new Set(['add', 'list', 'remove', 'deliveries']);
+const VALID_SERP_CACHE_ACTIONS = new Set(['stats', 'invalidate']);
+const VALID_REPLAY_ACTIONS = new Set(['list', 'run']);
+const VALID_LABEL_ACTIONS = new Set(['import', 'set', 'remove', 'list']);
+const VALID_BENCHMARK_ACTIONS = new Set(['run', 'list', 'show', 'compare']);
 
 function printUsage(): void {
   Logger.info('Usage:');
   Logger.info('  node dist/src/index.js worker');
-  Logger.info('  node dist/src/index.js scheduler <path/to/file.csv>');
+  Logger.info('  node dist/src/index.js scrape-worker');
+  Logger.info('  node dist/src/index.js scheduler <path/to/file.csv> [--budget-eur=EUR]');
   Logger.info('  node dist/src/index.js server');
+  Logger.info('  node dist/src/index.js rerun-stage <discovery|financial> <company_id> [company_id...]');
+  Logger.info('  node dist/src/index.js dlq <list|requeue|purge> [--reason=CODE] [--category=CAT] [--stage=STAGE] [--run=RUN_ID] [--limit=N] [--mode=NUCLEAR_RUN4] [--all=true]');
+  Logger.info('  node dist/src/index.js run <list|show|pause|resume|cancel> [run_id]');
+  Logger.info('  node dist/src/index.js migrate <status|up> [--to=VERSION]');
+  Logger.info('  node dist/src/index.js tenant <create|quota> <tenant_id> [--name=NAME] [--companies=N|none] [--spend=USD|none]');
+  Logger.info('  node dist/src/index.js tenant <list|key|usage> [tenant_id] [--label=LABEL]');
+  Logger.info('  node dist/src/index.js tenant revoke <key_id>');
+  Logger.info('  node dist/src/index.js webhook add <url> --events=company.enriched,run.finished,dlq.entry [--tenant=ID] [--secret=SECRET] [--allow-private=true]');
+  Logger.info('  node dist/src/index.js webhook <list|remove|deliveries> [subscription_id] [--tenant=ID] [--limit=N]');
+  Logger.info('  node dist/src/index.js ranker train [--since=YYYY-MM-DD] [--limit=N] [--out=PATH]');
+  Logger.info('  node dist/src/index.js reconcile-domains [--tenant=ID] [--force=true]');
+  Logger.info('  node dist/src/index.js reverify-websites [--older-than-days=N] [--tenant=ID] [--limit=N] [--rediscover=true]');
+  Logger.info('  node dist/src/index.js serp-cache stats [--days=N]');
+  Logger.info('  node dist/src/index.js serp-cache invalidate [--company=ID] [--query=TEXT] [--provider=NAME] [--expired=true] [--all=true]');
+  Logger.info('  node dist/src/index.js verification-replay list [--dir=PATH] [--out=labels.jsonl]');
+  Logger.info('  node dist/src/index.js verification-replay run --labels=labels.jsonl [--dir=PATH] [--thresholds=0.6,0.7,0.8]');
+  Logger.info('  node dist/src/index.js labels import <dataset> <labels.csv>');
+  Logger.info('  node dist/src/index.js labels set <dataset> <label_id> --website=DOMAIN|none [--notes=TEXT]');
+  Logger.info('  node dist/src/index.js labels <list|remove> <dataset> [label_id]');
+  Logger.info('  node dist/src/index.js benchmark run <dataset> [--modes=FAST_RUN1,DEEP_RUN2] [--limit=N] [--concurrency=N]');
+  Logger.info('  node dist/src/index.js benchmark list [--dataset=NAME] [--limit=N]');
+  Logger.info('  node dist/src/index.js benchmark show <run_id>');
+  Logger.info('  node dist/src/index.js benchmark compare <run_id> <run_id>');
+}
+
+/**
+ * `--companies=100` -> 100, `--companies=none` -> null (unlimited), absent -> undefined (unchanged).
+ */
+function parseQuotaFlag(value: string | undefined): number | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return value === 'none' ? null : Number(value);
+}
+
+function parseFlags(args: string[]): Record<string, string> {
+  const flags: Record<string, string> = {};
+  for (const arg of args) {
+    const match = arg.match(/^--([^=]+)=(.*)$/);
+    if (match) {
+      flags[match[1]] = match[2];
+    }
+  }
+  return flags;
 }
 
 async function main(): Promise<void> {
@@ -25,6 +82,13 @@ async function main(): Promise<void> {
     return;
   }
 
+  if (command === 'scrape-worker') {
+    Logger.info('🚀 ANTIGRAVITY starting in SCRAPE WORKER mode');
+    const { runScrapeWorker } = await import('./enricher/scrape_worker');
+    await runScrapeWorker();
+    return;
+  }
+
   if (command === 'server') {
     Logger.info('🚀 ANTIGRAVITY starting in SERVER mode');
     const { startServer } = await import('./server');
@@ -32,6 +96,480 @@ async function main(): Promise<void> {
     return;
   }
 
+  if (command === 'rerun-stage') {
+    const stage = process.argv[3];
+    const companyIds = process.argv.slice(4);
+    if (!stage || !VALID_STAGES.has(stage) || companyIds.length === 0) {
+      Logger.error('rerun-stage requires a stage (discovery|financial) and at least one company id');
+      printUsage();
+      process.exit(1);
+    }
+
+    const { rerunStage } = await import('./enricher/scheduler');
+    const { closeResultStore } = await import('./enricher/db/result_store');
+    const summary = await rerunStage(stage as 'discovery' | 'financial', companyIds);
+    await closeResultStore();
+    Logger.info('Stage re-run summary', {
+      stage,
+      enqueued: summary.enqueued,
+      skipped: summary.skipped,
+      duration_ms: summary.durationMs,
+    });
+    return;
+  }
+
+  if (command === 'dlq') {
+    const action = process.argv[3];
+    if (!action || !VALID_DLQ_ACTIONS.has(action)) {
+      Logger.error(`Invalid dlq action: ${action || '(missing)'}`);
+      printUsage();
+      process.exit(1);
+    }
+
+    const flags = parseFlags(process.argv.slice(4));
+    const filter = {
+      reason_code: flags.reason,
+      error_category: flags.category,
+      failed_stage: flags.stage,
+      run_id: flags.run,
+      limit: flags.limit ? Number(flags.limit) : undefined,
+    };
+    if (action === 'purge' && !filter.reason_code && !filter.error_category && !filter.failed_stage && !filter.run_id && flags.all !== 'true') {
+      Logger.error('Invalid dlq purge: needs --reason, --category, --stage or --run, or --all=true');
+      printUsage();
+      process.exit(1);
+    }
+    const { listDeadLetters, requeueDeadLetters, purgeDeadLetters } = await import('./enricher/queue/dead_letter');
+    const { closeQueueResources } = await import('./enricher/queue');
+    const { closeResultStore } = await import('./enricher/db/result_store');
+
+    try {
+      if (action === 'list') {
+        const { total, groups } = await listDeadLetters(filter);
+        Logger.info(`💀 Dead letter queue: ${total} matching jobs`);
+        for (const group of groups) {
+          Logger.info(`  ${group.reason_code} / ${group.error_category}: ${group.count}`);
+        }
+      } else if (action === 'requeue') {
+        const result = await requeueDeadLetters(filter, { mode: flags.mode });
+        Logger.info('DLQ requeue summary', { requeued: result.requeued, mode: flags.mode });
+      } else {
+        const result = await purgeDeadLetters(filter, { all: flags.all === 'true' });
+        Logger.info('DLQ purge summary', { purged: result.purged });
+      }
+    } finally {
+      await closeQueueResources();
+      await closeResultStore();
+    }
+    return;
+  }
+
+  if (command === 'migrate') {
+    const action = process.argv[3];
+    if (action !== 'status' && action !== 'up') {
+      Logger.error(`Invalid migrate action: ${action || '(missing)'}`);
+      printUsage();
+      process.exit(1);
+    }
+
+    const { config } = await import('./enricher/config');
+    if (config.db.backend === 'postgres') {
+      // The Postgres store applies its own migration list whenever it is initialized.
+      const { closeResultStore, initializeResultStore } = await import('./enricher/db/result_store');
+      await initializeResultStore();
+      await closeResultStore();
+      Logger.info('🐘 Postgres schema is up to date');
+      return;
+    }
+
+    const { getDatabaseMigrationStatus, migrateDatabase } = await import('./enricher/db');
+    if (action === 'up') {
+      const flags = parseFlags(process.argv.slice(4));
+      const applied = migrateDatabase(flags.to ? Number(flags.to) : undefined);
+      Logger.info(`🧱 Applied ${applied.length} migration(s)`);
+    }
+
+    for (const migration of getDatabaseMigrationStatus()) {
+      const state = migration.applied ? `applied ${migration.applied_at}` : 'pending';
+      Logger.info(`  ${String(migration.version).padStart(3, '0')} ${migration.name} [${state}]`);
+    }
+    return;
+  }
+
+  if (command === 'run') {
+    const action = process.argv[3];
+    const runId = process.argv[4];
+    if (!action || !VALID_RUN_ACTIONS.has(action) || (action !== 'list' && !runId)) {
+      Logger.error(`Invalid run command: ${action || '(missing)'}`);
+      printUsage();
+      process.exit(1);
+    }
+
+    const runControl = await import('./enricher/queue/run_control');
+    const { closeQueueResources } = await import('./enricher/queue');
+    const { closeResultStore } = await import('./enricher/db/result_store');
+
+    try {
+      if (action === 'list') {
+        for (const run of await runControl.listRunRecords()) {
+          Logger.info(`  ${run.id} [${run.status}] enqueued=${run.enqueued} succeeded=${run.succeeded} failed=${run.failed}`);
+        }
+      } else if (action === 'show') {
+        Logger.info('Run', { run: await runControl.getRunOrThrow(runId) });
+      } else if (action === 'pause') {
+        await runControl.pauseRun(runId);
+      } else if (action === 'resume') {
+        const { promoted } = await runControl.resumeRun(runId);
+        Logger.info('Run resume summary', { run_id: runId, promoted });
+      } else {
+        const { removed } = await runControl.cancelRun(runId);
+        Logger.info('Run cancel summary', { run_id: runId, removed });
+      }
+    } finally {
+      await closeQueueResources();
+      await closeResultStore();
+    }
+    return;
+  }
+
+  if (command === 'tenant') {
+    const action = process.argv[3];
+    const target = process.argv[4];
+    if (!action || !VALID_TENANT_ACTIONS.has(action) || (action !== 'list' && !target)) {
+      Logger.error(`Invalid tenant command: ${action || '(missing)'}`);
+      printUsage();
+      process.exit(1);
+    }
+
+    const flags = parseFlags(process.argv.slice(5));
+    const quotas = {
+      daily_company_quota: parseQuotaFlag(flags.companies),
+      daily_spend_quota_usd: parseQuotaFlag(flags.spend),
+    };
+    const tenancy = await import('./enricher/tenancy/api_keys');
+    const { getTenantQuotaStatus } = await import('./enricher/tenancy/quotas');
+    const { closeResultStore, initializeResultStore } = await import('./enricher/db/result_store');
+
+    try {
+      if (action === 'create') {
+        Logger.info('Tenant created', { tenant: await tenancy.createTenant(target, flags.name || target, quotas) });
+      } else if (action === 'list') {
+        for (const tenant of await (await initializeResultStore()).listTenants()) {
+          Logger.info(`  ${tenant.id} (${tenant.name}) companies/day=${tenant.daily_company_quota ?? '∞'} spend/day=$${tenant.daily_spend_quota_usd ?? '∞'}`);
+        }
+      } else if (action === 'quota') {
+        Logger.info('Tenant quotas updated', { tenant: await tenancy.setTenantQuotas(target, quotas) });
+      } else if (action === 'key') {
+        const { key, record } = await tenancy.issueApiKey(target, flags.label);
+        Logger.info(`🔑 API key ${record.id} for ${target} (shown once, store it now): ${key}`);
+      } else if (action === 'revoke') {
+        await tenancy.revokeApiKey(target);
+      } else {
+        Logger.info('Tenant usage', { ...(await getTenantQuotaStatus(target)) });
+      }
+    } finally {
+      await closeResultStore();
+    }
+    return;
+  }
+
+  if (command === 'webhook') {
+    const action = process.argv[3];
+    const target = process.argv[4];
+    if (!action || !VALID_WEBHOOK_ACTIONS.has(action) || (action !== 'list' && !target)) {
+      Logger.error(`Invalid webhook command: ${action || '(missing)'}`);
+      printUsage();
+      process.exit(1);
+    }
+
+    const flags = parseFlags(process.argv.slice(5));
+    const webhooks = await import('./enricher/webhooks/subscriptions');
+    const { closeResultStore } = await import('./enricher/db/result_store');
+
+    try {
+      if (action === 'add') {
+        const subscription = await webhooks.createWebhookSubscription(
+          { url: target, events: flags.events, secret: flags.secret },
+          flags.tenant,
+          { allowPrivateTargets: flags['allow-private'] === 'true' }
+        );
+        Logger.info(`🪝 Webhook ${subscription.id} -> ${subscription.url} (signing secret, shown once: ${subscription.secret})`);
+      } else if (action === 'list') {
+        for (const subscription of await webhooks.listWebhookSubscriptions(flags.tenant)) {
+          Logger.info(`  ${subscription.id} ${subscription.active ? 'active' : 'disabled'} tenant=${subscription.tenant_id ?? '(operator)'} ${subscription.url} [${subscription.events.join(', ')}]`);
+        }
+      } else if (action === 'remove') {
+        await webhooks.removeWebhookSubscription(target);
+      } else {
+        const limit = flags.limit ? Number(flags.limit) : undefined;
+        for (const delivery of await webhooks.listWebhookDeliveries(target, undefined, limit)) {
+          Logger.info(`  ${delivery.id} ${delivery.event} ${delivery.status} attempts=${delivery.attempts} http=${delivery.response_status ?? '-'} ${delivery.error ?? ''}`);
+        }
+      }
+    } finally {
+      await closeResultStore();
+    }
+    return;
+  }
+
+  if (command === 'ranker') {
+    const action = process.argv[3];
+    if (action !== 'train') {
+      Logger.error(`Invalid ranker action: ${action || '(missing)'}`);
+      printUsage();
+      process.exit(1);
+    }
+
+    const flags = parseFlags(process.argv.slice(4));
+    const { config } = await import('./enricher/config');
+    const { saveCandidateRankingModel } = await import('./enricher/core/discovery/ranking/candidate_ranker');
+    const { extractTrainingSamples, trainCandidateRanker } = await import('./enricher/core/discovery/ranking/training');
+    const { closeResultStore, initializeResultStore } = await import('./enricher/db/result_store');
+
+    try {
+      const store = await initializeResultStore();
+      const records = await store.listRecentDiscoveryTraces<DiscoveryTrace>({
+        since: flags.since,
+        limit: flags.limit ? Number(flags.limit) : undefined,
+      });
+      const model = trainCandidateRanker(extractTrainingSamples(records.map((record) => record.trace)));
+      const outPath = flags.out || config.discovery.ranking.modelPath;
+      saveCandidateRankingModel(model, outPath);
+      Logger.info(`🎯 Candidate ranker trained on ${model.samples} candidates (${model.positives} verified) from ${records.length} discoveries -> ${outPath}`, {
+        ...model.metrics,
+      });
+    } finally {
+      await closeResultStore();
+    }
+    return;
+  }
+
+  if (command === 'reconcile-domains') {
+    const flags = parseFlags(process.argv.slice(3));
+    const { reconcileSharedDomains } = await import('./enricher/reconciliation/shared_domains');
+    const { closeResultStore } = await import('./enricher/db/result_store');
+
+    try {
+      const summary = await reconcileSharedDomains({ tenantId: flags.tenant, force: flags.force === 'true' });
+      Logger.info(`🔗 ${summary.shared_domains} shared domain(s) across ${summary.claims} websites (${summary.skipped} already settled)`);
+      for (const conflict of summary.conflicts) {
+        Logger.info(`  ${conflict.domain}: owner ${conflict.owner.company_id}, ambiguous ${conflict.ambiguous.map((claim) => claim.company_id).join(', ')}`);
+      }
+    } finally {
+      await closeResultStore();
+    }
+    return;
+  }
+
+  if (command === 'reverify-websites') {
+    const flags = parseFlags(process.argv.slice(3));
+    const { reverifyWebsites } = await import('./enricher/reconciliation/website_liveness');
+    const { rediscoverCompanies } = await import('./enricher/scheduler');
+    const { closeResultStore } = await import('./enricher/db/result_store');
+    const { MemoryFirstCache } = await import('./foundation/MemoryFirstCache');
+    const { CostLedger } = await import('./foundation/CostLedger');
+    const { PreVerifyGate } = await import('./foundation/PreVerifyGate');
+    const { isSpendQuotaExhausted, trackLedgerSpend } = await import('./enricher/tenancy/quotas');
+    if (await isSpendQuotaExhausted(flags.tenant)) {
+      Logger.error(`Daily spend quota of tenant ${flags.tenant} reached: website re-verification deferred to the next UTC day`);
+      await closeResultStore();
+      process.exit(1);
+    }
+    const cache = new MemoryFirstCache();
+    const ledger = new CostLedger(process.cwd(), flags.tenant);
+    const stopLedgerSpend = trackLedgerSpend(ledger);
+
+    try {
+      const summary = await reverifyWebsites({
+        olderThanDays: flags['older-than-days'] !== undefined ? Number(flags['older-than-days']) : undefined,
+        tenantId: flags.tenant,
+        limit: flags.limit ? Number(flags.limit) : undefined,
+        gate: new PreVerifyGate(cache, ledger),
+        rediscover: flags.rediscover === 'true'
+          ? async (companyIds) => (await rediscoverCompanies(companyIds)).enqueued
+          : undefined,
+      });
+      Logger.info(`🩺 ${summary.checked} websites re-verified: ${summary.alive} alive, ${summary.moved} moved, ${summary.decayed} decayed, ${summary.inconclusive} inconclusive (${summary.rediscovered} re-queued for discovery)`);
+      for (const check of summary.transitions) {
+        Logger.info(`  ${check.company_id}: ${check.website} ${check.status} -> ${check.current ?? '(none)'}`);
+      }
+    } finally {
+      stopLedgerSpend();
+      ledger.cleanup();
+      await cache.close();
+      await closeResultStore();
+    }
+    return;
+  }
+
+  if (command === 'serp-cache') {
+    const action = process.argv[3];
+    const flags = parseFlags(process.argv.slice(4));
+    const filter = {
+      companyId: flags.company,
+      queryPattern: flags.query,
+      provider: flags.provider,
+      expiredBefore: flags.expired === 'true' ? new Date().toISOString() : undefined,
+    };
+    const hasFilter = Object.values(filter).some((value) => value !== undefined);
+    if (!action || !VALID_SERP_CACHE_ACTIONS.has(action) || (action === 'invalidate' && !hasFilter && flags.all !== 'true')) {
+      Logger.error(`Invalid serp-cache command: ${action || '(missing)'} (invalidate needs a filter or --all=true)`);
+      printUsage();
+      process.exit(1);
+    }
+
+    const serpCache = await import('./enricher/core/discovery/serp/cache');
+    const { closeResultStore } = await import('./enricher/db/result_store');
+
+    try {
+      if (action === 'stats') {
+        const stats = await serpCache.getSerpCacheStats(flags.days ? Number(flags.days) : undefined);
+        Logger.info(`🔎 SERP cache since ${stats.since}: ${(stats.hit_rate * 100).toFixed(1)}% hit rate (${stats.hits} hits, ${stats.misses} misses), ${stats.entries} entries, €${stats.saved_eur.toFixed(2)} saved`);
+        for (const provider of stats.providers) {
+          Logger.info(`  ${provider.provider}: ${(provider.hit_rate * 100).toFixed(1)}% (${provider.hits}/${provider.hits + provider.misses}) entries=${provider.entries} saved=€${provider.saved_eur.toFixed(2)}`);
+        }
+      } else {
+        Logger.info(`🧹 ${await serpCache.invalidateSerpCache(filter)} SERP cache entries invalidated`);
+      }
+    } finally {
+      await closeResultStore();
+    }
+    return;
+  }
+
+  if (command === 'verification-replay') {
+    const action = process.argv[3];
+    const flags = parseFlags(process.argv.slice(4));
+    if (!action || !VALID_REPLAY_ACTIONS.has(action) || (action === 'run' && !flags.labels)) {
+      Logger.error(`Invalid verification-replay command: ${action || '(missing)'} (run needs --labels=PATH)`);
+      printUsage();
+      process.exit(1);
+    }
+
+    const fs = await import('fs');
+    const { config } = await import('./enricher/config');
+    const { listVerificationSnapshots } = await import('./enricher/core/verification/snapshot_store');
+    const { parseSnapshotLabels, replayVerification } = await import('./enricher/core/verification/replay');
+    const dir = flags.dir || config.discovery.snapshots.dir;
+
+    if (action === 'list') {
+      const snapshots = listVerificationSnapshots(dir);
+      for (const snapshot of snapshots) {
+        Logger.info(`  ${snapshot.id} ${snapshot.company.company_name}: ${snapshot.final_url} (${snapshot.via}, live ${snapshot.live.confidence.toFixed(2)} ${snapshot.live.reason_code ?? ''})`);
+      }
+      if (flags.out) {
+        fs.writeFileSync(flags.out, snapshots.map((snapshot) => `${JSON.stringify({ snapshot: snapshot.id, match: null, company: snapshot.company.company_name, url: snapshot.final_url })}\n`).join(''));
+      }
+      Logger.info(`🗄️ ${snapshots.length} verification snapshots in ${dir}${flags.out ? ` (label template -> ${flags.out})` : ''}`);
+      return;
+    }
+
+    const report = replayVerification(parseSnapshotLabels(fs.readFileSync(flags.labels, 'utf-8')), {
+      dir,
+      thresholds: flags.thresholds ? flags.thresholds.split(',').map(Number) : undefined,
+    });
+    Logger.info(`🔁 ${report.replayed} labeled snapshots replayed offline${report.missing.length > 0 ? `, ${report.missing.length} missing from ${dir}` : ''}`);
+    for (const metrics of report.thresholds) {
+      Logger.info(`  >= ${metrics.threshold.toFixed(2)}: precision ${(metrics.precision * 100).toFixed(1)}% recall ${(metrics.recall * 100).toFixed(1)}% (tp=${metrics.true_positives} fp=${metrics.false_positives} fn=${metrics.false_negatives} tn=${metrics.true_negatives})`);
+    }
+    return;
+  }
+
+  if (command === 'labels') {
+    const [action, dataset, target] = process.argv.slice(3);
+    const flags = parseFlags(process.argv.slice(4));
+    const needsTarget = action === 'import' || action === 'set' || action === 'remove';
+    if (!action || !VALID_LABEL_ACTIONS.has(action) || !dataset || dataset.startsWith('--') || (needsTarget && (!target || target.startsWith('--'))) || (action === 'set' && !flags.website)) {
+      Logger.error(`Invalid labels command: ${action || '(missing)'} (set needs --website=DOMAIN|none)`);
+      printUsage();
+      process.exit(1);
+    }
+
+    const groundTruth = await import('./enricher/benchmark/ground_truth');
+    const { closeResultStore } = await import('./enricher/db/result_store');
+
+    try {
+      if (action === 'import') {
+        const summary = await groundTruth.importGroundTruthLabels(dataset, target);
+        Logger.info(`🎯 ${summary.imported} labels imported into ${dataset} (${summary.unlabeled} rows without expected_website skipped)`);
+        if (summary.invalid.length > 0) {
+          Logger.warn(`  ${summary.invalid.length} invalid rows skipped, lines ${summary.invalid.join(', ')}`);
+        }
+      } else if (action === 'set') {
+        const label = await groundTruth.updateGroundTruthLabel(dataset, target, { expectedWebsite: flags.website, notes: flags.notes });
+        Logger.info(`🎯 ${label.label_id} ${label.company.company_name}: ${label.expected_domain ?? '(no website)'}`);
+      } else if (action === 'remove') {
+        await groundTruth.removeGroundTruthLabel(dataset, target);
+        Logger.info(`🎯 Label ${target} removed from ${dataset}`);
+      } else {
+        const labels = await groundTruth.listGroundTruthLabels(dataset);
+        for (const label of labels) {
+          Logger.info(`  ${label.label_id} ${label.company.company_name}${label.company.city ? ` (${label.company.city})` : ''}: ${label.expected_domain ?? '(no website)'}${label.notes ? ` - ${label.notes}` : ''}`);
+        }
+        Logger.info(`🎯 ${labels.length} labels in ${dataset}`);
+      }
+    } finally {
+      await closeResultStore();
+    }
+    return;
+  }
+
+  if (command === 'benchmark') {
+    const [action, first, second] = process.argv.slice(3);
+    const flags = parseFlags(process.argv.slice(4));
+    const positional = [first, second].filter((arg) => arg !== undefined && !arg.startsWith('--'));
+    const required = action === 'compare' ? 2 : action === 'list' ? 0 : 1;
+    if (!action || !VALID_BENCHMARK_ACTIONS.has(action) || positional.length < required) {
+      Logger.error(`Invalid benchmark command: ${action || '(missing)'}`);
+      printUsage();
+      process.exit(1);
+    }
+
+    const benchmark = await import('./enricher/benchmark/accuracy');
+    const { closeResultStore } = await import('./enricher/db/result_store');
+    const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+    const describeRun = (run: BenchmarkRunRecord<BenchmarkSummary>) =>
+      `${run.id} ${run.dataset} ${run.mode} ${run.started_at}: accuracy ${percent(run.summary.accuracy)}, false positives ${percent(run.summary.false_positive_rate)}, ` +
+      `coverage ${percent(run.summary.coverage)}, €${run.summary.avg_cost_eur.toFixed(4)}/company, ${run.summary.avg_latency_ms}ms avg (p95 ${run.summary.p95_latency_ms}ms)`;
+
+    try {
+      if (action === 'run') {
+        const runs = await benchmark.runBenchmark({
+          dataset: first,
+          modes: flags.modes ? flags.modes.split(',') : undefined,
+          limit: flags.limit ? Number(flags.limit) : undefined,
+          concurrency: flags.concurrency ? Number(flags.concurrency) : undefined,
+        });
+        for (const run of runs) {
+          Logger.info(`🏁 ${describeRun(run)}`);
+        }
+      } else if (action === 'list') {
+        for (const run of await benchmark.listBenchmarkRuns(flags.dataset, flags.limit ? Number(flags.limit) : undefined)) {
+          Logger.info(`  ${describeRun(run)}`);
+        }
+      } else if (action === 'show') {
+        const { run, results } = await benchmark.getBenchmarkRun(first);
+        Logger.info(`🏁 ${describeRun(run)}`);
+        Logger.info(`  ${run.summary.companies} companies: ${run.summary.correct} correct, ${run.summary.wrong_websites} wrong websites, ${run.summary.missed} missed, ${run.summary.errors} errors, recall ${percent(run.summary.recall)}, €${run.summary.cost_eur.toFixed(2)} total`);
+        for (const [reason, counts] of Object.entries(run.summary.by_reason_code)) {
+          Logger.info(`  ${reason}: ${counts.correct}/${counts.companies} correct, ${counts.wrong_websites} wrong, ${counts.missed} missed, ${counts.errors} errors`);
+        }
+        for (const result of results.filter((entry) => entry.outcome === 'wrong_website' || entry.outcome === 'missed_website')) {
+          Logger.info(`  ${result.outcome} ${result.label_id}: expected ${result.expected_domain ?? '(no website)'}, got ${result.url ?? '(none)'} [${result.reason_code ?? '-'}]`);
+        }
+      } else {
+        const diff = await benchmark.compareBenchmarkRuns(first, second);
+        Logger.info(`🏁 ${first} -> ${second}: ${diff.fixed.length} fixed, ${diff.regressed.length} regressed, ${diff.changed.length} changed`);
+        Logger.info(`  fixed: ${diff.fixed.join(', ') || '-'}`);
+        Logger.info(`  regressed: ${diff.regressed.join(', ') || '-'}`);
+        Logger.info(`  changed: ${diff.changed.join(', ') || '-'}`);
+      }
+    } finally {
+      await closeResultStore();
+    }
+    return;
+  }
+
   const csvPath = process.argv[3];
   if (!csvPath) {
     Logger.error('Missing CSV path for scheduler mode');
@@ -40,10 +578,16 @@ async function main(): Promise<void> {
   }
 
   Logger.info('🚀 ANTIGRAVITY starting in SCHEDULER mode');
+  const flags = parseFlags(process.argv.slice(4));
+  const { parseDiscoveryBudgetEur } = await import('./enricher/core/discovery/discovery_budget');
+  const discoveryBudgetEur = parseDiscoveryBudgetEur(flags['budget-eur']);
   const { runScheduler } = await import('./enricher/scheduler');
-  const summary = await runScheduler(csvPath);
+  const { closeResultStore } = await import('./enricher/db/result_store');
+  const summary = await runScheduler(csvPath, { discoveryBudgetEur });
+  await closeResultStore();
 
   Logger.info('Scheduler summary', {
+    run_id: summary.runId,
     loaded: summary.loaded,
     enqueued: summary.enqueued,
     skipped: summary.skipped,
@@ -0,0 +1,312 @@
+/**
+ * 🗺️ CAMPAIGN SCRAPER
+ * PagineGialle + Google Maps scraping for a set of keywords x cities, one CSV per city.
+ * Used by the CLI runner (runner.ts) and by the scrape workers behind the job API.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createObjectCsvWriter } from 'csv-writer';
+import { BrowserFactory } from './core/browser/factory_v2';
+import { Page } from 'puppeteer';
+import { Deduplicator } from './utils/deduplicator';
+import { CompanyInput } from './types';
+import { GoogleMapsProvider } from './providers/maps';
+import { Logger } from './utils/logger';
+import { CookieConsent } from './core/browser/cookie_consent';
+
+// --- CONFIGURATION ---
+const MAX_PAGES_PG = 5;
+export const DEFAULT_OUTPUT_DIR = 'output/campaigns';
+
+// --- CLUSTERS ---
+export const TARGET_CLUSTERS: Record<string, string[]> = {
+    "Verona": ["Verona", "Villafranca di Verona", "San Giovanni Lupatoto", "Bussolengo", "San Bonifacio", "Legnago", "Peschiera del Garda"],
+    "Brescia": ["Brescia", "Desenzano del Garda", "Montichiari", "Lumezzane", "Palazzolo sull'Oglio", "Rovato", "Ghedi"],
+    "Vicenza": ["Vicenza", "Bassano del Grappa", "Schio", "Thiene", "Arzignano", "Montecchio Maggiore"],
+    "Padova": ["Padova", "Albignasego", "Selvazzano Dentro", "Vigonza", "Cittadella", "Abano Terme"],
+    "Mantova": ["Mantova", "Castiglione delle Stiviere", "Suzzara", "Viadana"],
+    // Treviso is often low volume on PG for niche queries; scan nearby municipalities to satisfy small fixed limits.
+    "Treviso": [
+        "Treviso",
+        "Villorba",
+        "Silea",
+        "Paese",
+        "Preganziol",
+        "Quinto di Treviso",
+        "Ponzano Veneto",
+        "Mogliano Veneto",
+        "Roncade",
+        "Carbonera",
+        "Casier",
+        "Spresiano",
+        "Arcade",
+        "San Biagio di Callalta",
+        "Ponte di Piave",
+        "Oderzo",
+        "Conegliano",
+        "Susegana",
+        "Pieve di Soligo",
+        "Vittorio Veneto",
+        "Nervesa della Battaglia",
+        "Giavera del Montello",
+        "Montebelluna",
+        "Valdobbiadene",
+        "Castelfranco Veneto"
+    ]
+};
+
+export interface CampaignOptions {
+    keywords: string[];
+    cities: string[];
+    limit?: number;
+    outputDir?: string;
+    /** File suffix, defaults to today's date: campaign_<city>_<tag>.csv */
+    fileTag?: string;
+    /** Checked before every location; returning true stops the campaign early */
+    shouldStop?: () => Promise<boolean>;
+}
+
+export interface CampaignOutput {
+    city: string;
+    path: string;
+    rows: number;
+}
+
+export interface CampaignResult {
+    companies: CompanyInput[];
+    outputs: CampaignOutput[];
+    stopped: boolean;
+}
+
+// Helpers
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** File-name safe form of a user supplied label ("Forlì / Cesena" -> "forli-cesena") */
+export function slugify(value: string): string {
+    return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'task';
+}
+
+/** CSV of one city: the city comes from the job API and never leaves the output directory */
+export function campaignFile(outputDir: string, city: string, fileTag: string): string {
+    return path.join(outputDir, `campaign_${slugify(city)}_${slugify(fileTag)}.csv`);
+}
+
+export async function runCampaign(options: CampaignOptions): Promise<CampaignResult> {
+    const outputDir = options.outputDir || DEFAULT_OUTPUT_DIR;
+    const companyLimit = options.limit && options.limit > 0 ? options.limit : Infinity;
+    const fileTag = options.fileTag || new Date().toISOString().split('T')[0];
+
+    // Ensure output dir exists
+    if (!fs.existsSync(outputDir)) fs.mkdirSync(outputDir, { recursive: true });
+
+    const browserFactory = BrowserFactory.getInstance();
+    const page = await browserFactory.newPage();
+
+    const result: CampaignResult = { companies: [], outputs: [], stopped: false };
+    let totalGlobalFound = 0;
+
+    try {
+        for (const city of options.cities) {
+            Logger.info(`\n🏙️  PROCESSING HUB: ${city}`);
+
+            const cityCompanies: CompanyInput[] = [];
+            const deduplicator = new Deduplicator();
+
+            // Setup CSV
+            const cityFile = campaignFile(outputDir, city, fileTag);
+            const csvWriter = createObjectCsvWriter({
+                path: cityFile,
+                header: [
+                    { id: 'company_name', title: 'company_name' },
+                    { id: 'city', title: 'city' },
+                    { id: 'province', title: 'province' },
+                    { id: 'zip_code', title: 'zip_code' },
+                    { id: 'region', title: 'region' },
+                    { id: 'address', title: 'address' },
+                    { id: 'phone', title: 'phone' },
+                    { id: 'website', title: 'website' },
+                    { id: 'category', title: 'category' },
+                    { id: 'source', title: 'source' },
+                    { id: 'vat_code', title: 'vat_code' },
+                    { id: 'pg_url', title: 'pg_url' }
+                ]
+            });
+
+            for (const keyword of options.keywords) {
+                Logger.info(`   🔎 Keyword: "${keyword}"`);
+
+                // 2. THE BARRIER CHECK (PagineGialle Total Results)
+                let useCluster = false;
+                const pgUrl = `https://www.paginegialle.it/ricerca/${encodeURIComponent(keyword)}/${encodeURIComponent(city)}`;
+
+                await page.goto(pgUrl, { waitUntil: 'domcontentloaded' });
+                await CookieConsent.handle(page); // 🍪 Smash cookies
+
+                // Parse Total Count
+                const countText = await page.evaluate(() => {
+                    const el = document.querySelector('.listing-res__numresults span') || document.querySelector('.search-ind__res');
+                    return el ? el.textContent : '0';
+                });
+                const totalResults = parseInt(countText?.replace(/\./g, '') || '0', 10);
+                Logger.info(`      📊 PG Total Results: ${totalResults}`);
+
+                if (totalResults > 200) {
+                    useCluster = true;
+                    Logger.info(`      🚀 HIGH VOLUME DETECTED (>200). ACTIVATING CLUSTER STRATEGY.`);
+                } else {
+                    Logger.info(`      📉 Low volume. Scanned only main city.`);
+                }
+
+                // Define Locations based on Cluster Decision
+                const cluster = TARGET_CLUSTERS[city];
+                const needMoreThanCity =
+                    companyLimit !== Infinity &&
+                    Number.isFinite(companyLimit) &&
+                    companyLimit > totalResults &&
+                    !!cluster;
+                const locations = (useCluster || needMoreThanCity) && cluster ? cluster : [city];
+
+                // 3. EXECUTE SEARCH
+                for (const loc of locations) {
+                    if (options.shouldStop && await options.shouldStop()) {
+                        Logger.info(`🛑 Campaign stopped before ${loc}`);
+                        result.stopped = true;
+                        break;
+                    }
+                    Logger.info(`      📍 Scanning Location: ${loc}`);
+
+                    // --- SOURCE A: PAGINE GIALLE ---
+                    totalGlobalFound = await scrapePG(page, keyword, loc, deduplicator, cityCompanies, totalGlobalFound, companyLimit);
+
+                    // Check limit after PG
+                    if (totalGlobalFound >= companyLimit) {
+                        Logger.info(`🛑 LIMIT REACHED after PG: ${totalGlobalFound} companies. Stopping.`);
+                        break;
+                    }
+
+                    // --- SOURCE B: GOOGLE MAPS (Deep Fill) ---
+                    // Only run maps if PG yield was low OR if we are in main city to ensure quality
+                    // Actually, let's run it always for maximum coverage but handle dedupe
+                    const mapsResults = await GoogleMapsProvider.fetchDeepResults(page, loc, keyword);
+
+                    for (const mRes of mapsResults) {
+                        if (totalGlobalFound >= companyLimit) break; // LIMIT CHECK
+
+                        const existing = deduplicator.checkDuplicate(mRes);
+                        if (existing) {
+                            // Smart Merge
+                            deduplicator.merge(existing, mRes);
+                            Logger.info(`      ✨ Merged Maps data for: ${existing.company_name}`);
+                        } else {
+                            deduplicator.add(mRes);
+                            cityCompanies.push(mRes);
+                            totalGlobalFound++;
+                        }
+                    }
+
+                    // Early exit if limit reached
+                    if (totalGlobalFound >= companyLimit) {
+                        Logger.info(`🛑 LIMIT REACHED: ${totalGlobalFound} companies. Stopping.`);
+                        break;
+                    }
+                }
+                if (result.stopped) break;
+            }
+
+            // Save City Batch
+            if (cityCompanies.length > 0) {
+                Logger.info(`\n💾 Saving ${cityCompanies.length} companies for ${city}...`);
+                await csvWriter.writeRecords(cityCompanies);
+                result.outputs.push({ city, path: cityFile, rows: cityCompanies.length });
+                result.companies.push(...cityCompanies);
+            }
+            if (result.stopped) break;
+        }
+    } finally {
+        await browserFactory.close();
+    }
+
+    return result;
+}
+
+async function scrapePG(
+    page: Page,
+    keyword: string,
+    location: string,
+    deduplicator: Deduplicator,
+    list: CompanyInput[],
+    currentCount: number,
+    limit: number
+): Promise<number> {
+    let count = currentCount;
+
+    try {
+        let pageNum = 1;
+        let hasNext = true;
+
+        while (hasNext && pageNum <= MAX_PAGES_PG && count < limit) {
+            const url = `https://www.paginegialle.it/ricerca/${encodeURIComponent(keyword)}/${encodeURIComponent(location)}/p-${pageNum}`;
+            await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 });
+
+            // Extract
+            const items = await page.evaluate((loc, key) => {
+                return Array.from(document.querySelectorAll('.search-itm')).map(item => {
+                    const name = item.querySelector('.search-itm__rag')?.textContent?.trim();
+                    const tel = item.querySelector('.search-itm__phone')?.textContent?.trim();
+                    const web = item.querySelector('.search-itm__url')?.getAttribute('href');
+                    const pgUrl = (item.querySelector('a.remove_blank_for_app') as HTMLAnchorElement | null)?.href;
+
+                    const adr = item.querySelector('.search-itm__adr') as HTMLElement | null;
+                    const addr = adr?.textContent?.replace(/\s+/g, ' ')?.trim();
+
+                    const region = (adr?.querySelector('div')?.textContent || '').trim() || undefined;
+                    const spans = adr ? Array.from(adr.querySelectorAll('span')).map(s => (s.textContent || '').trim()).filter(Boolean) : [];
+                    const street = spans[0] || '';
+                    const zip = spans[1] || undefined;
+                    const cityName = spans[2] || undefined;
+                    const provMatch = addr ? addr.match(/\(([A-Z]{2})\)/) : null;
+                    const province = provMatch && provMatch[1] ? provMatch[1] : undefined;
+
+                    if (!name) return null;
+                    return {
+                        company_name: name,
+                        city: cityName || loc,
+                        province,
+                        zip_code: zip,
+                        region,
+                        address: addr || (street ? street : undefined),
+                        phone: tel,
+                        website: web,
+                        category: key,
+                        source: 'PG',
+                        pg_url: pgUrl
+                    } as CompanyInput;
+                }).filter(x => x !== null);
+            }, location, keyword);
+
+            if (items.length === 0) break;
+
+            for (const item of items) {
+                if (!item) continue;
+                if (count >= limit) break; // 🛑 LIMIT CHECK
+
+                if (!deduplicator.checkDuplicate(item)) {
+                    deduplicator.add(item);
+                    list.push(item);
+                    count++;
+                }
+            }
+
+            // Next Page?
+            hasNext = !!(await page.$('.search-pagi__next'));
+            pageNum++;
+            await delay(1000);
+        }
+    } catch (e) {
+        Logger.error(`PG Scrape Error ${location}`, (e as Error).message);
+    }
+
+    return count;
+}
@@ -1,5 +1,5 @@
 
-import { SerperSearchProvider } from '../enricher/core/discovery/search_provider';
+import { searchSerp } from '../enricher/core/discovery/serp/registry';
 import { Logger } from '../enricher/utils/logger';
 
 async function test() {
@@ -8,12 +8,12 @@ async function test() {
     // Configura key manuale se non in .env
     process.env.SERPER_API_KEY = process.env.SERPER_API_KEY || 'e0feae3b0d8ba0ebcdc8a70874543e15bd6bf01a';
 
-    const provider = new SerperSearchProvider();
     const query = "site:it Trattoria da Mario Roma p.iva";
 
     try {
         console.log(`📡 Searching for: "${query}"...`);
-        const results = await provider.search(query);
+        const { results, attempts } = await searchSerp(query, { providers: ['serper'] });
+        if (attempts[0]?.error) throw new Error(attempts[0].error);
 
         console.log("---------------------------------------------------");
         console.log(`✅ Results found: ${results.length}`);
@@ -1,16 +1,110 @@
 import express from 'express';
+import fs from 'fs';
+import os from 'os';
 import path from 'path';
-import { spawn } from 'child_process';
 import { Logger } from './enricher/utils/logger';
+import { diffEnrichmentSnapshots, JobStatus } from './enricher/db/model';
+import { getResultStore, initializeResultStore } from './enricher/db/result_store';
+import { growthRates } from './enricher/core/financial/statement';
+import { config } from './enricher/config';
+import { getQueueCounts, redisConnection } from './enricher/queue';
+import { subscribeCompanyUpdates } from './enricher/observability/live_events';
+import { LiveProgressHub } from './enricher/observability/live_hub';
+import {
+    DeadLetterFilter,
+    listDeadLetters,
+    purgeDeadLetters,
+    requeueDeadLetters,
+} from './enricher/queue/dead_letter';
+import {
+    ACTIVE_JOB_STATUSES,
+    cancelJob,
+    createJob,
+    getJobDetails,
+    getJobOrThrow,
+    JobRequest,
+    listActiveJobProgress,
+    listJobRecords,
+} from './enricher/queue/jobs';
+import {
+    cancelRun,
+    getRunOrThrow,
+    listRunRecords,
+    pauseRun,
+    resumeRun,
+} from './enricher/queue/run_control';
+import { corsMiddleware, requestTenantId, requireApiKey } from './enricher/tenancy/http';
+import { getTenantQuotaStatus } from './enricher/tenancy/quotas';
+import {
+    createWebhookSubscription,
+    listWebhookDeliveries,
+    listWebhookSubscriptions,
+    removeWebhookSubscription,
+    toPublicSubscription,
+} from './enricher/webhooks/subscriptions';
+import { NotFoundError, QuotaExceededError, ValidationError } from './utils/errors';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
-// Track active jobs
-const activeJobs = new Map<string, { pid: number; startedAt: Date }>();
+function parseDeadLetterFilter(source: Record<string, unknown>): DeadLetterFilter {
+    const pick = (key: string) => (typeof source[key] === 'string' && source[key] !== '' ? source[key] as string : undefined);
+    const limit = source.limit !== undefined ? Number(source.limit) : undefined;
+    return {
+        reason_code: pick('reason_code'),
+        error_category: pick('error_category'),
+        failed_stage: pick('failed_stage'),
+        run_id: pick('run_id'),
+        limit: limit !== undefined && Number.isFinite(limit) ? limit : undefined,
+    };
+}
+
+/**
+ * Accepts the landing page payload ({ target: { niche_raw, location_raw } }) as well as
+ * plain { niches, locations } (comma separated strings or arrays).
+ */
+function parseJobRequest(body: Record<string, unknown>): JobRequest {
+    const target = (body.target || {}) as Record<string, unknown>;
+    const list = (value: unknown) => (Array.isArray(value) ? value.map(String) : typeof value === 'string' ? value : '');
+    return {
+        niches: list(body.niches ?? target.niche_raw),
+        locations: list(body.locations ?? target.location_raw),
+        limit: body.limit !== undefined && body.limit !== null && body.limit !== '' ? Number(body.limit) : undefined,
+        enrich: body.enrich === undefined ? undefined : body.enrich !== false && body.enrich !== 'false',
+        discovery_budget_eur: body.discovery_budget_eur as number | undefined,
+    };
+}
+
+function sendRunError(res: express.Response, error: unknown) {
+    if (error instanceof QuotaExceededError) {
+        return res.status(429).json({ success: false, message: error.message, resets_at: error.context?.resets_at });
+    }
+    if (error instanceof NotFoundError) {
+        return res.status(404).json({ success: false, message: error.message });
+    }
+    if (error instanceof ValidationError) {
+        return res.status(409).json({ success: false, message: error.message });
+    }
+    Logger.error('Run operation failed', { error: error as Error });
+    return res.status(500).json({ success: false, message: 'Internal Server Error' });
+}
 
 export async function startServer() {
+    await initializeResultStore();
+
+    // 📺 Live progress (SSE): company updates arrive from the workers over Redis pub/sub
+    const liveHub = new LiveProgressHub(
+        { getQueueCounts, listActiveJobs: () => listActiveJobProgress(), getJobDetails },
+        config.live
+    );
+    if (config.live.enabled) {
+        subscribeCompanyUpdates(redisConnection, (event) => liveHub.publish(event)).catch((error: Error) => {
+            Logger.warn('Live company updates unavailable (Redis subscribe failed)', { error });
+        });
+    }
+
     // Middleware
+    app.use(corsMiddleware);
     app.use(express.json());
 
     // Serve Static Landing Page
@@ -18,105 +112,354 @@ export async function startServer() {
     app.use(express.static(landingPath));
 
     // Health Check
-    app.get('/health', (req, res) => {
+    app.get('/health', async (req, res) => {
         res.json({
             status: 'ok',
             uptime: process.uptime(),
-            activeJobs: activeJobs.size
+            activeJobs: (await listJobRecords({ statuses: ACTIVE_JOB_STATUSES })).length
         });
     });
 
-    // API: Start Job - REAL INTEGRATION
-    app.post('/api/start-job', (req, res) => {
+    // API: every /api route needs an API key and only sees the caller's tenant
+    app.use('/api', requireApiKey);
+
+    /**
+     * Company of the caller's tenant (operator access sees every company); 404 otherwise.
+     */
+    const assertCompanyVisible = async (companyId: string, res: express.Response) => {
+        const tenantId = requestTenantId(res);
+        if (!tenantId) {
+            return;
+        }
+        const company = await getResultStore().getCompanyById(companyId);
+        if (!company || company.tenant_id !== tenantId) {
+            throw new NotFoundError(`Company not found: ${companyId}`);
+        }
+    };
+
+    app.get('/api/tenant', async (req, res) => {
+        const tenantId = requestTenantId(res);
+        if (!tenantId) {
+            return res.status(404).json({ success: false, message: 'API auth is disabled: no tenant' });
+        }
         try {
-            const { target } = req.body;
+            res.json(await getTenantQuotaStatus(tenantId));
+        } catch (error) {
+            sendRunError(res, error);
+        }
+    });
 
-            if (!target) {
-                return res.status(400).json({ success: false, message: 'Missing target configuration' });
+    // API: Jobs (niche x location scrape + enrichment through BullMQ)
+    const startJob = async (req: express.Request, res: express.Response) => {
+        try {
+            const { job, tasks } = await createJob(parseJobRequest((req.body || {}) as Record<string, unknown>), requestTenantId(res));
+            res.status(202).json({
+                success: true,
+                jobId: job.id,
+                job,
+                tasks,
+                message: `Job queued: ${tasks} scrape task(s) (${job.niches.join(', ')} x ${job.locations.join(', ')})`
+            });
+        } catch (error) {
+            if (error instanceof ValidationError) {
+                return res.status(400).json({ success: false, message: error.message });
+            }
+            if (error instanceof QuotaExceededError) {
+                return sendRunError(res, error);
             }
+            Logger.error('Failed to start job', { error: error as Error });
+            res.status(500).json({ success: false, message: 'Internal Server Error' });
+        }
+    };
 
-            const { niche_raw, location_raw } = target;
+    app.post('/api/jobs', startJob);
+    // Legacy alias used by older landing page builds
+    app.post('/api/start-job', startJob);
 
-            if (!niche_raw || !location_raw) {
-                return res.status(400).json({ success: false, message: 'Both niche and location are required' });
+    app.get('/api/jobs', async (req, res) => {
+        const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+        const statuses = typeof req.query.status === 'string' && req.query.status !== ''
+            ? req.query.status.split(',').map((status) => status.trim().toUpperCase() as JobStatus)
+            : undefined;
+        const jobs = await listJobRecords({
+            limit: limit !== undefined && Number.isFinite(limit) ? limit : undefined,
+            statuses,
+            tenantId: requestTenantId(res),
+        });
+        res.json({ jobs, count: jobs.length });
+    });
+
+    app.get('/api/jobs/:id', async (req, res) => {
+        try {
+            const logLimit = req.query.logs !== undefined ? Number(req.query.logs) : undefined;
+            await getJobOrThrow(req.params.id, requestTenantId(res));
+            res.json(await getJobDetails(req.params.id, logLimit !== undefined && Number.isFinite(logLimit) ? logLimit : undefined));
+        } catch (error) {
+            sendRunError(res, error);
+        }
+    });
+
+    app.get('/api/jobs/:id/artifacts/:artifactId', async (req, res) => {
+        try {
+            await getJobOrThrow(req.params.id, requestTenantId(res));
+            const { artifacts } = await getJobDetails(req.params.id, 0);
+            const artifact = artifacts.find((entry) => String(entry.id) === req.params.artifactId);
+            if (!artifact) {
+                return res.status(404).json({ success: false, message: `Artifact not found: ${req.params.artifactId}` });
             }
+            res.download(path.resolve(artifact.path));
+        } catch (error) {
+            sendRunError(res, error);
+        }
+    });
 
-            // Generate Job ID
-            const jobId = `JOB_${Date.now()}`;
+    app.delete('/api/jobs/:id', async (req, res) => {
+        try {
+            await getJobOrThrow(req.params.id, requestTenantId(res));
+            res.json({ success: true, ...(await cancelJob(req.params.id)) });
+        } catch (error) {
+            sendRunError(res, error);
+        }
+    });
 
-            // Build runner arguments
-            // Take first value from comma-separated list
-            const category = niche_raw.split(',')[0].trim();
-            const city = location_raw.split(',')[0].trim();
+    // API: Live progress stream (optionally scoped to one job)
+    app.get('/api/events', async (req, res) => {
+        const jobId = typeof req.query.job_id === 'string' && req.query.job_id !== '' ? req.query.job_id : undefined;
+        const tenantId = requestTenantId(res);
+        if (jobId) {
+            try {
+                await getJobOrThrow(jobId, tenantId);
+            } catch (error) {
+                return sendRunError(res, error);
+            }
+        }
 
-            Logger.info('🚀 Launching Scraper Job', {
-                jobId,
-                category,
-                city,
-                allNiches: niche_raw,
-                allLocations: location_raw
-            });
+        res.set({
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            Connection: 'keep-alive',
+        });
+        res.flushHeaders();
+        res.write(`retry: ${config.live.intervalMs}\n\n`);
 
-            // Spawn runner.ts as detached process
-            const runnerPath = path.join(process.cwd(), 'src/scraper/runner.ts');
-            const args = ['ts-node', runnerPath, `--category=${category}`, `--city=${city}`];
+        const removeClient = liveHub.addClient(res, { job_id: jobId, tenant_id: tenantId });
+        req.on('close', removeClient);
+    });
 
-            const job = spawn('npx', args, {
-                cwd: process.cwd(),
-                detached: true,
-                stdio: ['ignore', 'pipe', 'pipe'],
-                env: { ...process.env }
+    // API: Dead Letter Queue triage
+    app.get('/api/dlq', async (req, res) => {
+        try {
+            const result = await listDeadLetters({
+                ...parseDeadLetterFilter(req.query as Record<string, unknown>),
+                tenant_id: requestTenantId(res),
             });
+            res.json(result);
+        } catch (error) {
+            Logger.error('Failed to list dead letter jobs', { error: error as Error });
+            res.status(500).json({ success: false, message: 'Internal Server Error' });
+        }
+    });
 
-            // Track the job
-            if (job.pid) {
-                activeJobs.set(jobId, { pid: job.pid, startedAt: new Date() });
+    app.post('/api/dlq/requeue', async (req, res) => {
+        try {
+            const body = (req.body || {}) as Record<string, unknown>;
+            const mode = typeof body.mode === 'string' ? body.mode : undefined;
+            const result = await requeueDeadLetters({ ...parseDeadLetterFilter(body), tenant_id: requestTenantId(res) }, { mode });
+            res.json({ success: true, ...result });
+        } catch (error) {
+            if (error instanceof ValidationError) {
+                return res.status(400).json({ success: false, message: error.message });
             }
+            Logger.error('Failed to requeue dead letter jobs', { error: error as Error });
+            res.status(500).json({ success: false, message: 'Internal Server Error' });
+        }
+    });
 
-            // Log output for debugging
-            job.stdout?.on('data', (data) => {
-                Logger.info(`[${jobId}] ${data.toString().trim()}`);
-            });
+    app.post('/api/dlq/purge', async (req, res) => {
+        try {
+            const body = (req.body || {}) as Record<string, unknown>;
+            const result = await purgeDeadLetters(
+                { ...parseDeadLetterFilter(body), tenant_id: requestTenantId(res) },
+                { all: body.all === true }
+            );
+            res.json({ success: true, ...result });
+        } catch (error) {
+            if (error instanceof ValidationError) {
+                return res.status(400).json({ success: false, message: error.message });
+            }
+            Logger.error('Failed to purge dead letter jobs', { error: error as Error });
+            res.status(500).json({ success: false, message: 'Internal Server Error' });
+        }
+    });
 
-            job.stderr?.on('data', (data) => {
-                Logger.warn(`[${jobId}] ${data.toString().trim()}`);
-            });
+    // API: Webhook subscriptions (the secret is only returned on creation)
+    app.post('/api/webhooks', async (req, res) => {
+        try {
+            const subscription = await createWebhookSubscription((req.body || {}) as Record<string, unknown>, requestTenantId(res));
+            res.status(201).json({ success: true, subscription });
+        } catch (error) {
+            if (error instanceof ValidationError) {
+                return res.status(400).json({ success: false, message: error.message });
+            }
+            sendRunError(res, error);
+        }
+    });
 
-            job.on('close', (code) => {
-                Logger.info(`[${jobId}] Process exited with code ${code}`);
-                activeJobs.delete(jobId);
-            });
+    app.get('/api/webhooks', async (req, res) => {
+        try {
+            const subscriptions = await listWebhookSubscriptions(requestTenantId(res));
+            res.json({ subscriptions: subscriptions.map(toPublicSubscription) });
+        } catch (error) {
+            sendRunError(res, error);
+        }
+    });
 
-            job.on('error', (err) => {
-                Logger.error(`[${jobId}] Failed to start`, { error: err });
-                activeJobs.delete(jobId);
-            });
+    app.delete('/api/webhooks/:id', async (req, res) => {
+        try {
+            await removeWebhookSubscription(req.params.id, requestTenantId(res));
+            res.json({ success: true });
+        } catch (error) {
+            sendRunError(res, error);
+        }
+    });
 
-            // Detach from parent so it runs independently
-            job.unref();
+    app.get('/api/webhooks/:id/deliveries', async (req, res) => {
+        const limit = req.query.limit ? Number(req.query.limit) : undefined;
+        try {
+            const deliveries = await listWebhookDeliveries(
+                req.params.id,
+                requestTenantId(res),
+                limit !== undefined && Number.isFinite(limit) ? limit : undefined
+            );
+            res.json({ deliveries });
+        } catch (error) {
+            sendRunError(res, error);
+        }
+    });
 
-            res.json({
-                success: true,
-                jobId,
-                message: `Scraper launched: ${category} → ${city}`,
-                pid: job.pid
-            });
+    // API: Enrichment history & provenance
+    app.get('/api/companies/:id/enrichment', async (req, res) => {
+        try {
+            await assertCompanyVisible(req.params.id, res);
+        } catch (error) {
+            return sendRunError(res, error);
+        }
+        const store = getResultStore();
+        const history = await store.getEnrichmentHistory(req.params.id);
+        if (history.length === 0) {
+            return res.status(404).json({ success: false, message: `No enrichment history for ${req.params.id}` });
+        }
+        res.json({ current: await store.getEnrichmentSnapshot(req.params.id), history });
+    });
 
+    app.get('/api/companies/:id/enrichment/diff', async (req, res) => {
+        const { from, to } = req.query;
+        if (typeof from !== 'string' || typeof to !== 'string' || !from || !to) {
+            return res.status(400).json({ success: false, message: 'Both from and to run ids are required' });
+        }
+        try {
+            await assertCompanyVisible(req.params.id, res);
         } catch (error) {
-            Logger.error('Failed to start job', { error: error as Error });
-            res.status(500).json({ success: false, message: 'Internal Server Error' });
+            return sendRunError(res, error);
         }
+        const store = getResultStore();
+        const changes = diffEnrichmentSnapshots(
+            await store.getEnrichmentSnapshot(req.params.id, from),
+            await store.getEnrichmentSnapshot(req.params.id, to)
+        );
+        res.json({ company_id: req.params.id, from, to, changes });
     });
 
-    // API: Get Job Status
-    app.get('/api/jobs', (req, res) => {
-        const jobs = Array.from(activeJobs.entries()).map(([id, info]) => ({
-            jobId: id,
-            pid: info.pid,
-            startedAt: info.startedAt,
-            runningFor: `${Math.round((Date.now() - info.startedAt.getTime()) / 1000)}s`
-        }));
-        res.json({ jobs, count: jobs.length });
+    // API: Discovery decision trace (latest, or the one of ?run_id=)
+    app.get('/api/companies/:id/discovery-trace', async (req, res) => {
+        const runId = typeof req.query.run_id === 'string' && req.query.run_id !== '' ? req.query.run_id : undefined;
+        try {
+            await assertCompanyVisible(req.params.id, res);
+        } catch (error) {
+            return sendRunError(res, error);
+        }
+        const [trace] = await getResultStore().listDiscoveryTraces(req.params.id, { runId, limit: 1 });
+        if (!trace) {
+            return res.status(404).json({ success: false, message: `No discovery trace for ${req.params.id}${runId ? ` in run ${runId}` : ''}` });
+        }
+        res.json(trace);
+    });
+
+    // API: Financial figures per fiscal year with year-over-year growth
+    app.get('/api/companies/:id/financials', async (req, res) => {
+        try {
+            await assertCompanyVisible(req.params.id, res);
+        } catch (error) {
+            return sendRunError(res, error);
+        }
+        const figures = await getResultStore().listFinancialFigures(req.params.id);
+        if (figures.length === 0) {
+            return res.status(404).json({ success: false, message: `No financial figures for ${req.params.id}` });
+        }
+        res.json({
+            company_id: req.params.id,
+            figures,
+            growth: { revenue: growthRates(figures, 'revenue'), employees: growthRates(figures, 'employees') },
+        });
+    });
+
+    // API: Runs (campaigns)
+    app.get('/api/runs', async (req, res) => {
+        const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+        res.json({ runs: await listRunRecords(limit !== undefined && Number.isFinite(limit) ? limit : undefined, requestTenantId(res)) });
+    });
+
+    app.get('/api/runs/:id', async (req, res) => {
+        try {
+            res.json({ run: await getRunOrThrow(req.params.id, requestTenantId(res)) });
+        } catch (error) {
+            sendRunError(res, error);
+        }
+    });
+
+    app.post('/api/runs/:id/pause', async (req, res) => {
+        try {
+            await getRunOrThrow(req.params.id, requestTenantId(res));
+            res.json({ success: true, run: await pauseRun(req.params.id) });
+        } catch (error) {
+            sendRunError(res, error);
+        }
+    });
+
+    app.post('/api/runs/:id/resume', async (req, res) => {
+        try {
+            await getRunOrThrow(req.params.id, requestTenantId(res));
+            res.json({ success: true, ...(await resumeRun(req.params.id)) });
+        } catch (error) {
+            sendRunError(res, error);
+        }
+    });
+
+    app.post('/api/runs/:id/cancel', async (req, res) => {
+        try {
+            await getRunOrThrow(req.params.id, requestTenantId(res));
+            res.json({ success: true, ...(await cancelRun(req.params.id)) });
+        } catch (error) {
+            sendRunError(res, error);
+        }
+    });
+
+    // API: CSV export of the caller's enriched companies
+    app.get('/api/export', async (req, res) => {
+        const tenantId = requestTenantId(res);
+        const exportPath = path.join(os.tmpdir(), `export-${tenantId || 'all'}-${Date.now()}.csv`);
+        try {
+            await getResultStore().exportEnrichedToCSV(exportPath, tenantId);
+            if (!fs.existsSync(exportPath)) {
+                return res.status(404).json({ success: false, message: 'No enriched companies to export' });
+            }
+            res.download(exportPath, 'enriched.csv', () => {
+                fs.unlink(exportPath, () => undefined);
+            });
+        } catch (error) {
+            Logger.error('Failed to export enriched companies', { error: error as Error });
+            res.status(500).json({ success: false, message: 'Internal Server Error' });
+        }
     });
 
     // Start Listener
@@ -40,3 +40,27 @@ export class ValidationError extends AntigravityError {
         super(message, 'VALIDATION_ERROR', { fatal: false });
     }
 }
+
+export class NotFoundError extends AntigravityError {
+    constructor(message: string) {
+        super(message, 'NOT_FOUND', { fatal: false });
+    }
+}
+
+export class AuthenticationError extends AntigravityError {
+    constructor(message: string = 'Missing or invalid API key') {
+        super(message, 'AUTHENTICATION_ERROR', { fatal: false });
+    }
+}
+
+export class QuotaExceededError extends AntigravityError {
+    constructor(message: string, context?: Record<string, any>) {
+        super(message, 'QUOTA_EXCEEDED', { fatal: false, ...context });
+    }
+}
+
+export class TimeoutError extends AntigravityError {
+    constructor(message: string, context?: Record<string, any>) {
+        super(message, 'TIMEOUT', { fatal: false, ...context });
+    }
+}
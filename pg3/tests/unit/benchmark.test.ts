@@ -0,0 +1,159 @@
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+    process.env.SQLITE_PATH = ':memory:';
+});
+
+import { initializeDatabase } from '../../src/enricher/db';
+import { initializeResultStore, setResultStore } from '../../src/enricher/db/result_store';
+import {
+    importGroundTruthLabels,
+    listGroundTruthLabels,
+    parseExpectedWebsite,
+    removeGroundTruthLabel,
+    updateGroundTruthLabel,
+} from '../../src/enricher/benchmark/ground_truth';
+import {
+    BenchmarkDiscover,
+    classifyOutcome,
+    compareBenchmarkRuns,
+    getBenchmarkRun,
+    listBenchmarkRuns,
+    runBenchmark,
+} from '../../src/enricher/benchmark/accuracy';
+import type { DiscoveryResult } from '../../src/enricher/core/discovery/unified_discovery_service';
+
+const LABELS_CSV = path.join(__dirname, '../fixtures/ground-truth-labels.csv');
+
+function found(url: string, reason_code: string, cost_eur: number): DiscoveryResult {
+    return { url, status: 'FOUND_VALID', method: 'fixture', confidence: 0.9, wave: 'fixture', reason_code, details: {}, cost_eur };
+}
+
+function notFound(reason_code: string, cost_eur: number): DiscoveryResult {
+    return { url: null, status: 'NOT_FOUND', method: 'fixture', confidence: 0, wave: 'fixture', reason_code, details: {}, cost_eur };
+}
+
+const ANSWERS: Record<string, Record<string, () => DiscoveryResult>> = {
+    FAST_RUN1: {
+        'Forno Bianchi Snc': () => found('https://shop.fornobianchi.it/', 'OK_CONFIRMED_VAT_MATCH', 0.01),
+        'Panificio Rossi': () => notFound('REJECTED_NO_MATCHING_SIGNALS', 0.02),
+        'Macelleria Verdi': () => found('https://www.verdi-carni.it/', 'OK_CONFIRMED_PHONE_MATCH', 0),
+    },
+    DEEP_RUN2: {
+        'Forno Bianchi Snc': () => found('https://www.fornobianchi.it/', 'OK_CONFIRMED_VAT_MATCH', 0.01),
+        'Panificio Rossi': () => found('https://panificiorossi.it', 'OK_CONFIRMED_VAT_MATCH', 0.05),
+        'Macelleria Verdi': () => {
+            throw new Error('browser crashed');
+        },
+    },
+};
+
+async function fixtureDiscover(mode: string): Promise<BenchmarkDiscover> {
+    return async (company) => ANSWERS[mode][company.company_name]();
+}
+
+function fixtureClock(): () => number {
+    let now = Date.parse('2026-10-01T10:00:00Z');
+    return () => (now += 100);
+}
+
+describe('Discovery accuracy benchmark', () => {
+    initializeDatabase();
+    beforeAll(async () => {
+        await initializeResultStore();
+    });
+    afterAll(() => setResultStore(null));
+
+    it('imports labeled rows and skips unlabeled or invalid ones', async () => {
+        expect(await importGroundTruthLabels('veneto', LABELS_CSV)).toEqual({ imported: 3, unlabeled: 1, invalid: [6, 7] });
+
+        const labels = await listGroundTruthLabels('veneto');
+        expect(labels.map((label) => [label.label_id, label.expected_domain])).toEqual([
+            ['c-bianchi', 'fornobianchi.it'],
+            ['c-verdi', null],
+            ['gt-rossi', 'panificiorossi.it'],
+        ]);
+        expect(labels[0].company).toEqual({ company_name: 'Forno Bianchi Snc', city: 'Vicenza', phone: '0444 123456', vat_code: '01234560248' });
+        expect(labels[1].notes).toBe('only a facebook page');
+        await expect(importGroundTruthLabels('veneto', 'missing.csv')).rejects.toThrow('not found');
+    });
+
+    it('edits and removes labels', async () => {
+        expect(parseExpectedWebsite(' NONE ')).toBeNull();
+        expect(parseExpectedWebsite('HTTPS://WWW.Example.it/contatti')).toBe('example.it');
+        expect(() => parseExpectedWebsite('localhost')).toThrow('Invalid expected website');
+
+        const updated = await updateGroundTruthLabel('veneto', 'c-verdi', { expectedWebsite: 'www.macelleriaverdi.it' });
+        expect(updated).toMatchObject({ expected_domain: 'macelleriaverdi.it', notes: 'only a facebook page' });
+        await updateGroundTruthLabel('veneto', 'c-verdi', { expectedWebsite: 'none', notes: 'checked by hand' });
+        expect((await listGroundTruthLabels('veneto'))[1]).toMatchObject({ expected_domain: null, notes: 'checked by hand' });
+
+        await expect(updateGroundTruthLabel('veneto', 'c-unknown', { expectedWebsite: 'none' })).rejects.toThrow('not found');
+        await importGroundTruthLabels('scratch', LABELS_CSV);
+        await removeGroundTruthLabel('scratch', 'gt-rossi');
+        expect((await listGroundTruthLabels('scratch')).map((label) => label.label_id)).toEqual(['c-bianchi', 'c-verdi']);
+        await expect(removeGroundTruthLabel('scratch', 'gt-rossi')).rejects.toThrow('not found');
+    });
+
+    it('classifies discovery results against the label', () => {
+        expect(classifyOutcome('fornobianchi.it', { url: 'https://www.fornobianchi.it/', status: 'FOUND_VALID' })).toBe('correct_website');
+        expect(classifyOutcome('fornobianchi.it', { url: 'https://shop.fornobianchi.it/', status: 'FOUND_VALID' })).toBe('correct_website');
+        expect(classifyOutcome('fornobianchi.it', { url: 'https://notfornobianchi.it/', status: 'FOUND_VALID' })).toBe('wrong_website');
+        expect(classifyOutcome('fornobianchi.it', { url: 'https://www.fornobianchi.it/', status: 'FOUND_INVALID' })).toBe('missed_website');
+        expect(classifyOutcome(null, { url: 'https://www.fornobianchi.it/', status: 'FOUND_VALID' })).toBe('wrong_website');
+        expect(classifyOutcome(null, { url: null, status: 'NOT_FOUND' })).toBe('correct_no_website');
+        expect(classifyOutcome(null, { url: null, status: 'ERROR' })).toBe('error');
+    });
+
+    it('benchmarks each mode and stores the runs', async () => {
+        const [fast, deep] = await runBenchmark({
+            dataset: 'veneto',
+            modes: ['FAST_RUN1', 'DEEP_RUN2'],
+            concurrency: 1,
+            discover: fixtureDiscover,
+            now: fixtureClock(),
+        });
+
+        expect(fast.summary).toMatchObject({
+            companies: 3,
+            correct: 1,
+            wrong_websites: 1,
+            missed: 1,
+            errors: 0,
+            accuracy: 0.3333,
+            false_positive_rate: 0.5,
+            coverage: 0.6667,
+            recall: 0.5,
+            cost_eur: 0.03,
+            avg_cost_eur: 0.01,
+            avg_latency_ms: 100,
+            p95_latency_ms: 100,
+        });
+        expect(fast.summary.by_reason_code).toEqual({
+            OK_CONFIRMED_VAT_MATCH: { companies: 1, correct: 1, wrong_websites: 0, missed: 0, errors: 0 },
+            OK_CONFIRMED_PHONE_MATCH: { companies: 1, correct: 0, wrong_websites: 1, missed: 0, errors: 0 },
+            REJECTED_NO_MATCHING_SIGNALS: { companies: 1, correct: 0, wrong_websites: 0, missed: 1, errors: 0 },
+        });
+        expect(deep.summary).toMatchObject({ correct: 2, errors: 1, accuracy: 0.6667, false_positive_rate: 0, recall: 1 });
+        expect(deep.summary.by_reason_code.ERROR_BENCHMARK_EXCEPTION).toMatchObject({ errors: 1 });
+
+        expect((await listBenchmarkRuns('veneto')).map((run) => run.mode)).toEqual(['DEEP_RUN2', 'FAST_RUN1']);
+        const stored = await getBenchmarkRun(fast.id);
+        expect(stored.run).toEqual(fast);
+        expect(stored.results.find((result) => result.label_id === 'c-verdi')).toMatchObject({
+            expected_domain: null,
+            url: 'https://www.verdi-carni.it/',
+            outcome: 'wrong_website',
+        });
+
+        expect(await compareBenchmarkRuns(fast.id, deep.id)).toEqual({ fixed: ['gt-rossi'], regressed: [], changed: ['c-verdi'] });
+        expect(await compareBenchmarkRuns(deep.id, fast.id)).toEqual({ fixed: [], regressed: ['gt-rossi'], changed: ['c-verdi'] });
+    });
+
+    it('rejects unknown modes, empty datasets and unknown runs', async () => {
+        await expect(runBenchmark({ dataset: 'veneto', modes: ['WARP_RUN9'], discover: fixtureDiscover })).rejects.toThrow('Unknown discovery mode: WARP_RUN9');
+        await expect(runBenchmark({ dataset: 'lombardia', discover: fixtureDiscover })).rejects.toThrow('No labels in dataset lombardia');
+        await expect(getBenchmarkRun('missing')).rejects.toThrow('Benchmark run not found');
+    });
+});
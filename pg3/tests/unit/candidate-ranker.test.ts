@@ -0,0 +1,146 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+    process.env.SQLITE_PATH = ':memory:';
+});
+
+import type { DiscoveryTrace, LayerTrace } from '../../src/enricher/core/discovery/discovery_trace';
+import type { DiscoveryCandidate } from '../../src/enricher/core/discovery/layers/layer_types';
+import {
+    extractCandidateFeatures,
+    loadCandidateRankingModel,
+    rankCandidates,
+    saveCandidateRankingModel,
+} from '../../src/enricher/core/discovery/ranking/candidate_ranker';
+import { extractTrainingSamples, LabeledCandidate, trainCandidateRanker } from '../../src/enricher/core/discovery/ranking/training';
+import { initializeDatabase, insertCompany, listRecentDiscoveryTraces, saveDiscoveryTrace } from '../../src/enricher/db';
+import { ConfigurationError, ValidationError } from '../../src/utils/errors';
+
+function candidate(url: string, source: string, confidence: number, extra: Partial<DiscoveryCandidate> = {}): DiscoveryCandidate {
+    return { url, source, confidence, ...extra };
+}
+
+function layerTrace(candidates: DiscoveryCandidate[], verified: Record<string, number | null>, reasonCodes: Record<string, string> = {}): LayerTrace {
+    return {
+        layer: 'swarm',
+        settings: { threshold: 0.7, maxCandidates: 15, timeoutMs: 0 },
+        started_at: '2026-03-01T10:00:00.000Z',
+        duration_ms: 10,
+        status: 'FOUND_VALID',
+        candidates,
+        verifications: Object.entries(verified).map(([url, confidence]) => ({ url, confidence, reason_code: reasonCodes[url], duration_ms: 1 })),
+        llm_calls: 0,
+        cost_usd: 0,
+    };
+}
+
+/**
+ * Synthetic history: VAT search hits verify, bing results on directory-like domains never do.
+ */
+function syntheticSamples(): LabeledCandidate[] {
+    const samples: LabeledCandidate[] = [];
+    for (let i = 0; i < 15; i++) {
+        const name = `Officina Rossi ${i}`;
+        samples.push({ company_name: name, candidate: candidate(`https://officinarossi${i}.it`, 'google_vat', 0.92, { rank: 1, query_type: 'vat' }), verified: true });
+        samples.push({ company_name: name, candidate: candidate(`https://elenco-aziende${i}.com/rossi`, 'bing_diy', 0.65, { rank: 4, query_type: 'name_city' }), verified: false });
+        samples.push({ company_name: name, candidate: candidate(`https://guida${i}.net`, 'hyper_guesser', 0.7), verified: i % 5 === 0 });
+    }
+    return samples;
+}
+
+describe('Candidate ranker', () => {
+    initializeDatabase();
+
+    it('extracts one-hot and numeric features', () => {
+        const features = extractCandidateFeatures(candidate('https://www.rossimeccanica.it/chi-siamo', 'search_vat_anchor', 0.76, { rank: 2, query_type: 'vat_anchor' }), 'Rossi Meccanica Srl');
+        expect(features).toEqual({
+            'source:search_vat_anchor': 1,
+            'tld:it': 1,
+            'query:vat_anchor': 1,
+            domain_coverage: 1,
+            raw_confidence: 0.76,
+            serp_rank_inverse: 0.5,
+        });
+        expect(extractCandidateFeatures(candidate('https://rossi.xyz', 'bing_diy', 0.65), 'Rossi')).toMatchObject({ 'tld:other': 1, serp_rank_inverse: 0 });
+    });
+
+    it('ranks by source confidence and domain coverage without a model', () => {
+        const ranked = rankCandidates([
+            candidate('https://paginebianche.it/rossi', 'bing_diy', 0.65),
+            candidate('https://rossimeccanica.it', 'hyper_guesser', 0.7),
+            candidate('https://altro.it', 'jina_search', 0.78),
+        ], 'Rossi Meccanica', { model: null });
+        expect(ranked.map((entry) => entry.url)).toEqual(['https://rossimeccanica.it', 'https://altro.it', 'https://paginebianche.it/rossi']);
+        expect(ranked[0].score).toBeCloseTo(0.95);
+    });
+
+    it('learns from verified and rejected candidates and verifies fewer, better ones', () => {
+        const model = trainCandidateRanker(syntheticSamples(), { now: new Date('2026-03-01T00:00:00.000Z') });
+        expect(model).toMatchObject({ version: 1, trained_at: '2026-03-01T00:00:00.000Z', samples: 45, positives: 18 });
+        expect(model.weights['source:google_vat']).toBeGreaterThan(model.weights['source:bing_diy']);
+        expect(model.metrics!.accuracy).toBeGreaterThan(0.8);
+        expect(trainCandidateRanker(syntheticSamples(), { now: new Date('2026-03-01T00:00:00.000Z') })).toEqual(model);
+
+        const ranked = rankCandidates([
+            candidate('https://elenco-aziende.com/bianchi', 'bing_diy', 0.65, { rank: 1, query_type: 'name_city' }),
+            candidate('https://bianchi.it', 'google_vat', 0.92, { rank: 3, query_type: 'vat' }),
+        ], 'Bianchi Srl', { model, minScore: 0.3 });
+        expect(ranked.map((entry) => entry.url)).toEqual(['https://bianchi.it']);
+
+        const onlyWeak = rankCandidates([candidate('https://elenco-aziende.com/verdi', 'bing_diy', 0.65)], 'Verdi', { model, minScore: 0.99 });
+        expect(onlyWeak).toHaveLength(1);
+    });
+
+    it('refuses to train on too few or one-sided samples', () => {
+        expect(() => trainCandidateRanker(syntheticSamples().slice(0, 5))).toThrow(ValidationError);
+        expect(() => trainCandidateRanker(syntheticSamples().filter((sample) => sample.verified), { minSamples: 5 })).toThrow(/both verified and rejected/);
+    });
+
+    it('saves and loads the model file, rejecting invalid ones', () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ranker-'));
+        const modelPath = path.join(dir, 'nested', 'ranker.json');
+        const model = trainCandidateRanker(syntheticSamples());
+        saveCandidateRankingModel(model, modelPath);
+        expect(loadCandidateRankingModel(modelPath)).toEqual(model);
+
+        fs.writeFileSync(modelPath, JSON.stringify({ ...model, version: 99 }));
+        expect(() => loadCandidateRankingModel(modelPath)).toThrow(ConfigurationError);
+        expect(() => loadCandidateRankingModel(path.join(dir, 'missing.json'))).toThrow(/Cannot read/);
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('labels traced verifications against the layer threshold', () => {
+        insertCompany({ id: 'c-rank', company_name: 'Rossi Srl', city: 'Verona' });
+        const trace: DiscoveryTrace = {
+            mode: 'DEEP_RUN2',
+            company_name: 'Rossi Srl',
+            started_at: '2026-03-01T10:00:00.000Z',
+            skipped_layers: [],
+            cost_usd: 0,
+            llm_calls: 0,
+            layers: [layerTrace(
+                [
+                    candidate('https://rossi.it', 'google_vat', 0.92, { rank: 1 }),
+                    candidate('https://elenco.it/rossi', 'bing_diy', 0.65),
+                    candidate('https://lento.it', 'jina_search', 0.78),
+                    candidate('https://mai-verificato.it', 'ddg_diy', 0.6),
+                ],
+                { 'https://rossi.it': 0.91, 'https://elenco.it/rossi': 0.2, 'https://lento.it': 0, 'https://sconosciuto.it': 0.9 },
+                { 'https://lento.it': 'ERROR_TIMEOUT_FETCH' }
+            )],
+        };
+        saveDiscoveryTrace({ id: 'dtr-rank', company_id: 'c-rank', status: 'FOUND_VALID', url: 'https://rossi.it', trace });
+
+        const records = listRecentDiscoveryTraces<DiscoveryTrace>({ since: '2000-01-01' });
+        const samples = extractTrainingSamples(records.map((record) => record.trace));
+        expect(samples.map((sample) => [sample.candidate.url, sample.verified])).toEqual([
+            ['https://rossi.it', true],
+            ['https://elenco.it/rossi', false],
+        ]);
+        expect(samples[0].candidate.rank).toBe(1);
+        expect(listRecentDiscoveryTraces({ since: '2999-01-01' })).toEqual([]);
+    });
+});
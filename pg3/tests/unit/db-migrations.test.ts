@@ -0,0 +1,92 @@
+import Database from 'better-sqlite3';
+import { describe, expect, it } from 'vitest';
+import {
+    getMigrationStatus,
+    getSchemaVersion,
+    Migration,
+    MIGRATIONS,
+    runMigrations,
+} from '../../src/enricher/db/migrations';
+
+function columns(db: Database.Database, table: string): string[] {
+    return (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map((c) => c.name);
+}
+
+describe('Schema migrations', () => {
+    it('applies every migration on a fresh database and records the versions', () => {
+        const db = new Database(':memory:');
+        const applied = runMigrations(db);
+
+        expect(applied.map((m) => m.version)).toEqual(MIGRATIONS.map((m) => m.version));
+        expect(getSchemaVersion(db)).toBe(MIGRATIONS.length);
+        expect(columns(db, 'companies')).toEqual(expect.arrayContaining(['zip_code', 'vat_code', 'email']));
+        expect(columns(db, 'job_log')).toEqual(expect.arrayContaining(['reason_code', 'run_id', 'stage']));
+        expect(getMigrationStatus(db).every((m) => m.applied)).toBe(true);
+
+        // Idempotent: nothing left to apply
+        expect(runMigrations(db)).toEqual([]);
+    });
+
+    it('adopts a pre-framework database that already has some implicit columns', () => {
+        const db = new Database(':memory:');
+        db.exec(`
+            CREATE TABLE companies (id TEXT PRIMARY KEY, company_name TEXT NOT NULL, city TEXT, zip_code TEXT);
+            CREATE TABLE job_log (id INTEGER PRIMARY KEY AUTOINCREMENT, company_id TEXT NOT NULL, status TEXT NOT NULL, run_id TEXT);
+        `);
+
+        runMigrations(db);
+
+        expect(columns(db, 'companies')).toEqual(expect.arrayContaining(['zip_code', 'region', 'pg_url']));
+        expect(columns(db, 'job_log')).toEqual(expect.arrayContaining(['run_id', 'reason_code', 'stage']));
+    });
+
+    it('stops at the requested target version', () => {
+        const db = new Database(':memory:');
+        runMigrations(db, { targetVersion: 2 });
+
+        const status = getMigrationStatus(db);
+        expect(status.filter((m) => m.applied).map((m) => m.version)).toEqual([1, 2]);
+        expect(columns(db, 'enrichment_results')).not.toContain('reason_code');
+    });
+
+    it('backfills enrichment_versions from existing enrichment results', () => {
+        const db = new Database(':memory:');
+        runMigrations(db, { targetVersion: 6 });
+        db.prepare(`INSERT INTO companies (id, company_name) VALUES ('c-1', 'Rossi Srl')`).run();
+        db.prepare(`INSERT INTO enrichment_results (id, company_id, vat, website_validated, discovery_confidence)
+            VALUES ('er-1', 'c-1', '01114601006', 'https://rossi.it', 0.9)`).run();
+
+        runMigrations(db);
+
+        const versions = db.prepare('SELECT field, value, source, confidence FROM enrichment_versions ORDER BY field').all();
+        expect(versions).toEqual([
+            { field: 'vat', value: '01114601006', source: 'UNKNOWN', confidence: null },
+            { field: 'website_validated', value: 'https://rossi.it', source: 'UNKNOWN', confidence: 0.9 },
+        ]);
+    });
+
+    it('rolls back a failing migration and leaves the version untouched', () => {
+        const db = new Database(':memory:');
+        const migrations: Migration[] = [
+            { version: 1, name: 'create', up: (d) => d.exec('CREATE TABLE t (id INTEGER)') },
+            {
+                version: 2,
+                name: 'broken',
+                up: (d) => {
+                    d.exec('ALTER TABLE t ADD COLUMN a TEXT');
+                    d.exec('ALTER TABLE missing ADD COLUMN b TEXT');
+                },
+            },
+        ];
+
+        expect(() => runMigrations(db, { migrations })).toThrow();
+        expect(getSchemaVersion(db)).toBe(1);
+        expect(columns(db, 't')).toEqual(['id']);
+    });
+
+    it('rejects non-sequential migration lists', () => {
+        const db = new Database(':memory:');
+        const migrations: Migration[] = [{ version: 2, name: 'gap', up: () => undefined }];
+        expect(() => runMigrations(db, { migrations })).toThrow(/sequential/);
+    });
+});
@@ -0,0 +1,104 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+    process.env.SQLITE_PATH = ':memory:';
+});
+
+vi.mock('../../src/enricher/queue', () => ({
+    deadLetterQueue: { getJobs: vi.fn() },
+    enrichmentQueue: { add: vi.fn() },
+}));
+
+import { initializeDatabase, insertCompany, logJobResult } from '../../src/enricher/db';
+import { deadLetterQueue } from '../../src/enricher/queue';
+import { initializeResultStore } from '../../src/enricher/db/result_store';
+import {
+    DeadLetterEntry,
+    groupDeadLetters,
+    matchesDeadLetterFilter,
+    purgeDeadLetters,
+    requeueDeadLetters,
+    toDeadLetterEntry,
+} from '../../src/enricher/queue/dead_letter';
+import { ValidationError } from '../../src/utils/errors';
+
+function entry(overrides: Partial<DeadLetterEntry>): DeadLetterEntry {
+    return {
+        job_id: 'dlq-1',
+        company_id: 'c-1',
+        company_name: 'Rossi Srl',
+        reason_code: 'ERROR_TIMEOUT_FETCH',
+        error_category: 'NETWORK',
+        ...overrides,
+    };
+}
+
+describe('Dead letter triage', () => {
+    initializeDatabase();
+    beforeAll(async () => {
+        await initializeResultStore();
+    });
+
+    it('enriches a DLQ job with the last FAILED job_log entry', async () => {
+        insertCompany({ id: 'c-dlq', company_name: 'Bianchi Spa' });
+        logJobResult('c-dlq', 'RETRYING', 5, 1, 'timeout', 'NETWORK', 'ERROR_TIMEOUT_FETCH', 'run-1', 'discovery');
+        logJobResult('c-dlq', 'FAILED', 5, 3, 'target closed', 'BROWSER', 'ERROR_BROWSER_FAILURE', 'run-1', 'discovery');
+
+        const result = await toDeadLetterEntry({
+            id: 'dlq-discovery-c-dlq',
+            data: { company_id: 'c-dlq', company_name: 'Bianchi Spa', run_id: 'run-1', attempt: 3 },
+        } as any);
+
+        expect(result.reason_code).toBe('ERROR_BROWSER_FAILURE');
+        expect(result.error_category).toBe('BROWSER');
+        expect(result.failed_stage).toBe('discovery');
+    });
+
+    it('falls back to UNKNOWN when no failure was logged', async () => {
+        const result = await toDeadLetterEntry({ id: 'dlq-x', data: { company_id: 'missing', company_name: 'X' } } as any);
+        expect(result.reason_code).toBe('UNKNOWN');
+        expect(result.error_category).toBe('UNKNOWN');
+    });
+
+    it('groups entries by reason code and error category, largest first', () => {
+        const groups = groupDeadLetters([
+            entry({ company_id: 'a' }),
+            entry({ company_id: 'b', reason_code: 'ERROR_BROWSER_FAILURE', error_category: 'BROWSER' }),
+            entry({ company_id: 'c' }),
+        ]);
+
+        expect(groups).toEqual([
+            { reason_code: 'ERROR_TIMEOUT_FETCH', error_category: 'NETWORK', count: 2, company_ids: ['a', 'c'] },
+            { reason_code: 'ERROR_BROWSER_FAILURE', error_category: 'BROWSER', count: 1, company_ids: ['b'] },
+        ]);
+    });
+
+    it('applies every provided filter field', () => {
+        const target = entry({ failed_stage: 'financial', run_id: 'run-9' });
+        expect(matchesDeadLetterFilter(target, {})).toBe(true);
+        expect(matchesDeadLetterFilter(target, { reason_code: 'ERROR_TIMEOUT_FETCH', failed_stage: 'financial' })).toBe(true);
+        expect(matchesDeadLetterFilter(target, { error_category: 'BROWSER' })).toBe(false);
+        expect(matchesDeadLetterFilter(target, { run_id: 'run-1' })).toBe(false);
+    });
+
+    it('rejects unknown discovery modes before touching the queue', async () => {
+        await expect(requeueDeadLetters({}, { mode: 'WARP_SPEED' })).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('purges only with a filter or an explicit all', async () => {
+        const remove = vi.fn();
+        const jobs = [
+            { id: 'dlq-a', data: { company_id: 'c-dlq', company_name: 'Bianchi Spa', run_id: 'run-1' }, remove },
+            { id: 'dlq-b', data: { company_id: 'missing', company_name: 'X', run_id: 'run-2' }, remove },
+        ];
+        vi.mocked(deadLetterQueue.getJobs).mockResolvedValue(jobs as any);
+
+        await expect(purgeDeadLetters({})).rejects.toBeInstanceOf(ValidationError);
+        await expect(purgeDeadLetters({ tenant_id: 'acme', limit: 10 })).rejects.toThrow(/filter/);
+        expect(remove).not.toHaveBeenCalled();
+
+        expect(await purgeDeadLetters({ run_id: 'run-2' })).toEqual({ purged: 1 });
+        expect(remove).toHaveBeenCalledTimes(1);
+        expect(await purgeDeadLetters({}, { all: true })).toEqual({ purged: 2 });
+    });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+    process.env.SQLITE_PATH = ':memory:';
+});
+
+vi.mock('../../src/enricher/core/browser/factory_v2');
+
+import { config } from '../../src/enricher/config';
+import { LLMService } from '../../src/enricher/core/ai/llm_service';
+import { DiscoveryBudget, estimateLayerCost } from '../../src/enricher/core/discovery/discovery_budget';
+import { DiscoveryLayer } from '../../src/enricher/core/discovery/layers/layer_types';
+import { defineDiscoveryModeProfiles } from '../../src/enricher/core/discovery/layers/mode_profiles';
+import { registerDiscoveryLayer } from '../../src/enricher/core/discovery/layers/registry';
+import { UnifiedDiscoveryService } from '../../src/enricher/core/discovery/unified_discovery_service';
+import { recordProviderCall } from '../../src/enricher/utils/provider_usage';
+
+const trackUsage = (LLMService as unknown as { trackUsage(usage: object, model: string): void }).trackUsage.bind(LLMService);
+const company = { company_name: 'Alfa Srl', city: 'Verona' };
+const seenMaxCandidates: number[] = [];
+
+/** Spends 4 Serper calls (€0.004 at the default unit cost), finds nothing. */
+const searchLayer: DiscoveryLayer = {
+    name: 'budget_search',
+    description: 'fixture: paid search, nothing found',
+    defaultThreshold: () => 0.6,
+    costProfile: { calls: { serper: 4 }, hitRate: 0.5 },
+    async run() {
+        recordProviderCall('serper', 4);
+        return null;
+    },
+};
+
+/** Expected €0.02: never fits a €0.01 cap. */
+const premiumLayer: DiscoveryLayer = {
+    name: 'budget_premium',
+    description: 'fixture: too expensive',
+    defaultThreshold: () => 0.6,
+    costProfile: { calls: { serper: 20 }, hitRate: 0.9 },
+    run: vi.fn(async () => null),
+};
+
+/** €0.002 fixed + €0.001 per verified candidate. */
+const swarmLayer: DiscoveryLayer = {
+    name: 'budget_swarm',
+    description: 'fixture: verification budget scales the cost',
+    defaultThreshold: () => 0.6,
+    costProfile: { calls: { serper: 2 }, perCandidate: { serper: 1 }, hitRate: 0.5 },
+    async run(_context, settings) {
+        seenMaxCandidates.push(settings.maxCandidates);
+        recordProviderCall('serper', 2);
+        trackUsage({ prompt_tokens: 1_000_000, completion_tokens: 0, total_tokens: 1_000_000 }, 'gpt-4o-mini');
+        return { url: 'https://alfa.it', status: 'FOUND_INVALID', method: 'fixture_swarm', confidence: 0.5, wave: 'FIXTURE', details: {} };
+    },
+};
+
+/** Free: always runs. */
+const freeLayer: DiscoveryLayer = {
+    name: 'budget_free',
+    description: 'fixture: free registry lookup',
+    defaultThreshold: () => 0.6,
+    async run() {
+        return { url: 'https://alfa.it', status: 'FOUND_VALID', method: 'fixture_free', confidence: 0.9, wave: 'FIXTURE', details: {} };
+    },
+};
+
+describe('Discovery budget', () => {
+    [searchLayer, premiumLayer, swarmLayer, freeLayer].forEach((layer) => registerDiscoveryLayer(layer));
+    defineDiscoveryModeProfiles({
+        BUDGET_FIXTURE: { layers: ['budget_search', 'budget_premium', { layer: 'budget_swarm', maxCandidates: 10 }, 'budget_free'] },
+        BUDGET_EXHAUST: { layers: ['budget_search', 'budget_search', 'budget_free'] },
+    });
+
+    it('estimates layer cost from unit costs and the verification budget', () => {
+        const settings = { threshold: 0.6, maxCandidates: 10, timeoutMs: 0 };
+        expect(estimateLayerCost(undefined, settings)).toBe(0);
+        expect(estimateLayerCost(swarmLayer.costProfile, settings)).toBeCloseTo(2 * 0.001 + 10 * 0.001);
+        expect(estimateLayerCost({ calls: { llm: 2, jina_search: 1 } }, settings))
+            .toBeCloseTo(2 * config.discovery.budget.unitCostsEur.llm + config.discovery.budget.unitCostsEur.jina_search);
+    });
+
+    it('runs everything when uncapped and reports the money spent', async () => {
+        seenMaxCandidates.length = 0;
+        const result = await new UnifiedDiscoveryService().discover(company, 'BUDGET_FIXTURE', { limitEur: 0, websiteValueEur: 0 });
+        const llmEur = 0.15 / config.auth.eurToUsd;
+
+        expect(result).toMatchObject({ status: 'FOUND_VALID', method: 'fixture_free' });
+        expect(premiumLayer.run).toHaveBeenCalledTimes(1);
+        expect(seenMaxCandidates).toEqual([10]);
+        expect(result.trace!.budget_decisions).toEqual([]);
+        expect(result.trace!.spend).toMatchObject({ calls: { serper: 6, llm: 1 }, by_provider: { serper: expect.closeTo(0.006) } });
+        expect(result.cost_eur).toBeCloseTo(0.006 + llmEur);
+        expect(result.trace!.layers[2].spend!.cost_eur).toBeCloseTo(0.002 + llmEur);
+    });
+
+    it('skips what does not fit a cap and shrinks the verification budget', async () => {
+        vi.mocked(premiumLayer.run).mockClear();
+        seenMaxCandidates.length = 0;
+        const result = await new UnifiedDiscoveryService().discover(company, 'BUDGET_FIXTURE', { limitEur: 0.01, websiteValueEur: 0 });
+
+        expect(result).toMatchObject({ status: 'FOUND_VALID', method: 'fixture_free' });
+        expect(premiumLayer.run).not.toHaveBeenCalled();
+        expect(seenMaxCandidates).toEqual([4]);
+        expect(result.trace!.budget_decisions).toEqual([
+            { layer: 'budget_premium', action: 'SKIP', reason: 'OVER_BUDGET', expected_cost_eur: expect.closeTo(0.02), remaining_eur: expect.closeTo(0.006) },
+            { layer: 'budget_swarm', action: 'SHRINK', reason: 'FIT_TO_BUDGET', expected_cost_eur: expect.closeTo(0.006), remaining_eur: expect.closeTo(0.006), max_candidates: 4 },
+            // the social profile search is paid too
+            expect.objectContaining({ layer: 'social_search', action: 'SKIP', reason: 'BUDGET_EXHAUSTED' }),
+        ]);
+        expect(result.trace!.layers.map((layer) => layer.layer)).toEqual(['budget_search', 'budget_swarm', 'budget_free']);
+    });
+
+    it('stops paid layers once the budget is spent, free layers still run', async () => {
+        const result = await new UnifiedDiscoveryService().discover(company, 'BUDGET_EXHAUST', { limitEur: 0.004, websiteValueEur: 0 });
+
+        expect(result.cost_eur).toBeCloseTo(0.004);
+        expect(result.trace!.budget_decisions).toEqual([
+            expect.objectContaining({ layer: 'budget_search', action: 'SKIP', reason: 'BUDGET_EXHAUSTED' }),
+            expect.objectContaining({ layer: 'social_search', action: 'SKIP', reason: 'BUDGET_EXHAUSTED' }),
+        ]);
+        expect(result.trace!.layers.map((layer) => layer.layer)).toEqual(['budget_search', 'budget_free']);
+        expect(result).toMatchObject({ status: 'FOUND_VALID', method: 'fixture_free' });
+    });
+
+    it('skips layers whose expected value is below their cost', () => {
+        const budget = new DiscoveryBudget({ limitEur: 0, websiteValueEur: 0.01 });
+        const settings = { threshold: 0.6, maxCandidates: 10, timeoutMs: 0 };
+
+        expect(budget.admit(searchLayer, settings, 0)).toEqual({ settings });
+        expect(budget.admit(swarmLayer, settings, 0)).toEqual({
+            settings: null,
+            decision: { layer: 'budget_swarm', action: 'SKIP', reason: 'NEGATIVE_EXPECTED_VALUE', expected_cost_eur: expect.closeTo(0.012), remaining_eur: undefined },
+        });
+        expect(budget.admit(freeLayer, settings, 1)).toEqual({ settings });
+    });
+});
@@ -0,0 +1,131 @@
+import * as path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/enricher/core/browser/factory_v2');
+
+import { config } from '../../src/enricher/config';
+import { DiscoveryResult, UnifiedDiscoveryService } from '../../src/enricher/core/discovery/unified_discovery_service';
+import { DiscoveryLayer } from '../../src/enricher/core/discovery/layers/layer_types';
+import {
+    defineDiscoveryModeProfiles,
+    getDiscoveryModeProfile,
+    isDiscoveryMode,
+    loadDiscoveryModeProfiles,
+    planDiscoveryLayers,
+} from '../../src/enricher/core/discovery/layers/mode_profiles';
+import { getDiscoveryLayer, registerDiscoveryLayer } from '../../src/enricher/core/discovery/layers/registry';
+import { ConfigurationError, TimeoutError } from '../../src/utils/errors';
+
+function fixtureLayer(name: string, result: Partial<DiscoveryResult> | null, delayMs: number = 0): DiscoveryLayer & { run: ReturnType<typeof vi.fn> } {
+    return {
+        name,
+        description: `fixture ${name}`,
+        defaultThreshold: () => 0.6,
+        run: vi.fn(async () => {
+            if (delayMs > 0) {
+                await new Promise((resolve) => setTimeout(resolve, delayMs));
+            }
+            return result ? { url: null, status: 'NOT_FOUND', method: name, confidence: 0, wave: name, details: {}, ...result } as DiscoveryResult : null;
+        }),
+    };
+}
+
+describe('Discovery layers', () => {
+    it('plans the built-in modes as ordered layers with per-layer settings', () => {
+        const names = (mode: string) => planDiscoveryLayers(getDiscoveryModeProfile(mode)!, { stopTheBleeding: false }).map((step) => step.layer.name);
+        expect(names('DEEP_RUN2')).toEqual(['identity', 'existing_website', 'surgical_search', 'email_reversal', 'registry_dork', 'llm_oracle', 'swarm']);
+        expect(names('NUCLEAR_RUN4')).toEqual([...names('DEEP_RUN2'), 'nuclear']);
+
+        const fast = planDiscoveryLayers(getDiscoveryModeProfile('FAST_RUN1')!, { stopTheBleeding: false });
+        const swarm = fast.find((step) => step.layer.name === 'swarm')!.settings;
+        expect(swarm.threshold).toBeCloseTo(config.discovery.thresholds.wave1 + 0.05);
+        expect(swarm).toMatchObject({ maxCandidates: 8, timeoutMs: 0 });
+        expect(fast.find((step) => step.layer.name === 'llm_oracle')!.settings.threshold).toBe(0.85);
+    });
+
+    it('drops costly layers and clamps budgets in stop-the-bleeding mode', () => {
+        const plan = planDiscoveryLayers(getDiscoveryModeProfile('NUCLEAR_RUN4')!, { stopTheBleeding: true });
+        expect(plan.map((step) => step.layer.name)).not.toContain('llm_oracle');
+        expect(plan.map((step) => step.layer.name)).not.toContain('nuclear');
+        const swarm = plan.find((step) => step.layer.name === 'swarm')!.settings;
+        expect(swarm.maxCandidates).toBe(8);
+        expect(swarm.threshold).toBeGreaterThanOrEqual(config.discovery.thresholds.minValid);
+    });
+
+    it('loads declarative profiles from JSON and rejects invalid ones', () => {
+        const loaded = loadDiscoveryModeProfiles(path.join(__dirname, '../../examples/discovery_modes.json'));
+        expect(loaded.map((profile) => profile.name)).toEqual(['REGISTRY_ONLY', 'NO_LLM']);
+        expect(isDiscoveryMode('REGISTRY_ONLY')).toBe(true);
+        expect(isDiscoveryMode('WARP_SPEED')).toBe(false);
+
+        const registryOnly = planDiscoveryLayers(getDiscoveryModeProfile('REGISTRY_ONLY')!, { stopTheBleeding: false });
+        expect(registryOnly.map((step) => step.layer.name)).toEqual(['identity', 'surgical_search', 'registry_dork']);
+        expect(registryOnly[2].settings).toEqual({ threshold: 0.7, maxCandidates: 15, timeoutMs: 30000 });
+
+        expect(() => defineDiscoveryModeProfiles({ BAD: { layers: ['identity', 'teleport'] } })).toThrow(ConfigurationError);
+        expect(() => defineDiscoveryModeProfiles({ BAD: { layers: [{ layer: 'swarm', threshold: 2 }] } })).toThrow(/threshold/);
+        expect(() => defineDiscoveryModeProfiles({ BAD: { layers: [] } })).toThrow(ConfigurationError);
+        expect(isDiscoveryMode('BAD')).toBe(false);
+        expect(() => loadDiscoveryModeProfiles('/nonexistent/modes.json')).toThrow(/Cannot read/);
+    });
+
+    it('runs custom layers in profile order, skipping timed out layers and keeping the best invalid', async () => {
+        const weak = fixtureLayer('fixture_weak', { url: 'https://weak.it', status: 'FOUND_INVALID', confidence: 0.4 });
+        const slow = fixtureLayer('fixture_slow', { url: 'https://slow.it', status: 'FOUND_VALID', confidence: 0.99 }, 500);
+        const strong = fixtureLayer('fixture_strong', { url: 'https://strong.it', status: 'FOUND_VALID', confidence: 0.9, reason_code: 'OK_CONFIRMED_VAT_MATCH' });
+        const never = fixtureLayer('fixture_never', null);
+        [weak, slow, strong, never].forEach((layer) => registerDiscoveryLayer(layer));
+        expect(() => registerDiscoveryLayer(weak)).toThrow(ConfigurationError);
+        expect(getDiscoveryLayer('fixture_weak')).toBe(weak);
+
+        defineDiscoveryModeProfiles({
+            FIXTURE: { layers: ['fixture_weak', { layer: 'fixture_slow', timeoutMs: 20 }, 'fixture_strong', 'fixture_never'] },
+            FIXTURE_WEAK: { layers: ['fixture_never', { layer: 'fixture_weak', threshold: 0.3 }] },
+        });
+
+        const service = new UnifiedDiscoveryService();
+        const company = { company_name: 'Alfa Srl', city: 'Verona' };
+        const found = await service.discover(company, 'FIXTURE');
+        expect(found).toMatchObject({ url: 'https://strong.it', status: 'FOUND_VALID', method: 'fixture_strong', reason_code: 'OK_CONFIRMED_VAT_MATCH' });
+        expect(never.run).not.toHaveBeenCalled();
+        expect(slow.run.mock.calls[0][1]).toEqual({ threshold: 0.6, maxCandidates: 15, timeoutMs: 20 });
+
+        const fallback = await service.discover(company, 'FIXTURE_WEAK');
+        expect(fallback).toMatchObject({ url: 'https://weak.it', status: 'FOUND_INVALID', reason_code: 'REJECTED_NO_MATCHING_SIGNALS' });
+        expect(weak.run.mock.calls[1][1].threshold).toBe(0.3);
+    });
+
+    it('aborts a timed out layer so it starts no more toolkit calls and its identity is dropped', async () => {
+        let aftermath: Promise<unknown> | undefined;
+        const stalled: DiscoveryLayer = {
+            name: 'fixture_stalled',
+            description: 'fixture stalled',
+            defaultThreshold: () => 0.6,
+            async run(context) {
+                await new Promise((resolve) => setTimeout(resolve, 60));
+                context.identity = { legal_name: 'Late Srl', vat_number: '01234567890' } as never;
+                aftermath = context.toolkit.verify('https://late.it', context.company);
+                await aftermath;
+                return null;
+            },
+        };
+        const seen = fixtureLayer('fixture_sees_identity', null);
+        [stalled, seen].forEach((layer) => registerDiscoveryLayer(layer));
+        defineDiscoveryModeProfiles({
+            FIXTURE_STALLED: { layers: [{ layer: 'fixture_stalled', timeoutMs: 20 }, 'fixture_sees_identity'] },
+        });
+
+        const service = new UnifiedDiscoveryService();
+        const deepVerify = vi.spyOn(service as never, 'deepVerify');
+        const result = await service.discover({ company_name: 'Beta Srl', city: 'Bari' }, 'FIXTURE_STALLED');
+        expect(result.status).toBe('NOT_FOUND');
+
+        const [context] = seen.run.mock.calls[0];
+        expect(context.identity).toBeNull();
+        expect(context.signal.aborted).toBe(false);
+
+        await new Promise((resolve) => setTimeout(resolve, 80));
+        await expect(aftermath).rejects.toBeInstanceOf(TimeoutError);
+        expect(deepVerify).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+    process.env.SQLITE_PATH = ':memory:';
+});
+
+vi.mock('../../src/enricher/core/browser/factory_v2');
+
+import { DiscoveryLayer } from '../../src/enricher/core/discovery/layers/layer_types';
+import { defineDiscoveryModeProfiles } from '../../src/enricher/core/discovery/layers/mode_profiles';
+import { registerDiscoveryLayer } from '../../src/enricher/core/discovery/layers/registry';
+import { UnifiedDiscoveryService } from '../../src/enricher/core/discovery/unified_discovery_service';
+import { exportEnrichedToCSV, getEnrichmentResult, initializeDatabase, insertCompany, insertEnrichmentResult } from '../../src/enricher/db';
+
+/** Verification outcome per candidate URL (final_url simulates redirects). */
+const VERIFICATIONS: Record<string, object> = {
+    'https://alfagroup.it': { confidence: 0.95, scraped_piva: '00743110157', reason_code: 'OK_CONFIRMED_VAT_MATCH' },
+    'https://alfa-shop.it': { confidence: 0.82, matched_phone: '045 1234567', reason_code: 'OK_CONFIRMED_PHONE_MATCH' },
+    'https://alfa.de': { confidence: 0.78, schema_signals: { urlMatch: true } },
+    'https://alfa-brand.com': { confidence: 0.9, final_url: 'https://www.alfagroup.it/brand' },
+    'https://paginebianche.it/alfa': { confidence: 0.1 },
+};
+
+const swarmFixture: DiscoveryLayer = {
+    name: 'multi_site_swarm',
+    description: 'fixture: several domains of the same company',
+    defaultThreshold: () => 0.7,
+    async run({ company, toolkit }, settings) {
+        const candidates = Object.keys(VERIFICATIONS).map((url) => ({ url, source: 'fixture_search', confidence: 0.8 }));
+        return toolkit.selectBest(candidates, company, 'FIXTURE', settings.threshold, settings.maxCandidates);
+    },
+};
+
+function serviceWithFixtureVerification(): UnifiedDiscoveryService {
+    const service = new UnifiedDiscoveryService();
+    vi.spyOn(service as any, 'runDeepVerify').mockImplementation(async (url: unknown) => VERIFICATIONS[url as string] ?? null);
+    return service;
+}
+
+describe('Multi-site discovery', () => {
+    initializeDatabase();
+    registerDiscoveryLayer(swarmFixture);
+    defineDiscoveryModeProfiles({
+        MULTI_SITE: { layers: ['multi_site_swarm'] },
+        MULTI_SITE_STRICT: { layers: [{ layer: 'multi_site_swarm', threshold: 0.99 }] },
+    });
+
+    it('returns the primary site plus verified secondary domains with their evidence', async () => {
+        const result = await serviceWithFixtureVerification().discover({ company_name: 'Alfa Group Srl', city: 'Verona' }, 'MULTI_SITE');
+
+        expect(result).toMatchObject({ url: 'https://alfagroup.it', status: 'FOUND_VALID', confidence: 0.95 });
+        // alfa-brand.com redirects to the primary domain, the directory page is not valid
+        expect(result.secondary_sites).toEqual([
+            {
+                url: 'https://alfa-shop.it',
+                confidence: 0.82,
+                method: 'fixture_search',
+                reason_code: 'OK_CONFIRMED_PHONE_MATCH',
+                evidence: { vat: undefined, phone: '045 1234567', schema_match: undefined },
+            },
+            expect.objectContaining({ url: 'https://alfa.de', evidence: expect.objectContaining({ schema_match: true }) }),
+        ]);
+    });
+
+    it('keeps secondary sites only next to a valid primary', async () => {
+        const result = await serviceWithFixtureVerification().discover({ company_name: 'Alfa Group Srl' }, 'MULTI_SITE_STRICT');
+        expect(result).toMatchObject({ url: 'https://alfagroup.it', status: 'FOUND_INVALID' });
+        expect(result.secondary_sites).toBeUndefined();
+    });
+
+    it('stores secondary websites with the result and exports them', () => {
+        insertCompany({ id: 'c-multi', company_name: 'Alfa Group Srl', city: 'Verona' });
+        const secondary = [{ url: 'https://alfa-shop.it', confidence: 0.82, method: 'fixture_search', evidence: { phone: '045 1234567' } }];
+        insertEnrichmentResult({ id: 'er-c-multi', company_id: 'c-multi', is_estimated_employees: false, website_validated: 'https://alfagroup.it', secondary_websites: secondary });
+        expect(getEnrichmentResult('c-multi')).toMatchObject({ website_validated: 'https://alfagroup.it', secondary_websites: secondary });
+
+        const outputPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'multi-site-')), 'export.csv');
+        exportEnrichedToCSV(outputPath);
+        const [header, row] = fs.readFileSync(outputPath, 'utf-8').split('\n');
+        expect(header).toContain(',website,secondary_websites,');
+        expect(row).toContain('"https://alfagroup.it","https://alfa-shop.it"');
+
+        insertEnrichmentResult({ id: 'er-c-multi', company_id: 'c-multi', is_estimated_employees: false, website_validated: 'https://alfagroup.it' });
+        expect(getEnrichmentResult('c-multi')?.secondary_websites).toBeUndefined();
+    });
+});
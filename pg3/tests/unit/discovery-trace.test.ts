@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+    process.env.SQLITE_PATH = ':memory:';
+});
+
+vi.mock('../../src/enricher/core/browser/factory_v2');
+
+import { LLMService } from '../../src/enricher/core/ai/llm_service';
+import { DiscoveryTrace, traceCandidates } from '../../src/enricher/core/discovery/discovery_trace';
+import { DiscoveryLayer } from '../../src/enricher/core/discovery/layers/layer_types';
+import { defineDiscoveryModeProfiles } from '../../src/enricher/core/discovery/layers/mode_profiles';
+import { registerDiscoveryLayer } from '../../src/enricher/core/discovery/layers/registry';
+import { UnifiedDiscoveryService } from '../../src/enricher/core/discovery/unified_discovery_service';
+import { initializeDatabase, insertCompany, listDiscoveryTraces, saveDiscoveryTrace } from '../../src/enricher/db';
+
+const trackUsage = (LLMService as unknown as { trackUsage(usage: object, model: string): void }).trackUsage.bind(LLMService);
+
+const candidatesLayer: DiscoveryLayer = {
+    name: 'trace_candidates',
+    description: 'fixture: candidates + a verification + one LLM call',
+    defaultThreshold: () => 0.6,
+    async run({ company, toolkit }) {
+        traceCandidates([
+            { url: 'https://www.facebook.com/alfasrl', source: 'fixture_social', confidence: 0.5 },
+            { url: 'https://alfa.it', source: 'fixture_guess', confidence: 0.7 },
+        ]);
+        trackUsage({ prompt_tokens: 1_000_000, completion_tokens: 0, total_tokens: 1_000_000 }, 'gpt-4o-mini');
+        const verification = await toolkit.verify('https://www.facebook.com/alfasrl', company);
+        return {
+            url: 'https://www.facebook.com/alfasrl',
+            status: 'FOUND_INVALID',
+            method: 'fixture_social',
+            confidence: verification.confidence,
+            wave: 'FIXTURE',
+            details: verification,
+        };
+    },
+};
+
+const slowLayer: DiscoveryLayer = {
+    name: 'trace_slow',
+    description: 'fixture: never answers in time',
+    defaultThreshold: () => 0.6,
+    run: () => new Promise((resolve) => setTimeout(() => resolve(null), 500)),
+};
+
+const validLayer: DiscoveryLayer = {
+    name: 'trace_valid',
+    description: 'fixture: finds the website',
+    defaultThreshold: () => 0.6,
+    async run() {
+        traceCandidates([{ url: 'https://alfa.it', source: 'fixture_registry', confidence: 0.9 }]);
+        return { url: 'https://alfa.it', status: 'FOUND_VALID', method: 'fixture_registry', confidence: 0.92, wave: 'FIXTURE', details: {} };
+    },
+};
+
+describe('Discovery trace', () => {
+    initializeDatabase();
+    insertCompany({ id: 'c-trace', company_name: 'Alfa Srl', city: 'Verona' });
+    [candidatesLayer, slowLayer, validLayer].forEach((layer) => registerDiscoveryLayer(layer));
+    defineDiscoveryModeProfiles({
+        TRACE_FIXTURE: { layers: ['trace_candidates', { layer: 'trace_slow', timeoutMs: 20 }, 'trace_valid'] },
+    });
+
+    it('records layers, candidates, verifications, timing and cost', async () => {
+        const result = await new UnifiedDiscoveryService().discover({ company_name: 'Alfa Srl', city: 'Verona' }, 'TRACE_FIXTURE');
+        const trace = result.trace!;
+
+        expect(result).toMatchObject({ url: 'https://alfa.it', status: 'FOUND_VALID' });
+        expect(trace).toMatchObject({ mode: 'TRACE_FIXTURE', company_name: 'Alfa Srl', skipped_layers: [] });
+        expect(trace.outcome).toMatchObject({ status: 'FOUND_VALID', url: 'https://alfa.it', method: 'fixture_registry' });
+        expect(trace.layers.map((layer) => [layer.layer, layer.status])).toEqual([
+            ['trace_candidates', 'FOUND_INVALID'],
+            ['trace_slow', 'TIMEOUT'],
+            ['trace_valid', 'FOUND_VALID'],
+        ]);
+
+        const [first, slow, valid] = trace.layers;
+        expect(first.candidates).toEqual([
+            { url: 'https://www.facebook.com/alfasrl', source: 'fixture_social', confidence: 0.5 },
+            { url: 'https://alfa.it', source: 'fixture_guess', confidence: 0.7 },
+        ]);
+        expect(first.verifications).toEqual([
+            expect.objectContaining({ url: 'https://www.facebook.com/alfasrl', confidence: 0, reason_code: 'REJECTED_DIRECTORY_OR_SOCIAL' }),
+        ]);
+        expect(first.llm_calls).toBe(1);
+        expect(first.cost_usd).toBeGreaterThan(0);
+        expect(trace.cost_usd).toBeCloseTo(first.cost_usd);
+        expect(slow.settings.timeoutMs).toBe(20);
+        expect(slow.duration_ms).toBeGreaterThanOrEqual(15);
+        expect(valid).toMatchObject({ llm_calls: 0, result: { confidence: 0.92 }, candidates: [{ source: 'fixture_registry' }] });
+        expect(trace.duration_ms).toBeGreaterThanOrEqual(slow.duration_ms);
+    });
+
+    it('does not record outside a traced discovery', async () => {
+        const verification = await new UnifiedDiscoveryService().verifyUrl('https://www.facebook.com/alfasrl', { company_name: 'Alfa Srl' });
+        expect(verification).toMatchObject({ reason_code: 'REJECTED_DIRECTORY_OR_SOCIAL' });
+        expect(() => traceCandidates([{ url: 'https://alfa.it', source: 'nowhere' }])).not.toThrow();
+    });
+
+    it('stores traces per company and run, newest first', () => {
+        const trace = (mode: string) => ({ mode, company_name: 'Alfa Srl', started_at: 'now', layers: [], skipped_layers: [], cost_usd: 0, llm_calls: 0 });
+        saveDiscoveryTrace<DiscoveryTrace>({ id: 'dtr-1', company_id: 'c-trace', run_id: 'run-1', mode: 'FAST_RUN1', status: 'NOT_FOUND', trace: trace('FAST_RUN1') });
+        saveDiscoveryTrace<DiscoveryTrace>({ id: 'dtr-2', company_id: 'c-trace', run_id: 'run-2', mode: 'DEEP_RUN2', status: 'FOUND_VALID', url: 'https://alfa.it', trace: trace('DEEP_RUN2') });
+
+        const latest = listDiscoveryTraces<DiscoveryTrace>('c-trace');
+        expect(latest.map((record) => record.id)).toEqual(['dtr-2', 'dtr-1']);
+        expect(latest[0]).toMatchObject({ run_id: 'run-2', status: 'FOUND_VALID', url: 'https://alfa.it', trace: { mode: 'DEEP_RUN2' } });
+        expect(latest[1].url).toBeUndefined();
+
+        expect(listDiscoveryTraces<DiscoveryTrace>('c-trace', { runId: 'run-1' }).map((record) => record.id)).toEqual(['dtr-1']);
+        expect(listDiscoveryTraces('c-other')).toEqual([]);
+    });
+});
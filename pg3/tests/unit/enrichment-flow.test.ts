@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const flows = vi.hoisted(() => ({
+    jobs: new Map<string, { queueName: string; state: 'waiting' | 'failed' }>(),
+    added: [] as string[],
+}));
+
+vi.mock('ioredis', () => ({
+    default: class {
+        on() {
+            return this;
+        }
+    },
+}));
+
+// BullMQ ignores a job whose id already exists, whatever its state: the flow producer mirrors that
+vi.mock('bullmq', () => {
+    class FlowProducer {
+        async add(flow: any) {
+            const nodes = [flow, ...(flow.children ?? [])];
+            for (const node of nodes) {
+                if (!flows.jobs.has(node.opts.jobId)) {
+                    flows.jobs.set(node.opts.jobId, { queueName: node.queueName, state: 'waiting' });
+                    flows.added.push(node.opts.jobId);
+                }
+            }
+            return { job: { id: flow.opts.jobId } };
+        }
+    }
+    class Queue {}
+    class QueueEvents {}
+    return { FlowProducer, Queue, QueueEvents };
+});
+
+import { EnrichmentJobData, addEnrichmentFlow, stageFlowKey } from '../../src/enricher/queue';
+
+function intake(run_id: string | undefined, jobId: string = 'enrich-c-1', createdAt: number = 1_700_000_000_000) {
+    const data: EnrichmentJobData = { company_id: 'c-1', company_name: 'Rossi Srl', run_id };
+    return { data, key: stageFlowKey(data, jobId, createdAt) };
+}
+
+describe('Enrichment stage flow', () => {
+    beforeEach(() => {
+        flows.jobs.clear();
+        flows.added = [];
+    });
+
+    it('re-dispatches a company whose previous flow failed', async () => {
+        const first = intake('run-1');
+        await addEnrichmentFlow(first.data, first.key);
+        expect(flows.added).toEqual(['financial-run-1-c-1', 'discovery-run-1-c-1']);
+        // The failed stage jobs of run-1 are retained
+        flows.jobs.set('discovery-run-1-c-1', { queueName: 'discovery', state: 'failed' });
+        flows.jobs.set('financial-run-1-c-1', { queueName: 'financial', state: 'failed' });
+
+        const second = intake('run-2');
+        await addEnrichmentFlow(second.data, second.key);
+        expect(flows.added).toEqual(['financial-run-1-c-1', 'discovery-run-1-c-1', 'financial-run-2-c-1', 'discovery-run-2-c-1']);
+    });
+
+    it('keeps the key of a retried intake job and of a DLQ replay', async () => {
+        const dispatch = intake('run-1');
+        await addEnrichmentFlow(dispatch.data, dispatch.key);
+        await addEnrichmentFlow(dispatch.data, intake('run-1').key);
+        expect(flows.added).toHaveLength(2);
+
+        expect(intake('run-1', 'enrich-c-1-replay-42').key).toBe('run-1-c-1-replay-42');
+        // Outside a run, the intake job creation time tells dispatches apart
+        expect(intake(undefined).key).toBe('1700000000000-c-1');
+        expect(intake(undefined, 'enrich-c-1', 1_700_000_100_000).key).not.toBe(intake(undefined).key);
+    });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+    process.env.SQLITE_PATH = ':memory:';
+});
+
+import {
+    diffEnrichmentRuns,
+    getEnrichmentHistory,
+    getEnrichmentResult,
+    getEnrichmentSnapshot,
+    initializeDatabase,
+    insertCompany,
+    insertEnrichmentResult,
+} from '../../src/enricher/db';
+import { DataSource } from '../../src/enricher/utils/data_merger';
+
+describe('Enrichment versions', () => {
+    initializeDatabase();
+    insertCompany({ id: 'c-v', company_name: 'Verdi Srl' });
+
+    insertEnrichmentResult({
+        id: 'er-c-v',
+        company_id: 'c-v',
+        vat: '01114601006',
+        revenue: '€ 1.000.000',
+        is_estimated_employees: false,
+        website_validated: 'https://verdi.it',
+        reason_code: 'OK_VAT_MATCH',
+    }, {
+        run_id: 'run-1',
+        fields: {
+            vat: { source: DataSource.VIES, confidence: 0.95 },
+            revenue: { source: DataSource.REGISTRY },
+            website_validated: { source: DataSource.WEBSITE, confidence: 0.88 },
+        },
+    });
+
+    insertEnrichmentResult({
+        id: 'er-c-v',
+        company_id: 'c-v',
+        vat: '01114601006',
+        employees: '12',
+        is_estimated_employees: true,
+        reason_code: 'NOT_FOUND_NO_CANDIDATES',
+    }, {
+        run_id: 'run-2',
+        fields: {
+            vat: { source: DataSource.VIES, confidence: 0.95 },
+            employees: { source: DataSource.AI },
+            website_validated: { source: DataSource.WEBSITE },
+        },
+    });
+
+    it('keeps values a re-enrichment did not find and clears explicitly recorded ones', () => {
+        const row = getEnrichmentResult('c-v');
+        expect(row?.revenue).toBe('€ 1.000.000');
+        expect(row?.employees).toBe('12');
+        expect(row?.website_validated).toBeNull();
+        expect(Boolean(row?.is_estimated_employees)).toBe(true);
+        expect(row?.reason_code).toBe('NOT_FOUND_NO_CANDIDATES');
+    });
+
+    it('records every value with its source, confidence and run', () => {
+        const history = getEnrichmentHistory('c-v');
+        expect(history).toHaveLength(6);
+        expect(history[1]).toMatchObject({ field: 'revenue', source: 'REGISTRY', confidence: 1, run_id: 'run-1' });
+
+        const snapshot = getEnrichmentSnapshot('c-v', 'run-1');
+        expect(snapshot.website_validated?.value).toBe('https://verdi.it');
+        expect(snapshot.employees).toBeUndefined();
+    });
+
+    it('diffs two runs field by field', () => {
+        const changes = diffEnrichmentRuns('c-v', 'run-1', 'run-2');
+        expect(changes.map((c) => c.field)).toEqual(['employees', 'website_validated']);
+        expect(changes[1]).toMatchObject({
+            from: { value: 'https://verdi.it', source: 'WEBSITE', confidence: 0.88 },
+            to: { value: null, run_id: 'run-2' },
+        });
+        expect(diffEnrichmentRuns('c-v', 'run-1', 'run-1')).toEqual([]);
+    });
+});
@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CompanyMatcher } from '../../src/enricher/core/discovery/company_matcher';
+import {
+    crawlEvidencePages,
+    evidencePagePriority,
+    extractHtmlEvidence,
+    parseSitemap,
+    selectEvidencePages,
+} from '../../src/enricher/core/verification/evidence_crawler';
+import { CompanyInput } from '../../src/enricher/types';
+
+const company: CompanyInput = {
+    company_name: 'Forno Bianchi Snc',
+    city: 'Vicenza',
+    address: 'Via Roma 12',
+    phone: '0444 123456',
+    vat_code: '01234560248',
+};
+
+const HOMEPAGE = `
+<html><body>
+  <nav>
+    <a href="/">Home</a>
+    <a href="/prodotti/pane">Pane</a>
+    <a href="/chi-siamo">Chi siamo</a>
+    <a href="/contatti#mappa">Contatti</a>
+    <a href="/info/privacy-policy">Privacy</a>
+    <a href="https://www.facebook.com/fornobianchi/contatti">Facebook</a>
+    <a href="mailto:info@fornobianchi.it">Scrivici</a>
+  </nav>
+  <script>var contatti = 'no';</script>
+  <h1>Forno Bianchi</h1><p>Pane e dolci dal 1962.</p>
+</body></html>`;
+
+const SITEMAP_INDEX = `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://www.fornobianchi.it/post-sitemap.xml</loc></sitemap>
+  <sitemap><loc>https://www.fornobianchi.it/page-sitemap.xml</loc></sitemap>
+</sitemapindex>`;
+
+const PAGE_SITEMAP = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>https://www.fornobianchi.it/</loc></url>
+  <url><loc>https://www.fornobianchi.it/note-legali</loc></url>
+  <url><loc>https://www.fornobianchi.it/ricette/torta</loc></url>
+</urlset>`;
+
+describe('Evidence crawler', () => {
+    it('ranks same-site contact and legal pages', () => {
+        const { links, text } = extractHtmlEvidence(HOMEPAGE, 'https://www.fornobianchi.it/');
+        expect(text).not.toContain('var contatti');
+        expect(selectEvidencePages(links, 'https://www.fornobianchi.it/')).toEqual([
+            'https://www.fornobianchi.it/contatti',
+            'https://www.fornobianchi.it/info/privacy-policy',
+            'https://www.fornobianchi.it/chi-siamo',
+        ]);
+        expect(evidencePagePriority('https://fornobianchi.it/note-legali')).toBeGreaterThan(evidencePagePriority('https://fornobianchi.it/contatti'));
+        expect(evidencePagePriority('https://fornobianchi.it/p?id=7', 'Dati societari')).toBeGreaterThan(0);
+        expect(evidencePagePriority('https://fornobianchi.it/prodotti')).toBe(0);
+    });
+
+    it('reads page and index sitemaps', () => {
+        expect(parseSitemap(SITEMAP_INDEX)).toEqual({
+            pages: [],
+            sitemaps: ['https://www.fornobianchi.it/post-sitemap.xml', 'https://www.fornobianchi.it/page-sitemap.xml'],
+        });
+        expect(parseSitemap(PAGE_SITEMAP).pages).toHaveLength(3);
+        expect(parseSitemap('not xml')).toEqual({ pages: [], sitemaps: [] });
+    });
+
+    it('fetches evidence pages under the page budget, from links then the sitemap', async () => {
+        const { links } = extractHtmlEvidence(HOMEPAGE, 'https://www.fornobianchi.it/');
+        const homepage = { url: 'https://www.fornobianchi.it/', text: 'Forno Bianchi', links };
+        const fetchPage = vi.fn(async (url: string) => (url.endsWith('/chi-siamo') ? null : `page ${url}`));
+        const fetchSitemap = vi.fn(async (url: string) => (url.endsWith('/sitemap.xml') ? SITEMAP_INDEX : url.includes('page-sitemap') ? PAGE_SITEMAP : null));
+
+        const pages = await crawlEvidencePages(homepage, fetchPage, { maxPages: 4, sitemap: true, fetchSitemap });
+        // index + its page sitemap (the post sitemap is never read)
+        expect(fetchSitemap.mock.calls.map(([url]) => url)).toEqual(['https://www.fornobianchi.it/sitemap.xml', 'https://www.fornobianchi.it/page-sitemap.xml']);
+        expect(fetchPage.mock.calls.map(([url]) => url)).toEqual([
+            'https://www.fornobianchi.it/contatti',
+            'https://www.fornobianchi.it/info/privacy-policy',
+            'https://www.fornobianchi.it/chi-siamo',
+            'https://www.fornobianchi.it/note-legali',
+        ]);
+        // homepage first; chi-siamo had no text
+        expect(pages.map((page) => page.url)).toEqual([
+            'https://www.fornobianchi.it/',
+            'https://www.fornobianchi.it/contatti',
+            'https://www.fornobianchi.it/info/privacy-policy',
+            'https://www.fornobianchi.it/note-legali',
+        ]);
+
+        fetchSitemap.mockClear();
+        expect(await crawlEvidencePages(homepage, fetchPage, { maxPages: 2, sitemap: true, fetchSitemap })).toHaveLength(3);
+        expect(fetchSitemap).not.toHaveBeenCalled();
+        expect(await crawlEvidencePages(homepage, fetchPage, { maxPages: 0 })).toEqual([{ url: homepage.url, text: homepage.text }]);
+    });
+
+    it('only follows child sitemaps on the same host', async () => {
+        const index = `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>http://169.254.169.254/latest/page-sitemap.xml</loc></sitemap>
+  <sitemap><loc>https://cdn.example.com/page-sitemap.xml</loc></sitemap>
+  <sitemap><loc>ftp://fornobianchi.it/page-sitemap.xml</loc></sitemap>
+  <sitemap><loc>https://fornobianchi.it/page-sitemap.xml</loc></sitemap>
+</sitemapindex>`;
+        const fetchSitemap = vi.fn(async (url: string) => (url.endsWith('/sitemap.xml') ? index : PAGE_SITEMAP));
+
+        const pages = await crawlEvidencePages(
+            { url: 'https://www.fornobianchi.it/', text: 'Forno Bianchi', links: [] },
+            vi.fn(async (url: string) => `page ${url}`),
+            { maxPages: 4, sitemap: true, fetchSitemap }
+        );
+        expect(fetchSitemap.mock.calls.map(([url]) => url)).toEqual(['https://www.fornobianchi.it/sitemap.xml', 'https://fornobianchi.it/page-sitemap.xml']);
+        expect(pages.map((page) => page.url)).toContain('https://www.fornobianchi.it/note-legali');
+    });
+
+    it('stops as soon as the caller is satisfied', async () => {
+        const { links } = extractHtmlEvidence(HOMEPAGE, 'https://www.fornobianchi.it/');
+        const fetchPage = vi.fn(async (url: string) => (url.endsWith('/contatti') ? 'Tel. 0444 123456 - P.IVA 01234560248' : 'altro'));
+
+        const pages = await crawlEvidencePages(
+            { url: 'https://www.fornobianchi.it/', text: 'Forno Bianchi', links },
+            fetchPage,
+            { maxPages: 4, sitemap: false, isSatisfied: (fetched) => fetched.some((page) => page.text.includes('P.IVA')) }
+        );
+        expect(pages).toHaveLength(2);
+        expect(fetchPage).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('CompanyMatcher.evaluatePages', () => {
+    it('merges the evidence of several pages and records the page of each signal', () => {
+        const pages = [
+            { url: 'https://www.fornobianchi.it/', text: 'Forno Bianchi - pane e dolci a Vicenza dal 1962' },
+            { url: 'https://www.fornobianchi.it/contatti', text: 'Contatti: Via Roma 12, Vicenza. Tel. 0444 123456' },
+            { url: 'https://www.fornobianchi.it/note-legali', text: 'Forno Bianchi Snc - P.IVA 01234560248' },
+        ];
+        const homepageOnly = CompanyMatcher.evaluatePages(company, pages[0].url, pages.slice(0, 1), 'Forno Bianchi');
+        expect(homepageOnly.signals.vatMatch).toBe(false);
+        expect(homepageOnly.signalSources).toEqual({ name: pages[0].url, city: pages[0].url });
+
+        const withoutVat = CompanyMatcher.evaluatePages(company, pages[0].url, pages.slice(0, 2), 'Forno Bianchi');
+        expect(withoutVat.signals.phoneMatch).toBe(true);
+        expect(withoutVat.signalSources).toMatchObject({ phone: pages[1].url, address: pages[1].url, city: pages[0].url });
+        expect(withoutVat.confidence).toBeGreaterThan(homepageOnly.confidence);
+
+        const all = CompanyMatcher.evaluatePages(company, pages[0].url, pages, 'Forno Bianchi');
+        expect(all).toMatchObject({ confidence: 1, scrapedVat: '01234560248' });
+        expect(all.signalSources?.vat).toBe(pages[2].url);
+    });
+});
@@ -0,0 +1,171 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+    process.env.SQLITE_PATH = ':memory:';
+});
+
+import { initializeDatabase } from '../../src/enricher/db';
+import { initializeResultStore, setResultStore } from '../../src/enricher/db/result_store';
+import { FinancialFigure } from '../../src/enricher/db/model';
+import { DataSource } from '../../src/enricher/utils/data_merger';
+import {
+    extractFinancialFigures,
+    financialExportValues,
+    growthRates,
+    identityFinancialFigures,
+    mergeFinancialFigures,
+    parseEuroCents,
+    parseFiscalYear,
+    parseHeadcount,
+} from '../../src/enricher/core/financial/statement';
+import type { IdentityResult } from '../../src/enricher/core/discovery/identity_resolver';
+
+const REGISTRY = { source: DataSource.REGISTRY, confidence: 1, source_url: 'https://registro.example/acme' };
+
+function revenue(fiscal_year: number, euros: number, confidence: number = 1): FinancialFigure {
+    return { metric: 'revenue', fiscal_year, value: euros * 100, source: DataSource.REGISTRY, confidence };
+}
+
+describe('Financial statement figures', () => {
+    it('parses plain amounts and headcounts', () => {
+        expect(parseEuroCents('€ 1.234.567')).toBe(123_456_700);
+        expect(parseEuroCents('1.234.567,89 €')).toBe(123_456_789);
+        expect(parseEuroCents('1,234,567.89')).toBe(123_456_789);
+        expect(parseEuroCents('1.500')).toBe(150_000);
+        expect(parseEuroCents('12,5')).toBe(1_250);
+        expect(parseEuroCents('-2.299.451')).toBe(-229_945_100);
+        expect(parseEuroCents('(12.345) EUR')).toBe(-1_234_500);
+        expect(parseEuroCents('1,2 mln')).toBeUndefined();
+        expect(parseEuroCents('tra 1 e 2 milioni')).toBeUndefined();
+
+        expect(parseHeadcount('1.250')).toBe(1250);
+        expect(parseHeadcount('15')).toBe(15);
+        expect(parseHeadcount('10-19')).toBeUndefined();
+        expect(parseHeadcount('12 (AI Est.)')).toBeUndefined();
+
+        expect(parseFiscalYear('Fatturato 2023: € 1.234.567')).toBe(2023);
+        expect(parseFiscalYear('Bilancio al 31/12/2022')).toBe(2022);
+        expect(parseFiscalYear('Nessun dato')).toBeUndefined();
+    });
+
+    it('extracts dated figures from a registry page', () => {
+        const text = `
+            Fatturato 2022: € 1.000.000 Fatturato 2023: € 1.250.000
+            Perdita d'esercizio (2023) 45.000 Utile 2022 12.000,50
+            Margine operativo lordo 2023: 150.000 Costo del personale 2023 € 300.000
+            Dipendenti: 15.
+        `;
+        const figures = extractFinancialFigures(text, { ...REGISTRY, fiscal_year: 2023 });
+
+        expect(figures.map((figure) => [figure.metric, figure.fiscal_year, figure.value])).toEqual([
+            ['revenue', 2022, 100_000_000],
+            ['revenue', 2023, 125_000_000],
+            ['net_income', 2022, 1_200_050],
+            ['net_income', 2023, -4_500_000],
+            ['ebitda', 2023, 15_000_000],
+            ['personnel_cost', 2023, 30_000_000],
+            ['employees', 2023, 15],
+        ]);
+        expect(figures[0]).toMatchObject({ source: DataSource.REGISTRY, confidence: 1, source_url: 'https://registro.example/acme' });
+    });
+
+    it('skips undated and ranged values and trusts rounded ones less', () => {
+        expect(extractFinancialFigures('Fatturato: € 1.000.000', REGISTRY)).toEqual([]);
+        expect(extractFinancialFigures('Fatturato 2023', REGISTRY)).toEqual([]);
+        expect(extractFinancialFigures('Fatturato 2023: 1 - 2 milioni', REGISTRY)).toEqual([]);
+        expect(extractFinancialFigures('Dipendenti 2023: 10-19', REGISTRY)).toEqual([]);
+        expect(extractFinancialFigures('Fatturato 2023: 1,2 mln', REGISTRY)).toEqual([
+            { metric: 'revenue', fiscal_year: 2023, value: 120_000_000, source: DataSource.REGISTRY, confidence: 0.9, source_url: 'https://registro.example/acme' },
+        ]);
+    });
+
+    it('dates the figures of an identity profile and lowers uncertain matches', () => {
+        const identity: IdentityResult = {
+            legal_name: 'Acme Srl',
+            vat_number: '01234567890',
+            confidence: 'MEDIUM',
+            source_url: 'https://directory.example/acme',
+            financials: { revenue: '€ 800.000', profit: '-5.000', employees: '7', year: '2022' },
+        } as IdentityResult;
+
+        expect(identityFinancialFigures(identity)).toEqual([
+            { metric: 'revenue', fiscal_year: 2022, value: 80_000_000, source: DataSource.FINANCIAL_DIRECTORY, confidence: 0.6, source_url: 'https://directory.example/acme' },
+            { metric: 'net_income', fiscal_year: 2022, value: -500_000, source: DataSource.FINANCIAL_DIRECTORY, confidence: 0.6, source_url: 'https://directory.example/acme' },
+            { metric: 'employees', fiscal_year: 2022, value: 7, source: DataSource.FINANCIAL_DIRECTORY, confidence: 0.6, source_url: 'https://directory.example/acme' },
+        ]);
+        expect(identityFinancialFigures({ ...identity, financials: { revenue: '€ 800.000' } })).toEqual([]);
+        expect(identityFinancialFigures(null)).toEqual([]);
+    });
+
+    it('keeps the most confident figure per metric and year', () => {
+        const directory = { ...revenue(2023, 900_000, 0.75), source: DataSource.FINANCIAL_DIRECTORY };
+        const merged = mergeFinancialFigures([directory, revenue(2022, 1_000_000, 0.75)], [revenue(2023, 1_200_000)]);
+        expect(merged.map((figure) => [figure.fiscal_year, figure.value])).toEqual([[2022, 100_000_000], [2023, 120_000_000]]);
+        expect(mergeFinancialFigures([directory], [{ ...directory, value: 1 }])[0].value).toBe(90_000_000);
+    });
+
+    it('computes growth over consecutive years and the export columns', () => {
+        const figures = [revenue(2020, 0), revenue(2021, 800_000), revenue(2022, 1_000_000), revenue(2023, 1_200_000)];
+        expect(growthRates(figures, 'revenue')).toEqual([
+            { from_year: 2021, to_year: 2022, rate: 0.25 },
+            { from_year: 2022, to_year: 2023, rate: 0.2 },
+        ]);
+        expect(growthRates([revenue(2020, 100), revenue(2022, 200)], 'revenue')).toEqual([]);
+        expect(growthRates([revenue(2022, -100), revenue(2023, 50)], 'revenue')[0].rate).toBe(1.5);
+
+        expect(financialExportValues([
+            ...figures,
+            { metric: 'employees', fiscal_year: 2021, value: 10, source: DataSource.REGISTRY, confidence: 1 },
+            { metric: 'employees', fiscal_year: 2023, value: 14, source: DataSource.REGISTRY, confidence: 1 },
+        ])).toEqual({
+            revenue_year: 2023,
+            revenue_eur: 1_200_000,
+            revenue_growth_pct: 20,
+            revenue_history: '2020: 0; 2021: 800000; 2022: 1000000; 2023: 1200000',
+            revenue_min_eur: 1_200_000,
+            revenue_max_eur: 1_200_000,
+            revenue_estimate_eur: 1_200_000,
+            net_income_eur: undefined,
+            ebitda_eur: undefined,
+            personnel_cost_eur: undefined,
+            employees_count: 14,
+            // 2022 is missing: no growth into the latest year
+            employees_growth_pct: undefined,
+        });
+        // The free-text revenue gives the band when it reads as euros
+        expect(financialExportValues(figures, '€ tra 2 e 5 milioni')).toMatchObject({ revenue_eur: 1_200_000, revenue_min_eur: 2_000_000, revenue_max_eur: 5_000_000, revenue_estimate_eur: 3_500_000 });
+        expect(financialExportValues([], 'oltre 50 milioni')).toMatchObject({ revenue_min_eur: 50_000_000, revenue_max_eur: undefined, revenue_estimate_eur: 50_000_000 });
+        expect(financialExportValues([], '$ 2,000,000')).toMatchObject({ revenue_min_eur: undefined, revenue_estimate_eur: undefined });
+    });
+});
+
+describe('Financial figures in the SQLite store', () => {
+    initializeDatabase();
+    beforeAll(async () => {
+        await initializeResultStore();
+    });
+    afterAll(() => setResultStore(null));
+
+    it('upserts figures by confidence and exports them with their growth', async () => {
+        const store = await initializeResultStore();
+        const company = { id: 'fin-acme', company_name: 'Acme Srl', city: 'Torino' };
+        await store.insertCompanies([company]);
+
+        await store.saveFinancialFigures(company.id, [revenue(2022, 1_000_000, 0.75), revenue(2023, 1_200_000)]);
+        await store.saveFinancialFigures(company.id, [revenue(2022, 1_100_000), revenue(2023, 900_000, 0.75)]);
+        expect((await store.listFinancialFigures(company.id)).map((figure) => [figure.fiscal_year, figure.value, figure.confidence])).toEqual([
+            [2022, 110_000_000, 1],
+            [2023, 120_000_000, 1],
+        ]);
+
+        await store.insertEnrichmentResult({ id: `er-${company.id}`, company_id: company.id, is_estimated_employees: false, lead_score: 70 });
+        const outputPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'financials-')), 'export.csv');
+        await store.exportEnrichedToCSV(outputPath);
+        const [header, row] = fs.readFileSync(outputPath, 'utf-8').split('\n');
+        expect(header.endsWith(',revenue_year,revenue_eur,revenue_growth_pct,revenue_history,revenue_min_eur,revenue_max_eur,revenue_estimate_eur,net_income_eur,ebitda_eur,personnel_cost_eur,employees_count,employees_growth_pct')).toBe(true);
+        expect(row.endsWith('"2023","1200000","9.1","2022: 1100000; 2023: 1200000","1200000","1200000","1200000","","","","",""')).toBe(true);
+    });
+});
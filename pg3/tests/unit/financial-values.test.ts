@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { FinancialPatterns } from '../../src/enricher/core/financial/patterns';
+import { BilancioHunter } from '../../src/foundation/BilancioHunter';
+import type { NormalizedInput } from '../../src/foundation/InputNormalizer';
+import type { SerpDeduplicator } from '../../src/foundation/SerpDeduplicator';
+import {
+    FinancialValue,
+    ParseFinancialValueOptions,
+    parseFinancialValue,
+    parseItalianNumber,
+} from '../../src/enricher/core/financial/value_parser';
+
+interface ValueFixture {
+    input: string;
+    options?: ParseFinancialValueOptions;
+    expected: FinancialValue | null;
+}
+
+const FIXTURES = JSON.parse(
+    fs.readFileSync(path.join(__dirname, '../fixtures/financial-values.json'), 'utf-8')
+) as ValueFixture[];
+
+const INPUT: NormalizedInput = { company_name: 'Acme Srl', company_name_variants: [], city: 'Torino', quality_score: 1 };
+
+function hunterFor(snippet: string): BilancioHunter {
+    const dedup = { search: async () => ({ results: [{ url: 'https://bilanci.example/acme.pdf', snippet }] }) };
+    return new BilancioHunter(dedup as unknown as SerpDeduplicator);
+}
+
+function revenueText(text: string): string | undefined {
+    for (const pattern of FinancialPatterns.REVENUE) {
+        const match = text.match(pattern);
+        if (match) {
+            return match[1];
+        }
+    }
+    return undefined;
+}
+
+describe('Financial value parser', () => {
+    it.each(FIXTURES.map((fixture) => [fixture.input, fixture] as const))('parses %j', (_input, fixture) => {
+        expect(parseFinancialValue(fixture.input, fixture.options) ?? null).toEqual(fixture.expected);
+    });
+
+    it('reads plain numbers in Italian and English notation', () => {
+        expect(parseItalianNumber('1.234.567,89')).toBe(1234567.89);
+        expect(parseItalianNumber('1,234,567.89')).toBe(1234567.89);
+        expect(parseItalianNumber('1.500')).toBe(1500);
+        expect(parseItalianNumber('1.5')).toBe(1.5);
+        expect(parseItalianNumber('12,5')).toBe(12.5);
+        expect(parseItalianNumber('1.234,5.6')).toBeUndefined();
+        expect(parseItalianNumber('-5')).toBeUndefined();
+    });
+
+    it('isolates ranges and bounds from page text', () => {
+        expect(revenueText('Fatturato: € 1.5 mln nel 2023')).toBe('1.5 mln');
+        expect(revenueText('Fatturato 2023: € 1.500.000 - Dipendenti: 12')).toBe('1.500.000');
+        expect(revenueText('Fatturato compreso tra 2 e 5 milioni di euro')).toBe('tra 2 e 5 milioni');
+        expect(revenueText('Fatturato: < 500.000 €')).toBe('< 500.000 €');
+        expect(revenueText('Ricavi: oltre 50 milioni')).toBe('oltre 50 milioni');
+        expect(revenueText('Fatturato di circa 800 mila euro')).toBe('circa 800 mila');
+        expect(revenueText("Volume d'affari: 2-5 mln")).toBe('2-5 mln');
+        expect(parseFinancialValue(revenueText('Fatturato (2022): tra 2 e 5 milioni'), { year: 2022 })).toMatchObject({
+            kind: 'range',
+            estimate: 3_500_000,
+            year: 2022,
+        });
+    });
+
+    it('reads bilancio snippets into numbers', async () => {
+        expect(await hunterFor('Bilancio al 31/12/2022. Fatturato 2023: € 1.500.000, utile 12.000').hunt('c1', INPUT)).toMatchObject({
+            fatturato_current: 1_500_000,
+            year: 2023,
+            source_url: 'https://bilanci.example/acme.pdf',
+        });
+        expect(await hunterFor('Acme Srl, bilancio 2021: fatturato compreso tra 2 e 5 milioni di euro').hunt('c1', INPUT)).toMatchObject({
+            fatturato_current: 3_500_000,
+            fatturato_value: { kind: 'range', min: 2_000_000, max: 5_000_000, year: 2021 },
+            year: 2021,
+        });
+        expect((await hunterFor('Acme Srl, sede a Torino dal 2015').hunt('c1', INPUT))?.fatturato_current).toBeUndefined();
+    });
+});
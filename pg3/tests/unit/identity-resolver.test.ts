@@ -0,0 +1,30 @@
+import { describe, expect, it, vi } from 'vitest';
+
+const { searchSerp } = vi.hoisted(() => ({ searchSerp: vi.fn() }));
+
+vi.mock('../../src/enricher/core/discovery/serp/registry', () => ({ searchSerp }));
+
+import { IdentityResolver } from '../../src/enricher/core/discovery/identity_resolver';
+
+const outcome = (provider: string, urls: string[]) => ({
+    results: urls.map((url) => ({ url, title: url, source: provider })),
+    provider,
+    attempts: [],
+    cost_eur: 0,
+});
+
+describe('IdentityResolver', () => {
+    it('looks profile pages up through the SERP registry, Bing then Serper', async () => {
+        searchSerp
+            .mockResolvedValueOnce(outcome('bing', ['https://www.rossisrl.it/', 'https://www.paginegialle.it/verona/rossi']))
+            .mockResolvedValueOnce(outcome('serper', ['https://www.rossisrl.it/', 'https://www.fatturatoitalia.it/rossi-srl-verona/01114601006']));
+        const resolver = new IdentityResolver() as any;
+
+        const query = 'site:fatturatoitalia.it "Rossi Srl" "Verona"';
+        expect(await resolver.findProfileUrl(query)).toBe('https://www.fatturatoitalia.it/rossi-srl-verona/01114601006');
+        expect(searchSerp.mock.calls).toEqual([[query, { providers: ['bing'] }], [query, { providers: ['serper'] }]]);
+
+        searchSerp.mockReset().mockResolvedValue(outcome('bing', []));
+        expect(await resolver.findProfileUrl(query)).toBeNull();
+    });
+});
@@ -0,0 +1,202 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+    process.env.SQLITE_PATH = ':memory:';
+});
+
+const { queuedTask, otherJobTask, enqueueScrapeTasks } = vi.hoisted(() => ({
+    queuedTask: { id: 'scrape-queued', data: { job_id: 'PENDING' }, remove: vi.fn() },
+    otherJobTask: { id: 'scrape-other', data: { job_id: 'job-other' }, remove: vi.fn() },
+    enqueueScrapeTasks: vi.fn(),
+}));
+
+vi.mock('../../src/enricher/queue', () => ({
+    enqueueScrapeTasks,
+    scrapeQueue: { getJobs: vi.fn().mockResolvedValue([queuedTask, otherJobTask]) },
+    enrichmentQueue: { getJobs: vi.fn().mockResolvedValue([]) },
+    discoveryQueue: { getJobs: vi.fn().mockResolvedValue([]) },
+    financialQueue: { getJobs: vi.fn().mockResolvedValue([]) },
+}));
+
+import { completeRunIfDone, createRun, getRun, initializeDatabase, insertCompany, logJobResult } from '../../src/enricher/db';
+import { JobRecord, RunRecord } from '../../src/enricher/db/model';
+import { initializeResultStore } from '../../src/enricher/db/result_store';
+import {
+    buildScrapeTasks,
+    cancelJob,
+    computeJobProgress,
+    createJob,
+    getJobDetails,
+    listJobRecords,
+    parseTargetList,
+    settleJob,
+    settleJobForRun,
+} from '../../src/enricher/queue/jobs';
+import { campaignFile } from '../../src/scraper/campaign';
+import { NotFoundError, ValidationError } from '../../src/utils/errors';
+
+function jobRecord(overrides: Partial<JobRecord>): JobRecord {
+    return {
+        id: 'job-x',
+        niches: ['idraulici'],
+        locations: ['Verona'],
+        enrich: true,
+        total_tasks: 2,
+        status: 'SCRAPING',
+        completed_tasks: 0,
+        failed_tasks: 0,
+        created_at: '2026-01-01T00:00:00.000Z',
+        updated_at: '2026-01-01T00:00:00.000Z',
+        ...overrides,
+    };
+}
+
+function runRecord(overrides: Partial<RunRecord>): RunRecord {
+    return {
+        id: 'run-x',
+        status: 'RUNNING',
+        loaded: 0,
+        enqueued: 0,
+        skipped: 0,
+        succeeded: 0,
+        failed: 0,
+        created_at: '2026-01-01T00:00:00.000Z',
+        updated_at: '2026-01-01T00:00:00.000Z',
+        ...overrides,
+    };
+}
+
+describe('Job API', () => {
+    initializeDatabase();
+    beforeAll(async () => {
+        await initializeResultStore();
+    });
+
+    it('parses comma separated targets, trimming and de-duplicating', () => {
+        expect(parseTargetList(' idraulici, Elettricisti ,,IDRAULICI ')).toEqual(['idraulici', 'Elettricisti']);
+        expect(parseTargetList(['Verona', ' verona', 'Padova'])).toEqual(['Verona', 'Padova']);
+        expect(parseTargetList(undefined)).toEqual([]);
+    });
+
+    it('builds one scrape task per niche x location combination', () => {
+        const tasks = buildScrapeTasks('job-1', ['idraulici', 'elettricisti'], ['Verona', 'Padova', 'Vicenza'], { limit: 50, enrich: true });
+        expect(tasks).toHaveLength(6);
+        expect(tasks.map((task) => task.task_index)).toEqual([0, 1, 2, 3, 4, 5]);
+        expect(tasks[4]).toEqual({
+            job_id: 'job-1',
+            task_index: 4,
+            niche: 'elettricisti',
+            location: 'Padova',
+            company_limit: 50,
+            enrich: true,
+        });
+    });
+
+    it('weighs scrape and enrichment progress equally when enriching', () => {
+        const job = jobRecord({ completed_tasks: 1, total_tasks: 2 });
+        const progress = computeJobProgress(job, [runRecord({ enqueued: 4, succeeded: 1, failed: 1 })]);
+        expect(progress.scrape.percent).toBe(50);
+        expect(progress.enrichment).toMatchObject({ runs: 1, enqueued: 4, succeeded: 1, failed: 1, percent: 50 });
+        expect(progress.percent).toBe(50);
+
+        expect(computeJobProgress(jobRecord({ enrich: false, completed_tasks: 1, failed_tasks: 1 }), []).percent).toBe(100);
+        expect(computeJobProgress(jobRecord({ status: 'COMPLETED', completed_tasks: 0 }), []).percent).toBe(100);
+    });
+
+    it('rejects jobs without targets, with too many combinations or a bad limit', async () => {
+        await expect(createJob({ niches: '', locations: 'Verona' })).rejects.toBeInstanceOf(ValidationError);
+        const many = Array.from({ length: 11 }, (_, i) => `city-${i}`);
+        const niches = Array.from({ length: 10 }, (_, i) => `niche-${i}`);
+        await expect(createJob({ niches, locations: many })).rejects.toThrow(/Too many/);
+        await expect(createJob({ niches: 'a', locations: 'b', limit: 0 })).rejects.toBeInstanceOf(ValidationError);
+        expect(enqueueScrapeTasks).not.toHaveBeenCalled();
+    });
+
+    it('rejects targets with path separators or control characters', async () => {
+        for (const locations of ['../../../../tmp/x', 'Verona\\..\\x', 'Verona\nPadova']) {
+            await expect(createJob({ niches: 'idraulici', locations })).rejects.toThrow(/Invalid niche or location/);
+        }
+        await expect(createJob({ niches: ['idraulici/../x'], locations: 'Verona' })).rejects.toBeInstanceOf(ValidationError);
+        expect(enqueueScrapeTasks).not.toHaveBeenCalled();
+
+        // Campaign CSVs stay in the output directory whatever the city
+        expect(campaignFile('output/campaigns/job-1', '../../../../some/dir/x', '0-idraulici')).toBe('output/campaigns/job-1/campaign_some-dir-x_0-idraulici.csv');
+        expect(campaignFile('out', 'Forlì Cesena', '2026-10-19')).toBe('out/campaign_forli-cesena_2026-10-19.csv');
+    });
+
+    it('hands the discovery budget of a job to its scrape tasks', async () => {
+        await expect(createJob({ niches: 'idraulici', locations: 'Verona', discovery_budget_eur: -1 })).rejects.toThrow(/discovery budget/);
+        await expect(createJob({ niches: 'idraulici', locations: 'Verona', discovery_budget_eur: Number.NaN })).rejects.toBeInstanceOf(ValidationError);
+        expect(enqueueScrapeTasks).not.toHaveBeenCalled();
+
+        expect(buildScrapeTasks('job-b', ['idraulici'], ['Verona'], { enrich: true, discoveryBudgetEur: 0.01 })[0]).toMatchObject({ discovery_budget_eur: 0.01 });
+        expect(buildScrapeTasks('job-b', ['idraulici'], ['Verona'], { enrich: true })[0]).not.toHaveProperty('discovery_budget_eur');
+    });
+
+    it('persists the job and enqueues every combination', async () => {
+        const { job, tasks } = await createJob({ niches: 'idraulici, elettricisti', locations: 'Verona, Padova', limit: 20 });
+        expect(tasks).toBe(4);
+        expect(job).toMatchObject({ status: 'QUEUED', total_tasks: 4, company_limit: 20, enrich: true, niches: ['idraulici', 'elettricisti'] });
+        expect(enqueueScrapeTasks).toHaveBeenCalledTimes(1);
+        expect(enqueueScrapeTasks.mock.calls[0][0]).toHaveLength(4);
+
+        const details = await getJobDetails(job.id);
+        expect(details.logs.map((event) => event.message)).toEqual([expect.stringContaining('Queued 4 scrape task(s)')]);
+        expect(details.progress.percent).toBe(0);
+    });
+
+    it('marks the job FAILED when the tasks cannot be enqueued', async () => {
+        enqueueScrapeTasks.mockRejectedValueOnce(new Error('redis down'));
+        await expect(createJob({ niches: 'a', locations: 'b' })).rejects.toThrow('redis down');
+        const [failed] = await listJobRecords({ statuses: ['FAILED'] });
+        expect(failed).toMatchObject({ niches: ['a'], error: 'redis down' });
+    });
+
+    it('moves a job through ENRICHING to COMPLETED as its runs finish', async () => {
+        const { job } = await createJob({ niches: 'idraulici', locations: 'Verona' });
+        const store = await initializeResultStore();
+
+        await store.updateJobStatus(job.id, 'SCRAPING');
+        await store.recordJobTaskOutcome(job.id, 'completed');
+        createRun({ id: 'run-job-t0', job_id: job.id, loaded: 1, enqueued: 1, skipped: 0 });
+
+        expect((await settleJob(job.id))?.status).toBe('ENRICHING');
+
+        insertCompany({ id: 'job-co', company_name: 'Job Co' });
+        logJobResult('job-co', 'SUCCESS', 1, 1, undefined, undefined, 'OK', 'run-job-t0', 'financial');
+        expect(completeRunIfDone('run-job-t0')).toBe(true);
+        await settleJobForRun('run-job-t0');
+
+        const details = await getJobDetails(job.id);
+        expect(details.job.status).toBe('COMPLETED');
+        expect(details.job.finished_at).toBeTruthy();
+        expect(details.progress.percent).toBe(100);
+        expect(details.runs.map((run) => run.id)).toEqual(['run-job-t0']);
+    });
+
+    it('fails a job whose scrape tasks all failed', async () => {
+        const { job } = await createJob({ niches: 'idraulici', locations: 'Verona, Padova' });
+        const store = await initializeResultStore();
+        await store.recordJobTaskOutcome(job.id, 'failed');
+        expect((await settleJob(job.id))?.status).toBe('QUEUED');
+        await store.recordJobTaskOutcome(job.id, 'failed');
+        expect(await settleJob(job.id)).toMatchObject({ status: 'FAILED', error: 'All scrape tasks failed' });
+    });
+
+    it('cancels queued scrape tasks and running enrichment runs', async () => {
+        const { job } = await createJob({ niches: 'idraulici', locations: 'Verona, Padova' });
+        queuedTask.data.job_id = job.id;
+        createRun({ id: 'run-cancel-t0', job_id: job.id, loaded: 1, enqueued: 1, skipped: 0 });
+
+        const result = await cancelJob(job.id);
+        expect(result.job.status).toBe('CANCELLED');
+        expect(result.removed).toBe(1);
+        expect(result.cancelled_runs).toEqual(['run-cancel-t0']);
+        expect(queuedTask.remove).toHaveBeenCalledTimes(1);
+        expect(otherJobTask.remove).not.toHaveBeenCalled();
+        expect(getRun('run-cancel-t0')?.status).toBe('CANCELLED');
+
+        await expect(cancelJob(job.id)).rejects.toBeInstanceOf(ValidationError);
+        await expect(cancelJob('job-missing')).rejects.toBeInstanceOf(NotFoundError);
+    });
+});
@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AntigravityClient } from '../../src/enricher/observability/antigravity_client';
+import { CompanyUpdateEvent, isCompanyUpdateEvent, withLiveContext } from '../../src/enricher/observability/live_events';
+import {
+    computeThroughputPerMinute,
+    formatSseMessage,
+    LiveHubSources,
+    LiveProgressHub,
+} from '../../src/enricher/observability/live_hub';
+import type { JobDetails } from '../../src/enricher/queue/jobs';
+
+function companyEvent(overrides: Partial<CompanyUpdateEvent>): CompanyUpdateEvent {
+    return { company_name: 'Alfa Srl', status: 'SEARCHING', timestamp: '2026-03-01T10:00:00.000Z', ...overrides };
+}
+
+function parseStream(write: ReturnType<typeof vi.fn>): Array<{ event: string; data: any }> {
+    return write.mock.calls.map(([chunk]: string[]) => {
+        const event = /^event: (.+)$/m.exec(chunk)?.[1] ?? '';
+        const data = chunk.split('\n').filter((line) => line.startsWith('data: ')).map((line) => line.slice(6)).join('\n');
+        return { event, data: JSON.parse(data) };
+    });
+}
+
+const jobDetails = {
+    job: { id: 'job-1', status: 'ENRICHING' },
+    progress: { percent: 60 },
+    runs: [{ id: 'run-job-1-t0' }],
+    logs: [],
+    artifacts: [],
+} as unknown as JobDetails;
+
+function createSources(): LiveHubSources {
+    return {
+        getQueueCounts: vi.fn().mockResolvedValue({ enrichment: { waiting: 4, active: 2, delayed: 0, completed: 10, failed: 1 } }),
+        listActiveJobs: vi.fn().mockResolvedValue([{ job: jobDetails.job, progress: jobDetails.progress }]),
+        getJobDetails: vi.fn().mockResolvedValue(jobDetails),
+    };
+}
+
+describe('Live events', () => {
+    let hub: LiveProgressHub | undefined;
+
+    afterEach(() => {
+        hub?.stop();
+    });
+
+    it('formats SSE messages and computes throughput per minute', () => {
+        expect(formatSseMessage('stats', { a: 1 }, 7)).toBe('event: stats\nid: 7\ndata: {"a":1}\n\n');
+        const now = 120_000;
+        expect(computeThroughputPerMinute([now - 70_000, now - 30_000, now - 10_000, now - 1], now, 60_000)).toBe(3);
+        expect(computeThroughputPerMinute([now - 1_000], now, 30_000)).toBe(2);
+    });
+
+    it('tags company updates with the live context and hands them to sinks', () => {
+        const received: CompanyUpdateEvent[] = [];
+        const removeSink = AntigravityClient.getInstance().addSink((event) => received.push(event));
+
+        withLiveContext({ run_id: 'run-7' }, () => {
+            AntigravityClient.getInstance().trackCompanyUpdate({ company_name: 'Beta Spa', website: 'https://beta.it' }, 'ENRICHED', { confidence: 0.9 });
+        });
+        AntigravityClient.getInstance().trackCompanyUpdate({ company_name: 'Gamma' }, 'FAILED');
+        removeSink();
+        AntigravityClient.getInstance().trackCompanyUpdate({ company_name: 'Ignored' }, 'FOUND');
+
+        expect(received).toHaveLength(2);
+        expect(received[0]).toMatchObject({ company_name: 'Beta Spa', status: 'ENRICHED', run_id: 'run-7', confidence: 0.9 });
+        expect(received[1].run_id).toBeUndefined();
+        expect(received.every(isCompanyUpdateEvent)).toBe(true);
+        expect(isCompanyUpdateEvent({ company_name: 'x', status: 'DONE', timestamp: 'now' })).toBe(false);
+    });
+
+    it('streams a snapshot, company updates and queue stats to every client', async () => {
+        hub = new LiveProgressHub(createSources(), { intervalMs: 60_000, recentLimit: 2, throughputWindowMs: 60_000 });
+        hub.publish(companyEvent({ company_name: 'Old' }));
+        hub.publish(companyEvent({ company_name: 'A', status: 'ENRICHED', timestamp: new Date().toISOString() }));
+        hub.publish(companyEvent({ company_name: 'B', status: 'FAILED', timestamp: new Date().toISOString() }));
+
+        const write = vi.fn();
+        hub.addClient({ write });
+        await hub.tick();
+        hub.publish(companyEvent({ company_name: 'C', status: 'FOUND', job_id: 'job-x' }));
+
+        const messages = parseStream(write);
+        expect(messages[0]).toEqual({ event: 'snapshot', data: { recent: [expect.objectContaining({ company_name: 'A' }), expect.objectContaining({ company_name: 'B' })], stats: null } });
+        const stats = messages.find((message) => message.event === 'stats')!.data;
+        expect(stats.queues.enrichment).toMatchObject({ waiting: 4, active: 2 });
+        expect(stats.throughput_per_min).toBe(2);
+        expect(stats.active_jobs).toEqual([{ id: 'job-1', status: 'ENRICHING', percent: 60 }]);
+        expect(messages[messages.length - 1]).toMatchObject({ event: 'company', data: { company_name: 'C' } });
+        expect(messages.some((message) => message.event === 'job')).toBe(false);
+    });
+
+    it('scopes company updates and job progress to the followed job and its runs', async () => {
+        const sources = createSources();
+        hub = new LiveProgressHub(sources, { intervalMs: 60_000, recentLimit: 10, throughputWindowMs: 60_000 });
+        const write = vi.fn();
+        const remove = hub.addClient({ write }, { job_id: 'job-1' });
+        await hub.tick();
+
+        hub.publish(companyEvent({ company_name: 'Scraped', status: 'FOUND', job_id: 'job-1' }));
+        hub.publish(companyEvent({ company_name: 'Enriched', status: 'ENRICHED', run_id: 'run-job-1-t0' }));
+        hub.publish(companyEvent({ company_name: 'Other', status: 'ENRICHED', run_id: 'run-other' }));
+
+        const messages = parseStream(write);
+        expect(sources.getJobDetails).toHaveBeenCalledWith('job-1', 20);
+        expect(messages.find((message) => message.event === 'job')?.data).toMatchObject({ job: { id: 'job-1' }, progress: { percent: 60 } });
+        expect(messages.filter((message) => message.event === 'company').map((message) => message.data.company_name)).toEqual(['Scraped', 'Enriched']);
+
+        remove();
+        expect(hub.clientCount).toBe(0);
+    });
+
+    it('only streams a tenant its own company updates and jobs', async () => {
+        const sources = createSources();
+        (sources.listActiveJobs as ReturnType<typeof vi.fn>).mockResolvedValue([
+            { job: { ...jobDetails.job, tenant_id: 'acme' }, progress: jobDetails.progress },
+            { job: { id: 'job-2', status: 'SCRAPING', tenant_id: 'globex' }, progress: { percent: 10 } },
+        ]);
+        hub = new LiveProgressHub(sources, { intervalMs: 60_000, recentLimit: 10, throughputWindowMs: 60_000 });
+        const write = vi.fn();
+        hub.addClient({ write }, { tenant_id: 'acme' });
+        await hub.tick();
+
+        hub.publish(companyEvent({ company_name: 'Mine', tenant_id: 'acme' }));
+        hub.publish(companyEvent({ company_name: 'Theirs', tenant_id: 'globex' }));
+        hub.publish(companyEvent({ company_name: 'Operator' }));
+
+        const messages = parseStream(write);
+        expect(messages.find((message) => message.event === 'stats')!.data.active_jobs).toEqual([
+            { id: 'job-1', tenant_id: 'acme', status: 'ENRICHING', percent: 60 },
+        ]);
+        expect(messages.filter((message) => message.event === 'company').map((message) => message.data.company_name)).toEqual(['Mine']);
+    });
+});
@@ -0,0 +1,319 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DataType, newDb } from 'pg-mem';
+import type { Pool } from 'pg';
+import { PostgresResultStore } from '../../src/enricher/db/postgres_store';
+import { DataSource } from '../../src/enricher/utils/data_merger';
+
+function createEmbeddedPool(): Pool {
+    const mem = newDb();
+    // Single in-process connection: migration locking is a no-op here
+    mem.public.registerFunction({
+        name: 'pg_advisory_xact_lock',
+        args: [DataType.integer],
+        returns: DataType.integer,
+        implementation: () => 0,
+    });
+    const { Pool: MemPool } = mem.adapters.createPg();
+    return new MemPool() as unknown as Pool;
+}
+
+describe('PostgresResultStore', () => {
+    const store = new PostgresResultStore(createEmbeddedPool());
+
+    afterAll(async () => {
+        await store.close();
+    });
+
+    it('applies the schema once and stores companies', async () => {
+        await store.initialize();
+        await store.initialize();
+
+        await store.insertCompanies([
+            { id: 'pg-a', company_name: 'Alfa Srl', city: 'Torino' },
+            { id: 'pg-b', company_name: 'Beta Spa', city: 'Milano' },
+        ]);
+        await store.insertCompanies([{ id: 'pg-a', company_name: 'Alfa Srl', city: 'Torino', website: 'https://alfa.it' }]);
+
+        expect(await store.getCompanyById('pg-a')).toMatchObject({ company_name: 'Alfa Srl', website: 'https://alfa.it', source: 'CSV' });
+        expect(await store.getCompanyById('missing')).toBeUndefined();
+    });
+
+    it('materializes enrichment results from the version history', async () => {
+        await store.insertEnrichmentResult({
+            id: 'er-pg-a',
+            company_id: 'pg-a',
+            vat: '01114601006',
+            employees: '12',
+            is_estimated_employees: false,
+            website_validated: 'https://alfa.it',
+            discovery_confidence: 0.9,
+        }, {
+            run_id: 'run-pg-1',
+            fields: {
+                vat: { source: DataSource.VIES, confidence: 0.95 },
+                employees: { source: DataSource.AI },
+            },
+        });
+        // Second run: empty vat is ignored (not in provenance), revenue is new
+        await store.insertEnrichmentResult({
+            id: 'er-pg-a',
+            company_id: 'pg-a',
+            revenue: '€ 2.000.000',
+            is_estimated_employees: false,
+            lead_score: 80,
+        }, {
+            run_id: 'run-pg-2',
+            fields: { revenue: { source: DataSource.REGISTRY } },
+        });
+
+        const result = await store.getEnrichmentResult('pg-a');
+        expect(result).toMatchObject({
+            vat: '01114601006',
+            revenue: '€ 2.000.000',
+            employees: '12',
+            is_estimated_employees: true,
+            lead_score: 80,
+        });
+
+        const history = await store.getEnrichmentHistory('pg-a');
+        expect(history.map((v) => v.field)).toEqual(['vat', 'employees', 'website_validated', 'revenue']);
+        expect(typeof history[0].recorded_at).toBe('string');
+
+        const atRun1 = await store.getEnrichmentSnapshot('pg-a', 'run-pg-1');
+        expect(atRun1.revenue).toBeUndefined();
+        expect(atRun1.vat).toMatchObject({ value: '01114601006', source: DataSource.VIES, confidence: 0.95 });
+        expect(await store.getEnrichmentSnapshot('pg-a', 'unknown-run')).toEqual({});
+    });
+
+    it('tracks runs, job log and stage results', async () => {
+        await store.createRun({ id: 'run-pg-3', mode: 'FAST_RUN1', loaded: 2, enqueued: 2, skipped: 0 });
+        await store.logJobResult({ company_id: 'pg-a', status: 'RETRYING', duration_ms: 5.4, attempt: 1, run_id: 'run-pg-3', stage: 'discovery' });
+        await store.logJobResult({ company_id: 'pg-a', status: 'SUCCESS', duration_ms: 10, attempt: 2, run_id: 'run-pg-3', stage: 'financial' });
+        expect(await store.completeRunIfDone('run-pg-3')).toBe(false);
+
+        await store.logJobResult({
+            company_id: 'pg-b',
+            status: 'FAILED',
+            duration_ms: 3,
+            attempt: 3,
+            error_message: 'boom',
+            error_category: 'LOGIC',
+            reason_code: 'ERROR_INTERNAL',
+            run_id: 'run-pg-3',
+            stage: 'financial',
+        });
+        expect(await store.completeRunIfDone('run-pg-3')).toBe(true);
+        expect(await store.completeRunIfDone('run-pg-3')).toBe(false);
+
+        const run = await store.getRun('run-pg-3');
+        expect(run).toMatchObject({ status: 'COMPLETED', succeeded: 1, failed: 1, enqueued: 2 });
+        expect(run?.finished_at).toBeTruthy();
+        expect((await store.listRuns(10)).map((r) => r.id)).toContain('run-pg-3');
+
+        await store.updateRunStatus('run-pg-3', 'CANCELLED');
+        expect((await store.getRun('run-pg-3'))?.status).toBe('CANCELLED');
+
+        expect(await store.getLatestJobFailure('pg-b')).toMatchObject({ reason_code: 'ERROR_INTERNAL', stage: 'financial' });
+
+        await store.saveStageResult('pg-b', 'discovery', { company_id: 'pg-b', reason_code: 'NOT_FOUND' }, 'run-pg-3');
+        await store.saveStageResult('pg-b', 'discovery', { company_id: 'pg-b', website: 'https://beta.it' }, 'run-pg-4');
+        expect(await store.getStageResult('pg-b', 'discovery')).toEqual({ company_id: 'pg-b', website: 'https://beta.it' });
+        expect(await store.getStageResult('pg-b', 'financial')).toBeUndefined();
+    });
+
+    it('reports stats and exports enriched rows', async () => {
+        expect(await store.getStats()).toEqual({ total: 2, enriched: 1, pending: 1, failed: 1 });
+
+        const secondary = [
+            { url: 'https://alfa-shop.it', confidence: 0.82, method: 'serper_google', evidence: { vat: '01114601006' } },
+            { url: 'https://alfa.de', confidence: 0.76, method: 'jina_search', evidence: {} },
+        ];
+        await store.insertEnrichmentResult({
+            id: 'er-pg-a',
+            company_id: 'pg-a',
+            is_estimated_employees: false,
+            lead_score: 80,
+            website_validated: 'https://alfa.it',
+            secondary_websites: secondary,
+            facebook_url: 'https://www.facebook.com/alfasrl',
+        }, { fields: { website_validated: { source: DataSource.WEBSITE } } });
+        expect(await store.getEnrichmentResult('pg-a')).toMatchObject({ secondary_websites: secondary, facebook_url: 'https://www.facebook.com/alfasrl' });
+
+        await store.saveFinancialFigures('pg-a', [
+            { metric: 'revenue', fiscal_year: 2022, value: 100_000_000, source: DataSource.FINANCIAL_DIRECTORY, confidence: 0.75 },
+            { metric: 'revenue', fiscal_year: 2023, value: 120_000_000, source: DataSource.REGISTRY, confidence: 1, source_url: 'https://registro.example/alfa' },
+            { metric: 'employees', fiscal_year: 2023, value: 12, source: DataSource.REGISTRY, confidence: 1 },
+        ]);
+        // A less confident source does not overwrite the registry figure
+        await store.saveFinancialFigures('pg-a', [
+            { metric: 'revenue', fiscal_year: 2023, value: 90_000_000, source: DataSource.FINANCIAL_DIRECTORY, confidence: 0.75 },
+        ]);
+        expect(await store.listFinancialFigures('pg-a')).toMatchObject([
+            { company_id: 'pg-a', metric: 'employees', fiscal_year: 2023, value: 12 },
+            { metric: 'revenue', fiscal_year: 2022, value: 100_000_000, source: 'FINANCIAL_DIRECTORY', confidence: 0.75, source_url: undefined },
+            { metric: 'revenue', fiscal_year: 2023, value: 120_000_000, source: 'REGISTRY', source_url: 'https://registro.example/alfa' },
+        ]);
+
+        const outputPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'pg-store-')), 'export.csv');
+        await store.exportEnrichedToCSV(outputPath);
+        const [header, row] = fs.readFileSync(outputPath, 'utf-8').split('\n');
+        expect(header).toBe(
+            'company_name,city,province,address,phone,category,vat,revenue,employees,pec,lead_score,data_source,website,secondary_websites,facebook_url,instagram_url,linkedin_company_url,' +
+            'revenue_year,revenue_eur,revenue_growth_pct,revenue_history,revenue_min_eur,revenue_max_eur,revenue_estimate_eur,net_income_eur,ebitda_eur,personnel_cost_eur,employees_count,employees_growth_pct'
+        );
+        expect(row).toContain('"2023","1200000","20","2022: 1000000; 2023: 1200000","2000000","2000000","2000000","","","","12",""');
+        expect(row).toContain('"Alfa Srl","Torino"');
+        expect(row).toContain('"01114601006"');
+        expect(row).toContain('"https://alfa.it","https://alfa-shop.it; https://alfa.de","https://www.facebook.com/alfasrl"');
+    });
+
+    it('persists API jobs with their events, artifacts and runs', async () => {
+        await store.createJob({ id: 'job-pg', niches: ['idraulici'], locations: ['Verona', 'Padova'], company_limit: 10, enrich: true, total_tasks: 2 });
+        await store.createRun({ id: 'run-pg-job', job_id: 'job-pg', loaded: 1, enqueued: 1, skipped: 0 });
+        await store.updateJobStatus('job-pg', 'SCRAPING');
+        await store.recordJobTaskOutcome('job-pg', 'completed');
+        expect(await store.recordJobTaskOutcome('job-pg', 'failed')).toMatchObject({ completed_tasks: 1, failed_tasks: 1 });
+
+        await store.appendJobEvent('job-pg', 'info', 'first');
+        await store.appendJobEvent('job-pg', 'warn', 'second');
+        await store.addJobArtifact({ job_id: 'job-pg', kind: 'csv', path: 'output/campaigns/job-pg/a.csv', row_count: 3, label: 'idraulici / Verona' });
+
+        expect(await store.getJob('job-pg')).toMatchObject({ status: 'SCRAPING', niches: ['idraulici'], locations: ['Verona', 'Padova'], company_limit: 10, enrich: true });
+        expect((await store.listJobEvents('job-pg', 1)).map((event) => event.message)).toEqual(['second']);
+        expect(await store.listJobArtifacts('job-pg')).toEqual([expect.objectContaining({ row_count: 3, label: 'idraulici / Verona' })]);
+        expect((await store.listRunsForJob('job-pg')).map((run) => run.id)).toEqual(['run-pg-job']);
+
+        await store.updateJobStatus('job-pg', 'CANCELLED');
+        expect((await store.getJob('job-pg'))?.finished_at).toBeTruthy();
+        expect(await store.listJobs({ statuses: ['QUEUED', 'SCRAPING'] })).toEqual([]);
+    });
+
+    it('scopes tenant data and meters daily quotas', async () => {
+        await store.createTenant({ id: 'acme', name: 'Acme', daily_company_quota: 3 });
+        await store.updateTenantQuotas('acme', { daily_spend_quota_usd: 2.5 });
+        expect(await store.getTenant('acme')).toMatchObject({ daily_company_quota: 3, daily_spend_quota_usd: 2.5 });
+
+        await store.createApiKey({ id: 'k1', tenant_id: 'acme', key_hash: 'hash-1', label: 'ci' });
+        await store.touchApiKey('k1');
+        expect(await store.findApiKeyByHash('hash-1')).toMatchObject({ tenant_id: 'acme', label: 'ci' });
+        expect(await store.revokeApiKey('k1')).toBe(true);
+        expect(await store.revokeApiKey('k1')).toBe(false);
+        expect((await store.listApiKeys('acme'))[0].revoked_at).toBeTruthy();
+
+        expect(await store.reserveTenantCompanies('acme', '2026-03-01', 2, 3)).toBe(2);
+        expect(await store.reserveTenantCompanies('acme', '2026-03-01', 2, 3)).toBe(1);
+        expect(await store.reserveTenantCompanies('acme', '2026-03-02', 2, 3)).toBe(2);
+        await store.addTenantSpend('acme', '2026-03-01', 0.5);
+        await store.addTenantSpend('acme', '2026-03-01', 0.25);
+        expect(await store.getTenantUsage('acme', '2026-03-01')).toMatchObject({ companies_enqueued: 3, spend_usd: 0.75 });
+
+        await store.insertCompanies([{ id: 'acme:c1', company_name: 'Acme Co', tenant_id: 'acme' }]);
+        await store.createRun({ id: 'run-acme', tenant_id: 'acme', loaded: 1, enqueued: 1, skipped: 0 });
+        await store.createJob({ id: 'job-acme', tenant_id: 'acme', niches: ['a'], locations: ['b'], enrich: false, total_tasks: 1 });
+        expect(await store.getStats('acme')).toEqual({ total: 1, enriched: 0, pending: 1, failed: 0 });
+        expect((await store.listRuns(50, 'acme')).map((run) => run.id)).toEqual(['run-acme']);
+        expect((await store.listJobs({ tenantId: 'acme' })).map((job) => job.id)).toEqual(['job-acme']);
+        expect(await store.listJobs({ tenantId: 'globex' })).toEqual([]);
+    });
+
+    it('stores webhook subscriptions and their delivery log', async () => {
+        await store.createWebhookSubscription({ id: 'wh-1', tenant_id: 'acme', url: 'https://hooks.acme.it/pg3', secret: 'whsec_test_secret', events: ['company.enriched', 'dlq.entry'] });
+        expect(await store.getWebhookSubscription('wh-1')).toMatchObject({ active: true, events: ['company.enriched', 'dlq.entry'] });
+        expect((await store.listWebhookSubscriptions('acme')).map((subscription) => subscription.id)).toEqual(['wh-1']);
+        expect(await store.listWebhookSubscriptions('globex')).toEqual([]);
+
+        await store.createWebhookDelivery({ id: 'whd-1', subscription_id: 'wh-1', event: 'company.enriched', payload: '{"id":"whd-1"}' });
+        await store.recordWebhookAttempt('whd-1', { status: 'PENDING', response_status: 500, error: 'HTTP 500' });
+        expect(await store.getWebhookDelivery('whd-1')).toMatchObject({ status: 'PENDING', attempts: 1, response_status: 500 });
+        await store.recordWebhookAttempt('whd-1', { status: 'DELIVERED', response_status: 204 });
+        const [delivery] = await store.listWebhookDeliveries('wh-1');
+        expect(delivery).toMatchObject({ id: 'whd-1', status: 'DELIVERED', attempts: 2, response_status: 204, error: null });
+        expect(delivery.delivered_at).toBeTruthy();
+
+        expect(await store.deactivateWebhookSubscription('wh-1')).toBe(true);
+        expect(await store.deactivateWebhookSubscription('wh-1')).toBe(false);
+        expect((await store.getWebhookSubscription('wh-1'))?.active).toBe(false);
+    });
+
+    it('lists website claims and marks shared domain losers', async () => {
+        await store.insertEnrichmentResult({ id: 'er-acme:c1', company_id: 'acme:c1', is_estimated_employees: false, website_validated: 'https://acme.it', reason_code: 'OK_LIKELY_NAME_CITY_MATCH' });
+        const claims = await store.listWebsiteClaims({ tenantId: 'acme' });
+        expect(claims).toEqual([expect.objectContaining({ company_id: 'acme:c1', tenant_id: 'acme', website: 'https://acme.it', shared_domain_owner: null })]);
+        expect(await store.listWebsiteClaims({ domains: ['ACME.it'] })).toEqual(claims);
+        expect(await store.listWebsiteClaims({ tenantId: 'acme', domains: [] })).toEqual([]);
+        expect(await store.listWebsiteClaims({ tenantId: 'acme', runId: 'run-none' })).toEqual([]);
+
+        await store.setSharedDomainOwner('acme:c1', 'acme:c0', 'AMBIGUOUS_SHARED_DOMAIN');
+        expect(await store.getEnrichmentResult('acme:c1')).toMatchObject({ reason_code: 'AMBIGUOUS_SHARED_DOMAIN', shared_domain_owner: 'acme:c0' });
+        await store.insertEnrichmentResult({ id: 'er-acme:c1', company_id: 'acme:c1', is_estimated_employees: false, website_validated: 'https://acme-group.it' });
+        expect((await store.getEnrichmentResult('acme:c1'))?.shared_domain_owner).toBeNull();
+    });
+
+    it('lists stale websites and records liveness checks in the history', async () => {
+        expect(await store.listStaleWebsites({ verifiedBefore: '2000-01-01T00:00:00Z', tenantId: 'acme' })).toEqual([]);
+        const [stale] = await store.listStaleWebsites({ verifiedBefore: '2999-01-01T00:00:00Z', tenantId: 'acme', limit: 1 });
+        expect(stale).toMatchObject({ company_id: 'acme:c1', website: 'https://acme-group.it' });
+        expect(typeof stale.verified_at).toBe('string');
+
+        await store.recordWebsiteCheck('acme:c1', { website: null, reason_code: 'WEBSITE_DECAYED_PARKED', run_id: 'reverify-1' });
+        expect(await store.getEnrichmentResult('acme:c1')).toMatchObject({ website_validated: null, reason_code: 'WEBSITE_DECAYED_PARKED' });
+        const websites = (await store.getEnrichmentHistory('acme:c1')).filter((version) => version.field === 'website_validated');
+        expect(websites[websites.length - 1]).toMatchObject({ value: null, run_id: 'reverify-1' });
+        expect(await store.listStaleWebsites({ verifiedBefore: '2999-01-01T00:00:00Z', tenantId: 'acme' })).toEqual([]);
+    });
+
+    it('caches SERP answers with expiry, usage counters and invalidation', async () => {
+        const now = new Date().toISOString();
+        const results = [{ url: 'https://acme.it', title: 'Acme', source: 'serper' }];
+        await store.saveSerpCacheEntry({ provider: 'serper', query_hash: 'h1', query: 'acme srl sito_ufficiale', company_id: 'acme:c1', results, expires_at: '2999-01-01T00:00:00Z' });
+        await store.saveSerpCacheEntry({ provider: 'serper', query_hash: 'h2', query: 'acme torino', results: [], expires_at: '2000-01-01T00:00:00Z' });
+
+        expect(await store.getSerpCacheEntry('serper', 'h1', now)).toMatchObject({ query: 'acme srl sito_ufficiale', company_id: 'acme:c1', results });
+        expect(await store.getSerpCacheEntry('serper', 'h2', now)).toBeUndefined();
+        expect(await store.countSerpCacheEntries(now)).toEqual([{ provider: 'serper', entries: 1 }]);
+
+        await store.recordSerpCacheLookup('serper', '2026-03-01', true, 0.001);
+        await store.recordSerpCacheLookup('serper', '2026-03-01', false);
+        expect(await store.listSerpCacheUsage('2026-03-01')).toEqual([{ day: '2026-03-01', provider: 'serper', hits: 1, misses: 1, saved_eur: 0.001 }]);
+
+        expect(await store.invalidateSerpCache({ expiredBefore: now })).toBe(1);
+        expect(await store.invalidateSerpCache({ companyId: 'acme:c1', queryPattern: 'sito' })).toBe(1);
+    });
+
+    it('stores discovery traces per company and run', async () => {
+        await store.saveDiscoveryTrace({ id: 'dtr-1', company_id: 'acme:c1', run_id: 'run-acme', mode: 'FAST_RUN1', status: 'NOT_FOUND', trace: { layers: [] } });
+        await store.saveDiscoveryTrace({ id: 'dtr-2', company_id: 'acme:c1', mode: 'DEEP_RUN2', status: 'FOUND_VALID', url: 'https://acme.it', trace: { layers: [{ layer: 'swarm' }] } });
+
+        const [latest] = await store.listDiscoveryTraces<{ layers: unknown[] }>('acme:c1', { limit: 1 });
+        expect(latest).toMatchObject({ id: 'dtr-2', status: 'FOUND_VALID', url: 'https://acme.it', trace: { layers: [{ layer: 'swarm' }] } });
+        expect(typeof latest.created_at).toBe('string');
+        expect((await store.listDiscoveryTraces('acme:c1', { runId: 'run-acme' })).map((record) => record.id)).toEqual(['dtr-1']);
+        expect((await store.listRecentDiscoveryTraces({ since: '2000-01-01' })).map((record) => record.id)).toEqual(['dtr-2', 'dtr-1']);
+        expect(await store.listRecentDiscoveryTraces({ since: '2999-01-01' })).toEqual([]);
+    });
+    it('stores ground-truth labels and benchmark runs with their results', async () => {
+        await store.upsertGroundTruthLabels([
+            { dataset: 'veneto', label_id: 'l1', company: { company_name: 'Acme Srl', city: 'Torino' }, expected_domain: 'acme.it' },
+            { dataset: 'veneto', label_id: 'l2', company: { company_name: 'Beta Snc' }, expected_domain: null, notes: 'only facebook' },
+        ]);
+        await store.upsertGroundTruthLabels([{ dataset: 'veneto', label_id: 'l1', company: { company_name: 'Acme Srl', city: 'Torino' }, expected_domain: 'acme-torino.it' }]);
+        expect(await store.listGroundTruthLabels('veneto')).toMatchObject([
+            { label_id: 'l1', company: { company_name: 'Acme Srl', city: 'Torino' }, expected_domain: 'acme-torino.it', notes: undefined },
+            { label_id: 'l2', expected_domain: null, notes: 'only facebook' },
+        ]);
+        expect(await store.deleteGroundTruthLabel('veneto', 'l2')).toBe(true);
+        expect(await store.deleteGroundTruthLabel('veneto', 'l2')).toBe(false);
+
+        const result = { label_id: 'l1', expected_domain: 'acme-torino.it', url: 'https://acme-torino.it', status: 'FOUND_VALID', reason_code: 'OK_CONFIRMED_VAT_MATCH', outcome: 'correct_website' as const, cost_eur: 0.012, latency_ms: 850 };
+        await store.saveBenchmarkRun({ id: 'bench-1', dataset: 'veneto', mode: 'FAST_RUN1', started_at: '2026-10-01T10:00:00.000Z', finished_at: '2026-10-01T10:05:00.000Z', summary: { accuracy: 1 }, results: [result] });
+        await store.saveBenchmarkRun({ id: 'bench-2', dataset: 'veneto', mode: 'DEEP_RUN2', started_at: '2026-10-02T10:00:00.000Z', finished_at: '2026-10-02T10:05:00.000Z', summary: { accuracy: 0 }, results: [] });
+
+        expect(await store.getBenchmarkRun('bench-1')).toMatchObject({ mode: 'FAST_RUN1', summary: { accuracy: 1 } });
+        expect((await store.listBenchmarkRuns('veneto')).map((run) => run.id)).toEqual(['bench-2', 'bench-1']);
+        expect(await store.listBenchmarkRuns('lombardia')).toEqual([]);
+        expect(await store.listBenchmarkResults('bench-1')).toEqual([result]);
+    });
+});
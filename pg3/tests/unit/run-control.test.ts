@@ -0,0 +1,74 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+    process.env.SQLITE_PATH = ':memory:';
+});
+
+const { delayedJob, otherRunJob } = vi.hoisted(() => ({
+    delayedJob: { id: 'enrich-a', data: { run_id: 'run-ctl' }, promote: vi.fn(), remove: vi.fn() },
+    otherRunJob: { id: 'enrich-b', data: { run_id: 'run-other' }, promote: vi.fn(), remove: vi.fn() },
+}));
+
+vi.mock('../../src/enricher/queue', () => {
+    const queue = { getJobs: vi.fn().mockResolvedValue([delayedJob, otherRunJob]) };
+    return {
+        enrichmentQueue: queue,
+        discoveryQueue: { getJobs: vi.fn().mockResolvedValue([]) },
+        financialQueue: { getJobs: vi.fn().mockResolvedValue([]) },
+    };
+});
+
+import { completeRunIfDone, createRun, getRun, initializeDatabase, insertCompany, logJobResult } from '../../src/enricher/db';
+import { initializeResultStore } from '../../src/enricher/db/result_store';
+import { cancelRun, getRunGate, pauseRun, resumeRun } from '../../src/enricher/queue/run_control';
+import { NotFoundError, ValidationError } from '../../src/utils/errors';
+
+describe('Run control', () => {
+    initializeDatabase();
+    beforeAll(async () => {
+        await initializeResultStore();
+    });
+
+    it('derives succeeded / failed counts from job_log and completes the run', () => {
+        createRun({ id: 'run-count', source_csv: 'input.csv', mode: 'DEEP_RUN2', loaded: 3, enqueued: 2, skipped: 1 });
+        insertCompany({ id: 'a', company_name: 'A' });
+        insertCompany({ id: 'b', company_name: 'B' });
+
+        logJobResult('a', 'RETRYING', 1, 1, 'timeout', 'NETWORK', 'ERROR_TIMEOUT_FETCH', 'run-count', 'discovery');
+        logJobResult('a', 'SUCCESS', 1, 2, undefined, undefined, 'OK', 'run-count', 'financial');
+        expect(completeRunIfDone('run-count')).toBe(false);
+
+        logJobResult('b', 'FAILED', 1, 3, 'boom', 'LOGIC', 'ERROR_INTERNAL', 'run-count', 'financial');
+        expect(completeRunIfDone('run-count')).toBe(true);
+
+        const run = getRun('run-count');
+        expect(run).toMatchObject({ status: 'COMPLETED', succeeded: 1, failed: 1, loaded: 3, skipped: 1 });
+        expect(run?.finished_at).toBeTruthy();
+    });
+
+    it('gates jobs on the run status and promotes only the run jobs on resume', async () => {
+        createRun({ id: 'run-ctl', loaded: 1, enqueued: 1, skipped: 0 });
+        expect(await getRunGate('run-ctl')).toBe('proceed');
+        expect(await getRunGate(undefined)).toBe('proceed');
+
+        await pauseRun('run-ctl');
+        expect(await getRunGate('run-ctl')).toBe('pause');
+
+        const { run, promoted } = await resumeRun('run-ctl');
+        expect(run.status).toBe('RUNNING');
+        expect(promoted).toBe(1);
+        expect(delayedJob.promote).toHaveBeenCalledTimes(1);
+        expect(otherRunJob.promote).not.toHaveBeenCalled();
+
+        const cancelled = await cancelRun('run-ctl');
+        expect(cancelled.run.status).toBe('CANCELLED');
+        expect(delayedJob.remove).toHaveBeenCalled();
+        expect(otherRunJob.remove).not.toHaveBeenCalled();
+        expect(await getRunGate('run-ctl')).toBe('cancel');
+    });
+
+    it('rejects unknown runs and invalid transitions', async () => {
+        await expect(pauseRun('missing')).rejects.toBeInstanceOf(NotFoundError);
+        await expect(resumeRun('run-ctl')).rejects.toBeInstanceOf(ValidationError);
+    });
+});
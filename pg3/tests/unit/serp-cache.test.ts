@@ -0,0 +1,98 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+    process.env.SQLITE_PATH = ':memory:';
+});
+
+import { config } from '../../src/enricher/config';
+import { initializeDatabase } from '../../src/enricher/db';
+import { initializeResultStore, setResultStore } from '../../src/enricher/db/result_store';
+import { getSerpCacheStats, invalidateSerpCache, normalizeSerpQuery, serpQueryHash } from '../../src/enricher/core/discovery/serp/cache';
+import { SerpProvider } from '../../src/enricher/core/discovery/serp/provider_types';
+import { registerSerpProvider, searchSerp } from '../../src/enricher/core/discovery/serp/registry';
+import { withLiveContext } from '../../src/enricher/observability/live_events';
+
+function fakeProvider(name: string, answers: Record<string, string[]>): SerpProvider {
+    return {
+        name,
+        description: `fixture: ${name}`,
+        cost: { provider: 'serper', units: 1 },
+        rateLimit: { requestsPerMinute: 60000 },
+        isConfigured: () => true,
+        search: vi.fn(async (query: string) => (answers[normalizeSerpQuery(query)] ?? []).map((url) => ({ url, title: url, source: name }))),
+    };
+}
+
+const serper = fakeProvider('cache_serper', {
+    '"01234560248" sito ufficiale': ['https://www.fornobianchi.it/'],
+    'forno bianchi vicenza': ['https://www.fornobianchi.it/', 'https://www.paginegialle.it/vicenza/forno-bianchi'],
+});
+const fallback = fakeProvider('cache_fallback', { 'panificio rossi padova': ['https://www.panificiorossi.it/'] });
+
+describe('SERP cache', () => {
+    initializeDatabase();
+    beforeAll(async () => {
+        await initializeResultStore();
+        registerSerpProvider(serper);
+        registerSerpProvider(fallback);
+    });
+    afterAll(() => setResultStore(null));
+
+    it('normalizes case and whitespace but not quotes', () => {
+        expect(normalizeSerpQuery('  Forno   BIANCHI\tVicenza ')).toBe('forno bianchi vicenza');
+        expect(serpQueryHash('Forno Bianchi Vicenza')).toBe(serpQueryHash('forno  bianchi vicenza'));
+        expect(serpQueryHash('"forno bianchi"')).not.toBe(serpQueryHash('forno bianchi'));
+    });
+
+    it('answers repeated queries from the store without calling the provider', async () => {
+        const first = await withLiveContext({ company_id: 'c-bianchi' }, () =>
+            searchSerp('"01234560248" sito ufficiale', { providers: ['cache_serper'] }));
+        expect(first.attempts.map((attempt) => attempt.status)).toEqual(['OK']);
+        expect(first.cost_eur).toBeCloseTo(config.discovery.budget.unitCostsEur.serper);
+
+        const again = await searchSerp('"01234560248"  SITO ufficiale', { providers: ['cache_serper'] });
+        expect(again).toMatchObject({ provider: 'cache_serper', cost_eur: 0, attempts: [{ provider: 'cache_serper', status: 'CACHED' }] });
+        expect(again.results).toEqual(first.results);
+        expect(serper.search).toHaveBeenCalledTimes(1);
+
+        // limits are applied to the cached page
+        await searchSerp('forno bianchi vicenza', { providers: ['cache_serper'] });
+        expect((await searchSerp('Forno Bianchi Vicenza', { providers: ['cache_serper'], limit: 1 })).results).toHaveLength(1);
+        expect(serper.search).toHaveBeenCalledTimes(2);
+
+        // cache: false forces a fresh answer
+        await searchSerp('forno bianchi vicenza', { providers: ['cache_serper'], cache: false });
+        expect(serper.search).toHaveBeenCalledTimes(3);
+    });
+
+    it('caches empty answers per provider and still fails over', async () => {
+        const providers = ['cache_serper', 'cache_fallback'];
+        await searchSerp('panificio rossi padova', { providers });
+        const again = await searchSerp('panificio rossi padova', { providers });
+        expect(again.provider).toBe('cache_fallback');
+        expect(again.attempts.map((attempt) => attempt.status)).toEqual(['CACHED', 'CACHED']);
+        expect(serper.search).toHaveBeenCalledTimes(4);
+        expect(fallback.search).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports hit rate and savings per provider', async () => {
+        const stats = await getSerpCacheStats(1);
+        const serperStats = stats.providers.find((provider) => provider.provider === 'cache_serper');
+        // misses: the VAT query, "forno bianchi vicenza", "panificio rossi padova"
+        expect(serperStats).toMatchObject({ hits: 3, misses: 3, hit_rate: 0.5, entries: 3 });
+        expect(serperStats!.saved_eur).toBeCloseTo(3 * config.discovery.budget.unitCostsEur.serper);
+        expect(stats).toMatchObject({ hits: 4, misses: 4, entries: 4 });
+    });
+
+    it('invalidates entries by company and by query pattern', async () => {
+        expect(await invalidateSerpCache({ companyId: 'c-bianchi' })).toBe(1);
+        await searchSerp('"01234560248" sito ufficiale', { providers: ['cache_serper'] });
+        expect(serper.search).toHaveBeenCalledTimes(5);
+
+        expect(await invalidateSerpCache({ queryPattern: 'Forno  BIANCHI' })).toBe(1);
+        expect(await invalidateSerpCache({ queryPattern: '%' })).toBe(0);
+        expect(await invalidateSerpCache({ provider: 'cache_fallback' })).toBe(1);
+        expect(await invalidateSerpCache({ expiredBefore: new Date(Date.now() + 365 * 24 * 3600 * 1000).toISOString() })).toBe(2);
+        expect((await getSerpCacheStats(1)).entries).toBe(0);
+    });
+});
@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../../src/enricher/config';
+import { parseBingHtml, parseDuckDuckGoHtml, parseJinaSearchResponse, parseSerperResponse } from '../../src/enricher/core/discovery/serp/parsers';
+import { SerpProvider } from '../../src/enricher/core/discovery/serp/provider_types';
+import {
+    getSerpProviderHealth,
+    listSerpProviders,
+    registerSerpProvider,
+    resetSerpProviderHealth,
+    searchSerp,
+} from '../../src/enricher/core/discovery/serp/registry';
+import { ScraperClient } from '../../src/enricher/utils/scraper_client';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, '../fixtures/serp', name), 'utf-8');
+
+function fakeProvider(name: string, search: SerpProvider['search'], configured: boolean = true): SerpProvider {
+    return {
+        name,
+        description: `fixture: ${name}`,
+        cost: { provider: 'serper', units: 1 },
+        rateLimit: { requestsPerMinute: 60000 },
+        isConfigured: () => configured,
+        search: vi.fn(search),
+    };
+}
+
+const hit = (url: string) => [{ url, title: url, source: 'fixture' }];
+
+describe('SERP parsers', () => {
+    it('parses Serper organic results', () => {
+        expect(parseSerperResponse(JSON.parse(fixture('serper.json')))).toEqual([
+            { url: 'https://www.fornobianchi.it/', title: 'Forno Bianchi - Panificio a Vicenza', snippet: 'Pane, dolci e pasticceria dal 1962. P.IVA 01234560248.', source: 'serper' },
+            expect.objectContaining({ url: 'https://www.facebook.com/fornobianchi/' }),
+            expect.objectContaining({ url: 'https://www.paginegialle.it/vicenza/panifici/forno-bianchi' }),
+        ]);
+        expect(parseSerperResponse(JSON.parse(fixture('serper.json')), 1)).toHaveLength(1);
+        expect(parseSerperResponse({ message: 'Unauthorized' })).toEqual([]);
+    });
+
+    it('parses Bing results, decoding click-tracking links and skipping ads', () => {
+        expect(parseBingHtml(fixture('bing.html'))).toEqual([
+            { url: 'https://www.fornobianchi.it/', title: 'Forno Bianchi - Panificio a Vicenza', snippet: 'Pane, dolci e pasticceria dal 1962 nel centro di Vicenza.', source: 'bing' },
+            { url: 'https://www.fornobianchi.it/contatti', title: 'Contatti - Forno Bianchi', snippet: 'Via Roma 12, Vicenza. Tel. 0444 123456', source: 'bing' },
+            { url: 'https://www.paginegialle.it/vicenza/panifici/forno-bianchi', title: 'FORNO BIANCHI SNC - PagineGialle', snippet: 'Orari, indirizzo e telefono.', source: 'bing' },
+        ]);
+    });
+
+    it('parses DuckDuckGo HTML and lite results', () => {
+        expect(parseDuckDuckGoHtml(fixture('ddg.html'))).toEqual([
+            { url: 'https://www.fornobianchi.it/', title: 'Forno Bianchi - Panificio a Vicenza', snippet: 'Pane, dolci e pasticceria dal 1962.', source: 'ddg' },
+            { url: 'https://www.instagram.com/fornobianchi.vi/', title: 'Forno Bianchi (@fornobianchi.vi) - Instagram', snippet: 'Pane e dolci - Vicenza', source: 'ddg' },
+        ]);
+        expect(parseDuckDuckGoHtml(fixture('ddg_lite.html'))).toEqual([
+            { url: 'https://www.fornobianchi.it/', title: 'Forno Bianchi - Panificio a Vicenza', snippet: 'Pane, dolci e pasticceria dal 1962.', source: 'ddg' },
+            { url: 'https://www.paginegialle.it/vicenza/panifici/forno-bianchi', title: 'FORNO BIANCHI SNC - PagineGialle', snippet: 'Via Roma 12, Vicenza.', source: 'ddg' },
+        ]);
+        expect(parseDuckDuckGoHtml('<html><body>No results.</body></html>')).toEqual([]);
+    });
+
+    it('parses Jina search answers', () => {
+        expect(parseJinaSearchResponse(fixture('jina.json'))).toEqual([
+            { url: 'https://www.fornobianchi.it/', title: 'Forno Bianchi - Panificio a Vicenza', snippet: 'Pane, dolci e pasticceria dal 1962.', source: 'jina' },
+            { url: 'https://www.facebook.com/fornobianchi/', title: 'Forno Bianchi | Vicenza', snippet: 'Forno Bianchi, Vicenza. Tel. 0444 123456', source: 'jina' },
+        ]);
+        // not JSON: the URLs of the markdown answer
+        expect(parseJinaSearchResponse('1. [Forno Bianchi](https://www.fornobianchi.it/) - panificio').map((result) => result.url))
+            .toEqual(['https://www.fornobianchi.it/']);
+    });
+});
+
+describe('SERP provider registry', () => {
+    beforeEach(() => resetSerpProviderHealth());
+    afterEach(() => vi.restoreAllMocks());
+
+    it('registers the built-in providers with cost and rate-limit metadata', () => {
+        expect(listSerpProviders().map((provider) => provider.name)).toEqual(expect.arrayContaining(['serper', 'jina', 'bing', 'ddg', 'ddg_tor']));
+        expect(config.discovery.serp.failoverOrder).toEqual(['serper', 'jina', 'bing', 'ddg']);
+        for (const provider of listSerpProviders()) {
+            expect(provider.rateLimit.requestsPerMinute).toBeGreaterThan(0);
+        }
+        expect(() => registerSerpProvider(listSerpProviders()[0])).toThrow('already registered');
+    });
+
+    it('fails over on errors, unconfigured providers and empty answers', async () => {
+        registerSerpProvider(fakeProvider('fixture_down', async () => { throw new Error('HTTP 503'); }));
+        registerSerpProvider(fakeProvider('fixture_unconfigured', async () => hit('https://never.it'), false));
+        registerSerpProvider(fakeProvider('fixture_empty', async () => []));
+        registerSerpProvider(fakeProvider('fixture_up', async () => hit('https://fornobianchi.it')));
+        const providers = ['fixture_down', 'fixture_unconfigured', 'fixture_empty', 'fixture_up'];
+
+        const outcome = await searchSerp('forno bianchi', { providers });
+        expect(outcome).toMatchObject({ provider: 'fixture_up', results: hit('https://fornobianchi.it') });
+        expect(outcome.attempts.map((attempt) => attempt.status)).toEqual(['ERROR', 'SKIPPED_UNCONFIGURED', 'EMPTY', 'OK']);
+        expect(outcome.attempts[0].error).toBe('HTTP 503');
+        // three queries sent at the Serper unit cost
+        expect(outcome.cost_eur).toBeCloseTo(3 * config.discovery.budget.unitCostsEur.serper);
+
+        const strict = await searchSerp('forno bianchi', { providers: ['fixture_empty', 'fixture_up'], failoverOnEmpty: false });
+        expect(strict).toMatchObject({ provider: 'fixture_empty', results: [] });
+
+        const none = await searchSerp('forno bianchi', { providers: ['fixture_down', 'fixture_unconfigured'] });
+        expect(none).toMatchObject({ provider: null, results: [] });
+        await expect(searchSerp('forno bianchi', { providers: ['missing'] })).rejects.toThrow('Unknown SERP provider');
+    });
+
+    it('cools a failing provider down and resets it on success', async () => {
+        let failing = true;
+        const provider = fakeProvider('fixture_flaky', async () => {
+            if (failing) throw new Error('HTTP 429');
+            return hit('https://fornobianchi.it');
+        });
+        registerSerpProvider(provider, { replace: true });
+
+        for (let i = 0; i < config.discovery.serp.maxConsecutiveFailures; i++) {
+            await searchSerp('q', { providers: ['fixture_flaky'] });
+        }
+        expect(getSerpProviderHealth('fixture_flaky')).toMatchObject({
+            state: 'COOLING_DOWN',
+            failures: 3,
+            consecutive_failures: 3,
+            last_error: 'HTTP 429',
+        });
+
+        failing = false;
+        const skipped = await searchSerp('q', { providers: ['fixture_flaky'] });
+        expect(skipped.attempts).toEqual([{ provider: 'fixture_flaky', status: 'SKIPPED_COOLDOWN' }]);
+        expect(provider.search).toHaveBeenCalledTimes(3);
+
+        vi.spyOn(Date, 'now').mockReturnValue(Date.now() + config.discovery.serp.cooldownMs + 1);
+        expect((await searchSerp('q', { providers: ['fixture_flaky'] })).provider).toBe('fixture_flaky');
+        expect(getSerpProviderHealth('fixture_flaky')).toMatchObject({ state: 'HEALTHY', successes: 1, consecutive_failures: 0 });
+    });
+
+    it('runs the built-in HTML providers through the shared parsers', async () => {
+        vi.spyOn(ScraperClient, 'isScrapeDoEnabled').mockReturnValue(false);
+        const fetchText = vi.spyOn(ScraperClient, 'fetchText')
+            .mockResolvedValueOnce(fixture('bing.html'))
+            .mockResolvedValueOnce('<html><title>DuckDuckGo</title><body>If this error persists, bots use duckduckgo too</body></html>');
+
+        const bing = await searchSerp('Forno Bianchi Vicenza', { providers: ['bing'], limit: 2 });
+        expect(bing.results.map((result) => result.url)).toEqual(['https://www.fornobianchi.it/', 'https://www.fornobianchi.it/contatti']);
+        expect(fetchText).toHaveBeenCalledWith(expect.stringContaining('bing.com/search?q=Forno%20Bianchi%20Vicenza'), { mode: 'direct' });
+
+        const ddg = await searchSerp('Forno Bianchi Vicenza', { providers: ['ddg'] });
+        expect(ddg).toMatchObject({ provider: null, attempts: [{ provider: 'ddg', status: 'ERROR', error: 'DDG_BLOCK' }] });
+    });
+});
@@ -0,0 +1,125 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+    process.env.SQLITE_PATH = ':memory:';
+});
+
+import { getEnrichmentResult, initializeDatabase, insertCompanies, insertEnrichmentResult, logJobResult } from '../../src/enricher/db';
+import { initializeResultStore } from '../../src/enricher/db/result_store';
+import {
+    AMBIGUOUS_SHARED_DOMAIN,
+    groupSharedDomains,
+    normalizeDomain,
+    reconcileSharedDomains,
+} from '../../src/enricher/reconciliation/shared_domains';
+
+const GROUP_PAGE = 'Gruppo Alfa - P.IVA 00743110157 - Tel 045 1234567 - Verona';
+
+function claim(companyId: string, website: string, discoveryConfidence: number): void {
+    insertEnrichmentResult({
+        id: `er-${companyId}`,
+        company_id: companyId,
+        is_estimated_employees: false,
+        website_validated: website,
+        discovery_confidence: discoveryConfidence,
+        reason_code: 'OK_LIKELY_NAME_CITY_MATCH',
+    });
+}
+
+describe('Shared domain reconciliation', () => {
+    initializeDatabase();
+    beforeAll(async () => {
+        await initializeResultStore();
+        insertCompanies([
+            { id: 'alfa-nord', company_name: 'Alfa Nord Srl', city: 'Verona', vat_code: '00743110157' },
+            { id: 'alfa-sud', company_name: 'Alfa Sud Srl', city: 'Verona', phone: '045 1234567' },
+            { id: 'alfa-est', company_name: 'Alfa Est Srl', city: 'Padova' },
+            { id: 'beta', company_name: 'Beta Spa', city: 'Milano' },
+            { id: 'acme:alfa', company_name: 'Alfa Ovest Srl', city: 'Verona', tenant_id: 'acme' },
+        ]);
+        claim('alfa-nord', 'https://gruppoalfa.it', 0.7);
+        claim('alfa-sud', 'http://www.gruppoalfa.it/contatti', 0.8);
+        claim('alfa-est', 'https://gruppoalfa.it', 0.95);
+        claim('beta', 'https://beta.it', 0.9);
+        claim('acme:alfa', 'https://gruppoalfa.it', 0.9);
+    });
+
+    it('groups claims by tenant and normalized domain', () => {
+        expect(normalizeDomain('http://WWW.GruppoAlfa.it/contatti')).toBe('gruppoalfa.it');
+        expect(normalizeDomain('gruppoalfa.it')).toBe('gruppoalfa.it');
+        expect(normalizeDomain('http://')).toBeUndefined();
+
+        const groups = groupSharedDomains([
+            { company_id: 'a', website: 'https://x.it' },
+            { company_id: 'b', website: 'http://www.x.it/' },
+            { company_id: 'c', website: 'https://x.it', tenant_id: 'acme' },
+            { company_id: 'd', website: 'https://y.it' },
+        ]);
+        expect([...groups.keys()]).toEqual(['|x.it']);
+    });
+
+    it('keeps the VAT-matching owner and marks the other claimants', async () => {
+        const fetchText = vi.fn().mockResolvedValue(GROUP_PAGE);
+        const summary = await reconcileSharedDomains({ fetchText });
+
+        expect(fetchText).toHaveBeenCalledTimes(1);
+        expect(summary).toMatchObject({ claims: 5, shared_domains: 1, skipped: 0 });
+        expect(summary.conflicts[0]).toMatchObject({
+            domain: 'gruppoalfa.it',
+            owner: { company_id: 'alfa-nord', vat_match: true },
+            ambiguous: [{ company_id: 'alfa-sud', phone_match: true }, { company_id: 'alfa-est' }],
+        });
+
+        expect(getEnrichmentResult('alfa-nord')).toMatchObject({ reason_code: 'OK_LIKELY_NAME_CITY_MATCH', shared_domain_owner: null });
+        for (const loser of ['alfa-sud', 'alfa-est']) {
+            expect(getEnrichmentResult(loser)).toMatchObject({ reason_code: AMBIGUOUS_SHARED_DOMAIN, shared_domain_owner: 'alfa-nord' });
+        }
+        expect(getEnrichmentResult('acme:alfa')?.shared_domain_owner).toBeNull();
+        expect(getEnrichmentResult('beta')?.reason_code).toBe('OK_LIKELY_NAME_CITY_MATCH');
+    });
+
+    it('skips settled domains and re-scores them when forced', async () => {
+        const fetchText = vi.fn().mockResolvedValue('Alfa Sud - Tel 045 1234567 - Verona');
+        expect(await reconcileSharedDomains({ fetchText })).toMatchObject({ skipped: 1, conflicts: [] });
+        expect(fetchText).not.toHaveBeenCalled();
+
+        const summary = await reconcileSharedDomains({ fetchText, force: true });
+        expect(summary.conflicts[0].owner.company_id).toBe('alfa-sud');
+        expect(getEnrichmentResult('alfa-sud')).toMatchObject({ reason_code: 'OK_CONFIRMED_PHONE_MATCH', shared_domain_owner: null });
+        expect(getEnrichmentResult('alfa-nord')).toMatchObject({ reason_code: AMBIGUOUS_SHARED_DOMAIN, shared_domain_owner: 'alfa-sud' });
+    });
+
+    it('falls back to discovery confidence when the site cannot be fetched', async () => {
+        const summary = await reconcileSharedDomains({ force: true, fetchText: vi.fn().mockRejectedValue(new Error('ECONNRESET')) });
+        expect(summary.conflicts[0].owner.company_id).toBe('alfa-est');
+        expect(getEnrichmentResult('alfa-sud')?.shared_domain_owner).toBe('alfa-est');
+    });
+
+    it('reconciles only the domains claimed by the companies of a run', async () => {
+        insertCompanies([
+            { id: 'gamma-1', company_name: 'Gamma Uno Srl', city: 'Bari' },
+            { id: 'gamma-2', company_name: 'Gamma Due Srl', city: 'Bari' },
+            { id: 'delta-1', company_name: 'Delta Uno Srl', city: 'Lecce' },
+            { id: 'delta-2', company_name: 'Delta Due Srl', city: 'Lecce' },
+        ]);
+        claim('gamma-1', 'https://www.gamma.it', 0.9);
+        claim('gamma-2', 'https://gamma.it/chi-siamo', 0.6);
+        claim('delta-1', 'https://delta.it', 0.9);
+        claim('delta-2', 'https://delta.it', 0.6);
+        logJobResult('gamma-1', 'SUCCESS', 5, 1, undefined, undefined, 'OK_LIKELY_NAME_CITY_MATCH', 'run-7', 'financial');
+
+        const fetchText = vi.fn().mockResolvedValue('');
+        const summary = await reconcileSharedDomains({ runId: 'run-7', fetchText });
+        expect(fetchText).toHaveBeenCalledTimes(1);
+        expect(summary).toMatchObject({ claims: 2, shared_domains: 1 });
+        expect(summary.conflicts.map((conflict) => [conflict.domain, conflict.owner.company_id])).toEqual([['gamma.it', 'gamma-1']]);
+        expect(getEnrichmentResult('delta-2')?.shared_domain_owner).toBeNull();
+
+        expect(await reconcileSharedDomains({ runId: 'run-unknown', fetchText })).toMatchObject({ claims: 0, shared_domains: 0 });
+    });
+
+    it('clears the mark when the company is enriched again', () => {
+        claim('alfa-sud', 'https://alfasud.it', 0.9);
+        expect(getEnrichmentResult('alfa-sud')).toMatchObject({ website_validated: 'https://alfasud.it', shared_domain_owner: null });
+    });
+});
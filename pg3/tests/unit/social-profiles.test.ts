@@ -0,0 +1,213 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+    process.env.SQLITE_PATH = ':memory:';
+});
+
+vi.mock('../../src/enricher/core/browser/factory_v2');
+
+import { traceCandidates } from '../../src/enricher/core/discovery/discovery_trace';
+import { DiscoveryLayer } from '../../src/enricher/core/discovery/layers/layer_types';
+import { defineDiscoveryModeProfiles } from '../../src/enricher/core/discovery/layers/mode_profiles';
+import { registerDiscoveryLayer } from '../../src/enricher/core/discovery/layers/registry';
+import {
+    classifySocialUrl,
+    scoreSocialProfile,
+    SocialProfileResolver,
+    socialProfileFields,
+} from '../../src/enricher/core/discovery/social_profiles';
+import { UnifiedDiscoveryService } from '../../src/enricher/core/discovery/unified_discovery_service';
+import { getEnrichmentResult, initializeDatabase, insertCompany, insertEnrichmentResult } from '../../src/enricher/db';
+import { recordProviderCall } from '../../src/enricher/utils/provider_usage';
+
+const company = { company_name: 'Forno Bianchi Snc', city: 'Vicenza', phone: '0444 123456' };
+
+const page = (title: string, description: string) =>
+    `<html><head><title>${title}</title><meta property="og:description" content="${description}"></head><body>Accedi a Facebook</body></html>`;
+
+/** Profile pages by URL; anything else fails like a login wall would */
+const PAGES: Record<string, string> = {
+    'https://www.facebook.com/fornobianchi': page('Forno Bianchi | Vicenza', 'Panificio a Vicenza. Tel. 0444 123456'),
+    'https://www.instagram.com/fornobianchi.vi': page('Forno Bianchi (@fornobianchi.vi)', 'Pane e dolci - Vicenza'),
+    'https://www.linkedin.com/company/forno-bianchi-roma': page('Forno Bianchi Roma', 'Panificio industriale a Roma'),
+};
+
+function resolver(): SocialProfileResolver {
+    return new SocialProfileResolver({
+        minConfidence: 0.5,
+        fetchPage: vi.fn(async (url: string) => {
+            if (!PAGES[url]) throw new Error('HTTP 999');
+            return PAGES[url];
+        }),
+        search: vi.fn(async () => {
+            recordProviderCall('serper');
+            return [
+                { url: 'https://it-it.facebook.com/fornobianchi/', title: '' },
+                { url: 'https://www.facebook.com/fornobianchi/posts/123', title: '' },
+                { url: 'https://www.linkedin.com/company/forno-bianchi-roma/about', title: '' },
+                { url: 'https://www.linkedin.com/in/mario-bianchi', title: '' },
+                { url: 'https://fornobianchi.it', title: '' },
+            ];
+        }),
+    });
+}
+
+/** Surfaces an Instagram page (rejected as a website) and finds no website */
+const noWebsiteLayer: DiscoveryLayer = {
+    name: 'social_no_website',
+    description: 'fixture: only social URLs',
+    defaultThreshold: () => 0.6,
+    async run() {
+        traceCandidates([{ url: 'https://instagram.com/FornoBianchi.vi/', source: 'fixture_search', confidence: 0.6 }]);
+        return null;
+    },
+};
+
+const vatWebsiteLayer: DiscoveryLayer = {
+    name: 'social_vat_website',
+    description: 'fixture: finds the website by its VAT number',
+    defaultThreshold: () => 0.6,
+    async run() {
+        return { url: 'https://fornobianchi.it', status: 'FOUND_VALID', method: 'fixture_vat', confidence: 0.98, wave: 'FIXTURE', details: {} };
+    },
+};
+
+const websiteLayer: DiscoveryLayer = {
+    name: 'social_website',
+    description: 'fixture: finds the website',
+    defaultThreshold: () => 0.6,
+    async run() {
+        return { url: 'https://fornobianchi.it', status: 'FOUND_VALID', method: 'fixture_registry', confidence: 0.9, wave: 'FIXTURE', details: {} };
+    },
+};
+
+describe('Social profile discovery', () => {
+    initializeDatabase();
+    [noWebsiteLayer, websiteLayer, vatWebsiteLayer].forEach((layer) => registerDiscoveryLayer(layer));
+    defineDiscoveryModeProfiles({
+        SOCIAL_ONLY: { layers: ['social_no_website'] },
+        SOCIAL_WEBSITE: { layers: ['social_no_website', 'social_website'] },
+        SOCIAL_VAT_WEBSITE: { layers: ['social_no_website', 'social_vat_website'] },
+    });
+
+    it('recognizes company pages and ignores posts, people and site features', () => {
+        expect(classifySocialUrl('https://m.facebook.com/fornobianchi?ref=page')).toEqual({
+            network: 'facebook', url: 'https://www.facebook.com/fornobianchi', handle: 'fornobianchi',
+        });
+        expect(classifySocialUrl('https://www.facebook.com/profile.php?id=100012345')?.url).toBe('https://www.facebook.com/profile.php?id=100012345');
+        expect(classifySocialUrl('https://www.facebook.com/pages/Forno-Bianchi/123456')?.handle).toBe('Forno-Bianchi');
+        expect(classifySocialUrl('instagram.com/FornoBianchi/')?.url).toBe('https://www.instagram.com/fornobianchi');
+        expect(classifySocialUrl('https://it.linkedin.com/company/forno-bianchi/jobs')?.url).toBe('https://www.linkedin.com/company/forno-bianchi');
+
+        for (const url of [
+            'https://www.facebook.com/sharer/sharer.php?u=x',
+            'https://www.facebook.com/groups/panettieri',
+            'https://www.facebook.com/profile.php',
+            'https://www.instagram.com/p/Cx123/',
+            'https://www.linkedin.com/in/mario-bianchi',
+            'https://fornobianchi.it/facebook',
+            'not a url',
+        ]) {
+            expect(classifySocialUrl(url)).toBeNull();
+        }
+    });
+
+    it('verifies a profile by phone, or by name and city, with the handle as the domain signal', () => {
+        const facebook = classifySocialUrl('https://www.facebook.com/fornobianchi')!;
+        expect(scoreSocialProfile(company, facebook, PAGES[facebook.url])).toMatchObject({
+            verified: true,
+            profile: { network: 'facebook', evidence: { phone: '0444123456', handle_coverage: 1, city_match: true } },
+        });
+
+        const elsewhere = classifySocialUrl('https://www.linkedin.com/company/forno-bianchi-roma')!;
+        expect(scoreSocialProfile(company, elsewhere, PAGES[elsewhere.url]).verified).toBe(false);
+
+        // name and city alone reach the threshold only together with a matching handle
+        const instagram = classifySocialUrl('https://www.instagram.com/fornobianchi.vi')!;
+        const named = scoreSocialProfile(company, instagram, PAGES[instagram.url]);
+        const unrelated = scoreSocialProfile(company, { ...instagram, handle: 'panificio.vicenza' }, PAGES[instagram.url]);
+        expect(named).toMatchObject({ verified: true, profile: { evidence: { handle_coverage: 1 } } });
+        expect(named.profile.confidence).toBeGreaterThanOrEqual(0.5);
+        expect(unrelated.profile.confidence).toBeLessThan(0.5);
+    });
+
+    it('falls back to verified profiles when no website exists', async () => {
+        const result = await new UnifiedDiscoveryService(undefined, resolver()).discover(company, 'SOCIAL_ONLY');
+
+        expect(result).toMatchObject({ url: null, status: 'NOT_FOUND', method: 'social_profile', reason_code: 'OK_SOCIAL_PROFILE_ONLY' });
+        expect(result.social_profiles!.map((profile) => profile.url)).toEqual([
+            'https://www.facebook.com/fornobianchi',
+            'https://www.instagram.com/fornobianchi.vi',
+        ]);
+        expect(result.confidence).toBe(result.social_profiles![0].confidence);
+        expect(result.details.website_outcome).toMatchObject({ status: 'NOT_FOUND', reason_code: 'NOT_FOUND_NO_CANDIDATES' });
+        expect(result.trace!.outcome).toMatchObject({ method: 'social_profile', reason_code: 'OK_SOCIAL_PROFILE_ONLY' });
+        // the social search is part of the discovery spend
+        expect(result.trace!.spend!.calls).toMatchObject({ serper: 1 });
+        expect(socialProfileFields(result.social_profiles)).toEqual({
+            facebook_url: 'https://www.facebook.com/fornobianchi',
+            instagram_url: 'https://www.instagram.com/fornobianchi.vi',
+            linkedin_company_url: undefined,
+        });
+    });
+
+    it('keeps the website as the outcome and returns the profiles next to it', async () => {
+        const result = await new UnifiedDiscoveryService(undefined, resolver()).discover(company, 'SOCIAL_WEBSITE');
+        expect(result).toMatchObject({ url: 'https://fornobianchi.it', status: 'FOUND_VALID', method: 'fixture_registry' });
+        expect(result.social_profiles).toHaveLength(2);
+
+        const disabled = await new UnifiedDiscoveryService(undefined, null).discover(company, 'SOCIAL_ONLY');
+        expect(disabled).toMatchObject({ url: null, status: 'NOT_FOUND', reason_code: 'NOT_FOUND_NO_CANDIDATES' });
+        expect(disabled.social_profiles).toBeUndefined();
+    });
+
+    it('skips the social search for a VAT-confirmed website and keeps it within the budget', async () => {
+        const confirmed = resolver();
+        const vat = await new UnifiedDiscoveryService(undefined, confirmed).discover(company, 'SOCIAL_VAT_WEBSITE');
+        expect(vat).toMatchObject({ status: 'FOUND_VALID', reason_code: 'OK_CONFIRMED_VAT_MATCH' });
+        expect(vat.trace!.spend!.calls.serper ?? 0).toBe(0);
+        // the profile the layers surfaced is still verified: a page fetch, no search
+        expect(vat.social_profiles!.map((profile) => profile.network)).toEqual(['instagram']);
+
+        // the search does not fit: only the surfaced page is fetched
+        const capped = await new UnifiedDiscoveryService(undefined, resolver()).discover(company, 'SOCIAL_ONLY', { limitEur: 0.0005, websiteValueEur: 0 });
+        expect(capped.trace!.budget_decisions).toEqual([
+            { layer: 'social_search', action: 'SKIP', reason: 'OVER_BUDGET', expected_cost_eur: 0.001, remaining_eur: 0.0005 },
+        ]);
+        expect(capped.social_profiles!.map((profile) => profile.url)).toEqual(['https://www.instagram.com/fornobianchi.vi']);
+
+        // the search fits, then only one profile page does
+        const fetchPage = vi.fn(async (url: string) => PAGES[url]);
+        const tight = new SocialProfileResolver({ minConfidence: 0.5, fetchPage, search: vi.fn(async () => {
+            recordProviderCall('serper');
+            return [{ url: 'https://www.facebook.com/fornobianchi', title: '' }];
+        }) });
+        const result = await new UnifiedDiscoveryService(undefined, tight).discover(company, 'SOCIAL_ONLY', { limitEur: 0.00105, websiteValueEur: 0 });
+        expect(fetchPage.mock.calls.map(([url]) => url)).toEqual(['https://www.facebook.com/fornobianchi']);
+        expect(result.trace!.budget_decisions).toEqual([
+            expect.objectContaining({ layer: 'social_profile_page', action: 'SKIP', reason: 'OVER_BUDGET' }),
+        ]);
+
+        // a search not worth a website's value is skipped too
+        const worthless = await new UnifiedDiscoveryService(undefined, resolver()).discover(company, 'SOCIAL_ONLY', { limitEur: 0, websiteValueEur: 0.001 });
+        expect(worthless.trace!.budget_decisions).toEqual([expect.objectContaining({ layer: 'social_search', reason: 'NEGATIVE_EXPECTED_VALUE' })]);
+    });
+
+    it('stores the profiles as typed fields', () => {
+        insertCompany({ id: 'c-social', ...company });
+        insertEnrichmentResult({
+            id: 'er-c-social',
+            company_id: 'c-social',
+            is_estimated_employees: false,
+            reason_code: 'OK_SOCIAL_PROFILE_ONLY',
+            facebook_url: 'https://www.facebook.com/fornobianchi',
+            linkedin_company_url: 'https://www.linkedin.com/company/forno-bianchi',
+        });
+        expect(getEnrichmentResult('c-social')).toMatchObject({
+            website_validated: null,
+            facebook_url: 'https://www.facebook.com/fornobianchi',
+            instagram_url: null,
+            linkedin_company_url: 'https://www.linkedin.com/company/forno-bianchi',
+        });
+    });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+    process.env.SQLITE_PATH = ':memory:';
+});
+
+import { getStageResult, initializeDatabase, insertCompany, logJobResult, saveStageResult } from '../../src/enricher/db';
+import db from '../../src/enricher/db';
+import type { DiscoveryStageResult } from '../../src/enricher/queue';
+
+describe('Stage results persistence', () => {
+    initializeDatabase();
+    insertCompany({ id: 'c-1', company_name: 'Rossi Srl', city: 'Milano' });
+
+    it('returns undefined when a stage has not run yet', () => {
+        expect(getStageResult<DiscoveryStageResult>('c-1', 'discovery')).toBeUndefined();
+    });
+
+    it('stores and overwrites the latest discovery output per company', () => {
+        saveStageResult<DiscoveryStageResult>('c-1', 'discovery', {
+            company_id: 'c-1',
+            reason_code: 'NOT_FOUND_NO_CANDIDATES',
+        }, 'run-1');
+        saveStageResult<DiscoveryStageResult>('c-1', 'discovery', {
+            company_id: 'c-1',
+            website: 'https://rossisrl.it',
+            discovery_method: 'surgical',
+            discovery_confidence: 0.91,
+            reason_code: 'OK_VAT_MATCH',
+        }, 'run-2');
+
+        const stored = getStageResult<DiscoveryStageResult>('c-1', 'discovery');
+        expect(stored?.website).toBe('https://rossisrl.it');
+        expect(stored?.discovery_confidence).toBe(0.91);
+
+        const rows = db.prepare('SELECT run_id FROM stage_results WHERE company_id = ?').all('c-1') as Array<{ run_id: string }>;
+        expect(rows).toEqual([{ run_id: 'run-2' }]);
+    });
+
+    it('records the stage on job log entries', () => {
+        logJobResult('c-1', 'FAILED', 10, 3, 'boom', 'NETWORK', 'ERROR_TIMEOUT_FETCH', 'run-2', 'discovery');
+        const row = db.prepare('SELECT stage FROM job_log WHERE company_id = ?').get('c-1') as { stage: string };
+        expect(row.stage).toBe('discovery');
+    });
+});
@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+    process.env.SQLITE_PATH = ':memory:';
+    process.env.API_AUTH_ENABLED = 'true';
+});
+
+const { enqueueScrapeTasks, addJobsBatch } = vi.hoisted(() => ({
+    enqueueScrapeTasks: vi.fn().mockResolvedValue(1),
+    addJobsBatch: vi.fn(async (_queue: unknown, jobs: unknown[]) => jobs.length),
+}));
+
+vi.mock('../../src/enricher/queue', () => ({
+    QUEUE_NAMES: { ENRICHMENT: 'enrichment' },
+    enqueueScrapeTasks,
+    addJobsBatch,
+    enrichmentQueue: {},
+    scrapeQueue: { getJobs: vi.fn().mockResolvedValue([]) },
+}));
+
+import { initializeDatabase } from '../../src/enricher/db';
+import { initializeResultStore } from '../../src/enricher/db/result_store';
+import { LLMService } from '../../src/enricher/core/ai/llm_service';
+import { withLiveContext } from '../../src/enricher/observability/live_events';
+import { CostLedger, LedgerEntry } from '../../src/foundation/CostLedger';
+import { createJob, getJobOrThrow, listJobRecords } from '../../src/enricher/queue/jobs';
+import { enqueueScrapedCompanies } from '../../src/enricher/scheduler';
+import {
+    authenticateApiKey,
+    createTenant,
+    issueApiKey,
+    parseApiKeyId,
+    revokeApiKey,
+    setTenantQuotas,
+} from '../../src/enricher/tenancy/api_keys';
+import { extractApiKey, requireApiKey } from '../../src/enricher/tenancy/http';
+import {
+    getTenantQuotaStatus,
+    isSpendQuotaExhausted,
+    nextUtcDayStart,
+    reserveCompanyQuota,
+    trackLedgerSpend,
+    trackTenantSpend,
+    utcDay,
+} from '../../src/enricher/tenancy/quotas';
+import { AuthenticationError, NotFoundError, QuotaExceededError, ValidationError } from '../../src/utils/errors';
+
+describe('Tenancy', () => {
+    initializeDatabase();
+    beforeAll(async () => {
+        await initializeResultStore();
+        await createTenant('acme', 'Acme', { daily_company_quota: 5 });
+        await createTenant('globex', 'Globex', { daily_spend_quota_usd: 0.01 });
+        await createTenant('initech', 'Initech', { daily_spend_quota_usd: 0.01 });
+        await createTenant('hooli', 'Hooli', { daily_spend_quota_usd: 0.01 });
+    });
+
+    it('issues hashed API keys that authenticate until revoked', async () => {
+        const { key, record } = await issueApiKey('acme', 'ci');
+        expect(parseApiKeyId(key)).toBe(record.id);
+        expect(record.key_hash).not.toContain(key);
+
+        expect(await authenticateApiKey(key)).toMatchObject({ tenant: { id: 'acme' }, key_id: record.id });
+        await expect(authenticateApiKey('pg_nope')).rejects.toBeInstanceOf(AuthenticationError);
+        await expect(authenticateApiKey(undefined)).rejects.toBeInstanceOf(AuthenticationError);
+
+        await revokeApiKey(record.id);
+        await expect(authenticateApiKey(key)).rejects.toBeInstanceOf(AuthenticationError);
+        await expect(revokeApiKey(record.id)).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('reads the key from the bearer token, X-API-Key or the api_key query parameter', () => {
+        expect(extractApiKey({ authorization: 'Bearer pg_a_b' })).toBe('pg_a_b');
+        expect(extractApiKey({ 'x-api-key': ' pg_c_d ' })).toBe('pg_c_d');
+        expect(extractApiKey({}, { api_key: 'pg_e_f' })).toBe('pg_e_f');
+        expect(extractApiKey({ authorization: 'Basic xyz' })).toBeUndefined();
+    });
+
+    it('accepts the api_key query parameter only on GET /api/events', async () => {
+        const { key } = await issueApiKey('acme', 'stream');
+        const guard = async (method: string, routePath: string) => {
+            const req = { method, baseUrl: '/api', path: routePath, headers: {}, query: { api_key: key } };
+            const res = { locals: {} as Record<string, unknown>, status: vi.fn().mockReturnThis(), json: vi.fn() };
+            const next = vi.fn();
+            await requireApiKey(req as never, res as never, next);
+            return { res, next };
+        };
+
+        const events = await guard('GET', '/events');
+        expect(events.next).toHaveBeenCalled();
+        expect(events.res.locals.tenant).toMatchObject({ tenant: { id: 'acme' } });
+
+        for (const [method, routePath] of [['GET', '/jobs'], ['POST', '/events'], ['GET', '/export']]) {
+            const other = await guard(method, routePath);
+            expect(other.next).not.toHaveBeenCalled();
+            expect(other.res.status).toHaveBeenCalledWith(401);
+        }
+    });
+
+    it('validates tenant ids and quotas', async () => {
+        await expect(createTenant('Bad Id', 'x')).rejects.toBeInstanceOf(ValidationError);
+        await expect(createTenant('acme', 'again')).rejects.toThrow(/already exists/);
+        await expect(setTenantQuotas('acme', { daily_company_quota: -1 })).rejects.toBeInstanceOf(ValidationError);
+        await expect(setTenantQuotas('missing', {})).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('computes UTC days and the next reset', () => {
+        const now = new Date('2026-03-01T23:30:00.000Z');
+        expect(utcDay(now)).toBe('2026-03-01');
+        expect(nextUtcDayStart(now).toISOString()).toBe('2026-03-02T00:00:00.000Z');
+    });
+
+    it('enqueues scraped companies under tenant ids, up to the daily company quota', async () => {
+        const companies = ['Alfa', 'Beta', 'Gamma', 'Delta'].map((name) => ({ company_name: name, city: 'Verona' }));
+        const first = await enqueueScrapedCompanies(companies, { runId: 'run-acme-1', jobId: 'job-acme', source: 'a.csv', tenantId: 'acme' });
+        expect(first).toMatchObject({ enqueued: 4, overQuota: 0 });
+        const queued = addJobsBatch.mock.calls[0][1] as Array<{ company_id: string; tenant_id: string }>;
+        expect(queued.every((job) => job.company_id.startsWith('acme:') && job.tenant_id === 'acme')).toBe(true);
+
+        const second = await enqueueScrapedCompanies(companies.slice(0, 3), { runId: 'run-acme-2', jobId: 'job-acme', source: 'b.csv', tenantId: 'acme' });
+        expect(second).toMatchObject({ enqueued: 1, overQuota: 2, skipped: 2 });
+        expect(await reserveCompanyQuota('acme', 10)).toBe(0);
+
+        const status = await getTenantQuotaStatus('acme');
+        expect(status.usage.companies_enqueued).toBe(5);
+        expect(status.remaining).toEqual({ companies: 0, spend_usd: null });
+
+        const store = await initializeResultStore();
+        expect(await store.getStats('acme')).toMatchObject({ total: 4 });
+        expect(await store.getStats('globex')).toMatchObject({ total: 0 });
+        expect((await store.listRuns(50, 'acme')).map((run) => run.id).sort()).toEqual(['run-acme-1', 'run-acme-2']);
+        expect(await store.listRuns(50, 'globex')).toEqual([]);
+
+        // A job's discovery budget reaches every company of the run
+        await enqueueScrapedCompanies(companies.slice(0, 2), { runId: 'run-budget', jobId: 'job-budget', source: 'c.csv', discoveryBudgetEur: 0.01 });
+        expect(addJobsBatch.mock.lastCall![1]).toEqual([
+            expect.objectContaining({ run_id: 'run-budget', discovery_budget_eur: 0.01 }),
+            expect.objectContaining({ run_id: 'run-budget', discovery_budget_eur: 0.01 }),
+        ]);
+        expect(queued[0]).not.toHaveProperty('discovery_budget_eur');
+    });
+
+    it('refuses new jobs once a quota is used up and hides jobs from other tenants', async () => {
+        await expect(createJob({ niches: 'idraulici', locations: 'Verona' }, 'acme')).rejects.toBeInstanceOf(QuotaExceededError);
+
+        const { job } = await createJob({ niches: 'idraulici', locations: 'Verona' }, 'globex');
+        expect(job.tenant_id).toBe('globex');
+        expect(enqueueScrapeTasks.mock.calls[0][0][0]).toMatchObject({ tenant_id: 'globex' });
+
+        expect((await listJobRecords({ tenantId: 'globex' })).map((entry) => entry.id)).toEqual([job.id]);
+        expect(await listJobRecords({ tenantId: 'acme' })).toEqual([]);
+        await expect(getJobOrThrow(job.id, 'acme')).rejects.toBeInstanceOf(NotFoundError);
+        expect((await getJobOrThrow(job.id)).id).toBe(job.id);
+    });
+
+    it('books LLM spend on the tenant of the running job', async () => {
+        const stop = trackTenantSpend();
+        const trackUsage = (LLMService as unknown as { trackUsage(usage: object, model: string): void }).trackUsage.bind(LLMService);
+        try {
+            withLiveContext({ run_id: 'run-globex', tenant_id: 'globex' }, () => {
+                trackUsage({ prompt_tokens: 1_000_000, completion_tokens: 0, total_tokens: 1_000_000 }, 'gpt-4o-mini');
+            });
+            trackUsage({ prompt_tokens: 1_000_000, completion_tokens: 0, total_tokens: 1_000_000 }, 'gpt-4o-mini');
+        } finally {
+            stop();
+        }
+
+        await vi.waitFor(async () => {
+            expect((await getTenantQuotaStatus('globex')).usage.spend_usd).toBeGreaterThan(0);
+        });
+        expect(await isSpendQuotaExhausted('globex')).toBe(true);
+        expect(await isSpendQuotaExhausted('acme')).toBe(false);
+        expect(await isSpendQuotaExhausted(undefined)).toBe(false);
+        await expect(createJob({ niches: 'a', locations: 'b' }, 'globex')).rejects.toThrow(/spend quota/);
+    });
+
+    it('books CostLedger spend on the tenant of the ledger or of the running job', async () => {
+        const entry: LedgerEntry = {
+            timestamp: new Date().toISOString(),
+            module: 'PreVerifyGate',
+            provider: 'JINA',
+            tier: 2,
+            task_type: 'verify',
+            cost_eur: 0.02,
+            cache_hit: false,
+            cache_level: 'MISS',
+            duration_ms: 10,
+            success: true,
+        };
+        const ledger = new CostLedger(fs.mkdtempSync(path.join(os.tmpdir(), 'ledger-')), 'initech');
+        const shared = new CostLedger(fs.mkdtempSync(path.join(os.tmpdir(), 'ledger-')));
+        const stops = [trackLedgerSpend(ledger), trackLedgerSpend(shared)];
+        try {
+            await ledger.log(entry);
+            await withLiveContext({ run_id: 'run-hooli', tenant_id: 'hooli' }, () => shared.log(entry));
+            await shared.log(entry);
+        } finally {
+            stops.forEach((stop) => stop());
+            ledger.cleanup();
+            shared.cleanup();
+        }
+
+        expect((await ledger.getRecentEntries(1))[0].tenant_id).toBe('initech');
+        await vi.waitFor(async () => {
+            expect(await isSpendQuotaExhausted('initech')).toBe(true);
+            expect(await isSpendQuotaExhausted('hooli')).toBe(true);
+        });
+        expect(await isSpendQuotaExhausted('acme')).toBe(false);
+    });
+});
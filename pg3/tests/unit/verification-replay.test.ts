@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import {
+    listVerificationSnapshots,
+    loadVerificationSnapshot,
+    NewVerificationSnapshot,
+    saveVerificationSnapshot,
+} from '../../src/enricher/core/verification/snapshot_store';
+import { parseSnapshotLabels, replaySnapshot, replayVerification, thresholdMetrics } from '../../src/enricher/core/verification/replay';
+import { CompanyInput } from '../../src/enricher/types';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pg3-snapshots-'));
+
+const bianchi: CompanyInput = { company_name: 'Forno Bianchi Snc', city: 'Vicenza', phone: '0444 123456', vat_code: '01234560248' };
+const rossi: CompanyInput = { company_name: 'Panificio Rossi', city: 'Padova', vat_code: '09876540281' };
+
+const SCHEMA_HTML = `<html><head><title>Forno Bianchi</title>
+<script type="application/ld+json">{"@type": "Bakery", "@graph": [{"@type": "LocalBusiness", "vatID": "IT01234560248", "url": "https://www.fornobianchi.it/"}]}</script>
+</head><body>Forno Bianchi, pane a Vicenza</body></html>`;
+
+function snapshot(overrides: Partial<NewVerificationSnapshot>): NewVerificationSnapshot {
+    return {
+        company: bianchi,
+        candidate_url: 'https://fornobianchi.it',
+        final_url: 'https://www.fornobianchi.it/',
+        via: 'http',
+        title: 'Forno Bianchi',
+        pages: [{ url: 'https://www.fornobianchi.it/', text: 'Forno Bianchi, pane e dolci a Vicenza dal 1962. Contatti' }],
+        live: { confidence: 0.5, reason_code: 'REJECTED_NO_MATCHING_SIGNALS' },
+        ...overrides,
+    };
+}
+
+describe('Verification snapshots', () => {
+    afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    let withSchema = '';
+    let contactPage = '';
+    let directory = '';
+    let wrongCompany = '';
+
+    it('archives contents once and round-trips a snapshot', () => {
+        withSchema = saveVerificationSnapshot(snapshot({ html: SCHEMA_HTML }), dir, new Date('2026-10-01T10:00:00Z'));
+        contactPage = saveVerificationSnapshot(snapshot({
+            via: 'browser',
+            pages: [
+                { url: 'https://www.fornobianchi.it/', text: 'Forno Bianchi, pane e dolci a Vicenza dal 1962. Contatti' },
+                { url: 'https://www.fornobianchi.it/contatti', text: 'Tel. 0444 123456 - P.IVA 01234560248' },
+            ],
+            live: { confidence: 0.99, reason_code: 'OK_CONFIRMED_VAT_MATCH' },
+        }), dir, new Date('2026-10-01T11:00:00Z'));
+        directory = saveVerificationSnapshot(snapshot({
+            candidate_url: 'https://www.paginegialle.it/vicenza/forno-bianchi',
+            final_url: 'https://www.paginegialle.it/vicenza/forno-bianchi',
+            title: 'Forni a Vicenza',
+            pages: [{ url: 'https://www.paginegialle.it/vicenza/forno-bianchi', text: 'Forni a Vicenza: Forno Bianchi, Forno Verdi, Forno Neri' }],
+        }), dir, new Date('2026-10-01T12:00:00Z'));
+        // Same site, other company: a different snapshot sharing the page blob
+        wrongCompany = saveVerificationSnapshot(snapshot({ company: rossi }), dir, new Date('2026-10-01T13:00:00Z'));
+
+        expect(new Set([withSchema, contactPage, directory, wrongCompany]).size).toBe(4);
+        const blobs = fs.readdirSync(path.join(dir, 'blobs')).flatMap((prefix) => fs.readdirSync(path.join(dir, 'blobs', prefix)));
+        // schema html + homepage text + contact text + directory text
+        expect(blobs).toHaveLength(4);
+
+        expect(loadVerificationSnapshot(withSchema, dir)).toMatchObject({ id: withSchema, html: SCHEMA_HTML, company: bianchi, via: 'http' });
+        expect(loadVerificationSnapshot(contactPage, dir)?.pages[1].text).toBe('Tel. 0444 123456 - P.IVA 01234560248');
+        expect(loadVerificationSnapshot('f'.repeat(64), dir)).toBeNull();
+        expect(loadVerificationSnapshot('../escape', dir)).toBeNull();
+    });
+
+    it('rewrites the snapshot of unchanged evidence', () => {
+        expect(saveVerificationSnapshot(snapshot({ company: rossi, live: { confidence: 0.1 } }), dir, new Date('2026-10-02T09:00:00Z'))).toBe(wrongCompany);
+        const manifests = listVerificationSnapshots(dir);
+        expect(manifests.map((manifest) => manifest.id)).toEqual([withSchema, contactPage, directory, wrongCompany]);
+        expect(manifests[3]).toMatchObject({ captured_at: '2026-10-02T09:00:00.000Z', live: { confidence: 0.1 } });
+        expect(listVerificationSnapshots(path.join(dir, 'missing'))).toEqual([]);
+    });
+
+    it('rescores snapshots offline with the rules of their fetch path', () => {
+        const schemaReplay = replaySnapshot(loadVerificationSnapshot(withSchema, dir)!);
+        expect(schemaReplay.confidence).toBe(0.99);
+        expect(schemaReplay.reason).toContain('schema.org vat match');
+
+        const crawled = replaySnapshot(loadVerificationSnapshot(contactPage, dir)!);
+        expect(crawled.signalSources).toMatchObject({ vat: 'https://www.fornobianchi.it/contatti' });
+        expect(crawled.confidence).toBeGreaterThan(0.9);
+    });
+
+    it('reports precision and recall per threshold against the labels', () => {
+        const labels = parseSnapshotLabels([
+            JSON.stringify({ snapshot: withSchema, match: true }),
+            JSON.stringify({ snapshot: contactPage, match: true }),
+            '',
+            JSON.stringify({ snapshot: directory, match: false, url: 'ignored' }),
+            JSON.stringify({ snapshot: wrongCompany, match: false }),
+            JSON.stringify({ snapshot: 'a'.repeat(64), match: true }),
+            JSON.stringify({ snapshot: 'b'.repeat(64), match: null }),
+        ].join('\n'));
+
+        const report = replayVerification(labels, { dir, thresholds: [0, 0.9, 1.01] });
+        expect(report.replayed).toBe(4);
+        expect(report.missing).toEqual(['a'.repeat(64)]);
+        expect(report.results.find((result) => result.snapshot === wrongCompany)).toMatchObject({ match: false, live_confidence: 0.1 });
+
+        const [all, strict, none] = report.thresholds;
+        expect(all).toMatchObject({ true_positives: 2, false_positives: 2, precision: 0.5, recall: 1 });
+        expect(strict).toMatchObject({ true_positives: 2, false_positives: 0, true_negatives: 2, precision: 1, recall: 1 });
+        expect(none).toMatchObject({ true_positives: 0, false_negatives: 2, precision: 0, recall: 0 });
+    });
+
+    it('rejects malformed labels with their line number', () => {
+        expect(() => parseSnapshotLabels('{"snapshot": "abc", "match": true}\nnot json')).toThrow('line 2');
+        expect(() => parseSnapshotLabels('{"snapshot": "abc", "match": "yes"}')).toThrow('line 1: match');
+        expect(thresholdMetrics([], 0.5)).toMatchObject({ precision: 0, recall: 0 });
+    });
+});
@@ -0,0 +1,223 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+    process.env.SQLITE_PATH = ':memory:';
+});
+
+const { enqueueWebhookDelivery } = vi.hoisted(() => ({
+    enqueueWebhookDelivery: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../../src/enricher/queue', () => ({
+    QUEUE_NAMES: { WEBHOOK: 'webhook' },
+    enqueueWebhookDelivery,
+    redisConnection: {},
+}));
+
+// A public name that an attacker points at an internal address
+vi.mock('dns/promises', async (importOriginal) => {
+    const dns = await importOriginal<typeof import('dns/promises')>();
+    return {
+        ...dns,
+        lookup: (hostname: string, options: object) => hostname === 'hooks.rebind.example'
+            ? Promise.resolve([{ address: '10.0.0.7', family: 4 }])
+            : dns.lookup(hostname, options as never),
+    };
+});
+
+import { initializeDatabase } from '../../src/enricher/db';
+import { initializeResultStore } from '../../src/enricher/db/result_store';
+import { deliverWebhook } from '../../src/enricher/webhooks/delivery';
+import { buildCompanyEnrichedData, publishWebhookEvent, WebhookEnvelope } from '../../src/enricher/webhooks/events';
+import { signWebhookPayload, verifyWebhookSignature } from '../../src/enricher/webhooks/signing';
+import {
+    createWebhookSubscription,
+    listWebhookDeliveries,
+    removeWebhookSubscription,
+    toPublicSubscription,
+} from '../../src/enricher/webhooks/subscriptions';
+import { isPrivateAddress, resolvePublicAddresses } from '../../src/enricher/webhooks/targets';
+import { NetworkError, NotFoundError, ValidationError } from '../../src/utils/errors';
+
+interface ReceivedRequest {
+    headers: http.IncomingHttpHeaders;
+    body: string;
+}
+
+describe('Webhooks', () => {
+    const received: ReceivedRequest[] = [];
+    let responseStatus = 200;
+    let receiverUrl = '';
+    const receiver = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => { body += chunk; });
+        req.on('end', () => {
+            received.push({ headers: req.headers, body });
+            res.statusCode = responseStatus;
+            res.end();
+        });
+    });
+
+    initializeDatabase();
+    beforeAll(async () => {
+        await initializeResultStore();
+        await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+        receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => receiver.close(resolve));
+    });
+
+    it('signs the timestamp and body and rejects tampering or stale deliveries', () => {
+        const now = Date.parse('2026-03-01T10:00:00.000Z');
+        const timestamp = Math.floor(now / 1000);
+        const signature = signWebhookPayload('whsec_secret', timestamp, '{"a":1}');
+
+        expect(signature).toMatch(/^sha256=[a-f0-9]{64}$/);
+        expect(verifyWebhookSignature('whsec_secret', timestamp, '{"a":1}', signature, { now })).toBe(true);
+        expect(verifyWebhookSignature('whsec_secret', timestamp, '{"a":2}', signature, { now })).toBe(false);
+        expect(verifyWebhookSignature('whsec_other', timestamp, '{"a":1}', signature, { now })).toBe(false);
+        expect(verifyWebhookSignature('whsec_secret', timestamp, '{"a":1}', signature, { now: now + 3_600_000 })).toBe(false);
+    });
+
+    it('validates subscriptions and never lists the secret', async () => {
+        await expect(createWebhookSubscription({ url: 'ftp://example.com', events: ['run.finished'] })).rejects.toBeInstanceOf(ValidationError);
+        await expect(createWebhookSubscription({ url: 'https://hooks.example/pg3', events: [] })).rejects.toBeInstanceOf(ValidationError);
+        await expect(createWebhookSubscription({ url: 'https://hooks.example/pg3', events: 'run.finished,company.deleted' })).rejects.toThrow(/company.deleted/);
+
+        const subscription = await createWebhookSubscription({ url: 'https://hooks.example/pg3', events: 'run.finished, run.finished' });
+        expect(subscription.events).toEqual(['run.finished']);
+        expect(subscription.secret).toMatch(/^whsec_/);
+        expect(toPublicSubscription(subscription)).not.toHaveProperty('secret');
+        await removeWebhookSubscription(subscription.id);
+    });
+
+    it('rejects private and loopback targets unless the operator allows them', async () => {
+        const targets = ['http://127.0.0.1/hooks', 'http://169.254.169.254/latest/meta-data', 'https://10.0.0.5/hooks', 'http://localhost:3000/hooks', 'http://[::1]/hooks', 'http://[::ffff:127.0.0.1]/hooks', 'http://0x7f000001/hooks'];
+        for (const url of targets) {
+            await expect(createWebhookSubscription({ url, events: ['run.finished'] }, 'acme')).rejects.toThrow(/private or loopback/);
+            await expect(createWebhookSubscription({ url, events: ['run.finished'] })).rejects.toBeInstanceOf(ValidationError);
+        }
+        await expect(createWebhookSubscription({ url: receiverUrl, events: ['run.finished'] }, 'acme', { allowPrivateTargets: true })).rejects.toThrow(/operator/);
+
+        const operator = await createWebhookSubscription({ url: receiverUrl, events: ['run.finished'] }, undefined, { allowPrivateTargets: true });
+        expect(operator.url).toBe(receiverUrl);
+        await removeWebhookSubscription(operator.id);
+
+        expect(['172.20.1.1', '192.168.1.10', '100.64.0.1', '0.0.0.0', 'fd00::1', 'fe80::1'].filter((address) => !isPrivateAddress(address))).toEqual([]);
+        expect(isPrivateAddress('93.184.216.34')).toBe(false);
+        await expect(resolvePublicAddresses('hooks.rebind.example')).rejects.toThrow(/resolves to a private address: 10.0.0.7/);
+    });
+
+    it('publishes events to matching subscriptions of the same tenant and to operator subscriptions', async () => {
+        const acme = await createWebhookSubscription({ url: 'https://hooks.acme.example/pg3', events: ['company.enriched'], secret: 'whsec_acme_0123456789' }, 'acme');
+        const globex = await createWebhookSubscription({ url: 'https://hooks.globex.example/pg3', events: ['company.enriched'] }, 'globex');
+        const operator = await createWebhookSubscription({ url: 'https://ops.example/pg3', events: ['company.enriched', 'dlq.entry'] });
+        const store = await initializeResultStore();
+        await store.insertCompanies([{ id: 'acme:alfa', company_name: 'Alfa Srl', tenant_id: 'acme' }]);
+        await store.insertEnrichmentResult({ id: 'er-acme:alfa', company_id: 'acme:alfa', vat: '01114601006', is_estimated_employees: false, website_validated: 'https://alfa.it' });
+
+        const data = await buildCompanyEnrichedData(
+            { success: true, company_id: 'acme:alfa', vat: '01114601006', website_url: 'https://alfa.it' },
+            { company_name: 'Alfa Srl', run_id: 'run-1' }
+        );
+        const deliveryIds = await publishWebhookEvent('company.enriched', data, 'acme');
+
+        expect(deliveryIds).toHaveLength(2);
+        expect(enqueueWebhookDelivery.mock.calls.map(([id]) => id)).toEqual(expect.arrayContaining(deliveryIds));
+        expect(await listWebhookDeliveries(globex.id, 'globex')).toEqual([]);
+        expect(await listWebhookDeliveries(operator.id)).toHaveLength(1);
+        await expect(listWebhookDeliveries(acme.id, 'globex')).rejects.toBeInstanceOf(NotFoundError);
+
+        const [delivery] = await listWebhookDeliveries(acme.id, 'acme');
+        const envelope = JSON.parse(delivery.payload) as WebhookEnvelope<'company.enriched'>;
+        expect(envelope).toMatchObject({ id: delivery.id, event: 'company.enriched', tenant_id: 'acme' });
+        expect(envelope.data).toMatchObject({ company_name: 'Alfa Srl', result: { vat: '01114601006' }, enrichment: { website_validated: 'https://alfa.it' } });
+
+        expect(await publishWebhookEvent('run.finished', { run: { id: 'run-1' } as never }, 'acme')).toEqual([]);
+        await Promise.all([acme, globex, operator].map((subscription) => removeWebhookSubscription(subscription.id)));
+    });
+
+    it('delivers signed payloads to the receiver', async () => {
+        const subscription = await createWebhookSubscription(
+            { url: receiverUrl, events: ['run.finished'], secret: 'whsec_receiver_0123456789' },
+            undefined,
+            { allowPrivateTargets: true }
+        );
+        const [deliveryId] = await publishWebhookEvent('run.finished', { run: { id: 'run-9' } as never }, 'initech');
+        received.length = 0;
+        responseStatus = 204;
+
+        const delivery = await deliverWebhook(deliveryId);
+
+        expect(delivery).toMatchObject({ status: 'DELIVERED', attempts: 1, response_status: 204 });
+        expect(delivery.delivered_at).toBeTruthy();
+        const [request] = received;
+        expect(request.headers['x-pg3-event']).toBe('run.finished');
+        expect(request.headers['x-pg3-delivery']).toBe(deliveryId);
+        expect(JSON.parse(request.body)).toMatchObject({ event: 'run.finished', data: { run: { id: 'run-9' } } });
+        const timestamp = Number(request.headers['x-pg3-timestamp']);
+        expect(verifyWebhookSignature(subscription.secret, timestamp, request.body, String(request.headers['x-pg3-signature']))).toBe(true);
+
+        // Already delivered: a duplicate job does not POST again
+        await deliverWebhook(deliveryId);
+        expect(received).toHaveLength(1);
+        await removeWebhookSubscription(subscription.id);
+    });
+
+    it('refuses tenant deliveries to private addresses, before and after DNS resolution', async () => {
+        // Stored before the creation check existed
+        const store = await initializeResultStore();
+        await store.createWebhookSubscription({ id: 'wh-legacy', tenant_id: 'initech', url: receiverUrl, secret: 'whsec_legacy_0123456789', events: ['run.finished'] });
+        const rebound = await createWebhookSubscription({ url: 'http://hooks.rebind.example/pg3', events: ['run.finished'] }, 'initech');
+        const deliveryIds = await publishWebhookEvent('run.finished', { run: { id: 'run-10' } as never }, 'initech');
+        received.length = 0;
+
+        const deliveries = await Promise.all(deliveryIds.map((deliveryId) => deliverWebhook(deliveryId)));
+
+        expect(deliveries).toHaveLength(2);
+        for (const delivery of deliveries) {
+            expect(delivery).toMatchObject({ status: 'FAILED', attempts: 1 });
+            expect(delivery.error).toMatch(/private/);
+        }
+        expect(received).toHaveLength(0);
+        await Promise.all(['wh-legacy', rebound.id].map((id) => removeWebhookSubscription(id)));
+    });
+
+    it('retries failed deliveries and gives up on the last attempt', async () => {
+        const subscription = await createWebhookSubscription({ url: receiverUrl, events: ['dlq.entry'] }, undefined, { allowPrivateTargets: true });
+        const [deliveryId] = await publishWebhookEvent('dlq.entry', {
+            job_id: 'dlq-1', company_id: 'umbrella:x', company_name: 'X', reason_code: 'ERROR_INTERNAL', error_category: 'UNKNOWN',
+        }, 'umbrella');
+        responseStatus = 500;
+
+        await expect(deliverWebhook(deliveryId)).rejects.toBeInstanceOf(NetworkError);
+        const final = await deliverWebhook(deliveryId, { lastAttempt: true });
+        expect(final).toMatchObject({ status: 'FAILED', attempts: 2, response_status: 500, error: 'HTTP 500' });
+        expect(final.delivered_at).toBeFalsy();
+
+        // Unreachable receiver: the connection error is recorded for the retry
+        await removeWebhookSubscription(subscription.id);
+        const offline = await createWebhookSubscription({ url: 'http://127.0.0.1:9/hooks', events: ['dlq.entry'] }, undefined, { allowPrivateTargets: true });
+        const [offlineId] = await publishWebhookEvent('dlq.entry', {
+            job_id: 'dlq-2', company_id: 'umbrella:y', company_name: 'Y', reason_code: 'ERROR_INTERNAL', error_category: 'UNKNOWN',
+        }, 'umbrella');
+        await expect(deliverWebhook(offlineId, { timeoutMs: 2000 })).rejects.toBeInstanceOf(NetworkError);
+        expect((await listWebhookDeliveries(offline.id))[0]).toMatchObject({ status: 'PENDING', attempts: 1, response_status: null });
+    });
+
+    it('drops deliveries of disabled subscriptions', async () => {
+        const subscription = await createWebhookSubscription({ url: 'https://hooks.hooli.example/pg3', events: ['run.finished'] }, 'hooli');
+        const [deliveryId] = await publishWebhookEvent('run.finished', { run: { id: 'run-h' } as never }, 'hooli');
+        await removeWebhookSubscription(subscription.id);
+        await expect(removeWebhookSubscription(subscription.id)).rejects.toBeInstanceOf(NotFoundError);
+        received.length = 0;
+
+        expect(await deliverWebhook(deliveryId)).toMatchObject({ status: 'FAILED', error: 'Subscription disabled' });
+        expect(received).toHaveLength(0);
+        expect(await publishWebhookEvent('run.finished', { run: { id: 'run-h2' } as never }, 'hooli')).toEqual([]);
+    });
+});
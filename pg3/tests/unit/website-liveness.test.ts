@@ -0,0 +1,150 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+    process.env.SQLITE_PATH = ':memory:';
+});
+
+import { getEnrichmentHistory, getEnrichmentResult, initializeDatabase, insertCompanies, insertEnrichmentResult } from '../../src/enricher/db';
+import { initializeResultStore } from '../../src/enricher/db/result_store';
+import {
+    checkWebsiteLiveness,
+    reverifyWebsites,
+    WEBSITE_DECAYED_REASON_CODES,
+    WebsiteLivenessProbe,
+} from '../../src/enricher/reconciliation/website_liveness';
+import { DomainValidator } from '../../src/enricher/utils/domain_validator';
+
+/** Sweeps run "a year from now", so every website inserted by the test is stale */
+const NEXT_YEAR = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+
+const WEBSITES: Record<string, string> = {
+    alive: 'https://alfa.it',
+    expired: 'https://beta-expired.it',
+    parked: 'https://gamma.it',
+    sold: 'https://delta.it',
+    moved: 'https://epsilon.it',
+    flaky: 'https://zeta.it',
+};
+
+/** Network answers per URL */
+const probe: WebsiteLivenessProbe = {
+    resolves: vi.fn(async (url: string) => url !== 'https://beta-expired.it'),
+    isParked: vi.fn(async (url: string) => url === 'https://gamma.it'),
+    verify: vi.fn(async (url: string) => {
+        switch (url) {
+            case 'https://delta.it': return { confidence: 0.2, reason_code: 'NOT_FOUND_NAME_MISMATCH' };
+            case 'https://epsilon.it': return { confidence: 0.9, final_url: 'https://www.epsilon-group.com/it', reason_code: 'OK_CONFIRMED_VAT_MATCH' };
+            case 'https://zeta.it': return { confidence: 0, reason_code: 'ERROR_TIMEOUT' };
+            // a redirect to www. of the same domain is not a move
+            default: return { confidence: 0.85, final_url: url.replace(/^https:\/\/(www\.)?/, 'https://www.'), reason_code: 'OK_CONFIRMED_PHONE_MATCH' };
+        }
+    }),
+};
+
+describe('Website liveness re-verification', () => {
+    initializeDatabase();
+    beforeAll(async () => {
+        await initializeResultStore();
+        insertCompanies(Object.keys(WEBSITES).map((id) => ({ id, company_name: `${id} Srl`, city: 'Verona' })));
+        for (const [id, website] of Object.entries(WEBSITES)) {
+            insertEnrichmentResult({
+                id: `er-${id}`,
+                company_id: id,
+                is_estimated_employees: false,
+                website_validated: website,
+                discovery_confidence: 0.8,
+                reason_code: 'OK_CONFIRMED_PHONE_MATCH',
+            });
+        }
+    });
+
+    it('classifies a website with the cheapest failing check', async () => {
+        const company = { company_name: 'Alfa Srl' };
+        expect(await checkWebsiteLiveness(probe, 'beta-expired.it', company)).toEqual({ status: 'DEAD' });
+        expect(await checkWebsiteLiveness(probe, 'https://gamma.it', company)).toEqual({ status: 'PARKED' });
+        expect(probe.verify).not.toHaveBeenCalled();
+
+        const gated = { ...probe, gate: vi.fn().mockResolvedValueOnce('REJECTED').mockResolvedValueOnce('PARKED') };
+        expect(await checkWebsiteLiveness(gated, 'https://alfa.it', company)).toEqual({ status: 'DEAD' });
+        expect(await checkWebsiteLiveness(gated, 'https://alfa.it', company)).toEqual({ status: 'PARKED' });
+
+        expect(await checkWebsiteLiveness(probe, 'https://alfa.it', company)).toMatchObject({ status: 'ALIVE', confidence: 0.85 });
+        expect(await checkWebsiteLiveness(probe, 'https://epsilon.it', company)).toMatchObject({ status: 'MOVED', moved_to: 'https://www.epsilon-group.com/it' });
+        expect(await checkWebsiteLiveness(probe, 'https://zeta.it', company)).toEqual({ status: 'INCONCLUSIVE', reason_code: 'ERROR_TIMEOUT' });
+    });
+
+    it('keeps websites whose DNS lookup fails without an NXDOMAIN answer', async () => {
+        const timeout = Object.assign(new Error('queryA ETIMEOUT alfa.it'), { code: 'ETIMEOUT' });
+        const flaky = { ...probe, resolves: vi.fn().mockRejectedValue(timeout), verify: vi.fn() };
+
+        expect(await checkWebsiteLiveness(flaky, 'https://alfa.it', { company_name: 'Alfa Srl' })).toEqual({ status: 'INCONCLUSIVE' });
+        expect(flaky.verify).not.toHaveBeenCalled();
+    });
+
+    it('keeps websites that do not answer the parking fetch', async () => {
+        const timeout = Object.assign(new Error('timeout of 8000ms exceeded'), { code: 'ECONNABORTED' });
+        const slow = { ...probe, isParked: vi.fn().mockRejectedValue(timeout), verify: vi.fn() };
+
+        expect(await checkWebsiteLiveness(slow, 'https://alfa.it', { company_name: 'Alfa Srl' })).toEqual({ status: 'INCONCLUSIVE' });
+        expect(slow.verify).not.toHaveBeenCalled();
+
+        // A server that accepts the connection but never answers is unreachable, not parked
+        const silent = http.createServer(() => undefined);
+        await new Promise<void>((resolve) => silent.listen(0, '127.0.0.1', resolve));
+        const url = `http://127.0.0.1:${(silent.address() as AddressInfo).port}/`;
+        try {
+            expect(await DomainValidator.checkParking(url, 200)).toBe('UNREACHABLE');
+        } finally {
+            silent.closeAllConnections();
+            await new Promise((resolve) => silent.close(resolve));
+        }
+    });
+
+    it('leaves recently verified websites alone', async () => {
+        const summary = await reverifyWebsites({ probe, olderThanDays: 30 });
+        expect(summary).toMatchObject({ checked: 0, transitions: [] });
+    });
+
+    it('downgrades decayed websites, follows moved ones and records the transitions', async () => {
+        const rediscover = vi.fn(async (companyIds: string[]) => companyIds.length);
+        const summary = await reverifyWebsites({ probe, olderThanDays: 30, now: NEXT_YEAR, rediscover });
+
+        expect(summary).toMatchObject({ checked: 6, alive: 1, moved: 1, decayed: 3, inconclusive: 1, rediscovered: 3 });
+        expect(rediscover).toHaveBeenCalledWith(expect.arrayContaining(['expired', 'parked', 'sold']));
+        expect(summary.transitions.map((check) => [check.company_id, check.status, check.current]).sort()).toEqual([
+            ['expired', 'DEAD', null],
+            ['moved', 'MOVED', 'https://www.epsilon-group.com/it'],
+            ['parked', 'PARKED', null],
+            ['sold', 'MISMATCH', null],
+        ]);
+
+        expect(getEnrichmentResult('expired')).toMatchObject({ website_validated: null, reason_code: WEBSITE_DECAYED_REASON_CODES.DEAD });
+        expect(getEnrichmentResult('parked')).toMatchObject({ website_validated: null, reason_code: 'WEBSITE_DECAYED_PARKED' });
+        expect(getEnrichmentResult('sold')).toMatchObject({ website_validated: null, reason_code: 'WEBSITE_DECAYED_NO_LONGER_MATCHES', discovery_confidence: 0.2 });
+        expect(getEnrichmentResult('moved')).toMatchObject({ website_validated: 'https://www.epsilon-group.com/it', discovery_confidence: 0.9 });
+        expect(getEnrichmentResult('alive')).toMatchObject({ website_validated: 'https://alfa.it', reason_code: 'OK_CONFIRMED_PHONE_MATCH' });
+        expect(getEnrichmentResult('flaky')).toMatchObject({ website_validated: 'https://zeta.it', reason_code: 'OK_CONFIRMED_PHONE_MATCH' });
+
+        // the previous website stays in the field history
+        const websites = getEnrichmentHistory('expired').filter((version) => version.field === 'website_validated');
+        expect(websites.map((version) => version.value)).toEqual(['https://beta-expired.it', null]);
+        expect(websites[1].run_id).toMatch(/^reverify-/);
+        expect(getEnrichmentHistory('alive').filter((version) => version.field === 'website_validated')).toHaveLength(1);
+    });
+
+    it('re-checks only websites that are still stored', async () => {
+        const recent = await reverifyWebsites({ probe, olderThanDays: 0, now: new Date(Date.now() - 24 * 60 * 60 * 1000) });
+        expect(recent.checked).toBe(0);
+
+        expect((await reverifyWebsites({ probe, olderThanDays: 30, now: NEXT_YEAR, limit: 1 })).checked).toBe(1);
+
+        vi.mocked(probe.verify).mockClear();
+        const summary = await reverifyWebsites({ probe, olderThanDays: 30, now: NEXT_YEAR });
+        expect(summary).toMatchObject({ checked: 3, alive: 2, moved: 0, inconclusive: 1, decayed: 0 });
+        expect(vi.mocked(probe.verify).mock.calls.map(([url]) => url).sort()).toEqual([
+            'https://alfa.it', 'https://www.epsilon-group.com/it', 'https://zeta.it',
+        ]);
+    });
+});